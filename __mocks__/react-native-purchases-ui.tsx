@@ -114,9 +114,10 @@ interface PaywallProps {
 
 /**
  * Mock Paywall component for testing.
- * Renders a simple view with testable buttons.
+ * Renders a simple view with testable buttons and the presented offering.
  */
 function MockPaywall({
+  options,
   onPurchaseStarted,
   onPurchaseCompleted,
   onPurchaseError,
@@ -164,6 +165,10 @@ function MockPaywall({
   return (
     <View testID="mock-paywall">
       <Text>Mock Paywall</Text>
+      <Text testID="mock-paywall-offering">
+        {(options?.offering as { identifier?: string } | undefined)
+          ?.identifier ?? 'default'}
+      </Text>
       <Pressable testID="mock-purchase-button" onPress={handlePurchase}>
         <Text>Purchase</Text>
       </Pressable>
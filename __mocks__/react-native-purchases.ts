@@ -22,6 +22,17 @@ interface MockCustomerInfo {
   originalAppUserId: string;
   originalApplicationVersion: string | null;
   originalPurchaseDate: string | null;
+  managementURL: string | null;
+  subscriptionsByProductIdentifier?: Record<
+    string,
+    {
+      productIdentifier: string;
+      purchaseDate: string;
+      expiresDate: string | null;
+      isActive: boolean;
+      storeTransactionId: string | null;
+    }
+  >;
 }
 
 interface MockEntitlement {
@@ -46,6 +57,16 @@ interface MockEntitlement {
   ownershipType: string;
 }
 
+interface MockDiscount {
+  identifier: string;
+  price: number;
+  priceString: string;
+  cycles: number;
+  period: string;
+  periodUnit: string;
+  periodNumberOfUnits: number;
+}
+
 interface MockPurchasesPackage {
   identifier: string;
   packageType: string;
@@ -65,7 +86,30 @@ interface MockPurchasesPackage {
   offeringIdentifier: string;
 }
 
+interface MockStoreProduct {
+  identifier: string;
+  description: string;
+  title: string;
+  price: number;
+  priceString: string;
+  currencyCode: string;
+  introPrice: null;
+  productCategory: string;
+  productType: string;
+}
+
 // Mock CustomerInfo for free user
+/**
+ * Subscription management URL reported for customers with a purchase.
+ */
+export const MOCK_MANAGEMENT_URL =
+  'https://apps.apple.com/account/subscriptions';
+
+/**
+ * Store transaction behind the premium subscription.
+ */
+export const MOCK_SUBSCRIPTION_TRANSACTION_ID = 'mock-subscription-transaction';
+
 export const mockFreeCustomerInfo: MockCustomerInfo = {
   entitlements: {
     active: {},
@@ -77,6 +121,7 @@ export const mockFreeCustomerInfo: MockCustomerInfo = {
   originalAppUserId: 'test-user-123',
   originalApplicationVersion: null,
   originalPurchaseDate: null,
+  managementURL: null,
 };
 
 /**
@@ -122,6 +167,16 @@ export function createMockPremiumCustomerInfo(): MockCustomerInfo {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
+    subscriptionsByProductIdentifier: {
+      monthly_plan: {
+        productIdentifier: 'monthly_plan',
+        purchaseDate: nowIso,
+        expiresDate: expirationIso,
+        isActive: true,
+        storeTransactionId: MOCK_SUBSCRIPTION_TRANSACTION_ID,
+      },
+    },
   };
 }
 
@@ -129,6 +184,9 @@ export function createMockPremiumCustomerInfo(): MockCustomerInfo {
 export const mockPremiumCustomerInfo: MockCustomerInfo =
   createMockPremiumCustomerInfo();
 
+// RevenueCat prefixes generated (anonymous) app user ids with $RCAnonymousID:
+const ANONYMOUS_APP_USER_ID = '$RCAnonymousID:test-user-123';
+
 // Test utilities for setting up mock state
 let mockCustomerInfo: MockCustomerInfo = mockFreeCustomerInfo;
 let mockShouldFailPurchase = false;
@@ -138,6 +196,17 @@ let mockRestoreErrorCode: number | null = null;
 let mockShouldFailOfferings = false;
 let mockOfferingsErrorCode: number | null = null;
 let mockOperationInProgress = false;
+let mockShouldFailLogIn = false;
+let mockLogInErrorCode: number | null = null;
+let mockAppUserId = ANONYMOUS_APP_USER_ID;
+let mockCustomerInfoListeners: ((customerInfo: MockCustomerInfo) => void)[] =
+  [];
+let mockIntroEligibility: Record<string, number> = {};
+let mockProductDiscounts: MockDiscount[] = [];
+let mockWinBackOffers: MockDiscount[] = [];
+let mockPromotionalOfferIneligible = false;
+let mockRefundRequestStatus = 0;
+let mockTransactionCount = 0;
 
 /**
  * Set up the mock to return free user state.
@@ -199,6 +268,7 @@ export function setupExpiredSubscriptionMock(daysAgo: number = 1): void {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
   };
 }
 
@@ -245,6 +315,7 @@ export function setupTrialSubscriptionMock(trialDaysRemaining: number): void {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
   };
 }
 
@@ -293,6 +364,7 @@ export function setupCancelledSubscriptionMock(expiresInDays: number): void {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
   };
 }
 
@@ -338,17 +410,18 @@ export function setupBillingIssueMock(): void {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
   };
 }
 
 /**
- * Set up the mock to simulate a lifetime subscription (no expiration).
+ * Create CustomerInfo for a lifetime (non-expiring) premium purchase.
  */
-export function setupLifetimeSubscriptionMock(): void {
+export function createMockLifetimeCustomerInfo(): MockCustomerInfo {
   const now = Date.now();
   const nowIso = new Date(now).toISOString();
 
-  mockCustomerInfo = {
+  return {
     entitlements: {
       active: {
         premium: {
@@ -381,9 +454,17 @@ export function setupLifetimeSubscriptionMock(): void {
     originalAppUserId: 'test-user-123',
     originalApplicationVersion: null,
     originalPurchaseDate: nowIso,
+    managementURL: MOCK_MANAGEMENT_URL,
   };
 }
 
+/**
+ * Set up the mock to simulate a lifetime subscription (no expiration).
+ */
+export function setupLifetimeSubscriptionMock(): void {
+  mockCustomerInfo = createMockLifetimeCustomerInfo();
+}
+
 /**
  * Set up the mock to simulate a purchase error.
  * @param errorCode - The error code to return
@@ -419,6 +500,79 @@ export function setupOperationInProgress(): void {
   mockOperationInProgress = true;
 }
 
+/**
+ * Set up the mock as if an identified app user were logged in.
+ * @param appUserId - The logged in app user id
+ */
+export function setupLoggedInUserMock(appUserId: string): void {
+  mockAppUserId = appUserId;
+}
+
+/**
+ * Set up the mock to simulate a logIn error.
+ * @param errorCode - The error code to return
+ */
+export function setupLogInError(errorCode: number): void {
+  mockShouldFailLogIn = true;
+  mockLogInErrorCode = errorCode;
+}
+
+/**
+ * Set up intro offer eligibility per product identifier.
+ * Products without an entry report INTRO_ELIGIBILITY_STATUS_UNKNOWN.
+ * @param statuses - INTRO_ELIGIBILITY_STATUS value per product identifier
+ */
+export function setupIntroEligibilityMock(
+  statuses: Record<string, number>
+): void {
+  mockIntroEligibility = statuses;
+}
+
+/**
+ * Set up the promotional offers (discounts) listed on every offered product.
+ * @param discounts - Product discounts
+ */
+export function setupProductDiscountsMock(discounts: MockDiscount[]): void {
+  mockProductDiscounts = discounts;
+}
+
+/**
+ * Set up the win-back offers the customer is eligible for.
+ * @param offers - Eligible win-back offers
+ */
+export function setupWinBackOffersMock(offers: MockDiscount[]): void {
+  mockWinBackOffers = offers;
+}
+
+/**
+ * Set up getPromotionalOffer to reject with INELIGIBLE_ERROR.
+ */
+export function setupPromotionalOfferIneligible(): void {
+  mockPromotionalOfferIneligible = true;
+}
+
+/**
+ * Set up the status beginRefundRequestForProduct resolves to.
+ * @param status - REFUND_REQUEST_STATUS value (defaults to SUCCESS)
+ */
+export function setupRefundRequestStatus(status: number): void {
+  mockRefundRequestStatus = status;
+}
+
+/**
+ * Simulate RevenueCat pushing updated CustomerInfo to registered listeners.
+ * Defaults to the current mock CustomerInfo (e.g., after setupPremiumUserMock()).
+ * @param customerInfo - CustomerInfo to deliver
+ */
+export function emitCustomerInfoUpdate(
+  customerInfo: MockCustomerInfo = mockCustomerInfo
+): void {
+  mockCustomerInfo = customerInfo;
+  for (const listener of [...mockCustomerInfoListeners]) {
+    listener(customerInfo);
+  }
+}
+
 /**
  * Implementation factory functions for mock methods.
  * These are used to reduce duplication between initial setup and resetMock().
@@ -435,26 +589,142 @@ namespace MockImplementations {
         mockOfferingsErrorCode ?? PURCHASES_ERROR_CODE.UNKNOWN_ERROR;
       return Promise.reject(error);
     }
-    return Promise.resolve(defaultMockOfferings);
+    if (mockProductDiscounts.length === 0) {
+      return Promise.resolve(defaultMockOfferings);
+    }
+    const current = defaultMockOfferings.current;
+    return Promise.resolve({
+      ...defaultMockOfferings,
+      current: {
+        ...current,
+        availablePackages: current.availablePackages.map((pkg) => ({
+          ...pkg,
+          product: { ...pkg.product, discounts: mockProductDiscounts },
+        })),
+      },
+    });
   }
 
-  export function purchasePackage(_pkg: MockPurchasesPackage) {
+  export function getProducts(
+    productIdentifiers: string[],
+    type: string = PRODUCT_CATEGORY.SUBSCRIPTION
+  ) {
+    const products =
+      type === PRODUCT_CATEGORY.NON_SUBSCRIPTION
+        ? defaultMockNonSubscriptionProducts
+        : defaultMockOfferings.current.availablePackages.map(
+            (pkg) => pkg.product
+          );
+    return Promise.resolve(
+      products.filter((product) =>
+        productIdentifiers.includes(product.identifier)
+      )
+    );
+  }
+
+  export function beginRefundRequestForProduct() {
+    return Promise.resolve(mockRefundRequestStatus);
+  }
+
+  export function checkTrialOrIntroductoryPriceEligibility(
+    productIdentifiers: string[]
+  ) {
+    return Promise.resolve(
+      Object.fromEntries(
+        productIdentifiers.map((identifier) => [
+          identifier,
+          {
+            status:
+              mockIntroEligibility[identifier] ??
+              INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_UNKNOWN,
+            description: 'Mock eligibility',
+          },
+        ])
+      )
+    );
+  }
+
+  export function getPromotionalOffer(
+    _product: MockPurchasesPackage['product'],
+    discount: MockDiscount
+  ) {
+    if (mockPromotionalOfferIneligible) {
+      const error = new Error('User is ineligible for promotional offer');
+      (error as Error & { code: number }).code =
+        PURCHASES_ERROR_CODE.INELIGIBLE_ERROR;
+      return Promise.reject(error);
+    }
+    return Promise.resolve({
+      identifier: discount.identifier,
+      keyIdentifier: 'mock-key',
+      nonce: 'mock-nonce',
+      signature: 'mock-signature',
+      timestamp: 1767225600000,
+    });
+  }
+
+  export function getEligibleWinBackOffersForPackage(
+    _pkg: MockPurchasesPackage
+  ) {
+    return Promise.resolve(mockWinBackOffers);
+  }
+
+  function getPurchaseFailure(): Error | null {
     if (mockOperationInProgress) {
       const error = new Error('Operation already in progress');
       (error as Error & { code: number }).code =
         PURCHASES_ERROR_CODE.OPERATION_ALREADY_IN_PROGRESS_ERROR;
-      return Promise.reject(error);
+      return error;
     }
 
     if (mockShouldFailPurchase) {
       const error = new Error('Purchase failed');
       (error as Error & { code: number }).code =
         mockPurchaseErrorCode ?? PURCHASES_ERROR_CODE.UNKNOWN_ERROR;
-      return Promise.reject(error);
+      return error;
+    }
+    return null;
+  }
+
+  export function purchasePackage(_pkg: MockPurchasesPackage) {
+    const failure = getPurchaseFailure();
+    if (failure) {
+      return Promise.reject(failure);
     }
     const freshPremiumInfo = createMockPremiumCustomerInfo();
     mockCustomerInfo = freshPremiumInfo;
-    return Promise.resolve({ customerInfo: freshPremiumInfo });
+    return Promise.resolve({
+      customerInfo: freshPremiumInfo,
+      productIdentifier: 'monthly_plan',
+      transaction: {
+        transactionIdentifier: MOCK_SUBSCRIPTION_TRANSACTION_ID,
+        productIdentifier: 'monthly_plan',
+        purchaseDate: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Non-consumables grant lifetime premium; consumables leave CustomerInfo unchanged.
+   */
+  export function purchaseStoreProduct(product: MockStoreProduct) {
+    const failure = getPurchaseFailure();
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    if (product.productType === 'NON_CONSUMABLE') {
+      mockCustomerInfo = createMockLifetimeCustomerInfo();
+    }
+    mockTransactionCount += 1;
+    return Promise.resolve({
+      customerInfo: mockCustomerInfo,
+      productIdentifier: product.identifier,
+      transaction: {
+        transactionIdentifier: `mock-transaction-${mockTransactionCount}`,
+        productIdentifier: product.identifier,
+        purchaseDate: new Date().toISOString(),
+      },
+    });
   }
 
   export function restorePurchases() {
@@ -473,6 +743,52 @@ namespace MockImplementations {
     }
     return Promise.resolve(mockCustomerInfo);
   }
+
+  export function logIn(appUserId: string) {
+    if (mockShouldFailLogIn) {
+      const error = new Error('Log in failed');
+      (error as Error & { code: number }).code =
+        mockLogInErrorCode ?? PURCHASES_ERROR_CODE.UNKNOWN_ERROR;
+      return Promise.reject(error);
+    }
+    mockAppUserId = appUserId;
+    mockCustomerInfo = { ...mockCustomerInfo, originalAppUserId: appUserId };
+    return Promise.resolve({ customerInfo: mockCustomerInfo, created: false });
+  }
+
+  export function logOut() {
+    if (mockAppUserId === ANONYMOUS_APP_USER_ID) {
+      const error = new Error(
+        'Called logOut but the current user is anonymous'
+      );
+      (error as Error & { code: number }).code =
+        PURCHASES_ERROR_CODE.LOG_OUT_WITH_ANONYMOUS_USER_ERROR;
+      return Promise.reject(error);
+    }
+    mockAppUserId = ANONYMOUS_APP_USER_ID;
+    mockCustomerInfo = mockFreeCustomerInfo;
+    return Promise.resolve(mockCustomerInfo);
+  }
+
+  export function getAppUserID() {
+    return Promise.resolve(mockAppUserId);
+  }
+
+  export function addCustomerInfoUpdateListener(
+    listener: (customerInfo: MockCustomerInfo) => void
+  ) {
+    mockCustomerInfoListeners.push(listener);
+  }
+
+  export function removeCustomerInfoUpdateListener(
+    listener: (customerInfo: MockCustomerInfo) => void
+  ) {
+    const countBefore = mockCustomerInfoListeners.length;
+    mockCustomerInfoListeners = mockCustomerInfoListeners.filter(
+      (candidate) => candidate !== listener
+    );
+    return mockCustomerInfoListeners.length !== countBefore;
+  }
 }
 
 /**
@@ -489,6 +805,16 @@ export function resetMock(): void {
   mockShouldFailOfferings = false;
   mockOfferingsErrorCode = null;
   mockOperationInProgress = false;
+  mockShouldFailLogIn = false;
+  mockLogInErrorCode = null;
+  mockAppUserId = ANONYMOUS_APP_USER_ID;
+  mockCustomerInfoListeners = [];
+  mockIntroEligibility = {};
+  mockProductDiscounts = [];
+  mockWinBackOffers = [];
+  mockPromotionalOfferIneligible = false;
+  mockRefundRequestStatus = REFUND_REQUEST_STATUS.SUCCESS;
+  mockTransactionCount = 0;
 
   // Restore mock implementations (in case jest.clearAllMocks() was called)
   (Purchases.getCustomerInfo as jest.Mock).mockImplementation(
@@ -506,6 +832,66 @@ export function resetMock(): void {
   (Purchases.restorePurchases as jest.Mock).mockImplementation(
     MockImplementations.restorePurchases
   );
+
+  (
+    Purchases.checkTrialOrIntroductoryPriceEligibility as jest.Mock
+  ).mockImplementation(
+    MockImplementations.checkTrialOrIntroductoryPriceEligibility
+  );
+
+  (Purchases.getPromotionalOffer as jest.Mock).mockImplementation(
+    MockImplementations.getPromotionalOffer
+  );
+
+  (Purchases.purchaseDiscountedPackage as jest.Mock).mockImplementation(
+    MockImplementations.purchasePackage
+  );
+
+  (
+    Purchases.getEligibleWinBackOffersForPackage as jest.Mock
+  ).mockImplementation(MockImplementations.getEligibleWinBackOffersForPackage);
+
+  (Purchases.purchasePackageWithWinBackOffer as jest.Mock).mockImplementation(
+    MockImplementations.purchasePackage
+  );
+
+  (Purchases.presentCodeRedemptionSheet as jest.Mock).mockResolvedValue(
+    undefined
+  );
+
+  (Purchases.getProducts as jest.Mock).mockImplementation(
+    MockImplementations.getProducts
+  );
+
+  (Purchases.purchaseStoreProduct as jest.Mock).mockImplementation(
+    MockImplementations.purchaseStoreProduct
+  );
+
+  (Purchases.beginRefundRequestForProduct as jest.Mock).mockImplementation(
+    MockImplementations.beginRefundRequestForProduct
+  );
+
+  (Purchases.logIn as jest.Mock).mockImplementation(MockImplementations.logIn);
+
+  (Purchases.logOut as jest.Mock).mockImplementation(
+    MockImplementations.logOut
+  );
+
+  (Purchases.getAppUserID as jest.Mock).mockImplementation(
+    MockImplementations.getAppUserID
+  );
+
+  (Purchases.invalidateCustomerInfoCache as jest.Mock).mockResolvedValue(
+    undefined
+  );
+
+  (Purchases.addCustomerInfoUpdateListener as jest.Mock).mockImplementation(
+    MockImplementations.addCustomerInfoUpdateListener
+  );
+
+  (Purchases.removeCustomerInfoUpdateListener as jest.Mock).mockImplementation(
+    MockImplementations.removeCustomerInfoUpdateListener
+  );
 }
 
 // LOG_LEVEL enum
@@ -557,6 +943,54 @@ export const PURCHASES_ERROR_CODE = {
   SIGNATURE_VERIFICATION_ERROR: 36,
 } as const;
 
+// Intro eligibility statuses matching RevenueCat SDK
+export const INTRO_ELIGIBILITY_STATUS = {
+  INTRO_ELIGIBILITY_STATUS_UNKNOWN: 0,
+  INTRO_ELIGIBILITY_STATUS_INELIGIBLE: 1,
+  INTRO_ELIGIBILITY_STATUS_ELIGIBLE: 2,
+  INTRO_ELIGIBILITY_STATUS_NO_INTRO_OFFER_EXISTS: 3,
+} as const;
+
+// Refund request statuses matching RevenueCat SDK
+export const REFUND_REQUEST_STATUS = {
+  SUCCESS: 0,
+  USER_CANCELLED: 1,
+  ERROR: 2,
+} as const;
+
+// Product categories matching RevenueCat SDK
+export const PRODUCT_CATEGORY = {
+  NON_SUBSCRIPTION: 'NON_SUBSCRIPTION',
+  SUBSCRIPTION: 'SUBSCRIPTION',
+  UNKNOWN: 'UNKNOWN',
+} as const;
+
+// Default mock non-subscription products: a lifetime unlock and a consumable pack
+const defaultMockNonSubscriptionProducts: MockStoreProduct[] = [
+  {
+    identifier: 'lifetime_plan',
+    description: 'Lifetime premium',
+    title: 'Lifetime',
+    price: 149.99,
+    priceString: '$149.99',
+    currencyCode: 'USD',
+    introPrice: null,
+    productCategory: 'NON_SUBSCRIPTION',
+    productType: 'NON_CONSUMABLE',
+  },
+  {
+    identifier: 'export_pack_10',
+    description: '10 additional exports',
+    title: 'Export Pack',
+    price: 2.99,
+    priceString: '$2.99',
+    currencyCode: 'USD',
+    introPrice: null,
+    productCategory: 'NON_SUBSCRIPTION',
+    productType: 'CONSUMABLE',
+  },
+];
+
 // Default mock offerings
 const defaultMockOfferings = {
   current: {
@@ -641,6 +1075,56 @@ const Purchases = {
   restorePurchases: jest
     .fn()
     .mockImplementation(MockImplementations.restorePurchases),
+
+  checkTrialOrIntroductoryPriceEligibility: jest
+    .fn()
+    .mockImplementation(
+      MockImplementations.checkTrialOrIntroductoryPriceEligibility
+    ),
+
+  getPromotionalOffer: jest
+    .fn()
+    .mockImplementation(MockImplementations.getPromotionalOffer),
+
+  purchaseDiscountedPackage: jest
+    .fn()
+    .mockImplementation(MockImplementations.purchasePackage),
+
+  getEligibleWinBackOffersForPackage: jest
+    .fn()
+    .mockImplementation(MockImplementations.getEligibleWinBackOffersForPackage),
+
+  purchasePackageWithWinBackOffer: jest
+    .fn()
+    .mockImplementation(MockImplementations.purchasePackage),
+
+  presentCodeRedemptionSheet: jest.fn().mockResolvedValue(undefined),
+
+  getProducts: jest.fn().mockImplementation(MockImplementations.getProducts),
+
+  purchaseStoreProduct: jest
+    .fn()
+    .mockImplementation(MockImplementations.purchaseStoreProduct),
+
+  beginRefundRequestForProduct: jest
+    .fn()
+    .mockImplementation(MockImplementations.beginRefundRequestForProduct),
+
+  logIn: jest.fn().mockImplementation(MockImplementations.logIn),
+
+  logOut: jest.fn().mockImplementation(MockImplementations.logOut),
+
+  getAppUserID: jest.fn().mockImplementation(MockImplementations.getAppUserID),
+
+  invalidateCustomerInfoCache: jest.fn().mockResolvedValue(undefined),
+
+  addCustomerInfoUpdateListener: jest
+    .fn()
+    .mockImplementation(MockImplementations.addCustomerInfoUpdateListener),
+
+  removeCustomerInfoUpdateListener: jest
+    .fn()
+    .mockImplementation(MockImplementations.removeCustomerInfoUpdateListener),
 };
 
 export default Purchases;
@@ -22,6 +22,9 @@ import { ConfigContext, ExpoConfig } from 'expo/config';
 // - EXPO_PUBLIC_REVENUE_CAT_API_KEY_APPLE: iOS RevenueCat public API key
 // - EXPO_PUBLIC_REVENUE_CAT_API_KEY_GOOGLE: Android RevenueCat public API key
 //
+// For database encryption (if using):
+// - EXPO_PUBLIC_DATABASE_ENCRYPTION: "true" to encrypt the database with SQLCipher
+//
 // For Firebase (if using):
 // - GOOGLE_SERVICES_PLIST: Path to iOS GoogleService-Info.plist
 // - GOOGLE_SERVICES_JSON: Path to Android google-services.json
@@ -276,6 +279,14 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
     // Secure storage for sensitive data
     'expo-secure-store',
 
+    // SQLite, built with SQLCipher when the database is encrypted
+    [
+      'expo-sqlite',
+      {
+        useSQLCipher: process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION === 'true',
+      },
+    ],
+
     // REMOVE IF NOT NEEDED: Add other plugins as needed
     // [
     //   'expo-notifications',
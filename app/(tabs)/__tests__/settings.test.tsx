@@ -9,12 +9,27 @@
  * - Sad path: No active subscription found, network errors
  * - Edge cases: Rapid button presses, loading states
  * - Error handling: Various error codes
+ * - Billing status banner: payment failed, plan ending, manage billing
+ * - Plan management: manage subscription and refund request (iOS)
+ * - Developer section: subscription debug and simulator links
+ * - Data section: backup export, CSV export and restore
  */
 
 /* eslint-disable import/first */
 
 import React from 'react';
-import { Alert } from 'react-native';
+import { Alert, Linking, Platform } from 'react-native';
+import type {
+  BackupError,
+  BackupTableName,
+  RestoreSummary,
+} from '@/features/backup/core/types';
+import type {
+  RefundRequestStatus,
+  Result,
+  Subscription,
+  SubscriptionError,
+} from '@/features/subscription/core/types';
 
 // Mock expo-router - must define mock object inside factory for router export
 jest.mock('expo-router', () => {
@@ -80,32 +95,91 @@ jest.mock('@/hooks/use-color-scheme', () => ({
 }));
 
 // Mock useSubscription hook - will be configured per test
-const mockRestorePurchases = jest.fn();
-const mockRefetchSubscription = jest.fn();
-let mockError: { code: string; message: string; retryable: boolean } | null =
-  null;
-let mockSubscription: {
-  isActive: boolean;
-  tier: 'free' | 'premium';
-  expiresAt: Date | null;
-  productId: string | null;
-} | null = null;
+const mockRestorePurchases = jest.fn<
+  Promise<Result<Subscription, SubscriptionError>>,
+  []
+>();
+const mockOpenManagementUrl = jest.fn<
+  Promise<Result<void, SubscriptionError>>,
+  []
+>();
+const mockBeginRefundRequest = jest.fn<
+  Promise<Result<RefundRequestStatus, SubscriptionError>>,
+  [string]
+>();
+const mockPresentPaywall = jest.fn<Promise<boolean>, [string]>();
+let mockSubscription: Subscription | null = null;
 let mockIsPremium = false;
 
 jest.mock('@/features/subscription/hooks', () => ({
   useSubscription: () => ({
+    tier: mockSubscription?.tier ?? (mockIsPremium ? 'premium' : 'free'),
     isPremium: mockIsPremium,
     isFree: !mockIsPremium,
     usageLimits: mockIsPremium
       ? { maxItems: Infinity, maxExports: Infinity, hasAds: false }
       : { maxItems: 10, maxExports: 1, hasAds: true },
     subscription: mockSubscription,
-    error: mockError,
+    error: null,
     purchasePackage: jest.fn(),
     restorePurchases: mockRestorePurchases,
+    openManagementUrl: mockOpenManagementUrl,
+    beginRefundRequest: mockBeginRefundRequest,
     canAccessFeature: jest.fn(),
-    refetchSubscription: mockRefetchSubscription,
+    refetchSubscription: jest.fn(),
   }),
+  usePaywallPresenter: () => ({ presentPaywall: mockPresentPaywall }),
+}));
+
+const restoredSubscription: Subscription = {
+  isActive: true,
+  tier: 'premium',
+  expiresAt: new Date('2025-12-31'),
+  productId: 'monthly_plan',
+  willRenew: true,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+};
+
+const restoreSuccess = (): Result<Subscription, SubscriptionError> => ({
+  success: true,
+  data: restoredSubscription,
+});
+
+const restoreFailure = (
+  error: SubscriptionError
+): Result<Subscription, SubscriptionError> => ({ success: false, error });
+
+// Mock backup mutations - will be configured per test
+const mockExportBackup = jest.fn<Promise<void>, []>();
+const mockExportTableCsv = jest.fn<Promise<void>, [BackupTableName]>();
+const mockRestoreBackup = jest.fn<Promise<RestoreSummary | null>, []>();
+
+jest.mock('@/features/backup/hooks', () => ({
+  useExportBackup: () => ({
+    mutateAsync: mockExportBackup,
+    isPending: false,
+  }),
+  useExportTableCsv: () => ({
+    mutateAsync: mockExportTableCsv,
+    isPending: false,
+  }),
+  useRestoreBackup: () => ({
+    mutateAsync: mockRestoreBackup,
+    isPending: false,
+  }),
+}));
+
+const limitReached: BackupError = {
+  code: 'LIMIT_REACHED',
+  message: 'Usage limit reached for exports (1)',
+  limit: 1,
+};
+
+let mockSimulatorEnabled = false;
+jest.mock('@/features/subscription/core/simulator', () => ({
+  isSubscriptionSimulatorEnabled: () => mockSimulatorEnabled,
 }));
 
 // Mock Alert.alert
@@ -134,11 +208,21 @@ const renderWithSafeArea = (ui: React.ReactElement) => {
 describe('SettingsScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
-    mockError = null;
     mockSubscription = null;
     mockIsPremium = false;
-    mockRestorePurchases.mockResolvedValue(undefined);
-    mockRefetchSubscription.mockResolvedValue(undefined);
+    mockRestorePurchases.mockResolvedValue(restoreSuccess());
+    mockPresentPaywall.mockResolvedValue(true);
+    mockOpenManagementUrl.mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+    mockBeginRefundRequest.mockResolvedValue({
+      success: true,
+      data: 'submitted',
+    });
+    mockExportBackup.mockResolvedValue(undefined);
+    mockExportTableCsv.mockResolvedValue(undefined);
+    mockRestoreBackup.mockResolvedValue(null);
   });
 
   describe('Rendering', () => {
@@ -181,6 +265,10 @@ describe('SettingsScreen', () => {
         tier: 'free',
         expiresAt: null,
         productId: null,
+        willRenew: false,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       renderWithSafeArea(<SettingsScreen />);
@@ -198,6 +286,10 @@ describe('SettingsScreen', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       renderWithSafeArea(<SettingsScreen />);
@@ -205,6 +297,27 @@ describe('SettingsScreen', () => {
       expect(screen.getByText('PREMIUM')).toBeTruthy();
       expect(screen.getByText("You're Premium")).toBeTruthy();
     });
+
+    // Given: A user is on a custom 'pro' tier from the entitlement registry
+    // When: The screen is rendered
+    // Then: The badge should show the tier name
+    it('should display the tier name in the badge', () => {
+      mockIsPremium = true;
+      mockSubscription = {
+        isActive: true,
+        tier: 'pro',
+        expiresAt: null,
+        productId: 'pro_monthly',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.getByText('PRO')).toBeTruthy();
+    });
   });
 
   describe('Restore Purchases - Happy Path', () => {
@@ -223,19 +336,10 @@ describe('SettingsScreen', () => {
     });
 
     // Given: Restore operation succeeds with active subscription
-    // When: restorePurchases resolves successfully
-    // Then: Success alert should be shown and refetch is called
+    // When: restorePurchases resolves to a successful Result
+    // Then: Success alert should be shown
     it('should show success alert when restore finds active subscription', async () => {
-      // Simulate that after restore, subscription becomes active
-      mockRestorePurchases.mockImplementation(async () => {
-        mockIsPremium = true;
-        mockSubscription = {
-          isActive: true,
-          tier: 'premium',
-          expiresAt: new Date('2025-12-31'),
-          productId: 'monthly_plan',
-        };
-      });
+      mockRestorePurchases.mockResolvedValue(restoreSuccess());
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -243,7 +347,6 @@ describe('SettingsScreen', () => {
       fireEvent.press(restoreButton);
 
       await waitFor(() => {
-        expect(mockRefetchSubscription).toHaveBeenCalledTimes(1);
         expect(alertSpy).toHaveBeenCalledWith(
           'Success',
           'Your purchases have been restored.',
@@ -258,15 +361,13 @@ describe('SettingsScreen', () => {
     // When: User presses "Restore Purchases"
     // Then: Info alert should be shown with appropriate message
     it('should show info alert when no active subscription found', async () => {
-      // Mock the error that gets set when no subscription found
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'NO_ACTIVE_SUBSCRIPTION',
           message: 'No active subscription found',
           retryable: false,
-        };
-        throw new Error('NO_ACTIVE_SUBSCRIPTION');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -289,10 +390,12 @@ describe('SettingsScreen', () => {
     // Then: Button should show loading indicator
     it('should show loading indicator during restore', async () => {
       // Keep the restore promise pending to test loading state
-      let resolveRestore: () => void;
+      let resolveRestore: (
+        result: Result<Subscription, SubscriptionError>
+      ) => void;
       mockRestorePurchases.mockImplementation(
         () =>
-          new Promise<void>((resolve) => {
+          new Promise((resolve) => {
             resolveRestore = resolve;
           })
       );
@@ -310,7 +413,7 @@ describe('SettingsScreen', () => {
       });
 
       // Cleanup: resolve the promise
-      resolveRestore!();
+      resolveRestore!(restoreSuccess());
     });
 
     // Given: Restore operation is in progress
@@ -318,10 +421,12 @@ describe('SettingsScreen', () => {
     // Then: Button should be disabled
     it('should disable button during restore', async () => {
       // Keep the restore promise pending to test loading state
-      let resolveRestore: () => void;
+      let resolveRestore: (
+        result: Result<Subscription, SubscriptionError>
+      ) => void;
       mockRestorePurchases.mockImplementation(
         () =>
-          new Promise<void>((resolve) => {
+          new Promise((resolve) => {
             resolveRestore = resolve;
           })
       );
@@ -338,7 +443,7 @@ describe('SettingsScreen', () => {
       });
 
       // Cleanup: resolve the promise
-      resolveRestore!();
+      resolveRestore!(restoreSuccess());
     });
   });
 
@@ -347,8 +452,12 @@ describe('SettingsScreen', () => {
     // When: User rapidly presses restore button multiple times
     // Then: restorePurchases should only be called once
     it('should prevent duplicate restore calls during loading', async () => {
-      let resolveRestore: () => void;
-      const restorePromise = new Promise<void>((resolve) => {
+      let resolveRestore: (
+        result: Result<Subscription, SubscriptionError>
+      ) => void;
+      const restorePromise = new Promise<
+        Result<Subscription, SubscriptionError>
+      >((resolve) => {
         resolveRestore = resolve;
       });
 
@@ -371,7 +480,7 @@ describe('SettingsScreen', () => {
       fireEvent.press(screen.getByTestId('restore-purchases-button'));
 
       // Complete the restore
-      resolveRestore!();
+      resolveRestore!(restoreSuccess());
 
       await waitFor(() => {
         expect(mockRestorePurchases).toHaveBeenCalledTimes(1);
@@ -384,14 +493,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore and network error occurs
     // Then: Error alert should be shown with retry message
     it('should show error alert on network error', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'NETWORK_ERROR',
           message: 'Network error occurred',
           retryable: true,
-        };
-        throw new Error('NETWORK_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -411,14 +519,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore and store error occurs
     // Then: Error alert should suggest trying again later
     it('should show error alert on store problem', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'STORE_PROBLEM_ERROR',
           message: 'Store problem',
           retryable: true,
-        };
-        throw new Error('STORE_PROBLEM_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -438,14 +545,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore and configuration error occurs
     // Then: Error alert should suggest contacting support
     it('should show error alert on configuration error', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'CONFIGURATION_ERROR',
           message: 'Configuration error',
           retryable: false,
-        };
-        throw new Error('CONFIGURATION_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -465,14 +571,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore and credentials error occurs
     // Then: Error alert should indicate authentication failure
     it('should show error alert on invalid credentials error', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'INVALID_CREDENTIALS_ERROR',
           message: 'Invalid credentials',
           retryable: false,
-        };
-        throw new Error('INVALID_CREDENTIALS_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -492,14 +597,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore and receipt error occurs
     // Then: Error alert should indicate receipt is in use
     it('should show error alert on receipt already in use error', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'RECEIPT_ALREADY_IN_USE_ERROR',
           message: 'Receipt already in use',
           retryable: false,
-        };
-        throw new Error('RECEIPT_ALREADY_IN_USE_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -519,14 +623,13 @@ describe('SettingsScreen', () => {
     // When: PURCHASE_CANCELLED error occurs
     // Then: No alert should be shown (silent handling)
     it('should not show alert on user cancellation', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'PURCHASE_CANCELLED',
           message: 'User cancelled',
           retryable: false,
-        };
-        throw new Error('PURCHASE_CANCELLED');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -545,14 +648,13 @@ describe('SettingsScreen', () => {
     // When: User presses restore
     // Then: Generic error message should be shown
     it('should show generic error alert on unknown error', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        mockError = {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
           code: 'UNKNOWN_ERROR',
           message: 'Unknown error occurred',
           retryable: false,
-        };
-        throw new Error('UNKNOWN_ERROR');
-      });
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -568,13 +670,17 @@ describe('SettingsScreen', () => {
       });
     });
 
-    // Given: An unrecognized error code is received
-    // When: User presses restore
-    // Then: Generic error message should be shown as fallback
-    it('should show generic error alert on unrecognized error code', async () => {
-      mockRestorePurchases.mockImplementation(async () => {
-        throw new Error('SOME_UNEXPECTED_ERROR_CODE');
-      });
+    // Given: Another subscription operation is already running
+    // When: restorePurchases resolves with OPERATION_IN_PROGRESS
+    // Then: No alert should be shown
+    it('should not show alert when another operation is in progress', async () => {
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
+          code: 'OPERATION_IN_PROGRESS',
+          message: 'Another subscription operation is in progress',
+          retryable: false,
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -582,19 +688,23 @@ describe('SettingsScreen', () => {
       fireEvent.press(restoreButton);
 
       await waitFor(() => {
-        expect(alertSpy).toHaveBeenCalledWith(
-          'Error',
-          expect.stringContaining('An error occurred'),
-          expect.any(Array)
-        );
+        expect(mockRestorePurchases).toHaveBeenCalled();
       });
+
+      expect(alertSpy).not.toHaveBeenCalled();
     });
 
     // Given: Network error occurs during restore
     // When: Error is handled
     // Then: Loading state should be reset and button re-enabled
     it('should reset loading state after error', async () => {
-      mockRestorePurchases.mockRejectedValue(new Error('NETWORK_ERROR'));
+      mockRestorePurchases.mockResolvedValue(
+        restoreFailure({
+          code: 'NETWORK_ERROR',
+          message: 'Network error occurred',
+          retryable: true,
+        })
+      );
 
       renderWithSafeArea(<SettingsScreen />);
 
@@ -624,6 +734,10 @@ describe('SettingsScreen', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       renderWithSafeArea(<SettingsScreen />);
@@ -644,6 +758,10 @@ describe('SettingsScreen', () => {
         tier: 'free',
         expiresAt: null,
         productId: null,
+        willRenew: false,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       renderWithSafeArea(<SettingsScreen />);
@@ -665,6 +783,257 @@ describe('SettingsScreen', () => {
     });
   });
 
+  describe('Billing Status Banner', () => {
+    const renewingSubscription: Subscription = {
+      isActive: true,
+      tier: 'premium',
+      expiresAt: new Date('2025-12-31'),
+      productId: 'monthly_plan',
+      willRenew: true,
+      isTrialPeriod: false,
+      billingIssueDetectedAt: null,
+      cancelledAt: null,
+    };
+
+    let openURLSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      mockIsPremium = true;
+      openURLSpy = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      openURLSpy.mockRestore();
+    });
+
+    // Given: A premium subscription that renews normally
+    // When: The screen is rendered
+    // Then: No billing banner should be shown
+    it('should not show a banner for a renewing subscription', () => {
+      mockSubscription = renewingSubscription;
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.queryByTestId('billing-status-banner')).toBeNull();
+    });
+
+    // Given: The store failed to charge the renewal
+    // When: The screen is rendered
+    // Then: A payment failed banner with a manage billing button should be shown
+    it('should show a payment failed banner on billing issue', () => {
+      mockSubscription = {
+        ...renewingSubscription,
+        billingIssueDetectedAt: new Date('2025-12-01'),
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.getByTestId('billing-status-banner')).toBeTruthy();
+      expect(screen.getByText('Payment failed')).toBeTruthy();
+      expect(screen.getByTestId('manage-billing-button')).toBeTruthy();
+    });
+
+    // Given: The user turned off auto-renew
+    // When: The screen is rendered
+    // Then: A banner should show the date the plan ends
+    it('should show the end date when the plan is cancelled', () => {
+      mockSubscription = {
+        ...renewingSubscription,
+        willRenew: false,
+        cancelledAt: new Date('2025-11-01'),
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.getByText(/Your plan ends on/)).toBeTruthy();
+    });
+
+    // Given: A lifetime purchase (never renews, never expires)
+    // When: The screen is rendered
+    // Then: No billing banner should be shown
+    it('should not show a banner for lifetime purchases', () => {
+      mockSubscription = {
+        ...renewingSubscription,
+        expiresAt: null,
+        willRenew: false,
+        productId: 'lifetime_plan',
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.queryByTestId('billing-status-banner')).toBeNull();
+    });
+
+    // Given: A payment failed banner is shown
+    // When: The user presses "Manage Billing"
+    // Then: The store's subscription management page should open
+    it('should open the store subscription page on manage billing', async () => {
+      mockSubscription = {
+        ...renewingSubscription,
+        billingIssueDetectedAt: new Date('2025-12-01'),
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('manage-billing-button'));
+
+      await waitFor(() => {
+        expect(openURLSpy).toHaveBeenCalledWith(
+          'https://apps.apple.com/account/subscriptions'
+        );
+      });
+    });
+
+    // Given: The management page cannot be opened
+    // When: The user presses "Manage Billing"
+    // Then: An error alert should be shown
+    it('should show an error when the management page cannot be opened', async () => {
+      openURLSpy.mockRejectedValue(new Error('No handler'));
+      mockSubscription = {
+        ...renewingSubscription,
+        billingIssueDetectedAt: new Date('2025-12-01'),
+      };
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('manage-billing-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith(
+          'Error',
+          expect.stringContaining('Could not open subscription settings'),
+          [{ text: 'OK' }]
+        );
+      });
+    });
+  });
+
+  describe('Plan Management', () => {
+    beforeEach(() => {
+      mockIsPremium = true;
+      mockSubscription = restoredSubscription;
+    });
+
+    afterEach(() => {
+      (Platform as { OS: string }).OS = 'ios';
+    });
+
+    // Given: A free user
+    // When: The screen is rendered
+    // Then: No plan management actions should be shown
+    it('should hide plan management for free users', () => {
+      mockIsPremium = false;
+      mockSubscription = null;
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.queryByTestId('manage-subscription-button')).toBeNull();
+      expect(screen.queryByTestId('request-refund-button')).toBeNull();
+    });
+
+    // Given: A premium user on Android
+    // When: The screen is rendered
+    // Then: Manage is shown but refunds (App Store only) are not
+    it('should only offer refunds on iOS', () => {
+      (Platform as { OS: string }).OS = 'android';
+
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.getByTestId('manage-subscription-button')).toBeTruthy();
+      expect(screen.queryByTestId('request-refund-button')).toBeNull();
+    });
+
+    // Given: A premium user
+    // When: The user presses "Manage Subscription"
+    // Then: The service should open the management page
+    it('should open subscription management', async () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('manage-subscription-button'));
+
+      await waitFor(() => {
+        expect(mockOpenManagementUrl).toHaveBeenCalledTimes(1);
+      });
+      expect(alertSpy).not.toHaveBeenCalled();
+    });
+
+    // Given: The management page cannot be opened
+    // When: The user presses "Manage Subscription"
+    // Then: An error alert should be shown
+    it('should show an error when management cannot be opened', async () => {
+      mockOpenManagementUrl.mockResolvedValue({
+        success: false,
+        error: {
+          code: 'OPERATION_NOT_SUPPORTED',
+          message: 'Not supported',
+          retryable: false,
+        },
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('manage-subscription-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith(
+          'Error',
+          expect.stringContaining('Could not open subscription settings'),
+          [{ text: 'OK' }]
+        );
+      });
+    });
+
+    // Given: A premium iOS user
+    // When: The user submits a refund request
+    // Then: The request should use the current product and confirm submission
+    it('should request a refund for the current product', async () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('request-refund-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith(
+          'Refund Requested',
+          expect.any(String),
+          [{ text: 'OK' }]
+        );
+      });
+      expect(mockBeginRefundRequest).toHaveBeenCalledWith('monthly_plan');
+    });
+
+    // Given: A premium iOS user
+    // When: The user dismisses the refund sheet
+    // Then: No alert should be shown
+    it('should not show an alert when the refund sheet is cancelled', async () => {
+      mockBeginRefundRequest.mockResolvedValue({
+        success: true,
+        data: 'cancelled',
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('request-refund-button'));
+
+      await waitFor(() => {
+        expect(mockBeginRefundRequest).toHaveBeenCalled();
+      });
+      expect(alertSpy).not.toHaveBeenCalled();
+    });
+
+    // Given: The refund request fails
+    // When: The user presses "Request a Refund"
+    // Then: The mapped error message should be shown
+    it('should show an error alert when the refund request fails', async () => {
+      mockBeginRefundRequest.mockResolvedValue({
+        success: false,
+        error: { code: 'NETWORK_ERROR', message: 'Offline', retryable: true },
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('request-refund-button'));
+
+      await waitFor(() => {
+        expect(alertSpy).toHaveBeenCalledWith('Error', expect.any(String), [
+          { text: 'OK' },
+        ]);
+      });
+    });
+  });
+
   describe('Button Visibility', () => {
     // Given: A user has a free subscription
     // When: The screen is rendered
@@ -687,6 +1056,10 @@ describe('SettingsScreen', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       renderWithSafeArea(<SettingsScreen />);
@@ -711,6 +1084,10 @@ describe('SettingsScreen', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
       renderWithSafeArea(<SettingsScreen />);
       expect(screen.getByTestId('restore-purchases-button')).toBeTruthy();
@@ -720,8 +1097,8 @@ describe('SettingsScreen', () => {
   describe('Navigation', () => {
     // Given: A user is on the Settings screen
     // When: User presses the "Upgrade to Premium" button
-    // Then: It should navigate to the paywall
-    it('should navigate to paywall when upgrade button is pressed', () => {
+    // Then: It should present the paywall for the settings placement
+    it('should present the paywall when upgrade button is pressed', () => {
       mockIsPremium = false;
 
       renderWithSafeArea(<SettingsScreen />);
@@ -729,7 +1106,171 @@ describe('SettingsScreen', () => {
       const upgradeButton = screen.getByTestId('upgrade-premium-button');
       fireEvent.press(upgradeButton);
 
-      expect(mockRouter.push).toHaveBeenCalledWith('/paywall');
+      expect(mockPresentPaywall).toHaveBeenCalledWith('settings_upgrade');
+    });
+  });
+
+  describe('Developer Section', () => {
+    afterEach(() => {
+      mockSimulatorEnabled = false;
+    });
+
+    // Given: A development build
+    // When: User presses "Subscription Debug"
+    // Then: It should navigate to the subscription debug screen
+    it('should open the subscription debug screen', () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('subscription-debug-button'));
+
+      expect(mockRouter.push).toHaveBeenCalledWith('/debug/subscription');
+    });
+
+    // Given: The subscription simulator is disabled
+    // When: The Settings screen renders
+    // Then: No developer section is shown
+    it('should hide the simulator link when the simulator is disabled', () => {
+      renderWithSafeArea(<SettingsScreen />);
+
+      expect(screen.queryByTestId('subscription-simulator-button')).toBeNull();
+    });
+
+    // Given: The subscription simulator is enabled
+    // When: User presses "Subscription Simulator"
+    // Then: It should navigate to the simulator control panel
+    it('should open the simulator control panel when enabled', () => {
+      mockSimulatorEnabled = true;
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('subscription-simulator-button'));
+
+      expect(mockRouter.push).toHaveBeenCalledWith('/debug/simulator');
+    });
+  });
+
+  describe('Data Section', () => {
+    /**
+     * Press "Restore" in the confirmation dialog.
+     */
+    const confirmRestore = async () => {
+      const buttons = alertSpy.mock.calls[0][2]!;
+      await buttons.find((button) => button.text === 'Restore')!.onPress!();
+    };
+
+    // Given: The exports quota has room
+    // When: User presses "Export Backup"
+    // Then: The backup is exported without an alert
+    it('should export a backup', async () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('export-backup-button'));
+
+      await waitFor(() => expect(mockExportBackup).toHaveBeenCalled());
+      expect(alertSpy).not.toHaveBeenCalled();
+    });
+
+    // Given: The exports quota has room
+    // When: User presses "Export Items as CSV"
+    // Then: The items table is exported
+    it('should export items as CSV', async () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('export-items-csv-button'));
+
+      await waitFor(() =>
+        expect(mockExportTableCsv).toHaveBeenCalledWith('items')
+      );
+    });
+
+    // Given: The exports quota is used up
+    // When: User exports a backup
+    // Then: The paywall opens instead of an error
+    it('should open the paywall when the exports quota is used up', async () => {
+      mockExportBackup.mockRejectedValue(limitReached);
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('export-backup-button'));
+
+      await waitFor(() =>
+        expect(mockPresentPaywall).toHaveBeenCalledWith('export_limit')
+      );
+      expect(alertSpy).not.toHaveBeenCalled();
+    });
+
+    // Given: The share sheet cannot open
+    // When: User exports items as CSV
+    // Then: An error alert is shown
+    it('should report failed exports', async () => {
+      mockExportTableCsv.mockRejectedValue({
+        code: 'FILE_ERROR',
+        message: 'Sharing is not available on this device',
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('export-items-csv-button'));
+
+      await waitFor(() =>
+        expect(alertSpy).toHaveBeenCalledWith(
+          'Error',
+          'Could not export your data. Please try again.',
+          expect.any(Array)
+        )
+      );
+    });
+
+    // Given: User presses "Restore Backup"
+    // When: User confirms and picks a backup
+    // Then: The restore runs and reports what was restored
+    it('should restore a backup after confirmation', async () => {
+      mockRestoreBackup.mockResolvedValue({
+        sourceSchemaVersion: 4,
+        createdAt: new Date('2026-10-01T12:00:00'),
+        rowCounts: {
+          items: 3,
+          subscription_events: 0,
+        },
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('restore-backup-button'));
+
+      expect(mockRestoreBackup).not.toHaveBeenCalled();
+      await confirmRestore();
+
+      expect(mockRestoreBackup).toHaveBeenCalled();
+      expect(alertSpy).toHaveBeenLastCalledWith(
+        'Backup Restored',
+        expect.stringContaining('Restored 3 items'),
+        expect.any(Array)
+      );
+    });
+
+    // Given: User confirms the restore
+    // When: User cancels the document picker
+    // Then: No further alert is shown
+    it('should stay silent when the picker is cancelled', async () => {
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('restore-backup-button'));
+      await confirmRestore();
+
+      expect(alertSpy).toHaveBeenCalledTimes(1);
+    });
+
+    // Given: User picks a file that is not a backup
+    // When: The restore fails validation
+    // Then: The validation message is shown
+    it('should explain why a file cannot be restored', async () => {
+      mockRestoreBackup.mockRejectedValue({
+        code: 'INVALID_BACKUP',
+        message: 'The file is not JSON',
+      });
+
+      renderWithSafeArea(<SettingsScreen />);
+      fireEvent.press(screen.getByTestId('restore-backup-button'));
+      await confirmRestore();
+
+      expect(alertSpy).toHaveBeenLastCalledWith(
+        'Error',
+        'The file is not JSON',
+        expect.any(Array)
+      );
     });
   });
 });
@@ -3,11 +3,13 @@
  * Main home screen of the boilerplate
  */
 
+import { router, type Href } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Animated, ScrollView, StyleSheet, View } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
 import { Spacer } from '@/components/ui/spacer';
 import { BorderRadius, Shadows, Spacing, Typography } from '@/constants/theme';
 import { useThemedColors } from '@/hooks/use-theme-color';
@@ -133,6 +135,17 @@ export default function HomeScreen() {
         ))}
       </View>
 
+      <Spacer size="xl" />
+
+      {/* Example Feature */}
+      <Button
+        testID="home-items-button"
+        variant="secondary"
+        onPress={() => router.push('/items' as Href)}
+      >
+        Try the Items Example
+      </Button>
+
       <Spacer size="2xl" />
 
       {/* Footer */}
@@ -140,7 +153,7 @@ export default function HomeScreen() {
         <ThemedText
           style={[styles.footerText, { color: colors.text.tertiary }]}
         >
-          Explore features/_example/ for implementation details
+          Explore features/items/ for implementation details
         </ThemedText>
       </View>
 
@@ -8,54 +8,70 @@
  * - 6.4: iOS App Store Guidelines compliance (restore button required)
  * - 6.5: Loading indicator during restore
  * - Display success/error messages for restore operations
+ * - Warn about failed renewal payments and cancelled plans (manage billing)
+ * - Manage/cancel the plan and request a refund (iOS) when premium
+ * - Link to the subscription debug screen and simulator (development builds)
+ * - Export the database (JSON backup or items CSV) and restore a backup
  */
 
 import { router, type Href } from 'expo-router';
 import React, { useCallback, useState } from 'react';
-import { Alert, Animated, ScrollView, StyleSheet, View } from 'react-native';
+import {
+  Alert,
+  Animated,
+  Linking,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 
 import { ThemedText } from '@/components/themed-text';
 import { Button } from '@/components/ui/button';
 import { Spacer } from '@/components/ui/spacer';
 import { BorderRadius, Shadows, Spacing, Typography } from '@/constants/theme';
-import type { SubscriptionErrorCode } from '@/features/subscription/core/types';
-import { useSubscription } from '@/features/subscription/hooks';
+import type { BackupError } from '@/features/backup/core/types';
+import {
+  useExportBackup,
+  useExportTableCsv,
+  useRestoreBackup,
+} from '@/features/backup/hooks';
+import {
+  getBillingStatus,
+  getManageSubscriptionsUrl,
+} from '@/features/subscription/core/billing';
+import { getSubscriptionErrorMessage } from '@/features/subscription/core/error-messages';
+import { isSubscriptionSimulatorEnabled } from '@/features/subscription/core/simulator';
+import {
+  usePaywallPresenter,
+  useSubscription,
+} from '@/features/subscription/hooks';
 import { useThemedColors } from '@/hooks/use-theme-color';
-
-/**
- * Error messages for different error codes
- */
-const ERROR_MESSAGES: Record<SubscriptionErrorCode, string> = {
-  PURCHASE_CANCELLED: '', // Silent handling - no message shown
-  PURCHASE_NOT_ALLOWED:
-    'Purchases are not allowed on this device. Please check your settings.',
-  PURCHASE_INVALID: 'Invalid purchase. Please try again.',
-  PRODUCT_ALREADY_PURCHASED: 'This product has already been purchased.',
-  NETWORK_ERROR:
-    'A network error occurred. Please check your connection and try again.',
-  STORE_PROBLEM_ERROR:
-    'The store service is temporarily unavailable. Please try again later.',
-  CONFIGURATION_ERROR:
-    'A configuration error occurred. Please contact support.',
-  INVALID_CREDENTIALS_ERROR: 'Authentication failed. Please try again.',
-  UNEXPECTED_BACKEND_RESPONSE_ERROR:
-    'A server error occurred. Please try again later.',
-  RECEIPT_ALREADY_IN_USE_ERROR:
-    'This purchase is already associated with another account.',
-  NO_ACTIVE_SUBSCRIPTION: '', // Handled separately as info, not error
-  UNKNOWN_ERROR: 'An error occurred. Please try again.',
-};
+import { formatDate } from '@/lib/format';
 
 export default function SettingsScreen() {
   const { colors } = useThemedColors();
   const { top } = useSafeAreaInsets();
-  const { isPremium, subscription, restorePurchases, refetchSubscription } =
-    useSubscription();
+  const {
+    tier,
+    isPremium,
+    subscription,
+    restorePurchases,
+    openManagementUrl,
+    beginRefundRequest,
+  } = useSubscription();
+  const { presentPaywall } = usePaywallPresenter();
+  const exportBackup = useExportBackup();
+  const exportTableCsv = useExportTableCsv();
+  const restoreBackup = useRestoreBackup();
 
   const [isRestoring, setIsRestoring] = useState(false);
   const [scaleAnim] = useState(new Animated.Value(0));
 
+  const billingStatus = getBillingStatus(subscription);
+  const manageBillingUrl = getManageSubscriptionsUrl(Platform.OS);
+
   // Animate premium badge on mount
   React.useEffect(() => {
     if (isPremium) {
@@ -79,52 +95,195 @@ export default function SettingsScreen() {
     setIsRestoring(true);
 
     try {
-      await restorePurchases();
-
-      // Refetch subscription state to get updated premium status
-      await refetchSubscription();
-
-      // Show success message - restorePurchases throws if no active subscription found
-      Alert.alert('Success', 'Your purchases have been restored.', [
-        { text: 'OK' },
-      ]);
-    } catch (error) {
-      // Extract error code from error object (supports both Error.message and typed errors)
-      const errorCode: SubscriptionErrorCode =
-        error instanceof Error &&
-        Object.keys(ERROR_MESSAGES).includes(error.message)
-          ? (error.message as SubscriptionErrorCode)
-          : 'UNKNOWN_ERROR';
-
-      // Handle user cancellation silently
-      if (errorCode === 'PURCHASE_CANCELLED') {
-        setIsRestoring(false);
-        return;
-      }
+      // The provider applies the restored subscription before resolving
+      const result = await restorePurchases();
 
-      // Handle no active subscription as info, not error
-      if (errorCode === 'NO_ACTIVE_SUBSCRIPTION') {
-        Alert.alert('Info', 'No purchases available to restore.', [
+      if (result.success) {
+        Alert.alert('Success', 'Your purchases have been restored.', [
           { text: 'OK' },
         ]);
-        setIsRestoring(false);
         return;
       }
 
-      // Show error message for other errors
-      const message = ERROR_MESSAGES[errorCode] || ERROR_MESSAGES.UNKNOWN_ERROR;
-      Alert.alert('Error', message, [{ text: 'OK' }]);
+      const { code } = result.error;
+      switch (code) {
+        case 'PURCHASE_CANCELLED':
+        case 'OPERATION_IN_PROGRESS':
+          // Handled silently - no message shown
+          return;
+        case 'NO_ACTIVE_SUBSCRIPTION':
+          // Nothing to restore is informational, not an error
+          Alert.alert('Info', getSubscriptionErrorMessage(code), [
+            { text: 'OK' },
+          ]);
+          return;
+        default:
+          Alert.alert('Error', getSubscriptionErrorMessage(code), [
+            { text: 'OK' },
+          ]);
+      }
     } finally {
       setIsRestoring(false);
     }
-  }, [isRestoring, restorePurchases, refetchSubscription]);
+  }, [isRestoring, restorePurchases]);
+
+  /**
+   * Open the store's subscription management page
+   */
+  const handleManageBilling = useCallback(async () => {
+    if (!manageBillingUrl) {
+      return;
+    }
+
+    try {
+      await Linking.openURL(manageBillingUrl);
+    } catch {
+      Alert.alert(
+        'Error',
+        'Could not open subscription settings. Please manage your subscription from the store app.',
+        [{ text: 'OK' }]
+      );
+    }
+  }, [manageBillingUrl]);
+
+  /**
+   * Open subscription management (change or cancel the plan)
+   */
+  const handleManageSubscription = useCallback(async () => {
+    const result = await openManagementUrl();
+
+    if (!result.success) {
+      Alert.alert(
+        'Error',
+        'Could not open subscription settings. Please manage your subscription from the store app.',
+        [{ text: 'OK' }]
+      );
+    }
+  }, [openManagementUrl]);
+
+  /**
+   * Present the App Store refund request sheet for the current product
+   */
+  const handleRequestRefund = useCallback(async () => {
+    if (!subscription?.productId) {
+      return;
+    }
+
+    const result = await beginRefundRequest(subscription.productId);
+
+    if (!result.success) {
+      Alert.alert('Error', getSubscriptionErrorMessage(result.error.code), [
+        { text: 'OK' },
+      ]);
+      return;
+    }
+
+    // A cancelled sheet needs no feedback
+    if (result.data === 'submitted') {
+      Alert.alert(
+        'Refund Requested',
+        'Apple will review your request and email you the outcome.',
+        [{ text: 'OK' }]
+      );
+    }
+  }, [beginRefundRequest, subscription?.productId]);
 
   /**
    * Handle upgrade to premium button press
    */
   const handleUpgrade = useCallback(() => {
-    // Note: Type assertion needed because expo-router typed routes may not be regenerated
-    router.push('/paywall' as Href);
+    void presentPaywall('settings_upgrade');
+  }, [presentPaywall]);
+
+  /**
+   * Report a failed export; a used-up exports quota opens the paywall
+   */
+  const handleExportError = useCallback(
+    (error: BackupError) => {
+      if (error.code === 'LIMIT_REACHED') {
+        void presentPaywall('export_limit');
+        return;
+      }
+      Alert.alert('Error', 'Could not export your data. Please try again.', [
+        { text: 'OK' },
+      ]);
+    },
+    [presentPaywall]
+  );
+
+  /**
+   * Share a JSON backup of the whole database
+   */
+  const handleExportBackup = useCallback(async () => {
+    try {
+      await exportBackup.mutateAsync();
+    } catch (error) {
+      handleExportError(error as BackupError);
+    }
+  }, [exportBackup, handleExportError]);
+
+  /**
+   * Share the items table as CSV
+   */
+  const handleExportItemsCsv = useCallback(async () => {
+    try {
+      await exportTableCsv.mutateAsync('items');
+    } catch (error) {
+      handleExportError(error as BackupError);
+    }
+  }, [exportTableCsv, handleExportError]);
+
+  /**
+   * Replace the database with a backup file, after confirmation
+   */
+  const handleRestoreBackup = useCallback(() => {
+    Alert.alert(
+      'Restore Backup',
+      'All data on this device will be replaced with the backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Restore',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const summary = await restoreBackup.mutateAsync();
+              // A cancelled picker needs no feedback
+              if (summary) {
+                Alert.alert(
+                  'Backup Restored',
+                  `Restored ${summary.rowCounts.items} items from the backup of ${formatDate(summary.createdAt, { locale: 'en-US' })}.`,
+                  [{ text: 'OK' }]
+                );
+              }
+            } catch (error) {
+              const { code, message } = error as BackupError;
+              Alert.alert(
+                'Error',
+                code === 'INVALID_BACKUP' || code === 'UNSUPPORTED_VERSION'
+                  ? message
+                  : 'Could not restore the backup. Please try again.',
+                [{ text: 'OK' }]
+              );
+            }
+          },
+        },
+      ]
+    );
+  }, [restoreBackup]);
+
+  /**
+   * Open the subscription debug screen (development builds only)
+   */
+  const handleOpenDebug = useCallback(() => {
+    router.push('/debug/subscription' as Href);
+  }, []);
+
+  /**
+   * Open the subscription simulator control panel (development builds only)
+   */
+  const handleOpenSimulator = useCallback(() => {
+    router.push('/debug/simulator' as Href);
   }, []);
 
   return (
@@ -172,7 +331,9 @@ export default function SettingsScreen() {
               },
             ]}
           >
-            <ThemedText style={styles.badgeText}>PREMIUM</ThemedText>
+            <ThemedText style={styles.badgeText}>
+              {tier.toUpperCase()}
+            </ThemedText>
           </Animated.View>
         )}
 
@@ -222,8 +383,82 @@ export default function SettingsScreen() {
             </ThemedText>
           </View>
         )}
+
+        {/* Plan management - change, cancel or refund */}
+        {isPremium && (
+          <>
+            <Spacer size="sm" />
+            <Button
+              testID="manage-subscription-button"
+              variant="secondary"
+              onPress={handleManageSubscription}
+              style={styles.secondaryButton}
+            >
+              Manage Subscription
+            </Button>
+            {Platform.OS === 'ios' && subscription?.productId && (
+              <>
+                <Spacer size="sm" />
+                <Button
+                  testID="request-refund-button"
+                  variant="ghost"
+                  onPress={handleRequestRefund}
+                  style={styles.secondaryButton}
+                >
+                  Request a Refund
+                </Button>
+              </>
+            )}
+          </>
+        )}
       </View>
 
+      {/* Billing Status Banner - payment failed or plan ending */}
+      {billingStatus.kind !== 'ok' && (
+        <>
+          <Spacer size="lg" />
+          <View
+            testID="billing-status-banner"
+            style={[
+              styles.billingBanner,
+              {
+                backgroundColor: colors.background.secondary,
+                borderLeftColor:
+                  billingStatus.kind === 'billing_issue'
+                    ? colors.semantic.error
+                    : colors.semantic.warning,
+              },
+            ]}
+          >
+            <ThemedText
+              style={[styles.billingTitle, { color: colors.text.primary }]}
+            >
+              {billingStatus.kind === 'billing_issue'
+                ? 'Payment failed'
+                : `Your plan ends on ${billingStatus.endsAt.toLocaleDateString()}`}
+            </ThemedText>
+            <ThemedText
+              style={[styles.billingMessage, { color: colors.text.secondary }]}
+            >
+              {billingStatus.kind === 'billing_issue'
+                ? "We couldn't renew your subscription. Update your payment method to keep your plan."
+                : 'Auto-renew is turned off. You keep access until then.'}
+            </ThemedText>
+            {manageBillingUrl && (
+              <Button
+                testID="manage-billing-button"
+                variant="secondary"
+                size="sm"
+                onPress={handleManageBilling}
+                style={styles.billingButton}
+              >
+                Manage Billing
+              </Button>
+            )}
+          </View>
+        </>
+      )}
+
       <Spacer size="xl" />
 
       {/* Actions Section */}
@@ -251,6 +486,95 @@ export default function SettingsScreen() {
 
       <Spacer size="xl" />
 
+      {/* Data Section - backup, export and restore */}
+      <View style={styles.sectionContainer}>
+        <ThemedText
+          style={[styles.sectionLabel, { color: colors.text.tertiary }]}
+        >
+          DATA
+        </ThemedText>
+
+        <Spacer size="sm" />
+
+        <Button
+          testID="export-backup-button"
+          variant="secondary"
+          onPress={handleExportBackup}
+          loading={exportBackup.isPending}
+          disabled={exportBackup.isPending}
+          style={styles.secondaryButton}
+        >
+          Export Backup
+        </Button>
+
+        <Spacer size="sm" />
+
+        <Button
+          testID="export-items-csv-button"
+          variant="secondary"
+          onPress={handleExportItemsCsv}
+          loading={exportTableCsv.isPending}
+          disabled={exportTableCsv.isPending}
+          style={styles.secondaryButton}
+        >
+          Export Items as CSV
+        </Button>
+
+        <Spacer size="sm" />
+
+        <Button
+          testID="restore-backup-button"
+          variant="secondary"
+          onPress={handleRestoreBackup}
+          loading={restoreBackup.isPending}
+          disabled={restoreBackup.isPending}
+          style={styles.secondaryButton}
+        >
+          Restore Backup
+        </Button>
+      </View>
+
+      {/* Developer Section - subscription debugging (development builds only) */}
+      {__DEV__ && (
+        <>
+          <Spacer size="xl" />
+          <View style={styles.sectionContainer}>
+            <ThemedText
+              style={[styles.sectionLabel, { color: colors.text.tertiary }]}
+            >
+              DEVELOPER
+            </ThemedText>
+
+            <Spacer size="sm" />
+
+            <Button
+              testID="subscription-debug-button"
+              variant="secondary"
+              onPress={handleOpenDebug}
+              style={styles.secondaryButton}
+            >
+              Subscription Debug
+            </Button>
+
+            {isSubscriptionSimulatorEnabled() && (
+              <>
+                <Spacer size="sm" />
+                <Button
+                  testID="subscription-simulator-button"
+                  variant="secondary"
+                  onPress={handleOpenSimulator}
+                  style={styles.secondaryButton}
+                >
+                  Subscription Simulator
+                </Button>
+              </>
+            )}
+          </View>
+        </>
+      )}
+
+      <Spacer size="xl" />
+
       {/* About Section */}
       <View style={styles.sectionContainer}>
         <ThemedText
@@ -361,6 +685,24 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  // ===== Billing Banner =====
+  billingBanner: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    borderLeftWidth: 4,
+  },
+  billingTitle: {
+    ...Typography.headline,
+    marginBottom: Spacing.xs,
+  },
+  billingMessage: {
+    ...Typography.subheadline,
+  },
+  billingButton: {
+    marginTop: Spacing.md,
+    alignSelf: 'flex-start',
+  },
+
   // ===== Section Container =====
   sectionContainer: {
     paddingHorizontal: Spacing.lg,
@@ -90,6 +90,11 @@ jest.mock('@/database/client', () => ({
   db: {},
 }));
 
+// Mock live query table watchers
+jest.mock('@/database/live-query', () => ({
+  invalidateQueriesOnTableChange: jest.fn(() => jest.fn()),
+}));
+
 // Mock store with persist
 const mockSetRevenueCatAvailable = jest.fn();
 jest.mock('@/store', () => {
@@ -164,13 +169,37 @@ jest.mock('@/features/subscription/providers', () => {
 });
 
 // Mock subscription service creation
+const mockLoadAppUserId = jest.fn();
+let mockSimulatorEnabled = false;
+let mockReceiptVerifierUrl: string | null = null;
 jest.mock('@/features/subscription/core', () => ({
   subscriptionRepository: {
     getCustomerInfo: jest.fn(),
     purchasePackage: jest.fn(),
     restorePurchases: jest.fn(),
     getAvailablePackages: jest.fn(),
+    logIn: jest.fn(),
+    logOut: jest.fn(),
+    addSubscriptionListener: jest.fn(),
   },
+  subscriptionSimulator: { name: 'simulator' },
+  createWebCheckoutRepository: jest.fn(() => ({ name: 'web-checkout' })),
+  createHttpWebCheckoutProvider: jest.fn(() => ({})),
+  getWebCheckoutUrl: () => 'https://checkout.example.com',
+  createHttpReceiptVerifier: jest.fn(() => ({ verify: jest.fn() })),
+  getReceiptVerifierUrl: () => mockReceiptVerifierUrl,
+  subscriptionLogBuffer: { logger: jest.fn() },
+  isSubscriptionSimulatorEnabled: () => mockSimulatorEnabled,
+  createAsyncStorageSubscriptionCache: jest.fn(() => ({
+    load: jest.fn(),
+    save: jest.fn(),
+    clear: jest.fn(),
+  })),
+  createSecureAppUserIdStore: jest.fn(() => ({
+    load: () => mockLoadAppUserId(),
+    save: jest.fn(),
+    clear: jest.fn(),
+  })),
   createSubscriptionService: jest.fn(() => ({
     getCurrentSubscription: jest.fn(),
     getSubscription: jest.fn(),
@@ -178,12 +207,24 @@ jest.mock('@/features/subscription/core', () => ({
     restorePurchases: jest.fn(),
   })),
   syncSubscriptionToStore: jest.fn(),
+  DEFAULT_RETRY_POLICY: { maxAttempts: 3, baseDelayMs: 500, maxDelayMs: 5000 },
+}));
+
+// Mock subscription event log
+const mockRecordSubscriptionEvent = jest.fn();
+jest.mock('@/features/subscription-events/core', () => ({
+  subscriptionEventRepository: {},
+  createSubscriptionEventService: jest.fn(() => ({
+    record: mockRecordSubscriptionEvent,
+  })),
 }));
 
 // Import after mocks
 import { render, waitFor, screen } from '@testing-library/react-native';
 import * as SplashScreen from 'expo-splash-screen';
 import { initializeDatabase } from '@/database/client';
+import { invalidateQueriesOnTableChange } from '@/database/live-query';
+import { queryClient } from '@/lib/query-client';
 import { useStore } from '@/store';
 import { configurePurchases } from '@/features/subscription/core/sdk';
 import RootLayout from '@/app/_layout';
@@ -200,6 +241,7 @@ describe('RootLayout', () => {
     mockInitializeDatabase.mockResolvedValue(undefined);
     mockRehydrate.mockResolvedValue(undefined);
     mockConfigurePurchases.mockResolvedValue(undefined);
+    mockLoadAppUserId.mockResolvedValue(null);
     mockSetRevenueCatAvailable.mockClear();
   });
 
@@ -371,6 +413,30 @@ describe('RootLayout', () => {
       });
     });
 
+    it('should configure RevenueCat as the persisted app user', async () => {
+      mockLoadAppUserId.mockResolvedValue('user-42');
+
+      render(<RootLayout />);
+
+      await waitFor(() => {
+        expect(mockConfigurePurchases).toHaveBeenCalledWith({
+          appUserId: 'user-42',
+        });
+      });
+    });
+
+    it('should configure RevenueCat anonymously when the app user id cannot be read', async () => {
+      mockLoadAppUserId.mockRejectedValue(new Error('Keychain locked'));
+
+      render(<RootLayout />);
+
+      await waitFor(() => {
+        expect(mockConfigurePurchases).toHaveBeenCalledWith({
+          appUserId: null,
+        });
+      });
+    });
+
     it('should set RevenueCat availability to true on successful initialization', async () => {
       mockConfigurePurchases.mockResolvedValue(undefined);
 
@@ -440,4 +506,180 @@ describe('RootLayout', () => {
       consoleWarnSpy.mockRestore();
     });
   });
+
+  describe('Subscription Simulator', () => {
+    afterEach(() => {
+      mockSimulatorEnabled = false;
+    });
+
+    it('should use the simulator instead of RevenueCat when the env flag is set', async () => {
+      // Given: the simulator flag is set before the layout module loads
+      mockSimulatorEnabled = true;
+      jest.resetModules();
+      // The pure entry point does not register cleanup hooks inside the test
+      const rtl = require('@testing-library/react-native/pure');
+      const core = require('@/features/subscription/core');
+      const sdk = require('@/features/subscription/core/sdk');
+      const store = require('@/store');
+      const SimulatedLayout = require('@/app/_layout').default;
+
+      // When: the app starts
+      rtl.render(<SimulatedLayout />);
+
+      // Then: the service uses the simulator and RevenueCat is not configured
+      await rtl.waitFor(() => {
+        expect(rtl.screen.getByTestId('mock-stack')).toBeTruthy();
+      });
+      expect(core.createSubscriptionService).toHaveBeenCalledWith(
+        expect.objectContaining({ repository: core.subscriptionSimulator })
+      );
+      expect(sdk.configurePurchases).not.toHaveBeenCalled();
+      expect(
+        store.useStore.getState().setRevenueCatAvailable
+      ).not.toHaveBeenCalled();
+
+      rtl.cleanup();
+    });
+  });
+
+  describe('Web Checkout', () => {
+    it('should use web checkout instead of RevenueCat on web', () => {
+      // Given: the app runs on web
+      jest.resetModules();
+      const { Platform } = require('react-native');
+      const originalOS = Platform.OS;
+      Platform.OS = 'web';
+      const core = require('@/features/subscription/core');
+
+      // When: the layout module creates the subscription service
+      require('@/app/_layout');
+
+      // Then: the service uses the web checkout repository for the configured backend
+      expect(core.createHttpWebCheckoutProvider).toHaveBeenCalledWith({
+        baseUrl: 'https://checkout.example.com',
+      });
+      const [repository] = core.createWebCheckoutRepository.mock.results.map(
+        (result: { value: unknown }) => result.value
+      );
+      expect(core.createSubscriptionService).toHaveBeenCalledWith(
+        expect.objectContaining({ repository })
+      );
+
+      Platform.OS = originalOS;
+    });
+
+    it('should use RevenueCat on native platforms', () => {
+      // Given: the app runs on iOS (the test default)
+      jest.resetModules();
+      const core = require('@/features/subscription/core');
+
+      // When: the layout module creates the subscription service
+      require('@/app/_layout');
+
+      // Then: the RevenueCat repository is used
+      expect(core.createWebCheckoutRepository).not.toHaveBeenCalled();
+      expect(core.createSubscriptionService).toHaveBeenCalledWith(
+        expect.objectContaining({ repository: core.subscriptionRepository })
+      );
+    });
+  });
+
+  describe('Receipt Verification', () => {
+    afterEach(() => {
+      mockReceiptVerifierUrl = null;
+    });
+
+    it('should verify receipts when a verifier URL is configured', () => {
+      // Given: a verifier endpoint is configured
+      mockReceiptVerifierUrl = 'https://api.example.com/verify';
+      jest.resetModules();
+      const core = require('@/features/subscription/core');
+
+      // When: the layout module creates the subscription service
+      require('@/app/_layout');
+
+      // Then: the service verifies through the endpoint
+      expect(core.createHttpReceiptVerifier).toHaveBeenCalledWith({
+        url: 'https://api.example.com/verify',
+      });
+      const [verifier] = core.createHttpReceiptVerifier.mock.results.map(
+        (result: { value: unknown }) => result.value
+      );
+      expect(core.createSubscriptionService).toHaveBeenCalledWith(
+        expect.objectContaining({ verifier })
+      );
+    });
+
+    it('should trust the SDK without a verifier URL', () => {
+      jest.resetModules();
+      const core = require('@/features/subscription/core');
+
+      require('@/app/_layout');
+
+      expect(core.createHttpReceiptVerifier).not.toHaveBeenCalled();
+      expect(core.createSubscriptionService).toHaveBeenCalledWith(
+        expect.objectContaining({ verifier: undefined })
+      );
+    });
+  });
+
+  describe('Subscription Events', () => {
+    it('should sync the store and record an event for RevenueCat state', () => {
+      // Given: the layout module created the subscription service
+      jest.resetModules();
+      const core = require('@/features/subscription/core');
+      require('@/app/_layout');
+      const [{ onStateChange }] = core.createSubscriptionService.mock.calls[0];
+      const subscription = {
+        isActive: true,
+        tier: 'premium',
+        productId: 'monthly_plan',
+      };
+
+      // When: RevenueCat reports a new subscription state
+      onStateChange(subscription, 'remote');
+
+      // Then: the store is synced and the transition recorded
+      expect(core.syncSubscriptionToStore).toHaveBeenCalledWith(subscription);
+      expect(mockRecordSubscriptionEvent).toHaveBeenCalledWith(subscription);
+    });
+
+    it.each([
+      ['the free tier after a failed fetch', null],
+      ['the cached subscription', 'cache'],
+    ])('should sync the store but record nothing for %s', (_, source) => {
+      // Given: the layout module created the subscription service
+      jest.resetModules();
+      const core = require('@/features/subscription/core');
+      require('@/app/_layout');
+      const [{ onStateChange }] = core.createSubscriptionService.mock.calls[0];
+      const subscription = { isActive: false, tier: 'free', productId: null };
+
+      // When: the service falls back to local state
+      onStateChange(subscription, source);
+
+      // Then: the store is synced but the event log is left alone
+      expect(core.syncSubscriptionToStore).toHaveBeenCalledWith(subscription);
+      expect(mockRecordSubscriptionEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Live Queries', () => {
+    it('should invalidate item queries when the items table changes', async () => {
+      const { unmount } = render(<RootLayout />);
+
+      await waitFor(() => {
+        expect(invalidateQueriesOnTableChange).toHaveBeenCalledWith(
+          queryClient,
+          { items: [['items']] }
+        );
+      });
+
+      // The watcher is removed with the layout
+      const unsubscribe = jest.mocked(invalidateQueriesOnTableChange).mock
+        .results[0].value;
+      unmount();
+      expect(unsubscribe).toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,181 @@
+/**
+ * Subscription Simulator Screen Tests
+ *
+ * Tests for the dev-only control panel at app/debug/simulator.tsx
+ * Verifies:
+ * - Disabled state without the env flag
+ * - Purchases through the subscription provider
+ * - Lifecycle controls and their failures
+ * - Forcing and clearing errors
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react-native';
+import React from 'react';
+import { Alert } from 'react-native';
+
+import SubscriptionSimulatorScreen from '@/app/debug/simulator';
+import { subscriptionSimulator } from '@/features/subscription/core/simulator';
+
+let mockSimulatorEnabled = true;
+jest.mock('@/features/subscription/core/simulator', () => {
+  const actual = jest.requireActual<
+    typeof import('@/features/subscription/core/simulator')
+  >('@/features/subscription/core/simulator');
+  return {
+    ...actual,
+    isSubscriptionSimulatorEnabled: () => mockSimulatorEnabled,
+    subscriptionSimulator: actual.createSubscriptionSimulator({
+      latencyMs: 0,
+    }),
+  };
+});
+
+const mockPurchasePackage = jest.fn();
+const mockRefetchSubscription = jest.fn();
+jest.mock('@/features/subscription/hooks', () => ({
+  useSubscription: () => ({
+    tier: 'free',
+    subscription: null,
+    purchasePackage: mockPurchasePackage,
+    refetchSubscription: mockRefetchSubscription,
+  }),
+}));
+
+describe('SubscriptionSimulatorScreen', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    await subscriptionSimulator.reset();
+    mockSimulatorEnabled = true;
+    mockPurchasePackage.mockResolvedValue({
+      success: true,
+      data: { isActive: true, tier: 'premium' },
+    });
+    mockRefetchSubscription.mockResolvedValue(undefined);
+    jest.spyOn(Alert, 'alert');
+  });
+
+  it('should explain how to enable the simulator when it is disabled', () => {
+    // Given: the env flag is not set
+    mockSimulatorEnabled = false;
+
+    // When: the screen renders
+    render(<SubscriptionSimulatorScreen />);
+
+    // Then: the disabled notice is shown instead of the controls
+    expect(screen.getByTestId('simulator-disabled')).toBeTruthy();
+    expect(screen.queryByTestId('simulator-screen')).toBeNull();
+  });
+
+  it('should show the current subscription state', async () => {
+    // When: the screen renders
+    render(<SubscriptionSimulatorScreen />);
+
+    // Then: the tier is listed
+    expect(await screen.findByTestId('simulator-state-Tier')).toHaveTextContent(
+      'free'
+    );
+  });
+
+  it('should purchase packages through the subscription provider', async () => {
+    // Given: the screen is rendered
+    render(<SubscriptionSimulatorScreen />);
+
+    // When: the monthly package is bought
+    fireEvent.press(screen.getByTestId('simulator-purchase-$rc_monthly'));
+
+    // Then: the provider's purchasePackage is used
+    await waitFor(() => {
+      expect(mockPurchasePackage).toHaveBeenCalledWith('$rc_monthly');
+    });
+    expect(Alert.alert).not.toHaveBeenCalled();
+  });
+
+  it('should alert the error code when an action fails', async () => {
+    // Given: nothing has been purchased
+    render(<SubscriptionSimulatorScreen />);
+
+    // When: cancellation is simulated
+    fireEvent.press(screen.getByTestId('simulator-cancel'));
+
+    // Then: NO_ACTIVE_SUBSCRIPTION is reported
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'NO_ACTIVE_SUBSCRIPTION',
+        expect.any(String),
+        [{ text: 'OK' }]
+      );
+    });
+  });
+
+  it('should force an error onto the next call', async () => {
+    // Given: the screen is rendered
+    render(<SubscriptionSimulatorScreen />);
+
+    // When: NETWORK_ERROR is selected
+    fireEvent.press(screen.getByTestId('simulator-error-NETWORK_ERROR'));
+
+    // Then: the simulator fails the next call with it
+    await waitFor(() => {
+      expect(screen.getByTestId('simulator-forced-error')).toHaveTextContent(
+        'Failing next call with NETWORK_ERROR'
+      );
+    });
+    expect((await subscriptionSimulator.getState()).forcedError).toEqual({
+      code: 'NETWORK_ERROR',
+      persistent: false,
+    });
+  });
+
+  it('should force an error onto every call and clear it', async () => {
+    // Given: "Fail every call" is switched on
+    render(<SubscriptionSimulatorScreen />);
+    fireEvent(
+      screen.getByTestId('simulator-persistent-switch'),
+      'valueChange',
+      true
+    );
+
+    // When: STORE_PROBLEM_ERROR is selected
+    fireEvent.press(screen.getByTestId('simulator-error-STORE_PROBLEM_ERROR'));
+
+    // Then: every call fails until the error is cleared
+    await waitFor(() => {
+      expect(screen.getByTestId('simulator-forced-error')).toHaveTextContent(
+        'Failing every call with STORE_PROBLEM_ERROR'
+      );
+    });
+
+    fireEvent.press(screen.getByTestId('simulator-clear-error'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('simulator-forced-error')).toHaveTextContent(
+        'No forced error'
+      );
+    });
+  });
+
+  it('should reset the simulator and refetch the subscription', async () => {
+    // Given: a forced error is set
+    await subscriptionSimulator.setForcedError({
+      code: 'UNKNOWN_ERROR',
+      persistent: true,
+    });
+    render(<SubscriptionSimulatorScreen />);
+
+    // When: the simulator is reset
+    fireEvent.press(screen.getByTestId('simulator-reset'));
+
+    // Then: state is erased and the provider refetches
+    await waitFor(() => {
+      expect(mockRefetchSubscription).toHaveBeenCalled();
+    });
+    expect((await subscriptionSimulator.getState()).forcedError).toBeNull();
+  });
+});
@@ -0,0 +1,338 @@
+/**
+ * Subscription Debug Screen Tests
+ *
+ * Tests for the dev-only QA screen at app/debug/subscription.tsx
+ * Verifies:
+ * - Raw CustomerInfo, active entitlements, app user id and SDK state
+ * - Simulator state when the simulator replaces RevenueCat
+ * - Recorded lifecycle events and the member since date
+ * - Captured service log entries
+ * - Refetch, restore and clear cached state actions
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  act,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react-native';
+import React from 'react';
+import { Alert } from 'react-native';
+
+import SubscriptionDebugScreen from '@/app/debug/subscription';
+import { subscriptionEventService } from '@/features/subscription-events/core';
+import { subscriptionLogBuffer } from '@/features/subscription/core/log-buffer';
+import {
+  getCustomerInfoSnapshot,
+  invalidateCustomerInfoCache,
+} from '@/features/subscription/core/repository';
+
+jest.mock('@/features/subscription/core/repository', () => ({
+  getCustomerInfoSnapshot: jest.fn(),
+  invalidateCustomerInfoCache: jest.fn(),
+}));
+
+jest.mock('@/features/subscription-events/core', () => ({
+  subscriptionEventService: {
+    getEvents: jest.fn(),
+    getMemberSince: jest.fn(),
+  },
+}));
+
+jest.mock('@/features/subscription/core/sdk', () => ({
+  isConfigured: () => true,
+}));
+
+let mockSimulatorEnabled = false;
+jest.mock('@/features/subscription/core/simulator', () => ({
+  isSubscriptionSimulatorEnabled: () => mockSimulatorEnabled,
+  subscriptionSimulator: {
+    getState: jest.fn().mockResolvedValue({
+      appUserId: null,
+      anonymousId: '$RCAnonymousID:simulator-1',
+      purchase: null,
+      hasUsedTrial: false,
+      forcedError: null,
+    }),
+  },
+}));
+
+const mockRefetchSubscription = jest.fn();
+const mockRefetchPackages = jest.fn();
+const mockRestorePurchases = jest.fn();
+const mockClearCache = jest.fn();
+jest.mock('@/features/subscription/hooks', () => ({
+  useSubscription: () => ({
+    tier: 'premium',
+    source: 'remote',
+    subscription: { isActive: true },
+    refetchSubscription: mockRefetchSubscription,
+    refetchPackages: mockRefetchPackages,
+    restorePurchases: mockRestorePurchases,
+    clearCache: mockClearCache,
+  }),
+}));
+
+const mockGetCustomerInfoSnapshot = jest.mocked(getCustomerInfoSnapshot);
+const mockInvalidateCustomerInfoCache = jest.mocked(
+  invalidateCustomerInfoCache
+);
+const mockGetEvents = jest.mocked(subscriptionEventService.getEvents);
+const mockGetMemberSince = jest.mocked(subscriptionEventService.getMemberSince);
+
+const customerInfo = {
+  entitlements: {
+    active: {
+      premium: {
+        identifier: 'premium',
+        isActive: true,
+        periodType: 'NORMAL',
+        productIdentifier: 'monthly_plan',
+        expirationDate: '2026-02-01T00:00:00Z',
+      },
+    },
+    all: {},
+  },
+  originalAppUserId: 'user-42',
+};
+
+describe('SubscriptionDebugScreen', () => {
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    await AsyncStorage.clear();
+    subscriptionLogBuffer.clear();
+    mockSimulatorEnabled = false;
+    mockGetCustomerInfoSnapshot.mockResolvedValue({
+      success: true,
+      data: {
+        customerInfo: customerInfo as never,
+        appUserId: 'user-42',
+      },
+    });
+    mockInvalidateCustomerInfoCache.mockResolvedValue({
+      success: true,
+      data: undefined,
+    });
+    mockGetEvents.mockResolvedValue({ success: true, data: [] });
+    mockGetMemberSince.mockResolvedValue({ success: true, data: null });
+    mockRefetchSubscription.mockResolvedValue(undefined);
+    mockRefetchPackages.mockResolvedValue(undefined);
+    jest.spyOn(Alert, 'alert');
+  });
+
+  it('should show raw CustomerInfo, entitlements, app user id and SDK state', async () => {
+    // When: the screen loads
+    render(<SubscriptionDebugScreen />);
+
+    // Then: the raw RevenueCat state is shown
+    await waitFor(() => {
+      expect(
+        screen.getByTestId('subscription-debug-App user id')
+      ).toHaveTextContent('user-42');
+    });
+    expect(
+      screen.getByTestId('subscription-debug-SDK configured')
+    ).toHaveTextContent('true');
+    expect(
+      screen.getByTestId('subscription-debug-entitlement-premium')
+    ).toHaveTextContent('monthly_plan · NORMAL · 2026-02-01T00:00:00Z', {
+      exact: false,
+    });
+    expect(screen.getByTestId('subscription-debug-raw')).toHaveTextContent(
+      '"originalAppUserId": "user-42"',
+      { exact: false }
+    );
+  });
+
+  it('should show the error when CustomerInfo cannot be fetched', async () => {
+    // Given: RevenueCat is not configured
+    mockGetCustomerInfoSnapshot.mockResolvedValue({
+      success: false,
+      error: {
+        code: 'CONFIGURATION_ERROR',
+        message: 'SDK not configured',
+        retryable: false,
+      },
+    });
+
+    // When: the screen loads
+    render(<SubscriptionDebugScreen />);
+
+    // Then: the error replaces the raw JSON
+    await waitFor(() => {
+      expect(screen.getByTestId('subscription-debug-raw')).toHaveTextContent(
+        'CONFIGURATION_ERROR: SDK not configured'
+      );
+    });
+  });
+
+  it('should show the simulator state when the simulator is enabled', async () => {
+    // Given: the simulator replaces RevenueCat
+    mockSimulatorEnabled = true;
+
+    // When: the screen loads
+    render(<SubscriptionDebugScreen />);
+
+    // Then: the simulator state and anonymous id are shown
+    await waitFor(() => {
+      expect(
+        screen.getByTestId('subscription-debug-App user id')
+      ).toHaveTextContent('$RCAnonymousID:simulator-1');
+    });
+    expect(mockGetCustomerInfoSnapshot).not.toHaveBeenCalled();
+    expect(screen.getByText('Simulator state')).toBeTruthy();
+  });
+
+  it('should list recorded lifecycle events and the member since date', async () => {
+    // Given: the user subscribed and later upgraded
+    mockGetEvents.mockResolvedValue({
+      success: true,
+      data: [
+        {
+          id: 2,
+          type: 'product_changed',
+          fromTier: 'premium',
+          toTier: 'premium',
+          productId: 'annual_plan',
+          expiresAt: null,
+          occurredAt: new Date('2026-02-01T00:00:00Z'),
+        },
+        {
+          id: 1,
+          type: 'started',
+          fromTier: 'free',
+          toTier: 'premium',
+          productId: 'monthly_plan',
+          expiresAt: null,
+          occurredAt: new Date('2026-01-01T00:00:00Z'),
+        },
+      ],
+    });
+    mockGetMemberSince.mockResolvedValue({
+      success: true,
+      data: new Date('2026-01-01T00:00:00Z'),
+    });
+
+    // When: the screen loads
+    render(<SubscriptionDebugScreen />);
+
+    // Then: events are listed and the member since date shown
+    const events = await screen.findAllByTestId('subscription-debug-event');
+    expect(events).toHaveLength(2);
+    expect(events[0]).toHaveTextContent(
+      '2026-02-01T00:00:00.000Z product_changed premium → premium (annual_plan)'
+    );
+    expect(
+      screen.getByTestId('subscription-debug-Member since')
+    ).toHaveTextContent('2026-01-01T00:00:00.000Z');
+    expect(mockGetEvents).toHaveBeenCalledWith({ limit: 20 });
+  });
+
+  it('should show the storage error when events cannot be read', async () => {
+    // Given: the event log cannot be read
+    mockGetEvents.mockResolvedValue({
+      success: false,
+      error: { code: 'STORAGE_ERROR', message: 'database is locked' },
+    });
+
+    // When: the screen loads
+    render(<SubscriptionDebugScreen />);
+
+    // Then: the error is shown
+    expect(
+      await screen.findByTestId('subscription-debug-events-error')
+    ).toHaveTextContent('database is locked');
+  });
+
+  it('should list captured service log entries, newest first', async () => {
+    // Given: the service logged entries
+    subscriptionLogBuffer.logger('info', 'Fetching subscription state');
+    subscriptionLogBuffer.logger('error', 'Purchase failed', {
+      code: 'NETWORK_ERROR',
+    });
+
+    // When: the screen renders
+    render(<SubscriptionDebugScreen />);
+
+    // Then: entries are listed newest first
+    const entries = await screen.findAllByTestId(
+      'subscription-debug-log-entry'
+    );
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toHaveTextContent(
+      'ERROR Purchase failed {"code":"NETWORK_ERROR"}',
+      { exact: false }
+    );
+
+    // And: new entries and clearing are reflected
+    act(() => {
+      subscriptionLogBuffer.logger('warn', 'Retrying after retryable error');
+    });
+    expect(screen.getAllByTestId('subscription-debug-log-entry')).toHaveLength(
+      3
+    );
+
+    fireEvent.press(screen.getByTestId('subscription-debug-clear-log'));
+    expect(screen.queryByTestId('subscription-debug-log-entry')).toBeNull();
+  });
+
+  it('should force a refetch of subscription and packages', async () => {
+    // Given: the screen is rendered
+    render(<SubscriptionDebugScreen />);
+
+    // When: Force refetch is pressed
+    fireEvent.press(screen.getByTestId('subscription-debug-refetch'));
+
+    // Then: both are refetched and the raw state reloaded
+    await waitFor(() => {
+      expect(mockGetCustomerInfoSnapshot).toHaveBeenCalledTimes(2);
+    });
+    expect(mockRefetchSubscription).toHaveBeenCalled();
+    expect(mockRefetchPackages).toHaveBeenCalled();
+  });
+
+  it('should restore purchases and report the result', async () => {
+    // Given: nothing to restore
+    mockRestorePurchases.mockResolvedValue({
+      success: false,
+      error: {
+        code: 'NO_ACTIVE_SUBSCRIPTION',
+        message: 'No active subscription found',
+        retryable: false,
+      },
+    });
+    render(<SubscriptionDebugScreen />);
+
+    // When: Restore is pressed
+    fireEvent.press(screen.getByTestId('subscription-debug-restore'));
+
+    // Then: the error code is reported
+    await waitFor(() => {
+      expect(Alert.alert).toHaveBeenCalledWith(
+        'Restore',
+        'NO_ACTIVE_SUBSCRIPTION: No purchases available to restore.',
+        [{ text: 'OK' }]
+      );
+    });
+  });
+
+  it("should clear the service's and SDK caches and refetch", async () => {
+    render(<SubscriptionDebugScreen />);
+
+    // When: Clear cached state is pressed
+    fireEvent.press(screen.getByTestId('subscription-debug-clear-cache'));
+
+    // Then: both caches are cleared before the state is refetched
+    await waitFor(() => {
+      expect(mockRefetchSubscription).toHaveBeenCalled();
+    });
+    expect(mockRefetchPackages).toHaveBeenCalled();
+    expect(mockClearCache).toHaveBeenCalled();
+    expect(mockInvalidateCustomerInfoCache).toHaveBeenCalled();
+    expect(mockClearCache.mock.invocationCallOrder[0]).toBeLessThan(
+      mockRefetchSubscription.mock.invocationCallOrder[0]
+    );
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * Item Screens Tests
+ *
+ * Tests for the list, detail and edit screens under app/items/
+ * Verifies:
+ * - Listing items, the empty state and navigation to detail and create
+ * - Searching, with matches highlighted
+ * - Deleting after confirmation and returning to the list
+ * - Creating and editing through the mutation hooks
+ * - Opening the paywall when the items quota is used up
+ */
+
+import {
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from '@testing-library/react-native';
+import { router } from 'expo-router';
+import React from 'react';
+import { Alert } from 'react-native';
+
+import ItemDetailScreen from '@/app/items/[id]';
+import ItemEditScreen from '@/app/items/edit';
+import ItemListScreen from '@/app/items';
+import type { Item } from '@/database/schema';
+import {
+  useCreateItem,
+  useDeleteItem,
+  useItem,
+  useItems,
+  useItemSearch,
+  useUpdateItem,
+} from '@/features/items/hooks';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+let mockParams: Record<string, string> = {};
+jest.mock('expo-router', () => ({
+  router: { push: jest.fn(), back: jest.fn() },
+  useLocalSearchParams: () => mockParams,
+}));
+
+jest.mock('@/features/items/hooks', () => ({
+  useItems: jest.fn(),
+  useItem: jest.fn(),
+  useCreateItem: jest.fn(),
+  useUpdateItem: jest.fn(),
+  useDeleteItem: jest.fn(),
+  useItemSearch: jest.fn(),
+}));
+
+const mockPresentPaywall = jest.fn();
+jest.mock('@/features/subscription/hooks', () => ({
+  usePaywallPresenter: () => ({ presentPaywall: mockPresentPaywall }),
+}));
+
+const groceries: Item = {
+  id: 1,
+  title: 'Groceries',
+  description: 'Milk, eggs',
+  createdAt: new Date('2026-01-01'),
+};
+
+/**
+ * Minimal query result for the mocked hooks.
+ */
+function queryResult<T>(data: T | undefined, error: unknown = null) {
+  return {
+    data,
+    error,
+    isPending: data === undefined && error === null,
+    isRefetching: false,
+    refetch: jest.fn(),
+  };
+}
+
+function mutationResult() {
+  return { mutateAsync: jest.fn(), isPending: false };
+}
+
+describe('Item Screens', () => {
+  let createItem: ReturnType<typeof mutationResult>;
+  let updateItem: ReturnType<typeof mutationResult>;
+  let deleteItem: ReturnType<typeof mutationResult>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(Alert, 'alert');
+    mockParams = {};
+
+    createItem = mutationResult();
+    updateItem = mutationResult();
+    deleteItem = mutationResult();
+    jest.mocked(useItems).mockReturnValue(queryResult([groceries]) as never);
+    jest.mocked(useItemSearch).mockReturnValue(queryResult(undefined) as never);
+    jest.mocked(useItem).mockReturnValue(queryResult(groceries) as never);
+    jest.mocked(useCreateItem).mockReturnValue(createItem as never);
+    jest.mocked(useUpdateItem).mockReturnValue(updateItem as never);
+    jest.mocked(useDeleteItem).mockReturnValue(deleteItem as never);
+  });
+
+  describe('ItemListScreen', () => {
+    it('should list items and open one on press', () => {
+      render(<ItemListScreen />);
+
+      fireEvent.press(screen.getByText('Groceries'));
+
+      expect(screen.getByText('Milk, eggs')).toBeTruthy();
+      expect(router.push).toHaveBeenCalledWith('/items/1');
+    });
+
+    it('should show the empty state and open the create form', () => {
+      jest.mocked(useItems).mockReturnValue(queryResult([]) as never);
+
+      render(<ItemListScreen />);
+      fireEvent.press(screen.getByTestId('items-create-button'));
+
+      expect(screen.getByTestId('items-empty')).toBeTruthy();
+      expect(router.push).toHaveBeenCalledWith('/items/edit');
+    });
+
+    it('should not open items that are still being created', () => {
+      jest
+        .mocked(useItems)
+        .mockReturnValue(
+          queryResult([{ ...groceries, id: -1, title: 'Pending' }]) as never
+        );
+
+      render(<ItemListScreen />);
+      fireEvent.press(screen.getByText('Pending'));
+
+      expect(router.push).not.toHaveBeenCalled();
+    });
+
+    it('should offer a retry when loading fails', () => {
+      const result = queryResult(undefined, { code: 'STORAGE_ERROR' });
+      jest.mocked(useItems).mockReturnValue(result as never);
+
+      render(<ItemListScreen />);
+      fireEvent.press(screen.getByText('Try Again'));
+
+      expect(result.refetch).toHaveBeenCalled();
+    });
+
+    it('should show search results with the matches highlighted', () => {
+      jest.mocked(useItemSearch).mockReturnValue(
+        queryResult([
+          {
+            item: groceries,
+            title: [
+              { text: 'Groc', match: true },
+              { text: 'eries', match: false },
+            ],
+            description: [{ text: 'Milk, eggs', match: false }],
+          },
+        ]) as never
+      );
+
+      render(<ItemListScreen />);
+      fireEvent.changeText(screen.getByTestId('items-search-input'), 'groc');
+
+      expect(useItemSearch).toHaveBeenLastCalledWith('groc');
+      expect(screen.getByText('Groc')).toHaveStyle({ fontWeight: '600' });
+      expect(screen.getByText('eries')).toBeTruthy();
+
+      fireEvent.press(screen.getByTestId('item-row-1'));
+      expect(router.push).toHaveBeenCalledWith('/items/1');
+    });
+
+    it('should show a spinner until the first results arrive', () => {
+      render(<ItemListScreen />);
+      fireEvent.changeText(screen.getByTestId('items-search-input'), 'groc');
+
+      expect(screen.getByTestId('items-searching')).toBeTruthy();
+      expect(screen.queryByText('Groceries')).toBeNull();
+    });
+
+    it('should say when nothing matches', () => {
+      jest.mocked(useItemSearch).mockReturnValue(queryResult([]) as never);
+
+      render(<ItemListScreen />);
+      fireEvent.changeText(screen.getByTestId('items-search-input'), ' kale ');
+
+      expect(screen.getByTestId('items-empty')).toHaveTextContent(
+        'No items match “kale”.'
+      );
+    });
+  });
+
+  describe('ItemDetailScreen', () => {
+    beforeEach(() => {
+      mockParams = { id: '1' };
+    });
+
+    it('should show the item', () => {
+      render(<ItemDetailScreen />);
+
+      expect(useItem).toHaveBeenCalledWith(1);
+      expect(screen.getByText('Groceries')).toBeTruthy();
+      expect(screen.getByTestId('item-description')).toHaveTextContent(
+        'Milk, eggs'
+      );
+    });
+
+    it('should open the edit form for the item', () => {
+      render(<ItemDetailScreen />);
+
+      fireEvent.press(screen.getByTestId('item-edit-button'));
+
+      expect(router.push).toHaveBeenCalledWith({
+        pathname: '/items/edit',
+        params: { id: '1' },
+      });
+    });
+
+    it('should delete after confirmation and go back', async () => {
+      deleteItem.mutateAsync.mockResolvedValue(undefined);
+      render(<ItemDetailScreen />);
+
+      fireEvent.press(screen.getByTestId('item-delete-button'));
+      const buttons = jest.mocked(Alert.alert).mock.calls[0][2]!;
+      await buttons.find((button) => button.text === 'Delete')!.onPress!();
+
+      expect(deleteItem.mutateAsync).toHaveBeenCalledWith(1);
+      expect(router.back).toHaveBeenCalled();
+    });
+
+    it('should report a missing item', () => {
+      jest.mocked(useItem).mockReturnValue(
+        queryResult(undefined, {
+          code: 'NOT_FOUND',
+          message: 'Item 1 not found',
+          id: 1,
+        }) as never
+      );
+
+      render(<ItemDetailScreen />);
+
+      expect(screen.getByText('This item no longer exists.')).toBeTruthy();
+    });
+  });
+
+  describe('ItemEditScreen', () => {
+    it('should create an item and go back', async () => {
+      createItem.mutateAsync.mockResolvedValue(groceries);
+      render(<ItemEditScreen />);
+
+      expect(useItem).toHaveBeenCalledWith(null);
+      fireEvent.changeText(screen.getByTestId('item-title-input'), 'Errands');
+      fireEvent.press(screen.getByTestId('item-save-button'));
+
+      await waitFor(() => expect(router.back).toHaveBeenCalled());
+      expect(createItem.mutateAsync).toHaveBeenCalledWith({
+        title: 'Errands',
+        description: '',
+      });
+    });
+
+    it('should open the paywall when the items quota is used up', async () => {
+      createItem.mutateAsync.mockRejectedValue({
+        code: 'LIMIT_REACHED',
+        message: 'Usage limit reached for items (10)',
+        limit: 10,
+      });
+      render(<ItemEditScreen />);
+
+      fireEvent.changeText(screen.getByTestId('item-title-input'), 'Errands');
+      fireEvent.press(screen.getByTestId('item-save-button'));
+
+      await waitFor(() =>
+        expect(mockPresentPaywall).toHaveBeenCalledWith('item_limit')
+      );
+      expect(router.back).not.toHaveBeenCalled();
+    });
+
+    it('should show validation errors', async () => {
+      createItem.mutateAsync.mockRejectedValue({
+        code: 'INVALID_INPUT',
+        message: 'Please enter a title',
+      });
+      render(<ItemEditScreen />);
+
+      fireEvent.press(screen.getByTestId('item-save-button'));
+
+      await waitFor(() =>
+        expect(Alert.alert).toHaveBeenCalledWith(
+          'Invalid Item',
+          'Please enter a title',
+          expect.any(Array)
+        )
+      );
+    });
+
+    it('should prefill and update an existing item', async () => {
+      mockParams = { id: '1' };
+      updateItem.mutateAsync.mockResolvedValue(groceries);
+      render(<ItemEditScreen />);
+
+      expect(screen.getByTestId('item-title-input').props.value).toBe(
+        'Groceries'
+      );
+      fireEvent.changeText(
+        screen.getByTestId('item-description-input'),
+        'Bread'
+      );
+      fireEvent.press(screen.getByTestId('item-save-button'));
+
+      await waitFor(() => expect(router.back).toHaveBeenCalled());
+      expect(updateItem.mutateAsync).toHaveBeenCalledWith({
+        id: 1,
+        changes: { title: 'Groceries', description: 'Bread' },
+      });
+    });
+  });
+});
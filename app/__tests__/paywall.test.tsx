@@ -7,6 +7,7 @@
  * - Integration with Paywall component
  * - Navigation behavior
  * - Purchase/restore event handling
+ * - Placement tracking and offering selection
  */
 
 /* eslint-disable @typescript-eslint/no-require-imports, import/first */
@@ -17,8 +18,15 @@ import React from 'react';
 const mockRouter = {
   back: jest.fn(),
 };
+let mockSearchParams: {
+  variant?: string;
+  feature?: string;
+  placement?: string;
+  offering?: string;
+} = {};
 jest.mock('expo-router', () => ({
   useRouter: () => mockRouter,
+  useLocalSearchParams: () => mockSearchParams,
 }));
 
 // Mock useThemedColors
@@ -72,6 +80,14 @@ jest.mock('@/features/subscription/hooks', () => ({
   }),
 }));
 
+// Mock the paywall presenter's event tracking
+const mockRecordPlacementEvent = jest.fn().mockResolvedValue(undefined);
+jest.mock('@/features/subscription/core/paywall-presenter', () => ({
+  paywallPresenter: {
+    record: (...args: unknown[]) => mockRecordPlacementEvent(...args),
+  },
+}));
+
 // Mock Paywall component from features/subscription/components
 const mockOnPurchaseSuccess = jest.fn();
 const mockOnRestoreSuccess = jest.fn();
@@ -82,6 +98,7 @@ jest.mock('@/features/subscription/components', () => {
   const { View, Text } = require('react-native');
   return {
     Paywall: (props: {
+      offeringId?: string;
       onPurchaseSuccess?: () => void;
       onRestoreSuccess?: () => void;
       onError?: (error: unknown) => void;
@@ -96,6 +113,30 @@ jest.mock('@/features/subscription/components', () => {
       return (
         <View testID="paywall-component">
           <Text>Mock Paywall</Text>
+          <Text testID="paywall-offering">{props.offeringId ?? 'default'}</Text>
+        </View>
+      );
+    },
+    NativePaywall: (props: {
+      offeringId?: string;
+      headline?: string;
+      onPurchaseSuccess?: () => void;
+      onRestoreSuccess?: () => void;
+      onDismiss?: () => void;
+    }) => {
+      mockOnPurchaseSuccess.mockImplementation(props.onPurchaseSuccess);
+      mockOnRestoreSuccess.mockImplementation(props.onRestoreSuccess);
+      mockOnDismiss.mockImplementation(props.onDismiss);
+
+      return (
+        <View testID="native-paywall-component">
+          <Text>Mock Native Paywall</Text>
+          <Text testID="native-paywall-headline">
+            {props.headline ?? 'default'}
+          </Text>
+          <Text testID="native-paywall-offering">
+            {props.offeringId ?? 'default'}
+          </Text>
         </View>
       );
     },
@@ -105,10 +146,15 @@ jest.mock('@/features/subscription/components', () => {
 // Import after mocks
 import { render, screen, waitFor } from '@testing-library/react-native';
 import PaywallScreen from '@/app/paywall';
+import {
+  configureFeatureGates,
+  resetFeatureGates,
+} from '@/features/subscription/core/feature-gates';
 
 describe('PaywallScreen', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockSearchParams = {};
   });
 
   describe('Rendering', () => {
@@ -200,6 +246,82 @@ describe('PaywallScreen', () => {
     });
   });
 
+  describe('Paywall Variant', () => {
+    // Given: The paywall is opened with variant=native
+    // When: The screen is rendered
+    // Then: It should render the native paywall instead of RevenueCat UI
+    it('should render the native paywall when variant param is native', () => {
+      mockSearchParams = { variant: 'native' };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('native-paywall-component')).toBeTruthy();
+      expect(screen.queryByTestId('paywall-component')).toBeNull();
+    });
+
+    // Given: The paywall is opened with an unknown variant
+    // When: The screen is rendered
+    // Then: It should fall back to the RevenueCat paywall
+    it('should fall back to RevenueCat paywall for unknown variants', () => {
+      mockSearchParams = { variant: 'unknown' };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('paywall-component')).toBeTruthy();
+    });
+
+    // Given: A user completes a purchase on the native paywall
+    // When: The onPurchaseSuccess callback is triggered
+    // Then: It should close the paywall (provider already updated state)
+    it('should navigate back after native purchase success', () => {
+      mockSearchParams = { variant: 'native' };
+
+      render(<PaywallScreen />);
+      mockOnPurchaseSuccess();
+
+      expect(mockRouter.back).toHaveBeenCalled();
+      expect(mockRefetchSubscription).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Gated Feature', () => {
+    beforeEach(() => {
+      configureFeatureGates({
+        export: { level: 'premium', paywallHeadline: 'Export without limits' },
+      });
+    });
+
+    afterEach(() => {
+      resetFeatureGates();
+    });
+
+    // Given: The paywall is opened by a gated feature with a headline
+    // When: The native paywall is rendered
+    // Then: It should show the feature's headline
+    it('should pass the gating feature headline to the native paywall', () => {
+      mockSearchParams = { variant: 'native', feature: 'export' };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('native-paywall-headline').props.children).toBe(
+        'Export without limits'
+      );
+    });
+
+    // Given: The paywall is opened by a feature that is not registered
+    // When: The native paywall is rendered
+    // Then: It should keep the default headline
+    it('should keep the default headline for unknown features', () => {
+      mockSearchParams = { variant: 'native', feature: 'unknown' };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('native-paywall-headline').props.children).toBe(
+        'default'
+      );
+    });
+  });
+
   describe('Error Handling', () => {
     // Given: An error occurs during purchase/restore
     // When: The onError callback is triggered
@@ -221,4 +343,130 @@ describe('PaywallScreen', () => {
       consoleErrorSpy.mockRestore();
     });
   });
+  describe('Placement Tracking', () => {
+    // Given: The paywall is opened without a placement
+    // When: The user dismisses it
+    // Then: No placement events should be recorded
+    it('should not record events without a placement', () => {
+      render(<PaywallScreen />);
+      mockOnDismiss();
+
+      expect(mockRecordPlacementEvent).not.toHaveBeenCalled();
+    });
+
+    // Given: The paywall is opened for a placement
+    // When: The screen is rendered
+    // Then: An impression should be recorded for the placement
+    it('should record an impression for the placement', () => {
+      mockSearchParams = { placement: 'settings_upgrade' };
+
+      render(<PaywallScreen />);
+
+      expect(mockRecordPlacementEvent).toHaveBeenCalledWith(
+        'settings_upgrade',
+        'impression'
+      );
+    });
+
+    // Given: The paywall is opened for a placement
+    // When: The user closes it without purchasing
+    // Then: A dismissal should be recorded
+    it('should record a dismissal when closed without a purchase', () => {
+      mockSearchParams = { placement: 'item_limit' };
+
+      render(<PaywallScreen />);
+      mockOnDismiss();
+
+      expect(mockRecordPlacementEvent).toHaveBeenCalledWith(
+        'item_limit',
+        'dismissal'
+      );
+    });
+
+    // Given: The RevenueCat paywall is opened for a placement
+    // When: The user purchases, then the paywall closes
+    // Then: A conversion and no dismissal should be recorded
+    it('should record a conversion instead of a dismissal after a purchase', async () => {
+      mockSearchParams = { placement: 'item_limit' };
+
+      render(<PaywallScreen />);
+      mockOnPurchaseSuccess();
+      mockOnDismiss();
+
+      await waitFor(() => {
+        expect(mockRefetchSubscription).toHaveBeenCalled();
+      });
+      expect(mockRecordPlacementEvent).toHaveBeenCalledWith(
+        'item_limit',
+        'conversion'
+      );
+      expect(mockRecordPlacementEvent).not.toHaveBeenCalledWith(
+        'item_limit',
+        'dismissal'
+      );
+    });
+
+    // Given: The native paywall is opened for a placement
+    // When: The user purchases
+    // Then: A conversion should be recorded and the paywall closed
+    it('should record a conversion on native purchase success', () => {
+      mockSearchParams = { variant: 'native', placement: 'item_limit' };
+
+      render(<PaywallScreen />);
+      mockOnPurchaseSuccess();
+
+      expect(mockRecordPlacementEvent).toHaveBeenCalledWith(
+        'item_limit',
+        'conversion'
+      );
+      expect(mockRouter.back).toHaveBeenCalled();
+    });
+
+    // Given: The native paywall is opened for a placement
+    // When: The user restores purchases
+    // Then: Neither a conversion nor a dismissal should be recorded
+    it('should not count a restore as a conversion or dismissal', () => {
+      mockSearchParams = { variant: 'native', placement: 'item_limit' };
+
+      render(<PaywallScreen />);
+      mockOnRestoreSuccess();
+
+      expect(mockRecordPlacementEvent).toHaveBeenCalledTimes(1);
+      expect(mockRecordPlacementEvent).toHaveBeenCalledWith(
+        'item_limit',
+        'impression'
+      );
+      expect(mockRouter.back).toHaveBeenCalled();
+    });
+
+    // Given: The placement presents a specific offering
+    // When: The RevenueCat paywall is rendered
+    // Then: It should receive the offering identifier
+    it("should pass the placement's offering to the RevenueCat paywall", () => {
+      mockSearchParams = { placement: 'item_limit', offering: 'limit_reached' };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('paywall-offering').props.children).toBe(
+        'limit_reached'
+      );
+    });
+
+    // Given: The placement presents a specific offering
+    // When: The native paywall is rendered
+    // Then: It should receive the offering identifier
+    it("should pass the placement's offering to the native paywall", () => {
+      mockSearchParams = {
+        variant: 'native',
+        placement: 'item_limit',
+        offering: 'limit_reached',
+      };
+
+      render(<PaywallScreen />);
+
+      expect(screen.getByTestId('native-paywall-offering').props.children).toBe(
+        'limit_reached'
+      );
+    });
+  });
 });
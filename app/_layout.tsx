@@ -1,5 +1,5 @@
 import { useCallback, useEffect, useState } from 'react';
-import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { View, Text, StyleSheet, Pressable, Platform } from 'react-native';
 import {
   DarkTheme,
   DefaultTheme,
@@ -14,6 +14,7 @@ import 'react-native-reanimated';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { useThemedColors } from '@/hooks/use-theme-color';
 import { initializeDatabase } from '@/database/client';
+import { invalidateQueriesOnTableChange } from '@/database/live-query';
 import { useStore } from '@/store';
 import { queryClient } from '@/lib/query-client';
 import { setupForegroundHandler } from '@/services/notifications';
@@ -21,9 +22,27 @@ import { configurePurchases } from '@/features/subscription/core/sdk';
 import { SubscriptionProvider } from '@/features/subscription/providers';
 import {
   subscriptionRepository,
+  subscriptionSimulator,
+  createWebCheckoutRepository,
+  createHttpWebCheckoutProvider,
+  getWebCheckoutUrl,
+  createHttpReceiptVerifier,
+  getReceiptVerifierUrl,
+  isSubscriptionSimulatorEnabled,
+  subscriptionLogBuffer,
   createSubscriptionService,
+  createAsyncStorageSubscriptionCache,
+  createSecureAppUserIdStore,
   syncSubscriptionToStore,
+  DEFAULT_RETRY_POLICY,
+  type SubscriptionRepository,
 } from '@/features/subscription/core';
+import {
+  createSubscriptionEventService,
+  subscriptionEventRepository,
+} from '@/features/subscription-events/core';
+import { usageService } from '@/features/usage/core';
+import { itemKeys } from '@/features/items/core/query-keys';
 
 export { ErrorBoundary } from '@/components/ui/error-fallback';
 
@@ -35,15 +54,87 @@ SplashScreen.preventAutoHideAsync();
  */
 const INIT_TIMEOUT_MS = 5000;
 
+/**
+ * Whether subscriptions are simulated offline instead of using RevenueCat
+ * (EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR=true in development builds).
+ */
+const SUBSCRIPTION_SIMULATOR_ENABLED = isSubscriptionSimulatorEnabled();
+
+/**
+ * Persisted RevenueCat app user id (set by logIn, cleared by logOut).
+ */
+const appUserIdStore = createSecureAppUserIdStore();
+
+/**
+ * Repository behind the subscription service: the offline simulator when
+ * enabled, web checkout on web (RevenueCat's SDK does not run there), and
+ * RevenueCat everywhere else.
+ */
+function getSubscriptionRepository(): SubscriptionRepository {
+  if (SUBSCRIPTION_SIMULATOR_ENABLED) {
+    return subscriptionSimulator;
+  }
+  if (Platform.OS === 'web') {
+    return createWebCheckoutRepository({
+      provider: createHttpWebCheckoutProvider({ baseUrl: getWebCheckoutUrl() }),
+      appUserIdStore,
+    });
+  }
+  return subscriptionRepository;
+}
+
+/**
+ * Optional server-side receipt verifier (EXPO_PUBLIC_RECEIPT_VERIFIER_URL).
+ * When set, paid subscriptions reach the store only once it confirms them.
+ */
+const RECEIPT_VERIFIER_URL = getReceiptVerifierUrl();
+
+/**
+ * Records tier and product transitions in SQLite ("member since", support).
+ */
+const subscriptionEvents = createSubscriptionEventService({
+  repository: subscriptionEventRepository,
+  logger: __DEV__ ? subscriptionLogBuffer.logger : undefined,
+});
+
 /**
  * Subscription service instance for the entire app.
  * Created once at module level to maintain consistent state.
+ * The cache keeps paying users unlocked when RevenueCat is unreachable,
+ * and transient RevenueCat errors are retried (purchases excepted).
+ * State changes update the store, RevenueCat state (not cached or free
+ * fallbacks) is recorded in the subscription event log, and purchased
+ * credit packs are credited to the usage quotas.
+ * In development builds, service logs are kept for the debug screen.
  */
 const subscriptionService = createSubscriptionService({
-  repository: subscriptionRepository,
-  onStateChange: syncSubscriptionToStore,
+  repository: getSubscriptionRepository(),
+  onStateChange: (subscription, source) => {
+    syncSubscriptionToStore(subscription);
+    if (source === 'remote') {
+      void subscriptionEvents.record(subscription);
+    }
+  },
+  onProductPurchase: async (purchase) => {
+    await usageService.grantCredits(purchase);
+  },
+  cache: createAsyncStorageSubscriptionCache(),
+  appUserIdStore,
+  retryPolicy: DEFAULT_RETRY_POLICY,
+  verifier: RECEIPT_VERIFIER_URL
+    ? createHttpReceiptVerifier({ url: RECEIPT_VERIFIER_URL })
+    : undefined,
+  logger: __DEV__ ? subscriptionLogBuffer.logger : undefined,
 });
 
+/**
+ * Cached queries refetched after writes to their tables, whichever code
+ * path wrote them.
+ */
+const TABLE_QUERY_BINDINGS = {
+  items: [itemKeys.all],
+};
+
 export const unstable_settings = {
   anchor: '(tabs)',
 };
@@ -114,25 +205,32 @@ export default function RootLayout() {
 
       // RevenueCat SDK initialization with timeout (non-blocking: errors are logged but don't block app startup)
       // Falls back to free tier mode if initialization fails or times out
-      const revenueCatInitPromise = Promise.race([
-        configurePurchases(),
-        new Promise<never>((_, reject) =>
-          setTimeout(
-            () => reject(new Error('RevenueCat initialization timeout')),
-            INIT_TIMEOUT_MS
-          )
-        ),
-      ])
-        .then(() => {
-          useStore.getState().setRevenueCatAvailable(true);
-        })
-        .catch((error: unknown) => {
-          // Log error but don't block app startup - user will be in free tier mode
-          const message =
-            error instanceof Error ? error.message : String(error);
-          console.warn('RevenueCat SDK initialization failed:', message);
-          useStore.getState().setRevenueCatAvailable(false);
-        });
+      // Configures as the last logged in user; unreadable ids fall back to anonymous
+      // Skipped when the offline simulator replaces RevenueCat
+      const revenueCatInitPromise = SUBSCRIPTION_SIMULATOR_ENABLED
+        ? Promise.resolve()
+        : Promise.race([
+            appUserIdStore
+              .load()
+              .catch(() => null)
+              .then((appUserId) => configurePurchases({ appUserId })),
+            new Promise<never>((_, reject) =>
+              setTimeout(
+                () => reject(new Error('RevenueCat initialization timeout')),
+                INIT_TIMEOUT_MS
+              )
+            ),
+          ])
+            .then(() => {
+              useStore.getState().setRevenueCatAvailable(true);
+            })
+            .catch((error: unknown) => {
+              // Log error but don't block app startup - user will be in free tier mode
+              const message =
+                error instanceof Error ? error.message : String(error);
+              console.warn('RevenueCat SDK initialization failed:', message);
+              useStore.getState().setRevenueCatAvailable(false);
+            });
 
       // Parallel initialization of all critical services
       await Promise.all([
@@ -164,6 +262,12 @@ export default function RootLayout() {
     setupForegroundHandler();
   }, []);
 
+  // Invalidate cached queries when their tables change
+  useEffect(
+    () => invalidateQueriesOnTableChange(queryClient, TABLE_QUERY_BINDINGS),
+    []
+  );
+
   // Show nothing while initializing (splash screen is visible)
   if (!appReady) {
     return null;
@@ -198,6 +302,20 @@ export default function RootLayout() {
                 headerShown: false,
               }}
             />
+            <Stack.Screen name="items/index" options={{ title: 'Items' }} />
+            <Stack.Screen name="items/[id]" options={{ title: 'Item' }} />
+            <Stack.Screen
+              name="items/edit"
+              options={{ presentation: 'modal', title: 'Edit Item' }}
+            />
+            <Stack.Screen
+              name="debug/simulator"
+              options={{ title: 'Subscription Simulator' }}
+            />
+            <Stack.Screen
+              name="debug/subscription"
+              options={{ title: 'Subscription Debug' }}
+            />
           </Stack>
           <StatusBar style="auto" />
         </ThemeProvider>
@@ -0,0 +1,343 @@
+/**
+ * Subscription Simulator Screen
+ *
+ * Dev-only control panel for the offline subscription simulator.
+ * Only functional when EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR=true in a
+ * development build (the app then uses the simulator instead of RevenueCat).
+ *
+ * Features:
+ * - Shows the current subscription state
+ * - Purchases any simulated package through the subscription provider
+ * - Simulates cancellation, billing issues, renewal and expiry
+ * - Forces any SubscriptionErrorCode onto the next (or every) call
+ * - Resets the simulated store account
+ *
+ * Route: /debug/simulator
+ *
+ * @module app/debug/simulator
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Spacer } from '@/components/ui/spacer';
+import { Spacing, Typography } from '@/constants/theme';
+import {
+  isSubscriptionSimulatorEnabled,
+  SIMULATED_ERROR_CODES,
+  SIMULATED_PACKAGES,
+  subscriptionSimulator,
+  type SimulatorForcedError,
+} from '@/features/subscription/core/simulator';
+import type {
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionErrorCode,
+} from '@/features/subscription/core/types';
+import { useSubscription } from '@/features/subscription/hooks';
+import { useThemedColors } from '@/hooks/use-theme-color';
+
+/**
+ * Format an optional date for the state table.
+ */
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toLocaleString() : '—';
+}
+
+/**
+ * Show a failed simulator action.
+ */
+function alertOnFailure(result: Result<unknown, SubscriptionError>): void {
+  if (!result.success) {
+    Alert.alert(result.error.code, result.error.message, [{ text: 'OK' }]);
+  }
+}
+
+export default function SubscriptionSimulatorScreen() {
+  const { colors } = useThemedColors();
+  const { subscription, tier, purchasePackage, refetchSubscription } =
+    useSubscription();
+
+  const [forcedError, setForcedErrorState] =
+    useState<SimulatorForcedError | null>(null);
+  const [persistent, setPersistent] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const enabled = isSubscriptionSimulatorEnabled();
+
+  const refreshForcedError = useCallback(async () => {
+    const state = await subscriptionSimulator.getState();
+    setForcedErrorState(state.forcedError);
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      void refreshForcedError();
+    }
+  }, [enabled, refreshForcedError]);
+
+  /**
+   * Run an action, then re-read the forced error (calls may consume it).
+   */
+  const runAction = useCallback(
+    async (action: () => Promise<void>) => {
+      setBusy(true);
+      try {
+        await action();
+      } finally {
+        await refreshForcedError();
+        setBusy(false);
+      }
+    },
+    [refreshForcedError]
+  );
+
+  const handlePurchase = useCallback(
+    (packageId: string) =>
+      runAction(async () => {
+        alertOnFailure(await purchasePackage(packageId));
+      }),
+    [purchasePackage, runAction]
+  );
+
+  const handleLifecycle = useCallback(
+    (action: () => Promise<Result<Subscription, SubscriptionError>>) =>
+      runAction(async () => {
+        alertOnFailure(await action());
+      }),
+    [runAction]
+  );
+
+  const handleForceError = useCallback(
+    (code: SubscriptionErrorCode | null) =>
+      runAction(async () => {
+        await subscriptionSimulator.setForcedError(
+          code ? { code, persistent } : null
+        );
+      }),
+    [persistent, runAction]
+  );
+
+  const handleReset = useCallback(
+    () =>
+      runAction(async () => {
+        await subscriptionSimulator.reset();
+        await refetchSubscription();
+      }),
+    [refetchSubscription, runAction]
+  );
+
+  if (!enabled) {
+    return (
+      <View
+        testID="simulator-disabled"
+        style={[
+          styles.disabledContainer,
+          { backgroundColor: colors.background.base },
+        ]}
+      >
+        <ThemedText style={styles.sectionTitle}>Simulator disabled</ThemedText>
+        <ThemedText
+          style={[styles.disabledText, { color: colors.text.secondary }]}
+        >
+          Set EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR=true and restart a development
+          build to simulate subscriptions without RevenueCat.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const rows: [string, string][] = [
+    ['Tier', tier],
+    ['Active', String(subscription?.isActive ?? false)],
+    ['Product', subscription?.productId ?? '—'],
+    ['Expires', formatDate(subscription?.expiresAt)],
+    ['Will renew', String(subscription?.willRenew ?? false)],
+    ['Trial', String(subscription?.isTrialPeriod ?? false)],
+    ['Billing issue', formatDate(subscription?.billingIssueDetectedAt)],
+    ['Cancelled', formatDate(subscription?.cancelledAt)],
+  ];
+
+  return (
+    <ScrollView
+      testID="simulator-screen"
+      style={{ backgroundColor: colors.background.base }}
+      contentContainerStyle={styles.content}
+    >
+      <ThemedText style={styles.sectionTitle}>State</ThemedText>
+      {rows.map(([label, value]) => (
+        <View
+          key={label}
+          style={[
+            styles.row,
+            { borderBottomColor: colors.interactive.separator },
+          ]}
+        >
+          <ThemedText style={{ color: colors.text.secondary }}>
+            {label}
+          </ThemedText>
+          <ThemedText testID={`simulator-state-${label}`}>{value}</ThemedText>
+        </View>
+      ))}
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>Purchase</ThemedText>
+      {SIMULATED_PACKAGES.map((pkg) => (
+        <Button
+          key={pkg.identifier}
+          testID={`simulator-purchase-${pkg.identifier}`}
+          variant="secondary"
+          size="sm"
+          disabled={busy}
+          onPress={() => handlePurchase(pkg.identifier)}
+          style={styles.button}
+        >
+          {`Buy ${pkg.title} (${pkg.priceString})`}
+        </Button>
+      ))}
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>Lifecycle</ThemedText>
+      <Button
+        testID="simulator-cancel"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={() =>
+          handleLifecycle(subscriptionSimulator.simulateCancellation)
+        }
+        style={styles.button}
+      >
+        Cancel auto-renewal
+      </Button>
+      <Button
+        testID="simulator-billing-issue"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={() =>
+          handleLifecycle(subscriptionSimulator.simulateBillingIssue)
+        }
+        style={styles.button}
+      >
+        Fail renewal payment
+      </Button>
+      <Button
+        testID="simulator-renew"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={() => handleLifecycle(subscriptionSimulator.simulateRenewal)}
+        style={styles.button}
+      >
+        Renew now
+      </Button>
+      <Button
+        testID="simulator-expire"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={() => handleLifecycle(subscriptionSimulator.simulateExpiry)}
+        style={styles.button}
+      >
+        Expire now
+      </Button>
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>Errors</ThemedText>
+      <ThemedText
+        testID="simulator-forced-error"
+        style={{ color: colors.text.secondary }}
+      >
+        {forcedError
+          ? `Failing ${forcedError.persistent ? 'every call' : 'next call'} with ${forcedError.code}`
+          : 'No forced error'}
+      </ThemedText>
+      <View style={styles.row}>
+        <ThemedText>Fail every call</ThemedText>
+        <Switch
+          testID="simulator-persistent-switch"
+          value={persistent}
+          onValueChange={setPersistent}
+        />
+      </View>
+      <View style={styles.chips}>
+        {SIMULATED_ERROR_CODES.map((code) => (
+          <Button
+            key={code}
+            testID={`simulator-error-${code}`}
+            variant={forcedError?.code === code ? 'primary' : 'ghost'}
+            size="sm"
+            disabled={busy}
+            onPress={() => handleForceError(code)}
+          >
+            {code}
+          </Button>
+        ))}
+      </View>
+      <Button
+        testID="simulator-clear-error"
+        variant="secondary"
+        size="sm"
+        disabled={busy || forcedError === null}
+        onPress={() => handleForceError(null)}
+        style={styles.button}
+      >
+        Clear forced error
+      </Button>
+
+      <Spacer size="xl" />
+
+      <Button
+        testID="simulator-reset"
+        variant="destructive"
+        disabled={busy}
+        onPress={handleReset}
+      >
+        Reset simulator
+      </Button>
+
+      <Spacer size="2xl" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: Spacing.lg,
+  },
+  disabledContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  disabledText: {
+    ...Typography.subheadline,
+    marginTop: Spacing.sm,
+  },
+  sectionTitle: {
+    ...Typography.headline,
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  button: {
+    marginBottom: Spacing.sm,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginVertical: Spacing.sm,
+  },
+});
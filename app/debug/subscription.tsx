@@ -0,0 +1,463 @@
+/**
+ * Subscription Debug Screen
+ *
+ * Dev-only screen for QA to inspect what RevenueCat actually returned,
+ * beyond the fields kept by toSubscription.
+ *
+ * Features:
+ * - SDK configuration state (isConfigured) and app user id
+ * - Active entitlements and the raw CustomerInfo JSON
+ * - Simulator state instead of CustomerInfo when the simulator is enabled
+ * - Recorded subscription lifecycle events and the "member since" date
+ * - The last service log entries captured from SubscriptionLogger
+ * - Force refetch, restore purchases, and clear cached state
+ *
+ * Route: /debug/subscription
+ *
+ * @module app/debug/subscription
+ */
+
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+  useSyncExternalStore,
+} from 'react';
+import { Alert, Platform, ScrollView, StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Spacer } from '@/components/ui/spacer';
+import { BorderRadius, Spacing, Typography } from '@/constants/theme';
+import type { SubscriptionEvent } from '@/database/schema';
+import { subscriptionEventService } from '@/features/subscription-events/core';
+import { getSubscriptionErrorMessage } from '@/features/subscription/core/error-messages';
+import { subscriptionLogBuffer } from '@/features/subscription/core/log-buffer';
+import {
+  getCustomerInfoSnapshot,
+  invalidateCustomerInfoCache,
+  type CustomerInfoSnapshot,
+} from '@/features/subscription/core/repository';
+import { isConfigured } from '@/features/subscription/core/sdk';
+import {
+  isSubscriptionSimulatorEnabled,
+  subscriptionSimulator,
+  type SimulatorState,
+} from '@/features/subscription/core/simulator';
+import type {
+  Result,
+  SubscriptionError,
+} from '@/features/subscription/core/types';
+import { useSubscription } from '@/features/subscription/hooks';
+import { useThemedColors } from '@/hooks/use-theme-color';
+
+/**
+ * Raw state shown on the screen: RevenueCat's CustomerInfo, or the
+ * simulator state when the simulator replaces RevenueCat.
+ */
+type RawState =
+  | {
+      kind: 'revenuecat';
+      result: Result<CustomerInfoSnapshot, SubscriptionError>;
+    }
+  | { kind: 'simulator'; state: SimulatorState };
+
+/**
+ * Load the raw state for the active repository.
+ */
+async function loadRawState(): Promise<RawState> {
+  if (isSubscriptionSimulatorEnabled()) {
+    return { kind: 'simulator', state: await subscriptionSimulator.getState() };
+  }
+  return { kind: 'revenuecat', result: await getCustomerInfoSnapshot() };
+}
+
+/**
+ * Number of lifecycle events shown.
+ */
+const EVENT_LIMIT = 20;
+
+/**
+ * Recorded lifecycle events and the first subscription start.
+ */
+interface EventHistory {
+  events: SubscriptionEvent[];
+  memberSince: Date | null;
+}
+
+/**
+ * Load the event history, or the storage error message.
+ */
+async function loadEventHistory(): Promise<EventHistory | string> {
+  const [events, memberSince] = await Promise.all([
+    subscriptionEventService.getEvents({ limit: EVENT_LIMIT }),
+    subscriptionEventService.getMemberSince(),
+  ]);
+  if (!events.success) {
+    return events.error.message;
+  }
+  if (!memberSince.success) {
+    return memberSince.error.message;
+  }
+  return { events: events.data, memberSince: memberSince.data };
+}
+
+/**
+ * Format a log timestamp as HH:MM:SS.
+ */
+function formatTime(date: Date): string {
+  return date.toTimeString().slice(0, 8);
+}
+
+export default function SubscriptionDebugScreen() {
+  const { colors } = useThemedColors();
+  const {
+    tier,
+    source,
+    subscription,
+    refetchSubscription,
+    clearCache,
+    refetchPackages,
+    restorePurchases,
+  } = useSubscription();
+
+  const [rawState, setRawState] = useState<RawState | null>(null);
+  const [eventHistory, setEventHistory] = useState<
+    EventHistory | string | null
+  >(null);
+  const [busy, setBusy] = useState(false);
+
+  const logEntries = useSyncExternalStore(
+    subscriptionLogBuffer.subscribe,
+    subscriptionLogBuffer.getEntries
+  );
+
+  const refreshRawState = useCallback(async () => {
+    const [nextRawState, nextEventHistory] = await Promise.all([
+      loadRawState(),
+      loadEventHistory(),
+    ]);
+    setRawState(nextRawState);
+    setEventHistory(nextEventHistory);
+  }, []);
+
+  useEffect(() => {
+    if (__DEV__) {
+      void refreshRawState();
+    }
+  }, [refreshRawState]);
+
+  /**
+   * Run an action, then reload the raw state.
+   */
+  const runAction = useCallback(
+    async (action: () => Promise<void>) => {
+      setBusy(true);
+      try {
+        await action();
+      } finally {
+        await refreshRawState();
+        setBusy(false);
+      }
+    },
+    [refreshRawState]
+  );
+
+  const handleRefetch = useCallback(
+    () =>
+      runAction(async () => {
+        await Promise.all([refetchSubscription(), refetchPackages()]);
+      }),
+    [refetchPackages, refetchSubscription, runAction]
+  );
+
+  const handleRestore = useCallback(
+    () =>
+      runAction(async () => {
+        const result = await restorePurchases();
+        Alert.alert(
+          'Restore',
+          result.success
+            ? `Restored ${result.data.tier}`
+            : `${result.error.code}: ${getSubscriptionErrorMessage(result.error.code) || result.error.message}`,
+          [{ text: 'OK' }]
+        );
+      }),
+    [restorePurchases, runAction]
+  );
+
+  const handleClearCache = useCallback(
+    () =>
+      runAction(async () => {
+        await clearCache();
+        if (!isSubscriptionSimulatorEnabled()) {
+          await invalidateCustomerInfoCache();
+        }
+        await Promise.all([refetchSubscription(), refetchPackages()]);
+      }),
+    [clearCache, refetchPackages, refetchSubscription, runAction]
+  );
+
+  if (!__DEV__) {
+    return (
+      <View
+        testID="subscription-debug-unavailable"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ThemedText style={{ color: colors.text.secondary }}>
+          The subscription debug screen is only available in development builds.
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const snapshot =
+    rawState?.kind === 'revenuecat' && rawState.result.success
+      ? rawState.result.data
+      : null;
+  const activeEntitlements = snapshot
+    ? Object.values(snapshot.customerInfo.entitlements.active)
+    : [];
+
+  const rows: [string, string][] = [
+    [
+      'Repository',
+      isSubscriptionSimulatorEnabled() ? 'Simulator' : 'RevenueCat',
+    ],
+    ['SDK configured', String(isConfigured())],
+    [
+      'App user id',
+      snapshot?.appUserId ??
+        (rawState?.kind === 'simulator'
+          ? (rawState.state.appUserId ?? rawState.state.anonymousId)
+          : '—'),
+    ],
+    ['Tier', tier],
+    ['Source', source ?? '—'],
+    ['Active', String(subscription?.isActive ?? false)],
+    [
+      'Member since',
+      typeof eventHistory === 'object' && eventHistory?.memberSince
+        ? eventHistory.memberSince.toISOString()
+        : '—',
+    ],
+  ];
+
+  const rawJson =
+    rawState === null
+      ? 'Loading...'
+      : rawState.kind === 'simulator'
+        ? JSON.stringify(rawState.state, null, 2)
+        : rawState.result.success
+          ? JSON.stringify(rawState.result.data.customerInfo, null, 2)
+          : `${rawState.result.error.code}: ${rawState.result.error.message}`;
+
+  return (
+    <ScrollView
+      testID="subscription-debug-screen"
+      style={{ backgroundColor: colors.background.base }}
+      contentContainerStyle={styles.content}
+    >
+      <ThemedText style={styles.sectionTitle}>Overview</ThemedText>
+      {rows.map(([label, value]) => (
+        <View
+          key={label}
+          style={[
+            styles.row,
+            { borderBottomColor: colors.interactive.separator },
+          ]}
+        >
+          <ThemedText style={{ color: colors.text.secondary }}>
+            {label}
+          </ThemedText>
+          <ThemedText testID={`subscription-debug-${label}`}>
+            {value}
+          </ThemedText>
+        </View>
+      ))}
+
+      <Spacer size="md" />
+
+      <Button
+        testID="subscription-debug-refetch"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={handleRefetch}
+        style={styles.button}
+      >
+        Force refetch
+      </Button>
+      <Button
+        testID="subscription-debug-restore"
+        variant="secondary"
+        size="sm"
+        disabled={busy}
+        onPress={handleRestore}
+        style={styles.button}
+      >
+        Restore purchases
+      </Button>
+      <Button
+        testID="subscription-debug-clear-cache"
+        variant="destructive"
+        size="sm"
+        disabled={busy}
+        onPress={handleClearCache}
+        style={styles.button}
+      >
+        Clear cached state
+      </Button>
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>Active entitlements</ThemedText>
+      {activeEntitlements.length === 0 ? (
+        <ThemedText style={{ color: colors.text.secondary }}>None</ThemedText>
+      ) : (
+        activeEntitlements.map((entitlement) => (
+          <View
+            key={entitlement.identifier}
+            testID={`subscription-debug-entitlement-${entitlement.identifier}`}
+            style={[
+              styles.row,
+              { borderBottomColor: colors.interactive.separator },
+            ]}
+          >
+            <ThemedText>{entitlement.identifier}</ThemedText>
+            <ThemedText style={{ color: colors.text.secondary }}>
+              {`${entitlement.productIdentifier} · ${entitlement.periodType} · ${
+                entitlement.expirationDate ?? 'no expiry'
+              }`}
+            </ThemedText>
+          </View>
+        ))
+      )}
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>
+        {rawState?.kind === 'simulator' ? 'Simulator state' : 'CustomerInfo'}
+      </ThemedText>
+      <View
+        style={[
+          styles.codeBlock,
+          { backgroundColor: colors.background.secondary },
+        ]}
+      >
+        <ThemedText testID="subscription-debug-raw" style={styles.code}>
+          {rawJson}
+        </ThemedText>
+      </View>
+
+      <Spacer size="xl" />
+
+      <ThemedText style={styles.sectionTitle}>Lifecycle events</ThemedText>
+      {eventHistory === null ? (
+        <ThemedText style={{ color: colors.text.secondary }}>
+          Loading...
+        </ThemedText>
+      ) : typeof eventHistory === 'string' ? (
+        <ThemedText
+          testID="subscription-debug-events-error"
+          style={{ color: colors.semantic.error }}
+        >
+          {eventHistory}
+        </ThemedText>
+      ) : eventHistory.events.length === 0 ? (
+        <ThemedText style={{ color: colors.text.secondary }}>
+          No events
+        </ThemedText>
+      ) : (
+        eventHistory.events.map((event) => (
+          <ThemedText
+            key={event.id}
+            testID="subscription-debug-event"
+            style={styles.code}
+          >
+            {`${event.occurredAt.toISOString()} ${event.type} ${event.fromTier} → ${event.toTier}${
+              event.productId ? ` (${event.productId})` : ''
+            }`}
+          </ThemedText>
+        ))
+      )}
+
+      <Spacer size="xl" />
+
+      <View style={styles.sectionHeader}>
+        <ThemedText style={styles.sectionTitle}>
+          {`Service log (${logEntries.length})`}
+        </ThemedText>
+        <Button
+          testID="subscription-debug-clear-log"
+          variant="ghost"
+          size="sm"
+          onPress={subscriptionLogBuffer.clear}
+        >
+          Clear
+        </Button>
+      </View>
+      {logEntries.length === 0 ? (
+        <ThemedText style={{ color: colors.text.secondary }}>
+          No entries
+        </ThemedText>
+      ) : (
+        [...logEntries].reverse().map((entry, index) => (
+          <ThemedText
+            key={`${entry.timestamp.getTime()}-${index}`}
+            testID="subscription-debug-log-entry"
+            style={[
+              styles.code,
+              entry.level === 'error' && { color: colors.semantic.error },
+              entry.level === 'warn' && { color: colors.semantic.warning },
+            ]}
+          >
+            {`${formatTime(entry.timestamp)} ${entry.level.toUpperCase()} ${entry.message}${
+              entry.context ? ` ${JSON.stringify(entry.context)}` : ''
+            }`}
+          </ThemedText>
+        ))
+      )}
+
+      <Spacer size="2xl" />
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    ...Typography.headline,
+    marginBottom: Spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  button: {
+    marginBottom: Spacing.sm,
+  },
+  codeBlock: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  code: {
+    ...Typography.caption1,
+    fontFamily: Platform.select({ ios: 'Menlo', default: 'monospace' }),
+  },
+});
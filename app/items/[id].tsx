@@ -0,0 +1,168 @@
+/**
+ * Item Detail Screen
+ *
+ * Shows an item with actions to edit or delete it.
+ * Deleting asks for confirmation and returns to the list once the row is
+ * gone.
+ *
+ * Route: /items/[id]
+ *
+ * @module app/items/[id]
+ */
+
+import { router, useLocalSearchParams, type Href } from 'expo-router';
+import React, { useCallback } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Spacer } from '@/components/ui/spacer';
+import { Spacing, Typography } from '@/constants/theme';
+import { useDeleteItem, useItem } from '@/features/items/hooks';
+import { useThemedColors } from '@/hooks/use-theme-color';
+import { formatDate } from '@/lib/format';
+
+export default function ItemDetailScreen() {
+  const { colors } = useThemedColors();
+  const params = useLocalSearchParams<{ id: string }>();
+  const id = Number(params.id);
+
+  const { data: item, isPending, error } = useItem(id);
+  const deleteItem = useDeleteItem();
+
+  const handleEdit = useCallback(() => {
+    router.push({
+      pathname: '/items/edit',
+      params: { id: String(id) },
+    } as Href);
+  }, [id]);
+
+  const handleDelete = useCallback(() => {
+    Alert.alert('Delete Item', 'This item will be permanently deleted.', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteItem.mutateAsync(id);
+            router.back();
+          } catch {
+            Alert.alert(
+              'Error',
+              'Could not delete the item. Please try again.',
+              [{ text: 'OK' }]
+            );
+          }
+        },
+      },
+    ]);
+  }, [deleteItem, id]);
+
+  if (isPending) {
+    return (
+      <View
+        testID="item-loading"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error || !item) {
+    return (
+      <View
+        testID="item-error"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ThemedText style={[styles.message, { color: colors.text.secondary }]}>
+          {error?.code === 'NOT_FOUND'
+            ? 'This item no longer exists.'
+            : 'Could not load this item.'}
+        </ThemedText>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView
+      testID="item-screen"
+      style={{ backgroundColor: colors.background.base }}
+      contentContainerStyle={styles.content}
+    >
+      <ThemedText style={styles.title}>{item.title}</ThemedText>
+      <ThemedText style={[styles.meta, { color: colors.text.tertiary }]}>
+        Created {formatDate(item.createdAt, { locale: 'en-US' })}
+      </ThemedText>
+
+      <Spacer size="md" />
+
+      <ThemedText
+        testID="item-description"
+        style={[
+          styles.description,
+          !item.description && { color: colors.text.secondary },
+        ]}
+      >
+        {item.description ?? 'No description'}
+      </ThemedText>
+
+      <Spacer size="xl" />
+
+      <Button
+        testID="item-edit-button"
+        variant="secondary"
+        onPress={handleEdit}
+        style={styles.button}
+      >
+        Edit
+      </Button>
+      <Button
+        testID="item-delete-button"
+        variant="destructive"
+        onPress={handleDelete}
+        loading={deleteItem.isPending}
+        disabled={deleteItem.isPending}
+        style={styles.button}
+      >
+        Delete
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  message: {
+    ...Typography.subheadline,
+    textAlign: 'center',
+  },
+  title: {
+    ...Typography.title2,
+  },
+  meta: {
+    ...Typography.footnote,
+    marginTop: Spacing.xs,
+  },
+  description: {
+    ...Typography.body,
+  },
+  button: {
+    marginBottom: Spacing.sm,
+  },
+});
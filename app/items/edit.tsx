@@ -0,0 +1,201 @@
+/**
+ * Item Edit Screen
+ *
+ * Form to create an item, or to edit one when opened with an `id` param.
+ * Creating past the items quota opens the paywall through the
+ * 'item_limit' placement instead of showing an error.
+ *
+ * Route: /items/edit (create), /items/edit?id=1 (edit)
+ *
+ * @module app/items/edit
+ */
+
+import { router, useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Spacer } from '@/components/ui/spacer';
+import { BorderRadius, Spacing, Typography } from '@/constants/theme';
+import {
+  ITEM_TITLE_MAX_LENGTH,
+  type ItemError,
+  type ItemInput,
+} from '@/features/items/core';
+import { useCreateItem, useItem, useUpdateItem } from '@/features/items/hooks';
+import { usePaywallPresenter } from '@/features/subscription/hooks';
+import { useThemedColors } from '@/hooks/use-theme-color';
+
+export default function ItemEditScreen() {
+  const { colors } = useThemedColors();
+  const params = useLocalSearchParams<{ id?: string }>();
+  const id = params.id === undefined ? null : Number(params.id);
+
+  const existing = useItem(id);
+  const createItem = useCreateItem();
+  const updateItem = useUpdateItem();
+  const { presentPaywall } = usePaywallPresenter();
+
+  // Unedited fields show the stored values once they load
+  const [draft, setDraft] = useState<ItemInput | null>(null);
+  const item = id === null ? undefined : existing.data;
+  const title = draft?.title ?? item?.title ?? '';
+  const description = draft?.description ?? item?.description ?? '';
+  const isSaving = createItem.isPending || updateItem.isPending;
+
+  const handleError = useCallback(
+    (error: ItemError) => {
+      switch (error.code) {
+        case 'LIMIT_REACHED':
+          void presentPaywall('item_limit');
+          return;
+        case 'INVALID_INPUT':
+          Alert.alert('Invalid Item', error.message, [{ text: 'OK' }]);
+          return;
+        default:
+          Alert.alert('Error', 'Could not save the item. Please try again.', [
+            { text: 'OK' },
+          ]);
+      }
+    },
+    [presentPaywall]
+  );
+
+  const handleSave = useCallback(async () => {
+    const input: ItemInput = { title, description };
+    try {
+      if (id === null) {
+        await createItem.mutateAsync(input);
+      } else {
+        await updateItem.mutateAsync({ id, changes: input });
+      }
+      router.back();
+    } catch (error) {
+      handleError(error as ItemError);
+    }
+  }, [createItem, description, handleError, id, title, updateItem]);
+
+  if (id !== null && existing.isPending) {
+    return (
+      <View
+        testID="item-edit-loading"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (id !== null && existing.error) {
+    return (
+      <View
+        testID="item-edit-error"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ThemedText style={[styles.message, { color: colors.text.secondary }]}>
+          {existing.error.code === 'NOT_FOUND'
+            ? 'This item no longer exists.'
+            : 'Could not load this item.'}
+        </ThemedText>
+      </View>
+    );
+  }
+
+  const inputStyle = [
+    styles.input,
+    {
+      color: colors.text.primary,
+      backgroundColor: colors.background.secondary,
+      borderColor: colors.interactive.separator,
+    },
+  ];
+
+  return (
+    <ScrollView
+      testID="item-edit-screen"
+      style={{ backgroundColor: colors.background.base }}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+    >
+      <ThemedText style={[styles.label, { color: colors.text.tertiary }]}>
+        TITLE
+      </ThemedText>
+      <TextInput
+        testID="item-title-input"
+        value={title}
+        onChangeText={(text) => setDraft({ title: text, description })}
+        placeholder="Title"
+        placeholderTextColor={colors.text.tertiary}
+        maxLength={ITEM_TITLE_MAX_LENGTH}
+        autoFocus={id === null}
+        style={inputStyle}
+      />
+
+      <Spacer size="md" />
+
+      <ThemedText style={[styles.label, { color: colors.text.tertiary }]}>
+        DESCRIPTION
+      </ThemedText>
+      <TextInput
+        testID="item-description-input"
+        value={description}
+        onChangeText={(text) => setDraft({ title, description: text })}
+        placeholder="Optional"
+        placeholderTextColor={colors.text.tertiary}
+        multiline
+        style={[inputStyle, styles.multiline]}
+      />
+
+      <Spacer size="xl" />
+
+      <Button
+        testID="item-save-button"
+        onPress={handleSave}
+        loading={isSaving}
+        disabled={isSaving}
+      >
+        {id === null ? 'Create Item' : 'Save Changes'}
+      </Button>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  message: {
+    ...Typography.subheadline,
+    textAlign: 'center',
+  },
+  label: {
+    ...Typography.caption1,
+    fontWeight: '600',
+    marginBottom: Spacing.xs,
+  },
+  input: {
+    ...Typography.body,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  multiline: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+  },
+});
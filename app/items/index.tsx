@@ -0,0 +1,246 @@
+/**
+ * Item List Screen
+ *
+ * Lists the user's items, newest first, with a button to create one.
+ * Items created, edited or deleted elsewhere appear here right away
+ * through the optimistic updates in the item hooks.
+ *
+ * Typing in the search field switches the list to full-text results,
+ * best match first, with the matching words highlighted.
+ *
+ * Route: /items
+ *
+ * @module app/items/index
+ */
+
+import { router, type Href } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+} from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { BorderRadius, Spacing, Typography } from '@/constants/theme';
+import type { Item } from '@/database/schema';
+import type { ItemSearchResult, SnippetSegment } from '@/features/items/core';
+import { useItems, useItemSearch } from '@/features/items/hooks';
+import { useThemedColors } from '@/hooks/use-theme-color';
+
+/**
+ * Show an item from the plain list in the same shape as a search result.
+ */
+function toRow(item: Item): ItemSearchResult {
+  return {
+    item,
+    title: [{ text: item.title, match: false }],
+    description: item.description
+      ? [{ text: item.description, match: false }]
+      : null,
+  };
+}
+
+/**
+ * Text whose matching segments are highlighted.
+ */
+function Segments({
+  segments,
+  highlightColor,
+}: {
+  segments: SnippetSegment[];
+  highlightColor: string;
+}) {
+  return segments.map((segment, index) => (
+    <Text
+      key={index}
+      style={
+        segment.match ? [styles.match, { color: highlightColor }] : undefined
+      }
+    >
+      {segment.text}
+    </Text>
+  ));
+}
+
+export default function ItemListScreen() {
+  const { colors } = useThemedColors();
+  const { data: items, isPending, error, refetch, isRefetching } = useItems();
+  const [searchText, setSearchText] = useState('');
+  const search = useItemSearch(searchText);
+  const isSearching = searchText.trim().length > 0;
+
+  const handleCreate = useCallback(() => {
+    router.push('/items/edit' as Href);
+  }, []);
+
+  const handleOpen = useCallback((item: Item) => {
+    // Optimistic items have no row yet
+    if (item.id < 0) {
+      return;
+    }
+    router.push(`/items/${item.id}` as Href);
+  }, []);
+
+  if (isPending) {
+    return (
+      <View
+        testID="items-loading"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ActivityIndicator color={colors.primary} />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View
+        testID="items-error"
+        style={[styles.centered, { backgroundColor: colors.background.base }]}
+      >
+        <ThemedText style={[styles.message, { color: colors.text.secondary }]}>
+          Could not load your items.
+        </ThemedText>
+        <Button variant="secondary" size="sm" onPress={() => void refetch()}>
+          Try Again
+        </Button>
+      </View>
+    );
+  }
+
+  const rows = isSearching ? search.data : items?.map(toRow);
+
+  let emptyMessage = 'No items yet. Create your first one.';
+  if (isSearching) {
+    emptyMessage = search.error
+      ? 'Could not search your items.'
+      : `No items match “${searchText.trim()}”.`;
+  }
+
+  return (
+    <FlatList
+      testID="items-screen"
+      style={{ backgroundColor: colors.background.base }}
+      contentContainerStyle={styles.content}
+      keyboardShouldPersistTaps="handled"
+      data={rows}
+      keyExtractor={(row) => String(row.item.id)}
+      refreshing={isSearching ? search.isRefetching : isRefetching}
+      onRefresh={() => void (isSearching ? search.refetch() : refetch())}
+      ListHeaderComponent={
+        <>
+          <TextInput
+            testID="items-search-input"
+            value={searchText}
+            onChangeText={setSearchText}
+            placeholder="Search"
+            placeholderTextColor={colors.text.tertiary}
+            autoCapitalize="none"
+            autoCorrect={false}
+            clearButtonMode="while-editing"
+            returnKeyType="search"
+            style={[
+              styles.searchInput,
+              {
+                color: colors.text.primary,
+                backgroundColor: colors.background.secondary,
+              },
+            ]}
+          />
+          <Button
+            testID="items-create-button"
+            onPress={handleCreate}
+            style={styles.createButton}
+          >
+            New Item
+          </Button>
+        </>
+      }
+      ListEmptyComponent={
+        // Results for the text typed so far have not arrived yet
+        isSearching && rows === undefined && !search.error ? (
+          <ActivityIndicator testID="items-searching" color={colors.primary} />
+        ) : (
+          <ThemedText
+            testID="items-empty"
+            style={[styles.message, { color: colors.text.secondary }]}
+          >
+            {emptyMessage}
+          </ThemedText>
+        )
+      }
+      renderItem={({ item: row }) => (
+        <Pressable
+          testID={`item-row-${row.item.id}`}
+          onPress={() => handleOpen(row.item)}
+          style={[
+            styles.row,
+            { borderBottomColor: colors.interactive.separator },
+          ]}
+        >
+          <ThemedText style={styles.rowTitle} numberOfLines={1}>
+            <Segments segments={row.title} highlightColor={colors.primary} />
+          </ThemedText>
+          {row.description ? (
+            <ThemedText
+              style={[styles.rowDescription, { color: colors.text.secondary }]}
+              numberOfLines={2}
+            >
+              <Segments
+                segments={row.description}
+                highlightColor={colors.primary}
+              />
+            </ThemedText>
+          ) : null}
+        </Pressable>
+      )}
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    padding: Spacing.lg,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing.lg,
+  },
+  message: {
+    ...Typography.subheadline,
+    textAlign: 'center',
+    marginBottom: Spacing.md,
+  },
+  searchInput: {
+    ...Typography.body,
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  createButton: {
+    marginBottom: Spacing.md,
+  },
+  row: {
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowTitle: {
+    ...Typography.headline,
+  },
+  rowDescription: {
+    ...Typography.subheadline,
+    marginTop: Spacing.xs,
+  },
+  match: {
+    fontWeight: '600',
+  },
+});
@@ -7,9 +7,23 @@
  * Features:
  * - Themed background using useThemedColors()
  * - Integration with RevenueCat Paywall UI via Paywall component
+ * - First-party themed paywall via NativePaywall component
  * - Handles purchase, restore, and dismiss events
  * - Auto-refetches subscription state after successful purchase/restore
  *
+ * Paywall variant selection (first match wins):
+ * 1. `variant` route param ('native' | 'revenuecat')
+ * 2. EXPO_PUBLIC_PAYWALL_VARIANT environment variable
+ * 3. 'revenuecat'
+ *
+ * The optional `feature` route param names the gated feature that opened the
+ * paywall (see PremiumGate / useFeatureGate); the native paywall shows that
+ * feature's headline from configureFeatureGates.
+ *
+ * The optional `placement` and `offering` route params are set by
+ * usePaywallPresenter. Impressions, dismissals and conversions are recorded
+ * for the placement, and both paywalls present the placement's offering.
+ *
  * Route: /paywall
  *
  * @module app/paywall
@@ -17,12 +31,12 @@
  * @example
  * ```tsx
  * // Navigate to paywall from any screen
- * import { useRouter } from 'expo-router';
+ * import { usePaywallPresenter } from '@/features/subscription/hooks';
  *
  * function UpgradeButton() {
- *   const router = useRouter();
+ *   const { presentPaywall } = usePaywallPresenter();
  *   return (
- *     <Button onPress={() => router.push('/paywall')}>
+ *     <Button onPress={() => presentPaywall('settings_upgrade')}>
  *       Upgrade to Premium
  *     </Button>
  *   );
@@ -30,39 +44,101 @@
  * ```
  */
 
-import React, { useCallback } from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
 import { View, StyleSheet } from 'react-native';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import { useThemedColors } from '@/hooks/use-theme-color';
 import { useSubscription } from '@/features/subscription/hooks';
-import { Paywall } from '@/features/subscription/components';
+import { NativePaywall, Paywall } from '@/features/subscription/components';
+import { getPaywallHeadline } from '@/features/subscription/core/feature-gates';
+import { paywallPresenter } from '@/features/subscription/core/paywall-presenter';
+
+/**
+ * Available paywall implementations.
+ * - 'revenuecat': RevenueCat Paywall UI configured in the dashboard
+ * - 'native': First-party paywall using the app theme
+ */
+type PaywallVariant = 'revenuecat' | 'native';
+
+/**
+ * Parse a paywall variant from a route param or env value (null if invalid).
+ */
+function toPaywallVariant(value: unknown): PaywallVariant | null {
+  return value === 'native' || value === 'revenuecat' ? value : null;
+}
+
+/**
+ * Parse a non-empty string route param (null if missing or invalid).
+ */
+function toRouteParam(value: unknown): string | null {
+  return typeof value === 'string' && value.length > 0 ? value : null;
+}
+
+/**
+ * Default paywall variant for the app.
+ */
+const DEFAULT_PAYWALL_VARIANT: PaywallVariant =
+  toPaywallVariant(process.env.EXPO_PUBLIC_PAYWALL_VARIANT) ?? 'revenuecat';
 
 /**
  * Paywall screen component.
  *
- * Displays the RevenueCat paywall with themed styling and handles
- * subscription events.
+ * Displays the selected paywall variant with themed styling and handles
+ * subscription events. The native paywall updates subscription state through
+ * the provider itself, so it simply closes on success.
  *
  * @returns JSX.Element
  */
 export default function PaywallScreen(): React.JSX.Element {
   const router = useRouter();
+  const { variant, feature, placement, offering } = useLocalSearchParams<{
+    variant?: string;
+    feature?: string;
+    placement?: string;
+    offering?: string;
+  }>();
   const { colors } = useThemedColors();
   const { refetchSubscription } = useSubscription();
 
+  const paywallVariant = toPaywallVariant(variant) ?? DEFAULT_PAYWALL_VARIANT;
+  const headline = getPaywallHeadline(feature);
+  const placementId = toRouteParam(placement);
+  const offeringId = toRouteParam(offering) ?? undefined;
+
+  // Closing after a purchase or restore is not a dismissal
+  const hasCompleted = useRef(false);
+
+  useEffect(() => {
+    if (placementId) {
+      void paywallPresenter.record(placementId, 'impression');
+    }
+  }, [placementId]);
+
+  /**
+   * Record a purchase as a conversion for the placement.
+   */
+  const recordConversion = useCallback(() => {
+    hasCompleted.current = true;
+    if (placementId) {
+      void paywallPresenter.record(placementId, 'conversion');
+    }
+  }, [placementId]);
+
   /**
    * Handle successful purchase.
    * Refetches subscription state to update the app.
    */
   const handlePurchaseSuccess = useCallback(async () => {
+    recordConversion();
     await refetchSubscription();
-  }, [refetchSubscription]);
+  }, [recordConversion, refetchSubscription]);
 
   /**
    * Handle successful restore.
    * Refetches subscription state to update the app.
    */
   const handleRestoreSuccess = useCallback(async () => {
+    hasCompleted.current = true;
     await refetchSubscription();
   }, [refetchSubscription]);
 
@@ -76,9 +152,27 @@ export default function PaywallScreen(): React.JSX.Element {
 
   /**
    * Handle paywall dismiss.
-   * Navigates back to the previous screen.
+   * Records a dismissal unless the user purchased or restored, then
+   * navigates back to the previous screen.
    */
   const handleDismiss = useCallback(() => {
+    if (placementId && !hasCompleted.current) {
+      void paywallPresenter.record(placementId, 'dismissal');
+    }
+    router.back();
+  }, [placementId, router]);
+
+  /**
+   * Handle a native paywall purchase or restore.
+   * The provider has already applied the subscription, so just close.
+   */
+  const handleNativePurchaseSuccess = useCallback(() => {
+    recordConversion();
+    router.back();
+  }, [recordConversion, router]);
+
+  const handleNativeRestoreSuccess = useCallback(() => {
+    hasCompleted.current = true;
     router.back();
   }, [router]);
 
@@ -87,12 +181,24 @@ export default function PaywallScreen(): React.JSX.Element {
       testID="paywall-screen-container"
       style={[styles.container, { backgroundColor: colors.background.base }]}
     >
-      <Paywall
-        onPurchaseSuccess={handlePurchaseSuccess}
-        onRestoreSuccess={handleRestoreSuccess}
-        onError={handleError}
-        onDismiss={handleDismiss}
-      />
+      {paywallVariant === 'native' ? (
+        <NativePaywall
+          offeringId={offeringId}
+          headline={headline}
+          onPurchaseSuccess={handleNativePurchaseSuccess}
+          onRestoreSuccess={handleNativeRestoreSuccess}
+          onError={handleError}
+          onDismiss={handleDismiss}
+        />
+      ) : (
+        <Paywall
+          offeringId={offeringId}
+          onPurchaseSuccess={handlePurchaseSuccess}
+          onRestoreSuccess={handleRestoreSuccess}
+          onError={handleError}
+          onDismiss={handleDismiss}
+        />
+      )}
     </View>
   );
 }
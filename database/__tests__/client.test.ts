@@ -19,6 +19,7 @@ const mockExpoDb = {
   getFirstSync: jest.fn().mockReturnValue(null),
   getAllSync: jest.fn().mockReturnValue([]),
   prepareSync: jest.fn().mockReturnValue(mockStatement),
+  closeSync: jest.fn(),
 };
 
 const mockOpenDatabaseSync = jest.fn().mockReturnValue(mockExpoDb);
@@ -28,6 +29,29 @@ jest.mock('expo-sqlite', () => ({
   openDatabaseSync: mockOpenDatabaseSync,
 }));
 
+const DATABASE_KEY = 'ab'.repeat(32);
+
+const mockEncryption = {
+  isDatabaseEncryptionEnabled: jest.fn().mockReturnValue(false),
+  getDatabaseFileState: jest.fn().mockReturnValue('missing'),
+  encryptDatabase: jest.fn(),
+  applyDatabaseKey: jest.fn().mockReturnValue(true),
+  generateDatabaseKey: jest.fn().mockReturnValue(DATABASE_KEY),
+  secureDatabaseKeyStore: { load: jest.fn(), save: jest.fn() },
+};
+
+jest.mock('../encryption', () => mockEncryption);
+
+/**
+ * In-memory key store holding the given key.
+ */
+function createKeyStore(key: string | null = null) {
+  return {
+    load: jest.fn(async () => key),
+    save: jest.fn(async (_key: string) => undefined),
+  };
+}
+
 describe('Database Client', () => {
   // Import after mock setup
   const {
@@ -43,6 +67,8 @@ describe('Database Client', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     resetDatabaseState();
+    mockEncryption.getDatabaseFileState.mockReturnValue('missing');
+    mockEncryption.applyDatabaseKey.mockReturnValue(true);
   });
 
   describe('initializeDatabase', () => {
@@ -84,6 +110,124 @@ describe('Database Client', () => {
     });
   });
 
+  describe('initializeDatabase (encrypted)', () => {
+    it('should leave the database unencrypted by default', async () => {
+      await initializeDatabase();
+
+      expect(mockEncryption.applyDatabaseKey).not.toHaveBeenCalled();
+    });
+
+    it('should follow EXPO_PUBLIC_DATABASE_ENCRYPTION by default', async () => {
+      mockEncryption.isDatabaseEncryptionEnabled.mockReturnValueOnce(true);
+      mockEncryption.secureDatabaseKeyStore.load.mockResolvedValueOnce(
+        DATABASE_KEY
+      );
+
+      await initializeDatabase();
+
+      expect(mockEncryption.applyDatabaseKey).toHaveBeenCalledWith(
+        mockExpoDb,
+        DATABASE_KEY
+      );
+    });
+
+    it('should generate and save a key on first launch', async () => {
+      const keyStore = createKeyStore(null);
+
+      await initializeDatabase({ encrypted: true, keyStore });
+
+      expect(keyStore.save).toHaveBeenCalledWith(DATABASE_KEY);
+      expect(mockEncryption.applyDatabaseKey).toHaveBeenCalledWith(
+        mockExpoDb,
+        DATABASE_KEY
+      );
+      expect(isDatabaseInitialized()).toBe(true);
+    });
+
+    it('should open an encrypted database with the stored key', async () => {
+      const storedKey = 'cd'.repeat(32);
+      const keyStore = createKeyStore(storedKey);
+      mockEncryption.getDatabaseFileState.mockReturnValue('encrypted');
+
+      await initializeDatabase({ encrypted: true, keyStore });
+
+      expect(keyStore.save).not.toHaveBeenCalled();
+      expect(mockEncryption.encryptDatabase).not.toHaveBeenCalled();
+      expect(mockEncryption.applyDatabaseKey).toHaveBeenCalledWith(
+        mockExpoDb,
+        storedKey
+      );
+    });
+
+    it('should encrypt a plaintext database after saving its key', async () => {
+      const keyStore = createKeyStore(null);
+      mockEncryption.getDatabaseFileState.mockReturnValue('plaintext');
+
+      await initializeDatabase({ encrypted: true, keyStore });
+
+      expect(mockEncryption.encryptDatabase).toHaveBeenCalledWith(
+        'app.db',
+        DATABASE_KEY
+      );
+      expect(keyStore.save.mock.invocationCallOrder[0]).toBeLessThan(
+        mockEncryption.encryptDatabase.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should not encrypt when the key cannot be saved', async () => {
+      const keyStore = createKeyStore(null);
+      keyStore.save.mockRejectedValue(new Error('Keychain unavailable'));
+      mockEncryption.getDatabaseFileState.mockReturnValue('plaintext');
+
+      await expect(
+        initializeDatabase({ encrypted: true, keyStore })
+      ).rejects.toThrow(DatabaseInitError);
+      expect(mockEncryption.encryptDatabase).not.toHaveBeenCalled();
+    });
+
+    it('should fail with KEY_MISSING when an encrypted database has no key', async () => {
+      mockEncryption.getDatabaseFileState.mockReturnValue('encrypted');
+
+      await expect(
+        initializeDatabase({ encrypted: true, keyStore: createKeyStore(null) })
+      ).rejects.toMatchObject({
+        name: 'DatabaseInitError',
+        code: 'KEY_MISSING',
+        message:
+          'Database "app.db" is encrypted but no encryption key is stored',
+      });
+      expect(mockOpenDatabaseSync).not.toHaveBeenCalled();
+      expect(isDatabaseInitialized()).toBe(false);
+    });
+
+    it('should fail with KEY_MISSING when secure storage cannot be read', async () => {
+      const keyStore = createKeyStore(null);
+      keyStore.load.mockRejectedValue(new Error('Device is locked'));
+
+      await expect(
+        initializeDatabase({ encrypted: true, keyStore })
+      ).rejects.toMatchObject({ code: 'KEY_MISSING' });
+      expect(keyStore.save).not.toHaveBeenCalled();
+    });
+
+    it('should fail with KEY_INVALID when the key does not match', async () => {
+      mockEncryption.getDatabaseFileState.mockReturnValue('encrypted');
+      mockEncryption.applyDatabaseKey.mockReturnValue(false);
+
+      await expect(
+        initializeDatabase({
+          encrypted: true,
+          keyStore: createKeyStore(DATABASE_KEY),
+        })
+      ).rejects.toMatchObject({
+        name: 'DatabaseInitError',
+        code: 'KEY_INVALID',
+      });
+      expect(mockExpoDb.closeSync).toHaveBeenCalled();
+      expect(isDatabaseInitialized()).toBe(false);
+    });
+  });
+
   describe('db instance', () => {
     it('should throw error if accessed before initialization', () => {
       expect(() => db.select).toThrow(DatabaseInitError);
@@ -131,6 +275,7 @@ describe('Database Client', () => {
       expect(error.message).toBe('Test message');
       expect(error.cause).toBe(cause);
       expect(error.name).toBe('DatabaseInitError');
+      expect(error.code).toBe('INIT_FAILED');
     });
 
     it('should be instanceof Error', () => {
@@ -0,0 +1,263 @@
+/**
+ * Database Encryption Tests
+ *
+ * Tests for key generation and storage, applying keys, detecting plaintext
+ * and encrypted files, and converting a plaintext database in place.
+ *
+ * @module database/__tests__/encryption.test
+ */
+
+import { deleteDatabaseSync, openDatabaseSync } from 'expo-sqlite';
+
+import { getSecure, saveSecure, SecureStorageKey } from '@/lib/secure-storage';
+import {
+  applyDatabaseKey,
+  encryptDatabase,
+  generateDatabaseKey,
+  getDatabaseFileState,
+  isDatabaseEncryptionEnabled,
+  secureDatabaseKeyStore,
+} from '../encryption';
+
+/** URIs of the files that exist in the fake file system */
+const mockFiles = new Set<string>();
+
+const mockDatabase = {
+  execSync: jest.fn(),
+  getFirstSync: jest.fn(),
+  closeSync: jest.fn(),
+};
+
+jest.mock('expo-sqlite', () => ({
+  defaultDatabaseDirectory: '/data/SQLite',
+  openDatabaseSync: jest.fn(() => mockDatabase),
+  deleteDatabaseSync: jest.fn((name: string) => {
+    mockFiles.delete(`file:///data/SQLite/${name}`);
+  }),
+}));
+
+jest.mock('expo-file-system', () => ({
+  File: class {
+    uri: string;
+    constructor(fileUri: string) {
+      this.uri = fileUri;
+    }
+    get exists() {
+      return mockFiles.has(this.uri);
+    }
+    move(destination: { uri: string }) {
+      mockFiles.delete(this.uri);
+      mockFiles.add(destination.uri);
+    }
+    delete() {
+      mockFiles.delete(this.uri);
+    }
+  },
+}));
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: jest.fn((count: number) => new Uint8Array(count).fill(0xab)),
+}));
+
+jest.mock('@/lib/secure-storage', () => ({
+  ...jest.requireActual('@/lib/secure-storage'),
+  getSecure: jest.fn(),
+  saveSecure: jest.fn(),
+}));
+
+const KEY = '0123456789abcdef'.repeat(4);
+const DB_URI = 'file:///data/SQLite/app.db';
+
+/**
+ * Make schema reads succeed (plaintext or correct key) or fail.
+ */
+function mockSchemaReadable(readable: boolean) {
+  mockDatabase.getFirstSync.mockImplementation((sql: string) => {
+    if (sql === 'PRAGMA cipher_version') {
+      return { cipher_version: '4.6.1 community' };
+    }
+    if (sql.includes('sqlite_master') && !readable) {
+      throw new Error('file is not a database');
+    }
+    return {};
+  });
+}
+
+describe('Database Encryption', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockFiles.clear();
+    mockSchemaReadable(true);
+  });
+
+  describe('isDatabaseEncryptionEnabled', () => {
+    const original = process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION;
+
+    afterEach(() => {
+      process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION = original;
+    });
+
+    it('should be enabled by EXPO_PUBLIC_DATABASE_ENCRYPTION=true', () => {
+      process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION = 'true';
+      expect(isDatabaseEncryptionEnabled()).toBe(true);
+    });
+
+    it('should be disabled otherwise', () => {
+      delete process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION;
+      expect(isDatabaseEncryptionEnabled()).toBe(false);
+    });
+  });
+
+  describe('generateDatabaseKey', () => {
+    it('should return 32 random bytes as hex', () => {
+      expect(generateDatabaseKey()).toBe('ab'.repeat(32));
+    });
+  });
+
+  describe('secureDatabaseKeyStore', () => {
+    it('should load the key from secure storage', async () => {
+      jest.mocked(getSecure).mockResolvedValue({ success: true, data: KEY });
+
+      await expect(secureDatabaseKeyStore.load()).resolves.toBe(KEY);
+      expect(getSecure).toHaveBeenCalledWith(SecureStorageKey.DATABASE_KEY);
+    });
+
+    it('should save the key to secure storage', async () => {
+      jest
+        .mocked(saveSecure)
+        .mockResolvedValue({ success: true, data: undefined });
+
+      await secureDatabaseKeyStore.save(KEY);
+
+      expect(saveSecure).toHaveBeenCalledWith(
+        SecureStorageKey.DATABASE_KEY,
+        KEY
+      );
+    });
+
+    it('should throw when secure storage fails', async () => {
+      jest.mocked(getSecure).mockResolvedValue({
+        success: false,
+        error: 'Failed to get database_key: User interaction is not allowed',
+      });
+
+      await expect(secureDatabaseKeyStore.load()).rejects.toThrow(
+        'User interaction is not allowed'
+      );
+    });
+  });
+
+  describe('applyDatabaseKey', () => {
+    const database = mockDatabase as unknown as Parameters<
+      typeof applyDatabaseKey
+    >[0];
+
+    it('should set the key as a raw hex key', () => {
+      expect(applyDatabaseKey(database, KEY)).toBe(true);
+      expect(mockDatabase.execSync).toHaveBeenCalledWith(
+        `PRAGMA key = "x'${KEY}'"`
+      );
+    });
+
+    it('should return false when the key does not decrypt the database', () => {
+      mockSchemaReadable(false);
+
+      expect(applyDatabaseKey(database, KEY)).toBe(false);
+    });
+
+    it('should refuse to run without SQLCipher', () => {
+      mockDatabase.getFirstSync.mockReturnValue(null);
+
+      expect(() => applyDatabaseKey(database, KEY)).toThrow(
+        'SQLCipher is not available'
+      );
+      expect(mockDatabase.execSync).not.toHaveBeenCalled();
+    });
+
+    it('should reject keys that are not 64 hex characters', () => {
+      expect(() => applyDatabaseKey(database, "'; DROP TABLE items")).toThrow(
+        'Database key must be 64 hex characters'
+      );
+    });
+  });
+
+  describe('getDatabaseFileState', () => {
+    it('should report a missing file', () => {
+      expect(getDatabaseFileState('app.db')).toBe('missing');
+      expect(openDatabaseSync).not.toHaveBeenCalled();
+    });
+
+    it('should report a file readable without a key as plaintext', () => {
+      mockFiles.add(DB_URI);
+
+      expect(getDatabaseFileState('app.db')).toBe('plaintext');
+      expect(mockDatabase.closeSync).toHaveBeenCalled();
+    });
+
+    it('should report a file unreadable without a key as encrypted', () => {
+      mockFiles.add(DB_URI);
+      mockSchemaReadable(false);
+
+      expect(getDatabaseFileState('app.db')).toBe('encrypted');
+      expect(mockDatabase.closeSync).toHaveBeenCalled();
+    });
+
+    it('should finish an interrupted encryption', () => {
+      mockFiles.add(DB_URI);
+      mockFiles.add(`${DB_URI}.encrypted`);
+      mockSchemaReadable(false);
+
+      expect(getDatabaseFileState('app.db')).toBe('encrypted');
+      expect(deleteDatabaseSync).toHaveBeenCalledWith('app.db');
+      expect([...mockFiles]).toEqual([DB_URI]);
+    });
+
+    it('should discard a partially written encrypted copy', () => {
+      mockFiles.add(DB_URI);
+      mockFiles.add(`${DB_URI}.encrypting`);
+
+      expect(getDatabaseFileState('app.db')).toBe('plaintext');
+      expect([...mockFiles]).toEqual([DB_URI]);
+    });
+  });
+
+  describe('encryptDatabase', () => {
+    it('should export into an encrypted copy that replaces the database', () => {
+      mockFiles.add(DB_URI);
+      mockDatabase.getFirstSync.mockImplementation(() => {
+        // sqlcipher_export writes the attached database
+        mockFiles.add(`${DB_URI}.encrypting`);
+        return {};
+      });
+
+      encryptDatabase('app.db', KEY);
+
+      expect(mockDatabase.execSync).toHaveBeenNthCalledWith(
+        1,
+        `ATTACH DATABASE '/data/SQLite/app.db.encrypting' AS encrypted KEY "x'${KEY}'"`
+      );
+      expect(mockDatabase.getFirstSync).toHaveBeenCalledWith(
+        "SELECT sqlcipher_export('encrypted')"
+      );
+      expect(mockDatabase.execSync).toHaveBeenNthCalledWith(
+        2,
+        'DETACH DATABASE encrypted'
+      );
+      expect(mockDatabase.closeSync).toHaveBeenCalled();
+      expect(deleteDatabaseSync).toHaveBeenCalledWith('app.db');
+      expect([...mockFiles]).toEqual([DB_URI]);
+    });
+
+    it('should leave the plaintext database in place when the export fails', () => {
+      mockFiles.add(DB_URI);
+      mockDatabase.getFirstSync.mockImplementation(() => {
+        throw new Error('disk full');
+      });
+
+      expect(() => encryptDatabase('app.db', KEY)).toThrow('disk full');
+      expect(mockDatabase.closeSync).toHaveBeenCalled();
+      expect(deleteDatabaseSync).not.toHaveBeenCalled();
+      expect([...mockFiles]).toEqual([DB_URI]);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Live Query Tests
+ *
+ * Tests for finding the tables a query reads, debouncing table change
+ * events, and refetching queries through TanStack Query invalidation.
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { eq } from 'drizzle-orm';
+import { drizzle } from 'drizzle-orm/expo-sqlite';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import {
+  getQueryTables,
+  invalidateQueriesOnTableChange,
+  liveQueryKeys,
+  SCHEMA_TABLE_NAMES,
+  useLiveQuery,
+  watchTables,
+  type LiveQuery,
+  type TableChangeSource,
+} from '../live-query';
+import * as schema from '../schema';
+
+/**
+ * Change source the test writes to by hand.
+ */
+function createFakeSource() {
+  const listeners = new Set<(tableName: string) => void>();
+  const source: TableChangeSource & { emit(tableName: string): void } = {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit: (tableName) => listeners.forEach((listener) => listener(tableName)),
+  };
+  return { source, listeners };
+}
+
+/**
+ * Query over the items table returning the current `rows`.
+ */
+function createFakeQuery(rows: { current: string[] }) {
+  const run = jest.fn(async () => [...rows.current]);
+  const query: LiveQuery<string[]> = {
+    toSQL: () => ({ sql: 'select "title" from "items"', params: [] }),
+    then: (onfulfilled, onrejected) => run().then(onfulfilled, onrejected),
+  };
+  return { query, run };
+}
+
+describe('Live Queries', () => {
+  describe('getQueryTables', () => {
+    const database = drizzle({} as SQLiteDatabase, { schema });
+
+    it('should list every schema table', () => {
+      expect(SCHEMA_TABLE_NAMES).toEqual(
+        expect.arrayContaining([
+          'items',
+          'usage_counters',
+          'credit_balances',
+          'credit_grants',
+          'subscription_events',
+        ])
+      );
+    });
+
+    it('should find the table a select reads', () => {
+      const { sql } = database.select().from(schema.items).toSQL();
+
+      expect(getQueryTables(sql)).toEqual(['items']);
+    });
+
+    it('should find joined tables', () => {
+      const { sql } = database
+        .select()
+        .from(schema.creditGrants)
+        .innerJoin(
+          schema.creditBalances,
+          eq(schema.creditGrants.metric, schema.creditBalances.metric)
+        )
+        .toSQL();
+
+      expect(getQueryTables(sql).sort()).toEqual([
+        'credit_balances',
+        'credit_grants',
+      ]);
+    });
+
+    it('should ignore names that only appear inside other identifiers', () => {
+      expect(getQueryTables('select "items_archive"."id"', ['items'])).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('watchTables', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should report a burst of writes once after the quiet period', () => {
+      const { source } = createFakeSource();
+      const listener = jest.fn();
+      watchTables(['items', 'usage_counters'], listener, {
+        source,
+        debounceMs: 50,
+      });
+
+      source.emit('items');
+      jest.advanceTimersByTime(30);
+      source.emit('usage_counters');
+      source.emit('items');
+      jest.advanceTimersByTime(30);
+
+      expect(listener).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(20);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(
+        new Set(['items', 'usage_counters'])
+      );
+    });
+
+    it('should ignore writes to other tables', () => {
+      const { source } = createFakeSource();
+      const listener = jest.fn();
+      watchTables(['items'], listener, { source });
+
+      source.emit('subscription_events');
+      jest.runAllTimers();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should drop pending changes and stop listening on unsubscribe', () => {
+      const { source, listeners } = createFakeSource();
+      const listener = jest.fn();
+      const unsubscribe = watchTables(['items'], listener, { source });
+
+      source.emit('items');
+      unsubscribe();
+      jest.runAllTimers();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(listeners.size).toBe(0);
+    });
+  });
+
+  describe('invalidateQueriesOnTableChange', () => {
+    it('should invalidate the keys bound to the changed tables', () => {
+      jest.useFakeTimers();
+      const { source } = createFakeSource();
+      const client = new QueryClient();
+      const invalidateQueries = jest
+        .spyOn(client, 'invalidateQueries')
+        .mockResolvedValue(undefined);
+
+      invalidateQueriesOnTableChange(
+        client,
+        { items: [['items']], usage_counters: [['usage']] },
+        { source }
+      );
+      source.emit('items');
+      jest.runAllTimers();
+      jest.useRealTimers();
+
+      expect(invalidateQueries).toHaveBeenCalledTimes(1);
+      expect(invalidateQueries).toHaveBeenCalledWith({ queryKey: ['items'] });
+    });
+  });
+
+  describe('useLiveQuery', () => {
+    const clients: QueryClient[] = [];
+
+    function createClient(): QueryClient {
+      const client = new QueryClient({
+        defaultOptions: {
+          queries: { gcTime: Infinity },
+          mutations: { gcTime: Infinity },
+        },
+      });
+      clients.push(client);
+      return client;
+    }
+
+    afterEach(() => {
+      clients.splice(0).forEach((client) => client.clear());
+    });
+
+    it('should run the query and cache it under its SQL', async () => {
+      const { source } = createFakeSource();
+      const client = createClient();
+      const { query } = createFakeQuery({ current: ['Groceries'] });
+
+      const { result } = renderHook(() =>
+        useLiveQuery(query, { client, source })
+      );
+
+      await waitFor(() => expect(result.current.data).toEqual(['Groceries']));
+      expect(
+        client.getQueryData(
+          liveQueryKeys.query('select "title" from "items"', [])
+        )
+      ).toEqual(['Groceries']);
+    });
+
+    it('should re-run the query once after a burst of writes to its tables', async () => {
+      const { source } = createFakeSource();
+      const client = createClient();
+      const rows = { current: ['Groceries'] };
+      const { query, run } = createFakeQuery(rows);
+
+      const { result } = renderHook(() =>
+        useLiveQuery(query, { client, source, debounceMs: 10 })
+      );
+      await waitFor(() => expect(result.current.data).toEqual(['Groceries']));
+
+      rows.current = ['Groceries', 'Errands'];
+      act(() => {
+        source.emit('items');
+        source.emit('items');
+        source.emit('usage_counters');
+      });
+
+      await waitFor(() =>
+        expect(result.current.data).toEqual(['Groceries', 'Errands'])
+      );
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep watching across renders until the params change', async () => {
+      const { source } = createFakeSource();
+      const subscribe = jest.spyOn(source, 'subscribe');
+      const client = createClient();
+      const run = jest.fn(async () => ['Groceries']);
+      const queryFor = (id: number): LiveQuery<string[]> => ({
+        // toSQL builds new params on every call, like Drizzle
+        toSQL: () => ({
+          sql: 'select "title" from "items" where "id" = ?',
+          params: [id],
+        }),
+        then: (onfulfilled, onrejected) => run().then(onfulfilled, onrejected),
+      });
+
+      const { result, rerender } = renderHook(
+        ({ id }: { id: number }) =>
+          useLiveQuery(queryFor(id), { client, source, debounceMs: 0 }),
+        { initialProps: { id: 1 } }
+      );
+      await waitFor(() => expect(result.current.data).toEqual(['Groceries']));
+
+      rerender({ id: 1 });
+      expect(subscribe).toHaveBeenCalledTimes(1);
+
+      rerender({ id: 2 });
+      await waitFor(() => expect(run).toHaveBeenCalledTimes(2));
+      expect(subscribe).toHaveBeenCalledTimes(2);
+
+      act(() => {
+        source.emit('items');
+      });
+      await waitFor(() => expect(run).toHaveBeenCalledTimes(3));
+    });
+
+    it('should not run or watch while disabled', () => {
+      const { source, listeners } = createFakeSource();
+      const { query, run } = createFakeQuery({ current: [] });
+
+      renderHook(() =>
+        useLiveQuery(query, { client: createClient(), source, enabled: false })
+      );
+
+      expect(run).not.toHaveBeenCalled();
+      expect(listeners.size).toBe(0);
+    });
+
+    it('should stop watching on unmount', async () => {
+      const { source, listeners } = createFakeSource();
+      const { query } = createFakeQuery({ current: [] });
+
+      const { unmount } = renderHook(() =>
+        useLiveQuery(query, { client: createClient(), source })
+      );
+      expect(listeners.size).toBe(1);
+
+      unmount();
+
+      expect(listeners.size).toBe(0);
+    });
+  });
+});
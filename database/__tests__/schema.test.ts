@@ -5,7 +5,13 @@
  */
 
 import { getTableName } from 'drizzle-orm';
-import { items } from '../schema';
+import {
+  creditBalances,
+  creditGrants,
+  items,
+  subscriptionEvents,
+  usageCounters,
+} from '../schema';
 
 describe('Database Schema', () => {
   describe('items table', () => {
@@ -35,4 +41,94 @@ describe('Database Schema', () => {
       expect(items.createdAt.name).toBe('created_at');
     });
   });
+
+  describe('usage_counters table', () => {
+    it('should have correct table name', () => {
+      expect(getTableName(usageCounters)).toBe('usage_counters');
+    });
+
+    it('should have metric column as primary key', () => {
+      expect(usageCounters.metric.name).toBe('metric');
+      expect(usageCounters.metric.primary).toBe(true);
+    });
+
+    it('should have count column defaulting to zero', () => {
+      expect(usageCounters.count.name).toBe('count');
+      expect(usageCounters.count.notNull).toBe(true);
+      expect(usageCounters.count.default).toBe(0);
+    });
+
+    it('should have updatedAt column with snake_case name', () => {
+      expect(usageCounters.updatedAt.name).toBe('updated_at');
+    });
+  });
+
+  describe('credit_balances table', () => {
+    it('should have correct table name', () => {
+      expect(getTableName(creditBalances)).toBe('credit_balances');
+    });
+
+    it('should have metric column as primary key', () => {
+      expect(creditBalances.metric.name).toBe('metric');
+      expect(creditBalances.metric.primary).toBe(true);
+    });
+
+    it('should have balance column defaulting to zero', () => {
+      expect(creditBalances.balance.name).toBe('balance');
+      expect(creditBalances.balance.notNull).toBe(true);
+      expect(creditBalances.balance.default).toBe(0);
+    });
+  });
+
+  describe('credit_grants table', () => {
+    it('should have correct table name', () => {
+      expect(getTableName(creditGrants)).toBe('credit_grants');
+    });
+
+    it('should have transactionId column as primary key', () => {
+      expect(creditGrants.transactionId.name).toBe('transaction_id');
+      expect(creditGrants.transactionId.primary).toBe(true);
+    });
+
+    it('should have product, metric and credits columns as not null', () => {
+      expect(creditGrants.productId.notNull).toBe(true);
+      expect(creditGrants.metric.notNull).toBe(true);
+      expect(creditGrants.credits.notNull).toBe(true);
+    });
+
+    it('should have grantedAt column with snake_case name', () => {
+      expect(creditGrants.grantedAt.name).toBe('granted_at');
+    });
+  });
+
+  describe('subscription_events table', () => {
+    it('should have correct table name', () => {
+      expect(getTableName(subscriptionEvents)).toBe('subscription_events');
+    });
+
+    it('should have id column as primary key', () => {
+      expect(subscriptionEvents.id.name).toBe('id');
+      expect(subscriptionEvents.id.primary).toBe(true);
+    });
+
+    it('should have type and tier columns as text not null', () => {
+      expect(subscriptionEvents.type.notNull).toBe(true);
+      expect(subscriptionEvents.fromTier.name).toBe('from_tier');
+      expect(subscriptionEvents.fromTier.notNull).toBe(true);
+      expect(subscriptionEvents.toTier.name).toBe('to_tier');
+      expect(subscriptionEvents.toTier.notNull).toBe(true);
+    });
+
+    it('should have productId and expiresAt columns as optional', () => {
+      expect(subscriptionEvents.productId.name).toBe('product_id');
+      expect(subscriptionEvents.productId.notNull).toBe(false);
+      expect(subscriptionEvents.expiresAt.name).toBe('expires_at');
+      expect(subscriptionEvents.expiresAt.notNull).toBe(false);
+    });
+
+    it('should have occurredAt column with snake_case name', () => {
+      expect(subscriptionEvents.occurredAt.name).toBe('occurred_at');
+      expect(subscriptionEvents.occurredAt.notNull).toBe(true);
+    });
+  });
 });
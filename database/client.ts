@@ -1,13 +1,24 @@
 /**
  * Database Client
  *
- * Drizzle ORM client initialization for expo-sqlite
+ * Drizzle ORM client initialization for expo-sqlite, optionally encrypted
+ * at rest with SQLCipher
  */
 
 import { drizzle, ExpoSQLiteDatabase } from 'drizzle-orm/expo-sqlite';
 import { migrate } from 'drizzle-orm/expo-sqlite/migrator';
 import { openDatabaseSync, SQLiteDatabase } from 'expo-sqlite';
 import migrations from '../drizzle/migrations';
+import {
+  applyDatabaseKey,
+  encryptDatabase,
+  generateDatabaseKey,
+  getDatabaseFileState,
+  isDatabaseEncryptionEnabled,
+  secureDatabaseKeyStore,
+  type DatabaseFileState,
+  type DatabaseKeyStore,
+} from './encryption';
 import * as schema from './schema';
 
 /**
@@ -15,13 +26,26 @@ import * as schema from './schema';
  */
 export const DATABASE_NAME = 'app.db';
 
+/**
+ * Why database initialization failed:
+ * - INIT_FAILED: opening, encrypting or migrating the database failed
+ * - KEY_MISSING: the database is encrypted but its key cannot be read
+ *   from secure storage (e.g. the keychain was not restored with the app data)
+ * - KEY_INVALID: the stored key does not decrypt the database
+ */
+export type DatabaseInitErrorCode =
+  | 'INIT_FAILED'
+  | 'KEY_MISSING'
+  | 'KEY_INVALID';
+
 /**
  * Database initialization error
  */
 export class DatabaseInitError extends Error {
   constructor(
     message: string,
-    public readonly cause?: unknown
+    public readonly cause?: unknown,
+    public readonly code: DatabaseInitErrorCode = 'INIT_FAILED'
   ) {
     super(message);
     this.name = 'DatabaseInitError';
@@ -51,20 +75,126 @@ function openDatabase(): SQLiteDatabase {
   }
 }
 
+/**
+ * Open the database encrypted with the key from the key store.
+ *
+ * On first launch a key is generated and saved before anything is written
+ * with it. An existing plaintext database is converted to an encrypted one.
+ *
+ * @throws DatabaseInitError with KEY_MISSING or KEY_INVALID if the
+ * database cannot be decrypted
+ */
+async function openEncryptedDatabase(
+  keyStore: DatabaseKeyStore
+): Promise<SQLiteDatabase> {
+  let state: DatabaseFileState;
+  try {
+    state = getDatabaseFileState(DATABASE_NAME);
+  } catch (error) {
+    throw new DatabaseInitError(
+      `Failed to inspect database "${DATABASE_NAME}"`,
+      error
+    );
+  }
+
+  let key: string | null;
+  try {
+    key = await keyStore.load();
+  } catch (error) {
+    throw new DatabaseInitError(
+      `Failed to read the encryption key for "${DATABASE_NAME}" from secure storage`,
+      error,
+      'KEY_MISSING'
+    );
+  }
+
+  if (key === null) {
+    if (state === 'encrypted') {
+      throw new DatabaseInitError(
+        `Database "${DATABASE_NAME}" is encrypted but no encryption key is stored`,
+        undefined,
+        'KEY_MISSING'
+      );
+    }
+
+    // Save before use, so data is never encrypted with a key that is lost
+    key = generateDatabaseKey();
+    try {
+      await keyStore.save(key);
+    } catch (error) {
+      throw new DatabaseInitError(
+        `Failed to save the encryption key for "${DATABASE_NAME}"`,
+        error
+      );
+    }
+  }
+
+  if (state === 'plaintext') {
+    try {
+      console.log('Encrypting database...');
+      encryptDatabase(DATABASE_NAME, key);
+      console.log('Database encrypted');
+    } catch (error) {
+      throw new DatabaseInitError(
+        `Failed to encrypt database "${DATABASE_NAME}"`,
+        error
+      );
+    }
+  }
+
+  const database = openDatabase();
+  let unlocked: boolean;
+  try {
+    unlocked = applyDatabaseKey(database, key);
+  } catch (error) {
+    database.closeSync();
+    throw new DatabaseInitError(
+      `Failed to apply the encryption key to "${DATABASE_NAME}"`,
+      error
+    );
+  }
+  if (!unlocked) {
+    database.closeSync();
+    throw new DatabaseInitError(
+      `The stored encryption key does not match database "${DATABASE_NAME}"`,
+      undefined,
+      'KEY_INVALID'
+    );
+  }
+  return database;
+}
+
+/**
+ * Database initialization options
+ */
+export interface InitializeDatabaseOptions {
+  /** Encrypt the database with SQLCipher (defaults to EXPO_PUBLIC_DATABASE_ENCRYPTION) */
+  encrypted?: boolean;
+  /** Where the encryption key is kept (defaults to secure storage) */
+  keyStore?: DatabaseKeyStore;
+}
+
 /**
  * Async database initialization for use in app startup
  * This allows parallel initialization with other services
  *
  * @throws DatabaseInitError if initialization fails
  */
-export async function initializeDatabase(): Promise<void> {
+export async function initializeDatabase(
+  options: InitializeDatabaseOptions = {}
+): Promise<void> {
   if (isInitialized) {
     return;
   }
 
+  const {
+    encrypted = isDatabaseEncryptionEnabled(),
+    keyStore = secureDatabaseKeyStore,
+  } = options;
+
   try {
     // Open the database
-    expoDb = openDatabase();
+    expoDb = encrypted ? await openEncryptedDatabase(keyStore) : openDatabase();
 
     // Create Drizzle instance
     drizzleDb = drizzle(expoDb, { schema });
@@ -77,6 +207,10 @@ export async function initializeDatabase(): Promise<void> {
     isInitialized = true;
   } catch (error) {
     console.error('Database initialization error:', error);
+    // Key problems need their own handling (e.g. offering a reset)
+    if (error instanceof DatabaseInitError && error.code !== 'INIT_FAILED') {
+      throw error;
+    }
     throw new DatabaseInitError('Database initialization failed', error);
   }
 }
@@ -0,0 +1,222 @@
+/**
+ * Database Encryption
+ *
+ * Building blocks for keeping the database encrypted at rest with SQLCipher
+ * (requires the expo-sqlite config plugin with `useSQLCipher: true`).
+ *
+ * This module is responsible for:
+ * - Generating the database key and keeping it in secure storage
+ * - Applying the key to an open connection and checking that it fits
+ * - Telling plaintext, encrypted and missing database files apart
+ * - Converting a plaintext database into an encrypted one in place
+ *
+ * @module database/encryption
+ */
+
+import * as Crypto from 'expo-crypto';
+import { File } from 'expo-file-system';
+import {
+  defaultDatabaseDirectory,
+  deleteDatabaseSync,
+  openDatabaseSync,
+  type SQLiteDatabase,
+} from 'expo-sqlite';
+
+import { getSecure, saveSecure, SecureStorageKey } from '@/lib/secure-storage';
+
+/**
+ * Key length in bytes (SQLCipher raw keys are 256-bit)
+ */
+const DATABASE_KEY_BYTES = 32;
+
+/**
+ * Whether the database should be encrypted
+ * (EXPO_PUBLIC_DATABASE_ENCRYPTION=true, see .env.example).
+ */
+export function isDatabaseEncryptionEnabled(): boolean {
+  return process.env.EXPO_PUBLIC_DATABASE_ENCRYPTION === 'true';
+}
+
+/**
+ * Where the database key is kept (injectable for testing).
+ * Methods throw when the underlying storage fails.
+ */
+export interface DatabaseKeyStore {
+  /** Read the key, or null if none has been saved */
+  load(): Promise<string | null>;
+  /** Save the key, replacing any previous one */
+  save(key: string): Promise<void>;
+}
+
+/**
+ * Key store backed by the device keychain / keystore.
+ */
+export const secureDatabaseKeyStore: DatabaseKeyStore = {
+  async load() {
+    const result = await getSecure(SecureStorageKey.DATABASE_KEY);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    return result.data;
+  },
+
+  async save(key) {
+    const result = await saveSecure(SecureStorageKey.DATABASE_KEY, key);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+  },
+};
+
+/**
+ * Generate a random 256-bit database key.
+ *
+ * @returns The key as 64 hex characters
+ */
+export function generateDatabaseKey(): string {
+  return Array.from(Crypto.getRandomBytes(DATABASE_KEY_BYTES), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+/**
+ * SQL literal for a hex key. SQLCipher uses raw keys as-is instead of
+ * deriving one with PBKDF2, which keeps app startup fast.
+ */
+function keyLiteral(key: string): string {
+  if (!/^[0-9a-f]{64}$/i.test(key)) {
+    throw new Error('Database key must be 64 hex characters');
+  }
+  return `"x'${key}'"`;
+}
+
+/**
+ * Whether the connection can read the database schema. SQLCipher only
+ * checks the key on first read, so a wrong key (or a key applied to a
+ * plaintext file) fails here rather than when it is set.
+ */
+function canReadSchema(database: SQLiteDatabase): boolean {
+  try {
+    database.getFirstSync('SELECT count(*) FROM sqlite_master');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Apply the key to a freshly opened connection.
+ *
+ * @returns false if the key does not decrypt the database
+ * @throws Error if the app was built without SQLCipher, where the key
+ * would be silently ignored
+ */
+export function applyDatabaseKey(
+  database: SQLiteDatabase,
+  key: string
+): boolean {
+  if (!database.getFirstSync('PRAGMA cipher_version')) {
+    throw new Error(
+      'SQLCipher is not available; set useSQLCipher in the expo-sqlite config plugin'
+    );
+  }
+  database.execSync(`PRAGMA key = ${keyLiteral(key)}`);
+  return canReadSchema(database);
+}
+
+/**
+ * Path of a database file in the default database directory.
+ */
+function databasePath(name: string): string {
+  return `${defaultDatabaseDirectory}/${name}`;
+}
+
+/**
+ * Database file in the default database directory.
+ */
+function databaseFile(name: string): File {
+  return new File(`file://${databasePath(name)}`);
+}
+
+/**
+ * Name of the encrypted copy while it is being written.
+ */
+function exportingName(name: string): string {
+  return `${name}.encrypting`;
+}
+
+/**
+ * Name of the encrypted copy once it is complete, until it replaces the
+ * plaintext database.
+ */
+function exportedName(name: string): string {
+  return `${name}.encrypted`;
+}
+
+/**
+ * Finish or discard an encryption that was interrupted (e.g. the app was
+ * killed). A complete encrypted copy replaces the database; a partial one
+ * is deleted so the plaintext database is encrypted again from scratch.
+ */
+function recoverEncryption(name: string): void {
+  const exported = databaseFile(exportedName(name));
+  if (exported.exists) {
+    if (databaseFile(name).exists) {
+      deleteDatabaseSync(name);
+    }
+    exported.move(databaseFile(name));
+  }
+
+  const exporting = databaseFile(exportingName(name));
+  if (exporting.exists) {
+    exporting.delete();
+  }
+}
+
+/**
+ * State of a database file on disk.
+ */
+export type DatabaseFileState = 'missing' | 'plaintext' | 'encrypted';
+
+/**
+ * Find out whether a database file is missing, plaintext or encrypted,
+ * completing any interrupted encryption first.
+ */
+export function getDatabaseFileState(name: string): DatabaseFileState {
+  recoverEncryption(name);
+
+  if (!databaseFile(name).exists) {
+    return 'missing';
+  }
+
+  const database = openDatabaseSync(name);
+  try {
+    return canReadSchema(database) ? 'plaintext' : 'encrypted';
+  } finally {
+    database.closeSync();
+  }
+}
+
+/**
+ * Convert a plaintext database into an encrypted one with the given key.
+ *
+ * The rows are exported into a copy next to the database, which replaces
+ * it only once complete, so the plaintext database stays intact until
+ * then. An interrupted run is finished by getDatabaseFileState.
+ */
+export function encryptDatabase(name: string, key: string): void {
+  const plaintext = openDatabaseSync(name);
+  try {
+    plaintext.execSync(
+      `ATTACH DATABASE '${databasePath(exportingName(name))}' AS encrypted KEY ${keyLiteral(key)}`
+    );
+    plaintext.getFirstSync("SELECT sqlcipher_export('encrypted')");
+    plaintext.execSync('DETACH DATABASE encrypted');
+  } finally {
+    plaintext.closeSync();
+  }
+
+  // The rename marks the copy as complete
+  databaseFile(exportingName(name)).move(databaseFile(exportedName(name)));
+  recoverEncryption(name);
+}
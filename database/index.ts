@@ -5,7 +5,44 @@
 
 // Database client and errors
 export { db, DATABASE_NAME, DatabaseInitError } from './client';
+export type {
+  DatabaseInitErrorCode,
+  InitializeDatabaseOptions,
+} from './client';
+
+// Live queries
+export {
+  useLiveQuery,
+  liveQueryKeys,
+  watchTables,
+  invalidateQueriesOnTableChange,
+  getQueryTables,
+  sqliteTableChangeSource,
+  SCHEMA_TABLE_NAMES,
+  DEFAULT_LIVE_QUERY_DEBOUNCE_MS,
+} from './live-query';
+export type {
+  LiveQuery,
+  UseLiveQueryOptions,
+  WatchTablesOptions,
+  TableChangeSource,
+} from './live-query';
 
 // Schema definitions and types
-export { items } from './schema';
-export type { Item, NewItem } from './schema';
+export {
+  items,
+  usageCounters,
+  creditBalances,
+  creditGrants,
+  subscriptionEvents,
+} from './schema';
+export type {
+  Item,
+  NewItem,
+  UsageCounter,
+  CreditBalance,
+  CreditGrant,
+  NewCreditGrant,
+  SubscriptionEvent,
+  NewSubscriptionEvent,
+} from './schema';
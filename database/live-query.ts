@@ -0,0 +1,276 @@
+/**
+ * Live Queries
+ *
+ * Re-runs Drizzle queries when the tables they read change, using the
+ * expo-sqlite change listener (openDatabase sets enableChangeListener).
+ *
+ * Change events are debounced: a transaction writing 100 rows fires 100
+ * events but one refetch. Refetching goes through TanStack Query
+ * invalidation, so live queries share its cache, loading and error state.
+ *
+ * Usage:
+ * ```typescript
+ * import { useLiveQuery } from '@/database/live-query';
+ * import { db } from '@/database/client';
+ * import { items } from '@/database/schema';
+ *
+ * // Re-renders after any write to the items table
+ * const { data: allItems = [] } = useLiveQuery(db.select().from(items));
+ * ```
+ */
+
+import {
+  hashKey,
+  useQuery,
+  type QueryClient,
+  type QueryKey,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+import { getTableName, is } from 'drizzle-orm';
+import { SQLiteTable } from 'drizzle-orm/sqlite-core';
+import { addDatabaseChangeListener } from 'expo-sqlite';
+import { useEffect, useMemo, useState } from 'react';
+
+import { queryClient } from '@/lib/query-client';
+import * as schema from './schema';
+
+/**
+ * Default quiet period before changed tables are reported
+ */
+export const DEFAULT_LIVE_QUERY_DEBOUNCE_MS = 50;
+
+/**
+ * Names of the tables defined in the schema
+ */
+export const SCHEMA_TABLE_NAMES: readonly string[] = Object.values(schema)
+  .filter((value) => is(value, SQLiteTable))
+  .map((table) => getTableName(table as SQLiteTable));
+
+/**
+ * Source of table change events (injectable for testing)
+ */
+export interface TableChangeSource {
+  /**
+   * Subscribe to writes.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (tableName: string) => void): () => void;
+}
+
+/**
+ * Table changes reported by the expo-sqlite change listener
+ */
+export const sqliteTableChangeSource: TableChangeSource = {
+  subscribe(listener) {
+    const subscription = addDatabaseChangeListener((event) =>
+      listener(event.tableName)
+    );
+    return () => subscription.remove();
+  },
+};
+
+/**
+ * Options shared by the table watchers
+ */
+export interface WatchTablesOptions {
+  /** Quiet period before changes are reported (default: 50ms) */
+  debounceMs?: number;
+  /** Change event source (default: the expo-sqlite change listener) */
+  source?: TableChangeSource;
+}
+
+/**
+ * Call a listener after writes to any of the given tables.
+ * Bursts of writes are reported once, after `debounceMs` without writes,
+ * with every table changed during the burst.
+ *
+ * @param tables - Table names to watch
+ * @param listener - Called with the changed tables
+ * @param options - Debounce and event source
+ * @returns Unsubscribe function (drops changes not reported yet)
+ */
+export function watchTables(
+  tables: readonly string[],
+  listener: (changedTables: ReadonlySet<string>) => void,
+  options: WatchTablesOptions = {}
+): () => void {
+  const {
+    debounceMs = DEFAULT_LIVE_QUERY_DEBOUNCE_MS,
+    source = sqliteTableChangeSource,
+  } = options;
+  const watched = new Set(tables);
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    const changed = pending;
+    pending = new Set();
+    listener(changed);
+  };
+
+  const unsubscribe = source.subscribe((tableName) => {
+    if (!watched.has(tableName)) {
+      return;
+    }
+    pending.add(tableName);
+    if (timer !== null) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(flush, debounceMs);
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+}
+
+/**
+ * Find the schema tables a compiled query reads.
+ * Drizzle quotes every table name, so joins and subqueries are found too.
+ *
+ * @param sql - Compiled SQL (query.toSQL().sql)
+ * @param tableNames - Candidate tables (default: every schema table)
+ * @returns Table names referenced by the query
+ */
+export function getQueryTables(
+  sql: string,
+  tableNames: readonly string[] = SCHEMA_TABLE_NAMES
+): string[] {
+  return tableNames.filter((name) => sql.includes(`"${name}"`));
+}
+
+/**
+ * Invalidate query keys after writes to their tables.
+ * Call once at startup so cached queries refetch after writes from any
+ * code path.
+ *
+ * @param client - Query client to invalidate
+ * @param bindings - Query keys to invalidate, keyed by table name
+ * @param options - Debounce and event source
+ * @returns Unsubscribe function
+ *
+ * @example
+ * ```ts
+ * invalidateQueriesOnTableChange(queryClient, { items: [itemKeys.all] });
+ * ```
+ */
+export function invalidateQueriesOnTableChange(
+  client: QueryClient,
+  bindings: Readonly<Record<string, readonly QueryKey[]>>,
+  options: WatchTablesOptions = {}
+): () => void {
+  return watchTables(
+    Object.keys(bindings),
+    (changedTables) => {
+      changedTables.forEach((table) => {
+        bindings[table].forEach((queryKey) => {
+          void client.invalidateQueries({ queryKey });
+        });
+      });
+    },
+    options
+  );
+}
+
+/**
+ * Drizzle query accepted by useLiveQuery: compiles to SQL and runs when
+ * awaited (select builders and relational queries both qualify).
+ */
+export interface LiveQuery<T> extends PromiseLike<T> {
+  toSQL(): { sql: string; params: unknown[] };
+}
+
+/**
+ * useLiveQuery options
+ */
+export interface UseLiveQueryOptions extends WatchTablesOptions {
+  /** Query client (default: the shared queryClient) */
+  client?: QueryClient;
+  /** Whether the query runs (default: true) */
+  enabled?: boolean;
+}
+
+/**
+ * Query keys used by live queries
+ */
+export const liveQueryKeys = {
+  all: ['live-query'] as const,
+  query: (sql: string, params: unknown[]) =>
+    [...liveQueryKeys.all, sql, params] as const,
+};
+
+/**
+ * Keep the same query key across renders until its hash changes.
+ * toSQL() builds a new params array on every render, so the key would
+ * otherwise change identity each time.
+ */
+function useStableQueryKey<K extends readonly unknown[]>(queryKey: K): K {
+  const keyHash = hashKey(queryKey);
+  const [stable, setStable] = useState({ queryKey, keyHash });
+  if (stable.keyHash !== keyHash) {
+    setStable({ queryKey, keyHash });
+    return queryKey;
+  }
+  return stable.queryKey;
+}
+
+/**
+ * Run a Drizzle query and re-run it whenever a table it reads changes.
+ *
+ * The result is cached under liveQueryKeys.query(sql, params) and never
+ * goes stale on its own: the change listener invalidates it instead.
+ *
+ * @param query - Drizzle query (not executed; useLiveQuery awaits it)
+ * @param options - Debounce, event source, client and enabled flag
+ * @returns Query result with the rows
+ *
+ * @example
+ * ```tsx
+ * function ItemCount() {
+ *   const { data } = useLiveQuery(
+ *     db.select({ value: count() }).from(items)
+ *   );
+ *   return <Text>{data?.[0].value ?? 0} items</Text>;
+ * }
+ * ```
+ */
+export function useLiveQuery<T>(
+  query: LiveQuery<T>,
+  options: UseLiveQueryOptions = {}
+): UseQueryResult<T> {
+  const { client = queryClient, enabled = true, debounceMs, source } = options;
+  const { sql, params } = query.toSQL();
+  const queryKey = useStableQueryKey(liveQueryKeys.query(sql, params));
+  const tables = useMemo(() => getQueryTables(sql), [sql]);
+
+  const result = useQuery<T>(
+    {
+      queryKey,
+      queryFn: async () => await query,
+      staleTime: Infinity,
+      enabled,
+    },
+    client
+  );
+
+  useEffect(() => {
+    if (!enabled || tables.length === 0) {
+      return;
+    }
+    return watchTables(
+      tables,
+      () => {
+        void client.invalidateQueries({ queryKey, exact: true });
+      },
+      { debounceMs, source }
+    );
+  }, [client, enabled, queryKey, tables, debounceMs, source]);
+
+  return result;
+}
@@ -5,7 +5,7 @@
  */
 
 import { sql } from 'drizzle-orm';
-import { integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
+import { index, integer, sqliteTable, text } from 'drizzle-orm/sqlite-core';
 
 /**
  * Items table - Sample table for demonstrating CRUD operations
@@ -28,3 +28,93 @@ export type Item = typeof items.$inferSelect;
  * Type for inserting items (id and createdAt are optional)
  */
 export type NewItem = typeof items.$inferInsert;
+
+/**
+ * Usage counters table - Consumption that is not derived from other tables
+ * (e.g., exports performed), keyed by usage metric
+ */
+export const usageCounters = sqliteTable('usage_counters', {
+  metric: text('metric').primaryKey(),
+  count: integer('count').notNull().default(0),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+/**
+ * Type for selecting usage counters
+ */
+export type UsageCounter = typeof usageCounters.$inferSelect;
+
+/**
+ * Credit balances table - Consumable credits bought for counted usage
+ * (e.g., export packs), keyed by usage metric
+ */
+export const creditBalances = sqliteTable('credit_balances', {
+  metric: text('metric').primaryKey(),
+  balance: integer('balance').notNull().default(0),
+  updatedAt: integer('updated_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+/**
+ * Type for selecting credit balances
+ */
+export type CreditBalance = typeof creditBalances.$inferSelect;
+
+/**
+ * Credit grants table - One row per store transaction that granted credits,
+ * so a purchase is never credited twice
+ */
+export const creditGrants = sqliteTable('credit_grants', {
+  transactionId: text('transaction_id').primaryKey(),
+  productId: text('product_id').notNull(),
+  metric: text('metric').notNull(),
+  credits: integer('credits').notNull(),
+  grantedAt: integer('granted_at', { mode: 'timestamp' })
+    .notNull()
+    .default(sql`(unixepoch())`),
+});
+
+/**
+ * Type for selecting credit grants
+ */
+export type CreditGrant = typeof creditGrants.$inferSelect;
+
+/**
+ * Type for inserting credit grants (grantedAt is optional)
+ */
+export type NewCreditGrant = typeof creditGrants.$inferInsert;
+
+/**
+ * Subscription events table - Lifecycle log of tier and product transitions,
+ * used for "member since" and support debugging
+ */
+export const subscriptionEvents = sqliteTable(
+  'subscription_events',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    type: text('type', {
+      enum: ['started', 'upgraded', 'downgraded', 'product_changed', 'ended'],
+    }).notNull(),
+    fromTier: text('from_tier').notNull(),
+    toTier: text('to_tier').notNull(),
+    productId: text('product_id'),
+    expiresAt: integer('expires_at', { mode: 'timestamp' }),
+    occurredAt: integer('occurred_at', { mode: 'timestamp' })
+      .notNull()
+      .default(sql`(unixepoch())`),
+  },
+  (table) => [index('subscription_events_occurred_at_idx').on(table.occurredAt)]
+);
+
+/**
+ * Type for selecting subscription events
+ */
+export type SubscriptionEvent = typeof subscriptionEvents.$inferSelect;
+
+/**
+ * Type for inserting subscription events (id and occurredAt are optional)
+ */
+export type NewSubscriptionEvent = typeof subscriptionEvents.$inferInsert;
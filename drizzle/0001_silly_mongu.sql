@@ -0,0 +1,5 @@
+CREATE TABLE `usage_counters` (
+	`metric` text PRIMARY KEY NOT NULL,
+	`count` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
@@ -0,0 +1,11 @@
+CREATE TABLE `subscription_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`type` text NOT NULL,
+	`from_tier` text NOT NULL,
+	`to_tier` text NOT NULL,
+	`product_id` text,
+	`expires_at` integer,
+	`occurred_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `subscription_events_occurred_at_idx` ON `subscription_events` (`occurred_at`);
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `credit_balances` (
+	`metric` text PRIMARY KEY NOT NULL,
+	`balance` integer DEFAULT 0 NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `credit_grants` (
+	`transaction_id` text PRIMARY KEY NOT NULL,
+	`product_id` text NOT NULL,
+	`metric` text NOT NULL,
+	`credits` integer NOT NULL,
+	`granted_at` integer DEFAULT (unixepoch()) NOT NULL
+);
@@ -0,0 +1,30 @@
+-- Full-text index over items.title and items.description (external content
+-- table: the text lives in items, items_fts only holds the index). The
+-- triggers keep it in sync with every insert, update and delete.
+CREATE VIRTUAL TABLE `items_fts` USING fts5(
+	`title`,
+	`description`,
+	content='items',
+	content_rowid='id',
+	tokenize='unicode61 remove_diacritics 2'
+);
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_after_insert` AFTER INSERT ON `items` BEGIN
+	INSERT INTO `items_fts` (`rowid`, `title`, `description`)
+	VALUES (new.`id`, new.`title`, new.`description`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_after_delete` AFTER DELETE ON `items` BEGIN
+	INSERT INTO `items_fts` (`items_fts`, `rowid`, `title`, `description`)
+	VALUES ('delete', old.`id`, old.`title`, old.`description`);
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_fts_after_update` AFTER UPDATE ON `items` BEGIN
+	INSERT INTO `items_fts` (`items_fts`, `rowid`, `title`, `description`)
+	VALUES ('delete', old.`id`, old.`title`, old.`description`);
+	INSERT INTO `items_fts` (`rowid`, `title`, `description`)
+	VALUES (new.`id`, new.`title`, new.`description`);
+END;
+--> statement-breakpoint
+-- Index the items that existed before this migration
+INSERT INTO `items_fts` (`items_fts`) VALUES ('rebuild');
@@ -2,10 +2,18 @@
 
 import journal from './meta/_journal.json';
 import m0000 from './0000_wooden_quicksilver.sql';
+import m0001 from './0001_silly_mongu.sql';
+import m0002 from './0002_abnormal_spectrum.sql';
+import m0003 from './0003_outgoing_maverick.sql';
+import m0004 from './0004_items_fts.sql';
 
 export default {
   journal,
   migrations: {
     m0000,
+    m0001,
+    m0002,
+    m0003,
+    m0004,
   },
 };
@@ -0,0 +1,229 @@
+/**
+ * Backup Archive Tests
+ *
+ * Tests for writing archives and CSV files, and for parsing archives back
+ * with validation and migration from older schema versions.
+ *
+ * @module features/backup/core/__tests__/archive.test
+ */
+
+import journal from '@/drizzle/meta/_journal.json';
+import {
+  BACKUP_FORMAT,
+  BACKUP_MIGRATIONS,
+  BACKUP_SCHEMA_VERSION,
+  createBackupArchive,
+  parseBackup,
+  serializeBackup,
+  serializeTableCsv,
+} from '../archive';
+import type { BackupTables } from '../types';
+
+const createdAt = new Date('2026-10-19T09:30:00.000Z');
+
+const tables: BackupTables = {
+  items: [
+    {
+      id: 1,
+      title: 'Groceries',
+      description: 'Milk, eggs',
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    },
+    {
+      id: 2,
+      title: 'Errands',
+      description: null,
+      createdAt: new Date('2026-01-02T00:00:00.000Z'),
+    },
+  ],
+  usage_counters: [{ metric: 'exports', count: 1, updatedAt: createdAt }],
+  credit_balances: [{ metric: 'exports', balance: 5, updatedAt: createdAt }],
+  credit_grants: [
+    {
+      transactionId: 'tx_1',
+      productId: 'export_pack_10',
+      metric: 'exports',
+      credits: 10,
+      grantedAt: createdAt,
+    },
+  ],
+  subscription_events: [
+    {
+      id: 1,
+      type: 'started',
+      fromTier: 'free',
+      toTier: 'premium',
+      productId: 'monthly_plan',
+      expiresAt: null,
+      occurredAt: createdAt,
+    },
+  ],
+};
+
+describe('Backup Archive', () => {
+  describe('schema version', () => {
+    it('should match the number of migrations', () => {
+      expect(BACKUP_SCHEMA_VERSION).toBe(journal.entries.length);
+    });
+
+    it('should have an upgrade step for every later version', () => {
+      for (let version = 2; version <= BACKUP_SCHEMA_VERSION; version++) {
+        expect(BACKUP_MIGRATIONS[version]).toEqual(expect.any(Function));
+      }
+    });
+  });
+
+  describe('serializeBackup', () => {
+    it('should stamp the format and schema version', () => {
+      const json = JSON.parse(
+        serializeBackup(createBackupArchive(tables, createdAt))
+      );
+
+      expect(json).toMatchObject({
+        format: BACKUP_FORMAT,
+        schemaVersion: BACKUP_SCHEMA_VERSION,
+        createdAt: '2026-10-19T09:30:00.000Z',
+      });
+      expect(json.tables.items[0].createdAt).toBe('2026-01-01T00:00:00.000Z');
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should read back what serializeBackup wrote', () => {
+      const text = serializeBackup(createBackupArchive(tables, createdAt));
+
+      const result = parseBackup(text);
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          format: BACKUP_FORMAT,
+          schemaVersion: BACKUP_SCHEMA_VERSION,
+          sourceSchemaVersion: BACKUP_SCHEMA_VERSION,
+          createdAt,
+          tables,
+        },
+      });
+    });
+
+    it('should reject files that are not JSON', () => {
+      const result = parseBackup('title,description\nGroceries,');
+
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'INVALID_BACKUP', message: 'The file is not JSON' },
+      });
+    });
+
+    it('should reject JSON that is not a backup', () => {
+      const result = parseBackup(JSON.stringify({ items: [] }));
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_BACKUP');
+        expect(result.error.message).toContain('not a backup');
+      }
+    });
+
+    it('should reject archives from a newer schema', () => {
+      const text = JSON.stringify({
+        ...createBackupArchive(tables, createdAt),
+        schemaVersion: BACKUP_SCHEMA_VERSION + 1,
+      });
+
+      const result = parseBackup(text);
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'UNSUPPORTED_VERSION',
+          schemaVersion: BACKUP_SCHEMA_VERSION + 1,
+        }),
+      });
+    });
+
+    it('should migrate archives from the first schema version', () => {
+      const text = JSON.stringify({
+        format: BACKUP_FORMAT,
+        schemaVersion: 1,
+        createdAt: createdAt.toISOString(),
+        tables: { items: tables.items },
+      });
+
+      const result = parseBackup(text);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.sourceSchemaVersion).toBe(1);
+        expect(result.data.schemaVersion).toBe(BACKUP_SCHEMA_VERSION);
+        expect(result.data.tables).toEqual({
+          items: tables.items,
+          usage_counters: [],
+          credit_balances: [],
+          credit_grants: [],
+          subscription_events: [],
+        });
+      }
+    });
+
+    it('should name the first invalid row', () => {
+      const archive = createBackupArchive(tables, createdAt);
+      const text = JSON.stringify({
+        ...archive,
+        tables: {
+          ...archive.tables,
+          items: [{ ...tables.items[0], title: 42 }],
+        },
+      });
+
+      const result = parseBackup(text);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_BACKUP');
+        expect(result.error.message).toContain('items.0.title');
+      }
+    });
+
+    it('should reject unknown subscription event types', () => {
+      const archive = createBackupArchive(tables, createdAt);
+      const text = JSON.stringify({
+        ...archive,
+        tables: {
+          ...archive.tables,
+          subscription_events: [
+            { ...tables.subscription_events[0], type: 'paused' },
+          ],
+        },
+      });
+
+      expect(parseBackup(text).success).toBe(false);
+    });
+  });
+
+  describe('serializeTableCsv', () => {
+    it('should write a header of SQL column names and one line per row', () => {
+      const csv = serializeTableCsv('items', tables.items);
+
+      expect(csv).toBe(
+        'id,title,description,created_at\r\n' +
+          '1,Groceries,"Milk, eggs",2026-01-01T00:00:00.000Z\r\n' +
+          '2,Errands,,2026-01-02T00:00:00.000Z\r\n'
+      );
+    });
+
+    it('should escape quotes and line breaks', () => {
+      const csv = serializeTableCsv('items', [
+        { ...tables.items[0], title: 'Say "hi"', description: 'a\nb' },
+      ]);
+
+      expect(csv).toContain('"Say ""hi""","a\nb"');
+    });
+
+    it('should write only the header for an empty table', () => {
+      expect(serializeTableCsv('credit_balances', [])).toBe(
+        'metric,balance,updated_at\r\n'
+      );
+    });
+  });
+});
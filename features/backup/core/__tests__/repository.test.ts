@@ -0,0 +1,198 @@
+/**
+ * Backup Repository Tests
+ *
+ * Runs the SQLite repository against a fake expo-sqlite client to verify
+ * the tables it reads and that a restore replaces them in one transaction.
+ *
+ * @module features/backup/core/__tests__/repository.test
+ */
+
+import { drizzle } from 'drizzle-orm/expo-sqlite';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import * as schema from '@/database/schema';
+import { createSqliteBackupRepository } from '../repository';
+import type { BackupTables } from '../types';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const emptyTables: BackupTables = {
+  items: [],
+  usage_counters: [],
+  credit_balances: [],
+  credit_grants: [],
+  subscription_events: [],
+};
+
+/**
+ * Fake expo-sqlite client serving raw rows (in column order) per table.
+ *
+ * @param rowsByTable - Rows returned by selects from each table
+ * @param failOn - Statements that fail to prepare
+ */
+function createFakeClient(
+  rowsByTable: Record<string, unknown[][]> = {},
+  failOn?: RegExp
+) {
+  const statements: { sql: string; params: unknown[] }[] = [];
+
+  const client = {
+    prepareSync: jest.fn((sql: string) => {
+      if (failOn?.test(sql)) {
+        throw new Error('disk I/O error');
+      }
+      return {
+        executeSync: jest.fn((params: unknown[]) => {
+          statements.push({ sql, params });
+          return {
+            changes: 1,
+            lastInsertRowId: 1,
+            getAllSync: () => [],
+            getFirstSync: () => null,
+          };
+        }),
+        executeForRawResultSync: jest.fn((params: unknown[]) => {
+          statements.push({ sql, params });
+          const table = /from "(\w+)"/.exec(sql)?.[1] ?? '';
+          return { getAllSync: () => rowsByTable[table] ?? [] };
+        }),
+        finalizeSync: jest.fn(),
+      };
+    }),
+  };
+
+  const database = drizzle(client as unknown as SQLiteDatabase, { schema });
+  return { database, statements };
+}
+
+describe('Backup Repository', () => {
+  describe('readTables', () => {
+    it('should read every row of every table', async () => {
+      const { database, statements } = createFakeClient({
+        items: [[1, 'Groceries', null, 1767225600]],
+        usage_counters: [['exports', 2, 1767225600]],
+      });
+      const repository = createSqliteBackupRepository(database);
+
+      const tables = await repository.readTables();
+
+      expect(tables).toEqual({
+        ...emptyTables,
+        items: [
+          {
+            id: 1,
+            title: 'Groceries',
+            description: null,
+            createdAt: new Date(1767225600 * 1000),
+          },
+        ],
+        usage_counters: [
+          {
+            metric: 'exports',
+            count: 2,
+            updatedAt: new Date(1767225600 * 1000),
+          },
+        ],
+      });
+      expect(statements).toHaveLength(5);
+    });
+  });
+
+  describe('replaceTables', () => {
+    it('should clear the restored tables and insert the rows in one transaction', async () => {
+      const { database, statements } = createFakeClient();
+      const repository = createSqliteBackupRepository(database);
+
+      await repository.replaceTables({
+        ...emptyTables,
+        items: [
+          {
+            id: 7,
+            title: 'Groceries',
+            description: null,
+            createdAt: new Date(1767225600 * 1000),
+          },
+        ],
+      });
+
+      const sql = statements.map((statement) => statement.sql);
+      expect(sql[0]).toBe('begin');
+      expect(sql.filter((text) => text.startsWith('delete from'))).toEqual([
+        'delete from "items"',
+        'delete from "subscription_events"',
+      ]);
+      const insert = statements.find((statement) =>
+        statement.sql.startsWith('insert into "items"')
+      );
+      expect(insert?.params).toEqual([7, 'Groceries', null, 1767225600]);
+      expect(sql[sql.length - 1]).toBe('commit');
+    });
+
+    it('should keep the device usage counters and credits', async () => {
+      const { database, statements } = createFakeClient();
+      const repository = createSqliteBackupRepository(database);
+      const updatedAt = new Date(1767225600 * 1000);
+
+      await repository.replaceTables({
+        ...emptyTables,
+        usage_counters: [{ metric: 'exports', count: 0, updatedAt }],
+        credit_balances: [{ metric: 'exports', balance: 999, updatedAt }],
+        credit_grants: [
+          {
+            transactionId: 'tx_1',
+            productId: 'export_pack_10',
+            metric: 'exports',
+            credits: 999,
+            grantedAt: updatedAt,
+          },
+        ],
+      });
+
+      const sql = statements.map((statement) => statement.sql).join('\n');
+      expect(sql).not.toMatch(/"usage_counters"|"credit_balances"/);
+      expect(sql).not.toMatch(/"credit_grants"/);
+    });
+
+    it('should insert large tables in chunks', async () => {
+      const { database, statements } = createFakeClient();
+      const repository = createSqliteBackupRepository(database);
+
+      await repository.replaceTables({
+        ...emptyTables,
+        items: Array.from({ length: 250 }, (_, index) => ({
+          id: index + 1,
+          title: `Item ${index + 1}`,
+          description: null,
+          createdAt: new Date(1767225600 * 1000),
+        })),
+      });
+
+      const inserts = statements.filter((statement) =>
+        statement.sql.startsWith('insert into "items"')
+      );
+      expect(inserts.map((insert) => insert.params.length)).toEqual([
+        400, 400, 200,
+      ]);
+    });
+
+    it('should roll back when an insert fails', async () => {
+      const { database, statements } = createFakeClient({}, /^insert/);
+      const repository = createSqliteBackupRepository(database);
+
+      await expect(
+        repository.replaceTables({
+          ...emptyTables,
+          items: [
+            {
+              id: 1,
+              title: 'Groceries',
+              description: null,
+              createdAt: new Date(1767225600 * 1000),
+            },
+          ],
+        })
+      ).rejects.toThrow('disk I/O error');
+      expect(statements[statements.length - 1].sql).toBe('rollback');
+    });
+  });
+});
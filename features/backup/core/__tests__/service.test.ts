@@ -0,0 +1,279 @@
+/**
+ * Backup Service Tests
+ *
+ * Tests for exporting archives and CSV files within the exports quota,
+ * restoring archives chosen in the picker, and mapping storage and file
+ * failures.
+ *
+ * @module features/backup/core/__tests__/service.test
+ */
+
+import type { UsageService } from '@/features/usage/core/service';
+import {
+  BACKUP_FORMAT,
+  createBackupArchive,
+  serializeBackup,
+} from '../archive';
+import type { BackupFiles, ExportFile } from '../files';
+import type { BackupRepository } from '../repository';
+import { BACKUP_PICKER_TYPES, createBackupService } from '../service';
+import type { BackupTables } from '../types';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const now = new Date('2026-10-19T09:30:00.000Z');
+
+const tables: BackupTables = {
+  items: [
+    {
+      id: 1,
+      title: 'Groceries',
+      description: 'Milk, eggs',
+      createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    },
+  ],
+  usage_counters: [{ metric: 'exports', count: 1, updatedAt: now }],
+  credit_balances: [],
+  credit_grants: [],
+  subscription_events: [],
+};
+
+function createRepository(): jest.Mocked<BackupRepository> {
+  return {
+    readTables: jest.fn(async () => tables),
+    replaceTables: jest.fn(async (_tables: BackupTables) => undefined),
+  };
+}
+
+function createFiles(picked: string | null = null): jest.Mocked<BackupFiles> {
+  return {
+    share: jest.fn(async (_file: ExportFile) => undefined),
+    pick: jest.fn(async (_mimeTypes: string[]) => picked),
+  };
+}
+
+function createUsage(): jest.Mocked<
+  Pick<UsageService, 'checkExport' | 'recordExport' | 'notifyChanged'>
+> {
+  return {
+    checkExport: jest.fn(async () => ({
+      success: true as const,
+      data: { used: 0, limit: 1, remaining: 1, isLimitReached: false },
+    })),
+    recordExport: jest.fn(async () => ({
+      success: true as const,
+      data: { used: 1, limit: 1, remaining: 0, isLimitReached: true },
+    })),
+    notifyChanged: jest.fn(),
+  };
+}
+
+function createService(picked: string | null = null) {
+  const repository = createRepository();
+  const files = createFiles(picked);
+  const usage = createUsage();
+  const service = createBackupService({
+    repository,
+    files,
+    usage,
+    now: () => now,
+  });
+  return { service, repository, files, usage };
+}
+
+describe('Backup Service', () => {
+  describe('exportBackup', () => {
+    it('should record the export and share a JSON archive', async () => {
+      const { service, files, usage } = createService();
+
+      const result = await service.exportBackup();
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(usage.recordExport).toHaveBeenCalledTimes(1);
+      expect(files.share).toHaveBeenCalledWith({
+        name: 'backup-2026-10-19.json',
+        contents: serializeBackup(createBackupArchive(tables, now)),
+        mimeType: 'application/json',
+        uti: 'public.json',
+      });
+    });
+
+    it('should not share when the exports quota is used up', async () => {
+      const { service, files, usage } = createService();
+      usage.checkExport.mockResolvedValue({
+        success: false,
+        error: {
+          code: 'LIMIT_REACHED',
+          message: 'Usage limit reached for exports (1)',
+          metric: 'exports',
+          limit: 1,
+        },
+      });
+
+      const result = await service.exportBackup();
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'LIMIT_REACHED',
+          message: 'Usage limit reached for exports (1)',
+          limit: 1,
+        },
+      });
+      expect(files.share).not.toHaveBeenCalled();
+      expect(usage.recordExport).not.toHaveBeenCalled();
+    });
+
+    it('should not record the export when the tables cannot be read', async () => {
+      const { service, repository, usage } = createService();
+      repository.readTables.mockRejectedValue(new Error('disk I/O error'));
+
+      const result = await service.exportBackup();
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'STORAGE_ERROR',
+          message: 'disk I/O error',
+        }),
+      });
+      expect(usage.recordExport).not.toHaveBeenCalled();
+    });
+
+    it('should report share sheet failures without recording the export', async () => {
+      const { service, files, usage } = createService();
+      files.share.mockRejectedValue(
+        new Error('Sharing is not available on this device')
+      );
+
+      const result = await service.exportBackup();
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'FILE_ERROR',
+          message: 'Sharing is not available on this device',
+        }),
+      });
+      expect(usage.recordExport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('exportTableCsv', () => {
+    it('should record the export and share the table as CSV', async () => {
+      const { service, files, usage } = createService();
+
+      const result = await service.exportTableCsv('items');
+
+      expect(result.success).toBe(true);
+      expect(usage.recordExport).toHaveBeenCalledTimes(1);
+      expect(files.share).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'items-2026-10-19.csv',
+          contents: expect.stringMatching(/^id,title,description,created_at/),
+          mimeType: 'text/csv',
+        })
+      );
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should replace the tables with the chosen archive', async () => {
+      const archive = createBackupArchive(
+        tables,
+        new Date('2026-10-01T00:00:00.000Z')
+      );
+      const { service, repository, files, usage } = createService(
+        serializeBackup(archive)
+      );
+
+      const result = await service.restoreBackup();
+
+      expect(files.pick).toHaveBeenCalledWith(BACKUP_PICKER_TYPES);
+      expect(repository.replaceTables).toHaveBeenCalledWith(tables);
+      expect(usage.notifyChanged).toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        data: {
+          sourceSchemaVersion: archive.schemaVersion,
+          createdAt: new Date('2026-10-01T00:00:00.000Z'),
+          rowCounts: {
+            items: 1,
+            subscription_events: 0,
+          },
+        },
+      });
+    });
+
+    it('should restore archives from older schema versions', async () => {
+      const { service, repository } = createService(
+        JSON.stringify({
+          format: BACKUP_FORMAT,
+          schemaVersion: 1,
+          createdAt: now.toISOString(),
+          tables: { items: tables.items },
+        })
+      );
+
+      const result = await service.restoreBackup();
+
+      expect(result.success && result.data?.sourceSchemaVersion).toBe(1);
+      expect(repository.replaceTables).toHaveBeenCalledWith({
+        ...tables,
+        usage_counters: [],
+      });
+    });
+
+    it('should do nothing when the picker is cancelled', async () => {
+      const { service, repository } = createService(null);
+
+      const result = await service.restoreBackup();
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(repository.replaceTables).not.toHaveBeenCalled();
+    });
+
+    it('should leave the database untouched for invalid files', async () => {
+      const { service, repository, usage } = createService('not a backup');
+
+      const result = await service.restoreBackup();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_BACKUP');
+      }
+      expect(repository.replaceTables).not.toHaveBeenCalled();
+      expect(usage.notifyChanged).not.toHaveBeenCalled();
+    });
+
+    it('should report storage failures', async () => {
+      const { service, repository, usage } = createService(
+        serializeBackup(createBackupArchive(tables, now))
+      );
+      repository.replaceTables.mockRejectedValue(new Error('disk full'));
+
+      const result = await service.restoreBackup();
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'STORAGE_ERROR',
+          message: 'disk full',
+        }),
+      });
+      expect(usage.notifyChanged).not.toHaveBeenCalled();
+    });
+
+    it('should report picker failures', async () => {
+      const { service, files } = createService();
+      files.pick.mockRejectedValue(new Error('Picker failed'));
+
+      const result = await service.restoreBackup();
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({ code: 'FILE_ERROR' }),
+      });
+    });
+  });
+});
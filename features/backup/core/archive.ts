@@ -0,0 +1,324 @@
+/**
+ * Backup Archive Format
+ *
+ * Serialises table rows to a versioned JSON archive (and single tables to
+ * CSV), and parses archives back with validation.
+ *
+ * This module is responsible for:
+ * - Stamping archives with the format marker and database schema version
+ * - Rejecting files that are not backups or come from a newer app version
+ * - Migrating rows from older schema versions to the current one
+ * - Validating every row before it reaches the database
+ *
+ * When a migration is added to drizzle/, bump BACKUP_SCHEMA_VERSION and add
+ * a BACKUP_MIGRATIONS step that brings older rows to the new shape.
+ *
+ * Archives include every table, but a restore only replaces the tables in
+ * RESTORED_TABLE_NAMES. Usage counters, credit balances and credit grants
+ * stay as they are on the device: an archive is plain JSON that anyone can
+ * edit, so restoring them would let a file reset quotas or add credits.
+ *
+ * @module features/backup/core/archive
+ */
+
+import { getTableColumns } from 'drizzle-orm';
+import { z } from 'zod';
+
+import {
+  creditBalances,
+  creditGrants,
+  items,
+  subscriptionEvents,
+  usageCounters,
+} from '@/database/schema';
+import type { Result } from '@/features/subscription/core/types';
+import type {
+  BackupArchive,
+  BackupError,
+  BackupTableName,
+  BackupTables,
+  ParsedBackup,
+  RestoredTableName,
+} from './types';
+
+/**
+ * Format marker written to every archive.
+ */
+export const BACKUP_FORMAT = 'expo-quick-kit-backup';
+
+/**
+ * Current database schema version: the number of migrations in drizzle/.
+ */
+export const BACKUP_SCHEMA_VERSION = 5;
+
+/**
+ * Drizzle table for each backed-up table name.
+ */
+export const BACKUP_TABLES = {
+  items,
+  usage_counters: usageCounters,
+  credit_balances: creditBalances,
+  credit_grants: creditGrants,
+  subscription_events: subscriptionEvents,
+} as const satisfies Record<BackupTableName, unknown>;
+
+/**
+ * Backed-up table names.
+ */
+export const BACKUP_TABLE_NAMES = Object.keys(
+  BACKUP_TABLES
+) as BackupTableName[];
+
+/**
+ * Tables a restore replaces with the archive's rows. The others keep the
+ * device's rows (see the module header).
+ */
+export const RESTORED_TABLE_NAMES = [
+  'items',
+  'subscription_events',
+] as const satisfies readonly RestoredTableName[];
+
+/**
+ * Tables as read from an archive, before validation.
+ */
+type RawTables = Record<string, unknown>;
+
+/**
+ * Add empty row lists for tables created by a migration.
+ */
+function addTables(...names: BackupTableName[]) {
+  return (tables: RawTables): RawTables => ({
+    ...tables,
+    ...Object.fromEntries(names.map((name) => [name, []])),
+  });
+}
+
+/**
+ * Upgrade steps keyed by the schema version they produce.
+ * Step N turns rows of version N - 1 into rows of version N.
+ */
+export const BACKUP_MIGRATIONS: Readonly<
+  Record<number, (tables: RawTables) => RawTables>
+> = {
+  2: addTables('usage_counters'),
+  3: addTables('subscription_events'),
+  4: addTables('credit_balances', 'credit_grants'),
+  // items_fts is derived from items and rebuilt by its triggers on restore
+  5: addTables(),
+};
+
+const timestamp = z.coerce.date();
+
+/**
+ * Row schemas for the current schema version.
+ */
+const backupTablesSchema = z.object({
+  items: z.array(
+    z.object({
+      id: z.number().int().positive(),
+      title: z.string(),
+      description: z.string().nullable(),
+      createdAt: timestamp,
+    })
+  ),
+  usage_counters: z.array(
+    z.object({
+      metric: z.string(),
+      count: z.number().int().nonnegative(),
+      updatedAt: timestamp,
+    })
+  ),
+  credit_balances: z.array(
+    z.object({
+      metric: z.string(),
+      balance: z.number().int().nonnegative(),
+      updatedAt: timestamp,
+    })
+  ),
+  credit_grants: z.array(
+    z.object({
+      transactionId: z.string(),
+      productId: z.string(),
+      metric: z.string(),
+      credits: z.number().int(),
+      grantedAt: timestamp,
+    })
+  ),
+  subscription_events: z.array(
+    z.object({
+      id: z.number().int().positive(),
+      type: z.enum(subscriptionEvents.type.enumValues),
+      fromTier: z.string(),
+      toTier: z.string(),
+      productId: z.string().nullable(),
+      expiresAt: timestamp.nullable(),
+      occurredAt: timestamp,
+    })
+  ),
+}) satisfies z.ZodType<BackupTables, z.ZodTypeDef, unknown>;
+
+/**
+ * Archive envelope; tables are validated after migration.
+ */
+const envelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  schemaVersion: z.number().int().positive(),
+  createdAt: timestamp,
+  tables: z.record(z.unknown()),
+});
+
+/**
+ * Build the INVALID_BACKUP error.
+ */
+function invalidBackup(message: string): BackupError {
+  return { code: 'INVALID_BACKUP', message };
+}
+
+/**
+ * Describe the first validation issue, e.g. "items.0.title: Required".
+ */
+function describeIssue(error: z.ZodError): string {
+  const issue = error.issues[0];
+  if (!issue) {
+    return 'Invalid backup';
+  }
+  return issue.path.length > 0
+    ? `${issue.path.join('.')}: ${issue.message}`
+    : issue.message;
+}
+
+/**
+ * Build an archive of the current schema version.
+ *
+ * @param tables - Rows of every table
+ * @param createdAt - When the backup is taken (default: now)
+ * @returns BackupArchive
+ */
+export function createBackupArchive(
+  tables: BackupTables,
+  createdAt: Date = new Date()
+): BackupArchive {
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt,
+    tables,
+  };
+}
+
+/**
+ * Serialise an archive to JSON. Timestamps are written as ISO strings.
+ *
+ * @param archive - Archive to write
+ * @returns JSON text
+ */
+export function serializeBackup(archive: BackupArchive): string {
+  return JSON.stringify(archive, null, 2);
+}
+
+/**
+ * Parse, migrate and validate an archive.
+ *
+ * @param text - JSON text of a backup file
+ * @returns The archive at the current schema version; INVALID_BACKUP for
+ *   files that are not valid backups, UNSUPPORTED_VERSION for archives
+ *   written by a newer schema
+ *
+ * @example
+ * ```ts
+ * const result = parseBackup(await file.text());
+ * if (result.success) {
+ *   await backupRepository.replaceTables(result.data.tables);
+ * }
+ * ```
+ */
+export function parseBackup(text: string): Result<ParsedBackup, BackupError> {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: invalidBackup('The file is not JSON') };
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    return {
+      success: false,
+      error: invalidBackup(
+        `The file is not a backup (${describeIssue(envelope.error)})`
+      ),
+    };
+  }
+
+  const { schemaVersion, createdAt } = envelope.data;
+  if (schemaVersion > BACKUP_SCHEMA_VERSION) {
+    return {
+      success: false,
+      error: {
+        code: 'UNSUPPORTED_VERSION',
+        message: `The backup was made by a newer version of the app (schema ${schemaVersion})`,
+        schemaVersion,
+      },
+    };
+  }
+
+  let rawTables = envelope.data.tables;
+  for (
+    let version = schemaVersion + 1;
+    version <= BACKUP_SCHEMA_VERSION;
+    version++
+  ) {
+    rawTables = BACKUP_MIGRATIONS[version]?.(rawTables) ?? rawTables;
+  }
+
+  const tables = backupTablesSchema.safeParse(rawTables);
+  if (!tables.success) {
+    return {
+      success: false,
+      error: invalidBackup(
+        `The backup is damaged (${describeIssue(tables.error)})`
+      ),
+    };
+  }
+
+  return {
+    success: true,
+    data: {
+      ...createBackupArchive(tables.data, createdAt),
+      sourceSchemaVersion: schemaVersion,
+    },
+  };
+}
+
+/**
+ * Format a value as a CSV field, quoting it when needed.
+ */
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialise one table to CSV (RFC 4180), with SQL column names as the
+ * header row. CSV files are for spreadsheets; restore reads JSON archives.
+ *
+ * @param tableName - Table the rows belong to
+ * @param rows - Table rows
+ * @returns CSV text
+ */
+export function serializeTableCsv<T extends BackupTableName>(
+  tableName: T,
+  rows: readonly BackupTables[T][number][]
+): string {
+  const columns = Object.entries(getTableColumns(BACKUP_TABLES[tableName]));
+  const header = columns.map(([, column]) => toCsvField(column.name));
+  const lines = rows.map((row) =>
+    columns
+      .map(([key]) => toCsvField((row as Record<string, unknown>)[key]))
+      .join(',')
+  );
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
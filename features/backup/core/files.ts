@@ -0,0 +1,78 @@
+/**
+ * Backup Files
+ *
+ * Moves backup files in and out of the app: writes exports to the cache
+ * directory and hands them to the share sheet, and reads files chosen in
+ * the document picker.
+ *
+ * @module features/backup/core/files
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * A file to hand to the share sheet.
+ */
+export interface ExportFile {
+  /** File name, e.g. "backup-2026-10-19.json" */
+  name: string;
+  /** File contents */
+  contents: string;
+  /** MIME type (Android) */
+  mimeType: string;
+  /** Uniform Type Identifier (iOS) */
+  uti: string;
+}
+
+/**
+ * File access used by the backup service (injectable for testing).
+ * Methods throw when the platform cannot share or read the file.
+ */
+export interface BackupFiles {
+  /**
+   * Write a file and open the share sheet for it.
+   * Resolves once the sheet is dismissed.
+   */
+  share(file: ExportFile): Promise<void>;
+
+  /**
+   * Let the user choose a file and read it.
+   *
+   * @returns File contents, or null if the user cancelled
+   */
+  pick(mimeTypes: string[]): Promise<string | null>;
+}
+
+/**
+ * Backup files on the device: expo-file-system, expo-sharing and
+ * expo-document-picker.
+ */
+export const deviceBackupFiles: BackupFiles = {
+  async share({ name, contents, mimeType, uti }: ExportFile): Promise<void> {
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const file = new File(Paths.cache, name);
+    file.create({ overwrite: true });
+    file.write(contents);
+    await Sharing.shareAsync(file.uri, {
+      mimeType,
+      UTI: uti,
+      dialogTitle: name,
+    });
+  },
+
+  async pick(mimeTypes: string[]): Promise<string | null> {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: mimeTypes,
+      copyToCacheDirectory: true,
+    });
+    if (result.canceled) {
+      return null;
+    }
+    return new File(result.assets[0].uri).text();
+  },
+};
@@ -0,0 +1,53 @@
+/**
+ * Backup Core Module
+ *
+ * Exports domain types, the archive format, the SQLite repository, device
+ * file access and the backup service.
+ *
+ * @module features/backup/core
+ */
+
+// Archive Format
+export {
+  BACKUP_FORMAT,
+  BACKUP_SCHEMA_VERSION,
+  BACKUP_MIGRATIONS,
+  BACKUP_TABLES,
+  BACKUP_TABLE_NAMES,
+  RESTORED_TABLE_NAMES,
+  createBackupArchive,
+  serializeBackup,
+  parseBackup,
+  serializeTableCsv,
+} from './archive';
+
+// Repository
+export { createSqliteBackupRepository, backupRepository } from './repository';
+
+export type { BackupRepository } from './repository';
+
+// Files
+export { deviceBackupFiles } from './files';
+
+export type { BackupFiles, ExportFile } from './files';
+
+// Service
+export {
+  createBackupService,
+  backupService,
+  BACKUP_PICKER_TYPES,
+} from './service';
+
+export type { BackupService, BackupServiceConfig } from './service';
+
+// Domain Types
+export type {
+  BackupTables,
+  BackupTableName,
+  RestoredTableName,
+  BackupArchive,
+  ParsedBackup,
+  RestoreSummary,
+  BackupError,
+  BackupErrorCode,
+} from './types';
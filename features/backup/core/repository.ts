@@ -0,0 +1,111 @@
+/**
+ * Backup Repository
+ *
+ * SQLite access for backups: reads every backed-up table and replaces
+ * the restored ones in one transaction.
+ *
+ * Restored rows are written as they are, so item inserts skip the items
+ * quota (as ItemRepository.create does) and ids and timestamps carry over
+ * from the backup. Usage counters and credits are never written from a
+ * backup; they keep the device's rows.
+ *
+ * @module features/backup/core/repository
+ */
+
+import type { SQLiteTable } from 'drizzle-orm/sqlite-core';
+
+import { db } from '@/database/client';
+import { BACKUP_TABLES, RESTORED_TABLE_NAMES } from './archive';
+import type { BackupTables } from './types';
+
+/**
+ * Backup repository interface.
+ * Methods throw on storage failure; the service maps failures to STORAGE_ERROR.
+ */
+export interface BackupRepository {
+  /**
+   * Read every row of every backed-up table.
+   */
+  readTables(): Promise<BackupTables>;
+
+  /**
+   * Delete every row of each table in RESTORED_TABLE_NAMES and insert the
+   * given rows for it. Rows of the other tables are ignored.
+   * Nothing is written if any insert fails.
+   */
+  replaceTables(tables: BackupTables): Promise<void>;
+}
+
+type Database = typeof db;
+
+/**
+ * Rows per INSERT, well under SQLite's bound parameter limit.
+ */
+const INSERT_CHUNK_SIZE = 100;
+
+function insertRows<T extends SQLiteTable>(
+  database: Database,
+  table: T,
+  rows: readonly T['$inferInsert'][]
+): void {
+  for (let start = 0; start < rows.length; start += INSERT_CHUNK_SIZE) {
+    database
+      .insert(table)
+      .values(rows.slice(start, start + INSERT_CHUNK_SIZE))
+      .run();
+  }
+}
+
+/**
+ * Create a backup repository backed by the app's SQLite database.
+ *
+ * @param database - Drizzle database (defaults to the app database)
+ * @returns BackupRepository
+ */
+export function createSqliteBackupRepository(
+  database: Database = db
+): BackupRepository {
+  return {
+    async readTables(): Promise<BackupTables> {
+      return {
+        items: database.select().from(BACKUP_TABLES.items).all(),
+        usage_counters: database
+          .select()
+          .from(BACKUP_TABLES.usage_counters)
+          .all(),
+        credit_balances: database
+          .select()
+          .from(BACKUP_TABLES.credit_balances)
+          .all(),
+        credit_grants: database
+          .select()
+          .from(BACKUP_TABLES.credit_grants)
+          .all(),
+        subscription_events: database
+          .select()
+          .from(BACKUP_TABLES.subscription_events)
+          .all(),
+      };
+    },
+
+    async replaceTables(tables: BackupTables): Promise<void> {
+      database.transaction((tx) => {
+        RESTORED_TABLE_NAMES.forEach((name) => {
+          tx.delete(BACKUP_TABLES[name]).run();
+        });
+        insertRows(tx, BACKUP_TABLES.items, tables.items);
+        insertRows(
+          tx,
+          BACKUP_TABLES.subscription_events,
+          tables.subscription_events
+        );
+      });
+    },
+  };
+}
+
+/**
+ * Default backup repository using the app database.
+ */
+export const backupRepository: BackupRepository =
+  createSqliteBackupRepository();
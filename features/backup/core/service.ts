@@ -0,0 +1,253 @@
+/**
+ * Backup Service
+ *
+ * Exports the database to a file through the share sheet and restores it
+ * from a file chosen in the document picker.
+ *
+ * This module is responsible for:
+ * - Checking the exports quota before sharing and recording each shared export
+ * - Writing JSON archives (restorable) and per-table CSV files (for spreadsheets)
+ * - Validating and migrating archives before they replace the restored tables
+ * - Telling the usage service that consumption changed after a restore
+ * - Mapping storage and file failures to Result values
+ *
+ * @module features/backup/core/service
+ */
+
+import type { Result } from '@/features/subscription/core/types';
+import { usageService, type UsageService } from '@/features/usage/core/service';
+import type { UsageError } from '@/features/usage/core/types';
+import { formatDate } from '@/lib/date';
+import {
+  createBackupArchive,
+  parseBackup,
+  RESTORED_TABLE_NAMES,
+  serializeBackup,
+  serializeTableCsv,
+} from './archive';
+import { deviceBackupFiles, type BackupFiles, type ExportFile } from './files';
+import { backupRepository, type BackupRepository } from './repository';
+import type {
+  BackupError,
+  BackupTableName,
+  BackupTables,
+  RestoreSummary,
+} from './types';
+
+/**
+ * File types offered by the document picker when restoring.
+ * Some Android file managers report .json files as plain text or binary;
+ * parseBackup rejects anything that is not an archive.
+ */
+export const BACKUP_PICKER_TYPES = [
+  'application/json',
+  'text/plain',
+  'application/octet-stream',
+];
+
+/**
+ * Map a repository failure to a STORAGE_ERROR.
+ */
+function storageError(cause: unknown): BackupError {
+  return {
+    code: 'STORAGE_ERROR',
+    message: cause instanceof Error ? cause.message : 'Backup storage failed',
+    cause,
+  };
+}
+
+/**
+ * Map a share or picker failure to a FILE_ERROR.
+ */
+function fileError(cause: unknown): BackupError {
+  return {
+    code: 'FILE_ERROR',
+    message: cause instanceof Error ? cause.message : 'Backup file failed',
+    cause,
+  };
+}
+
+/**
+ * Map a failed export record to a BackupError.
+ */
+function fromUsageError(error: UsageError): BackupError {
+  if (error.code === 'LIMIT_REACHED') {
+    return {
+      code: 'LIMIT_REACHED',
+      message: error.message,
+      limit: error.limit,
+    };
+  }
+  return {
+    code: 'STORAGE_ERROR',
+    message: error.message,
+    cause: error.code === 'STORAGE_ERROR' ? error.cause : error,
+  };
+}
+
+/**
+ * Backup service configuration.
+ */
+export interface BackupServiceConfig {
+  /** Repository for reading and replacing tables */
+  repository: BackupRepository;
+  /** Share sheet and document picker (defaults to the device's) */
+  files?: BackupFiles;
+  /** Usage service that enforces the exports quota (defaults to the app's usageService) */
+  usage?: Pick<UsageService, 'checkExport' | 'recordExport' | 'notifyChanged'>;
+  /** Clock (injectable for testing) */
+  now?: () => Date;
+}
+
+/**
+ * Backup service interface.
+ */
+export interface BackupService {
+  /**
+   * Export every table to a JSON archive and open the share sheet.
+   * Returns LIMIT_REACHED when the exports quota is used up.
+   */
+  exportBackup(): Promise<Result<void, BackupError>>;
+
+  /**
+   * Export one table to CSV and open the share sheet.
+   * Returns LIMIT_REACHED when the exports quota is used up.
+   */
+  exportTableCsv(
+    tableName: BackupTableName
+  ): Promise<Result<void, BackupError>>;
+
+  /**
+   * Let the user choose an archive and replace every table with its rows.
+   * Returns INVALID_BACKUP or UNSUPPORTED_VERSION for files that cannot be
+   * restored; the database is left untouched in that case.
+   *
+   * @returns What was restored, or null if the user cancelled the picker
+   */
+  restoreBackup(): Promise<Result<RestoreSummary | null, BackupError>>;
+}
+
+/**
+ * Create a backup service.
+ *
+ * @param config - Service configuration
+ * @returns BackupService
+ *
+ * @example
+ * ```ts
+ * const backup = createBackupService({ repository: backupRepository });
+ *
+ * const result = await backup.exportBackup();
+ * if (!result.success && result.error.code === 'LIMIT_REACHED') {
+ *   openPaywall();
+ * }
+ * ```
+ */
+export function createBackupService(
+  config: BackupServiceConfig
+): BackupService {
+  const {
+    repository,
+    files = deviceBackupFiles,
+    usage = usageService,
+    now = () => new Date(),
+  } = config;
+
+  /**
+   * Read the tables, share the file built from them and record the export.
+   */
+  async function exportFile(
+    build: (tables: BackupTables, exportedAt: Date) => ExportFile
+  ): Promise<Result<void, BackupError>> {
+    let tables: BackupTables;
+    try {
+      tables = await repository.readTables();
+    } catch (error) {
+      return { success: false, error: storageError(error) };
+    }
+
+    const allowed = await usage.checkExport();
+    if (!allowed.success) {
+      return { success: false, error: fromUsageError(allowed.error) };
+    }
+
+    try {
+      await files.share(build(tables, now()));
+    } catch (error) {
+      return { success: false, error: fileError(error) };
+    }
+
+    // Record once the sheet resolves; a failed share does not use the quota
+    const recorded = await usage.recordExport();
+    if (!recorded.success) {
+      return { success: false, error: fromUsageError(recorded.error) };
+    }
+    return { success: true, data: undefined };
+  }
+
+  return {
+    async exportBackup(): Promise<Result<void, BackupError>> {
+      return exportFile((tables, exportedAt) => ({
+        name: `backup-${formatDate(exportedAt, 'yyyy-MM-dd')}.json`,
+        contents: serializeBackup(createBackupArchive(tables, exportedAt)),
+        mimeType: 'application/json',
+        uti: 'public.json',
+      }));
+    },
+
+    async exportTableCsv(
+      tableName: BackupTableName
+    ): Promise<Result<void, BackupError>> {
+      return exportFile((tables, exportedAt) => ({
+        name: `${tableName}-${formatDate(exportedAt, 'yyyy-MM-dd')}.csv`,
+        contents: serializeTableCsv(tableName, tables[tableName]),
+        mimeType: 'text/csv',
+        uti: 'public.comma-separated-values-text',
+      }));
+    },
+
+    async restoreBackup(): Promise<Result<RestoreSummary | null, BackupError>> {
+      let text: string | null;
+      try {
+        text = await files.pick(BACKUP_PICKER_TYPES);
+      } catch (error) {
+        return { success: false, error: fileError(error) };
+      }
+      if (text === null) {
+        return { success: true, data: null };
+      }
+
+      const parsed = parseBackup(text);
+      if (!parsed.success) {
+        return parsed;
+      }
+
+      const { tables, createdAt, sourceSchemaVersion } = parsed.data;
+      try {
+        await repository.replaceTables(tables);
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+      usage.notifyChanged();
+
+      return {
+        success: true,
+        data: {
+          sourceSchemaVersion,
+          createdAt,
+          rowCounts: Object.fromEntries(
+            RESTORED_TABLE_NAMES.map((name) => [name, tables[name].length])
+          ) as RestoreSummary['rowCounts'],
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Default backup service using the app database, the device's share sheet
+ * and document picker, and the usage service.
+ */
+export const backupService: BackupService = createBackupService({
+  repository: backupRepository,
+});
@@ -0,0 +1,90 @@
+/**
+ * Backup Domain Types
+ *
+ * Types for backup archives: a versioned snapshot of every SQLite table that
+ * can be restored on another device.
+ *
+ * @module features/backup/core/types
+ */
+
+import type {
+  CreditBalance,
+  CreditGrant,
+  Item,
+  SubscriptionEvent,
+  UsageCounter,
+} from '@/database/schema';
+
+/**
+ * Rows of every table, keyed by SQL table name.
+ */
+export interface BackupTables {
+  items: Item[];
+  usage_counters: UsageCounter[];
+  credit_balances: CreditBalance[];
+  credit_grants: CreditGrant[];
+  subscription_events: SubscriptionEvent[];
+}
+
+/**
+ * SQL name of a table included in backups.
+ */
+export type BackupTableName = keyof BackupTables;
+
+/**
+ * SQL name of a table a restore replaces. Usage counters and credits are
+ * kept from the device.
+ */
+export type RestoredTableName = Extract<
+  BackupTableName,
+  'items' | 'subscription_events'
+>;
+
+/**
+ * A backup archive, as written to a .json file.
+ */
+export interface BackupArchive {
+  /** Marks the file as a backup of this app */
+  format: string;
+  /** Database schema version the rows were read from */
+  schemaVersion: number;
+  /** When the backup was taken */
+  createdAt: Date;
+  /** Table rows */
+  tables: BackupTables;
+}
+
+/**
+ * An archive read from a file, migrated to the current schema version.
+ */
+export interface ParsedBackup extends BackupArchive {
+  /** Schema version the file was written with */
+  sourceSchemaVersion: number;
+}
+
+/**
+ * What a restore wrote.
+ */
+export interface RestoreSummary {
+  /** Schema version the restored file was written with */
+  sourceSchemaVersion: number;
+  /** When the restored backup was taken */
+  createdAt: Date;
+  /** Rows restored per table */
+  rowCounts: Readonly<Record<RestoredTableName, number>>;
+}
+
+/**
+ * Backup error types.
+ */
+export type BackupError =
+  | { code: 'LIMIT_REACHED'; message: string; limit: number }
+  | { code: 'INVALID_BACKUP'; message: string }
+  | { code: 'UNSUPPORTED_VERSION'; message: string; schemaVersion: number }
+  | { code: 'FILE_ERROR'; message: string; cause?: unknown }
+  | { code: 'STORAGE_ERROR'; message: string; cause?: unknown };
+
+/**
+ * Backup error code type for type-safe error handling.
+ */
+export type BackupErrorCode = BackupError['code'];
@@ -0,0 +1,136 @@
+/**
+ * Backup Hook Tests
+ *
+ * Tests for the export and restore mutations: unwrapping service results
+ * into BackupErrors and refreshing cached queries after a restore.
+ *
+ * @module features/backup/hooks/__tests__/use-backup.test
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+import type { BackupService } from '../../core/service';
+import type { BackupTableName, RestoreSummary } from '../../core/types';
+import {
+  useExportBackup,
+  useExportTableCsv,
+  useRestoreBackup,
+} from '../use-backup';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const summary: RestoreSummary = {
+  sourceSchemaVersion: 4,
+  createdAt: new Date('2026-10-01'),
+  rowCounts: {
+    items: 3,
+    subscription_events: 0,
+  },
+};
+
+function createService(): jest.Mocked<BackupService> {
+  return {
+    exportBackup: jest.fn(async () => ({
+      success: true as const,
+      data: undefined,
+    })),
+    exportTableCsv: jest.fn(async (_tableName: BackupTableName) => ({
+      success: true as const,
+      data: undefined,
+    })),
+    restoreBackup: jest.fn(async () => ({
+      success: true as const,
+      data: summary,
+    })),
+  };
+}
+
+describe('Backup Hooks', () => {
+  let client: QueryClient;
+
+  beforeEach(() => {
+    client = new QueryClient({
+      defaultOptions: {
+        queries: { gcTime: Infinity },
+        mutations: { gcTime: Infinity },
+      },
+    });
+  });
+
+  afterEach(() => {
+    client.clear();
+  });
+
+  describe('useExportBackup', () => {
+    it('should export through the service', async () => {
+      const service = createService();
+      const { result } = renderHook(() => useExportBackup(service, client));
+
+      await act(() => result.current.mutateAsync());
+
+      expect(service.exportBackup).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail with the BackupError', async () => {
+      const service = createService();
+      service.exportBackup.mockResolvedValue({
+        success: false,
+        error: {
+          code: 'LIMIT_REACHED',
+          message: 'Usage limit reached for exports (1)',
+          limit: 1,
+        },
+      });
+      const { result } = renderHook(() => useExportBackup(service, client));
+
+      await act(async () => {
+        await expect(result.current.mutateAsync()).rejects.toMatchObject({
+          code: 'LIMIT_REACHED',
+        });
+      });
+
+      await waitFor(() =>
+        expect(result.current.error?.code).toBe('LIMIT_REACHED')
+      );
+    });
+  });
+
+  describe('useExportTableCsv', () => {
+    it('should export the table through the service', async () => {
+      const service = createService();
+      const { result } = renderHook(() => useExportTableCsv(service, client));
+
+      await act(() => result.current.mutateAsync('items'));
+
+      expect(service.exportTableCsv).toHaveBeenCalledWith('items');
+    });
+  });
+
+  describe('useRestoreBackup', () => {
+    it('should invalidate every query after a restore', async () => {
+      const service = createService();
+      const invalidateQueries = jest.spyOn(client, 'invalidateQueries');
+      const { result } = renderHook(() => useRestoreBackup(service, client));
+
+      let restored: RestoreSummary | null = null;
+      await act(async () => {
+        restored = await result.current.mutateAsync();
+      });
+
+      expect(restored).toEqual(summary);
+      expect(invalidateQueries).toHaveBeenCalledWith();
+    });
+
+    it('should leave queries alone when the picker is cancelled', async () => {
+      const service = createService();
+      service.restoreBackup.mockResolvedValue({ success: true, data: null });
+      const invalidateQueries = jest.spyOn(client, 'invalidateQueries');
+      const { result } = renderHook(() => useRestoreBackup(service, client));
+
+      await act(() => result.current.mutateAsync());
+
+      expect(invalidateQueries).not.toHaveBeenCalled();
+    });
+  });
+});
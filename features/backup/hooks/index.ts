@@ -0,0 +1,13 @@
+/**
+ * Backup Hooks Module
+ *
+ * Exports TanStack Query mutations for exporting and restoring backups.
+ *
+ * @module features/backup/hooks
+ */
+
+export {
+  useExportBackup,
+  useExportTableCsv,
+  useRestoreBackup,
+} from './use-backup';
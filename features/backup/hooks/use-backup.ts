@@ -0,0 +1,116 @@
+/**
+ * Backup Mutation Hooks
+ *
+ * TanStack Query mutations over the backup service, on the app's shared
+ * queryClient.
+ *
+ * A restore replaces every table, so it invalidates every cached query once
+ * it succeeds. Exports and restores open system UI (share sheet, document
+ * picker), so these mutations do not retry.
+ *
+ * @module features/backup/hooks/use-backup
+ */
+
+import {
+  useMutation,
+  type QueryClient,
+  type UseMutationResult,
+} from '@tanstack/react-query';
+
+import type { Result } from '@/features/subscription/core/types';
+import { queryClient } from '@/lib/query-client';
+import { backupService, type BackupService } from '../core/service';
+import type {
+  BackupError,
+  BackupTableName,
+  RestoreSummary,
+} from '../core/types';
+
+/**
+ * Resolve a service result, or throw its BackupError for TanStack Query.
+ */
+async function unwrap<T>(result: Promise<Result<T, BackupError>>): Promise<T> {
+  const resolved = await result;
+  if (!resolved.success) {
+    throw resolved.error;
+  }
+  return resolved.data;
+}
+
+/**
+ * Export every table to a JSON archive and open the share sheet.
+ *
+ * @param service - Backup service (defaults to the app's backupService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation; fails with LIMIT_REACHED when the exports quota is used up
+ *
+ * @example
+ * ```tsx
+ * const exportBackup = useExportBackup();
+ *
+ * try {
+ *   await exportBackup.mutateAsync();
+ * } catch (error) {
+ *   if ((error as BackupError).code === 'LIMIT_REACHED') {
+ *     await presentPaywall('export_limit');
+ *   }
+ * }
+ * ```
+ */
+export function useExportBackup(
+  service: BackupService = backupService,
+  client: QueryClient = queryClient
+): UseMutationResult<void, BackupError, void> {
+  return useMutation<void, BackupError, void>(
+    {
+      mutationFn: () => unwrap(service.exportBackup()),
+      retry: false,
+    },
+    client
+  );
+}
+
+/**
+ * Export one table to CSV and open the share sheet.
+ *
+ * @param service - Backup service (defaults to the app's backupService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation taking the table name
+ */
+export function useExportTableCsv(
+  service: BackupService = backupService,
+  client: QueryClient = queryClient
+): UseMutationResult<void, BackupError, BackupTableName> {
+  return useMutation<void, BackupError, BackupTableName>(
+    {
+      mutationFn: (tableName) => unwrap(service.exportTableCsv(tableName)),
+      retry: false,
+    },
+    client
+  );
+}
+
+/**
+ * Let the user choose an archive and replace the database with it.
+ *
+ * @param service - Backup service (defaults to the app's backupService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation resolving to what was restored, or null if cancelled
+ */
+export function useRestoreBackup(
+  service: BackupService = backupService,
+  client: QueryClient = queryClient
+): UseMutationResult<RestoreSummary | null, BackupError, void> {
+  return useMutation<RestoreSummary | null, BackupError, void>(
+    {
+      mutationFn: () => unwrap(service.restoreBackup()),
+      retry: false,
+      onSuccess: (summary) => {
+        if (summary) {
+          return client.invalidateQueries();
+        }
+      },
+    },
+    client
+  );
+}
@@ -0,0 +1,31 @@
+/**
+ * Backup Feature Module
+ *
+ * Exports the SQLite database to a versioned JSON archive (or one table to
+ * CSV) through the share sheet, and restores archives chosen in the
+ * document picker, migrating them to the current schema. Exports count
+ * against the exports quota.
+ *
+ * @module features/backup
+ */
+
+// Core exports
+export {
+  createBackupService,
+  backupService,
+  parseBackup,
+  BACKUP_SCHEMA_VERSION,
+} from './core';
+
+export type {
+  BackupService,
+  BackupTables,
+  BackupTableName,
+  BackupArchive,
+  RestoreSummary,
+  BackupError,
+  BackupErrorCode,
+} from './core';
+
+// Hook exports
+export { useExportBackup, useExportTableCsv, useRestoreBackup } from './hooks';
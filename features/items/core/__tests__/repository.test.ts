@@ -0,0 +1,203 @@
+/**
+ * Item Repository Tests
+ *
+ * Runs the SQLite repository against a fake expo-sqlite client to verify the
+ * statements it issues and how it maps rows and missing rows.
+ *
+ * @module features/items/core/__tests__/repository.test
+ */
+
+import { drizzle } from 'drizzle-orm/expo-sqlite';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import * as schema from '@/database/schema';
+import { createSqliteItemRepository } from '../repository';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+/**
+ * Raw items row in column order.
+ */
+const groceriesRow = [1, 'Groceries', 'Milk, eggs', 1767225600];
+
+/**
+ * Fake expo-sqlite client serving stored item rows.
+ *
+ * @param rows - Rows returned by selects, inserts and updates
+ * @param changes - Rows affected by deletes
+ */
+function createFakeClient(rows: unknown[][], changes = 1) {
+  const statements: { sql: string; params: unknown[] }[] = [];
+
+  const client = {
+    prepareSync: jest.fn((sql: string) => ({
+      executeSync: jest.fn((params: unknown[]) => {
+        statements.push({ sql, params });
+        return {
+          changes,
+          lastInsertRowId: 1,
+          getAllSync: () => [],
+          getFirstSync: () => null,
+        };
+      }),
+      executeForRawResultSync: jest.fn((params: unknown[]) => {
+        statements.push({ sql, params });
+        return { getAllSync: () => rows };
+      }),
+      finalizeSync: jest.fn(),
+    })),
+  };
+
+  const database = drizzle(client as unknown as SQLiteDatabase, { schema });
+  return { database, statements };
+}
+
+describe('Item Repository', () => {
+  describe('list', () => {
+    it('should read items newest first', async () => {
+      const { database, statements } = createFakeClient([groceriesRow]);
+      const repository = createSqliteItemRepository(database);
+
+      const items = await repository.list();
+
+      expect(items).toEqual([
+        {
+          id: 1,
+          title: 'Groceries',
+          description: 'Milk, eggs',
+          createdAt: new Date(1767225600 * 1000),
+        },
+      ]);
+      expect(statements[0].sql).toContain(
+        'order by "items"."created_at" desc, "items"."id" desc'
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('should read the item with the id', async () => {
+      const { database, statements } = createFakeClient([groceriesRow]);
+      const repository = createSqliteItemRepository(database);
+
+      const item = await repository.get(1);
+
+      expect(item?.title).toBe('Groceries');
+      expect(statements[0].params).toContain(1);
+    });
+
+    it('should return null when no item has the id', async () => {
+      const { database } = createFakeClient([]);
+      const repository = createSqliteItemRepository(database);
+
+      expect(await repository.get(99)).toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('should insert the item and return the stored row', async () => {
+      const { database, statements } = createFakeClient([groceriesRow]);
+      const repository = createSqliteItemRepository(database);
+
+      const item = await repository.create({
+        title: 'Groceries',
+        description: 'Milk, eggs',
+      });
+
+      expect(item.id).toBe(1);
+      expect(statements[0].sql).toMatch(/^insert into "items"/);
+      expect(statements[0].params).toEqual(
+        expect.arrayContaining(['Groceries', 'Milk, eggs'])
+      );
+    });
+  });
+
+  describe('update', () => {
+    it('should set only the changed fields', async () => {
+      const { database, statements } = createFakeClient([
+        [1, 'Errands', 'Milk, eggs', 1767225600],
+      ]);
+      const repository = createSqliteItemRepository(database);
+
+      const item = await repository.update(1, { title: 'Errands' });
+
+      expect(item?.title).toBe('Errands');
+      expect(statements[0].sql).toMatch(
+        /^update "items" set "title" = \? where "items"\."id" = \?/
+      );
+      expect(statements[0].params).toEqual(['Errands', 1]);
+    });
+
+    it('should return null when no item has the id', async () => {
+      const { database } = createFakeClient([]);
+      const repository = createSqliteItemRepository(database);
+
+      expect(await repository.update(99, { title: 'Errands' })).toBeNull();
+    });
+  });
+
+  describe('delete', () => {
+    it('should report whether a row was deleted', async () => {
+      const deleted = createFakeClient([], 1);
+      const missing = createFakeClient([], 0);
+
+      expect(await createSqliteItemRepository(deleted.database).delete(1)).toBe(
+        true
+      );
+      expect(
+        await createSqliteItemRepository(missing.database).delete(99)
+      ).toBe(false);
+      expect(deleted.statements[0].sql).toMatch(
+        /^delete from "items" where "items"\."id" = \?/
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('should match items_fts and rank by bm25', async () => {
+      const { database, statements } = createFakeClient([
+        [...groceriesRow, '\u0002Groceries\u0003', 'Milk, eggs'],
+      ]);
+      const repository = createSqliteItemRepository(database);
+
+      const results = await repository.search('"groc"*', {
+        limit: 20,
+        offset: 40,
+      });
+
+      expect(results).toEqual([
+        {
+          item: {
+            id: 1,
+            title: 'Groceries',
+            description: 'Milk, eggs',
+            createdAt: new Date(1767225600 * 1000),
+          },
+          title: [{ text: 'Groceries', match: true }],
+          description: [{ text: 'Milk, eggs', match: false }],
+        },
+      ]);
+      expect(statements[0].sql).toContain(
+        'inner join items_fts on items_fts.rowid = "items"."id"'
+      );
+      expect(statements[0].sql).toContain('where items_fts MATCH ?');
+      expect(statements[0].sql).toContain('order by bm25(items_fts, ?, ?)');
+      expect(statements[0].params).toEqual(
+        expect.arrayContaining(['"groc"*', 20, 40])
+      );
+    });
+
+    it('should return a null description snippet for items without one', async () => {
+      const { database } = createFakeClient([
+        [2, 'Errands', null, 1767225600, '\u0002Errands\u0003', null],
+      ]);
+      const repository = createSqliteItemRepository(database);
+
+      const [result] = await repository.search('"err"*', {
+        limit: 20,
+        offset: 0,
+      });
+
+      expect(result.description).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Item Search Tests
+ *
+ * Tests for turning user input into FTS5 queries and FTS5 snippets into
+ * highlighted segments.
+ *
+ * @module features/items/core/__tests__/search.test
+ */
+
+import {
+  buildMatchQuery,
+  parseSnippet,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+} from '../search';
+
+describe('Item Search', () => {
+  describe('buildMatchQuery', () => {
+    it('should match every word as a prefix', () => {
+      expect(buildMatchQuery('milk gro')).toBe('"milk"* "gro"*');
+    });
+
+    it('should ignore extra whitespace', () => {
+      expect(buildMatchQuery('  milk \n gro  ')).toBe('"milk"* "gro"*');
+    });
+
+    it('should search FTS5 syntax as text', () => {
+      expect(buildMatchQuery('title:"milk" OR -eggs*')).toBe(
+        '"title:milk"* "OR"* "-eggs*"*'
+      );
+    });
+
+    it('should return null for input without words', () => {
+      expect(buildMatchQuery('')).toBeNull();
+      expect(buildMatchQuery('   ')).toBeNull();
+      expect(buildMatchQuery('"" "')).toBeNull();
+    });
+  });
+
+  describe('parseSnippet', () => {
+    const mark = (text: string) =>
+      `${SNIPPET_MATCH_START}${text}${SNIPPET_MATCH_END}`;
+
+    it('should split the text around matches', () => {
+      expect(
+        parseSnippet(`buy ${mark('groceries')} at the ${mark('market')}`)
+      ).toEqual([
+        { text: 'buy ', match: false },
+        { text: 'groceries', match: true },
+        { text: ' at the ', match: false },
+        { text: 'market', match: true },
+      ]);
+    });
+
+    it('should return text without matches as one segment', () => {
+      expect(parseSnippet('…milk and eggs…')).toEqual([
+        { text: '…milk and eggs…', match: false },
+      ]);
+    });
+
+    it('should return no segments for empty text', () => {
+      expect(parseSnippet('')).toEqual([]);
+    });
+  });
+});
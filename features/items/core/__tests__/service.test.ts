@@ -0,0 +1,365 @@
+/**
+ * Item Service Tests
+ *
+ * Tests for input validation, creating items through the usage service,
+ * NOT_FOUND handling and mapping storage failures.
+ *
+ * @module features/items/core/__tests__/service.test
+ */
+
+import type { Item } from '@/database/schema';
+import type { UsageService } from '@/features/usage/core/service';
+import type { ItemRepository } from '../repository';
+import { ITEM_SEARCH_DEFAULT_LIMIT, ITEM_SEARCH_MAX_LIMIT } from '../search';
+import { createItemService } from '../service';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const groceries: Item = {
+  id: 1,
+  title: 'Groceries',
+  description: 'Milk, eggs',
+  createdAt: new Date('2026-01-01'),
+};
+
+function createRepository(initial: Item[] = [groceries]) {
+  const rows = initial.map((item) => ({ ...item }));
+
+  const repository: jest.Mocked<ItemRepository> = {
+    list: jest.fn(async () => [...rows]),
+    get: jest.fn(async (id) => rows.find((item) => item.id === id) ?? null),
+    create: jest.fn(),
+    update: jest.fn(async (id, changes) => {
+      const item = rows.find((row) => row.id === id);
+      if (!item) {
+        return null;
+      }
+      Object.assign(item, changes);
+      return { ...item };
+    }),
+    delete: jest.fn(async (id) => {
+      const index = rows.findIndex((item) => item.id === id);
+      if (index < 0) {
+        return false;
+      }
+      rows.splice(index, 1);
+      return true;
+    }),
+    search: jest.fn(async (_match, _page) => [
+      {
+        item: rows[0],
+        title: [{ text: rows[0].title, match: true }],
+        description: null,
+      },
+    ]),
+  };
+  return repository;
+}
+
+function createUsage(): jest.Mocked<
+  Pick<UsageService, 'insertItem' | 'notifyChanged'>
+> {
+  return {
+    insertItem: jest.fn(async (values) => ({
+      success: true as const,
+      data: {
+        id: 2,
+        title: values.title,
+        description: values.description ?? null,
+        createdAt: new Date('2026-01-02'),
+      },
+    })),
+    notifyChanged: jest.fn(),
+  };
+}
+
+describe('Item Service', () => {
+  describe('list', () => {
+    it('should return every item', async () => {
+      const service = createItemService({
+        repository: createRepository(),
+        usage: createUsage(),
+      });
+
+      expect(await service.list()).toEqual({
+        success: true,
+        data: [groceries],
+      });
+    });
+
+    it('should map storage failures to STORAGE_ERROR', async () => {
+      const repository = createRepository();
+      const cause = new Error('disk I/O error');
+      repository.list.mockRejectedValue(cause);
+      const service = createItemService({ repository, usage: createUsage() });
+
+      expect(await service.list()).toEqual({
+        success: false,
+        error: { code: 'STORAGE_ERROR', message: 'disk I/O error', cause },
+      });
+    });
+  });
+
+  describe('get', () => {
+    it('should return the item', async () => {
+      const service = createItemService({
+        repository: createRepository(),
+        usage: createUsage(),
+      });
+
+      expect(await service.get(1)).toEqual({ success: true, data: groceries });
+    });
+
+    it('should fail with NOT_FOUND for an unknown id', async () => {
+      const service = createItemService({
+        repository: createRepository(),
+        usage: createUsage(),
+      });
+
+      const result = await service.get(99);
+
+      expect(!result.success && result.error).toEqual({
+        code: 'NOT_FOUND',
+        message: 'Item 99 not found',
+        id: 99,
+      });
+    });
+  });
+
+  describe('create', () => {
+    it('should insert trimmed input through the usage service', async () => {
+      const repository = createRepository();
+      const usage = createUsage();
+      const service = createItemService({ repository, usage });
+
+      const result = await service.create({
+        title: '  Errands ',
+        description: '   ',
+      });
+
+      expect(result.success && result.data.id).toBe(2);
+      expect(usage.insertItem).toHaveBeenCalledWith({
+        title: 'Errands',
+        description: null,
+      });
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail with INVALID_INPUT for an empty title', async () => {
+      const usage = createUsage();
+      const service = createItemService({
+        repository: createRepository(),
+        usage,
+      });
+
+      const result = await service.create({ title: '   ' });
+
+      expect(!result.success && result.error).toEqual({
+        code: 'INVALID_INPUT',
+        message: 'Please enter a title',
+      });
+      expect(usage.insertItem).not.toHaveBeenCalled();
+    });
+
+    it('should fail with LIMIT_REACHED when the items quota is used up', async () => {
+      const usage = createUsage();
+      usage.insertItem.mockResolvedValue({
+        success: false,
+        error: {
+          code: 'LIMIT_REACHED',
+          message: 'Usage limit reached for items (10)',
+          metric: 'items',
+          limit: 10,
+        },
+      });
+      const service = createItemService({
+        repository: createRepository(),
+        usage,
+      });
+
+      const result = await service.create({ title: 'Errands' });
+
+      expect(!result.success && result.error).toEqual({
+        code: 'LIMIT_REACHED',
+        message: 'Usage limit reached for items (10)',
+        limit: 10,
+      });
+    });
+
+    it('should map usage storage failures to STORAGE_ERROR', async () => {
+      const usage = createUsage();
+      const cause = new Error('database is locked');
+      usage.insertItem.mockResolvedValue({
+        success: false,
+        error: { code: 'STORAGE_ERROR', message: 'database is locked', cause },
+      });
+      const service = createItemService({
+        repository: createRepository(),
+        usage,
+      });
+
+      const result = await service.create({ title: 'Errands' });
+
+      expect(!result.success && result.error).toEqual({
+        code: 'STORAGE_ERROR',
+        message: 'database is locked',
+        cause,
+      });
+    });
+  });
+
+  describe('update', () => {
+    it('should apply only the given fields', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.update(1, { title: ' Errands ' });
+
+      expect(result.success && result.data).toEqual({
+        ...groceries,
+        title: 'Errands',
+      });
+      expect(repository.update).toHaveBeenCalledWith(1, { title: 'Errands' });
+    });
+
+    it('should clear the description when it is emptied', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      await service.update(1, { description: '' });
+
+      expect(repository.update).toHaveBeenCalledWith(1, { description: null });
+    });
+
+    it('should read the item without writing when nothing changes', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.update(1, {});
+
+      expect(result).toEqual({ success: true, data: groceries });
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail with INVALID_INPUT for an empty title', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.update(1, { title: '' });
+
+      expect(!result.success && result.error.code).toBe('INVALID_INPUT');
+      expect(repository.update).not.toHaveBeenCalled();
+    });
+
+    it('should fail with NOT_FOUND for an unknown id', async () => {
+      const service = createItemService({
+        repository: createRepository(),
+        usage: createUsage(),
+      });
+
+      const result = await service.update(99, { title: 'Errands' });
+
+      expect(!result.success && result.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the item and notify the usage service', async () => {
+      const usage = createUsage();
+      const service = createItemService({
+        repository: createRepository(),
+        usage,
+      });
+
+      expect(await service.delete(1)).toEqual({
+        success: true,
+        data: undefined,
+      });
+      expect(usage.notifyChanged).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fail with NOT_FOUND without notifying for an unknown id', async () => {
+      const usage = createUsage();
+      const service = createItemService({
+        repository: createRepository(),
+        usage,
+      });
+
+      const result = await service.delete(99);
+
+      expect(!result.success && result.error.code).toBe('NOT_FOUND');
+      expect(usage.notifyChanged).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchItems', () => {
+    it('should search with a prefix query and the default page', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.searchItems('  milk  gro ');
+
+      expect(result.success && result.data[0].item).toEqual(groceries);
+      expect(repository.search).toHaveBeenCalledWith('"milk"* "gro"*', {
+        limit: ITEM_SEARCH_DEFAULT_LIMIT,
+        offset: 0,
+      });
+    });
+
+    it('should pass the page through', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      await service.searchItems('milk', { limit: 10, offset: 30 });
+
+      expect(repository.search).toHaveBeenCalledWith('"milk"*', {
+        limit: 10,
+        offset: 30,
+      });
+    });
+
+    it('should return no results for a query without words', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      expect(await service.searchItems('  "" ')).toEqual({
+        success: true,
+        data: [],
+      });
+      expect(repository.search).not.toHaveBeenCalled();
+    });
+
+    it('should fail with INVALID_INPUT for a limit out of range', async () => {
+      const repository = createRepository();
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.searchItems('milk', {
+        limit: ITEM_SEARCH_MAX_LIMIT + 1,
+      });
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'INVALID_INPUT',
+          message: `Limit must be at most ${ITEM_SEARCH_MAX_LIMIT}`,
+        },
+      });
+      expect(repository.search).not.toHaveBeenCalled();
+    });
+
+    it('should map storage failures', async () => {
+      const repository = createRepository();
+      repository.search.mockRejectedValue(
+        new Error('no such table: items_fts')
+      );
+      const service = createItemService({ repository, usage: createUsage() });
+
+      const result = await service.searchItems('milk');
+
+      expect(!result.success && result.error).toMatchObject({
+        code: 'STORAGE_ERROR',
+        message: 'no such table: items_fts',
+      });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Items Core Module
+ *
+ * Exports domain types, the SQLite repository, query keys, search helpers
+ * and the item service.
+ *
+ * @module features/items/core
+ */
+
+// Repository
+export { createSqliteItemRepository, itemRepository } from './repository';
+
+export type { ItemRepository } from './repository';
+
+// Query Keys
+export { itemKeys } from './query-keys';
+
+// Service
+export {
+  createItemService,
+  itemService,
+  itemInputSchema,
+  itemChangesSchema,
+  itemSearchOptionsSchema,
+  ITEM_TITLE_MAX_LENGTH,
+} from './service';
+
+// Search
+export {
+  buildMatchQuery,
+  parseSnippet,
+  ITEM_SEARCH_DEFAULT_LIMIT,
+  ITEM_SEARCH_MAX_LIMIT,
+} from './search';
+
+export type { ItemService, ItemServiceConfig } from './service';
+
+// Domain Types
+export type {
+  ItemInput,
+  ItemChanges,
+  ItemError,
+  ItemErrorCode,
+  ItemSearchOptions,
+  ItemSearchResult,
+  SnippetSegment,
+} from './types';
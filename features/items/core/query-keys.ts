@@ -0,0 +1,19 @@
+/**
+ * Item Query Keys
+ *
+ * TanStack Query keys for item data. Invalidating `itemKeys.all` refetches
+ * every item query; `itemKeys.lists()` only the lists and
+ * `itemKeys.searches()` only search results.
+ *
+ * @module features/items/core/query-keys
+ */
+
+export const itemKeys = {
+  all: ['items'] as const,
+  lists: () => [...itemKeys.all, 'list'] as const,
+  details: () => [...itemKeys.all, 'detail'] as const,
+  detail: (id: number) => [...itemKeys.details(), id] as const,
+  searches: () => [...itemKeys.all, 'search'] as const,
+  search: (query: string, limit: number, offset: number) =>
+    [...itemKeys.searches(), { query, limit, offset }] as const,
+};
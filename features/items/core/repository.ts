@@ -0,0 +1,162 @@
+/**
+ * Item Repository
+ *
+ * SQLite access for the items table.
+ *
+ * create inserts without checking the items quota; items created by the
+ * user go through ItemService.create, which inserts via the usage service.
+ *
+ * search reads the items_fts full-text index, which triggers keep in sync
+ * with the items table.
+ *
+ * @module features/items/core/repository
+ */
+
+import { desc, eq, sql } from 'drizzle-orm';
+
+import { db } from '@/database/client';
+import { items, type Item, type NewItem } from '@/database/schema';
+import { parseSnippet, SNIPPET_MATCH_END, SNIPPET_MATCH_START } from './search';
+import type { ItemSearchResult } from './types';
+
+/**
+ * Words of context shown around the matches in a description snippet.
+ */
+const SNIPPET_TOKENS = 12;
+
+/**
+ * bm25 weights for the title and description columns: a match in the
+ * title ranks above the same match in the description.
+ */
+const TITLE_WEIGHT = 10;
+const DESCRIPTION_WEIGHT = 1;
+
+/**
+ * Item repository interface.
+ * Methods throw on storage failure; the service maps failures to STORAGE_ERROR.
+ */
+export interface ItemRepository {
+  /**
+   * Read every item, newest first.
+   */
+  list(): Promise<Item[]>;
+
+  /**
+   * Read an item by id.
+   */
+  get(id: number): Promise<Item | null>;
+
+  /**
+   * Insert an item.
+   */
+  create(values: NewItem): Promise<Item>;
+
+  /**
+   * Update an item's title and description.
+   *
+   * @returns The updated item, or null if no item has this id
+   */
+  update(
+    id: number,
+    changes: Partial<Pick<NewItem, 'title' | 'description'>>
+  ): Promise<Item | null>;
+
+  /**
+   * Delete an item.
+   *
+   * @returns Whether an item was deleted
+   */
+  delete(id: number): Promise<boolean>;
+
+  /**
+   * Read the items matching a full-text query, best match first.
+   *
+   * @param match - FTS5 query (see buildMatchQuery)
+   * @param page - Number of results and results to skip
+   */
+  search(
+    match: string,
+    page: { limit: number; offset: number }
+  ): Promise<ItemSearchResult[]>;
+}
+
+type Database = typeof db;
+
+/**
+ * Create an item repository backed by the app's SQLite database.
+ *
+ * @param database - Drizzle database (defaults to the app database)
+ * @returns ItemRepository
+ */
+export function createSqliteItemRepository(
+  database: Database = db
+): ItemRepository {
+  return {
+    async list(): Promise<Item[]> {
+      return database
+        .select()
+        .from(items)
+        .orderBy(desc(items.createdAt), desc(items.id))
+        .all();
+    },
+
+    async get(id: number): Promise<Item | null> {
+      return (
+        database.select().from(items).where(eq(items.id, id)).get() ?? null
+      );
+    },
+
+    async create(values: NewItem): Promise<Item> {
+      return database.insert(items).values(values).returning().get();
+    },
+
+    async update(id, changes): Promise<Item | null> {
+      return (
+        database
+          .update(items)
+          .set(changes)
+          .where(eq(items.id, id))
+          .returning()
+          .get() ?? null
+      );
+    },
+
+    async delete(id: number): Promise<boolean> {
+      const result = database.delete(items).where(eq(items.id, id)).run();
+      return result.changes > 0;
+    },
+
+    async search(match, { limit, offset }): Promise<ItemSearchResult[]> {
+      const rows = database
+        .select({
+          item: items,
+          title: sql<string>`highlight(items_fts, 0, ${SNIPPET_MATCH_START}, ${SNIPPET_MATCH_END})`,
+          description: sql<
+            string | null
+          >`snippet(items_fts, 1, ${SNIPPET_MATCH_START}, ${SNIPPET_MATCH_END}, '…', ${SNIPPET_TOKENS})`,
+        })
+        .from(items)
+        .innerJoin(sql`items_fts`, sql`items_fts.rowid = ${items.id}`)
+        .where(sql`items_fts MATCH ${match}`)
+        .orderBy(
+          sql`bm25(items_fts, ${TITLE_WEIGHT}, ${DESCRIPTION_WEIGHT})`,
+          desc(items.id)
+        )
+        .limit(limit)
+        .offset(offset)
+        .all();
+
+      return rows.map((row) => ({
+        item: row.item,
+        title: parseSnippet(row.title),
+        description:
+          row.description === null ? null : parseSnippet(row.description),
+      }));
+    },
+  };
+}
+
+/**
+ * Default item repository using the app database.
+ */
+export const itemRepository: ItemRepository = createSqliteItemRepository();
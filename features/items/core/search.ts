@@ -0,0 +1,74 @@
+/**
+ * Item Search
+ *
+ * Turns what the user typed into an FTS5 query over items_fts, and the
+ * marked-up snippets FTS5 returns into highlighted segments.
+ *
+ * items_fts is kept in sync with items by the triggers in
+ * drizzle/0004_items_fts.sql.
+ *
+ * @module features/items/core/search
+ */
+
+import type { SnippetSegment } from './types';
+
+/**
+ * Results per page when no limit is given.
+ */
+export const ITEM_SEARCH_DEFAULT_LIMIT = 20;
+
+/**
+ * Largest page searchItems returns.
+ */
+export const ITEM_SEARCH_MAX_LIMIT = 100;
+
+/**
+ * Marks the start of a match in highlight() and snippet() output.
+ * Control characters, so they cannot clash with text the user typed.
+ */
+export const SNIPPET_MATCH_START = '\u0002';
+
+/**
+ * Marks the end of a match in highlight() and snippet() output.
+ */
+export const SNIPPET_MATCH_END = '\u0003';
+
+/**
+ * Build an FTS5 query from user input: every word must match, as a prefix
+ * so results appear while the user is still typing ("gro" finds
+ * "Groceries"). Words are quoted, so FTS5 operators and punctuation in the
+ * input are searched for as text rather than parsed.
+ *
+ * @param query - What the user typed
+ * @returns The FTS5 query, or null if the input has no words
+ */
+export function buildMatchQuery(query: string): string | null {
+  const words = query
+    .split(/\s+/)
+    .map((word) => word.replace(/"/g, ''))
+    .filter((word) => word.length > 0);
+  if (words.length === 0) {
+    return null;
+  }
+  return words.map((word) => `"${word}"*`).join(' ');
+}
+
+/**
+ * Split highlight() or snippet() output into plain and matching segments.
+ *
+ * @param marked - Text with matches wrapped in the snippet markers
+ * @returns Segments in order, without empty ones
+ */
+export function parseSnippet(marked: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  for (const part of marked.split(SNIPPET_MATCH_START)) {
+    const end = part.indexOf(SNIPPET_MATCH_END);
+    if (end === -1) {
+      segments.push({ text: part, match: false });
+    } else {
+      segments.push({ text: part.slice(0, end), match: true });
+      segments.push({ text: part.slice(end + 1), match: false });
+    }
+  }
+  return segments.filter((segment) => segment.text.length > 0);
+}
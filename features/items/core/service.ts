@@ -0,0 +1,313 @@
+/**
+ * Item Service
+ *
+ * CRUD over the items table for screens and query hooks.
+ *
+ * This module is responsible for:
+ * - Validating titles and descriptions before they are stored
+ * - Creating items through the usage service, so the items quota applies
+ * - Telling the usage service when items are deleted
+ * - Full-text search with ranked, highlighted results
+ * - Mapping storage failures to Result values
+ *
+ * @module features/items/core/service
+ */
+
+import { z } from 'zod';
+
+import type { Item } from '@/database/schema';
+import type { Result } from '@/features/subscription/core/types';
+import { usageService, type UsageService } from '@/features/usage/core/service';
+import type { UsageError } from '@/features/usage/core/types';
+import { itemRepository, type ItemRepository } from './repository';
+import {
+  buildMatchQuery,
+  ITEM_SEARCH_DEFAULT_LIMIT,
+  ITEM_SEARCH_MAX_LIMIT,
+} from './search';
+import type {
+  ItemChanges,
+  ItemError,
+  ItemInput,
+  ItemSearchOptions,
+  ItemSearchResult,
+} from './types';
+
+/**
+ * Maximum title length accepted by create and update.
+ */
+export const ITEM_TITLE_MAX_LENGTH = 200;
+
+/**
+ * Schema for new items: trims the title and stores empty descriptions as null.
+ */
+export const itemInputSchema = z.object({
+  title: z
+    .string()
+    .trim()
+    .min(1, { message: 'Please enter a title' })
+    .max(ITEM_TITLE_MAX_LENGTH, {
+      message: `Title must be at most ${ITEM_TITLE_MAX_LENGTH} characters`,
+    }),
+  description: z
+    .string()
+    .trim()
+    .nullish()
+    .transform((value) => value || null),
+});
+
+/**
+ * Schema for updates: same rules, every field optional.
+ */
+export const itemChangesSchema = itemInputSchema.partial();
+
+/**
+ * Validate input, mapping the first issue to INVALID_INPUT.
+ */
+function parseInput<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  input: unknown
+): Result<T, ItemError> {
+  const parsed = schema.safeParse(input);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    error: {
+      code: 'INVALID_INPUT',
+      message: parsed.error.issues[0]?.message ?? 'Invalid item',
+    },
+  };
+}
+
+/**
+ * Schema for search paging: limit is capped at ITEM_SEARCH_MAX_LIMIT.
+ */
+export const itemSearchOptionsSchema = z.object({
+  limit: z
+    .number()
+    .int()
+    .min(1, { message: 'Limit must be at least 1' })
+    .max(ITEM_SEARCH_MAX_LIMIT, {
+      message: `Limit must be at most ${ITEM_SEARCH_MAX_LIMIT}`,
+    })
+    .default(ITEM_SEARCH_DEFAULT_LIMIT),
+  offset: z
+    .number()
+    .int()
+    .min(0, { message: 'Offset must not be negative' })
+    .default(0),
+});
+
+/**
+ * Build the NOT_FOUND error for an id.
+ */
+function notFound(id: number): ItemError {
+  return { code: 'NOT_FOUND', message: `Item ${id} not found`, id };
+}
+
+/**
+ * Map a repository failure to a STORAGE_ERROR.
+ */
+function storageError(cause: unknown): ItemError {
+  return {
+    code: 'STORAGE_ERROR',
+    message: cause instanceof Error ? cause.message : 'Item storage failed',
+    cause,
+  };
+}
+
+/**
+ * Map a failed usage-checked insert to an ItemError.
+ */
+function fromUsageError(error: UsageError): ItemError {
+  if (error.code === 'LIMIT_REACHED') {
+    return {
+      code: 'LIMIT_REACHED',
+      message: error.message,
+      limit: error.limit,
+    };
+  }
+  return {
+    code: 'STORAGE_ERROR',
+    message: error.message,
+    cause: error.code === 'STORAGE_ERROR' ? error.cause : error,
+  };
+}
+
+/**
+ * Item service configuration.
+ */
+export interface ItemServiceConfig {
+  /** Repository for reading and writing items */
+  repository: ItemRepository;
+  /** Usage service that enforces the items quota (defaults to the app's usageService) */
+  usage?: Pick<UsageService, 'insertItem' | 'notifyChanged'>;
+}
+
+/**
+ * Item service interface.
+ */
+export interface ItemService {
+  /**
+   * Read every item, newest first.
+   */
+  list(): Promise<Result<Item[], ItemError>>;
+
+  /**
+   * Read an item. Returns NOT_FOUND if no item has this id.
+   */
+  get(id: number): Promise<Result<Item, ItemError>>;
+
+  /**
+   * Create an item if the items quota allows it.
+   * Returns INVALID_INPUT for an empty title and LIMIT_REACHED when the
+   * user already has maxItems items.
+   */
+  create(input: ItemInput): Promise<Result<Item, ItemError>>;
+
+  /**
+   * Update an item's title or description.
+   * Returns NOT_FOUND if no item has this id.
+   */
+  update(id: number, changes: ItemChanges): Promise<Result<Item, ItemError>>;
+
+  /**
+   * Delete an item and report the freed quota to the usage service.
+   * Returns NOT_FOUND if no item has this id.
+   */
+  delete(id: number): Promise<Result<void, ItemError>>;
+
+  /**
+   * Search item titles and descriptions, best match first. Every word in
+   * the query must match, as a prefix. A query without words returns no
+   * results; a limit or offset out of range returns INVALID_INPUT.
+   */
+  searchItems(
+    query: string,
+    options?: ItemSearchOptions
+  ): Promise<Result<ItemSearchResult[], ItemError>>;
+}
+
+/**
+ * Create an item service.
+ *
+ * @param config - Service configuration
+ * @returns ItemService
+ *
+ * @example
+ * ```ts
+ * const items = createItemService({ repository: itemRepository });
+ *
+ * const result = await items.create({ title: 'Groceries' });
+ * if (!result.success && result.error.code === 'LIMIT_REACHED') {
+ *   openPaywall();
+ * }
+ * ```
+ */
+export function createItemService(config: ItemServiceConfig): ItemService {
+  const { repository, usage = usageService } = config;
+
+  return {
+    async list(): Promise<Result<Item[], ItemError>> {
+      try {
+        return { success: true, data: await repository.list() };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async get(id: number): Promise<Result<Item, ItemError>> {
+      try {
+        const item = await repository.get(id);
+        if (!item) {
+          return { success: false, error: notFound(id) };
+        }
+        return { success: true, data: item };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async create(input: ItemInput): Promise<Result<Item, ItemError>> {
+      const parsed = parseInput(itemInputSchema, input);
+      if (!parsed.success) {
+        return parsed;
+      }
+
+      const result = await usage.insertItem(parsed.data);
+      if (!result.success) {
+        return { success: false, error: fromUsageError(result.error) };
+      }
+      return result;
+    },
+
+    async update(
+      id: number,
+      changes: ItemChanges
+    ): Promise<Result<Item, ItemError>> {
+      const parsed = parseInput(itemChangesSchema, changes);
+      if (!parsed.success) {
+        return parsed;
+      }
+
+      try {
+        // Nothing to set: SQLite rejects an empty UPDATE
+        const item =
+          Object.keys(parsed.data).length === 0
+            ? await repository.get(id)
+            : await repository.update(id, parsed.data);
+        if (!item) {
+          return { success: false, error: notFound(id) };
+        }
+        return { success: true, data: item };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async delete(id: number): Promise<Result<void, ItemError>> {
+      try {
+        if (!(await repository.delete(id))) {
+          return { success: false, error: notFound(id) };
+        }
+        usage.notifyChanged();
+        return { success: true, data: undefined };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async searchItems(
+      query: string,
+      options: ItemSearchOptions = {}
+    ): Promise<Result<ItemSearchResult[], ItemError>> {
+      const page = parseInput(itemSearchOptionsSchema, options);
+      if (!page.success) {
+        return page;
+      }
+
+      const match = buildMatchQuery(query);
+      if (match === null) {
+        return { success: true, data: [] };
+      }
+
+      try {
+        return {
+          success: true,
+          data: await repository.search(match, page.data),
+        };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+  };
+}
+
+/**
+ * Default item service using the app database and usage service.
+ */
+export const itemService: ItemService = createItemService({
+  repository: itemRepository,
+});
@@ -0,0 +1,69 @@
+/**
+ * Item Domain Types
+ *
+ * Types for the items stored in SQLite.
+ *
+ * @module features/items/core/types
+ */
+
+import type { Item } from '@/database/schema';
+
+/**
+ * Fields a user enters when creating an item.
+ */
+export interface ItemInput {
+  /** Title (required, trimmed) */
+  title: string;
+  /** Free-form notes (empty strings are stored as null) */
+  description?: string | null;
+}
+
+/**
+ * Fields changed by an update. Omitted fields are left as they are.
+ */
+export type ItemChanges = Partial<ItemInput>;
+
+/**
+ * Paging for searchItems.
+ */
+export interface ItemSearchOptions {
+  /** Maximum number of results (default ITEM_SEARCH_DEFAULT_LIMIT) */
+  limit?: number;
+  /** Number of results to skip (default 0) */
+  offset?: number;
+}
+
+/**
+ * A run of text in a search snippet. Runs with `match: true` are the
+ * words that matched the query, to be highlighted.
+ */
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * An item matching a search, with its title and description split into
+ * highlighted segments.
+ */
+export interface ItemSearchResult {
+  item: Item;
+  /** The full title */
+  title: SnippetSegment[];
+  /** A short excerpt of the description around the matches, or null if the item has none */
+  description: SnippetSegment[] | null;
+}
+
+/**
+ * Item error types.
+ */
+export type ItemError =
+  | { code: 'NOT_FOUND'; message: string; id: number }
+  | { code: 'INVALID_INPUT'; message: string }
+  | { code: 'LIMIT_REACHED'; message: string; limit: number }
+  | { code: 'STORAGE_ERROR'; message: string; cause?: unknown };
+
+/**
+ * Item error code type for type-safe error handling.
+ */
+export type ItemErrorCode = ItemError['code'];
@@ -0,0 +1,399 @@
+/**
+ * Item Query Hook Tests
+ *
+ * Tests for reading items through the query cache, optimistic updates while
+ * a mutation is in flight, rollback on failure and invalidation once it
+ * settles.
+ *
+ * @module features/items/hooks/__tests__/use-items.test
+ */
+
+import { QueryClient } from '@tanstack/react-query';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+import type { Item } from '@/database/schema';
+import type { Result } from '@/features/subscription/core/types';
+import { itemKeys } from '../../core/query-keys';
+import type { ItemService } from '../../core/service';
+import type {
+  ItemChanges,
+  ItemError,
+  ItemInput,
+  ItemSearchOptions,
+  ItemSearchResult,
+} from '../../core/types';
+import {
+  useCreateItem,
+  useDeleteItem,
+  useItem,
+  useItems,
+  useItemSearch,
+  useUpdateItem,
+} from '../use-items';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const groceries: Item = {
+  id: 1,
+  title: 'Groceries',
+  description: null,
+  createdAt: new Date('2026-01-01'),
+};
+
+const errands: Item = {
+  id: 2,
+  title: 'Errands',
+  description: null,
+  createdAt: new Date('2026-01-02'),
+};
+
+const groceriesMatch: ItemSearchResult = {
+  item: groceries,
+  title: [
+    { text: 'Groc', match: true },
+    { text: 'eries', match: false },
+  ],
+  description: null,
+};
+
+function createService(): jest.Mocked<ItemService> {
+  return {
+    list: jest.fn(async () => ({ success: true as const, data: [groceries] })),
+    get: jest.fn(async (_id: number) => ({
+      success: true as const,
+      data: groceries,
+    })),
+    create: jest.fn(async (_input: ItemInput) => ({
+      success: true as const,
+      data: errands,
+    })),
+    update: jest.fn(async (_id: number, _changes: ItemChanges) => ({
+      success: true as const,
+      data: groceries,
+    })),
+    delete: jest.fn(async (_id: number) => ({
+      success: true as const,
+      data: undefined,
+    })),
+    searchItems: jest.fn(
+      async (_query: string, _options?: ItemSearchOptions) => ({
+        success: true as const,
+        data: [groceriesMatch],
+      })
+    ),
+  };
+}
+
+const clients: QueryClient[] = [];
+
+function createClient(): QueryClient {
+  const client = new QueryClient({
+    defaultOptions: {
+      queries: { gcTime: Infinity },
+      mutations: { gcTime: Infinity },
+    },
+  });
+  clients.push(client);
+  return client;
+}
+
+/**
+ * A service result the test resolves by hand.
+ */
+function deferred<T>() {
+  let resolve!: (result: Result<T, ItemError>) => void;
+  const promise = new Promise<Result<T, ItemError>>((settle) => {
+    resolve = settle;
+  });
+  return { promise, resolve };
+}
+
+const storageFailure: ItemError = {
+  code: 'STORAGE_ERROR',
+  message: 'disk I/O error',
+};
+
+describe('Item Query Hooks', () => {
+  afterEach(() => {
+    clients.splice(0).forEach((client) => client.clear());
+  });
+
+  describe('useItems', () => {
+    it('should load the items into the list query', async () => {
+      const service = createService();
+      const client = createClient();
+
+      const { result } = renderHook(() => useItems(service, client));
+
+      await waitFor(() => expect(result.current.data).toEqual([groceries]));
+      expect(client.getQueryData(itemKeys.lists())).toEqual([groceries]);
+    });
+
+    it('should expose the service error without retrying', async () => {
+      const service = createService();
+      service.list.mockResolvedValue({ success: false, error: storageFailure });
+
+      const { result } = renderHook(() => useItems(service, createClient()));
+
+      await waitFor(() => expect(result.current.error).toEqual(storageFailure));
+      expect(service.list).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useItem', () => {
+    it('should load the item into its detail query', async () => {
+      const service = createService();
+
+      const { result } = renderHook(() => useItem(1, service, createClient()));
+
+      await waitFor(() => expect(result.current.data).toEqual(groceries));
+      expect(service.get).toHaveBeenCalledWith(1);
+    });
+
+    it('should not read anything for a null id', () => {
+      const service = createService();
+
+      const { result } = renderHook(() =>
+        useItem(null, service, createClient())
+      );
+
+      expect(result.current.fetchStatus).toBe('idle');
+      expect(service.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('useCreateItem', () => {
+    it('should prepend the item while the insert is in flight', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [groceries]);
+      const insert = deferred<Item>();
+      service.create.mockReturnValue(insert.promise);
+
+      const { result } = renderHook(() => useCreateItem(service, client));
+      act(() => {
+        result.current.mutate({ title: ' Errands ' });
+      });
+
+      await waitFor(() =>
+        expect(client.getQueryData<Item[]>(itemKeys.lists())).toHaveLength(2)
+      );
+      const [optimistic] = client.getQueryData<Item[]>(itemKeys.lists())!;
+      expect(optimistic).toMatchObject({ title: 'Errands', description: null });
+      expect(optimistic.id).toBeLessThan(0);
+
+      service.list.mockResolvedValue({
+        success: true,
+        data: [errands, groceries],
+      });
+      await act(async () => {
+        insert.resolve({ success: true, data: errands });
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(client.getQueryData(itemKeys.detail(2))).toEqual(errands);
+      expect(client.getQueryState(itemKeys.lists())?.isInvalidated).toBe(true);
+    });
+
+    it('should roll the list back when the insert fails', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [groceries]);
+      const limitReached: ItemError = {
+        code: 'LIMIT_REACHED',
+        message: 'Usage limit reached for items (10)',
+        limit: 10,
+      };
+      service.create.mockResolvedValue({ success: false, error: limitReached });
+
+      const { result } = renderHook(() => useCreateItem(service, client));
+      await act(async () => {
+        await result.current.mutateAsync({ title: 'Errands' }).catch(() => {});
+      });
+
+      await waitFor(() => expect(result.current.error).toEqual(limitReached));
+      expect(client.getQueryData(itemKeys.lists())).toEqual([groceries]);
+      expect(service.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('useUpdateItem', () => {
+    it('should apply the changes to the list and detail while in flight', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [groceries]);
+      client.setQueryData(itemKeys.detail(1), groceries);
+      const update = deferred<Item>();
+      service.update.mockReturnValue(update.promise);
+
+      const { result } = renderHook(() => useUpdateItem(service, client));
+      act(() => {
+        result.current.mutate({ id: 1, changes: { title: 'Market' } });
+      });
+
+      await waitFor(() =>
+        expect(client.getQueryData<Item>(itemKeys.detail(1))?.title).toBe(
+          'Market'
+        )
+      );
+      expect(client.getQueryData<Item[]>(itemKeys.lists())![0].title).toBe(
+        'Market'
+      );
+
+      await act(async () => {
+        update.resolve({
+          success: true,
+          data: { ...groceries, title: 'Market' },
+        });
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(client.getQueryState(itemKeys.lists())?.isInvalidated).toBe(true);
+      expect(client.getQueryState(itemKeys.detail(1))?.isInvalidated).toBe(
+        true
+      );
+    });
+
+    it('should restore the list and detail when the update fails', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [groceries]);
+      client.setQueryData(itemKeys.detail(1), groceries);
+      service.update.mockResolvedValue({
+        success: false,
+        error: storageFailure,
+      });
+
+      const { result } = renderHook(() => useUpdateItem(service, client));
+      await act(async () => {
+        await result.current
+          .mutateAsync({ id: 1, changes: { title: 'Market' } })
+          .catch(() => {});
+      });
+
+      await waitFor(() => expect(result.current.error).toEqual(storageFailure));
+      expect(client.getQueryData(itemKeys.lists())).toEqual([groceries]);
+      expect(client.getQueryData(itemKeys.detail(1))).toEqual(groceries);
+    });
+  });
+
+  describe('useDeleteItem', () => {
+    it('should remove the item from the list and drop its detail', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [errands, groceries]);
+      client.setQueryData(itemKeys.detail(1), groceries);
+      const removal = deferred<void>();
+      service.delete.mockReturnValue(removal.promise);
+
+      const { result } = renderHook(() => useDeleteItem(service, client));
+      act(() => {
+        result.current.mutate(1);
+      });
+
+      await waitFor(() =>
+        expect(client.getQueryData(itemKeys.lists())).toEqual([errands])
+      );
+
+      await act(async () => {
+        removal.resolve({ success: true, data: undefined });
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(client.getQueryData(itemKeys.detail(1))).toBeUndefined();
+      expect(client.getQueryState(itemKeys.lists())?.isInvalidated).toBe(true);
+    });
+
+    it('should put the item back when the delete fails', async () => {
+      const service = createService();
+      const client = createClient();
+      client.setQueryData(itemKeys.lists(), [errands, groceries]);
+      service.delete.mockResolvedValue({
+        success: false,
+        error: storageFailure,
+      });
+
+      const { result } = renderHook(() => useDeleteItem(service, client));
+      await act(async () => {
+        await result.current.mutateAsync(1).catch(() => {});
+      });
+
+      await waitFor(() => expect(result.current.error).toEqual(storageFailure));
+      expect(client.getQueryData(itemKeys.lists())).toEqual([
+        errands,
+        groceries,
+      ]);
+    });
+  });
+
+  describe('useItemSearch', () => {
+    it('should search once the text stops changing', async () => {
+      const service = createService();
+      const client = createClient();
+
+      const { result, rerender } = renderHook(
+        ({ query }: { query: string }) =>
+          useItemSearch(query, { debounceMs: 50 }, service, client),
+        { initialProps: { query: '' } }
+      );
+      rerender({ query: 'g' });
+      rerender({ query: 'gro ' });
+
+      await waitFor(() =>
+        expect(result.current.data).toEqual([groceriesMatch])
+      );
+      expect(service.searchItems).toHaveBeenCalledTimes(1);
+      expect(service.searchItems).toHaveBeenCalledWith('gro', {
+        limit: 20,
+        offset: 0,
+      });
+    });
+
+    it('should not search text without words', async () => {
+      const service = createService();
+      const client = createClient();
+
+      const { result } = renderHook(() =>
+        useItemSearch('   ', { debounceMs: 0 }, service, client)
+      );
+
+      await act(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      });
+      expect(result.current.fetchStatus).toBe('idle');
+      expect(service.searchItems).not.toHaveBeenCalled();
+    });
+
+    it('should keep the previous results while the next page loads', async () => {
+      const service = createService();
+      const client = createClient();
+
+      const { result, rerender } = renderHook(
+        ({ offset }: { offset: number }) =>
+          useItemSearch('gro', { debounceMs: 0, offset }, service, client),
+        { initialProps: { offset: 0 } }
+      );
+      await waitFor(() =>
+        expect(result.current.data).toEqual([groceriesMatch])
+      );
+
+      const next = deferred<ItemSearchResult[]>();
+      service.searchItems.mockReturnValue(next.promise);
+      rerender({ offset: 20 });
+
+      await waitFor(() =>
+        expect(service.searchItems).toHaveBeenLastCalledWith('gro', {
+          limit: 20,
+          offset: 20,
+        })
+      );
+      expect(result.current.isPlaceholderData).toBe(true);
+      expect(result.current.data).toEqual([groceriesMatch]);
+
+      await act(async () => {
+        next.resolve({ success: true, data: [] });
+      });
+      await waitFor(() => expect(result.current.data).toEqual([]));
+    });
+  });
+});
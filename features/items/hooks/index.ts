@@ -0,0 +1,22 @@
+/**
+ * Items Hooks Module
+ *
+ * Exports TanStack Query hooks for items.
+ *
+ * @module features/items/hooks
+ */
+
+export {
+  useItems,
+  useItem,
+  useCreateItem,
+  useUpdateItem,
+  useDeleteItem,
+  useItemSearch,
+  ITEM_SEARCH_DEBOUNCE_MS,
+} from './use-items';
+export type {
+  UpdateItemVariables,
+  ItemCacheSnapshot,
+  UseItemSearchOptions,
+} from './use-items';
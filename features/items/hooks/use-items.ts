@@ -0,0 +1,366 @@
+/**
+ * Item Query Hooks
+ *
+ * TanStack Query hooks over the item service, on the app's shared
+ * queryClient.
+ *
+ * Mutations update the cached list and detail optimistically, roll them
+ * back when the write fails, and invalidate them once it settles. Search
+ * results are refreshed by the live binding on itemKeys.all. Items
+ * live in local SQLite, where a failed read or write fails the same way
+ * again, so these queries and mutations do not retry.
+ *
+ * @module features/items/hooks/use-items
+ */
+
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  type QueryClient,
+  type UseMutationResult,
+  type UseQueryResult,
+} from '@tanstack/react-query';
+
+import type { Item } from '@/database/schema';
+import type { Result } from '@/features/subscription/core/types';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { queryClient } from '@/lib/query-client';
+import { itemKeys } from '../core/query-keys';
+import { ITEM_SEARCH_DEFAULT_LIMIT } from '../core/search';
+import {
+  itemChangesSchema,
+  itemInputSchema,
+  itemService,
+  type ItemService,
+} from '../core/service';
+import type {
+  ItemChanges,
+  ItemError,
+  ItemInput,
+  ItemSearchOptions,
+  ItemSearchResult,
+} from '../core/types';
+
+/**
+ * Time the search text must stay unchanged before it is searched (ms).
+ */
+export const ITEM_SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Variables for useUpdateItem.
+ */
+export interface UpdateItemVariables {
+  id: number;
+  changes: ItemChanges;
+}
+
+/**
+ * Options for useItemSearch.
+ */
+export interface UseItemSearchOptions extends ItemSearchOptions {
+  /** Debounce for the search text (default ITEM_SEARCH_DEBOUNCE_MS) */
+  debounceMs?: number;
+}
+
+/**
+ * Cache snapshot taken before an optimistic update, restored on failure.
+ */
+export interface ItemCacheSnapshot {
+  previousItems?: Item[];
+  previousItem?: Item;
+}
+
+/**
+ * Ids given to optimistically created items until the insert returns.
+ * Negative so they never collide with SQLite row ids.
+ */
+let nextOptimisticId = -1;
+
+/**
+ * Resolve a service result, or throw its ItemError for TanStack Query.
+ */
+async function unwrap<T>(result: Promise<Result<T, ItemError>>): Promise<T> {
+  const resolved = await result;
+  if (!resolved.success) {
+    throw resolved.error;
+  }
+  return resolved.data;
+}
+
+/**
+ * Put a snapshot back into the cache.
+ */
+function restoreSnapshot(
+  client: QueryClient,
+  id: number | null,
+  snapshot: ItemCacheSnapshot | undefined
+): void {
+  if (snapshot?.previousItems) {
+    client.setQueryData(itemKeys.lists(), snapshot.previousItems);
+  }
+  if (id !== null && snapshot?.previousItem) {
+    client.setQueryData(itemKeys.detail(id), snapshot.previousItem);
+  }
+}
+
+/**
+ * Hook to read every item, newest first.
+ *
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Query result with the items
+ *
+ * @example
+ * ```tsx
+ * function ItemList() {
+ *   const { data: items = [], isPending } = useItems();
+ *   if (isPending) return <ActivityIndicator />;
+ *   return <FlatList data={items} renderItem={...} />;
+ * }
+ * ```
+ */
+export function useItems(
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseQueryResult<Item[], ItemError> {
+  return useQuery<Item[], ItemError>(
+    {
+      queryKey: itemKeys.lists(),
+      queryFn: () => unwrap(service.list()),
+      retry: false,
+    },
+    client
+  );
+}
+
+/**
+ * Hook to read an item. Fails with NOT_FOUND if no item has this id.
+ *
+ * @param id - Item id (null disables the query, e.g. on a create form)
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Query result with the item
+ */
+export function useItem(
+  id: number | null,
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseQueryResult<Item, ItemError> {
+  return useQuery<Item, ItemError>(
+    {
+      queryKey: itemKeys.detail(id ?? 0),
+      queryFn: () => unwrap(service.get(id ?? 0)),
+      enabled: id !== null,
+      retry: false,
+    },
+    client
+  );
+}
+
+/**
+ * Hook to search items as the user types.
+ * Searches once the text has stopped changing for `debounceMs`, and keeps
+ * showing the previous results while the next ones load. Text without
+ * words disables the query.
+ *
+ * @param query - Search text as typed
+ * @param options - Paging and debounce
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Query result with the matching items, best match first
+ *
+ * @example
+ * ```tsx
+ * const [text, setText] = useState('');
+ * const { data: results = [] } = useItemSearch(text);
+ * ```
+ */
+export function useItemSearch(
+  query: string,
+  options: UseItemSearchOptions = {},
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseQueryResult<ItemSearchResult[], ItemError> {
+  const {
+    limit = ITEM_SEARCH_DEFAULT_LIMIT,
+    offset = 0,
+    debounceMs = ITEM_SEARCH_DEBOUNCE_MS,
+  } = options;
+  const debounced = useDebouncedValue(query.trim(), debounceMs);
+
+  return useQuery<ItemSearchResult[], ItemError>(
+    {
+      queryKey: itemKeys.search(debounced, limit, offset),
+      queryFn: () => unwrap(service.searchItems(debounced, { limit, offset })),
+      enabled: debounced.length > 0,
+      placeholderData: keepPreviousData,
+      retry: false,
+    },
+    client
+  );
+}
+
+/**
+ * Hook to create an item.
+ * The item is prepended to the cached list until the insert settles.
+ * Fails with LIMIT_REACHED when the items quota is used up.
+ *
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation taking ItemInput
+ *
+ * @example
+ * ```tsx
+ * const createItem = useCreateItem();
+ * const { presentPaywall } = usePaywallPresenter();
+ *
+ * createItem.mutate(
+ *   { title: 'Groceries' },
+ *   {
+ *     onError: (error) => {
+ *       if (error.code === 'LIMIT_REACHED') void presentPaywall('item_limit');
+ *     },
+ *   }
+ * );
+ * ```
+ */
+export function useCreateItem(
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseMutationResult<Item, ItemError, ItemInput, ItemCacheSnapshot> {
+  return useMutation<Item, ItemError, ItemInput, ItemCacheSnapshot>(
+    {
+      mutationFn: (input) => unwrap(service.create(input)),
+      retry: false,
+      onMutate: async (input) => {
+        await client.cancelQueries({ queryKey: itemKeys.lists() });
+        const previousItems = client.getQueryData<Item[]>(itemKeys.lists());
+
+        // Invalid input fails without touching the cache
+        const parsed = itemInputSchema.safeParse(input);
+        if (previousItems && parsed.success) {
+          const optimistic: Item = {
+            ...parsed.data,
+            id: nextOptimisticId--,
+            createdAt: new Date(),
+          };
+          client.setQueryData<Item[]>(itemKeys.lists(), [
+            optimistic,
+            ...previousItems,
+          ]);
+        }
+        return { previousItems };
+      },
+      onError: (_error, _input, snapshot) => {
+        restoreSnapshot(client, null, snapshot);
+      },
+      onSuccess: (item) => {
+        client.setQueryData(itemKeys.detail(item.id), item);
+      },
+      onSettled: () => client.invalidateQueries({ queryKey: itemKeys.lists() }),
+    },
+    client
+  );
+}
+
+/**
+ * Hook to update an item's title or description.
+ * The changes are applied to the cached list and detail until the update
+ * settles.
+ *
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation taking { id, changes }
+ */
+export function useUpdateItem(
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseMutationResult<Item, ItemError, UpdateItemVariables, ItemCacheSnapshot> {
+  return useMutation<Item, ItemError, UpdateItemVariables, ItemCacheSnapshot>(
+    {
+      mutationFn: ({ id, changes }) => unwrap(service.update(id, changes)),
+      retry: false,
+      onMutate: async ({ id, changes }) => {
+        await Promise.all([
+          client.cancelQueries({ queryKey: itemKeys.lists() }),
+          client.cancelQueries({ queryKey: itemKeys.detail(id) }),
+        ]);
+        const previousItems = client.getQueryData<Item[]>(itemKeys.lists());
+        const previousItem = client.getQueryData<Item>(itemKeys.detail(id));
+
+        const parsed = itemChangesSchema.safeParse(changes);
+        if (parsed.success) {
+          if (previousItems) {
+            client.setQueryData<Item[]>(
+              itemKeys.lists(),
+              previousItems.map((item) =>
+                item.id === id ? { ...item, ...parsed.data } : item
+              )
+            );
+          }
+          if (previousItem) {
+            client.setQueryData<Item>(itemKeys.detail(id), {
+              ...previousItem,
+              ...parsed.data,
+            });
+          }
+        }
+        return { previousItems, previousItem };
+      },
+      onError: (_error, { id }, snapshot) => {
+        restoreSnapshot(client, id, snapshot);
+      },
+      onSuccess: (item) => {
+        client.setQueryData(itemKeys.detail(item.id), item);
+      },
+      onSettled: (_item, _error, { id }) =>
+        Promise.all([
+          client.invalidateQueries({ queryKey: itemKeys.lists() }),
+          client.invalidateQueries({ queryKey: itemKeys.detail(id) }),
+        ]),
+    },
+    client
+  );
+}
+
+/**
+ * Hook to delete an item.
+ * The item is removed from the cached list until the delete settles;
+ * its detail query is dropped once the delete succeeds.
+ *
+ * @param service - Item service (defaults to the app's itemService)
+ * @param client - Query client (defaults to the shared queryClient)
+ * @returns Mutation taking the item id
+ */
+export function useDeleteItem(
+  service: ItemService = itemService,
+  client: QueryClient = queryClient
+): UseMutationResult<void, ItemError, number, ItemCacheSnapshot> {
+  return useMutation<void, ItemError, number, ItemCacheSnapshot>(
+    {
+      mutationFn: (id) => unwrap(service.delete(id)),
+      retry: false,
+      onMutate: async (id) => {
+        await client.cancelQueries({ queryKey: itemKeys.lists() });
+        const previousItems = client.getQueryData<Item[]>(itemKeys.lists());
+
+        if (previousItems) {
+          client.setQueryData<Item[]>(
+            itemKeys.lists(),
+            previousItems.filter((item) => item.id !== id)
+          );
+        }
+        return { previousItems };
+      },
+      onError: (_error, _id, snapshot) => {
+        restoreSnapshot(client, null, snapshot);
+      },
+      onSuccess: (_data, id) => {
+        client.removeQueries({ queryKey: itemKeys.detail(id) });
+      },
+      onSettled: () => client.invalidateQueries({ queryKey: itemKeys.lists() }),
+    },
+    client
+  );
+}
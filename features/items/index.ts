@@ -0,0 +1,41 @@
+/**
+ * Items Feature Module
+ *
+ * CRUD over the items table: a SQLite repository, a service that creates
+ * items within the usage quota, full-text search, and TanStack Query hooks
+ * with optimistic updates. Screens live under app/items/.
+ *
+ * @module features/items
+ */
+
+// Core exports
+export {
+  createItemService,
+  itemService,
+  itemKeys,
+  ITEM_TITLE_MAX_LENGTH,
+  ITEM_SEARCH_DEFAULT_LIMIT,
+} from './core';
+
+export type {
+  ItemService,
+  ItemInput,
+  ItemChanges,
+  ItemError,
+  ItemErrorCode,
+  ItemSearchOptions,
+  ItemSearchResult,
+  SnippetSegment,
+} from './core';
+
+// Hook exports
+export {
+  useItems,
+  useItem,
+  useCreateItem,
+  useUpdateItem,
+  useDeleteItem,
+  useItemSearch,
+} from './hooks';
+
+export type { UpdateItemVariables, UseItemSearchOptions } from './hooks';
@@ -0,0 +1,155 @@
+/**
+ * Subscription Event Repository Tests
+ *
+ * Runs the SQLite repository against a fake expo-sqlite client to verify the
+ * statements it issues and that appends read the latest event in the same
+ * transaction.
+ *
+ * @module features/subscription-events/core/__tests__/repository.test
+ */
+
+import { drizzle } from 'drizzle-orm/expo-sqlite';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import * as schema from '@/database/schema';
+import { createSqliteSubscriptionEventRepository } from '../repository';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+/**
+ * Raw subscription_events row in column order.
+ */
+const startedRow = [
+  1,
+  'started',
+  'free',
+  'premium',
+  'monthly_plan',
+  null,
+  1767225600,
+];
+
+/**
+ * Fake expo-sqlite client serving stored event rows.
+ */
+function createFakeClient(rows: unknown[][]) {
+  const statements: { sql: string; params: unknown[] }[] = [];
+
+  const rawRows = (sql: string): unknown[][] => {
+    if (sql.startsWith('insert into "subscription_events"')) {
+      return [[2, 'ended', 'premium', 'free', null, null, 1769904000]];
+    }
+    if (sql.startsWith('select')) {
+      return rows;
+    }
+    return [];
+  };
+
+  const client = {
+    prepareSync: jest.fn((sql: string) => ({
+      executeSync: jest.fn((params: unknown[]) => {
+        statements.push({ sql, params });
+        return {
+          changes: 1,
+          lastInsertRowId: 1,
+          getAllSync: () => [],
+          getFirstSync: () => null,
+        };
+      }),
+      executeForRawResultSync: jest.fn((params: unknown[]) => {
+        statements.push({ sql, params });
+        return { getAllSync: () => rawRows(sql) };
+      }),
+      finalizeSync: jest.fn(),
+    })),
+  };
+
+  const database = drizzle(client as unknown as SQLiteDatabase, { schema });
+  return { database, statements };
+}
+
+describe('Subscription Event Repository', () => {
+  describe('appendFromLatest', () => {
+    it('should pass the latest event to build and insert its result in a transaction', async () => {
+      const { database, statements } = createFakeClient([startedRow]);
+      const repository = createSqliteSubscriptionEventRepository(database);
+      const build = jest.fn(() => ({
+        type: 'ended' as const,
+        fromTier: 'premium',
+        toTier: 'free',
+      }));
+
+      const event = await repository.appendFromLatest(build);
+
+      expect(build).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 1,
+          toTier: 'premium',
+          productId: 'monthly_plan',
+          occurredAt: new Date(1767225600 * 1000),
+        })
+      );
+      expect(event).toEqual(
+        expect.objectContaining({ id: 2, type: 'ended', toTier: 'free' })
+      );
+      expect(statements.map(({ sql }) => sql.split(' ')[0])).toEqual([
+        'begin',
+        'select',
+        'insert',
+        'commit',
+      ]);
+      expect(statements[1]?.sql).toContain(
+        'order by "subscription_events"."id" desc limit ?'
+      );
+    });
+
+    it('should pass null when no event was recorded and skip the insert when build returns null', async () => {
+      const { database, statements } = createFakeClient([]);
+      const repository = createSqliteSubscriptionEventRepository(database);
+      const build = jest.fn(() => null);
+
+      expect(await repository.appendFromLatest(build)).toBeNull();
+      expect(build).toHaveBeenCalledWith(null);
+      expect(statements.some(({ sql }) => sql.startsWith('insert'))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('list', () => {
+    it('should read newest first with limit and offset', async () => {
+      const { database, statements } = createFakeClient([startedRow]);
+      const repository = createSqliteSubscriptionEventRepository(database);
+
+      const events = await repository.list(20, 40);
+
+      expect(events).toHaveLength(1);
+      expect(statements[0]?.sql).toContain(
+        'order by "subscription_events"."id" desc limit ? offset ?'
+      );
+      expect(statements[0]?.params).toEqual([20, 40]);
+    });
+  });
+
+  describe('findFirst', () => {
+    it('should read the oldest event of the type', async () => {
+      const { database, statements } = createFakeClient([startedRow]);
+      const repository = createSqliteSubscriptionEventRepository(database);
+
+      const event = await repository.findFirst('started');
+
+      expect(event?.type).toBe('started');
+      expect(statements[0]?.sql).toContain(
+        'where "subscription_events"."type" = ? order by "subscription_events"."id" asc'
+      );
+      expect(statements[0]?.params).toEqual(['started', 1]);
+    });
+
+    it('should return null when no event matches', async () => {
+      const { database } = createFakeClient([]);
+      const repository = createSqliteSubscriptionEventRepository(database);
+
+      expect(await repository.findFirst('started')).toBeNull();
+    });
+  });
+});
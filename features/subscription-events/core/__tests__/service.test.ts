@@ -0,0 +1,308 @@
+/**
+ * Subscription Event Service Tests
+ *
+ * Tests for transition classification, recording against the latest event
+ * and the query API.
+ *
+ * @module features/subscription-events/core/__tests__/service.test
+ */
+
+import type { SubscriptionEvent } from '@/database/schema';
+import {
+  DEFAULT_FREE_SUBSCRIPTION,
+  FREE_TIER_LIMITS,
+  PREMIUM_TIER_LIMITS,
+  type EntitlementRegistry,
+  type Subscription,
+} from '@/features/subscription/core/types';
+import type { SubscriptionEventRepository } from '../repository';
+import {
+  classifyTransition,
+  createSubscriptionEventService,
+  toEventState,
+} from '../service';
+
+const registry: EntitlementRegistry = {
+  freeLimits: FREE_TIER_LIMITS,
+  tiers: [
+    { tier: 'plus', entitlementId: 'plus', limits: PREMIUM_TIER_LIMITS },
+    { tier: 'pro', entitlementId: 'pro', limits: PREMIUM_TIER_LIMITS },
+  ],
+};
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+/**
+ * In-memory repository mirroring the SQLite repository's ordering.
+ */
+function createMemoryRepository(initial: SubscriptionEvent[] = []) {
+  const events = [...initial];
+
+  const repository: SubscriptionEventRepository = {
+    appendFromLatest: jest.fn(async (build) => {
+      const values = build(events[events.length - 1] ?? null);
+      if (values === null) {
+        return null;
+      }
+      const event: SubscriptionEvent = {
+        id: events.length + 1,
+        type: values.type,
+        fromTier: values.fromTier,
+        toTier: values.toTier,
+        productId: values.productId ?? null,
+        expiresAt: values.expiresAt ?? null,
+        occurredAt: values.occurredAt ?? NOW,
+      };
+      events.push(event);
+      return event;
+    }),
+    list: jest.fn(async (limit: number, offset: number) =>
+      [...events].reverse().slice(offset, offset + limit)
+    ),
+    findFirst: jest.fn(
+      async (type) => events.find((event) => event.type === type) ?? null
+    ),
+  };
+
+  return { repository, events };
+}
+
+function createService(repository: SubscriptionEventRepository) {
+  return createSubscriptionEventService({
+    repository,
+    getRegistry: () => registry,
+    now: () => NOW,
+  });
+}
+
+function paid(tier: string, productId: string): Subscription {
+  return {
+    ...DEFAULT_FREE_SUBSCRIPTION,
+    isActive: true,
+    tier,
+    productId,
+    expiresAt: new Date('2026-04-01T00:00:00Z'),
+    willRenew: true,
+  };
+}
+
+describe('Subscription Event Service', () => {
+  describe('classifyTransition', () => {
+    const free = { tier: 'free', productId: null };
+
+    it('should classify free to paid as started and back as ended', () => {
+      const plus = { tier: 'plus', productId: 'plus_monthly' };
+
+      expect(classifyTransition(free, plus, registry)).toBe('started');
+      expect(classifyTransition(plus, free, registry)).toBe('ended');
+    });
+
+    it('should rank paid tier changes by the registry order', () => {
+      const plus = { tier: 'plus', productId: 'plus_monthly' };
+      const pro = { tier: 'pro', productId: 'pro_monthly' };
+
+      expect(classifyTransition(plus, pro, registry)).toBe('upgraded');
+      expect(classifyTransition(pro, plus, registry)).toBe('downgraded');
+    });
+
+    it('should detect product changes within the same tier', () => {
+      expect(
+        classifyTransition(
+          { tier: 'plus', productId: 'plus_monthly' },
+          { tier: 'plus', productId: 'plus_annual' },
+          registry
+        )
+      ).toBe('product_changed');
+    });
+
+    it('should return null when nothing changed', () => {
+      const plus = { tier: 'plus', productId: 'plus_monthly' };
+
+      expect(classifyTransition(free, free, registry)).toBeNull();
+      expect(classifyTransition(plus, { ...plus }, registry)).toBeNull();
+    });
+  });
+
+  describe('toEventState', () => {
+    it('should treat an inactive subscription as free', () => {
+      expect(
+        toEventState({ ...paid('plus', 'plus_monthly'), isActive: false })
+      ).toEqual({ tier: 'free', productId: null });
+    });
+  });
+
+  describe('record', () => {
+    it('should record the first paid subscription as started', async () => {
+      const { repository, events } = createMemoryRepository();
+      const service = createService(repository);
+
+      const result = await service.record(paid('plus', 'plus_monthly'));
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          id: 1,
+          type: 'started',
+          fromTier: 'free',
+          toTier: 'plus',
+          productId: 'plus_monthly',
+          expiresAt: new Date('2026-04-01T00:00:00Z'),
+          occurredAt: NOW,
+        },
+      });
+      expect(events).toHaveLength(1);
+    });
+
+    it('should not record repeated or free states', async () => {
+      const { repository, events } = createMemoryRepository();
+      const service = createService(repository);
+
+      await service.record(DEFAULT_FREE_SUBSCRIPTION);
+      await service.record(paid('plus', 'plus_monthly'));
+      const repeated = await service.record(paid('plus', 'plus_monthly'));
+
+      expect(repeated).toEqual({ success: true, data: null });
+      expect(events.map((event) => event.type)).toEqual(['started']);
+    });
+
+    it('should compare against the latest persisted event', async () => {
+      // Given: a previous launch recorded a plus subscription
+      const { repository, events } = createMemoryRepository([
+        {
+          id: 1,
+          type: 'started',
+          fromTier: 'free',
+          toTier: 'plus',
+          productId: 'plus_monthly',
+          expiresAt: null,
+          occurredAt: new Date('2026-01-01T00:00:00Z'),
+        },
+      ]);
+      const service = createService(repository);
+
+      // When: the user upgrades, then the subscription lapses
+      await service.record(paid('pro', 'pro_annual'));
+      await service.record({
+        ...paid('pro', 'pro_annual'),
+        isActive: false,
+      });
+
+      // Then: both transitions are recorded from the persisted state
+      expect(events.slice(1)).toEqual([
+        expect.objectContaining({
+          type: 'upgraded',
+          fromTier: 'plus',
+          toTier: 'pro',
+          productId: 'pro_annual',
+        }),
+        expect.objectContaining({
+          type: 'ended',
+          fromTier: 'pro',
+          toTier: 'free',
+          productId: null,
+          expiresAt: null,
+        }),
+      ]);
+    });
+
+    it('should return STORAGE_ERROR and log when the write fails', async () => {
+      const { repository } = createMemoryRepository();
+      jest
+        .mocked(repository.appendFromLatest)
+        .mockRejectedValue(new Error('disk I/O error'));
+      const logger = jest.fn();
+      const service = createSubscriptionEventService({ repository, logger });
+
+      const result = await service.record(paid('premium', 'monthly_plan'));
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'STORAGE_ERROR',
+          message: 'disk I/O error',
+        }),
+      });
+      expect(logger).toHaveBeenCalledWith(
+        'error',
+        'Failed to record subscription event',
+        { errorMessage: 'disk I/O error' }
+      );
+    });
+  });
+
+  describe('queries', () => {
+    async function recordHistory() {
+      const { repository } = createMemoryRepository();
+      let clock = new Date('2026-01-01T00:00:00Z');
+      const service = createSubscriptionEventService({
+        repository,
+        getRegistry: () => registry,
+        now: () => clock,
+      });
+
+      await service.record(paid('plus', 'plus_monthly'));
+      clock = new Date('2026-02-01T00:00:00Z');
+      await service.record(DEFAULT_FREE_SUBSCRIPTION);
+      clock = new Date('2026-03-01T00:00:00Z');
+      await service.record(paid('pro', 'pro_monthly'));
+      return service;
+    }
+
+    it('should list events newest first with pagination', async () => {
+      const service = await recordHistory();
+
+      const all = await service.getEvents();
+      const page = await service.getEvents({ limit: 1, offset: 1 });
+
+      expect(all.success && all.data.map((event) => event.type)).toEqual([
+        'started',
+        'ended',
+        'started',
+      ]);
+      expect(page.success && page.data.map((event) => event.type)).toEqual([
+        'ended',
+      ]);
+    });
+
+    it('should return the latest event', async () => {
+      const service = await recordHistory();
+
+      const result = await service.getLatestEvent();
+
+      expect(result.success && result.data?.toTier).toBe('pro');
+    });
+
+    it('should return the first start as member since', async () => {
+      const service = await recordHistory();
+
+      expect(await service.getMemberSince()).toEqual({
+        success: true,
+        data: new Date('2026-01-01T00:00:00Z'),
+      });
+    });
+
+    it('should return null member since when the user never subscribed', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createService(repository);
+
+      expect(await service.getMemberSince()).toEqual({
+        success: true,
+        data: null,
+      });
+      expect(await service.getLatestEvent()).toEqual({
+        success: true,
+        data: null,
+      });
+    });
+
+    it('should map read failures to STORAGE_ERROR', async () => {
+      const { repository } = createMemoryRepository();
+      jest.mocked(repository.list).mockRejectedValue(new Error('locked'));
+      const service = createService(repository);
+
+      const result = await service.getEvents();
+
+      expect(!result.success && result.error.code).toBe('STORAGE_ERROR');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * Subscription Events Core Module
+ *
+ * Exports domain types, the SQLite repository and the event service.
+ *
+ * @module features/subscription-events/core
+ */
+
+// Repository
+export {
+  createSqliteSubscriptionEventRepository,
+  subscriptionEventRepository,
+} from './repository';
+
+export type { SubscriptionEventRepository } from './repository';
+
+// Service
+export {
+  createSubscriptionEventService,
+  subscriptionEventService,
+  classifyTransition,
+  toEventState,
+  DEFAULT_SUBSCRIPTION_EVENT_LIMIT,
+} from './service';
+
+export type {
+  SubscriptionEventService,
+  SubscriptionEventServiceConfig,
+  SubscriptionEventState,
+} from './service';
+
+// Domain Types
+export type {
+  SubscriptionEventType,
+  SubscriptionEventQuery,
+  SubscriptionEventError,
+  SubscriptionEventErrorCode,
+} from './types';
@@ -0,0 +1,112 @@
+/**
+ * Subscription Event Repository
+ *
+ * SQLite access for the subscription_events table.
+ *
+ * Appending reads the latest event and inserts the next one inside one
+ * transaction, so two state changes arriving together cannot both be
+ * compared against the same previous event.
+ *
+ * @module features/subscription-events/core/repository
+ */
+
+import { asc, desc, eq } from 'drizzle-orm';
+
+import { db } from '@/database/client';
+import {
+  subscriptionEvents,
+  type NewSubscriptionEvent,
+  type SubscriptionEvent,
+} from '@/database/schema';
+import type { SubscriptionEventType } from './types';
+
+/**
+ * Subscription event repository interface.
+ * Methods throw on storage failure; the service maps failures to STORAGE_ERROR.
+ */
+export interface SubscriptionEventRepository {
+  /**
+   * Insert the event built from the latest recorded one.
+   *
+   * @param build - Returns the event to insert, or null to skip
+   * @returns The inserted event, or null if `build` returned null
+   */
+  appendFromLatest(
+    build: (latest: SubscriptionEvent | null) => NewSubscriptionEvent | null
+  ): Promise<SubscriptionEvent | null>;
+
+  /**
+   * Read events, newest first.
+   */
+  list(limit: number, offset: number): Promise<SubscriptionEvent[]>;
+
+  /**
+   * Read the oldest event of a type.
+   */
+  findFirst(type: SubscriptionEventType): Promise<SubscriptionEvent | null>;
+}
+
+type Database = typeof db;
+
+function readLatest(database: Database): SubscriptionEvent | null {
+  return (
+    database
+      .select()
+      .from(subscriptionEvents)
+      .orderBy(desc(subscriptionEvents.id))
+      .limit(1)
+      .get() ?? null
+  );
+}
+
+/**
+ * Create a subscription event repository backed by the app's SQLite database.
+ *
+ * @param database - Drizzle database (defaults to the app database)
+ * @returns SubscriptionEventRepository
+ */
+export function createSqliteSubscriptionEventRepository(
+  database: Database = db
+): SubscriptionEventRepository {
+  return {
+    async appendFromLatest(build): Promise<SubscriptionEvent | null> {
+      return database.transaction((tx) => {
+        const values = build(readLatest(tx));
+        if (values === null) {
+          return null;
+        }
+        return tx.insert(subscriptionEvents).values(values).returning().get();
+      });
+    },
+
+    async list(limit: number, offset: number): Promise<SubscriptionEvent[]> {
+      return database
+        .select()
+        .from(subscriptionEvents)
+        .orderBy(desc(subscriptionEvents.id))
+        .limit(limit)
+        .offset(offset)
+        .all();
+    },
+
+    async findFirst(
+      type: SubscriptionEventType
+    ): Promise<SubscriptionEvent | null> {
+      return (
+        database
+          .select()
+          .from(subscriptionEvents)
+          .where(eq(subscriptionEvents.type, type))
+          .orderBy(asc(subscriptionEvents.id))
+          .limit(1)
+          .get() ?? null
+      );
+    },
+  };
+}
+
+/**
+ * Default subscription event repository using the app database.
+ */
+export const subscriptionEventRepository: SubscriptionEventRepository =
+  createSqliteSubscriptionEventRepository();
@@ -0,0 +1,298 @@
+/**
+ * Subscription Event Service
+ *
+ * Records subscription lifecycle transitions and answers questions about
+ * them ("member since", what happened before a support ticket).
+ *
+ * This module is responsible for:
+ * - Comparing each Subscription from onStateChange with the latest event
+ * - Appending an event when the tier or product changed
+ * - Reading the event log back, newest first
+ *
+ * Transitions are compared against the log rather than the previous
+ * in-memory state, so restoring the same state from cache on the next launch
+ * records nothing.
+ *
+ * @module features/subscription-events/core/service
+ */
+
+import type { SubscriptionEvent } from '@/database/schema';
+import {
+  getEntitlementRegistry,
+  getTierRank,
+  isPaidTier,
+} from '@/features/subscription/core/entitlements';
+import type { SubscriptionLogger } from '@/features/subscription/core/service';
+import {
+  FREE_TIER,
+  type EntitlementRegistry,
+  type Result,
+  type Subscription,
+  type SubscriptionTier,
+} from '@/features/subscription/core/types';
+import {
+  subscriptionEventRepository,
+  type SubscriptionEventRepository,
+} from './repository';
+import type {
+  SubscriptionEventError,
+  SubscriptionEventQuery,
+  SubscriptionEventType,
+} from './types';
+
+/**
+ * Default number of events returned by getEvents.
+ */
+export const DEFAULT_SUBSCRIPTION_EVENT_LIMIT = 50;
+
+/**
+ * Tier and product a transition starts from.
+ */
+export interface SubscriptionEventState {
+  tier: SubscriptionTier;
+  productId: string | null;
+}
+
+/**
+ * State before any event was recorded.
+ */
+const INITIAL_STATE: SubscriptionEventState = {
+  tier: FREE_TIER,
+  productId: null,
+};
+
+/**
+ * Tier and product a subscription grants (free once it is no longer active).
+ *
+ * @param subscription - Subscription from the service
+ * @returns SubscriptionEventState
+ */
+export function toEventState(
+  subscription: Subscription
+): SubscriptionEventState {
+  return subscription.isActive
+    ? { tier: subscription.tier, productId: subscription.productId }
+    : INITIAL_STATE;
+}
+
+/**
+ * Classify the transition between two states.
+ *
+ * @param from - State recorded by the latest event
+ * @param to - State of the new subscription
+ * @param registry - Entitlement registry used to rank tiers
+ * @returns The event type, or null if nothing changed
+ *
+ * @example
+ * ```ts
+ * classifyTransition(
+ *   { tier: 'free', productId: null },
+ *   { tier: 'premium', productId: 'monthly_plan' }
+ * ); // 'started'
+ * ```
+ */
+export function classifyTransition(
+  from: SubscriptionEventState,
+  to: SubscriptionEventState,
+  registry: EntitlementRegistry = getEntitlementRegistry()
+): SubscriptionEventType | null {
+  const wasPaid = isPaidTier(from.tier, registry);
+  const isPaid = isPaidTier(to.tier, registry);
+
+  if (!wasPaid) {
+    return isPaid ? 'started' : null;
+  }
+  if (!isPaid) {
+    return 'ended';
+  }
+
+  const rankChange =
+    getTierRank(to.tier, registry) - getTierRank(from.tier, registry);
+  if (rankChange > 0) {
+    return 'upgraded';
+  }
+  if (rankChange < 0) {
+    return 'downgraded';
+  }
+  return from.productId === to.productId ? null : 'product_changed';
+}
+
+/**
+ * Map a repository failure to a STORAGE_ERROR.
+ */
+function storageError(cause: unknown): SubscriptionEventError {
+  return {
+    code: 'STORAGE_ERROR',
+    message:
+      cause instanceof Error
+        ? cause.message
+        : 'Subscription event storage failed',
+    cause,
+  };
+}
+
+/**
+ * Subscription event service configuration.
+ */
+export interface SubscriptionEventServiceConfig {
+  /** Repository for reading and appending events */
+  repository: SubscriptionEventRepository;
+  /** Entitlement registry used to rank tiers (defaults to the configured registry) */
+  getRegistry?: () => EntitlementRegistry;
+  /** Logger for recorded events and storage failures */
+  logger?: SubscriptionLogger;
+  /** Clock (injectable for testing) */
+  now?: () => Date;
+}
+
+/**
+ * Subscription event service interface.
+ */
+export interface SubscriptionEventService {
+  /**
+   * Record the transition to `subscription`, if any.
+   * Call from the subscription service's onStateChange for 'remote' state
+   * only: cached and free fallbacks are not real transitions.
+   *
+   * @returns The recorded event, or null if the tier and product did not change
+   */
+  record(
+    subscription: Subscription
+  ): Promise<Result<SubscriptionEvent | null, SubscriptionEventError>>;
+
+  /**
+   * Read recorded events, newest first.
+   */
+  getEvents(
+    query?: SubscriptionEventQuery
+  ): Promise<Result<SubscriptionEvent[], SubscriptionEventError>>;
+
+  /**
+   * Read the most recent event.
+   */
+  getLatestEvent(): Promise<
+    Result<SubscriptionEvent | null, SubscriptionEventError>
+  >;
+
+  /**
+   * When the user first started a paid subscription on this device.
+   *
+   * @returns The date, or null if the user never subscribed
+   */
+  getMemberSince(): Promise<Result<Date | null, SubscriptionEventError>>;
+}
+
+/**
+ * Create a subscription event service.
+ *
+ * @param config - Service configuration
+ * @returns SubscriptionEventService
+ *
+ * @example
+ * ```ts
+ * const events = createSubscriptionEventService({
+ *   repository: subscriptionEventRepository,
+ * });
+ *
+ * const service = createSubscriptionService({
+ *   repository: subscriptionRepository,
+ *   onStateChange: (subscription, source) => {
+ *     if (source === 'remote') {
+ *       void events.record(subscription);
+ *     }
+ *   },
+ * });
+ *
+ * const memberSince = await events.getMemberSince();
+ * ```
+ */
+export function createSubscriptionEventService(
+  config: SubscriptionEventServiceConfig
+): SubscriptionEventService {
+  const {
+    repository,
+    getRegistry = getEntitlementRegistry,
+    logger,
+    now = () => new Date(),
+  } = config;
+
+  return {
+    async record(
+      subscription: Subscription
+    ): Promise<Result<SubscriptionEvent | null, SubscriptionEventError>> {
+      const to = toEventState(subscription);
+      try {
+        const event = await repository.appendFromLatest((latest) => {
+          const from = latest
+            ? { tier: latest.toTier, productId: latest.productId }
+            : INITIAL_STATE;
+          const type = classifyTransition(from, to, getRegistry());
+          if (type === null) {
+            return null;
+          }
+          return {
+            type,
+            fromTier: from.tier,
+            toTier: to.tier,
+            productId: to.productId,
+            expiresAt: subscription.isActive ? subscription.expiresAt : null,
+            occurredAt: now(),
+          };
+        });
+        if (event) {
+          logger?.('info', 'Recorded subscription event', {
+            type: event.type,
+            fromTier: event.fromTier,
+            toTier: event.toTier,
+          });
+        }
+        return { success: true, data: event };
+      } catch (error) {
+        const storageFailure = storageError(error);
+        logger?.('error', 'Failed to record subscription event', {
+          errorMessage: storageFailure.message,
+        });
+        return { success: false, error: storageFailure };
+      }
+    },
+
+    async getEvents(
+      query: SubscriptionEventQuery = {}
+    ): Promise<Result<SubscriptionEvent[], SubscriptionEventError>> {
+      const { limit = DEFAULT_SUBSCRIPTION_EVENT_LIMIT, offset = 0 } = query;
+      try {
+        return { success: true, data: await repository.list(limit, offset) };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async getLatestEvent(): Promise<
+      Result<SubscriptionEvent | null, SubscriptionEventError>
+    > {
+      try {
+        const [latest] = await repository.list(1, 0);
+        return { success: true, data: latest ?? null };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async getMemberSince(): Promise<
+      Result<Date | null, SubscriptionEventError>
+    > {
+      try {
+        const first = await repository.findFirst('started');
+        return { success: true, data: first?.occurredAt ?? null };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+  };
+}
+
+/**
+ * Default subscription event service using the app database.
+ */
+export const subscriptionEventService: SubscriptionEventService =
+  createSubscriptionEventService({ repository: subscriptionEventRepository });
@@ -0,0 +1,43 @@
+/**
+ * Subscription Event Domain Types
+ *
+ * Types for the subscription lifecycle log stored in SQLite.
+ *
+ * @module features/subscription-events/core/types
+ */
+
+import type { SubscriptionEvent } from '@/database/schema';
+
+/**
+ * Lifecycle transition recorded in the subscription_events table.
+ * - 'started': Free to a paid tier (first purchase, resubscribe, restore)
+ * - 'upgraded': Paid tier to a higher-ranked paid tier
+ * - 'downgraded': Paid tier to a lower-ranked paid tier
+ * - 'product_changed': Same tier, different product (e.g., monthly to annual)
+ * - 'ended': Paid tier to free (expiry, refund, or switching to another app user)
+ */
+export type SubscriptionEventType = SubscriptionEvent['type'];
+
+/**
+ * Pagination for reading the event log.
+ */
+export interface SubscriptionEventQuery {
+  /** Maximum number of events returned (defaults to 50) */
+  limit?: number;
+  /** Number of newest events skipped (defaults to 0) */
+  offset?: number;
+}
+
+/**
+ * Subscription event error types.
+ */
+export type SubscriptionEventError = {
+  code: 'STORAGE_ERROR';
+  message: string;
+  cause?: unknown;
+};
+
+/**
+ * Subscription event error code type for type-safe error handling.
+ */
+export type SubscriptionEventErrorCode = SubscriptionEventError['code'];
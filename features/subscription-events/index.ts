@@ -0,0 +1,26 @@
+/**
+ * Subscription Events Feature Module
+ *
+ * Persists subscription lifecycle transitions (tier and product changes) in
+ * SQLite for "member since" and support debugging.
+ *
+ * @module features/subscription-events
+ */
+
+// Core exports
+export {
+  createSubscriptionEventService,
+  subscriptionEventService,
+  classifyTransition,
+  DEFAULT_SUBSCRIPTION_EVENT_LIMIT,
+} from './core';
+
+export type {
+  SubscriptionEventService,
+  SubscriptionEventType,
+  SubscriptionEventQuery,
+  SubscriptionEventError,
+  SubscriptionEventErrorCode,
+} from './core';
+
+export type { SubscriptionEvent } from '@/database/schema';
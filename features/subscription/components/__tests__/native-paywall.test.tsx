@@ -0,0 +1,489 @@
+/**
+ * NativePaywall Component Tests
+ *
+ * Tests the first-party paywall rendered from SubscriptionPackage data.
+ *
+ * Test Coverage:
+ * - Package list, annual savings badge and intro offer terms (hidden when ineligible)
+ * - Packages of a placement's offering, falling back to the current offering
+ * - Purchase and restore through the SubscriptionProvider
+ * - Error display by error code (user cancellation is silent)
+ * - Legal links and empty state
+ *
+ * @module features/subscription/components/__tests__/native-paywall.test
+ */
+
+import React from 'react';
+import {
+  render,
+  fireEvent,
+  waitFor,
+  screen,
+} from '@testing-library/react-native';
+import * as WebBrowser from 'expo-web-browser';
+
+import { NativePaywall, type NativePaywallProps } from '../native-paywall';
+import { SubscriptionProvider } from '../../providers/subscription-provider';
+import type { SubscriptionService } from '../../core/service';
+import type {
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+} from '../../core/types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../../core/types';
+
+jest.mock('expo-web-browser', () => ({
+  openBrowserAsync: jest.fn().mockResolvedValue({ type: 'opened' }),
+}));
+
+const monthlyPackage: SubscriptionPackage = {
+  identifier: '$rc_monthly',
+  packageType: 'MONTHLY',
+  title: 'Monthly',
+  priceString: '$9.99',
+  price: 9.99,
+  currencyCode: 'USD',
+};
+
+const annualPackage: SubscriptionPackage = {
+  identifier: '$rc_annual',
+  packageType: 'ANNUAL',
+  title: 'Annual',
+  priceString: '$99.99',
+  price: 99.99,
+  currencyCode: 'USD',
+  introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+};
+
+const premiumSubscription: Subscription = {
+  isActive: true,
+  tier: 'premium',
+  expiresAt: new Date('2030-01-01'),
+  productId: 'annual_plan',
+  willRenew: true,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+};
+
+// Mock service factory
+const createMockService = (
+  overrides: Partial<SubscriptionService> = {}
+): SubscriptionService => ({
+  getCurrentSubscription: jest.fn(() => DEFAULT_FREE_SUBSCRIPTION),
+  getSubscriptionSource: jest.fn((): SubscriptionSource | null => 'remote'),
+  restoreFromCache: jest.fn(async (): Promise<Subscription | null> => null),
+  getSubscription: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: DEFAULT_FREE_SUBSCRIPTION,
+    })
+  ),
+  purchasePackage: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: premiumSubscription,
+    })
+  ),
+  restorePurchases: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: premiumSubscription,
+    })
+  ),
+  getPackages: jest.fn(
+    async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+      success: true,
+      data: [monthlyPackage, annualPackage],
+    })
+  ),
+  getCachedPackages: jest.fn(() => null),
+  checkIntroEligibility: jest.fn(
+    async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+      success: true,
+      data: [monthlyPackage, annualPackage],
+    })
+  ),
+  getOffers: jest.fn(
+    async (): Promise<Result<SubscriptionOffer[], SubscriptionError>> => ({
+      success: true,
+      data: [],
+    })
+  ),
+  getOfferingPackages: jest.fn(
+    async (): Promise<
+      Result<SubscriptionPackage[] | null, SubscriptionError>
+    > => ({
+      success: true,
+      data: null,
+    })
+  ),
+  purchasePackageWithOffer: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: premiumSubscription,
+    })
+  ),
+  redeemOfferCode: jest.fn(
+    async (): Promise<Result<void, SubscriptionError>> => ({
+      success: true,
+      data: undefined,
+    })
+  ),
+  openManagementUrl: jest.fn(
+    async (): Promise<Result<void, SubscriptionError>> => ({
+      success: true,
+      data: undefined,
+    })
+  ),
+  purchaseProduct: jest.fn(
+    async (
+      productId: string
+    ): Promise<Result<ProductPurchase, SubscriptionError>> => ({
+      success: true,
+      data: {
+        productId,
+        transactionId: 'transaction-1',
+        subscription: DEFAULT_FREE_SUBSCRIPTION,
+      },
+    })
+  ),
+  beginRefundRequest: jest.fn(
+    async (): Promise<Result<RefundRequestStatus, SubscriptionError>> => ({
+      success: true,
+      data: 'submitted',
+    })
+  ),
+  logIn: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: DEFAULT_FREE_SUBSCRIPTION,
+    })
+  ),
+  logOut: jest.fn(
+    async (): Promise<Result<Subscription, SubscriptionError>> => ({
+      success: true,
+      data: DEFAULT_FREE_SUBSCRIPTION,
+    })
+  ),
+  clearCache: jest.fn(async (): Promise<void> => {}),
+  subscribeToUpdates: jest.fn(() => jest.fn()),
+  ...overrides,
+});
+
+function renderPaywall(
+  service: SubscriptionService,
+  props: NativePaywallProps = {}
+) {
+  return render(
+    <SubscriptionProvider service={service}>
+      <NativePaywall {...props} />
+    </SubscriptionProvider>
+  );
+}
+
+describe('NativePaywall Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('rendering', () => {
+    it('should list every package with its billing period', async () => {
+      renderPaywall(createMockService());
+
+      await waitFor(() => {
+        expect(screen.getByText('$9.99 / month')).toBeTruthy();
+      });
+      expect(screen.getByText('$99.99 / year')).toBeTruthy();
+    });
+
+    it('should highlight annual savings versus monthly', async () => {
+      renderPaywall(createMockService());
+
+      await waitFor(() => {
+        expect(screen.getByTestId('native-paywall-savings-badge')).toBeTruthy();
+      });
+      expect(screen.getByText('Save 17%')).toBeTruthy();
+    });
+
+    it('should preselect the annual plan and show its trial terms', async () => {
+      renderPaywall(createMockService());
+
+      await waitFor(() => {
+        expect(
+          screen.getByTestId('native-paywall-package-$rc_annual').props
+            .accessibilityState
+        ).toEqual({ selected: true });
+      });
+      expect(screen.getByText('Start Free Trial')).toBeTruthy();
+      expect(
+        screen.getByTestId('native-paywall-intro-terms').props.children
+      ).toBe('1 week free, then $99.99 / year.');
+    });
+
+    it('should hide trial terms the user is not eligible for', async () => {
+      const { introPrice: _introPrice, ...annualWithoutIntro } = annualPackage;
+      const service = createMockService({
+        checkIntroEligibility: jest.fn(async () => ({
+          success: true as const,
+          data: [monthlyPackage, annualWithoutIntro],
+        })),
+      });
+
+      renderPaywall(service);
+
+      await waitFor(() => {
+        expect(service.checkIntroEligibility).toHaveBeenCalled();
+        expect(screen.queryByTestId('native-paywall-intro-terms')).toBeNull();
+      });
+      expect(screen.queryByText('Start Free Trial')).toBeNull();
+    });
+
+    it('should show an empty state with retry when no packages are available', async () => {
+      const service = createMockService({
+        getPackages: jest.fn(async () => ({
+          success: true as const,
+          data: [],
+        })),
+      });
+
+      renderPaywall(service);
+
+      await waitFor(() => {
+        expect(screen.getByTestId('native-paywall-retry-button')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-retry-button'));
+
+      await waitFor(() => {
+        expect(service.getPackages).toHaveBeenLastCalledWith({
+          forceRefresh: true,
+        });
+      });
+    });
+  });
+
+  describe('offering', () => {
+    const discountPackage: SubscriptionPackage = {
+      identifier: '$rc_annual',
+      packageType: 'ANNUAL',
+      title: 'Annual',
+      priceString: '$49.99',
+      price: 49.99,
+      currencyCode: 'USD',
+    };
+
+    it('should show and purchase the packages of the given offering', async () => {
+      const service = createMockService({
+        getOfferingPackages: jest.fn(
+          async (): Promise<
+            Result<SubscriptionPackage[] | null, SubscriptionError>
+          > => ({
+            success: true,
+            data: [discountPackage],
+          })
+        ),
+      });
+      renderPaywall(service, { offeringId: 'limit_reached' });
+
+      await waitFor(() => {
+        expect(screen.getByText('$49.99 / year')).toBeTruthy();
+      });
+      expect(service.getOfferingPackages).toHaveBeenCalledWith('limit_reached');
+      expect(screen.queryByText('$9.99 / month')).toBeNull();
+      expect(service.checkIntroEligibility).not.toHaveBeenCalled();
+
+      fireEvent.press(screen.getByTestId('native-paywall-purchase-button'));
+
+      await waitFor(() => {
+        expect(service.purchasePackage).toHaveBeenCalledWith(
+          '$rc_annual',
+          'limit_reached'
+        );
+      });
+    });
+
+    it('should fall back to the current offering when the offering is missing', async () => {
+      const service = createMockService();
+      renderPaywall(service, { offeringId: 'missing' });
+
+      await waitFor(() => {
+        expect(screen.getByText('$9.99 / month')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-purchase-button'));
+
+      await waitFor(() => {
+        expect(service.purchasePackage).toHaveBeenCalledWith(
+          '$rc_annual',
+          undefined
+        );
+      });
+    });
+  });
+
+  describe('purchase flow', () => {
+    it('should purchase the selected package and call onPurchaseSuccess', async () => {
+      const service = createMockService();
+      const onPurchaseSuccess = jest.fn();
+      renderPaywall(service, { onPurchaseSuccess });
+
+      await waitFor(() => {
+        expect(screen.getByText('$9.99 / month')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-package-$rc_monthly'));
+      fireEvent.press(screen.getByTestId('native-paywall-purchase-button'));
+
+      await waitFor(() => {
+        expect(onPurchaseSuccess).toHaveBeenCalledTimes(1);
+      });
+      expect(service.purchasePackage).toHaveBeenCalledWith(
+        '$rc_monthly',
+        undefined
+      );
+    });
+
+    it('should show the error and call onError when purchase fails', async () => {
+      const networkError: SubscriptionError = {
+        code: 'NETWORK_ERROR',
+        message: 'Network unavailable',
+        retryable: true,
+      };
+      const service = createMockService({
+        purchasePackage: jest.fn(async () => ({
+          success: false as const,
+          error: networkError,
+        })),
+      });
+      const onError = jest.fn();
+      const onPurchaseSuccess = jest.fn();
+      renderPaywall(service, { onError, onPurchaseSuccess });
+
+      await waitFor(() => {
+        expect(screen.getByText('$99.99 / year')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-purchase-button'));
+
+      await waitFor(() => {
+        expect(onError).toHaveBeenCalledWith(networkError);
+      });
+      expect(screen.getByTestId('native-paywall-error').props.children).toBe(
+        'A network error occurred. Please check your connection and try again.'
+      );
+      expect(onPurchaseSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should stay silent when the user cancels the purchase', async () => {
+      const service = createMockService({
+        purchasePackage: jest.fn(async () => ({
+          success: false as const,
+          error: {
+            code: 'PURCHASE_CANCELLED' as const,
+            message: 'User cancelled',
+            retryable: false as const,
+          },
+        })),
+      });
+      const onError = jest.fn();
+      renderPaywall(service, { onError });
+
+      await waitFor(() => {
+        expect(screen.getByText('$99.99 / year')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-purchase-button'));
+
+      await waitFor(() => {
+        expect(service.purchasePackage).toHaveBeenCalled();
+      });
+      expect(onError).not.toHaveBeenCalled();
+      expect(screen.queryByTestId('native-paywall-error')).toBeNull();
+    });
+  });
+
+  describe('restore flow', () => {
+    it('should restore purchases and call onRestoreSuccess', async () => {
+      const service = createMockService();
+      const onRestoreSuccess = jest.fn();
+      renderPaywall(service, { onRestoreSuccess });
+
+      await waitFor(() => {
+        expect(screen.getByText('$99.99 / year')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-restore-button'));
+
+      await waitFor(() => {
+        expect(onRestoreSuccess).toHaveBeenCalledTimes(1);
+      });
+      expect(service.restorePurchases).toHaveBeenCalledTimes(1);
+    });
+
+    it('should show the nothing-to-restore message when no purchases are found', async () => {
+      const service = createMockService({
+        restorePurchases: jest.fn(async () => ({
+          success: false as const,
+          error: {
+            code: 'NO_ACTIVE_SUBSCRIPTION' as const,
+            message: 'No active subscription found',
+            retryable: false as const,
+          },
+        })),
+      });
+      const onError = jest.fn();
+      const onRestoreSuccess = jest.fn();
+      renderPaywall(service, { onError, onRestoreSuccess });
+
+      await waitFor(() => {
+        expect(screen.getByText('$99.99 / year')).toBeTruthy();
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-restore-button'));
+
+      await waitFor(() => {
+        expect(screen.getByTestId('native-paywall-error').props.children).toBe(
+          'No purchases available to restore.'
+        );
+      });
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'NO_ACTIVE_SUBSCRIPTION' })
+      );
+      expect(onRestoreSuccess).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('legal links', () => {
+    it('should open the Terms of Use and Privacy Policy URLs', async () => {
+      renderPaywall(createMockService(), {
+        termsOfUseUrl: 'https://example.com/terms',
+        privacyPolicyUrl: 'https://example.com/privacy',
+      });
+
+      fireEvent.press(screen.getByTestId('native-paywall-terms-link'));
+      fireEvent.press(screen.getByTestId('native-paywall-privacy-link'));
+
+      expect(WebBrowser.openBrowserAsync).toHaveBeenCalledWith(
+        'https://example.com/terms'
+      );
+      expect(WebBrowser.openBrowserAsync).toHaveBeenCalledWith(
+        'https://example.com/privacy'
+      );
+    });
+
+    it('should call onDismiss when the close button is pressed', () => {
+      const onDismiss = jest.fn();
+      renderPaywall(createMockService(), { onDismiss });
+
+      fireEvent.press(screen.getByTestId('native-paywall-close-button'));
+
+      expect(onDismiss).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -15,8 +15,10 @@
 
 import React from 'react';
 import { render, fireEvent, waitFor } from '@testing-library/react-native';
+import Purchases from 'react-native-purchases';
 import { Paywall, PaywallProps } from '../paywall';
 import { resetPaywallMock } from '../../../../__mocks__/react-native-purchases-ui';
+import { resetMock } from '../../../../__mocks__/react-native-purchases';
 
 // Mock expo-router
 const mockRouterBack = jest.fn();
@@ -33,6 +35,7 @@ describe('Paywall Component', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     resetPaywallMock();
+    resetMock();
     mockCanGoBack.mockReturnValue(true);
   });
 
@@ -59,6 +62,87 @@ describe('Paywall Component', () => {
     });
   });
 
+  /**
+   * Given: The paywall is opened with an offering identifier
+   * When: The offering is resolved
+   * Then: The RevenueCat paywall presents that offering
+   */
+  describe('offering selection', () => {
+    const limitOffering = {
+      identifier: 'limit_reached',
+      serverDescription: 'Limit reached',
+      availablePackages: [],
+    };
+
+    it('should present the offering with the given identifier', async () => {
+      // Given
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: null,
+        all: { limit_reached: limitOffering },
+      });
+
+      // When
+      const { findByTestId } = render(<Paywall offeringId="limit_reached" />);
+
+      // Then
+      expect((await findByTestId('mock-paywall-offering')).props.children).toBe(
+        'limit_reached'
+      );
+    });
+
+    it('should show a loading indicator while the offering resolves', () => {
+      // Given/When
+      const { getByTestId, queryByTestId } = render(
+        <Paywall offeringId="limit_reached" />
+      );
+
+      // Then
+      expect(getByTestId('paywall-offering-loading')).toBeTruthy();
+      expect(queryByTestId('mock-paywall')).toBeNull();
+    });
+
+    it('should fall back to the default offering for unknown identifiers', async () => {
+      // Given/When
+      const { findByTestId } = render(<Paywall offeringId="missing" />);
+
+      // Then
+      expect((await findByTestId('mock-paywall-offering')).props.children).toBe(
+        'default'
+      );
+    });
+
+    it('should fall back to the default offering when the lookup fails', async () => {
+      // Given
+      (Purchases.getOfferings as jest.Mock).mockRejectedValueOnce(
+        new Error('Network error')
+      );
+
+      // When
+      const { findByTestId } = render(<Paywall offeringId="limit_reached" />);
+
+      // Then
+      expect((await findByTestId('mock-paywall-offering')).props.children).toBe(
+        'default'
+      );
+    });
+
+    it('should not look up an identifier when an offering is provided', () => {
+      // Given/When
+      const { getByTestId } = render(
+        <Paywall
+          offering={limitOffering as unknown as PaywallProps['offering']}
+          offeringId="other"
+        />
+      );
+
+      // Then
+      expect(getByTestId('mock-paywall-offering').props.children).toBe(
+        'limit_reached'
+      );
+      expect(Purchases.getOfferings).not.toHaveBeenCalled();
+    });
+  });
+
   /**
    * Given: User completes a purchase successfully
    * When: The purchase flow finishes
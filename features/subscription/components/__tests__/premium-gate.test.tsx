@@ -0,0 +1,128 @@
+/**
+ * PremiumGate Component Tests
+ *
+ * Tests the declarative feature gate.
+ *
+ * Test Coverage:
+ * - Children rendered when the tier satisfies the level
+ * - Default lock state and custom fallback when it does not
+ * - Unlock opens /paywall with the gating feature
+ * - Nothing rendered until the subscription has loaded
+ *
+ * @module features/subscription/components/__tests__/premium-gate.test
+ */
+
+import React from 'react';
+import { Text } from 'react-native';
+import { render, fireEvent, screen } from '@testing-library/react-native';
+
+import { PremiumGate } from '../premium-gate';
+import type {
+  FeatureLevel,
+  Subscription,
+  SubscriptionTier,
+} from '../../core/types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../../core/types';
+
+const mockPush = jest.fn();
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+let mockSubscription: Subscription | null = null;
+jest.mock('../../hooks/use-subscription', () => ({
+  useSubscription: () => {
+    const { canAccessFeature } =
+      jest.requireActual<typeof import('../../core/service')>(
+        '../../core/service'
+      );
+    const tier: SubscriptionTier = mockSubscription?.tier ?? 'free';
+    return {
+      subscription: mockSubscription,
+      canAccessFeature: (level: FeatureLevel) => canAccessFeature(level, tier),
+    };
+  },
+}));
+
+const premiumSubscription: Subscription = {
+  ...DEFAULT_FREE_SUBSCRIPTION,
+  isActive: true,
+  tier: 'premium',
+  productId: 'monthly_plan',
+};
+
+describe('PremiumGate Component', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSubscription = DEFAULT_FREE_SUBSCRIPTION;
+  });
+
+  it('should render children when the user has the required level', () => {
+    mockSubscription = premiumSubscription;
+
+    render(
+      <PremiumGate level="premium">
+        <Text testID="gated-content">Reports</Text>
+      </PremiumGate>
+    );
+
+    expect(screen.getByTestId('gated-content')).toBeTruthy();
+    expect(screen.queryByTestId('premium-gate-locked')).toBeNull();
+  });
+
+  it('should render the lock state for free users', () => {
+    render(
+      <PremiumGate level="premium">
+        <Text testID="gated-content">Reports</Text>
+      </PremiumGate>
+    );
+
+    expect(screen.getByTestId('premium-gate-locked')).toBeTruthy();
+    expect(
+      screen.getByText('Upgrade to Premium to unlock this feature.')
+    ).toBeTruthy();
+    expect(screen.queryByTestId('gated-content')).toBeNull();
+  });
+
+  it('should render the fallback instead of the lock state', () => {
+    render(
+      <PremiumGate
+        level="premium"
+        fallback={<Text testID="custom-upsell">Go premium</Text>}
+      >
+        <Text>Reports</Text>
+      </PremiumGate>
+    );
+
+    expect(screen.getByTestId('custom-upsell')).toBeTruthy();
+    expect(screen.queryByTestId('premium-gate-locked')).toBeNull();
+  });
+
+  it('should open the paywall with the gating feature on unlock', () => {
+    render(
+      <PremiumGate feature="reports" level="premium">
+        <Text>Reports</Text>
+      </PremiumGate>
+    );
+
+    fireEvent.press(screen.getByTestId('premium-gate-unlock-button'));
+
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/paywall',
+      params: { feature: 'reports' },
+    });
+  });
+
+  it('should render nothing until the subscription has loaded', () => {
+    mockSubscription = null;
+
+    render(
+      <PremiumGate level="premium">
+        <Text testID="gated-content">Reports</Text>
+      </PremiumGate>
+    );
+
+    expect(screen.queryByTestId('gated-content')).toBeNull();
+    expect(screen.queryByTestId('premium-gate-locked')).toBeNull();
+  });
+});
@@ -8,3 +8,9 @@
 
 export { Paywall } from './paywall';
 export type { PaywallProps } from './paywall';
+
+export { NativePaywall } from './native-paywall';
+export type { NativePaywallProps } from './native-paywall';
+
+export { PremiumGate } from './premium-gate';
+export type { PremiumGateProps } from './premium-gate';
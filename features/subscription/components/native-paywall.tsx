@@ -0,0 +1,585 @@
+/**
+ * Native Paywall Component
+ *
+ * A first-party paywall built from the app's own UI components and theme
+ * tokens, driven by SubscriptionPackage data from useSubscription.
+ *
+ * Features:
+ * - Lists packages from the current offering (or a given one, e.g. a
+ *   placement's) with the annual plan preselected
+ * - Highlights the annual plan's savings versus paying monthly
+ * - Shows introductory offer / free trial terms, hidden once the user is found ineligible
+ * - Handles purchase and restore via useSubscription
+ * - Renders the auto-renewal disclosure and legal links required by Apple
+ *
+ * @module features/subscription/components/native-paywall
+ *
+ * @example
+ * ```tsx
+ * import { NativePaywall } from '@/features/subscription/components';
+ *
+ * function PaywallScreen() {
+ *   return (
+ *     <NativePaywall
+ *       onPurchaseSuccess={() => router.back()}
+ *       onDismiss={() => router.back()}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  Pressable,
+  ScrollView,
+  StyleSheet,
+  View,
+} from 'react-native';
+import * as WebBrowser from 'expo-web-browser';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Spacer } from '@/components/ui/spacer';
+import { BorderRadius, Spacing, Typography } from '@/constants/theme';
+import { useThemedColors } from '@/hooks/use-theme-color';
+import { useSubscription } from '../hooks/use-subscription';
+import {
+  formatBillingPeriod,
+  formatIntroOffer,
+  getAnnualSavingsPercent,
+} from '../core/pricing';
+import { getSubscriptionErrorMessage } from '../core/error-messages';
+import type {
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionPackage,
+} from '../core/types';
+
+/**
+ * Apple's standard licensed application end user license agreement.
+ * Used when the app does not provide its own Terms of Use.
+ */
+const APPLE_STANDARD_EULA_URL =
+  'https://www.apple.com/legal/internet-services/itunes/dev/stdeula/';
+
+/**
+ * Default legal URLs, configurable via environment variables.
+ */
+const DEFAULT_TERMS_OF_USE_URL =
+  process.env.EXPO_PUBLIC_TERMS_OF_USE_URL ?? APPLE_STANDARD_EULA_URL;
+const DEFAULT_PRIVACY_POLICY_URL =
+  process.env.EXPO_PUBLIC_PRIVACY_POLICY_URL ?? null;
+
+/**
+ * Auto-renewal disclosure shown below the purchase button
+ * (App Store Review Guideline 3.1.2).
+ */
+const AUTO_RENEWAL_DISCLOSURE =
+  'Payment will be charged to your account at confirmation of purchase. ' +
+  'Subscriptions automatically renew unless cancelled at least 24 hours ' +
+  'before the end of the current period. You can manage or cancel your ' +
+  'subscription in your account settings after purchase.';
+
+/**
+ * Props for the NativePaywall component.
+ */
+export interface NativePaywallProps {
+  /**
+   * RevenueCat offering identifier to show (e.g., a placement's offering).
+   * Defaults to the current offering, which is also shown if it cannot be loaded.
+   */
+  offeringId?: string;
+  /** Headline shown at the top of the paywall */
+  headline?: string;
+  /** Supporting text shown under the headline */
+  subheadline?: string;
+  /** Terms of Use (EULA) URL. Defaults to EXPO_PUBLIC_TERMS_OF_USE_URL or Apple's standard EULA */
+  termsOfUseUrl?: string;
+  /** Privacy Policy URL. Defaults to EXPO_PUBLIC_PRIVACY_POLICY_URL */
+  privacyPolicyUrl?: string | null;
+  /** Callback fired when a purchase completes successfully */
+  onPurchaseSuccess?: () => void;
+  /** Callback fired when a restore completes successfully */
+  onRestoreSuccess?: () => void;
+  /** Callback fired when purchase or restore fails (not called for user cancellation) */
+  onError?: (error: SubscriptionError) => void;
+  /** Callback fired when the close button is pressed */
+  onDismiss?: () => void;
+}
+
+/**
+ * Action awaiting its Result from the subscription provider.
+ */
+type PendingAction = 'purchase' | 'restore' | null;
+
+/**
+ * Pick the package to preselect: annual if offered, otherwise the first one.
+ */
+function getDefaultPackageId(packages: SubscriptionPackage[]): string | null {
+  const annual = packages.find((pkg) => pkg.packageType === 'ANNUAL');
+  return annual?.identifier ?? packages[0]?.identifier ?? null;
+}
+
+/**
+ * Format a package's price with its billing period (e.g., "$9.99 / month").
+ */
+function formatPackagePrice(pkg: SubscriptionPackage): string {
+  const period = formatBillingPeriod(pkg.packageType);
+  return period ? `${pkg.priceString} / ${period}` : pkg.priceString;
+}
+
+/**
+ * Native paywall rendering SubscriptionPackage data with the app theme.
+ *
+ * @param props - NativePaywallProps
+ * @returns JSX.Element
+ */
+export function NativePaywall({
+  offeringId,
+  headline = 'Upgrade to Premium',
+  subheadline = 'Unlock every feature and remove all limits.',
+  termsOfUseUrl = DEFAULT_TERMS_OF_USE_URL,
+  privacyPolicyUrl = DEFAULT_PRIVACY_POLICY_URL,
+  onPurchaseSuccess,
+  onRestoreSuccess,
+  onError,
+  onDismiss,
+}: NativePaywallProps): React.JSX.Element {
+  const { colors } = useThemedColors();
+  const {
+    packages: currentPackages,
+    loading,
+    purchasePackage,
+    restorePurchases,
+    refetchPackages,
+    checkIntroEligibility,
+    getOfferingPackages,
+  } = useSubscription();
+
+  const [resolved, setResolved] = useState<{
+    offeringId: string;
+    packages: SubscriptionPackage[] | null;
+  } | null>(null);
+
+  const isResolving =
+    offeringId !== undefined && resolved?.offeringId !== offeringId;
+
+  /**
+   * Load the requested offering's packages.
+   * Lookup failures fall back to the current offering.
+   */
+  useEffect(() => {
+    if (offeringId === undefined) {
+      return;
+    }
+    let cancelled = false;
+    void getOfferingPackages(offeringId).then((result) => {
+      if (!cancelled) {
+        setResolved({
+          offeringId,
+          packages: result.success ? result.data : null,
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [offeringId, getOfferingPackages]);
+
+  const offeringPackages =
+    offeringId !== undefined && !isResolving
+      ? (resolved?.packages ?? null)
+      : null;
+  // Offering the shown packages are purchased from (undefined: current)
+  const purchaseOfferingId = offeringPackages ? offeringId : undefined;
+  const packages = isResolving ? [] : (offeringPackages ?? currentPackages);
+  const packagesLoading = loading || isResolving;
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [visibleError, setVisibleError] = useState<SubscriptionError | null>(
+    null
+  );
+
+  // Don't advertise a free trial the store won't grant. Checked once the
+  // packages are loaded so the check applies to the loaded offering
+  // (getOfferingPackages already checks the requested offering's).
+  const hasCurrentPackages =
+    !isResolving && !purchaseOfferingId && currentPackages.length > 0;
+  useEffect(() => {
+    if (hasCurrentPackages) {
+      void checkIntroEligibility();
+    }
+  }, [hasCurrentPackages, checkIntroEligibility]);
+
+  const savingsPercent = useMemo(
+    () => getAnnualSavingsPercent(packages),
+    [packages]
+  );
+
+  // Fall back to the default selection until the user picks a package
+  const selectedPackage =
+    packages.find((pkg) => pkg.identifier === selectedId) ??
+    packages.find((pkg) => pkg.identifier === getDefaultPackageId(packages)) ??
+    null;
+
+  /**
+   * Apply the outcome of a purchase or restore.
+   * Cancellation and an already-running operation are not shown as errors.
+   */
+  const handleResult = useCallback(
+    (
+      result: Result<Subscription, SubscriptionError>,
+      onSuccess: (() => void) | undefined
+    ) => {
+      setPendingAction(null);
+
+      if (result.success) {
+        onSuccess?.();
+        return;
+      }
+
+      switch (result.error.code) {
+        case 'PURCHASE_CANCELLED':
+        case 'OPERATION_IN_PROGRESS':
+          return;
+        default:
+          setVisibleError(result.error);
+          onError?.(result.error);
+      }
+    },
+    [onError]
+  );
+
+  const handlePurchase = useCallback(async () => {
+    if (!selectedPackage) {
+      return;
+    }
+    setVisibleError(null);
+    setPendingAction('purchase');
+    const result = await purchasePackage(
+      selectedPackage.identifier,
+      purchaseOfferingId
+    );
+    handleResult(result, onPurchaseSuccess);
+  }, [
+    selectedPackage,
+    purchaseOfferingId,
+    purchasePackage,
+    handleResult,
+    onPurchaseSuccess,
+  ]);
+
+  const handleRestore = useCallback(async () => {
+    setVisibleError(null);
+    setPendingAction('restore');
+    const result = await restorePurchases();
+    handleResult(result, onRestoreSuccess);
+  }, [restorePurchases, handleResult, onRestoreSuccess]);
+
+  const handleOpenUrl = useCallback((url: string) => {
+    void WebBrowser.openBrowserAsync(url);
+  }, []);
+
+  const introOffer = selectedPackage ? formatIntroOffer(selectedPackage) : null;
+  const isTrial = selectedPackage?.introPrice?.price === 0;
+
+  return (
+    <ScrollView
+      testID="native-paywall-container"
+      style={[styles.container, { backgroundColor: colors.background.base }]}
+      contentContainerStyle={styles.contentContainer}
+      showsVerticalScrollIndicator={false}
+    >
+      {onDismiss && (
+        <View style={styles.closeRow}>
+          <Button
+            testID="native-paywall-close-button"
+            variant="ghost"
+            size="sm"
+            onPress={onDismiss}
+            accessibilityLabel="Close"
+          >
+            Close
+          </Button>
+        </View>
+      )}
+
+      {/* Header */}
+      <ThemedText style={styles.headline}>{headline}</ThemedText>
+      <ThemedText
+        style={[styles.subheadline, { color: colors.text.secondary }]}
+      >
+        {subheadline}
+      </ThemedText>
+
+      <Spacer size="lg" />
+
+      {/* Package list */}
+      {packages.length === 0 ? (
+        <View style={styles.emptyState} testID="native-paywall-empty">
+          {packagesLoading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <>
+              <ThemedText
+                style={[styles.emptyText, { color: colors.text.secondary }]}
+              >
+                Plans are unavailable right now.
+              </ThemedText>
+              <Spacer size="sm" />
+              <Button
+                testID="native-paywall-retry-button"
+                variant="secondary"
+                size="sm"
+                onPress={refetchPackages}
+              >
+                Try Again
+              </Button>
+            </>
+          )}
+        </View>
+      ) : (
+        packages.map((pkg) => {
+          const isSelected = pkg.identifier === selectedPackage?.identifier;
+          const showSavings =
+            pkg.packageType === 'ANNUAL' && savingsPercent !== null;
+          const packageIntroOffer = formatIntroOffer(pkg);
+
+          return (
+            <Pressable
+              key={pkg.identifier}
+              testID={`native-paywall-package-${pkg.identifier}`}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: isSelected }}
+              onPress={() => setSelectedId(pkg.identifier)}
+              style={styles.packageWrapper}
+            >
+              <Card
+                variant="outlined"
+                style={[
+                  styles.packageCard,
+                  isSelected && {
+                    borderColor: colors.primary,
+                    borderWidth: 2,
+                  },
+                ]}
+              >
+                <View style={styles.packageHeader}>
+                  <ThemedText style={styles.packageTitle}>
+                    {pkg.title}
+                  </ThemedText>
+                  {showSavings && (
+                    <View
+                      testID="native-paywall-savings-badge"
+                      style={[
+                        styles.savingsBadge,
+                        { backgroundColor: colors.semantic.success },
+                      ]}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.savingsText,
+                          { color: colors.text.inverse },
+                        ]}
+                      >
+                        Save {savingsPercent}%
+                      </ThemedText>
+                    </View>
+                  )}
+                </View>
+                <ThemedText
+                  style={[styles.packagePrice, { color: colors.text.primary }]}
+                >
+                  {formatPackagePrice(pkg)}
+                </ThemedText>
+                {packageIntroOffer && (
+                  <ThemedText
+                    style={[styles.introText, { color: colors.primary }]}
+                  >
+                    {packageIntroOffer}
+                  </ThemedText>
+                )}
+              </Card>
+            </Pressable>
+          );
+        })
+      )}
+
+      <Spacer size="md" />
+
+      {/* Inline error */}
+      {visibleError && (
+        <ThemedText
+          testID="native-paywall-error"
+          style={[styles.errorText, { color: colors.semantic.error }]}
+        >
+          {getSubscriptionErrorMessage(visibleError.code)}
+        </ThemedText>
+      )}
+
+      {/* Purchase */}
+      <Button
+        testID="native-paywall-purchase-button"
+        variant="primary"
+        size="lg"
+        onPress={handlePurchase}
+        loading={pendingAction === 'purchase'}
+        disabled={!selectedPackage || packagesLoading}
+      >
+        {isTrial ? 'Start Free Trial' : 'Continue'}
+      </Button>
+
+      {selectedPackage && introOffer && (
+        <ThemedText
+          testID="native-paywall-intro-terms"
+          style={[styles.termsText, { color: colors.text.secondary }]}
+        >
+          {`${introOffer}, then ${formatPackagePrice(selectedPackage)}.`}
+        </ThemedText>
+      )}
+
+      <Spacer size="sm" />
+
+      {/* Restore */}
+      <Button
+        testID="native-paywall-restore-button"
+        variant="ghost"
+        onPress={handleRestore}
+        loading={pendingAction === 'restore'}
+        disabled={loading}
+      >
+        Restore Purchases
+      </Button>
+
+      <Spacer size="md" />
+
+      {/* Legal */}
+      <ThemedText
+        style={[styles.disclosureText, { color: colors.text.tertiary }]}
+      >
+        {AUTO_RENEWAL_DISCLOSURE}
+      </ThemedText>
+
+      <View style={styles.legalLinks}>
+        <ThemedText
+          testID="native-paywall-terms-link"
+          type="link"
+          accessibilityRole="link"
+          style={styles.legalLink}
+          onPress={() => handleOpenUrl(termsOfUseUrl)}
+        >
+          Terms of Use
+        </ThemedText>
+        {privacyPolicyUrl && (
+          <ThemedText
+            testID="native-paywall-privacy-link"
+            type="link"
+            accessibilityRole="link"
+            style={styles.legalLink}
+            onPress={() => handleOpenUrl(privacyPolicyUrl)}
+          >
+            Privacy Policy
+          </ThemedText>
+        )}
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: Spacing.lg,
+  },
+
+  // ===== Header =====
+  closeRow: {
+    alignItems: 'flex-end',
+  },
+  headline: {
+    ...Typography.title1,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  subheadline: {
+    ...Typography.subheadline,
+    marginTop: Spacing.sm,
+    textAlign: 'center',
+  },
+
+  // ===== Packages =====
+  packageWrapper: {
+    marginBottom: Spacing.md,
+  },
+  packageCard: {
+    borderWidth: 1,
+  },
+  packageHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  packageTitle: {
+    ...Typography.headline,
+  },
+  packagePrice: {
+    ...Typography.body,
+    marginTop: Spacing.xs,
+  },
+  introText: {
+    ...Typography.caption1,
+    fontWeight: '600',
+    marginTop: Spacing.xs,
+  },
+  savingsBadge: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  savingsText: {
+    ...Typography.caption1,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: Spacing.xl,
+  },
+  emptyText: {
+    ...Typography.subheadline,
+    textAlign: 'center',
+  },
+
+  // ===== Actions =====
+  errorText: {
+    ...Typography.subheadline,
+    textAlign: 'center',
+    marginBottom: Spacing.sm,
+  },
+  termsText: {
+    ...Typography.caption1,
+    textAlign: 'center',
+    marginTop: Spacing.sm,
+  },
+
+  // ===== Legal =====
+  disclosureText: {
+    ...Typography.footnote,
+    textAlign: 'center',
+  },
+  legalLinks: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: Spacing.sm,
+  },
+  legalLink: {
+    ...Typography.caption1,
+    marginHorizontal: Spacing.sm,
+  },
+});
@@ -6,6 +6,7 @@
  *
  * Features:
  * - Wraps RevenueCatUI.Paywall component
+ * - Presents an offering by identifier (falls back to the default offering)
  * - Handles purchase, restore, cancel, and error events
  * - Integrates with expo-router for navigation
  * - Provides callback props for parent component integration
@@ -28,11 +29,12 @@
  * ```
  */
 
-import React, { useCallback } from 'react';
-import { View, StyleSheet } from 'react-native';
+import React, { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, View, StyleSheet } from 'react-native';
 import { useRouter } from 'expo-router';
 import RevenueCatUI from 'react-native-purchases-ui';
 import type { PurchasesOffering } from 'react-native-purchases';
+import { getOffering } from '../core/repository';
 
 /**
  * PurchasesError interface matching RevenueCat SDK.
@@ -58,6 +60,12 @@ export interface PaywallProps {
    */
   offering?: PurchasesOffering | null;
 
+  /**
+   * Optional identifier of the RevenueCat offering to display, used when
+   * `offering` is not provided. Unknown identifiers show the default offering.
+   */
+  offeringId?: string;
+
   /**
    * Callback fired when a purchase completes successfully.
    */
@@ -95,12 +103,42 @@ export interface PaywallProps {
  */
 export function Paywall({
   offering,
+  offeringId,
   onPurchaseSuccess,
   onRestoreSuccess,
   onError,
   onDismiss,
 }: PaywallProps): React.JSX.Element {
   const router = useRouter();
+  const [resolved, setResolved] = useState<{
+    offeringId: string;
+    offering: PurchasesOffering | null;
+  } | null>(null);
+
+  const shouldResolve = !offering && offeringId !== undefined;
+  const isResolving = shouldResolve && resolved?.offeringId !== offeringId;
+
+  /**
+   * Resolve the offering identifier.
+   * Lookup failures fall back to the default offering.
+   */
+  useEffect(() => {
+    if (!shouldResolve) {
+      return;
+    }
+    let cancelled = false;
+    void getOffering(offeringId).then((result) => {
+      if (!cancelled) {
+        setResolved({
+          offeringId,
+          offering: result.success ? result.data : null,
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [shouldResolve, offeringId]);
 
   /**
    * Handle purchase completion.
@@ -156,10 +194,23 @@ export function Paywall({
   const paywallOptions = {
     // Cast offering to unknown first to handle type incompatibility
     // between react-native-purchases PurchasesOffering and the internal type
-    offering: offering as unknown as undefined,
+    offering: (offering ??
+      (shouldResolve ? resolved?.offering : undefined) ??
+      undefined) as unknown as undefined,
     displayCloseButton: true,
   };
 
+  if (isResolving) {
+    return (
+      <View style={styles.container} testID="paywall-container">
+        <ActivityIndicator
+          style={styles.container}
+          testID="paywall-offering-loading"
+        />
+      </View>
+    );
+  }
+
   return (
     <View style={styles.container} testID="paywall-container">
       <RevenueCatUI.Paywall
@@ -0,0 +1,139 @@
+/**
+ * Premium Gate Component
+ *
+ * Declarative feature gate: renders its children when the current tier can
+ * use the feature, and a themed lock state (or a custom fallback) otherwise.
+ *
+ * Features:
+ * - Requires a level directly or through a registered feature key
+ * - Default lock state with an unlock button that opens /paywall
+ * - Passes the gating feature to /paywall so it can tailor its headline
+ * - Renders nothing until the subscription has loaded
+ *
+ * @module features/subscription/components/premium-gate
+ *
+ * @example
+ * ```tsx
+ * import { PremiumGate } from '@/features/subscription/components';
+ *
+ * function ReportsScreen() {
+ *   return (
+ *     <PremiumGate feature="reports" level="premium">
+ *       <Reports />
+ *     </PremiumGate>
+ *   );
+ * }
+ * ```
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Spacing, Typography } from '@/constants/theme';
+import { useThemedColors } from '@/hooks/use-theme-color';
+import { useFeatureGate } from '../hooks/use-feature-gate';
+import type { FeatureLevel } from '../core/types';
+
+/**
+ * Props for the PremiumGate component.
+ */
+export interface PremiumGateProps {
+  /** Required level; overrides the level registered for `feature` */
+  level?: FeatureLevel;
+  /** Feature key reported to the paywall (see configureFeatureGates) */
+  feature?: string;
+  /** Rendered instead of the default lock state when access is denied */
+  fallback?: React.ReactNode;
+  /** Title of the default lock state */
+  title?: string;
+  /** Message of the default lock state (defaults to "Upgrade to <Level> ...") */
+  message?: string;
+  /** Content shown when access is granted */
+  children: React.ReactNode;
+}
+
+/**
+ * Format a level for display (e.g., 'premium' → 'Premium').
+ */
+function formatLevel(level: FeatureLevel): string {
+  return level.charAt(0).toUpperCase() + level.slice(1);
+}
+
+/**
+ * Gate content behind a subscription level.
+ *
+ * @param props - PremiumGateProps
+ * @returns JSX.Element | null
+ */
+export function PremiumGate({
+  level,
+  feature,
+  fallback,
+  title = 'Premium feature',
+  message,
+  children,
+}: PremiumGateProps): React.JSX.Element | null {
+  const { colors } = useThemedColors();
+  const gate = useFeatureGate(feature, { level });
+
+  if (!gate.isResolved) {
+    return null;
+  }
+
+  if (gate.canAccess) {
+    return <>{children}</>;
+  }
+
+  if (fallback !== undefined) {
+    return <>{fallback}</>;
+  }
+
+  return (
+    <Card testID="premium-gate-locked" style={styles.card}>
+      <View style={styles.content}>
+        <IconSymbol name="lock.fill" size={28} color={colors.primary} />
+        <ThemedText style={styles.title}>{title}</ThemedText>
+        <ThemedText style={[styles.message, { color: colors.text.secondary }]}>
+          {message ??
+            `Upgrade to ${formatLevel(gate.level)} to unlock this feature.`}
+        </ThemedText>
+        <Button
+          testID="premium-gate-unlock-button"
+          variant="primary"
+          size="sm"
+          onPress={gate.openPaywall}
+          style={styles.button}
+        >
+          Unlock
+        </Button>
+      </View>
+    </Card>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    width: '100%',
+  },
+  content: {
+    alignItems: 'center',
+    paddingVertical: Spacing.md,
+  },
+  title: {
+    ...Typography.headline,
+    marginTop: Spacing.sm,
+    textAlign: 'center',
+  },
+  message: {
+    ...Typography.subheadline,
+    marginTop: Spacing.xs,
+    textAlign: 'center',
+  },
+  button: {
+    marginTop: Spacing.md,
+  },
+});
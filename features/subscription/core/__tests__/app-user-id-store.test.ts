@@ -0,0 +1,94 @@
+/**
+ * App User ID Store Tests
+ *
+ * Tests for persisting the RevenueCat app user id in secure storage.
+ *
+ * @module features/subscription/core/__tests__/app-user-id-store.test
+ */
+
+import {
+  SecureStorageKey,
+  saveSecure,
+  getSecure,
+  deleteSecure,
+} from '@/lib/secure-storage';
+import { createSecureAppUserIdStore } from '../app-user-id-store';
+
+jest.mock('@/lib/secure-storage', () => ({
+  ...jest.requireActual('@/lib/secure-storage'),
+  saveSecure: jest.fn(),
+  getSecure: jest.fn(),
+  deleteSecure: jest.fn(),
+}));
+
+const mockSaveSecure = saveSecure as jest.Mock;
+const mockGetSecure = getSecure as jest.Mock;
+const mockDeleteSecure = deleteSecure as jest.Mock;
+
+describe('App User ID Store', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should load the app user id from USER_ID', async () => {
+    mockGetSecure.mockResolvedValue({ success: true, data: 'user-42' });
+    const store = createSecureAppUserIdStore();
+
+    expect(await store.load()).toBe('user-42');
+    expect(mockGetSecure).toHaveBeenCalledWith(SecureStorageKey.USER_ID);
+  });
+
+  it('should return null when no app user id is stored', async () => {
+    mockGetSecure.mockResolvedValue({ success: true, data: null });
+    const store = createSecureAppUserIdStore();
+
+    expect(await store.load()).toBeNull();
+  });
+
+  it('should save the app user id to USER_ID', async () => {
+    mockSaveSecure.mockResolvedValue({ success: true, data: undefined });
+    const store = createSecureAppUserIdStore();
+
+    await store.save('user-42');
+
+    expect(mockSaveSecure).toHaveBeenCalledWith(
+      SecureStorageKey.USER_ID,
+      'user-42'
+    );
+  });
+
+  it('should delete USER_ID on clear', async () => {
+    mockDeleteSecure.mockResolvedValue({ success: true, data: undefined });
+    const store = createSecureAppUserIdStore();
+
+    await store.clear();
+
+    expect(mockDeleteSecure).toHaveBeenCalledWith(SecureStorageKey.USER_ID);
+  });
+
+  it('should throw secure storage failures', async () => {
+    mockGetSecure.mockResolvedValue({
+      success: false,
+      error: 'Failed to get user_id: Keychain locked',
+    });
+    mockSaveSecure.mockResolvedValue({
+      success: false,
+      error: 'Failed to save user_id: Keychain locked',
+    });
+    mockDeleteSecure.mockResolvedValue({
+      success: false,
+      error: 'Failed to delete user_id: Keychain locked',
+    });
+    const store = createSecureAppUserIdStore();
+
+    await expect(store.load()).rejects.toThrow(
+      'Failed to get user_id: Keychain locked'
+    );
+    await expect(store.save('user-42')).rejects.toThrow(
+      'Failed to save user_id: Keychain locked'
+    );
+    await expect(store.clear()).rejects.toThrow(
+      'Failed to delete user_id: Keychain locked'
+    );
+  });
+});
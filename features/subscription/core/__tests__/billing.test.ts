@@ -0,0 +1,108 @@
+/**
+ * Billing Status Tests
+ *
+ * Tests for deriving billing status from renewal fields and
+ * resolving the store's subscription management URL.
+ *
+ * @module features/subscription/core/__tests__/billing.test
+ */
+
+import {
+  getBillingStatus,
+  getManageSubscriptionsUrl,
+  MANAGE_SUBSCRIPTIONS_URLS,
+} from '../billing';
+import type { Subscription } from '../types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../types';
+
+const renewingSubscription: Subscription = {
+  isActive: true,
+  tier: 'premium',
+  expiresAt: new Date('2025-12-31'),
+  productId: 'monthly_plan',
+  willRenew: true,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+};
+
+describe('Billing Status', () => {
+  describe('getBillingStatus', () => {
+    it('should be ok before the subscription is loaded', () => {
+      expect(getBillingStatus(null)).toEqual({ kind: 'ok' });
+    });
+
+    it('should be ok for free users', () => {
+      expect(getBillingStatus(DEFAULT_FREE_SUBSCRIPTION)).toEqual({
+        kind: 'ok',
+      });
+    });
+
+    it('should be ok for a renewing subscription', () => {
+      expect(getBillingStatus(renewingSubscription)).toEqual({ kind: 'ok' });
+    });
+
+    it('should report a billing issue', () => {
+      const detectedAt = new Date('2025-12-01');
+
+      const status = getBillingStatus({
+        ...renewingSubscription,
+        billingIssueDetectedAt: detectedAt,
+      });
+
+      expect(status).toEqual({
+        kind: 'billing_issue',
+        detectedAt,
+        expiresAt: renewingSubscription.expiresAt,
+      });
+    });
+
+    it('should report cancellation with the end date', () => {
+      const status = getBillingStatus({
+        ...renewingSubscription,
+        willRenew: false,
+        cancelledAt: new Date('2025-11-01'),
+      });
+
+      expect(status).toEqual({
+        kind: 'cancelled',
+        endsAt: renewingSubscription.expiresAt,
+      });
+    });
+
+    it('should prefer billing issue over cancellation', () => {
+      const status = getBillingStatus({
+        ...renewingSubscription,
+        willRenew: false,
+        billingIssueDetectedAt: new Date('2025-12-01'),
+      });
+
+      expect(status.kind).toBe('billing_issue');
+    });
+
+    it('should be ok for lifetime purchases that never renew', () => {
+      const status = getBillingStatus({
+        ...renewingSubscription,
+        expiresAt: null,
+        willRenew: false,
+      });
+
+      expect(status).toEqual({ kind: 'ok' });
+    });
+  });
+
+  describe('getManageSubscriptionsUrl', () => {
+    it('should return store URLs for iOS and Android', () => {
+      expect(getManageSubscriptionsUrl('ios')).toBe(
+        MANAGE_SUBSCRIPTIONS_URLS.ios
+      );
+      expect(getManageSubscriptionsUrl('android')).toBe(
+        MANAGE_SUBSCRIPTIONS_URLS.android
+      );
+    });
+
+    it('should return null for platforms without a store', () => {
+      expect(getManageSubscriptionsUrl('web')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Entitlement Registry Tests
+ *
+ * Tests for tier configuration, ranking and entitlement-to-tier resolution.
+ *
+ * @module features/subscription/core/__tests__/entitlements.test
+ */
+
+import {
+  configureEntitlements,
+  getEntitlementRegistry,
+  resetEntitlements,
+  getTierRank,
+  isTierAtLeast,
+  isPaidTier,
+  getTierLimits,
+  resolveTier,
+} from '../entitlements';
+import type { EntitlementRegistry } from '../types';
+import {
+  DEFAULT_ENTITLEMENT_REGISTRY,
+  FREE_TIER_LIMITS,
+  PREMIUM_TIER_LIMITS,
+} from '../types';
+
+const plusLimits = { maxItems: 100, maxExports: 10, hasAds: false };
+
+const multiTierRegistry: EntitlementRegistry = {
+  freeLimits: FREE_TIER_LIMITS,
+  tiers: [
+    { tier: 'plus', entitlementId: 'plus_access', limits: plusLimits },
+    { tier: 'pro', entitlementId: 'pro_access', limits: PREMIUM_TIER_LIMITS },
+  ],
+};
+
+describe('Entitlement Registry', () => {
+  afterEach(() => {
+    resetEntitlements();
+  });
+
+  describe('configureEntitlements', () => {
+    it('should default to the single premium tier registry', () => {
+      expect(getEntitlementRegistry()).toBe(DEFAULT_ENTITLEMENT_REGISTRY);
+    });
+
+    it('should install a valid registry', () => {
+      configureEntitlements(multiTierRegistry);
+
+      expect(getEntitlementRegistry()).toBe(multiTierRegistry);
+    });
+
+    it('should reject a registry that maps the free tier', () => {
+      expect(() =>
+        configureEntitlements({
+          freeLimits: FREE_TIER_LIMITS,
+          tiers: [{ tier: 'free', entitlementId: 'free', limits: plusLimits }],
+        })
+      ).toThrow('Tier "free" is built in');
+    });
+
+    it('should reject duplicate tiers', () => {
+      expect(() =>
+        configureEntitlements({
+          freeLimits: FREE_TIER_LIMITS,
+          tiers: [
+            { tier: 'plus', entitlementId: 'a', limits: plusLimits },
+            { tier: 'plus', entitlementId: 'b', limits: plusLimits },
+          ],
+        })
+      ).toThrow('Tier "plus" is declared more than once.');
+    });
+
+    it('should reject an entitlement mapped to two tiers', () => {
+      expect(() =>
+        configureEntitlements({
+          freeLimits: FREE_TIER_LIMITS,
+          tiers: [
+            { tier: 'plus', entitlementId: 'shared', limits: plusLimits },
+            { tier: 'pro', entitlementId: 'shared', limits: plusLimits },
+          ],
+        })
+      ).toThrow('Entitlement "shared" is mapped to more than one tier.');
+    });
+
+    it('should keep the previous registry when validation fails', () => {
+      configureEntitlements(multiTierRegistry);
+
+      expect(() =>
+        configureEntitlements({
+          freeLimits: FREE_TIER_LIMITS,
+          tiers: [{ tier: 'free', entitlementId: 'free', limits: plusLimits }],
+        })
+      ).toThrow();
+      expect(getEntitlementRegistry()).toBe(multiTierRegistry);
+    });
+
+    it('should restore the default registry on reset', () => {
+      configureEntitlements(multiTierRegistry);
+
+      resetEntitlements();
+
+      expect(getEntitlementRegistry()).toBe(DEFAULT_ENTITLEMENT_REGISTRY);
+    });
+  });
+
+  describe('getTierRank', () => {
+    it('should rank free as 0 and paid tiers in registry order', () => {
+      expect(getTierRank('free', multiTierRegistry)).toBe(0);
+      expect(getTierRank('plus', multiTierRegistry)).toBe(1);
+      expect(getTierRank('pro', multiTierRegistry)).toBe(2);
+    });
+
+    it('should return -1 for unknown tiers', () => {
+      expect(getTierRank('premium', multiTierRegistry)).toBe(-1);
+    });
+
+    it('should use the configured registry by default', () => {
+      configureEntitlements(multiTierRegistry);
+
+      expect(getTierRank('pro')).toBe(2);
+    });
+  });
+
+  describe('isTierAtLeast', () => {
+    it('should compare tiers by rank', () => {
+      expect(isTierAtLeast('pro', 'plus', multiTierRegistry)).toBe(true);
+      expect(isTierAtLeast('plus', 'plus', multiTierRegistry)).toBe(true);
+      expect(isTierAtLeast('plus', 'pro', multiTierRegistry)).toBe(false);
+      expect(isTierAtLeast('free', 'plus', multiTierRegistry)).toBe(false);
+    });
+
+    it('should never match unknown tiers', () => {
+      expect(isTierAtLeast('legacy', 'free', multiTierRegistry)).toBe(false);
+      expect(isTierAtLeast('pro', 'legacy', multiTierRegistry)).toBe(false);
+    });
+  });
+
+  describe('isPaidTier', () => {
+    it('should treat registry tiers as paid and free as unpaid', () => {
+      expect(isPaidTier('free', multiTierRegistry)).toBe(false);
+      expect(isPaidTier('plus', multiTierRegistry)).toBe(true);
+      expect(isPaidTier('pro', multiTierRegistry)).toBe(true);
+    });
+
+    it('should treat unknown tiers as unpaid', () => {
+      expect(isPaidTier('premium', multiTierRegistry)).toBe(false);
+    });
+  });
+
+  describe('getTierLimits', () => {
+    it('should return the limits for each tier', () => {
+      expect(getTierLimits('plus', multiTierRegistry)).toBe(plusLimits);
+      expect(getTierLimits('pro', multiTierRegistry)).toBe(PREMIUM_TIER_LIMITS);
+    });
+
+    it('should fall back to free limits', () => {
+      expect(getTierLimits('free', multiTierRegistry)).toBe(FREE_TIER_LIMITS);
+      expect(getTierLimits('legacy', multiTierRegistry)).toBe(FREE_TIER_LIMITS);
+    });
+  });
+
+  describe('resolveTier', () => {
+    it('should return the tier mapped to an active entitlement', () => {
+      expect(resolveTier(['plus_access'], multiTierRegistry)?.tier).toBe(
+        'plus'
+      );
+    });
+
+    it('should return the highest tier when several are active', () => {
+      expect(
+        resolveTier(['plus_access', 'pro_access'], multiTierRegistry)?.tier
+      ).toBe('pro');
+    });
+
+    it('should return null when no active entitlement is mapped', () => {
+      expect(resolveTier([], multiTierRegistry)).toBeNull();
+      expect(resolveTier(['premium'], multiTierRegistry)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Subscription Error Messages Tests
+ *
+ * Tests for the user-facing message lookup by SubscriptionErrorCode.
+ *
+ * @module features/subscription/core/__tests__/error-messages.test
+ */
+
+import {
+  SUBSCRIPTION_ERROR_MESSAGES,
+  getSubscriptionErrorMessage,
+} from '../error-messages';
+import type { SubscriptionErrorCode } from '../types';
+
+describe('Subscription Error Messages', () => {
+  it('should return the message for a known code', () => {
+    expect(getSubscriptionErrorMessage('NETWORK_ERROR')).toBe(
+      'A network error occurred. Please check your connection and try again.'
+    );
+  });
+
+  it('should return an informational message for NO_ACTIVE_SUBSCRIPTION', () => {
+    expect(getSubscriptionErrorMessage('NO_ACTIVE_SUBSCRIPTION')).toBe(
+      'No purchases available to restore.'
+    );
+  });
+
+  it('should return an empty message for silently handled codes', () => {
+    expect(getSubscriptionErrorMessage('PURCHASE_CANCELLED')).toBe('');
+    expect(getSubscriptionErrorMessage('OPERATION_IN_PROGRESS')).toBe('');
+  });
+
+  it('should fall back to the UNKNOWN_ERROR message for unmapped codes', () => {
+    const code = 'SOME_NEW_CODE' as SubscriptionErrorCode;
+
+    expect(getSubscriptionErrorMessage(code)).toBe(
+      SUBSCRIPTION_ERROR_MESSAGES.UNKNOWN_ERROR
+    );
+  });
+});
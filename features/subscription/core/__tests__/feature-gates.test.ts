@@ -0,0 +1,75 @@
+/**
+ * Feature Gate Registry Tests
+ *
+ * Tests for configuring gated features and resolving their level and
+ * paywall headline.
+ *
+ * @module features/subscription/core/__tests__/feature-gates.test
+ */
+
+import {
+  DEFAULT_FEATURE_GATE,
+  configureFeatureGates,
+  getFeatureGate,
+  getPaywallHeadline,
+  resetFeatureGates,
+} from '../feature-gates';
+
+describe('Feature Gate Registry', () => {
+  afterEach(() => {
+    resetFeatureGates();
+  });
+
+  describe('getFeatureGate', () => {
+    it('should return the registered definition', () => {
+      configureFeatureGates({
+        'custom-themes': { level: 'plus', paywallHeadline: 'Make it yours' },
+      });
+
+      expect(getFeatureGate('custom-themes')).toEqual({
+        level: 'plus',
+        paywallHeadline: 'Make it yours',
+      });
+    });
+
+    it('should require premium for unregistered features', () => {
+      expect(getFeatureGate('export')).toBe(DEFAULT_FEATURE_GATE);
+      expect(DEFAULT_FEATURE_GATE.level).toBe('premium');
+    });
+
+    it('should not resolve inherited object properties as features', () => {
+      expect(getFeatureGate('toString')).toBe(DEFAULT_FEATURE_GATE);
+    });
+
+    it('should forget configured features after reset', () => {
+      configureFeatureGates({ export: { level: 'basic' } });
+      resetFeatureGates();
+
+      expect(getFeatureGate('export')).toBe(DEFAULT_FEATURE_GATE);
+    });
+  });
+
+  describe('getPaywallHeadline', () => {
+    beforeEach(() => {
+      configureFeatureGates({
+        export: { level: 'premium', paywallHeadline: 'Export without limits' },
+        sync: { level: 'premium' },
+      });
+    });
+
+    it('should return the headline of the gating feature', () => {
+      expect(getPaywallHeadline('export')).toBe('Export without limits');
+    });
+
+    it('should return undefined when the feature has no headline', () => {
+      expect(getPaywallHeadline('sync')).toBeUndefined();
+      expect(getPaywallHeadline('unknown')).toBeUndefined();
+    });
+
+    it('should return undefined for missing or invalid route params', () => {
+      expect(getPaywallHeadline(undefined)).toBeUndefined();
+      expect(getPaywallHeadline('')).toBeUndefined();
+      expect(getPaywallHeadline(['export'])).toBeUndefined();
+    });
+  });
+});
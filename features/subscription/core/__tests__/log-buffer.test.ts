@@ -0,0 +1,92 @@
+/**
+ * Subscription Log Buffer Tests
+ *
+ * Tests for capturing SubscriptionLogger entries in a bounded buffer
+ * and notifying subscribers.
+ *
+ * @module features/subscription/core/__tests__/log-buffer.test
+ */
+
+import {
+  createSubscriptionLogBuffer,
+  DEFAULT_LOG_BUFFER_CAPACITY,
+} from '../log-buffer';
+
+const NOW = new Date('2026-01-01T12:00:00.000Z');
+
+describe('Subscription Log Buffer', () => {
+  it('should capture logger calls with a timestamp', () => {
+    const buffer = createSubscriptionLogBuffer(10, () => NOW);
+
+    buffer.logger('info', 'Starting purchase', { packageId: '$rc_monthly' });
+    buffer.logger('debug', 'Subscription state updated');
+
+    expect(buffer.getEntries()).toEqual([
+      {
+        timestamp: NOW,
+        level: 'info',
+        message: 'Starting purchase',
+        context: { packageId: '$rc_monthly' },
+      },
+      { timestamp: NOW, level: 'debug', message: 'Subscription state updated' },
+    ]);
+  });
+
+  it('should keep only the most recent entries', () => {
+    const buffer = createSubscriptionLogBuffer(2);
+
+    buffer.logger('info', 'first');
+    buffer.logger('info', 'second');
+    buffer.logger('info', 'third');
+
+    expect(buffer.getEntries().map((entry) => entry.message)).toEqual([
+      'second',
+      'third',
+    ]);
+  });
+
+  it('should default to DEFAULT_LOG_BUFFER_CAPACITY entries', () => {
+    const buffer = createSubscriptionLogBuffer();
+
+    for (let i = 0; i <= DEFAULT_LOG_BUFFER_CAPACITY; i++) {
+      buffer.logger('debug', `entry ${i}`);
+    }
+
+    expect(buffer.getEntries()).toHaveLength(DEFAULT_LOG_BUFFER_CAPACITY);
+  });
+
+  it('should return the same snapshot until the buffer changes', () => {
+    const buffer = createSubscriptionLogBuffer();
+    buffer.logger('info', 'first');
+
+    const snapshot = buffer.getEntries();
+
+    expect(buffer.getEntries()).toBe(snapshot);
+    buffer.logger('info', 'second');
+    expect(buffer.getEntries()).not.toBe(snapshot);
+  });
+
+  it('should notify subscribers on log and clear', () => {
+    const buffer = createSubscriptionLogBuffer();
+    const listener = jest.fn();
+    const unsubscribe = buffer.subscribe(listener);
+
+    buffer.logger('warn', 'Retrying after retryable error');
+    buffer.clear();
+    unsubscribe();
+    buffer.logger('info', 'ignored');
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(buffer.getEntries()).toHaveLength(1);
+  });
+
+  it('should not notify when clearing an empty buffer', () => {
+    const buffer = createSubscriptionLogBuffer();
+    const listener = jest.fn();
+    buffer.subscribe(listener);
+
+    buffer.clear();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
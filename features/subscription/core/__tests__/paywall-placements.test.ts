@@ -0,0 +1,93 @@
+/**
+ * Paywall Placement Registry Tests
+ *
+ * Tests for configuring paywall placements and deciding whether a
+ * frequency cap has been reached.
+ *
+ * @module features/subscription/core/__tests__/paywall-placements.test
+ */
+
+import {
+  DAILY_FREQUENCY_CAP,
+  DEFAULT_PAYWALL_PLACEMENT,
+  configurePaywallPlacements,
+  getPaywallPlacement,
+  isFrequencyCapped,
+  resetPaywallPlacements,
+} from '../paywall-placements';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+function hoursAgo(hours: number): Date {
+  return new Date(NOW.getTime() - hours * HOUR_MS);
+}
+
+describe('Paywall Placement Registry', () => {
+  afterEach(() => {
+    resetPaywallPlacements();
+  });
+
+  describe('getPaywallPlacement', () => {
+    it('should return the registered definition', () => {
+      configurePaywallPlacements({
+        item_limit: { offeringId: 'limit_reached' },
+      });
+
+      expect(getPaywallPlacement('item_limit')).toEqual({
+        offeringId: 'limit_reached',
+      });
+    });
+
+    it('should present the current offering uncapped for unregistered placements', () => {
+      expect(getPaywallPlacement('settings_upgrade')).toBe(
+        DEFAULT_PAYWALL_PLACEMENT
+      );
+      expect(DEFAULT_PAYWALL_PLACEMENT).toEqual({});
+    });
+
+    it('should not resolve inherited object properties as placements', () => {
+      expect(getPaywallPlacement('toString')).toBe(DEFAULT_PAYWALL_PLACEMENT);
+    });
+
+    it('should forget configured placements after reset', () => {
+      configurePaywallPlacements({
+        home_banner: { frequencyCap: DAILY_FREQUENCY_CAP },
+      });
+      resetPaywallPlacements();
+
+      expect(getPaywallPlacement('home_banner')).toBe(
+        DEFAULT_PAYWALL_PLACEMENT
+      );
+    });
+  });
+
+  describe('isFrequencyCapped', () => {
+    it('should never cap placements without a frequency cap', () => {
+      expect(isFrequencyCapped(undefined, [NOW, NOW, NOW], NOW)).toBe(false);
+    });
+
+    it('should cap a daily placement shown within the last day', () => {
+      expect(isFrequencyCapped(DAILY_FREQUENCY_CAP, [hoursAgo(23)], NOW)).toBe(
+        true
+      );
+    });
+
+    it('should allow a daily placement again once the day has passed', () => {
+      expect(isFrequencyCapped(DAILY_FREQUENCY_CAP, [hoursAgo(24)], NOW)).toBe(
+        false
+      );
+    });
+
+    it('should count only impressions inside the window', () => {
+      const cap = { maxImpressions: 2, periodMs: 7 * 24 * HOUR_MS };
+
+      expect(isFrequencyCapped(cap, [hoursAgo(200), hoursAgo(1)], NOW)).toBe(
+        false
+      );
+      expect(isFrequencyCapped(cap, [hoursAgo(100), hoursAgo(1)], NOW)).toBe(
+        true
+      );
+    });
+  });
+});
@@ -0,0 +1,224 @@
+/**
+ * Paywall Presenter Tests
+ *
+ * Tests for frequency-capped presentation, per-placement offering
+ * selection and event tracking in AsyncStorage.
+ *
+ * @module features/subscription/core/__tests__/paywall-presenter.test
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createPaywallPresenter,
+  PAYWALL_PLACEMENTS_KEY,
+} from '../paywall-presenter';
+import { DAILY_FREQUENCY_CAP } from '../paywall-placements';
+import type {
+  PaywallPlacementDefinition,
+  PaywallPlacementRegistry,
+} from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const placements: PaywallPlacementRegistry = {
+  settings_upgrade: {},
+  item_limit: { offeringId: 'limit_reached' },
+  home_banner: { frequencyCap: DAILY_FREQUENCY_CAP },
+};
+
+function getPlacement(placementId: string): PaywallPlacementDefinition {
+  return placements[placementId] ?? {};
+}
+
+/**
+ * Create a presenter with a clock the test can advance.
+ */
+function createPresenter() {
+  let clock = new Date('2026-03-01T12:00:00Z');
+  const presenter = createPaywallPresenter({
+    getPlacement,
+    now: () => clock,
+  });
+  const advance = (ms: number) => {
+    clock = new Date(clock.getTime() + ms);
+  };
+  return { presenter, advance };
+}
+
+describe('Paywall Presenter', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('getPresentation', () => {
+    it("should present the placement's offering", async () => {
+      const { presenter } = createPresenter();
+
+      expect(await presenter.getPresentation('item_limit')).toEqual({
+        placementId: 'item_limit',
+        offeringId: 'limit_reached',
+      });
+      expect(await presenter.getPresentation('settings_upgrade')).toEqual({
+        placementId: 'settings_upgrade',
+        offeringId: null,
+      });
+    });
+
+    it('should cap a soft upsell to once per day', async () => {
+      const { presenter, advance } = createPresenter();
+
+      await presenter.record('home_banner', 'impression');
+      advance(23 * HOUR_MS);
+      const capped = await presenter.getPresentation('home_banner');
+      advance(HOUR_MS);
+      const allowed = await presenter.getPresentation('home_banner');
+
+      expect(capped).toBeNull();
+      expect(allowed).toEqual({ placementId: 'home_banner', offeringId: null });
+    });
+
+    it('should not cap other placements', async () => {
+      const { presenter } = createPresenter();
+
+      await presenter.record('home_banner', 'impression');
+      await presenter.record('settings_upgrade', 'impression');
+      await presenter.record('settings_upgrade', 'impression');
+
+      expect(
+        await presenter.getPresentation('settings_upgrade')
+      ).not.toBeNull();
+    });
+
+    it('should keep caps across app launches', async () => {
+      const first = createPresenter();
+      await first.presenter.record('home_banner', 'impression');
+
+      const relaunched = createPresenter();
+
+      expect(
+        await relaunched.presenter.getPresentation('home_banner')
+      ).toBeNull();
+    });
+
+    it('should present and log when the history cannot be read', async () => {
+      jest
+        .spyOn(AsyncStorage, 'getItem')
+        .mockRejectedValueOnce(new Error('storage unavailable'));
+      const logger = jest.fn();
+      const presenter = createPaywallPresenter({ getPlacement, logger });
+
+      expect(await presenter.getPresentation('home_banner')).not.toBeNull();
+      expect(logger).toHaveBeenCalledWith(
+        'warn',
+        'Failed to read paywall placement history',
+        { errorMessage: 'storage unavailable' }
+      );
+    });
+  });
+
+  describe('record', () => {
+    it('should count impressions, dismissals and conversions per placement', async () => {
+      const { presenter } = createPresenter();
+
+      await presenter.record('item_limit', 'impression');
+      await presenter.record('item_limit', 'dismissal');
+      await presenter.record('item_limit', 'impression');
+      await presenter.record('item_limit', 'conversion');
+
+      expect(await presenter.getStats('item_limit')).toEqual({
+        impressions: 2,
+        dismissals: 1,
+        conversions: 1,
+        lastImpressionAt: new Date('2026-03-01T12:00:00Z'),
+      });
+      expect(await presenter.getStats('settings_upgrade')).toEqual({
+        impressions: 0,
+        dismissals: 0,
+        conversions: 0,
+        lastImpressionAt: null,
+      });
+    });
+
+    it('should not lose concurrent events', async () => {
+      const { presenter } = createPresenter();
+
+      await Promise.all([
+        presenter.record('item_limit', 'impression'),
+        presenter.record('item_limit', 'dismissal'),
+        presenter.record('settings_upgrade', 'impression'),
+      ]);
+
+      const relaunched = createPresenter();
+      expect(await relaunched.presenter.getStats('item_limit')).toMatchObject({
+        impressions: 1,
+        dismissals: 1,
+      });
+      expect(
+        await relaunched.presenter.getStats('settings_upgrade')
+      ).toMatchObject({ impressions: 1 });
+    });
+
+    it('should keep only the impressions the frequency cap can count', async () => {
+      const { presenter, advance } = createPresenter();
+
+      for (let day = 0; day < 3; day++) {
+        await presenter.record('home_banner', 'impression');
+        advance(24 * HOUR_MS);
+      }
+
+      const stored = JSON.parse(
+        (await AsyncStorage.getItem(PAYWALL_PLACEMENTS_KEY)) ?? '{}'
+      );
+      expect(stored.home_banner.impressions).toBe(3);
+      expect(stored.home_banner.recentImpressions).toEqual([
+        '2026-03-03T12:00:00.000Z',
+      ]);
+    });
+
+    it('should log and swallow write failures', async () => {
+      jest
+        .spyOn(AsyncStorage, 'setItem')
+        .mockRejectedValueOnce(new Error('disk full'));
+      const logger = jest.fn();
+      const presenter = createPaywallPresenter({ getPlacement, logger });
+
+      await expect(
+        presenter.record('item_limit', 'conversion')
+      ).resolves.toBeUndefined();
+      expect(logger).toHaveBeenCalledWith(
+        'error',
+        'Failed to record paywall placement event',
+        {
+          placementId: 'item_limit',
+          event: 'conversion',
+          errorMessage: 'disk full',
+        }
+      );
+      expect(await presenter.getStats('item_limit')).toMatchObject({
+        conversions: 0,
+      });
+    });
+
+    it('should ignore stored data with an unexpected shape', async () => {
+      await AsyncStorage.setItem(
+        PAYWALL_PLACEMENTS_KEY,
+        JSON.stringify({ home_banner: { impressions: 'many' } })
+      );
+      const { presenter } = createPresenter();
+
+      expect(await presenter.getPresentation('home_banner')).not.toBeNull();
+    });
+  });
+
+  describe('reset', () => {
+    it('should start frequency caps over', async () => {
+      const { presenter } = createPresenter();
+      await presenter.record('home_banner', 'impression');
+
+      await presenter.reset();
+
+      expect(await presenter.getPresentation('home_banner')).not.toBeNull();
+      expect(await AsyncStorage.getItem(PAYWALL_PLACEMENTS_KEY)).toBeNull();
+    });
+  });
+});
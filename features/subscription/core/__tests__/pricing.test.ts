@@ -0,0 +1,108 @@
+/**
+ * Subscription Pricing Tests
+ *
+ * Tests for package price comparison and period formatting helpers.
+ *
+ * @module features/subscription/core/__tests__/pricing.test
+ */
+
+import {
+  formatBillingPeriod,
+  formatIsoPeriod,
+  formatIntroOffer,
+  getAnnualSavingsPercent,
+} from '../pricing';
+import type { SubscriptionPackage } from '../types';
+
+const monthlyPackage: SubscriptionPackage = {
+  identifier: '$rc_monthly',
+  packageType: 'MONTHLY',
+  title: 'Monthly',
+  priceString: '$9.99',
+  price: 9.99,
+  currencyCode: 'USD',
+};
+
+const annualPackage: SubscriptionPackage = {
+  identifier: '$rc_annual',
+  packageType: 'ANNUAL',
+  title: 'Annual',
+  priceString: '$99.99',
+  price: 99.99,
+  currencyCode: 'USD',
+};
+
+describe('Subscription Pricing', () => {
+  describe('formatBillingPeriod', () => {
+    it('should return period labels for recurring packages', () => {
+      expect(formatBillingPeriod('WEEKLY')).toBe('week');
+      expect(formatBillingPeriod('MONTHLY')).toBe('month');
+      expect(formatBillingPeriod('SIX_MONTH')).toBe('6 months');
+      expect(formatBillingPeriod('ANNUAL')).toBe('year');
+    });
+
+    it('should return null for non-recurring packages', () => {
+      expect(formatBillingPeriod('LIFETIME')).toBeNull();
+      expect(formatBillingPeriod('CUSTOM')).toBeNull();
+      expect(formatBillingPeriod('UNKNOWN')).toBeNull();
+    });
+  });
+
+  describe('formatIsoPeriod', () => {
+    it('should format singular and plural durations', () => {
+      expect(formatIsoPeriod('P1W')).toBe('1 week');
+      expect(formatIsoPeriod('P3D')).toBe('3 days');
+      expect(formatIsoPeriod('P2M')).toBe('2 months');
+      expect(formatIsoPeriod('P1Y')).toBe('1 year');
+    });
+
+    it('should return the input unchanged when it cannot be parsed', () => {
+      expect(formatIsoPeriod('1 week')).toBe('1 week');
+    });
+  });
+
+  describe('formatIntroOffer', () => {
+    it('should return null when there is no intro price', () => {
+      expect(formatIntroOffer(monthlyPackage)).toBeNull();
+    });
+
+    it('should describe a free trial', () => {
+      expect(
+        formatIntroOffer({
+          ...monthlyPackage,
+          introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+        })
+      ).toBe('1 week free');
+    });
+
+    it('should describe a paid introductory price', () => {
+      expect(
+        formatIntroOffer({
+          ...monthlyPackage,
+          introPrice: { priceString: '$0.99', price: 0.99, period: 'P1M' },
+        })
+      ).toBe('$0.99 for 1 month');
+    });
+  });
+
+  describe('getAnnualSavingsPercent', () => {
+    it('should calculate annual savings versus twelve monthly payments', () => {
+      expect(getAnnualSavingsPercent([monthlyPackage, annualPackage])).toBe(17);
+    });
+
+    it('should return null when monthly or annual package is missing', () => {
+      expect(getAnnualSavingsPercent([annualPackage])).toBeNull();
+      expect(getAnnualSavingsPercent([monthlyPackage])).toBeNull();
+      expect(getAnnualSavingsPercent([])).toBeNull();
+    });
+
+    it('should return null when the annual plan is not cheaper', () => {
+      expect(
+        getAnnualSavingsPercent([
+          monthlyPackage,
+          { ...annualPackage, price: 150 },
+        ])
+      ).toBeNull();
+    });
+  });
+});
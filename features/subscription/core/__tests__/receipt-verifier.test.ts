@@ -0,0 +1,169 @@
+/**
+ * Receipt Verifier Tests
+ *
+ * Tests for the HTTP verifier (request body and error mapping) and the
+ * local mock verifier.
+ *
+ * @module features/subscription/core/__tests__/receipt-verifier.test
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+  createHttpReceiptVerifier,
+  createMockReceiptVerifier,
+  getReceiptVerifierUrl,
+  type ReceiptVerificationRequest,
+  type ReceiptVerifierFetch,
+} from '../receipt-verifier';
+
+const VERIFIER_URL = 'https://api.example.com/verify';
+
+const REQUEST: ReceiptVerificationRequest = {
+  appUserId: 'user-1',
+  productId: 'monthly_plan',
+  transactionId: null,
+  reason: 'purchase',
+};
+
+function respondWith(
+  status: number,
+  body: unknown
+): jest.Mock<
+  ReturnType<ReceiptVerifierFetch>,
+  Parameters<ReceiptVerifierFetch>
+> {
+  return jest.fn(async (_url, _init) => ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+  }));
+}
+
+describe('Receipt Verifier', () => {
+  describe('getReceiptVerifierUrl', () => {
+    const originalValue = process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL;
+
+    afterEach(() => {
+      process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL = originalValue;
+    });
+
+    it('should read the endpoint from the environment', () => {
+      process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL = VERIFIER_URL;
+
+      expect(getReceiptVerifierUrl()).toBe(VERIFIER_URL);
+    });
+
+    it('should return null when the variable is not set', () => {
+      delete process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL;
+
+      expect(getReceiptVerifierUrl()).toBeNull();
+    });
+
+    it('should read the variable with static dot access so Expo inlines it', () => {
+      const source = readFileSync(
+        join(__dirname, '../receipt-verifier.ts'),
+        'utf8'
+      );
+
+      expect(source).toContain('process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL');
+      expect(source).not.toMatch(/process\.env\[/);
+    });
+  });
+
+  describe('createHttpReceiptVerifier', () => {
+    it('should POST the request and succeed when the purchase is verified', async () => {
+      const fetch = respondWith(200, { verified: true });
+      const verifier = createHttpReceiptVerifier({ url: VERIFIER_URL, fetch });
+
+      const result = await verifier.verify(REQUEST);
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(fetch).toHaveBeenCalledWith(VERIFIER_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(REQUEST),
+      });
+    });
+
+    it.each([
+      ['a rejection', 200, { verified: false }],
+      ['an unexpected body', 200, { ok: true }],
+      ['a 4xx response', 403, { error: 'Forbidden' }],
+    ])(
+      'should fail with RECEIPT_VERIFICATION_FAILED on %s',
+      async (_case, status, body) => {
+        const verifier = createHttpReceiptVerifier({
+          url: VERIFIER_URL,
+          fetch: respondWith(status, body),
+        });
+
+        const result = await verifier.verify(REQUEST);
+
+        expect(!result.success && result.error).toMatchObject({
+          code: 'RECEIPT_VERIFICATION_FAILED',
+          retryable: false,
+        });
+      }
+    );
+
+    it('should fail with a retryable error on a 5xx response', async () => {
+      const verifier = createHttpReceiptVerifier({
+        url: VERIFIER_URL,
+        fetch: respondWith(503, null),
+      });
+
+      const result = await verifier.verify(REQUEST);
+
+      expect(!result.success && result.error).toMatchObject({
+        code: 'UNEXPECTED_BACKEND_RESPONSE_ERROR',
+        retryable: true,
+      });
+    });
+
+    it('should fail with NETWORK_ERROR when the endpoint is unreachable', async () => {
+      const verifier = createHttpReceiptVerifier({
+        url: VERIFIER_URL,
+        fetch: jest.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+      });
+
+      const result = await verifier.verify(REQUEST);
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: 'Failed to fetch',
+          retryable: true,
+        },
+      });
+    });
+  });
+
+  describe('createMockReceiptVerifier', () => {
+    it('should verify by default and record requests', async () => {
+      const verifier = createMockReceiptVerifier();
+
+      const result = await verifier.verify(REQUEST);
+
+      expect(result.success).toBe(true);
+      expect(verifier.requests).toEqual([REQUEST]);
+    });
+
+    it('should answer with the current verdict', async () => {
+      const verifier = createMockReceiptVerifier('rejected');
+
+      const rejected = await verifier.verify(REQUEST);
+      verifier.setVerdict('unreachable');
+      const unreachable = await verifier.verify(REQUEST);
+
+      expect(!rejected.success && rejected.error.code).toBe(
+        'RECEIPT_VERIFICATION_FAILED'
+      );
+      expect(!unreachable.success && unreachable.error.code).toBe(
+        'NETWORK_ERROR'
+      );
+    });
+  });
+});
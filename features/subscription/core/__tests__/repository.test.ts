@@ -5,28 +5,61 @@
  * Following TDD methodology - these tests were written before implementation.
  *
  * Tests cover:
- * - CustomerInfo to Subscription conversion
+ * - CustomerInfo to Subscription conversion (including multi-tier registries)
  * - Error mapping from RevenueCat to domain errors
  * - getCustomerInfo, getAvailablePackages, purchasePackage, restorePurchases
+ * - logIn / logOut (app user identity)
+ * - Intro eligibility, promotional / win-back offers and offer code redemption
+ * - openManagementUrl / beginRefundRequest (plan management and refunds)
+ * - purchaseProduct (consumables and lifetime unlocks)
+ * - addSubscriptionListener (customer-info update forwarding)
+ * - getCustomerInfoSnapshot / invalidateCustomerInfoCache (debug tooling)
+ * - getOffering / getOfferingPackages (offering lookup for the paywalls)
  */
 
+import { Linking, Platform } from 'react-native';
 import Purchases, { type CustomerInfo } from 'react-native-purchases';
 import {
   mockFreeCustomerInfo,
   createMockPremiumCustomerInfo,
   setupFreeUserMock,
   setupPremiumUserMock,
+  setupTrialSubscriptionMock,
+  setupCancelledSubscriptionMock,
+  setupBillingIssueMock,
   setupPurchaseError,
+  setupLoggedInUserMock,
+  setupLogInError,
+  setupIntroEligibilityMock,
+  setupProductDiscountsMock,
+  setupWinBackOffersMock,
+  setupPromotionalOfferIneligible,
+  setupRefundRequestStatus,
+  emitCustomerInfoUpdate,
   resetMock,
+  INTRO_ELIGIBILITY_STATUS,
+  MOCK_MANAGEMENT_URL,
+  MOCK_SUBSCRIPTION_TRANSACTION_ID,
+  PRODUCT_CATEGORY,
   PURCHASES_ERROR_CODE,
+  REFUND_REQUEST_STATUS,
 } from '../../../../__mocks__/react-native-purchases';
-import { PREMIUM_ENTITLEMENT_ID } from '../types';
+import {
+  DEFAULT_FREE_SUBSCRIPTION,
+  FREE_TIER_LIMITS,
+  PREMIUM_ENTITLEMENT_ID,
+  PREMIUM_TIER_LIMITS,
+} from '../types';
+import type { EntitlementRegistry, SubscriptionOffer } from '../types';
 
 // Import the module under test (will be created in GREEN phase)
 import {
   toSubscription,
   toSubscriptionError,
   subscriptionRepository,
+  getCustomerInfoSnapshot,
+  invalidateCustomerInfoCache,
+  getOffering,
 } from '../repository';
 
 describe('Subscription Repository', () => {
@@ -46,6 +79,10 @@ describe('Subscription Repository', () => {
         tier: 'free',
         expiresAt: null,
         productId: null,
+        willRenew: false,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       });
     });
 
@@ -73,6 +110,7 @@ describe('Subscription Repository', () => {
         originalAppUserId: 'test-user',
         originalApplicationVersion: null,
         originalPurchaseDate: null,
+        managementURL: null,
       } as CustomerInfo;
 
       const subscription = toSubscription(customerInfo);
@@ -115,6 +153,7 @@ describe('Subscription Repository', () => {
         originalAppUserId: 'test-user',
         originalApplicationVersion: null,
         originalPurchaseDate: null,
+        managementURL: null,
       } as CustomerInfo;
 
       const subscription = toSubscription(customerInfo);
@@ -157,6 +196,7 @@ describe('Subscription Repository', () => {
         originalAppUserId: 'test-user',
         originalApplicationVersion: null,
         originalPurchaseDate: null,
+        managementURL: null,
       } as CustomerInfo;
 
       const subscription = toSubscription(customerInfo);
@@ -203,6 +243,7 @@ describe('Subscription Repository', () => {
         originalAppUserId: 'test-user',
         originalApplicationVersion: null,
         originalPurchaseDate: null,
+        managementURL: null,
       } as CustomerInfo;
 
       const subscription = toSubscription(customerInfo);
@@ -248,6 +289,7 @@ describe('Subscription Repository', () => {
         originalAppUserId: 'test-user',
         originalApplicationVersion: null,
         originalPurchaseDate: null,
+        managementURL: null,
       } as CustomerInfo;
 
       const subscription = toSubscription(customerInfo);
@@ -258,6 +300,125 @@ describe('Subscription Repository', () => {
       );
       expect(subscription.productId).toBe('annual_plan');
     });
+    describe('renewal and billing state', () => {
+      async function loadSubscription() {
+        const customerInfo = await Purchases.getCustomerInfo();
+        return toSubscription(customerInfo);
+      }
+
+      it('should map an active renewing subscription', async () => {
+        setupPremiumUserMock();
+
+        const subscription = await loadSubscription();
+
+        expect(subscription.willRenew).toBe(true);
+        expect(subscription.isTrialPeriod).toBe(false);
+        expect(subscription.billingIssueDetectedAt).toBeNull();
+        expect(subscription.cancelledAt).toBeNull();
+      });
+
+      it('should flag trial periods', async () => {
+        setupTrialSubscriptionMock(7);
+
+        const subscription = await loadSubscription();
+
+        expect(subscription.isTrialPeriod).toBe(true);
+      });
+
+      it('should flag introductory-price periods', () => {
+        const customerInfo = createMockPremiumCustomerInfo();
+        customerInfo.entitlements.active.premium.periodType = 'INTRO';
+
+        const subscription = toSubscription(
+          customerInfo as unknown as CustomerInfo
+        );
+
+        expect(subscription.isTrialPeriod).toBe(true);
+      });
+
+      it('should map cancellation date and renewal status', async () => {
+        setupCancelledSubscriptionMock(10);
+
+        const subscription = await loadSubscription();
+
+        expect(subscription.isActive).toBe(true);
+        expect(subscription.willRenew).toBe(false);
+        expect(subscription.cancelledAt).toBeInstanceOf(Date);
+      });
+
+      it('should map billing issue date', async () => {
+        setupBillingIssueMock();
+
+        const subscription = await loadSubscription();
+
+        expect(subscription.isActive).toBe(true);
+        expect(subscription.billingIssueDetectedAt).toBeInstanceOf(Date);
+      });
+    });
+
+    describe('with a multi-tier registry', () => {
+      const registry: EntitlementRegistry = {
+        freeLimits: FREE_TIER_LIMITS,
+        tiers: [
+          {
+            tier: 'plus',
+            entitlementId: 'plus_access',
+            limits: { maxItems: 100, maxExports: 10, hasAds: false },
+          },
+          {
+            tier: 'pro',
+            entitlementId: 'pro_access',
+            limits: PREMIUM_TIER_LIMITS,
+          },
+        ],
+      };
+
+      // Builds CustomerInfo with the given active entitlements, each backed by its own product
+      function createCustomerInfoWith(entitlementIds: string[]): CustomerInfo {
+        const base = createMockPremiumCustomerInfo();
+        const template = base.entitlements.active.premium;
+        const active = Object.fromEntries(
+          entitlementIds.map((id) => [
+            id,
+            { ...template, identifier: id, productIdentifier: `${id}_monthly` },
+          ])
+        );
+        return {
+          ...base,
+          entitlements: { active, all: {} },
+        } as unknown as CustomerInfo;
+      }
+
+      it('should resolve the tier mapped to the active entitlement', () => {
+        const subscription = toSubscription(
+          createCustomerInfoWith(['plus_access']),
+          registry
+        );
+
+        expect(subscription.tier).toBe('plus');
+        expect(subscription.isActive).toBe(true);
+        expect(subscription.productId).toBe('plus_access_monthly');
+      });
+
+      it('should pick the highest tier when several entitlements are active', () => {
+        const subscription = toSubscription(
+          createCustomerInfoWith(['plus_access', 'pro_access']),
+          registry
+        );
+
+        expect(subscription.tier).toBe('pro');
+        expect(subscription.productId).toBe('pro_access_monthly');
+      });
+
+      it('should return free subscription when no entitlement is mapped to a tier', () => {
+        const subscription = toSubscription(
+          createCustomerInfoWith(['premium']),
+          registry
+        );
+
+        expect(subscription).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+      });
+    });
   });
 
   describe('toSubscriptionError', () => {
@@ -381,6 +542,48 @@ describe('Subscription Repository', () => {
       expect(subscriptionError.retryable).toBe(false);
     });
 
+    it('should map INVALID_APP_USER_ID_ERROR to INVALID_APP_USER_ID', () => {
+      const error = {
+        code: PURCHASES_ERROR_CODE.INVALID_APP_USER_ID_ERROR,
+        message: 'Invalid app user id',
+      };
+
+      const subscriptionError = toSubscriptionError(error);
+
+      expect(subscriptionError.code).toBe('INVALID_APP_USER_ID');
+      expect(subscriptionError.retryable).toBe(false);
+    });
+
+    it('should map OPERATION_ALREADY_IN_PROGRESS_ERROR to OPERATION_IN_PROGRESS', () => {
+      const error = {
+        code: PURCHASES_ERROR_CODE.OPERATION_ALREADY_IN_PROGRESS_ERROR,
+        message: 'Operation already in progress',
+      };
+
+      const subscriptionError = toSubscriptionError(error);
+
+      expect(subscriptionError.code).toBe('OPERATION_IN_PROGRESS');
+      expect(subscriptionError.retryable).toBe(false);
+    });
+
+    it.each([
+      [PURCHASES_ERROR_CODE.INELIGIBLE_ERROR, 'INELIGIBLE_FOR_OFFER'],
+      [PURCHASES_ERROR_CODE.INVALID_PROMOTIONAL_OFFER_ERROR, 'INVALID_OFFER'],
+      [
+        PURCHASES_ERROR_CODE.PRODUCT_DISCOUNT_MISSING_IDENTIFIER_ERROR,
+        'INVALID_OFFER',
+      ],
+      [PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR, 'OPERATION_NOT_SUPPORTED'],
+    ])('should map offer error %i to %s', (code, expected) => {
+      const subscriptionError = toSubscriptionError({
+        code,
+        message: 'Offer error',
+      });
+
+      expect(subscriptionError.code).toBe(expected);
+      expect(subscriptionError.retryable).toBe(false);
+    });
+
     it('should map unknown errors to UNKNOWN_ERROR', () => {
       const error = {
         code: 9999,
@@ -471,6 +674,47 @@ describe('Subscription Repository', () => {
       }
     });
 
+    it('should map package types and fall back to UNKNOWN', async () => {
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: {
+          identifier: 'default',
+          availablePackages: [
+            {
+              identifier: '$rc_annual',
+              packageType: 'ANNUAL',
+              product: {
+                title: 'Annual',
+                price: 99.99,
+                priceString: '$99.99',
+                currencyCode: 'USD',
+                introPrice: null,
+              },
+            },
+            {
+              identifier: 'custom_pkg',
+              packageType: 'SOMETHING_NEW',
+              product: {
+                title: 'Custom',
+                price: 1,
+                priceString: '$1.00',
+                currencyCode: 'USD',
+                introPrice: null,
+              },
+            },
+          ],
+        },
+        all: {},
+      });
+
+      const result = await subscriptionRepository.getAvailablePackages();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data[0].packageType).toBe('ANNUAL');
+        expect(result.data[1].packageType).toBe('UNKNOWN');
+      }
+    });
+
     it('should return empty array when no offerings available', async () => {
       (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
         current: null,
@@ -509,8 +753,11 @@ describe('Subscription Repository', () => {
 
       expect(result.success).toBe(true);
       if (result.success) {
-        expect(result.data.tier).toBe('premium');
-        expect(result.data.isActive).toBe(true);
+        expect(result.data.subscription.tier).toBe('premium');
+        expect(result.data.subscription.isActive).toBe(true);
+        expect(result.data.transactionId).toBe(
+          MOCK_SUBSCRIPTION_TRANSACTION_ID
+        );
       }
     });
 
@@ -583,6 +830,405 @@ describe('Subscription Repository', () => {
     });
   });
 
+  describe('subscriptionRepository.getIntroEligibility', () => {
+    it('should map eligibility statuses to package identifiers', async () => {
+      setupIntroEligibilityMock({
+        monthly_plan:
+          INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_INELIGIBLE,
+        annual_plan:
+          INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_NO_INTRO_OFFER_EXISTS,
+      });
+
+      const result = await subscriptionRepository.getIntroEligibility([
+        '$rc_monthly',
+        '$rc_annual',
+      ]);
+
+      expect(result).toEqual({
+        success: true,
+        data: { $rc_monthly: 'ineligible', $rc_annual: 'no_intro_offer' },
+      });
+      expect(
+        Purchases.checkTrialOrIntroductoryPriceEligibility
+      ).toHaveBeenCalledWith(['monthly_plan', 'annual_plan']);
+    });
+
+    it('should omit packages that are not offered without calling the SDK', async () => {
+      const result = await subscriptionRepository.getIntroEligibility([
+        'nonexistent_package',
+      ]);
+
+      expect(result).toEqual({ success: true, data: {} });
+      expect(
+        Purchases.checkTrialOrIntroductoryPriceEligibility
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('offers', () => {
+    const promoDiscount = {
+      identifier: 'promo_half_off',
+      price: 4.99,
+      priceString: '$4.99',
+      cycles: 3,
+      period: 'P1M',
+      periodUnit: 'MONTH',
+      periodNumberOfUnits: 1,
+    };
+    const winBackDiscount = { ...promoDiscount, identifier: 'win_back_1' };
+
+    const promoOffer: SubscriptionOffer = {
+      identifier: 'promo_half_off',
+      type: 'promotional',
+      priceString: '$4.99',
+      price: 4.99,
+      period: 'P1M',
+      cycles: 3,
+    };
+    const winBackOffer: SubscriptionOffer = {
+      ...promoOffer,
+      identifier: 'win_back_1',
+      type: 'win_back',
+    };
+
+    const originalOS = Platform.OS;
+
+    afterEach(() => {
+      (Platform as { OS: string }).OS = originalOS;
+    });
+
+    describe('subscriptionRepository.getOffers', () => {
+      it('should list promotional and win-back offers on iOS', async () => {
+        (Platform as { OS: string }).OS = 'ios';
+        setupProductDiscountsMock([promoDiscount]);
+        setupWinBackOffersMock([winBackDiscount]);
+
+        const result = await subscriptionRepository.getOffers('$rc_monthly');
+
+        expect(result).toEqual({
+          success: true,
+          data: [promoOffer, winBackOffer],
+        });
+      });
+
+      it('should not ask for win-back offers on Android', async () => {
+        (Platform as { OS: string }).OS = 'android';
+        setupProductDiscountsMock([promoDiscount]);
+
+        const result = await subscriptionRepository.getOffers('$rc_monthly');
+
+        expect(result).toEqual({ success: true, data: [promoOffer] });
+        expect(
+          Purchases.getEligibleWinBackOffersForPackage
+        ).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('subscriptionRepository.purchasePackageWithOffer', () => {
+      it('should sign and purchase a promotional offer', async () => {
+        setupFreeUserMock();
+        setupProductDiscountsMock([promoDiscount]);
+
+        const result = await subscriptionRepository.purchasePackageWithOffer(
+          '$rc_monthly',
+          promoOffer
+        );
+
+        expect(result.success && result.data.subscription.tier).toBe('premium');
+        expect(Purchases.getPromotionalOffer).toHaveBeenCalledWith(
+          expect.objectContaining({ identifier: 'monthly_plan' }),
+          promoDiscount
+        );
+        expect(Purchases.purchaseDiscountedPackage).toHaveBeenCalledWith(
+          expect.objectContaining({ identifier: '$rc_monthly' }),
+          expect.objectContaining({ identifier: 'promo_half_off' })
+        );
+      });
+
+      it('should return INELIGIBLE_FOR_OFFER when the offer cannot be signed for the user', async () => {
+        setupProductDiscountsMock([promoDiscount]);
+        setupPromotionalOfferIneligible();
+
+        const result = await subscriptionRepository.purchasePackageWithOffer(
+          '$rc_monthly',
+          promoOffer
+        );
+
+        expect(!result.success && result.error.code).toBe(
+          'INELIGIBLE_FOR_OFFER'
+        );
+        expect(Purchases.purchaseDiscountedPackage).not.toHaveBeenCalled();
+      });
+
+      it('should return INVALID_OFFER for an offer the product does not list', async () => {
+        const result = await subscriptionRepository.purchasePackageWithOffer(
+          '$rc_monthly',
+          promoOffer
+        );
+
+        expect(!result.success && result.error.code).toBe('INVALID_OFFER');
+      });
+
+      it('should purchase an eligible win-back offer', async () => {
+        (Platform as { OS: string }).OS = 'ios';
+        setupFreeUserMock();
+        setupWinBackOffersMock([winBackDiscount]);
+
+        const result = await subscriptionRepository.purchasePackageWithOffer(
+          '$rc_monthly',
+          winBackOffer
+        );
+
+        expect(result.success).toBe(true);
+        expect(Purchases.purchasePackageWithWinBackOffer).toHaveBeenCalledWith(
+          expect.objectContaining({ identifier: '$rc_monthly' }),
+          winBackDiscount
+        );
+      });
+
+      it('should return INELIGIBLE_FOR_OFFER when the win-back offer is no longer eligible', async () => {
+        (Platform as { OS: string }).OS = 'ios';
+
+        const result = await subscriptionRepository.purchasePackageWithOffer(
+          '$rc_monthly',
+          winBackOffer
+        );
+
+        expect(!result.success && result.error.code).toBe(
+          'INELIGIBLE_FOR_OFFER'
+        );
+        expect(
+          Purchases.purchasePackageWithWinBackOffer
+        ).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('subscriptionRepository.redeemOfferCode', () => {
+      let openURLSpy: jest.SpyInstance;
+
+      beforeEach(() => {
+        openURLSpy = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+      });
+
+      afterEach(() => {
+        openURLSpy.mockRestore();
+      });
+
+      it('should present the App Store redemption sheet on iOS', async () => {
+        (Platform as { OS: string }).OS = 'ios';
+
+        const result = await subscriptionRepository.redeemOfferCode('IGNORED');
+
+        expect(result).toEqual({ success: true, data: undefined });
+        expect(Purchases.presentCodeRedemptionSheet).toHaveBeenCalled();
+      });
+
+      it('should open the Play Store redeem page with the code on Android', async () => {
+        (Platform as { OS: string }).OS = 'android';
+
+        const result =
+          await subscriptionRepository.redeemOfferCode('SPRING 25');
+
+        expect(result.success).toBe(true);
+        expect(openURLSpy).toHaveBeenCalledWith(
+          'https://play.google.com/redeem?code=SPRING%2025'
+        );
+      });
+
+      it('should return OPERATION_NOT_SUPPORTED on web', async () => {
+        (Platform as { OS: string }).OS = 'web';
+
+        const result = await subscriptionRepository.redeemOfferCode('SPRING25');
+
+        expect(!result.success && result.error.code).toBe(
+          'OPERATION_NOT_SUPPORTED'
+        );
+      });
+    });
+  });
+
+  describe('plan management', () => {
+    const originalOS = Platform.OS;
+    let openURLSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      openURLSpy = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    });
+
+    afterEach(() => {
+      (Platform as { OS: string }).OS = originalOS;
+      openURLSpy.mockRestore();
+    });
+
+    describe('subscriptionRepository.openManagementUrl', () => {
+      it("should open the customer's management URL", async () => {
+        setupPremiumUserMock();
+
+        const result = await subscriptionRepository.openManagementUrl();
+
+        expect(result).toEqual({ success: true, data: undefined });
+        expect(openURLSpy).toHaveBeenCalledWith(MOCK_MANAGEMENT_URL);
+      });
+
+      it('should fall back to the store subscriptions page', async () => {
+        (Platform as { OS: string }).OS = 'android';
+        setupFreeUserMock();
+
+        const result = await subscriptionRepository.openManagementUrl();
+
+        expect(result.success).toBe(true);
+        expect(openURLSpy).toHaveBeenCalledWith(
+          'https://play.google.com/store/account/subscriptions'
+        );
+      });
+
+      it('should return OPERATION_NOT_SUPPORTED without a management URL', async () => {
+        (Platform as { OS: string }).OS = 'web';
+        setupFreeUserMock();
+
+        const result = await subscriptionRepository.openManagementUrl();
+
+        expect(!result.success && result.error.code).toBe(
+          'OPERATION_NOT_SUPPORTED'
+        );
+        expect(openURLSpy).not.toHaveBeenCalled();
+      });
+
+      it('should map a failure to open the URL to an error', async () => {
+        setupPremiumUserMock();
+        openURLSpy.mockRejectedValueOnce(new Error('No handler'));
+
+        const result = await subscriptionRepository.openManagementUrl();
+
+        expect(!result.success && result.error.code).toBe('UNKNOWN_ERROR');
+      });
+    });
+
+    describe('subscriptionRepository.beginRefundRequest', () => {
+      beforeEach(() => {
+        (Platform as { OS: string }).OS = 'ios';
+      });
+
+      it('should present the refund sheet for the product and report submission', async () => {
+        const result =
+          await subscriptionRepository.beginRefundRequest('monthly_plan');
+
+        expect(result).toEqual({ success: true, data: 'submitted' });
+        expect(Purchases.getProducts).toHaveBeenCalledWith(['monthly_plan']);
+        expect(Purchases.beginRefundRequestForProduct).toHaveBeenCalledWith(
+          expect.objectContaining({ identifier: 'monthly_plan' })
+        );
+      });
+
+      it('should report a dismissed refund sheet as cancelled', async () => {
+        setupRefundRequestStatus(REFUND_REQUEST_STATUS.USER_CANCELLED);
+
+        const result =
+          await subscriptionRepository.beginRefundRequest('monthly_plan');
+
+        expect(result).toEqual({ success: true, data: 'cancelled' });
+      });
+
+      it('should return an error when the store reports a failure', async () => {
+        setupRefundRequestStatus(REFUND_REQUEST_STATUS.ERROR);
+
+        const result =
+          await subscriptionRepository.beginRefundRequest('monthly_plan');
+
+        expect(!result.success && result.error.code).toBe('UNKNOWN_ERROR');
+      });
+
+      it('should return an error for an unknown product', async () => {
+        const result =
+          await subscriptionRepository.beginRefundRequest('missing_plan');
+
+        expect(!result.success && result.error.message).toContain(
+          'missing_plan'
+        );
+        expect(Purchases.beginRefundRequestForProduct).not.toHaveBeenCalled();
+      });
+
+      it('should map SDK errors to domain errors', async () => {
+        (Purchases.getProducts as jest.Mock).mockRejectedValueOnce({
+          code: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+          message: 'Network error',
+        });
+
+        const result =
+          await subscriptionRepository.beginRefundRequest('monthly_plan');
+
+        expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+      });
+
+      it('should return OPERATION_NOT_SUPPORTED outside iOS', async () => {
+        (Platform as { OS: string }).OS = 'android';
+
+        const result =
+          await subscriptionRepository.beginRefundRequest('monthly_plan');
+
+        expect(!result.success && result.error.code).toBe(
+          'OPERATION_NOT_SUPPORTED'
+        );
+        expect(Purchases.getProducts).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('subscriptionRepository.purchaseProduct', () => {
+    it('should purchase a consumable and return its transaction', async () => {
+      const result =
+        await subscriptionRepository.purchaseProduct('export_pack_10');
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          productId: 'export_pack_10',
+          transactionId: 'mock-transaction-1',
+          subscription: DEFAULT_FREE_SUBSCRIPTION,
+        },
+      });
+      expect(Purchases.getProducts).toHaveBeenCalledWith(
+        ['export_pack_10'],
+        PRODUCT_CATEGORY.NON_SUBSCRIPTION
+      );
+      expect(Purchases.purchaseStoreProduct).toHaveBeenCalledWith(
+        expect.objectContaining({ identifier: 'export_pack_10' })
+      );
+    });
+
+    it('should return a never-expiring subscription for a lifetime unlock', async () => {
+      const result =
+        await subscriptionRepository.purchaseProduct('lifetime_plan');
+
+      expect(result.success && result.data.subscription).toEqual(
+        expect.objectContaining({
+          isActive: true,
+          tier: 'premium',
+          productId: 'lifetime_plan',
+          expiresAt: null,
+          willRenew: false,
+        })
+      );
+    });
+
+    it('should return an error for an unknown product', async () => {
+      const result =
+        await subscriptionRepository.purchaseProduct('missing_pack');
+
+      expect(!result.success && result.error.message).toContain('missing_pack');
+      expect(Purchases.purchaseStoreProduct).not.toHaveBeenCalled();
+    });
+
+    it('should map purchase errors to domain errors', async () => {
+      setupPurchaseError(PURCHASES_ERROR_CODE.PURCHASE_CANCELLED_ERROR);
+
+      const result =
+        await subscriptionRepository.purchaseProduct('export_pack_10');
+
+      expect(!result.success && result.error.code).toBe('PURCHASE_CANCELLED');
+    });
+  });
+
   describe('subscriptionRepository.restorePurchases', () => {
     it('should return subscription when active subscription found', async () => {
       setupPremiumUserMock();
@@ -592,11 +1238,21 @@ describe('Subscription Repository', () => {
       expect(result.success).toBe(true);
       if (result.success) {
         expect(result.data).not.toBeNull();
-        expect(result.data?.tier).toBe('premium');
-        expect(result.data?.isActive).toBe(true);
+        expect(result.data?.subscription.tier).toBe('premium');
+        expect(result.data?.subscription.isActive).toBe(true);
       }
     });
 
+    it('should return the latest store transaction of the restored subscription', async () => {
+      setupPremiumUserMock();
+
+      const result = await subscriptionRepository.restorePurchases();
+
+      expect(result.success && result.data?.transactionId).toBe(
+        MOCK_SUBSCRIPTION_TRANSACTION_ID
+      );
+    });
+
     it('should return null when no active subscription found', async () => {
       setupFreeUserMock();
 
@@ -630,4 +1286,327 @@ describe('Subscription Repository', () => {
       expect(Purchases.restorePurchases).toHaveBeenCalled();
     });
   });
+
+  describe('subscriptionRepository.logIn', () => {
+    it('should return the identified user subscription', async () => {
+      setupPremiumUserMock();
+
+      const result = await subscriptionRepository.logIn('user-42');
+
+      expect(Purchases.logIn).toHaveBeenCalledWith('user-42');
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tier).toBe('premium');
+      }
+    });
+
+    it('should reject an empty app user id without calling the SDK', async () => {
+      const result = await subscriptionRepository.logIn('  ');
+
+      expect(Purchases.logIn).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_APP_USER_ID');
+      }
+    });
+
+    it('should map SDK errors', async () => {
+      setupLogInError(PURCHASES_ERROR_CODE.NETWORK_ERROR);
+
+      const result = await subscriptionRepository.logIn('user-42');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NETWORK_ERROR');
+        expect(result.error.retryable).toBe(true);
+      }
+    });
+  });
+
+  describe('subscriptionRepository.logOut', () => {
+    it('should return the anonymous user subscription', async () => {
+      setupLoggedInUserMock('user-42');
+      setupPremiumUserMock();
+
+      const result = await subscriptionRepository.logOut();
+
+      expect(Purchases.logOut).toHaveBeenCalled();
+      expect(result).toEqual({
+        success: true,
+        data: DEFAULT_FREE_SUBSCRIPTION,
+      });
+    });
+
+    it('should treat logging out an anonymous user as success', async () => {
+      setupPremiumUserMock();
+
+      const result = await subscriptionRepository.logOut();
+
+      expect(Purchases.getCustomerInfo).toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.tier).toBe('premium');
+      }
+    });
+
+    it('should map other SDK errors', async () => {
+      (Purchases.logOut as jest.Mock).mockRejectedValueOnce({
+        code: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+        message: 'Network error',
+      });
+
+      const result = await subscriptionRepository.logOut();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('NETWORK_ERROR');
+      }
+    });
+  });
+
+  describe('subscriptionRepository.getAppUserId', () => {
+    it('should return the RevenueCat app user id', async () => {
+      setupLoggedInUserMock('user-42');
+
+      const result = await subscriptionRepository.getAppUserId();
+
+      expect(result).toEqual({ success: true, data: 'user-42' });
+    });
+
+    it('should map SDK errors', async () => {
+      (Purchases.getAppUserID as jest.Mock).mockRejectedValueOnce({
+        code: PURCHASES_ERROR_CODE.CONFIGURATION_ERROR,
+        message: 'Not configured',
+      });
+
+      const result = await subscriptionRepository.getAppUserId();
+
+      expect(!result.success && result.error.code).toBe('CONFIGURATION_ERROR');
+    });
+  });
+
+  describe('subscriptionRepository.addSubscriptionListener', () => {
+    it('should convert pushed CustomerInfo to Subscription', () => {
+      const listener = jest.fn();
+
+      subscriptionRepository.addSubscriptionListener(listener);
+      emitCustomerInfoUpdate(
+        createMockPremiumCustomerInfo() as unknown as CustomerInfo
+      );
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].tier).toBe('premium');
+      expect(listener.mock.calls[0][0].isActive).toBe(true);
+    });
+
+    it('should stop forwarding updates after unsubscribe', () => {
+      const listener = jest.fn();
+
+      const unsubscribe =
+        subscriptionRepository.addSubscriptionListener(listener);
+      unsubscribe();
+      emitCustomerInfoUpdate();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(Purchases.removeCustomerInfoUpdateListener).toHaveBeenCalledWith(
+        (Purchases.addCustomerInfoUpdateListener as jest.Mock).mock.calls[0][0]
+      );
+    });
+  });
+
+  describe('getCustomerInfoSnapshot', () => {
+    it('should return the unconverted CustomerInfo and app user id', async () => {
+      setupPremiumUserMock();
+      setupLoggedInUserMock('user-42');
+
+      const result = await getCustomerInfoSnapshot();
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.appUserId).toBe('user-42');
+        expect(
+          result.data.customerInfo.entitlements.active[PREMIUM_ENTITLEMENT_ID]
+        ).toBeDefined();
+      }
+    });
+
+    it('should map SDK failures to SubscriptionError', async () => {
+      (Purchases.getCustomerInfo as jest.Mock).mockRejectedValueOnce({
+        code: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+        message: 'Network error',
+      });
+
+      const result = await getCustomerInfoSnapshot();
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: 'Network error',
+          retryable: true,
+        },
+      });
+    });
+  });
+
+  describe('invalidateCustomerInfoCache', () => {
+    it('should invalidate the SDK CustomerInfo cache', async () => {
+      const result = await invalidateCustomerInfoCache();
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(Purchases.invalidateCustomerInfoCache).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map SDK failures to SubscriptionError', async () => {
+      (
+        Purchases.invalidateCustomerInfoCache as jest.Mock
+      ).mockRejectedValueOnce(new Error('Not configured'));
+
+      const result = await invalidateCustomerInfoCache();
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('UNKNOWN_ERROR');
+      }
+    });
+  });
+
+  describe('getOffering', () => {
+    it('should return the offering with the identifier', async () => {
+      const offering = {
+        identifier: 'limit_reached',
+        serverDescription: 'Limit reached',
+        availablePackages: [],
+      };
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: null,
+        all: { limit_reached: offering },
+      });
+
+      const result = await getOffering('limit_reached');
+
+      expect(result).toEqual({ success: true, data: offering });
+    });
+
+    it('should return null for an unknown identifier', async () => {
+      const result = await getOffering('missing');
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+
+    it('should map SDK failures to SubscriptionError', async () => {
+      (Purchases.getOfferings as jest.Mock).mockRejectedValueOnce({
+        code: PURCHASES_ERROR_CODE.NETWORK_ERROR,
+        message: 'Network error',
+      });
+
+      const result = await getOffering('limit_reached');
+
+      expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+    });
+  });
+
+  describe('subscriptionRepository.getOfferingPackages', () => {
+    const annualPackage = {
+      identifier: '$rc_annual',
+      packageType: 'ANNUAL',
+      product: {
+        identifier: 'annual_discount',
+        title: 'Annual',
+        price: 49.99,
+        priceString: '$49.99',
+        currencyCode: 'USD',
+        introPrice: { price: 0, priceString: '$0.00', period: 'P1W' },
+      },
+    };
+
+    beforeEach(() => {
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: null,
+        all: {
+          limit_reached: {
+            identifier: 'limit_reached',
+            availablePackages: [annualPackage],
+          },
+        },
+      });
+    });
+
+    it('should convert the offering packages', async () => {
+      const result =
+        await subscriptionRepository.getOfferingPackages('limit_reached');
+
+      expect(result).toEqual({
+        success: true,
+        data: [
+          {
+            identifier: '$rc_annual',
+            packageType: 'ANNUAL',
+            title: 'Annual',
+            priceString: '$49.99',
+            price: 49.99,
+            currencyCode: 'USD',
+            introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+          },
+        ],
+      });
+    });
+
+    it('should remove intro prices the user is not eligible for', async () => {
+      setupIntroEligibilityMock({
+        annual_discount:
+          INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_INELIGIBLE,
+      });
+
+      const result =
+        await subscriptionRepository.getOfferingPackages('limit_reached');
+
+      expect(result.success && result.data?.[0].introPrice).toBeUndefined();
+    });
+
+    it('should return null for an unknown identifier', async () => {
+      const result =
+        await subscriptionRepository.getOfferingPackages('missing');
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+  });
+
+  describe('subscriptionRepository.purchasePackage with an offering', () => {
+    it('should purchase the package of the given offering', async () => {
+      const discountPackage = {
+        ...(await Purchases.getOfferings()).current!.availablePackages[1],
+        offeringIdentifier: 'limit_reached',
+      };
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: null,
+        all: {
+          limit_reached: { availablePackages: [discountPackage] },
+        },
+      });
+
+      await subscriptionRepository.purchasePackage(
+        '$rc_annual',
+        'limit_reached'
+      );
+
+      expect(Purchases.purchasePackage).toHaveBeenCalledWith(discountPackage);
+    });
+
+    it('should return an error when the offering is not available', async () => {
+      (Purchases.getOfferings as jest.Mock).mockResolvedValueOnce({
+        current: null,
+        all: {},
+      });
+
+      const result = await subscriptionRepository.purchasePackage(
+        '$rc_annual',
+        'missing'
+      );
+
+      expect(!result.success && result.error.message).toBe(
+        'Package not found: Offering missing not available'
+      );
+    });
+  });
 });
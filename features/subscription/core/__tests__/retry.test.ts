@@ -0,0 +1,161 @@
+/**
+ * Retry Policy Tests
+ *
+ * Tests for exponential backoff with jitter and retrying of
+ * retryable SubscriptionErrors.
+ *
+ * @module features/subscription/core/__tests__/retry.test
+ */
+
+import {
+  DEFAULT_RETRY_POLICY,
+  getBackoffDelay,
+  withRetry,
+  type RetryPolicy,
+} from '../retry';
+import type { Result, SubscriptionError } from '../types';
+
+const networkError: SubscriptionError = {
+  code: 'NETWORK_ERROR',
+  message: 'Network connection failed',
+  retryable: true,
+};
+
+const cancelledError: SubscriptionError = {
+  code: 'PURCHASE_CANCELLED',
+  message: 'User cancelled',
+  retryable: false,
+};
+
+const policy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+};
+
+const noSleep = jest.fn(async (_ms: number) => undefined);
+
+function failure(error: SubscriptionError): Result<string, SubscriptionError> {
+  return { success: false, error };
+}
+
+describe('Retry Policy', () => {
+  beforeEach(() => {
+    noSleep.mockClear();
+  });
+
+  describe('getBackoffDelay', () => {
+    it('should double the delay cap on each attempt', () => {
+      const maxJitter = () => 0.999999;
+
+      expect(getBackoffDelay(1, policy, maxJitter)).toBe(99);
+      expect(getBackoffDelay(2, policy, maxJitter)).toBe(199);
+      expect(getBackoffDelay(3, policy, maxJitter)).toBe(399);
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+      expect(getBackoffDelay(10, policy, () => 0.5)).toBe(500);
+    });
+
+    it('should apply jitter between 0 and the cap', () => {
+      expect(getBackoffDelay(2, policy, () => 0)).toBe(0);
+      expect(getBackoffDelay(2, policy, () => 0.5)).toBe(100);
+    });
+
+    it('should stay within the default policy bounds', () => {
+      const delay = getBackoffDelay(1, DEFAULT_RETRY_POLICY);
+
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThan(DEFAULT_RETRY_POLICY.baseDelayMs);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should return a success without retrying', async () => {
+      const operation = jest.fn(
+        async (): Promise<Result<string, SubscriptionError>> => ({
+          success: true,
+          data: 'ok',
+        })
+      );
+
+      const outcome = await withRetry(operation, { policy, sleep: noSleep });
+
+      expect(outcome).toEqual({
+        result: { success: true, data: 'ok' },
+        attempts: 1,
+      });
+      expect(noSleep).not.toHaveBeenCalled();
+    });
+
+    it('should not retry non-retryable errors', async () => {
+      const operation = jest.fn(async () => failure(cancelledError));
+
+      const outcome = await withRetry(operation, { policy, sleep: noSleep });
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(outcome.attempts).toBe(1);
+    });
+
+    it('should retry retryable errors until success', async () => {
+      const operation = jest
+        .fn<Promise<Result<string, SubscriptionError>>, []>()
+        .mockResolvedValueOnce(failure(networkError))
+        .mockResolvedValueOnce({ success: true, data: 'ok' });
+
+      const outcome = await withRetry(operation, { policy, sleep: noSleep });
+
+      expect(outcome).toEqual({
+        result: { success: true, data: 'ok' },
+        attempts: 2,
+      });
+    });
+
+    it('should give up after maxAttempts', async () => {
+      const operation = jest.fn(async () => failure(networkError));
+
+      const outcome = await withRetry(operation, { policy, sleep: noSleep });
+
+      expect(operation).toHaveBeenCalledTimes(3);
+      expect(outcome).toEqual({
+        result: failure(networkError),
+        attempts: 3,
+      });
+    });
+
+    it('should wait the backoff delay and report each retry', async () => {
+      const operation = jest.fn(async () => failure(networkError));
+      const onRetry = jest.fn();
+
+      await withRetry(operation, {
+        policy,
+        sleep: noSleep,
+        random: () => 0.5,
+        onRetry,
+      });
+
+      expect(noSleep.mock.calls).toEqual([[50], [100]]);
+      expect(onRetry).toHaveBeenNthCalledWith(1, {
+        attempt: 1,
+        delayMs: 50,
+        error: networkError,
+      });
+      expect(onRetry).toHaveBeenNthCalledWith(2, {
+        attempt: 2,
+        delayMs: 100,
+        error: networkError,
+      });
+    });
+
+    it('should attempt once when maxAttempts is 1 or less', async () => {
+      const operation = jest.fn(async () => failure(networkError));
+
+      await withRetry(operation, {
+        policy: { ...policy, maxAttempts: 0 },
+        sleep: noSleep,
+      });
+
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
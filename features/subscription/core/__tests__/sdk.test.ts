@@ -122,6 +122,29 @@ describe('SDK Configuration', () => {
       });
     });
 
+    it('should configure with the given app user id', async () => {
+      process.env.EXPO_PUBLIC_REVENUE_CAT_API_KEY_APPLE = 'test_apple_key';
+      (Platform as { OS: string }).OS = 'ios';
+
+      await configurePurchases({ appUserId: 'user-42' });
+
+      expect(Purchases.configure).toHaveBeenCalledWith({
+        apiKey: 'test_apple_key',
+        appUserID: 'user-42',
+      });
+    });
+
+    it('should configure anonymously when the app user id is null', async () => {
+      process.env.EXPO_PUBLIC_REVENUE_CAT_API_KEY_APPLE = 'test_apple_key';
+      (Platform as { OS: string }).OS = 'ios';
+
+      await configurePurchases({ appUserId: null });
+
+      expect(Purchases.configure).toHaveBeenCalledWith({
+        apiKey: 'test_apple_key',
+      });
+    });
+
     it('should enable ERROR log level in development mode', async () => {
       process.env.EXPO_PUBLIC_REVENUE_CAT_API_KEY_APPLE = 'test_apple_key';
       (Platform as { OS: string }).OS = 'ios';
@@ -10,28 +10,77 @@
 import {
   getUsageLimits,
   canAccessFeature,
+  isLifetimeSubscription,
   getDefaultSubscription,
   FREE_TIER_LIMITS,
   PREMIUM_TIER_LIMITS,
   createSubscriptionService,
 } from '../service';
 import type {
+  EntitlementRegistry,
   FeatureLevel,
+  IntroEligibility,
+  PackagePurchase,
+  ProductPurchase,
+  RefundRequestStatus,
   Subscription,
   SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
   Result,
 } from '../types';
 import { DEFAULT_FREE_SUBSCRIPTION } from '../types';
+import { createMockReceiptVerifier } from '../receipt-verifier';
 
 // Mock repository type for testing
 type MockSubscriptionRepository = {
   getCustomerInfo: jest.Mock<Promise<Result<Subscription, SubscriptionError>>>;
   purchasePackage: jest.Mock<
-    Promise<Result<Subscription, SubscriptionError>>,
+    Promise<Result<PackagePurchase, SubscriptionError>>,
     [string]
   >;
   restorePurchases: jest.Mock<
-    Promise<Result<Subscription | null, SubscriptionError>>
+    Promise<Result<PackagePurchase | null, SubscriptionError>>
+  >;
+  getAvailablePackages: jest.Mock<
+    Promise<Result<SubscriptionPackage[], SubscriptionError>>
+  >;
+  getOfferingPackages: jest.Mock<
+    Promise<Result<SubscriptionPackage[] | null, SubscriptionError>>,
+    [string]
+  >;
+  logIn: jest.Mock<Promise<Result<Subscription, SubscriptionError>>, [string]>;
+  logOut: jest.Mock<Promise<Result<Subscription, SubscriptionError>>>;
+  getAppUserId: jest.Mock<Promise<Result<string, SubscriptionError>>>;
+  getIntroEligibility: jest.Mock<
+    Promise<Result<Record<string, IntroEligibility>, SubscriptionError>>,
+    [string[]]
+  >;
+  getOffers: jest.Mock<
+    Promise<Result<SubscriptionOffer[], SubscriptionError>>,
+    [string]
+  >;
+  purchasePackageWithOffer: jest.Mock<
+    Promise<Result<PackagePurchase, SubscriptionError>>,
+    [string, SubscriptionOffer]
+  >;
+  redeemOfferCode: jest.Mock<
+    Promise<Result<void, SubscriptionError>>,
+    [string | undefined]
+  >;
+  openManagementUrl: jest.Mock<Promise<Result<void, SubscriptionError>>>;
+  beginRefundRequest: jest.Mock<
+    Promise<Result<RefundRequestStatus, SubscriptionError>>,
+    [string]
+  >;
+  purchaseProduct: jest.Mock<
+    Promise<Result<ProductPurchase, SubscriptionError>>,
+    [string]
+  >;
+  addSubscriptionListener: jest.Mock<
+    () => void,
+    [(subscription: Subscription) => void]
   >;
 };
 
@@ -43,6 +92,21 @@ function createMockRepository(
     getCustomerInfo: jest.fn(),
     purchasePackage: jest.fn(),
     restorePurchases: jest.fn(),
+    getAvailablePackages: jest.fn(),
+    getOfferingPackages: jest.fn(),
+    logIn: jest.fn(),
+    logOut: jest.fn(),
+    getAppUserId: jest.fn(),
+    getIntroEligibility: jest.fn(),
+    getOffers: jest.fn(),
+    purchasePackageWithOffer: jest.fn(),
+    redeemOfferCode: jest.fn(),
+    openManagementUrl: jest.fn(),
+    beginRefundRequest: jest.fn(),
+    purchaseProduct: jest.fn(),
+    addSubscriptionListener: jest.fn(
+      (_listener: (subscription: Subscription) => void) => jest.fn()
+    ),
     ...overrides,
   };
 }
@@ -135,6 +199,65 @@ describe('Subscription Service', () => {
     });
   });
 
+  describe('with a multi-tier registry', () => {
+    const plusLimits = { maxItems: 100, maxExports: 10, hasAds: false };
+    const registry: EntitlementRegistry = {
+      freeLimits: FREE_TIER_LIMITS,
+      tiers: [
+        { tier: 'plus', entitlementId: 'plus', limits: plusLimits },
+        { tier: 'pro', entitlementId: 'pro', limits: PREMIUM_TIER_LIMITS },
+      ],
+    };
+
+    it('should return limits for each configured tier', () => {
+      expect(getUsageLimits('free', registry)).toBe(FREE_TIER_LIMITS);
+      expect(getUsageLimits('plus', registry)).toBe(plusLimits);
+      expect(getUsageLimits('pro', registry)).toBe(PREMIUM_TIER_LIMITS);
+    });
+
+    it('should fall back to free limits for unknown tiers', () => {
+      expect(getUsageLimits('premium', registry)).toBe(FREE_TIER_LIMITS);
+    });
+
+    it('should grant features to the required tier and above', () => {
+      expect(canAccessFeature('plus', 'free', registry)).toBe(false);
+      expect(canAccessFeature('plus', 'plus', registry)).toBe(true);
+      expect(canAccessFeature('plus', 'pro', registry)).toBe(true);
+    });
+
+    it('should deny higher-tier features to lower tiers', () => {
+      expect(canAccessFeature('pro', 'plus', registry)).toBe(false);
+      expect(canAccessFeature('pro', 'pro', registry)).toBe(true);
+    });
+
+    it('should allow basic features for every tier', () => {
+      expect(canAccessFeature('basic', 'free', registry)).toBe(true);
+      expect(canAccessFeature('basic', 'plus', registry)).toBe(true);
+    });
+  });
+  describe('isLifetimeSubscription', () => {
+    const lifetime: Subscription = {
+      ...DEFAULT_FREE_SUBSCRIPTION,
+      isActive: true,
+      tier: 'premium',
+      productId: 'lifetime_plan',
+    };
+
+    it('should be true for an active subscription without expiry', () => {
+      expect(isLifetimeSubscription(lifetime)).toBe(true);
+    });
+
+    it('should be false for expiring and free subscriptions', () => {
+      expect(
+        isLifetimeSubscription({
+          ...lifetime,
+          expiresAt: new Date('2026-12-31'),
+        })
+      ).toBe(false);
+      expect(isLifetimeSubscription(DEFAULT_FREE_SUBSCRIPTION)).toBe(false);
+    });
+  });
+
   describe('getDefaultSubscription', () => {
     it('should return the default free subscription', () => {
       const subscription = getDefaultSubscription();
@@ -156,7 +279,10 @@ describe('Subscription Service', () => {
 
   describe('createSubscriptionService', () => {
     let mockRepository: MockSubscriptionRepository;
-    let onStateChange: jest.Mock<void, [Subscription]>;
+    let onStateChange: jest.Mock<
+      void,
+      [Subscription, SubscriptionSource | null]
+    >;
 
     beforeEach(() => {
       mockRepository = createMockRepository();
@@ -170,11 +296,18 @@ describe('Subscription Service', () => {
           tier: 'premium',
           expiresAt: new Date('2025-12-31'),
           productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.purchasePackage.mockResolvedValue({
           success: true,
-          data: premiumSubscription,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
         });
 
         const service = createSubscriptionService({
@@ -188,7 +321,10 @@ describe('Subscription Service', () => {
         if (result.success) {
           expect(result.data).toEqual(premiumSubscription);
         }
-        expect(onStateChange).toHaveBeenCalledWith(premiumSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
       });
 
       it('should handle purchase cancellation without logging error', async () => {
@@ -257,6 +393,10 @@ describe('Subscription Service', () => {
           tier: 'premium',
           expiresAt: new Date('2025-12-31'),
           productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.purchasePackage.mockResolvedValue({
@@ -266,7 +406,10 @@ describe('Subscription Service', () => {
 
         mockRepository.restorePurchases.mockResolvedValue({
           success: true,
-          data: premiumSubscription,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
         });
 
         const service = createSubscriptionService({
@@ -281,7 +424,10 @@ describe('Subscription Service', () => {
         if (result.success) {
           expect(result.data).toEqual(premiumSubscription);
         }
-        expect(onStateChange).toHaveBeenCalledWith(premiumSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
       });
 
       it('should return restore error when auto-restore fails after PRODUCT_ALREADY_PURCHASED', async () => {
@@ -367,11 +513,18 @@ describe('Subscription Service', () => {
           tier: 'premium',
           expiresAt: new Date('2025-12-31'),
           productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.restorePurchases.mockResolvedValue({
           success: true,
-          data: premiumSubscription,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
         });
 
         const service = createSubscriptionService({
@@ -385,7 +538,10 @@ describe('Subscription Service', () => {
         if (result.success) {
           expect(result.data).toEqual(premiumSubscription);
         }
-        expect(onStateChange).toHaveBeenCalledWith(premiumSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
       });
 
       it('should return NO_ACTIVE_SUBSCRIPTION when no subscription found', async () => {
@@ -445,6 +601,10 @@ describe('Subscription Service', () => {
           tier: 'premium',
           expiresAt: new Date('2025-12-31'),
           productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.getCustomerInfo.mockResolvedValue({
@@ -463,7 +623,10 @@ describe('Subscription Service', () => {
         if (result.success) {
           expect(result.data).toEqual(premiumSubscription);
         }
-        expect(onStateChange).toHaveBeenCalledWith(premiumSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
       });
 
       it('should fallback to free tier when subscription is expired', async () => {
@@ -472,6 +635,10 @@ describe('Subscription Service', () => {
           tier: 'free',
           expiresAt: new Date('2023-01-01'), // Past date
           productId: 'monthly_plan',
+          willRenew: false,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.getCustomerInfo.mockResolvedValue({
@@ -492,7 +659,10 @@ describe('Subscription Service', () => {
           expect(result.data.tier).toBe('free');
           expect(result.data.isActive).toBe(false);
         }
-        expect(onStateChange).toHaveBeenCalledWith(expiredSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          expiredSubscription,
+          'remote'
+        );
       });
 
       it('should handle fetch error and return default subscription', async () => {
@@ -519,7 +689,10 @@ describe('Subscription Service', () => {
           expect(result.error.code).toBe('NETWORK_ERROR');
         }
         // State should still update to free tier on error
-        expect(onStateChange).toHaveBeenCalledWith(DEFAULT_FREE_SUBSCRIPTION);
+        expect(onStateChange).toHaveBeenCalledWith(
+          DEFAULT_FREE_SUBSCRIPTION,
+          null
+        );
       });
     });
 
@@ -543,6 +716,10 @@ describe('Subscription Service', () => {
           tier: 'premium',
           expiresAt: new Date('2025-12-31'),
           productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
         };
 
         mockRepository.getCustomerInfo.mockResolvedValue({
@@ -564,19 +741,1675 @@ describe('Subscription Service', () => {
       });
     });
 
-    describe('logger', () => {
-      it('should call logger on successful purchase', async () => {
+    describe('getPackages', () => {
+      const monthlyPackage: SubscriptionPackage = {
+        identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
+        title: 'Monthly',
+        priceString: '$9.99',
+        price: 9.99,
+        currencyCode: 'USD',
+        introPrice: {
+          priceString: '$0.00',
+          price: 0,
+          period: 'P1W',
+        },
+      };
+
+      it('should fetch packages from repository and cache them', async () => {
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: true,
+          data: [monthlyPackage],
+        });
+
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        expect(service.getCachedPackages()).toBeNull();
+
+        const result = await service.getPackages();
+
+        expect(result).toEqual({ success: true, data: [monthlyPackage] });
+        expect(service.getCachedPackages()).toEqual([monthlyPackage]);
+      });
+
+      it('should return cached packages without calling repository again', async () => {
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: true,
+          data: [monthlyPackage],
+        });
+
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        await service.getPackages();
+        const result = await service.getPackages();
+
+        expect(result.success).toBe(true);
+        expect(mockRepository.getAvailablePackages).toHaveBeenCalledTimes(1);
+      });
+
+      it('should bypass the cache when forceRefresh is set', async () => {
+        mockRepository.getAvailablePackages
+          .mockResolvedValueOnce({ success: true, data: [monthlyPackage] })
+          .mockResolvedValueOnce({ success: true, data: [] });
+
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        await service.getPackages();
+        const result = await service.getPackages({ forceRefresh: true });
+
+        expect(result).toEqual({ success: true, data: [] });
+        expect(mockRepository.getAvailablePackages).toHaveBeenCalledTimes(2);
+        expect(service.getCachedPackages()).toEqual([]);
+      });
+
+      it('should keep previously cached packages when refresh fails', async () => {
+        mockRepository.getAvailablePackages
+          .mockResolvedValueOnce({ success: true, data: [monthlyPackage] })
+          .mockResolvedValueOnce({
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: 'Network error',
+              retryable: true,
+            },
+          });
+
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        await service.getPackages();
+        const result = await service.getPackages({ forceRefresh: true });
+
+        expect(result.success).toBe(false);
+        expect(service.getCachedPackages()).toEqual([monthlyPackage]);
+      });
+
+      it('should not notify state change listeners', async () => {
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: true,
+          data: [monthlyPackage],
+        });
+
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+        });
+
+        await service.getPackages();
+
+        expect(onStateChange).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('getOfferingPackages', () => {
+      const discountPackage: SubscriptionPackage = {
+        identifier: '$rc_annual',
+        packageType: 'ANNUAL',
+        title: 'Annual',
+        priceString: '$49.99',
+        price: 49.99,
+        currencyCode: 'USD',
+      };
+
+      it('should fetch the offering packages without caching them', async () => {
+        mockRepository.getOfferingPackages.mockResolvedValue({
+          success: true,
+          data: [discountPackage],
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        const result = await service.getOfferingPackages('limit_reached');
+
+        expect(result).toEqual({ success: true, data: [discountPackage] });
+        expect(mockRepository.getOfferingPackages).toHaveBeenCalledWith(
+          'limit_reached'
+        );
+        expect(service.getCachedPackages()).toBeNull();
+      });
+
+      it('should retry retryable errors and log a missing offering', async () => {
         const logger = jest.fn();
-        const premiumSubscription: Subscription = {
+        mockRepository.getOfferingPackages
+          .mockResolvedValueOnce({
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: 'Network error',
+              retryable: true,
+            },
+          })
+          .mockResolvedValueOnce({ success: true, data: null });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+          retryPolicy: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+        });
+
+        const result = await service.getOfferingPackages('missing');
+
+        expect(result).toEqual({ success: true, data: null });
+        expect(mockRepository.getOfferingPackages).toHaveBeenCalledTimes(2);
+        expect(logger).toHaveBeenCalledWith('warn', 'Offering not found', {
+          offeringId: 'missing',
+        });
+      });
+    });
+
+    describe('offers', () => {
+      const monthlyPackage: SubscriptionPackage = {
+        identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
+        title: 'Monthly',
+        priceString: '$9.99',
+        price: 9.99,
+        currencyCode: 'USD',
+        introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+      };
+      const annualPackage: SubscriptionPackage = {
+        identifier: '$rc_annual',
+        packageType: 'ANNUAL',
+        title: 'Annual',
+        priceString: '$59.99',
+        price: 59.99,
+        currencyCode: 'USD',
+      };
+      const winBackOffer: SubscriptionOffer = {
+        identifier: 'win_back_1',
+        type: 'win_back',
+        priceString: '$0.99',
+        price: 0.99,
+        period: 'P1M',
+        cycles: 1,
+      };
+      const premiumSubscription: Subscription = {
+        ...DEFAULT_FREE_SUBSCRIPTION,
+        isActive: true,
+        tier: 'premium',
+        productId: 'monthly_plan',
+      };
+
+      beforeEach(() => {
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: true,
+          data: [monthlyPackage, annualPackage],
+        });
+      });
+
+      describe('checkIntroEligibility', () => {
+        it('should only check packages with an intro price', async () => {
+          mockRepository.getIntroEligibility.mockResolvedValue({
+            success: true,
+            data: { $rc_monthly: 'eligible' },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const result = await service.checkIntroEligibility();
+
+          expect(mockRepository.getIntroEligibility).toHaveBeenCalledWith([
+            '$rc_monthly',
+          ]);
+          expect(result).toEqual({
+            success: true,
+            data: [monthlyPackage, annualPackage],
+          });
+        });
+
+        it('should drop the intro price of ineligible packages, also after a refresh', async () => {
+          mockRepository.getIntroEligibility.mockResolvedValue({
+            success: true,
+            data: { $rc_monthly: 'ineligible' },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const checked = await service.checkIntroEligibility();
+          const refreshed = await service.getPackages({ forceRefresh: true });
+
+          const withoutIntro = { ...monthlyPackage };
+          delete withoutIntro.introPrice;
+          expect(checked.success && checked.data[0]).toEqual(withoutIntro);
+          expect(refreshed.success && refreshed.data[0]).toEqual(withoutIntro);
+          expect(service.getCachedPackages()?.[0]).toEqual(withoutIntro);
+        });
+
+        it('should keep intro prices when the check fails', async () => {
+          mockRepository.getIntroEligibility.mockResolvedValue({
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: 'Network error',
+              retryable: true,
+            },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const result = await service.checkIntroEligibility();
+
+          expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+          expect(service.getCachedPackages()?.[0]).toEqual(monthlyPackage);
+        });
+
+        it('should forget eligibility when the app user changes', async () => {
+          mockRepository.getIntroEligibility.mockResolvedValue({
+            success: true,
+            data: { $rc_monthly: 'ineligible' },
+          });
+          mockRepository.logIn.mockResolvedValue({
+            success: true,
+            data: DEFAULT_FREE_SUBSCRIPTION,
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          await service.checkIntroEligibility();
+          await service.logIn('user-2');
+          const result = await service.getPackages();
+
+          expect(result.success && result.data[0]).toEqual(monthlyPackage);
+        });
+      });
+
+      describe('getOffers', () => {
+        it('should return the offers from the repository', async () => {
+          mockRepository.getOffers.mockResolvedValue({
+            success: true,
+            data: [winBackOffer],
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const result = await service.getOffers('$rc_monthly');
+
+          expect(result).toEqual({ success: true, data: [winBackOffer] });
+          expect(mockRepository.getOffers).toHaveBeenCalledWith('$rc_monthly');
+        });
+      });
+
+      describe('purchasePackageWithOffer', () => {
+        it('should update subscription state on success', async () => {
+          mockRepository.purchasePackageWithOffer.mockResolvedValue({
+            success: true,
+            data: {
+              subscription: premiumSubscription,
+              transactionId: 'transaction-1',
+            },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            onStateChange,
+          });
+
+          const result = await service.purchasePackageWithOffer(
+            '$rc_monthly',
+            winBackOffer
+          );
+
+          expect(result).toEqual({ success: true, data: premiumSubscription });
+          expect(mockRepository.purchasePackageWithOffer).toHaveBeenCalledWith(
+            '$rc_monthly',
+            winBackOffer
+          );
+          expect(onStateChange).toHaveBeenCalledWith(
+            premiumSubscription,
+            'remote'
+          );
+        });
+
+        it('should auto-restore on PRODUCT_ALREADY_PURCHASED', async () => {
+          mockRepository.purchasePackageWithOffer.mockResolvedValue({
+            success: false,
+            error: {
+              code: 'PRODUCT_ALREADY_PURCHASED',
+              message: 'Already purchased',
+              retryable: false,
+            },
+          });
+          mockRepository.restorePurchases.mockResolvedValue({
+            success: true,
+            data: {
+              subscription: premiumSubscription,
+              transactionId: 'transaction-1',
+            },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const result = await service.purchasePackageWithOffer(
+            '$rc_monthly',
+            winBackOffer
+          );
+
+          expect(result).toEqual({ success: true, data: premiumSubscription });
+          expect(service.getCurrentSubscription()).toEqual(premiumSubscription);
+        });
+
+        it('should return INELIGIBLE_FOR_OFFER without changing state', async () => {
+          mockRepository.purchasePackageWithOffer.mockResolvedValue({
+            success: false,
+            error: {
+              code: 'INELIGIBLE_FOR_OFFER',
+              message: 'Not eligible',
+              retryable: false,
+            },
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            onStateChange,
+          });
+
+          const result = await service.purchasePackageWithOffer(
+            '$rc_monthly',
+            winBackOffer
+          );
+
+          expect(!result.success && result.error.code).toBe(
+            'INELIGIBLE_FOR_OFFER'
+          );
+          expect(onStateChange).not.toHaveBeenCalled();
+        });
+      });
+
+      describe('redeemOfferCode', () => {
+        it('should pass the code to the repository', async () => {
+          mockRepository.redeemOfferCode.mockResolvedValue({
+            success: true,
+            data: undefined,
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          const result = await service.redeemOfferCode('SPRING25');
+
+          expect(result.success).toBe(true);
+          expect(mockRepository.redeemOfferCode).toHaveBeenCalledWith(
+            'SPRING25'
+          );
+        });
+
+        it('should log failures', async () => {
+          mockRepository.redeemOfferCode.mockResolvedValue({
+            success: false,
+            error: {
+              code: 'OPERATION_NOT_SUPPORTED',
+              message: 'Not supported',
+              retryable: false,
+            },
+          });
+          const logger = jest.fn();
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            logger,
+          });
+
+          await service.redeemOfferCode();
+
+          expect(logger).toHaveBeenCalledWith(
+            'error',
+            'Offer code redemption failed',
+            {
+              errorCode: 'OPERATION_NOT_SUPPORTED',
+              errorMessage: 'Not supported',
+            }
+          );
+        });
+      });
+    });
+
+    describe('plan management', () => {
+      it('should open the management URL through the repository', async () => {
+        mockRepository.openManagementUrl.mockResolvedValue({
+          success: true,
+          data: undefined,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        const result = await service.openManagementUrl();
+
+        expect(result).toEqual({ success: true, data: undefined });
+        expect(mockRepository.openManagementUrl).toHaveBeenCalledTimes(1);
+      });
+
+      it('should log management failures', async () => {
+        mockRepository.openManagementUrl.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'OPERATION_NOT_SUPPORTED',
+            message: 'Not supported',
+            retryable: false,
+          },
+        });
+        const logger = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+        });
+
+        await service.openManagementUrl();
+
+        expect(logger).toHaveBeenCalledWith(
+          'error',
+          'Failed to open subscription management',
+          {
+            errorCode: 'OPERATION_NOT_SUPPORTED',
+            errorMessage: 'Not supported',
+          }
+        );
+      });
+
+      it('should pass the product to the repository and log the outcome', async () => {
+        mockRepository.beginRefundRequest.mockResolvedValue({
+          success: true,
+          data: 'cancelled',
+        });
+        const logger = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+        });
+
+        const result = await service.beginRefundRequest('monthly_plan');
+
+        expect(result).toEqual({ success: true, data: 'cancelled' });
+        expect(mockRepository.beginRefundRequest).toHaveBeenCalledWith(
+          'monthly_plan'
+        );
+        expect(logger).toHaveBeenCalledWith(
+          'info',
+          'Refund request completed',
+          { productId: 'monthly_plan', status: 'cancelled' }
+        );
+      });
+
+      it('should not retry failed refund requests', async () => {
+        mockRepository.beginRefundRequest.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'NETWORK_ERROR',
+            message: 'Network connection failed',
+            retryable: true,
+          },
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        const result = await service.beginRefundRequest('monthly_plan');
+
+        expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+        expect(mockRepository.beginRefundRequest).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('purchaseProduct', () => {
+      const lifetimePurchase: ProductPurchase = {
+        productId: 'lifetime_plan',
+        transactionId: 'transaction-1',
+        subscription: {
+          ...DEFAULT_FREE_SUBSCRIPTION,
           isActive: true,
           tier: 'premium',
-          expiresAt: new Date('2025-12-31'),
-          productId: 'monthly_plan',
-        };
+          productId: 'lifetime_plan',
+        },
+      };
 
-        mockRepository.purchasePackage.mockResolvedValue({
+      it('should commit a lifetime unlock and run onProductPurchase', async () => {
+        mockRepository.purchaseProduct.mockResolvedValue({
           success: true,
-          data: premiumSubscription,
+          data: lifetimePurchase,
+        });
+        const onProductPurchase = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          onProductPurchase,
+        });
+
+        const result = await service.purchaseProduct('lifetime_plan');
+
+        expect(result).toEqual({ success: true, data: lifetimePurchase });
+        expect(service.getCurrentSubscription()).toEqual(
+          lifetimePurchase.subscription
+        );
+        expect(onStateChange).toHaveBeenCalledWith(
+          lifetimePurchase.subscription,
+          'remote'
+        );
+        expect(onProductPurchase).toHaveBeenCalledWith(lifetimePurchase);
+      });
+
+      it('should resolve only after onProductPurchase settles', async () => {
+        mockRepository.purchaseProduct.mockResolvedValue({
+          success: true,
+          data: lifetimePurchase,
+        });
+        const events: string[] = [];
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onProductPurchase: async () => {
+            await Promise.resolve();
+            events.push('granted');
+          },
+        });
+
+        await service.purchaseProduct('lifetime_plan');
+        events.push('resolved');
+
+        expect(events).toEqual(['granted', 'resolved']);
+      });
+
+      it('should log onProductPurchase failures without failing the purchase', async () => {
+        mockRepository.purchaseProduct.mockResolvedValue({
+          success: true,
+          data: lifetimePurchase,
+        });
+        const logger = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+          onProductPurchase: () => {
+            throw new Error('database is locked');
+          },
+        });
+
+        const result = await service.purchaseProduct('lifetime_plan');
+
+        expect(result.success).toBe(true);
+        expect(logger).toHaveBeenCalledWith(
+          'error',
+          'Product purchase callback failed',
+          {
+            productId: 'lifetime_plan',
+            transactionId: 'transaction-1',
+            errorMessage: 'database is locked',
+          }
+        );
+      });
+
+      it('should not update state or retry when the purchase fails', async () => {
+        mockRepository.purchaseProduct.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'NETWORK_ERROR',
+            message: 'Network connection failed',
+            retryable: true,
+          },
+        });
+        const onProductPurchase = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          onProductPurchase,
+          retryPolicy: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+        });
+
+        const result = await service.purchaseProduct('export_pack_10');
+
+        expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+        expect(mockRepository.purchaseProduct).toHaveBeenCalledTimes(1);
+        expect(onStateChange).not.toHaveBeenCalled();
+        expect(onProductPurchase).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('offline cache', () => {
+      const DAY_MS = 24 * 60 * 60 * 1000;
+      const networkError: SubscriptionError = {
+        code: 'NETWORK_ERROR',
+        message: 'Network connection failed',
+        retryable: true,
+      };
+
+      let cache: {
+        load: jest.Mock<Promise<Subscription | null>>;
+        save: jest.Mock<Promise<void>, [Subscription]>;
+        clear: jest.Mock<Promise<void>>;
+      };
+
+      function cachedPremium(expiresInMs: number): Subscription {
+        return {
+          isActive: true,
+          tier: 'premium',
+          expiresAt: new Date(Date.now() + expiresInMs),
+          productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
+        };
+      }
+
+      beforeEach(() => {
+        cache = {
+          load: jest.fn(async (): Promise<Subscription | null> => null),
+          save: jest.fn(async (_subscription: Subscription) => undefined),
+          clear: jest.fn(async () => undefined),
+        };
+      });
+
+      it('should start with no source', () => {
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+        });
+
+        expect(service.getSubscriptionSource()).toBeNull();
+      });
+
+      it('should persist remote state after a successful fetch', async () => {
+        const remote = cachedPremium(30 * DAY_MS);
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: remote,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+        });
+
+        await service.getSubscription();
+
+        expect(cache.save).toHaveBeenCalledWith(remote);
+        expect(service.getSubscriptionSource()).toBe('remote');
+      });
+
+      it('should persist state after a successful purchase', async () => {
+        const remote = cachedPremium(30 * DAY_MS);
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: true,
+          data: { subscription: remote, transactionId: 'transaction-1' },
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+        });
+
+        await service.purchasePackage('$rc_monthly');
+
+        expect(cache.save).toHaveBeenCalledWith(remote);
+      });
+
+      it('should fall back to the cached subscription when fetch fails', async () => {
+        const cached = cachedPremium(10 * DAY_MS);
+        cache.load.mockResolvedValue(cached);
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          cache,
+        });
+
+        const result = await service.getSubscription();
+
+        expect(result.success).toBe(false);
+        expect(service.getCurrentSubscription()).toEqual(cached);
+        expect(service.getSubscriptionSource()).toBe('cache');
+        expect(onStateChange).toHaveBeenCalledWith(cached, 'cache');
+      });
+
+      it('should honour an expired cache within the grace window', async () => {
+        const cached = cachedPremium(-1 * DAY_MS);
+        cache.load.mockResolvedValue(cached);
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+        });
+
+        await service.getSubscription();
+
+        expect(service.getCurrentSubscription()).toEqual(cached);
+      });
+
+      it('should fall back to free tier when the cache is past the grace window', async () => {
+        cache.load.mockResolvedValue(cachedPremium(-4 * DAY_MS));
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+        });
+
+        await service.getSubscription();
+
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+        expect(service.getSubscriptionSource()).toBeNull();
+      });
+
+      it('should respect a custom grace period', async () => {
+        cache.load.mockResolvedValue(cachedPremium(-1 * DAY_MS));
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+          cacheGracePeriodMs: 0,
+        });
+
+        await service.getSubscription();
+
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+      });
+
+      it('should log and ignore cache read failures', async () => {
+        const logger = jest.fn();
+        cache.load.mockRejectedValue(new Error('Storage unavailable'));
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+          logger,
+        });
+
+        await service.getSubscription();
+
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+        expect(logger).toHaveBeenCalledWith(
+          'warn',
+          'Failed to read subscription cache',
+          { errorMessage: 'Storage unavailable' }
+        );
+      });
+
+      it('should log and ignore cache write failures', async () => {
+        const logger = jest.fn();
+        const remote = cachedPremium(30 * DAY_MS);
+        cache.save.mockRejectedValue(new Error('Disk full'));
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: remote,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+          logger,
+        });
+
+        const result = await service.getSubscription();
+
+        expect(result.success).toBe(true);
+        expect(logger).toHaveBeenCalledWith(
+          'warn',
+          'Failed to persist subscription cache',
+          { errorMessage: 'Disk full' }
+        );
+      });
+
+      describe('restoreFromCache', () => {
+        it('should apply a usable cached subscription as initial state', async () => {
+          const cached = cachedPremium(10 * DAY_MS);
+          cache.load.mockResolvedValue(cached);
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            onStateChange,
+            cache,
+          });
+
+          const restored = await service.restoreFromCache();
+
+          expect(restored).toEqual(cached);
+          expect(service.getCurrentSubscription()).toEqual(cached);
+          expect(service.getSubscriptionSource()).toBe('cache');
+          expect(onStateChange).toHaveBeenCalledWith(cached, 'cache');
+        });
+
+        it('should return null without a cache', async () => {
+          const service = createSubscriptionService({
+            repository: mockRepository,
+          });
+
+          expect(await service.restoreFromCache()).toBeNull();
+        });
+
+        it('should not override remote state', async () => {
+          const remote = cachedPremium(30 * DAY_MS);
+          cache.load.mockResolvedValue(DEFAULT_FREE_SUBSCRIPTION);
+          mockRepository.getCustomerInfo.mockResolvedValue({
+            success: true,
+            data: remote,
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            cache,
+          });
+
+          await service.getSubscription();
+          const restored = await service.restoreFromCache();
+
+          expect(restored).toBeNull();
+          expect(service.getCurrentSubscription()).toEqual(remote);
+          expect(service.getSubscriptionSource()).toBe('remote');
+        });
+
+        it('should ignore a cache past the grace window', async () => {
+          cache.load.mockResolvedValue(cachedPremium(-4 * DAY_MS));
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            cache,
+          });
+
+          expect(await service.restoreFromCache()).toBeNull();
+          expect(service.getSubscriptionSource()).toBeNull();
+        });
+      });
+
+      describe('clearCache', () => {
+        it('should clear the persisted subscription and drop the cached state', async () => {
+          const cached = cachedPremium(10 * DAY_MS);
+          cache.load.mockResolvedValue(cached);
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            onStateChange,
+            cache,
+          });
+          await service.restoreFromCache();
+
+          await service.clearCache();
+
+          expect(cache.clear).toHaveBeenCalled();
+          expect(service.getCurrentSubscription()).toEqual(
+            DEFAULT_FREE_SUBSCRIPTION
+          );
+          expect(service.getSubscriptionSource()).toBeNull();
+          expect(onStateChange).toHaveBeenLastCalledWith(
+            DEFAULT_FREE_SUBSCRIPTION,
+            null
+          );
+        });
+
+        it('should keep remote state and refetch packages', async () => {
+          const remote = cachedPremium(30 * DAY_MS);
+          mockRepository.getCustomerInfo.mockResolvedValue({
+            success: true,
+            data: remote,
+          });
+          mockRepository.getAvailablePackages.mockResolvedValue({
+            success: true,
+            data: [],
+          });
+          const service = createSubscriptionService({
+            repository: mockRepository,
+            cache,
+          });
+          await service.getSubscription();
+          await service.getPackages();
+
+          await service.clearCache();
+          await service.getPackages();
+
+          expect(cache.clear).toHaveBeenCalled();
+          expect(service.getCurrentSubscription()).toEqual(remote);
+          expect(service.getSubscriptionSource()).toBe('remote');
+          expect(mockRepository.getAvailablePackages).toHaveBeenCalledTimes(2);
+        });
+      });
+    });
+
+    describe('subscribeToUpdates', () => {
+      const premiumSubscription: Subscription = {
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2025-12-31'),
+        productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+
+      it('should update state and notify onStateChange and the listener', () => {
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+        });
+        const listener = jest.fn();
+
+        service.subscribeToUpdates(listener);
+        const repositoryListener =
+          mockRepository.addSubscriptionListener.mock.calls[0][0];
+        repositoryListener(premiumSubscription);
+
+        expect(service.getCurrentSubscription()).toEqual(premiumSubscription);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
+        expect(listener).toHaveBeenCalledWith(premiumSubscription);
+      });
+
+      it('should return the repository unsubscribe function', () => {
+        const unsubscribe = jest.fn();
+        mockRepository.addSubscriptionListener.mockReturnValue(unsubscribe);
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        service.subscribeToUpdates(jest.fn())();
+
+        expect(unsubscribe).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('identity (logIn / logOut)', () => {
+      const premiumSubscription: Subscription = {
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2025-12-31'),
+        productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+      const monthlyPackage: SubscriptionPackage = {
+        identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
+        title: 'Monthly',
+        priceString: '$9.99',
+        price: 9.99,
+        currencyCode: 'USD',
+      };
+
+      let cache: {
+        load: jest.Mock<Promise<Subscription | null>>;
+        save: jest.Mock<Promise<void>, [Subscription]>;
+        clear: jest.Mock<Promise<void>>;
+      };
+      let appUserIdStore: {
+        load: jest.Mock<Promise<string | null>>;
+        save: jest.Mock<Promise<void>, [string]>;
+        clear: jest.Mock<Promise<void>>;
+      };
+
+      beforeEach(() => {
+        cache = {
+          load: jest.fn(async (): Promise<Subscription | null> => null),
+          save: jest.fn(async (_subscription: Subscription) => undefined),
+          clear: jest.fn(async () => undefined),
+        };
+        appUserIdStore = {
+          load: jest.fn(async (): Promise<string | null> => null),
+          save: jest.fn(async (_appUserId: string) => undefined),
+          clear: jest.fn(async () => undefined),
+        };
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: true,
+          data: [monthlyPackage],
+        });
+      });
+
+      function createIdentityService() {
+        return createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          cache,
+          appUserIdStore,
+        });
+      }
+
+      it('should apply the logged in user subscription and persist the app user id', async () => {
+        mockRepository.logIn.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        const service = createIdentityService();
+
+        const result = await service.logIn('user-42');
+
+        expect(result).toEqual({ success: true, data: premiumSubscription });
+        expect(mockRepository.logIn).toHaveBeenCalledWith('user-42');
+        expect(service.getCurrentSubscription()).toEqual(premiumSubscription);
+        expect(service.getSubscriptionSource()).toBe('remote');
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
+        expect(appUserIdStore.save).toHaveBeenCalledWith('user-42');
+      });
+
+      it('should reset the previous user cached state on log in', async () => {
+        mockRepository.logIn.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        const service = createIdentityService();
+        await service.getPackages();
+
+        await service.logIn('user-42');
+
+        expect(service.getCachedPackages()).toBeNull();
+        expect(cache.clear).toHaveBeenCalled();
+        expect(cache.save).toHaveBeenCalledWith(premiumSubscription);
+        expect(cache.clear.mock.invocationCallOrder[0]).toBeLessThan(
+          cache.save.mock.invocationCallOrder[0]
+        );
+      });
+
+      it('should keep state when log in fails', async () => {
+        mockRepository.logIn.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'NETWORK_ERROR',
+            message: 'Network connection failed',
+            retryable: true,
+          },
+        });
+        const service = createIdentityService();
+        await service.getPackages();
+
+        const result = await service.logIn('user-42');
+
+        expect(result.success).toBe(false);
+        expect(service.getCachedPackages()).toEqual([monthlyPackage]);
+        expect(cache.clear).not.toHaveBeenCalled();
+        expect(appUserIdStore.save).not.toHaveBeenCalled();
+        expect(onStateChange).not.toHaveBeenCalled();
+      });
+
+      it('should apply the anonymous subscription and clear the app user id on log out', async () => {
+        mockRepository.logOut.mockResolvedValue({
+          success: true,
+          data: DEFAULT_FREE_SUBSCRIPTION,
+        });
+        const service = createIdentityService();
+        await service.getPackages();
+
+        const result = await service.logOut();
+
+        expect(result).toEqual({
+          success: true,
+          data: DEFAULT_FREE_SUBSCRIPTION,
+        });
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+        expect(service.getCachedPackages()).toBeNull();
+        expect(cache.clear).toHaveBeenCalled();
+        expect(appUserIdStore.clear).toHaveBeenCalled();
+      });
+
+      it('should keep the app user id when log out fails', async () => {
+        mockRepository.logOut.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'UNKNOWN_ERROR',
+            message: 'Log out failed',
+            retryable: false,
+          },
+        });
+        const service = createIdentityService();
+
+        const result = await service.logOut();
+
+        expect(result.success).toBe(false);
+        expect(appUserIdStore.clear).not.toHaveBeenCalled();
+      });
+
+      it('should still succeed when storage fails', async () => {
+        const logger = jest.fn();
+        cache.clear.mockRejectedValue(new Error('Storage full'));
+        appUserIdStore.save.mockRejectedValue(new Error('Keychain locked'));
+        mockRepository.logIn.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          cache,
+          appUserIdStore,
+          logger,
+        });
+
+        const result = await service.logIn('user-42');
+
+        expect(result.success).toBe(true);
+        expect(logger).toHaveBeenCalledWith(
+          'warn',
+          'Failed to clear subscription cache',
+          { errorMessage: 'Storage full' }
+        );
+        expect(logger).toHaveBeenCalledWith(
+          'warn',
+          'Failed to persist app user id',
+          { errorMessage: 'Keychain locked' }
+        );
+      });
+    });
+
+    describe('retry policy', () => {
+      // Zero delays keep retries fast without fake timers
+      const retryPolicy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+      const networkError: SubscriptionError = {
+        code: 'NETWORK_ERROR',
+        message: 'Network connection failed',
+        retryable: true,
+      };
+      const premiumSubscription: Subscription = {
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2025-12-31'),
+        productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+
+      it('should not retry without a retry policy', async () => {
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+        });
+
+        await service.getSubscription();
+
+        expect(mockRepository.getCustomerInfo).toHaveBeenCalledTimes(1);
+      });
+
+      it('should retry retryable fetch errors and log attempt counts', async () => {
+        const logger = jest.fn();
+        mockRepository.getCustomerInfo
+          .mockResolvedValueOnce({ success: false, error: networkError })
+          .mockResolvedValueOnce({ success: true, data: premiumSubscription });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+          retryPolicy,
+        });
+
+        const result = await service.getSubscription();
+
+        expect(result).toEqual({ success: true, data: premiumSubscription });
+        expect(mockRepository.getCustomerInfo).toHaveBeenCalledTimes(2);
+        expect(logger).toHaveBeenCalledWith(
+          'warn',
+          'Retrying after retryable error',
+          {
+            operation: 'getSubscription',
+            attempt: 1,
+            maxAttempts: 3,
+            delayMs: 0,
+            errorCode: 'NETWORK_ERROR',
+          }
+        );
+        expect(logger).toHaveBeenCalledWith('info', 'Succeeded after retry', {
+          operation: 'getSubscription',
+          attempts: 2,
+        });
+      });
+
+      it('should log when giving up after maxAttempts', async () => {
+        const logger = jest.fn();
+        mockRepository.getAvailablePackages.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          logger,
+          retryPolicy,
+        });
+
+        const result = await service.getPackages();
+
+        expect(result.success).toBe(false);
+        expect(mockRepository.getAvailablePackages).toHaveBeenCalledTimes(3);
+        expect(logger).toHaveBeenCalledWith('warn', 'Giving up after retries', {
+          operation: 'getPackages',
+          attempts: 3,
+          errorCode: 'NETWORK_ERROR',
+        });
+      });
+
+      it('should not retry non-retryable errors', async () => {
+        mockRepository.restorePurchases.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'CONFIGURATION_ERROR',
+            message: 'Invalid configuration',
+            retryable: false,
+          },
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          retryPolicy,
+        });
+
+        await service.restorePurchases();
+
+        expect(mockRepository.restorePurchases).toHaveBeenCalledTimes(1);
+      });
+
+      it('should never retry purchases', async () => {
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          retryPolicy,
+        });
+
+        const result = await service.purchasePackage('$rc_monthly');
+
+        expect(result.success).toBe(false);
+        expect(mockRepository.purchasePackage).toHaveBeenCalledTimes(1);
+      });
+
+      it('should skip retries for disabled operations', async () => {
+        mockRepository.restorePurchases.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: false,
+          error: networkError,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          retryPolicy: {
+            ...retryPolicy,
+            disabledOperations: ['restorePurchases'],
+          },
+        });
+
+        await service.restorePurchases();
+        await service.getSubscription();
+
+        expect(mockRepository.restorePurchases).toHaveBeenCalledTimes(1);
+        expect(mockRepository.getCustomerInfo).toHaveBeenCalledTimes(3);
+      });
+    });
+
+    describe('receipt verification', () => {
+      const premiumSubscription: Subscription = {
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2025-12-31'),
+        productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+      const creditPackPurchase: ProductPurchase = {
+        productId: 'export_pack_10',
+        transactionId: 'transaction-1',
+        subscription: DEFAULT_FREE_SUBSCRIPTION,
+      };
+
+      beforeEach(() => {
+        mockRepository.getAppUserId.mockResolvedValue({
+          success: true,
+          data: 'user-1',
+        });
+      });
+
+      it('should commit a purchase once the verifier confirms it', async () => {
+        // Given: a verifier that confirms purchases
+        const verifier = createMockReceiptVerifier();
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+
+        // When: purchasing
+        const result = await service.purchasePackage('$rc_monthly');
+
+        // Then: the product, transaction and app user id were verified before committing
+        expect(result).toEqual({ success: true, data: premiumSubscription });
+        expect(verifier.requests).toEqual([
+          {
+            appUserId: 'user-1',
+            productId: 'monthly_plan',
+            transactionId: 'transaction-1',
+            reason: 'purchase',
+          },
+        ]);
+        expect(onStateChange).toHaveBeenCalledWith(
+          premiumSubscription,
+          'remote'
+        );
+      });
+
+      it('should not commit a purchase the verifier rejects', async () => {
+        // Given: a verifier that rejects purchases
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier: createMockReceiptVerifier('rejected'),
+        });
+
+        // When: purchasing
+        const result = await service.purchasePackage('$rc_monthly');
+
+        // Then: the purchase fails and the state stays free
+        expect(!result.success && result.error.code).toBe(
+          'RECEIPT_VERIFICATION_FAILED'
+        );
+        expect(onStateChange).not.toHaveBeenCalled();
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+      });
+
+      it('should not commit a restore the verifier rejects', async () => {
+        mockRepository.restorePurchases.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
+        });
+        const verifier = createMockReceiptVerifier('rejected');
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+
+        const result = await service.restorePurchases();
+
+        expect(!result.success && result.error.code).toBe(
+          'RECEIPT_VERIFICATION_FAILED'
+        );
+        expect(verifier.requests[0].reason).toBe('restore');
+        expect(onStateChange).not.toHaveBeenCalled();
+      });
+
+      it('should verify a restore with the restored transaction', async () => {
+        mockRepository.restorePurchases.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-2',
+          },
+        });
+        const verifier = createMockReceiptVerifier();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          verifier,
+        });
+
+        await service.restorePurchases();
+
+        expect(verifier.requests).toEqual([
+          expect.objectContaining({
+            transactionId: 'transaction-2',
+            reason: 'restore',
+          }),
+        ]);
+      });
+
+      it('should verify each product once per app user', async () => {
+        // Given: a verified paid subscription
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        const verifier = createMockReceiptVerifier();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          verifier,
+        });
+
+        // When: fetching twice
+        await service.getSubscription();
+        await service.getSubscription();
+
+        // Then: only the first fetch asked the verifier
+        expect(verifier.requests).toHaveLength(1);
+        expect(verifier.requests[0].reason).toBe('refresh');
+      });
+
+      it('should keep the current state when a fetched subscription is not verified', async () => {
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier: createMockReceiptVerifier('unreachable'),
+        });
+
+        const result = await service.getSubscription();
+
+        expect(!result.success && result.error.code).toBe('NETWORK_ERROR');
+        expect(onStateChange).not.toHaveBeenCalled();
+      });
+
+      it('should not verify free subscriptions', async () => {
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: DEFAULT_FREE_SUBSCRIPTION,
+        });
+        const verifier = createMockReceiptVerifier('rejected');
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+
+        const result = await service.getSubscription();
+
+        expect(result.success).toBe(true);
+        expect(verifier.requests).toHaveLength(0);
+        expect(onStateChange).toHaveBeenCalledWith(
+          DEFAULT_FREE_SUBSCRIPTION,
+          'remote'
+        );
+      });
+
+      it('should verify product purchase transactions before onProductPurchase', async () => {
+        // Given: a consumable purchase the verifier rejects
+        mockRepository.purchaseProduct.mockResolvedValue({
+          success: true,
+          data: creditPackPurchase,
+        });
+        const verifier = createMockReceiptVerifier('rejected');
+        const onProductPurchase = jest.fn();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onProductPurchase,
+          verifier,
+        });
+
+        // When: purchasing the consumable
+        const result = await service.purchaseProduct('export_pack_10');
+
+        // Then: the transaction was sent and no credits are granted
+        expect(verifier.requests).toEqual([
+          {
+            appUserId: 'user-1',
+            productId: 'export_pack_10',
+            transactionId: 'transaction-1',
+            reason: 'purchase',
+          },
+        ]);
+        expect(!result.success && result.error.code).toBe(
+          'RECEIPT_VERIFICATION_FAILED'
+        );
+        expect(onProductPurchase).not.toHaveBeenCalled();
+      });
+
+      it('should pass verified updates to the listener and drop rejected ones', async () => {
+        // Given: a listener and a verifier that confirms purchases
+        const verifier = createMockReceiptVerifier();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+        const listener = jest.fn();
+        service.subscribeToUpdates(listener);
+        const repositoryListener =
+          mockRepository.addSubscriptionListener.mock.calls[0][0];
+
+        // When: RevenueCat pushes a verified, then a rejected product
+        repositoryListener(premiumSubscription);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        verifier.setVerdict('rejected');
+        repositoryListener({
+          ...premiumSubscription,
+          productId: 'annual_plan',
+        });
+        await new Promise((resolve) => setTimeout(resolve, 0));
+
+        // Then: only the verified update reaches the state and the listener
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(premiumSubscription);
+        expect(service.getCurrentSubscription()).toEqual(premiumSubscription);
+        expect(verifier.requests.map((request) => request.reason)).toEqual([
+          'update',
+          'update',
+        ]);
+      });
+
+      it('should fall back to the free tier when a logged in subscription is rejected', async () => {
+        // Given: the previous user was premium
+        mockRepository.getCustomerInfo.mockResolvedValue({
+          success: true,
+          data: premiumSubscription,
+        });
+        mockRepository.logIn.mockResolvedValue({
+          success: true,
+          data: { ...premiumSubscription, productId: 'annual_plan' },
+        });
+        const verifier = createMockReceiptVerifier();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+        await service.getSubscription();
+
+        // When: the next user's subscription is rejected
+        verifier.setVerdict('rejected');
+        const result = await service.logIn('user-2');
+
+        // Then: the previous user's state is not kept
+        expect(!result.success && result.error.code).toBe(
+          'RECEIPT_VERIFICATION_FAILED'
+        );
+        expect(service.getCurrentSubscription()).toEqual(
+          DEFAULT_FREE_SUBSCRIPTION
+        );
+        expect(onStateChange).toHaveBeenLastCalledWith(
+          DEFAULT_FREE_SUBSCRIPTION,
+          null
+        );
+      });
+
+      it('should fail when the app user id cannot be read', async () => {
+        mockRepository.getAppUserId.mockResolvedValue({
+          success: false,
+          error: {
+            code: 'CONFIGURATION_ERROR',
+            message: 'Not configured',
+            retryable: false,
+          },
+        });
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
+        });
+        const verifier = createMockReceiptVerifier();
+        const service = createSubscriptionService({
+          repository: mockRepository,
+          onStateChange,
+          verifier,
+        });
+
+        const result = await service.purchasePackage('$rc_monthly');
+
+        expect(!result.success && result.error.code).toBe(
+          'CONFIGURATION_ERROR'
+        );
+        expect(verifier.requests).toHaveLength(0);
+        expect(onStateChange).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('logger', () => {
+      it('should call logger on successful purchase', async () => {
+        const logger = jest.fn();
+        const premiumSubscription: Subscription = {
+          isActive: true,
+          tier: 'premium',
+          expiresAt: new Date('2025-12-31'),
+          productId: 'monthly_plan',
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
+        };
+
+        mockRepository.purchasePackage.mockResolvedValue({
+          success: true,
+          data: {
+            subscription: premiumSubscription,
+            transactionId: 'transaction-1',
+          },
         });
 
         const service = createSubscriptionService({
@@ -592,6 +2425,7 @@ describe('Subscription Service', () => {
         });
         expect(logger).toHaveBeenCalledWith('info', 'Purchase successful', {
           packageId: '$rc_monthly',
+          transactionId: 'transaction-1',
         });
       });
 
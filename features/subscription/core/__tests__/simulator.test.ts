@@ -0,0 +1,623 @@
+/**
+ * Subscription Simulator Tests
+ *
+ * Tests for the offline SubscriptionRepository: offerings, purchases with a
+ * free trial, product purchases, restores, identity changes, lifecycle
+ * controls, forced errors and persistence.
+ *
+ * @module features/subscription/core/__tests__/simulator.test
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createSubscriptionSimulator,
+  isSubscriptionSimulatorEnabled,
+  SIMULATED_ERROR_CODES,
+  SIMULATED_ERRORS,
+  SIMULATED_OFFERINGS,
+  SIMULATED_OFFERS,
+  SIMULATED_PACKAGES,
+  SUBSCRIPTION_SIMULATOR_KEY,
+  type SubscriptionSimulator,
+} from '../simulator';
+import { createSubscriptionService } from '../service';
+import type { Result, Subscription, SubscriptionError } from '../types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T00:00:00.000Z');
+
+let currentTime: Date;
+
+function createSimulator(): SubscriptionSimulator {
+  return createSubscriptionSimulator({
+    latencyMs: 0,
+    now: () => currentTime,
+  });
+}
+
+function unwrap<T>(result: Result<T, SubscriptionError>): T {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${result.error.code}`);
+  }
+  return result.data;
+}
+
+describe('Subscription Simulator', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    currentTime = START;
+  });
+
+  describe('isSubscriptionSimulatorEnabled', () => {
+    const originalValue = process.env.EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR;
+
+    afterEach(() => {
+      process.env.EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR = originalValue;
+    });
+
+    it('should be enabled by the env flag in development', () => {
+      process.env.EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR = 'true';
+
+      expect(isSubscriptionSimulatorEnabled()).toBe(true);
+    });
+
+    it('should be disabled without the env flag', () => {
+      delete process.env.EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR;
+
+      expect(isSubscriptionSimulatorEnabled()).toBe(false);
+    });
+  });
+
+  describe('offerings and purchases', () => {
+    it('should start on the free tier', async () => {
+      const simulator = createSimulator();
+
+      expect(unwrap(await simulator.getCustomerInfo())).toEqual(
+        DEFAULT_FREE_SUBSCRIPTION
+      );
+    });
+
+    it('should offer the simulated packages', async () => {
+      const simulator = createSimulator();
+
+      expect(unwrap(await simulator.getAvailablePackages())).toEqual(
+        SIMULATED_PACKAGES
+      );
+    });
+
+    it('should start a free trial on the first monthly purchase', async () => {
+      const simulator = createSimulator();
+
+      const subscription = unwrap(
+        await simulator.purchasePackage('$rc_monthly')
+      ).subscription;
+
+      expect(subscription).toEqual({
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date(START.getTime() + 7 * DAY_MS),
+        productId: 'simulated_monthly',
+        willRenew: true,
+        isTrialPeriod: true,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      });
+    });
+
+    it('should bill the full period when the trial was used', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+      await simulator.simulateExpiry();
+
+      const subscription = unwrap(
+        await simulator.purchasePackage('$rc_monthly')
+      ).subscription;
+
+      expect(subscription.isTrialPeriod).toBe(false);
+      expect(subscription.expiresAt).toEqual(
+        new Date(START.getTime() + 30 * DAY_MS)
+      );
+    });
+
+    it('should reject buying the active product again', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      const result = await simulator.purchasePackage('$rc_annual');
+
+      expect(result).toEqual({
+        success: false,
+        error: SIMULATED_ERRORS.PRODUCT_ALREADY_PURCHASED,
+      });
+    });
+
+    it('should reject unknown packages', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.purchasePackage('$rc_weekly');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('UNKNOWN_ERROR');
+      }
+    });
+
+    it('should offer the packages of other offerings by identifier', async () => {
+      const simulator = createSimulator();
+
+      expect(
+        unwrap(await simulator.getOfferingPackages('simulated_discount'))
+      ).toEqual(SIMULATED_OFFERINGS.simulated_discount);
+      expect(unwrap(await simulator.getOfferingPackages('missing'))).toBeNull();
+    });
+
+    it('should drop the trial from offering packages once it was used', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+
+      const [discountPackage] = unwrap(
+        await simulator.getOfferingPackages('simulated_discount')
+      )!;
+
+      expect(discountPackage.introPrice).toBeUndefined();
+    });
+
+    it('should purchase the package of the given offering', async () => {
+      const simulator = createSimulator();
+
+      // The current offering's annual package has no trial; the discount one does
+      const { subscription } = unwrap(
+        await simulator.purchasePackage('$rc_annual', 'simulated_discount')
+      );
+
+      expect(subscription).toEqual(
+        expect.objectContaining({
+          productId: 'simulated_annual',
+          isTrialPeriod: true,
+        })
+      );
+    });
+
+    it('should reject offerings that do not exist', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.purchasePackage('$rc_annual', 'missing');
+
+      expect(!result.success && result.error.message).toBe(
+        'Package not found: Offering missing not available'
+      );
+    });
+
+    it('should drop to free once the period has passed', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      currentTime = new Date(START.getTime() + 366 * DAY_MS);
+
+      expect(unwrap(await simulator.getCustomerInfo())).toEqual(
+        DEFAULT_FREE_SUBSCRIPTION
+      );
+    });
+  });
+
+  describe('restore and identity', () => {
+    it('should restore nothing without a purchase', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.restorePurchases()).toEqual({
+        success: true,
+        data: null,
+      });
+    });
+
+    it('should alias anonymous purchases to the logged in user', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await simulator.logIn('user-1'));
+
+      expect(subscription.isActive).toBe(true);
+    });
+
+    it('should switch to a new anonymous user without purchases on logOut', async () => {
+      const simulator = createSimulator();
+      await simulator.logIn('user-1');
+      await simulator.purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await simulator.logOut());
+
+      expect(subscription).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+
+    it('should report the logged in or anonymous app user id', async () => {
+      const simulator = createSimulator();
+
+      const anonymousId = unwrap(await simulator.getAppUserId());
+      await simulator.logIn('user-1');
+
+      expect(anonymousId).toMatch(/^\$RCAnonymousID:simulator-/);
+      expect(unwrap(await simulator.getAppUserId())).toBe('user-1');
+    });
+
+    it('should transfer the store purchase to the current user on restore', async () => {
+      const simulator = createSimulator();
+      await simulator.logIn('user-1');
+      await simulator.purchasePackage('$rc_annual');
+      await simulator.logOut();
+
+      const restored = unwrap(await simulator.restorePurchases());
+
+      expect(restored?.subscription.isActive).toBe(true);
+    });
+
+    it('should reject an empty app user id', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.logIn('  ');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('INVALID_APP_USER_ID');
+      }
+    });
+  });
+
+  describe('offers', () => {
+    const [promoOffer, winBackOffer] = SIMULATED_OFFERS;
+
+    it('should report intro eligibility until the trial is used', async () => {
+      const simulator = createSimulator();
+      const packageIds = ['$rc_monthly', '$rc_annual'];
+
+      expect(unwrap(await simulator.getIntroEligibility(packageIds))).toEqual({
+        $rc_monthly: 'eligible',
+        $rc_annual: 'no_intro_offer',
+      });
+
+      await simulator.purchasePackage('$rc_monthly');
+
+      expect(unwrap(await simulator.getIntroEligibility(packageIds))).toEqual({
+        $rc_monthly: 'ineligible',
+        $rc_annual: 'no_intro_offer',
+      });
+    });
+
+    it('should list the win-back offer only once a purchase has lapsed', async () => {
+      const simulator = createSimulator();
+
+      expect(unwrap(await simulator.getOffers('$rc_monthly'))).toEqual([
+        promoOffer,
+      ]);
+
+      await simulator.purchasePackage('$rc_monthly');
+      await simulator.simulateExpiry();
+
+      expect(unwrap(await simulator.getOffers('$rc_monthly'))).toEqual([
+        promoOffer,
+        winBackOffer,
+      ]);
+    });
+
+    it('should reject offers for store accounts without purchase history', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.purchasePackageWithOffer(
+        '$rc_monthly',
+        promoOffer!
+      );
+
+      expect(result).toEqual({
+        success: false,
+        error: SIMULATED_ERRORS.INELIGIBLE_FOR_OFFER,
+      });
+    });
+
+    it('should purchase a win-back offer without a trial', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+      await simulator.simulateExpiry();
+
+      const subscription = unwrap(
+        await simulator.purchasePackageWithOffer('$rc_annual', winBackOffer!)
+      ).subscription;
+
+      expect(subscription).toEqual(
+        expect.objectContaining({
+          isActive: true,
+          productId: 'simulated_annual',
+          isTrialPeriod: false,
+        })
+      );
+    });
+
+    it('should reject unknown offers', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.purchasePackageWithOffer('$rc_monthly', {
+        ...promoOffer!,
+        identifier: 'unknown_offer',
+      });
+
+      expect(!result.success && result.error.code).toBe('INVALID_OFFER');
+    });
+
+    it('should grant a subscription for a redeemed code and notify listeners', async () => {
+      const simulator = createSimulator();
+      const listener = jest.fn();
+      simulator.addSubscriptionListener(listener);
+
+      const result = await simulator.redeemOfferCode('SPRING25');
+
+      expect(result).toEqual({ success: true, data: undefined });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: true, isTrialPeriod: false })
+      );
+    });
+
+    it('should reject a blank offer code', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.redeemOfferCode('  ')).toEqual({
+        success: false,
+        error: SIMULATED_ERRORS.INVALID_OFFER,
+      });
+    });
+  });
+
+  describe('product purchases', () => {
+    it('should grant a lifetime unlock that never expires', async () => {
+      const simulator = createSimulator();
+
+      const purchase = unwrap(
+        await simulator.purchaseProduct('simulated_lifetime')
+      );
+      currentTime = new Date(START.getTime() + 1000 * DAY_MS);
+
+      expect(purchase.subscription).toEqual(
+        expect.objectContaining({
+          isActive: true,
+          productId: 'simulated_lifetime',
+          expiresAt: null,
+          willRenew: false,
+        })
+      );
+      expect(unwrap(await simulator.getCustomerInfo()).isActive).toBe(true);
+    });
+
+    it('should reject buying the same lifetime unlock twice', async () => {
+      const simulator = createSimulator();
+      await simulator.purchaseProduct('simulated_lifetime');
+
+      const result = await simulator.purchaseProduct('simulated_lifetime');
+
+      expect(!result.success && result.error.code).toBe(
+        'PRODUCT_ALREADY_PURCHASED'
+      );
+    });
+
+    it('should sell consumables repeatedly with distinct transactions', async () => {
+      const simulator = createSimulator();
+
+      const first = unwrap(
+        await simulator.purchaseProduct('simulated_export_pack')
+      );
+      const second = unwrap(
+        await simulator.purchaseProduct('simulated_export_pack')
+      );
+
+      expect(first.transactionId).not.toBe(second.transactionId);
+      expect(second.subscription).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+
+    it('should reject unknown products', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.purchaseProduct('missing_pack');
+
+      expect(!result.success && result.error.message).toContain('missing_pack');
+    });
+  });
+
+  describe('plan management', () => {
+    it('should revoke access when a refund is requested and notify listeners', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+      const listener = jest.fn();
+      simulator.addSubscriptionListener(listener);
+
+      const result = await simulator.beginRefundRequest('simulated_monthly');
+
+      expect(result).toEqual({ success: true, data: 'submitted' });
+      expect(listener).toHaveBeenCalledWith(
+        expect.objectContaining({ isActive: false, willRenew: false })
+      );
+      expect(unwrap(await simulator.getCustomerInfo()).isActive).toBe(false);
+    });
+
+    it('should reject refunds for products the user does not own', async () => {
+      const simulator = createSimulator();
+
+      const result = await simulator.beginRefundRequest('simulated_monthly');
+
+      expect(!result.success && result.error.code).toBe('UNKNOWN_ERROR');
+    });
+
+    it('should treat opening subscription management as a no-op', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.openManagementUrl()).toEqual({
+        success: true,
+        data: undefined,
+      });
+    });
+  });
+
+  describe('lifecycle controls', () => {
+    it('should fail with NO_ACTIVE_SUBSCRIPTION when nothing is active', async () => {
+      const simulator = createSimulator();
+
+      expect(await simulator.simulateCancellation()).toEqual({
+        success: false,
+        error: SIMULATED_ERRORS.NO_ACTIVE_SUBSCRIPTION,
+      });
+    });
+
+    it('should cancel auto-renewal and keep access until expiry', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await simulator.simulateCancellation());
+
+      expect(subscription.isActive).toBe(true);
+      expect(subscription.willRenew).toBe(false);
+      expect(subscription.cancelledAt).toEqual(START);
+    });
+
+    it('should report a billing issue while keeping access', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await simulator.simulateBillingIssue());
+
+      expect(subscription.isActive).toBe(true);
+      expect(subscription.billingIssueDetectedAt).toEqual(START);
+    });
+
+    it('should renew for another period and clear issues', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+      await simulator.simulateBillingIssue();
+      await simulator.simulateCancellation();
+
+      const subscription = unwrap(await simulator.simulateRenewal());
+
+      expect(subscription).toEqual(
+        expect.objectContaining({
+          expiresAt: new Date(START.getTime() + 37 * DAY_MS),
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
+        })
+      );
+    });
+
+    it('should expire the subscription now', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await simulator.simulateExpiry());
+
+      expect(subscription).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+
+    it('should push control actions to subscription listeners', async () => {
+      const simulator = createSimulator();
+      const listener = jest.fn();
+      const unsubscribe = simulator.addSubscriptionListener(listener);
+      await simulator.purchasePackage('$rc_annual');
+
+      await simulator.simulateExpiry();
+      unsubscribe();
+      await simulator.reset();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(DEFAULT_FREE_SUBSCRIPTION);
+    });
+  });
+
+  describe('forced errors', () => {
+    it.each(SIMULATED_ERROR_CODES)(
+      'should fail the next call with %s',
+      async (code) => {
+        const simulator = createSimulator();
+        await simulator.setForcedError({ code, persistent: false });
+
+        const result = await simulator.getCustomerInfo();
+
+        expect(result).toEqual({
+          success: false,
+          error: SIMULATED_ERRORS[code],
+        });
+      }
+    );
+
+    it('should only fail the next call when not persistent', async () => {
+      const simulator = createSimulator();
+      await simulator.setForcedError({
+        code: 'STORE_PROBLEM_ERROR',
+        persistent: false,
+      });
+
+      const first = await simulator.purchasePackage('$rc_annual');
+      const second = await simulator.purchasePackage('$rc_annual');
+
+      expect(first.success).toBe(false);
+      expect(second.success).toBe(true);
+      expect((await simulator.getState()).forcedError).toBeNull();
+    });
+
+    it('should fail every call until cleared when persistent', async () => {
+      const simulator = createSimulator();
+      await simulator.setForcedError({
+        code: 'NETWORK_ERROR',
+        persistent: true,
+      });
+
+      expect((await simulator.getCustomerInfo()).success).toBe(false);
+      expect((await simulator.getAvailablePackages()).success).toBe(false);
+
+      await simulator.setForcedError(null);
+
+      expect((await simulator.getCustomerInfo()).success).toBe(true);
+    });
+
+    it('should let the service retry forced retryable errors', async () => {
+      const simulator = createSimulator();
+      const service = createSubscriptionService({
+        repository: simulator,
+        retryPolicy: { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 },
+      });
+      await simulator.setForcedError({
+        code: 'NETWORK_ERROR',
+        persistent: false,
+      });
+
+      const result = await service.getPackages();
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should keep purchases across simulator instances', async () => {
+      await createSimulator().purchasePackage('$rc_annual');
+
+      const subscription = unwrap(await createSimulator().getCustomerInfo());
+
+      expect(subscription.isActive).toBe(true);
+    });
+
+    it('should start over when stored state is unreadable', async () => {
+      await AsyncStorage.setItem(SUBSCRIPTION_SIMULATOR_KEY, '{not json');
+
+      const subscription: Subscription = unwrap(
+        await createSimulator().getCustomerInfo()
+      );
+
+      expect(subscription).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+
+    it('should erase the store account on reset', async () => {
+      const simulator = createSimulator();
+      await simulator.purchasePackage('$rc_monthly');
+
+      await simulator.reset();
+
+      const state = await simulator.getState();
+      expect(state.purchase).toBeNull();
+      expect(state.hasUsedTrial).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Subscription Cache Tests
+ *
+ * Tests for persisting the last known subscription and the
+ * expiry + grace window rule for honouring it offline.
+ *
+ * @module features/subscription/core/__tests__/subscription-cache.test
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createAsyncStorageSubscriptionCache,
+  isCachedSubscriptionUsable,
+  SUBSCRIPTION_CACHE_KEY,
+  DEFAULT_CACHE_GRACE_PERIOD_MS,
+} from '../subscription-cache';
+import type { Subscription } from '../types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../types';
+
+const premiumSubscription: Subscription = {
+  isActive: true,
+  tier: 'premium',
+  expiresAt: new Date('2025-12-31T00:00:00.000Z'),
+  productId: 'monthly_plan',
+  willRenew: true,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+};
+
+describe('Subscription Cache', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  describe('createAsyncStorageSubscriptionCache', () => {
+    it('should return null when nothing is cached', async () => {
+      const cache = createAsyncStorageSubscriptionCache();
+
+      expect(await cache.load()).toBeNull();
+    });
+
+    it('should round-trip a subscription including its dates', async () => {
+      const cache = createAsyncStorageSubscriptionCache();
+
+      await cache.save(premiumSubscription);
+      const loaded = await cache.load();
+
+      expect(loaded).toEqual(premiumSubscription);
+      expect(loaded?.expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should round-trip a subscription without expiry', async () => {
+      const cache = createAsyncStorageSubscriptionCache();
+
+      await cache.save(DEFAULT_FREE_SUBSCRIPTION);
+
+      expect(await cache.load()).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+
+    it('should store under the default key', async () => {
+      const cache = createAsyncStorageSubscriptionCache();
+
+      await cache.save(premiumSubscription);
+
+      expect(await AsyncStorage.getItem(SUBSCRIPTION_CACHE_KEY)).not.toBeNull();
+    });
+
+    it('should support a custom storage key', async () => {
+      const cache = createAsyncStorageSubscriptionCache('custom-key');
+
+      await cache.save(premiumSubscription);
+
+      expect(await AsyncStorage.getItem('custom-key')).not.toBeNull();
+      expect(await AsyncStorage.getItem(SUBSCRIPTION_CACHE_KEY)).toBeNull();
+    });
+
+    it('should default renewal fields for caches written before they existed', async () => {
+      await AsyncStorage.setItem(
+        SUBSCRIPTION_CACHE_KEY,
+        JSON.stringify({
+          isActive: true,
+          tier: 'premium',
+          expiresAt: '2025-12-31T00:00:00.000Z',
+          productId: 'monthly_plan',
+        })
+      );
+      const cache = createAsyncStorageSubscriptionCache();
+
+      const loaded = await cache.load();
+
+      expect(loaded).toMatchObject({
+        tier: 'premium',
+        willRenew: false,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      });
+    });
+
+    it('should ignore data with an unexpected shape', async () => {
+      await AsyncStorage.setItem(
+        SUBSCRIPTION_CACHE_KEY,
+        JSON.stringify({ tier: 'premium' })
+      );
+      const cache = createAsyncStorageSubscriptionCache();
+
+      expect(await cache.load()).toBeNull();
+    });
+
+    it('should ignore an invalid expiry date', async () => {
+      await AsyncStorage.setItem(
+        SUBSCRIPTION_CACHE_KEY,
+        JSON.stringify({ ...premiumSubscription, expiresAt: 'not-a-date' })
+      );
+      const cache = createAsyncStorageSubscriptionCache();
+
+      expect(await cache.load()).toBeNull();
+    });
+
+    it('should remove the cached subscription on clear', async () => {
+      const cache = createAsyncStorageSubscriptionCache();
+      await cache.save(premiumSubscription);
+
+      await cache.clear();
+
+      expect(await cache.load()).toBeNull();
+    });
+  });
+
+  describe('isCachedSubscriptionUsable', () => {
+    const expiresAt = premiumSubscription.expiresAt!.getTime();
+
+    it('should honour subscriptions without expiry', () => {
+      expect(isCachedSubscriptionUsable(DEFAULT_FREE_SUBSCRIPTION)).toBe(true);
+    });
+
+    it('should honour a subscription before it expires', () => {
+      const now = new Date(expiresAt - 1000);
+
+      expect(isCachedSubscriptionUsable(premiumSubscription, 0, now)).toBe(
+        true
+      );
+    });
+
+    it('should honour an expired subscription within the grace window', () => {
+      const now = new Date(expiresAt + DEFAULT_CACHE_GRACE_PERIOD_MS - 1000);
+
+      expect(
+        isCachedSubscriptionUsable(
+          premiumSubscription,
+          DEFAULT_CACHE_GRACE_PERIOD_MS,
+          now
+        )
+      ).toBe(true);
+    });
+
+    it('should reject a subscription past expiry plus grace window', () => {
+      const now = new Date(expiresAt + DEFAULT_CACHE_GRACE_PERIOD_MS + 1000);
+
+      expect(
+        isCachedSubscriptionUsable(
+          premiumSubscription,
+          DEFAULT_CACHE_GRACE_PERIOD_MS,
+          now
+        )
+      ).toBe(false);
+    });
+  });
+});
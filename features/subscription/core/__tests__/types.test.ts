@@ -81,6 +81,10 @@ describe('Subscription Domain Types', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       expect(subscription.isActive).toBe(true);
@@ -104,6 +108,7 @@ describe('Subscription Domain Types', () => {
     it('should allow creating a valid SubscriptionPackage object', () => {
       const pkg: SubscriptionPackage = {
         identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
         title: 'Monthly',
         priceString: '$9.99',
         price: 9.99,
@@ -120,6 +125,7 @@ describe('Subscription Domain Types', () => {
     it('should allow creating a SubscriptionPackage with introPrice', () => {
       const pkg: SubscriptionPackage = {
         identifier: '$rc_annual',
+        packageType: 'ANNUAL',
         title: 'Annual',
         priceString: '$99.99',
         price: 99.99,
@@ -0,0 +1,521 @@
+/**
+ * Web Checkout Repository Tests
+ *
+ * Tests for the web SubscriptionRepository against the stub checkout server:
+ * checkout redirect and entitlement polling, identity, error mapping and
+ * store-only features.
+ *
+ * @module features/subscription/core/__tests__/web-checkout.test
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Linking } from 'react-native';
+import {
+  createHttpWebCheckoutProvider,
+  createWebCheckoutRepository,
+  getWebCheckoutUrl,
+  toWebSubscription,
+  WEB_CHECKOUT_ANONYMOUS_ID_KEY,
+  type WebCheckoutCustomer,
+} from '../web-checkout';
+import {
+  createStubWebCheckoutServer,
+  STUB_WEB_CHECKOUT_URL,
+  type StubWebCheckoutServer,
+} from '../web-checkout-stub';
+import { SIMULATED_OFFERINGS } from '../simulator';
+import type { AppUserIdStore } from '../app-user-id-store';
+import type { SubscriptionRepository } from '../service';
+import type { Result, Subscription, SubscriptionError } from '../types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../types';
+
+const NOW = new Date('2026-01-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PREMIUM_CUSTOMER: WebCheckoutCustomer = {
+  activeEntitlementIds: ['premium'],
+  productId: 'web_monthly',
+  expiresAt: '2026-02-01T00:00:00.000Z',
+  willRenew: true,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+  managementUrl: 'https://checkout.stub/portal/user-1',
+};
+
+function unwrap<T>(result: Result<T, SubscriptionError>): T {
+  if (!result.success) {
+    throw new Error(`Expected success, got ${result.error.code}`);
+  }
+  return result.data;
+}
+
+function createAppUserIdStore(appUserId: string | null): AppUserIdStore {
+  return {
+    load: jest.fn().mockResolvedValue(appUserId),
+    save: jest.fn(),
+    clear: jest.fn(),
+  };
+}
+
+describe('Web Checkout', () => {
+  let server: StubWebCheckoutServer;
+  let openURLSpy: jest.SpyInstance;
+  let onPoll: jest.Mock;
+
+  function createRepository(
+    config: { appUserIdStore?: AppUserIdStore; maxPolls?: number } = {}
+  ): SubscriptionRepository {
+    return createWebCheckoutRepository({
+      provider: createHttpWebCheckoutProvider(server),
+      sleep: async () => {
+        onPoll();
+      },
+      ...config,
+    });
+  }
+
+  /** Pay for every open session the next time the repository polls */
+  function completeCheckoutsOnPoll(): void {
+    onPoll.mockImplementation(() => {
+      server
+        .getSessions()
+        .forEach((session) => server.completeCheckout(session.sessionId));
+    });
+  }
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    server = createStubWebCheckoutServer({ now: () => NOW });
+    openURLSpy = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    onPoll = jest.fn();
+  });
+
+  afterEach(() => {
+    openURLSpy.mockRestore();
+  });
+
+  describe('getWebCheckoutUrl', () => {
+    const originalValue = process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL;
+
+    afterEach(() => {
+      process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL = originalValue;
+    });
+
+    it('should read the backend URL from the environment', () => {
+      process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL = 'https://api.example.com';
+
+      expect(getWebCheckoutUrl()).toBe('https://api.example.com');
+    });
+
+    it('should return null when the variable is not set', () => {
+      delete process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL;
+
+      expect(getWebCheckoutUrl()).toBeNull();
+    });
+
+    it('should read the variable with static dot access so Expo inlines it', () => {
+      const source = readFileSync(
+        join(__dirname, '../web-checkout.ts'),
+        'utf8'
+      );
+
+      expect(source).toContain('process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL');
+      expect(source).not.toMatch(/process\.env\[/);
+    });
+  });
+
+  describe('toWebSubscription', () => {
+    it('should map an entitled customer to an active subscription', () => {
+      expect(toWebSubscription(PREMIUM_CUSTOMER)).toEqual({
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2026-02-01T00:00:00.000Z'),
+        productId: 'web_monthly',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      });
+    });
+
+    it('should map unknown entitlements to the free tier', () => {
+      expect(
+        toWebSubscription({
+          ...PREMIUM_CUSTOMER,
+          activeEntitlementIds: ['legacy'],
+        })
+      ).toEqual(DEFAULT_FREE_SUBSCRIPTION);
+    });
+  });
+
+  describe('purchasePackage', () => {
+    it('should open the checkout page and resolve once the entitlement lands', async () => {
+      // Given: the customer pays on the checkout page
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore('user-1'),
+      });
+      completeCheckoutsOnPoll();
+
+      // When: purchasing the monthly package
+      const { subscription, transactionId } = unwrap(
+        await repository.purchasePackage('$rc_monthly')
+      );
+
+      // Then: the checkout page was opened and the subscription is active
+      const [session] = server.getSessions();
+      expect(session).toMatchObject({
+        appUserId: 'user-1',
+        packageId: '$rc_monthly',
+        status: 'complete',
+      });
+      expect(openURLSpy).toHaveBeenCalledWith(session.url);
+      expect(subscription).toMatchObject({
+        isActive: true,
+        tier: 'premium',
+        productId: 'web_monthly',
+        expiresAt: new Date(NOW.getTime() + 30 * DAY_MS),
+        willRenew: true,
+      });
+      expect(transactionId).toBe(session.sessionId);
+    });
+
+    it('should keep polling until the checkout completes', async () => {
+      // Given: the customer pays after two polls
+      const repository = createRepository();
+      onPoll
+        .mockImplementationOnce(() => undefined)
+        .mockImplementationOnce(() => undefined);
+      completeCheckoutsOnPoll();
+
+      // When: purchasing
+      const result = await repository.purchasePackage('$rc_annual');
+
+      // Then: the purchase resolves on the third poll
+      expect(unwrap(result).subscription.productId).toBe('web_annual');
+      expect(onPoll).toHaveBeenCalledTimes(3);
+    });
+
+    it('should skip failed polls', async () => {
+      // Given: the first poll loses the connection
+      const repository = createRepository();
+      onPoll
+        .mockImplementationOnce(() => server.failNextRequest(null))
+        .mockImplementation(() => {
+          server
+            .getSessions()
+            .forEach((session) => server.completeCheckout(session.sessionId));
+        });
+
+      // When: purchasing
+      const result = await repository.purchasePackage('$rc_monthly');
+
+      // Then: the next poll picks up the purchase
+      expect(unwrap(result).subscription.isActive).toBe(true);
+    });
+
+    it('should fail with PURCHASE_CANCELLED when the checkout is abandoned', async () => {
+      // Given: the customer never pays
+      const repository = createRepository({ maxPolls: 3 });
+
+      // When: purchasing
+      const result = await repository.purchasePackage('$rc_monthly');
+
+      // Then: polling stops after maxPolls
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'PURCHASE_CANCELLED',
+          message: 'Checkout was not completed',
+          retryable: false,
+        },
+      });
+      expect(onPoll).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail with PRODUCT_ALREADY_PURCHASED when the customer owns the product', async () => {
+      // Given: the customer already owns the monthly product
+      server.setCustomer('user-1', PREMIUM_CUSTOMER);
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore('user-1'),
+      });
+
+      // When: purchasing it again
+      const result = await repository.purchasePackage('$rc_monthly');
+
+      // Then: no checkout page is opened
+      expect(!result.success && result.error.code).toBe(
+        'PRODUCT_ALREADY_PURCHASED'
+      );
+      expect(openURLSpy).not.toHaveBeenCalled();
+    });
+
+    it('should check out the package of the given offering', async () => {
+      // Given: the customer pays on the checkout page
+      const repository = createRepository();
+      completeCheckoutsOnPoll();
+
+      // When: purchasing from the discount offering
+      const result = await repository.purchasePackage(
+        '$rc_annual',
+        'simulated_discount'
+      );
+
+      // Then: the session was opened for that offering
+      expect(unwrap(result).subscription.productId).toBe('web_annual');
+      expect(server.getSessions()[0]).toMatchObject({
+        packageId: '$rc_annual',
+        offeringId: 'simulated_discount',
+      });
+    });
+
+    it('should not open a checkout for an offering that does not exist', async () => {
+      const repository = createRepository();
+
+      const result = await repository.purchasePackage('$rc_annual', 'missing');
+
+      expect(!result.success && result.error.message).toBe(
+        'Package not found: Offering missing not available'
+      );
+      expect(server.getSessions()).toHaveLength(0);
+      expect(openURLSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getOfferingPackages', () => {
+    it('should return the packages of an offering', async () => {
+      const repository = createRepository();
+
+      expect(
+        unwrap(await repository.getOfferingPackages('simulated_discount'))
+      ).toEqual(SIMULATED_OFFERINGS.simulated_discount);
+    });
+
+    it('should return null for an offering that does not exist', async () => {
+      const repository = createRepository();
+
+      expect(
+        unwrap(await repository.getOfferingPackages('missing'))
+      ).toBeNull();
+    });
+  });
+
+  describe('identity', () => {
+    it('should use a persisted anonymous id when no user is logged in', async () => {
+      // Given: nobody is logged in
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore(null),
+      });
+      completeCheckoutsOnPoll();
+
+      // When: purchasing twice across repository instances
+      await repository.purchasePackage('$rc_monthly');
+      const anonymousId = await AsyncStorage.getItem(
+        WEB_CHECKOUT_ANONYMOUS_ID_KEY
+      );
+      const reloaded = createRepository();
+
+      // Then: the same anonymous customer keeps the purchase
+      expect(anonymousId).toMatch(/^\$web_anonymous:/);
+      expect(server.getSessions()[0].appUserId).toBe(anonymousId);
+      expect(unwrap(await reloaded.getCustomerInfo()).isActive).toBe(true);
+    });
+
+    it('should switch customers on logIn and logOut', async () => {
+      // Given: user-1 is a premium customer
+      server.setCustomer('user-1', PREMIUM_CUSTOMER);
+      const repository = createRepository();
+
+      // When/Then: logging in loads their subscription, logging out drops it
+      expect(unwrap(await repository.logIn('user-1')).tier).toBe('premium');
+      expect(unwrap(await repository.logOut())).toEqual(
+        DEFAULT_FREE_SUBSCRIPTION
+      );
+    });
+
+    it('should report the current customer id', async () => {
+      const repository = createRepository();
+
+      const anonymousId = unwrap(await repository.getAppUserId());
+      await repository.logIn('user-1');
+
+      expect(anonymousId).toBe(
+        await AsyncStorage.getItem(WEB_CHECKOUT_ANONYMOUS_ID_KEY)
+      );
+      expect(unwrap(await repository.getAppUserId())).toBe('user-1');
+    });
+
+    it('should fall back to the anonymous id when the stored id cannot be read', async () => {
+      const repository = createRepository({
+        appUserIdStore: {
+          load: jest.fn().mockRejectedValue(new Error('locked')),
+          save: jest.fn(),
+          clear: jest.fn(),
+        },
+      });
+
+      expect(unwrap(await repository.getCustomerInfo())).toEqual(
+        DEFAULT_FREE_SUBSCRIPTION
+      );
+      expect(
+        await AsyncStorage.getItem(WEB_CHECKOUT_ANONYMOUS_ID_KEY)
+      ).not.toBeNull();
+    });
+  });
+
+  describe('restorePurchases', () => {
+    it('should return the active subscription', async () => {
+      server.setCustomer('user-1', PREMIUM_CUSTOMER);
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore('user-1'),
+      });
+
+      expect(
+        unwrap(await repository.restorePurchases())?.subscription.tier
+      ).toBe('premium');
+    });
+
+    it('should return null without an active subscription', async () => {
+      const repository = createRepository();
+
+      expect(unwrap(await repository.restorePurchases())).toBeNull();
+    });
+  });
+
+  describe('getAvailablePackages', () => {
+    it('should return the packages sold through checkout', async () => {
+      const repository = createRepository();
+
+      const packages = unwrap(await repository.getAvailablePackages());
+
+      expect(packages.map((pkg) => pkg.identifier)).toEqual([
+        '$rc_monthly',
+        '$rc_annual',
+      ]);
+    });
+  });
+
+  describe('error mapping', () => {
+    it.each([
+      [null, 'NETWORK_ERROR', true],
+      [401, 'INVALID_CREDENTIALS_ERROR', false],
+      [500, 'UNEXPECTED_BACKEND_RESPONSE_ERROR', true],
+      [400, 'UNKNOWN_ERROR', false],
+    ])('should map a %s failure to %s', async (status, code, retryable) => {
+      const repository = createRepository();
+      server.failNextRequest(status);
+
+      const result = await repository.getAvailablePackages();
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toMatchObject({
+        code,
+        retryable,
+      });
+    });
+
+    it('should fail with CONFIGURATION_ERROR without a backend URL', async () => {
+      const repository = createWebCheckoutRepository({
+        provider: createHttpWebCheckoutProvider({ baseUrl: null }),
+      });
+
+      const result = await repository.getAvailablePackages();
+
+      expect(!result.success && result.error.code).toBe('CONFIGURATION_ERROR');
+    });
+
+    it('should fail with UNEXPECTED_BACKEND_RESPONSE_ERROR on a malformed body', async () => {
+      const repository = createWebCheckoutRepository({
+        provider: createHttpWebCheckoutProvider({
+          baseUrl: STUB_WEB_CHECKOUT_URL,
+          fetch: async () => ({
+            ok: true,
+            status: 200,
+            json: async () => ({ unexpected: true }),
+          }),
+        }),
+      });
+
+      const result = await repository.getCustomerInfo();
+
+      expect(!result.success && result.error.code).toBe(
+        'UNEXPECTED_BACKEND_RESPONSE_ERROR'
+      );
+    });
+  });
+
+  describe('openManagementUrl', () => {
+    it('should open the customer portal', async () => {
+      server.setCustomer('user-1', PREMIUM_CUSTOMER);
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore('user-1'),
+      });
+
+      unwrap(await repository.openManagementUrl());
+
+      expect(openURLSpy).toHaveBeenCalledWith(PREMIUM_CUSTOMER.managementUrl);
+    });
+
+    it('should fail with NO_ACTIVE_SUBSCRIPTION without a portal', async () => {
+      const repository = createRepository();
+
+      const result = await repository.openManagementUrl();
+
+      expect(!result.success && result.error.code).toBe(
+        'NO_ACTIVE_SUBSCRIPTION'
+      );
+    });
+  });
+
+  describe('store-only features', () => {
+    it('should report every package as unknown intro eligibility', async () => {
+      const repository = createRepository();
+
+      expect(
+        unwrap(await repository.getIntroEligibility(['$rc_monthly']))
+      ).toEqual({ $rc_monthly: 'unknown' });
+      expect(unwrap(await repository.getOffers('$rc_monthly'))).toEqual([]);
+    });
+
+    it('should fail with OPERATION_NOT_SUPPORTED', async () => {
+      const repository = createRepository();
+      const results = await Promise.all([
+        repository.redeemOfferCode(),
+        repository.beginRefundRequest('web_monthly'),
+        repository.purchaseProduct('lifetime_plan'),
+      ]);
+
+      results.forEach((result) => {
+        expect(!result.success && result.error.code).toBe(
+          'OPERATION_NOT_SUPPORTED'
+        );
+      });
+    });
+  });
+
+  describe('addSubscriptionListener', () => {
+    it('should push subscription changes seen by later fetches', async () => {
+      // Given: a listener and a fetched free subscription
+      const repository = createRepository({
+        appUserIdStore: createAppUserIdStore('user-1'),
+      });
+      const listener = jest.fn<void, [Subscription]>();
+      const unsubscribe = repository.addSubscriptionListener(listener);
+      await repository.getCustomerInfo();
+
+      // When: the customer subscribes elsewhere, then unsubscribes
+      server.setCustomer('user-1', PREMIUM_CUSTOMER);
+      await repository.getCustomerInfo();
+      await repository.getCustomerInfo();
+      unsubscribe();
+      server.setCustomer('user-1', { ...PREMIUM_CUSTOMER, willRenew: false });
+      await repository.getCustomerInfo();
+
+      // Then: only the change seen while subscribed is pushed
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].tier).toBe('premium');
+    });
+  });
+});
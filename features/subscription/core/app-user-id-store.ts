@@ -0,0 +1,76 @@
+/**
+ * App User ID Store
+ *
+ * Persists the RevenueCat app user id of the logged in user so the SDK can be
+ * configured with the same identity on the next launch (instead of a new
+ * anonymous user).
+ *
+ * The id is kept in secure storage (`SecureStorageKey.USER_ID`) alongside
+ * other account credentials.
+ *
+ * @module features/subscription/core/app-user-id-store
+ */
+
+import {
+  SecureStorageKey,
+  saveSecure,
+  getSecure,
+  deleteSecure,
+} from '@/lib/secure-storage';
+
+/**
+ * Storage abstraction for the current app user id.
+ * Implementations may throw; the service logs and ignores storage failures.
+ */
+export interface AppUserIdStore {
+  /** Load the persisted app user id (null when anonymous) */
+  load(): Promise<string | null>;
+  /** Persist the app user id, replacing any previous value */
+  save(appUserId: string): Promise<void>;
+  /** Remove the persisted app user id */
+  clear(): Promise<void>;
+}
+
+/**
+ * Create an AppUserIdStore backed by expo-secure-store.
+ * Secure storage failures are rethrown as Errors.
+ *
+ * @returns AppUserIdStore instance
+ *
+ * @example
+ * ```ts
+ * const appUserIdStore = createSecureAppUserIdStore();
+ *
+ * await configurePurchases({ appUserId: await appUserIdStore.load() });
+ *
+ * const service = createSubscriptionService({
+ *   repository: subscriptionRepository,
+ *   appUserIdStore,
+ * });
+ * ```
+ */
+export function createSecureAppUserIdStore(): AppUserIdStore {
+  return {
+    async load(): Promise<string | null> {
+      const result = await getSecure(SecureStorageKey.USER_ID);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      return result.data;
+    },
+
+    async save(appUserId: string): Promise<void> {
+      const result = await saveSecure(SecureStorageKey.USER_ID, appUserId);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+
+    async clear(): Promise<void> {
+      const result = await deleteSecure(SecureStorageKey.USER_ID);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * Billing Status
+ *
+ * Pure helpers that turn the renewal fields of a Subscription into a
+ * user-facing billing status, and locate the store's subscription
+ * management page.
+ *
+ * @module features/subscription/core/billing
+ */
+
+import type { Subscription } from './types';
+
+/**
+ * Billing status shown to the user.
+ * - 'ok': nothing to report (free, renewing, or lifetime)
+ * - 'billing_issue': the store failed to charge the renewal
+ * - 'cancelled': auto-renew is off; access ends at `endsAt`
+ */
+export type BillingStatus =
+  | { kind: 'ok' }
+  | { kind: 'billing_issue'; detectedAt: Date; expiresAt: Date | null }
+  | { kind: 'cancelled'; endsAt: Date };
+
+/**
+ * Store pages where users manage (update payment, cancel, resubscribe) subscriptions.
+ */
+export const MANAGE_SUBSCRIPTIONS_URLS: Readonly<Record<string, string>> = {
+  ios: 'https://apps.apple.com/account/subscriptions',
+  android: 'https://play.google.com/store/account/subscriptions',
+};
+
+/**
+ * Derive the billing status for a subscription.
+ * A billing issue takes precedence over cancellation.
+ *
+ * @param subscription - Current subscription (null until loaded)
+ * @returns BillingStatus for display
+ *
+ * @example
+ * ```ts
+ * const status = getBillingStatus(subscription);
+ * if (status.kind === 'cancelled') {
+ *   console.log(`Ends on ${status.endsAt.toLocaleDateString()}`);
+ * }
+ * ```
+ */
+export function getBillingStatus(
+  subscription: Subscription | null
+): BillingStatus {
+  if (!subscription?.isActive) {
+    return { kind: 'ok' };
+  }
+
+  if (subscription.billingIssueDetectedAt) {
+    return {
+      kind: 'billing_issue',
+      detectedAt: subscription.billingIssueDetectedAt,
+      expiresAt: subscription.expiresAt,
+    };
+  }
+
+  // Lifetime purchases don't renew but never end either
+  if (!subscription.willRenew && subscription.expiresAt) {
+    return { kind: 'cancelled', endsAt: subscription.expiresAt };
+  }
+
+  return { kind: 'ok' };
+}
+
+/**
+ * Get the store's subscription management URL for a platform.
+ *
+ * @param platform - Platform.OS value (e.g., 'ios', 'android')
+ * @returns Management URL, or null if the platform has no store
+ */
+export function getManageSubscriptionsUrl(platform: string): string | null {
+  return MANAGE_SUBSCRIPTIONS_URLS[platform] ?? null;
+}
@@ -0,0 +1,197 @@
+/**
+ * Entitlement Registry
+ *
+ * Holds the app's tier configuration: which RevenueCat entitlement grants
+ * which tier, how tiers are ordered, and the UsageLimits for each tier.
+ *
+ * This module is responsible for:
+ * - Storing the configured EntitlementRegistry (defaults to a single 'premium' tier)
+ * - Resolving a tier from active entitlement identifiers
+ * - Ranking tiers so features can require "at least" a given tier
+ *
+ * @module features/subscription/core/entitlements
+ */
+
+import type {
+  EntitlementRegistry,
+  SubscriptionTier,
+  TierDefinition,
+  UsageLimits,
+} from './types';
+import { DEFAULT_ENTITLEMENT_REGISTRY, FREE_TIER } from './types';
+
+/**
+ * Internal state holding the active registry
+ */
+let _registry: EntitlementRegistry = DEFAULT_ENTITLEMENT_REGISTRY;
+
+/**
+ * Validate a registry before it is installed.
+ *
+ * @throws Error if a tier is 'free' or a tier/entitlement is declared twice
+ */
+function validateRegistry(registry: EntitlementRegistry): void {
+  const tiers = new Set<string>();
+  const entitlementIds = new Set<string>();
+
+  for (const definition of registry.tiers) {
+    if (definition.tier === FREE_TIER) {
+      throw new Error(
+        `Tier "${FREE_TIER}" is built in and cannot be mapped to an entitlement.`
+      );
+    }
+    if (tiers.has(definition.tier)) {
+      throw new Error(`Tier "${definition.tier}" is declared more than once.`);
+    }
+    if (entitlementIds.has(definition.entitlementId)) {
+      throw new Error(
+        `Entitlement "${definition.entitlementId}" is mapped to more than one tier.`
+      );
+    }
+    tiers.add(definition.tier);
+    entitlementIds.add(definition.entitlementId);
+  }
+}
+
+/**
+ * Configure the app's entitlement registry.
+ * Call once at startup, before the subscription service is created.
+ *
+ * @param registry - Tier definitions ordered from lowest to highest
+ * @throws Error if the registry is invalid
+ *
+ * @example
+ * ```ts
+ * configureEntitlements({
+ *   freeLimits: FREE_TIER_LIMITS,
+ *   tiers: [
+ *     { tier: 'plus', entitlementId: 'plus', limits: { maxItems: 100, maxExports: 10, hasAds: false } },
+ *     { tier: 'pro', entitlementId: 'pro', limits: PREMIUM_TIER_LIMITS },
+ *   ],
+ * });
+ * ```
+ */
+export function configureEntitlements(registry: EntitlementRegistry): void {
+  validateRegistry(registry);
+  _registry = registry;
+}
+
+/**
+ * Get the active entitlement registry.
+ *
+ * @returns The configured registry (DEFAULT_ENTITLEMENT_REGISTRY if never configured)
+ */
+export function getEntitlementRegistry(): EntitlementRegistry {
+  return _registry;
+}
+
+/**
+ * Reset the registry to DEFAULT_ENTITLEMENT_REGISTRY.
+ * This is primarily used for testing purposes.
+ *
+ * @internal
+ */
+export function resetEntitlements(): void {
+  _registry = DEFAULT_ENTITLEMENT_REGISTRY;
+}
+
+/**
+ * Get a tier's rank. 'free' is 0, paid tiers are 1..n in registry order.
+ *
+ * @param tier - Subscription tier
+ * @param registry - Registry to use (defaults to the configured registry)
+ * @returns Tier rank, or -1 if the tier is unknown
+ */
+export function getTierRank(
+  tier: SubscriptionTier,
+  registry: EntitlementRegistry = _registry
+): number {
+  if (tier === FREE_TIER) {
+    return 0;
+  }
+  const index = registry.tiers.findIndex(
+    (definition) => definition.tier === tier
+  );
+  return index === -1 ? -1 : index + 1;
+}
+
+/**
+ * Check whether a tier is at least as high as the required tier.
+ * Unknown tiers never satisfy and never are satisfied.
+ *
+ * @param tier - User's subscription tier
+ * @param requiredTier - Minimum tier required
+ * @param registry - Registry to use (defaults to the configured registry)
+ * @returns true if `tier` ranks at or above `requiredTier`
+ *
+ * @example
+ * ```ts
+ * // With tiers [plus, pro]
+ * isTierAtLeast('pro', 'plus'); // true
+ * isTierAtLeast('plus', 'pro'); // false
+ * ```
+ */
+export function isTierAtLeast(
+  tier: SubscriptionTier,
+  requiredTier: SubscriptionTier,
+  registry: EntitlementRegistry = _registry
+): boolean {
+  const rank = getTierRank(tier, registry);
+  const requiredRank = getTierRank(requiredTier, registry);
+
+  if (rank === -1 || requiredRank === -1) {
+    return false;
+  }
+  return rank >= requiredRank;
+}
+
+/**
+ * Check whether a tier is a paid tier known to the registry.
+ *
+ * @param tier - Subscription tier
+ * @param registry - Registry to use (defaults to the configured registry)
+ * @returns true if the tier ranks above 'free'
+ */
+export function isPaidTier(
+  tier: SubscriptionTier,
+  registry: EntitlementRegistry = _registry
+): boolean {
+  return getTierRank(tier, registry) > 0;
+}
+
+/**
+ * Get the usage limits for a tier.
+ *
+ * @param tier - Subscription tier
+ * @param registry - Registry to use (defaults to the configured registry)
+ * @returns Tier limits, or the free limits for 'free' and unknown tiers
+ */
+export function getTierLimits(
+  tier: SubscriptionTier,
+  registry: EntitlementRegistry = _registry
+): UsageLimits {
+  const definition = registry.tiers.find(
+    (candidate) => candidate.tier === tier
+  );
+  return definition?.limits ?? registry.freeLimits;
+}
+
+/**
+ * Resolve the highest tier granted by a set of active entitlements.
+ *
+ * @param activeEntitlementIds - Identifiers of active RevenueCat entitlements
+ * @param registry - Registry to use (defaults to the configured registry)
+ * @returns The highest matching TierDefinition, or null if none match
+ */
+export function resolveTier(
+  activeEntitlementIds: readonly string[],
+  registry: EntitlementRegistry = _registry
+): TierDefinition | null {
+  for (let i = registry.tiers.length - 1; i >= 0; i--) {
+    const definition = registry.tiers[i];
+    if (activeEntitlementIds.includes(definition.entitlementId)) {
+      return definition;
+    }
+  }
+  return null;
+}
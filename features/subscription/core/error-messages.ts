@@ -0,0 +1,71 @@
+/**
+ * Subscription Error Messages
+ *
+ * User-facing copy for each SubscriptionErrorCode, shared by the screens
+ * that surface purchase and restore results.
+ *
+ * @module features/subscription/core/error-messages
+ */
+
+import type { SubscriptionErrorCode } from './types';
+
+/**
+ * Message shown for each error code.
+ * Empty strings mark codes that are handled silently
+ * (user cancellation, an action already in progress).
+ */
+export const SUBSCRIPTION_ERROR_MESSAGES: Readonly<
+  Record<SubscriptionErrorCode, string>
+> = {
+  PURCHASE_CANCELLED: '',
+  PURCHASE_NOT_ALLOWED:
+    'Purchases are not allowed on this device. Please check your settings.',
+  PURCHASE_INVALID: 'Invalid purchase. Please try again.',
+  PRODUCT_ALREADY_PURCHASED: 'This product has already been purchased.',
+  NETWORK_ERROR:
+    'A network error occurred. Please check your connection and try again.',
+  STORE_PROBLEM_ERROR:
+    'The store service is temporarily unavailable. Please try again later.',
+  CONFIGURATION_ERROR:
+    'A configuration error occurred. Please contact support.',
+  INVALID_CREDENTIALS_ERROR: 'Authentication failed. Please try again.',
+  UNEXPECTED_BACKEND_RESPONSE_ERROR:
+    'A server error occurred. Please try again later.',
+  RECEIPT_ALREADY_IN_USE_ERROR:
+    'This purchase is already associated with another account.',
+  INVALID_APP_USER_ID: 'Could not sign in to your subscription account.',
+  OPERATION_IN_PROGRESS: '',
+  NO_ACTIVE_SUBSCRIPTION: 'No purchases available to restore.',
+  INELIGIBLE_FOR_OFFER: 'This offer is not available for your account.',
+  INVALID_OFFER: 'This offer is no longer valid.',
+  OPERATION_NOT_SUPPORTED: 'This is not supported on this device.',
+  RECEIPT_VERIFICATION_FAILED:
+    'We could not verify your purchase. Please restore purchases or contact support.',
+  UNKNOWN_ERROR: 'An error occurred. Please try again.',
+};
+
+/**
+ * Get the user-facing message for an error code.
+ *
+ * @param code - SubscriptionErrorCode from a failed Result
+ * @returns Message to display, or '' if the error should not be shown
+ *
+ * @example
+ * ```ts
+ * const result = await restorePurchases();
+ * if (!result.success) {
+ *   const message = getSubscriptionErrorMessage(result.error.code);
+ *   if (message) {
+ *     Alert.alert('Error', message);
+ *   }
+ * }
+ * ```
+ */
+export function getSubscriptionErrorMessage(
+  code: SubscriptionErrorCode
+): string {
+  return (
+    SUBSCRIPTION_ERROR_MESSAGES[code] ??
+    SUBSCRIPTION_ERROR_MESSAGES.UNKNOWN_ERROR
+  );
+}
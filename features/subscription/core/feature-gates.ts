@@ -0,0 +1,85 @@
+/**
+ * Feature Gate Registry
+ *
+ * Holds the app's gated features: which level each feature requires and the
+ * paywall headline to show when that feature triggered the upsell.
+ *
+ * This module is responsible for:
+ * - Storing the configured FeatureGateRegistry (empty by default)
+ * - Resolving the definition for a feature key (unregistered keys require 'premium')
+ * - Resolving the paywall headline for the feature passed to /paywall
+ *
+ * @module features/subscription/core/feature-gates
+ */
+
+import type { FeatureGateDefinition, FeatureGateRegistry } from './types';
+
+/**
+ * Definition used for feature keys that are not in the registry.
+ */
+export const DEFAULT_FEATURE_GATE: FeatureGateDefinition = {
+  level: 'premium',
+};
+
+/**
+ * Route param used to tell /paywall which feature triggered the upsell.
+ */
+export const PAYWALL_FEATURE_PARAM = 'feature';
+
+/**
+ * Internal state holding the active registry
+ */
+let _registry: FeatureGateRegistry = {};
+
+/**
+ * Configure the app's gated features.
+ * Call once at startup, alongside configureEntitlements.
+ *
+ * @param registry - Feature definitions keyed by feature key
+ *
+ * @example
+ * ```ts
+ * configureFeatureGates({
+ *   export: { level: 'premium', paywallHeadline: 'Export without limits' },
+ *   'custom-themes': { level: 'plus' },
+ * });
+ * ```
+ */
+export function configureFeatureGates(registry: FeatureGateRegistry): void {
+  _registry = registry;
+}
+
+/**
+ * Reset the registry to an empty one.
+ * This is primarily used for testing purposes.
+ *
+ * @internal
+ */
+export function resetFeatureGates(): void {
+  _registry = {};
+}
+
+/**
+ * Get the definition for a feature key.
+ *
+ * @param featureKey - Feature key
+ * @returns The registered definition, or DEFAULT_FEATURE_GATE if not registered
+ */
+export function getFeatureGate(featureKey: string): FeatureGateDefinition {
+  return Object.prototype.hasOwnProperty.call(_registry, featureKey)
+    ? _registry[featureKey]
+    : DEFAULT_FEATURE_GATE;
+}
+
+/**
+ * Get the paywall headline for the feature that triggered the upsell.
+ *
+ * @param featureKey - Value of the `feature` route param (may be missing or invalid)
+ * @returns The feature's headline, or undefined to use the paywall's default
+ */
+export function getPaywallHeadline(featureKey: unknown): string | undefined {
+  if (typeof featureKey !== 'string' || featureKey.length === 0) {
+    return undefined;
+  }
+  return getFeatureGate(featureKey).paywallHeadline;
+}
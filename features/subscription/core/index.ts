@@ -3,7 +3,8 @@
  *
  * Exports all core subscription functionality including:
  * - SDK configuration
- * - Repository layer
+ * - Repository layer (RevenueCat, and web checkout on web)
+ * - Entitlement registry (tiers)
  * - Domain types
  *
  * @module features/subscription/core
@@ -17,17 +18,107 @@ export {
   resetConfiguration,
 } from './sdk';
 
+export type { ConfigurePurchasesOptions } from './sdk';
+
 // Repository
 export {
   subscriptionRepository,
   toSubscription,
   toSubscriptionError,
+  getCustomerInfoSnapshot,
+  invalidateCustomerInfoCache,
+  getOffering,
 } from './repository';
 
+export type { CustomerInfoSnapshot } from './repository';
+
+// Offline Simulator (development builds)
+export {
+  createSubscriptionSimulator,
+  subscriptionSimulator,
+  isSubscriptionSimulatorEnabled,
+  toSimulatedSubscription,
+  SIMULATED_PACKAGES,
+  SIMULATED_PRODUCTS,
+  SIMULATED_OFFERS,
+  SIMULATED_ERRORS,
+  SIMULATED_ERROR_CODES,
+  SUBSCRIPTION_SIMULATOR_KEY,
+} from './simulator';
+
+export type {
+  SubscriptionSimulator,
+  SubscriptionSimulatorConfig,
+  SimulatorState,
+  SimulatedPurchase,
+  SimulatedProduct,
+  SimulatorForcedError,
+} from './simulator';
+
+// Receipt Verification
+export {
+  createHttpReceiptVerifier,
+  createMockReceiptVerifier,
+  getReceiptVerifierUrl,
+} from './receipt-verifier';
+
+export type {
+  ReceiptVerifier,
+  ReceiptVerificationRequest,
+  ReceiptVerificationReason,
+  ReceiptVerifierFetch,
+  HttpReceiptVerifierConfig,
+  MockReceiptVerifier,
+  MockReceiptVerdict,
+} from './receipt-verifier';
+
+// Web Checkout (web build)
+export {
+  createWebCheckoutRepository,
+  createHttpWebCheckoutProvider,
+  getWebCheckoutUrl,
+  toWebSubscription,
+  WebCheckoutError,
+  WEB_CHECKOUT_ANONYMOUS_ID_KEY,
+  DEFAULT_CHECKOUT_POLL_INTERVAL_MS,
+  DEFAULT_CHECKOUT_MAX_POLLS,
+} from './web-checkout';
+
+export type {
+  WebCheckoutProvider,
+  WebCheckoutCustomer,
+  WebCheckoutSession,
+  WebCheckoutErrorKind,
+  WebCheckoutFetch,
+  HttpWebCheckoutProviderConfig,
+  WebCheckoutRepositoryConfig,
+} from './web-checkout';
+
+export {
+  createStubWebCheckoutServer,
+  STUB_WEB_CHECKOUT_URL,
+} from './web-checkout-stub';
+
+export type {
+  StubWebCheckoutServer,
+  StubWebCheckoutServerConfig,
+  StubCheckoutSession,
+} from './web-checkout-stub';
+
+// Debug Log Buffer
+export {
+  createSubscriptionLogBuffer,
+  subscriptionLogBuffer,
+  DEFAULT_LOG_BUFFER_CAPACITY,
+} from './log-buffer';
+
+export type { SubscriptionLogBuffer, SubscriptionLogEntry } from './log-buffer';
+
 // Application Service
 export {
   getUsageLimits,
   canAccessFeature,
+  isLifetimeSubscription,
   getDefaultSubscription,
   createSubscriptionService,
 } from './service';
@@ -40,6 +131,98 @@ export type {
   LogLevel,
 } from './service';
 
+// Entitlement Registry
+export {
+  configureEntitlements,
+  getEntitlementRegistry,
+  resetEntitlements,
+  getTierRank,
+  isTierAtLeast,
+  isPaidTier,
+  getTierLimits,
+  resolveTier,
+} from './entitlements';
+
+// Offline Subscription Cache
+export {
+  createAsyncStorageSubscriptionCache,
+  isCachedSubscriptionUsable,
+  SUBSCRIPTION_CACHE_KEY,
+  DEFAULT_CACHE_GRACE_PERIOD_MS,
+} from './subscription-cache';
+
+export type { SubscriptionCache } from './subscription-cache';
+
+// App User Identity
+export { createSecureAppUserIdStore } from './app-user-id-store';
+
+export type { AppUserIdStore } from './app-user-id-store';
+
+// Retry Policy
+export { withRetry, getBackoffDelay, DEFAULT_RETRY_POLICY } from './retry';
+
+export type {
+  RetryPolicy,
+  RetryableOperation,
+  RetryAttempt,
+  RetryOutcome,
+  WithRetryOptions,
+} from './retry';
+
+// Feature Gates
+export {
+  configureFeatureGates,
+  getFeatureGate,
+  getPaywallHeadline,
+  DEFAULT_FEATURE_GATE,
+  PAYWALL_FEATURE_PARAM,
+} from './feature-gates';
+
+// Paywall Placements
+export {
+  configurePaywallPlacements,
+  getPaywallPlacement,
+  isFrequencyCapped,
+  DEFAULT_PAYWALL_PLACEMENT,
+  DAILY_FREQUENCY_CAP,
+  PAYWALL_PLACEMENT_PARAM,
+  PAYWALL_OFFERING_PARAM,
+} from './paywall-placements';
+
+export {
+  createPaywallPresenter,
+  paywallPresenter,
+  PAYWALL_PLACEMENTS_KEY,
+} from './paywall-presenter';
+
+export type {
+  PaywallPresenter,
+  PaywallPresenterConfig,
+} from './paywall-presenter';
+
+// Error Messages
+export {
+  SUBSCRIPTION_ERROR_MESSAGES,
+  getSubscriptionErrorMessage,
+} from './error-messages';
+
+// Billing Status
+export {
+  getBillingStatus,
+  getManageSubscriptionsUrl,
+  MANAGE_SUBSCRIPTIONS_URLS,
+} from './billing';
+
+export type { BillingStatus } from './billing';
+
+// Pricing Helpers
+export {
+  formatBillingPeriod,
+  formatIsoPeriod,
+  formatIntroOffer,
+  getAnnualSavingsPercent,
+} from './pricing';
+
 // Zustand Store Integration
 export {
   syncSubscriptionToStore,
@@ -51,8 +234,27 @@ export type { StoreIntegrationConfig } from './store-integration';
 // Domain Types
 export type {
   Subscription,
+  SubscriptionSource,
+  SubscriptionTier,
+  TierDefinition,
+  EntitlementRegistry,
+  FeatureGateDefinition,
+  FeatureGateRegistry,
+  PaywallFrequencyCap,
+  PaywallPlacementDefinition,
+  PaywallPlacementRegistry,
+  PaywallPlacementEvent,
+  PaywallPlacementStats,
+  PaywallPresentation,
   UsageLimits,
   SubscriptionPackage,
+  SubscriptionPackageType,
+  IntroEligibility,
+  SubscriptionOffer,
+  SubscriptionOfferType,
+  RefundRequestStatus,
+  PackagePurchase,
+  ProductPurchase,
   FeatureLevel,
   SubscriptionError,
   SubscriptionErrorCode,
@@ -67,4 +269,6 @@ export {
   PREMIUM_TIER_LIMITS,
   DEFAULT_FREE_SUBSCRIPTION,
   PREMIUM_ENTITLEMENT_ID,
+  FREE_TIER,
+  DEFAULT_ENTITLEMENT_REGISTRY,
 } from './types';
@@ -0,0 +1,111 @@
+/**
+ * Subscription Log Buffer
+ *
+ * Keeps the most recent SubscriptionLogger entries in memory so the debug
+ * screen can show what the service did (fetches, retries, purchase outcomes).
+ *
+ * @module features/subscription/core/log-buffer
+ */
+
+import type { LogLevel, SubscriptionLogger } from './service';
+
+/**
+ * Default number of entries kept.
+ */
+export const DEFAULT_LOG_BUFFER_CAPACITY = 50;
+
+/**
+ * A captured log entry.
+ */
+export interface SubscriptionLogEntry {
+  /** When the entry was logged */
+  timestamp: Date;
+  level: LogLevel;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+/**
+ * Ring buffer of recent subscription log entries.
+ */
+export interface SubscriptionLogBuffer {
+  /** Logger to pass to createSubscriptionService */
+  logger: SubscriptionLogger;
+  /**
+   * Captured entries, oldest first.
+   * Returns the same array until the buffer changes (safe for useSyncExternalStore).
+   */
+  getEntries(): readonly SubscriptionLogEntry[];
+  /** Remove all entries */
+  clear(): void;
+  /**
+   * Subscribe to buffer changes.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Create a log buffer keeping the last `capacity` entries.
+ *
+ * @param capacity - Maximum number of entries (defaults to DEFAULT_LOG_BUFFER_CAPACITY)
+ * @param now - Clock (injectable for testing)
+ * @returns SubscriptionLogBuffer
+ *
+ * @example
+ * ```ts
+ * const logBuffer = createSubscriptionLogBuffer(20);
+ * const service = createSubscriptionService({
+ *   repository: subscriptionRepository,
+ *   logger: logBuffer.logger,
+ * });
+ *
+ * logBuffer.getEntries(); // [{ level: 'info', message: 'Fetching subscription state', ... }]
+ * ```
+ */
+export function createSubscriptionLogBuffer(
+  capacity: number = DEFAULT_LOG_BUFFER_CAPACITY,
+  now: () => Date = () => new Date()
+): SubscriptionLogBuffer {
+  const listeners = new Set<() => void>();
+  let entries: readonly SubscriptionLogEntry[] = [];
+
+  function update(next: readonly SubscriptionLogEntry[]): void {
+    entries = next;
+    listeners.forEach((listener) => listener());
+  }
+
+  return {
+    logger: (level, message, context) => {
+      const entry: SubscriptionLogEntry = {
+        timestamp: now(),
+        level,
+        message,
+        ...(context !== undefined && { context }),
+      };
+      update([...entries, entry].slice(-capacity));
+    },
+
+    getEntries: () => entries,
+
+    clear: () => {
+      if (entries.length > 0) {
+        update([]);
+      }
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * App-wide log buffer shown on the subscription debug screen.
+ */
+export const subscriptionLogBuffer: SubscriptionLogBuffer =
+  createSubscriptionLogBuffer();
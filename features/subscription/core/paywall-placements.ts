@@ -0,0 +1,116 @@
+/**
+ * Paywall Placement Registry
+ *
+ * Holds the app's paywall placements: the offering each placement presents
+ * and how often it may present it.
+ *
+ * This module is responsible for:
+ * - Storing the configured PaywallPlacementRegistry (empty by default)
+ * - Resolving the definition for a placement id (unregistered ids are uncapped)
+ * - Deciding whether a frequency cap has been reached
+ *
+ * @module features/subscription/core/paywall-placements
+ */
+
+import type {
+  PaywallFrequencyCap,
+  PaywallPlacementDefinition,
+  PaywallPlacementRegistry,
+} from './types';
+
+/**
+ * Definition used for placement ids that are not in the registry:
+ * the current offering, without a frequency cap.
+ */
+export const DEFAULT_PAYWALL_PLACEMENT: PaywallPlacementDefinition = {};
+
+/**
+ * Frequency cap for soft upsells: at most once per day.
+ */
+export const DAILY_FREQUENCY_CAP: PaywallFrequencyCap = {
+  maxImpressions: 1,
+  periodMs: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Route param used to tell /paywall which placement opened it.
+ */
+export const PAYWALL_PLACEMENT_PARAM = 'placement';
+
+/**
+ * Route param used to tell /paywall which offering to present.
+ */
+export const PAYWALL_OFFERING_PARAM = 'offering';
+
+/**
+ * Internal state holding the active registry
+ */
+let _registry: PaywallPlacementRegistry = {};
+
+/**
+ * Configure the app's paywall placements.
+ * Call once at startup, alongside configureFeatureGates.
+ *
+ * @param registry - Placement definitions keyed by placement id
+ *
+ * @example
+ * ```ts
+ * configurePaywallPlacements({
+ *   settings_upgrade: {},
+ *   item_limit: { offeringId: 'limit_reached' },
+ *   home_banner: { frequencyCap: DAILY_FREQUENCY_CAP },
+ * });
+ * ```
+ */
+export function configurePaywallPlacements(
+  registry: PaywallPlacementRegistry
+): void {
+  _registry = registry;
+}
+
+/**
+ * Reset the registry to an empty one.
+ * This is primarily used for testing purposes.
+ *
+ * @internal
+ */
+export function resetPaywallPlacements(): void {
+  _registry = {};
+}
+
+/**
+ * Get the definition for a placement id.
+ *
+ * @param placementId - Placement id
+ * @returns The registered definition, or DEFAULT_PAYWALL_PLACEMENT if not registered
+ */
+export function getPaywallPlacement(
+  placementId: string
+): PaywallPlacementDefinition {
+  return Object.prototype.hasOwnProperty.call(_registry, placementId)
+    ? _registry[placementId]
+    : DEFAULT_PAYWALL_PLACEMENT;
+}
+
+/**
+ * Whether a placement has used up its frequency cap.
+ *
+ * @param cap - Frequency cap (undefined for uncapped placements)
+ * @param impressions - Times the placement showed the paywall
+ * @param now - Current time
+ * @returns True if the paywall must not be shown again yet
+ */
+export function isFrequencyCapped(
+  cap: PaywallFrequencyCap | undefined,
+  impressions: readonly Date[],
+  now: Date
+): boolean {
+  if (!cap) {
+    return false;
+  }
+  const windowStart = now.getTime() - cap.periodMs;
+  const inWindow = impressions.filter(
+    (shownAt) => shownAt.getTime() > windowStart
+  ).length;
+  return inWindow >= cap.maxImpressions;
+}
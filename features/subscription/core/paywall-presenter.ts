@@ -0,0 +1,296 @@
+/**
+ * Paywall Presenter
+ *
+ * Decides whether a placement may show the paywall and which offering it
+ * shows, and tracks what happened once it was shown.
+ *
+ * This module is responsible for:
+ * - Enforcing each placement's frequency cap
+ * - Choosing the placement's offering
+ * - Recording impressions, dismissals and conversions per placement in AsyncStorage
+ *
+ * Storage failures never block an upsell: history that cannot be read is
+ * treated as empty (uncapped), and failed writes are logged and dropped.
+ *
+ * @module features/subscription/core/paywall-presenter
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getPaywallPlacement, isFrequencyCapped } from './paywall-placements';
+import type { SubscriptionLogger } from './service';
+import type {
+  PaywallPlacementDefinition,
+  PaywallPlacementEvent,
+  PaywallPlacementStats,
+  PaywallPresentation,
+} from './types';
+
+/**
+ * AsyncStorage key for the tracked placement events
+ */
+export const PAYWALL_PLACEMENTS_KEY = 'paywall-placements';
+
+/**
+ * Tracked events for one placement as stored in AsyncStorage.
+ * Only the impressions a frequency cap can still count are kept.
+ */
+interface StoredPlacement {
+  impressions: number;
+  dismissals: number;
+  conversions: number;
+  /** ISO timestamps of the latest impressions, oldest first */
+  recentImpressions: string[];
+}
+
+type StoredPlacements = Record<string, StoredPlacement>;
+
+const EMPTY_PLACEMENT: StoredPlacement = {
+  impressions: 0,
+  dismissals: 0,
+  conversions: 0,
+  recentImpressions: [],
+};
+
+/**
+ * Type guard for a placement read back from storage.
+ */
+function isStoredPlacement(value: unknown): value is StoredPlacement {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.impressions === 'number' &&
+    typeof candidate.dismissals === 'number' &&
+    typeof candidate.conversions === 'number' &&
+    Array.isArray(candidate.recentImpressions) &&
+    candidate.recentImpressions.every((entry) => typeof entry === 'string')
+  );
+}
+
+/**
+ * Keep the valid placements of data read back from storage.
+ */
+function toStoredPlacements(value: unknown): StoredPlacements {
+  if (typeof value !== 'object' || value === null) {
+    return {};
+  }
+  return Object.fromEntries(
+    Object.entries(value).filter(([, placement]) =>
+      isStoredPlacement(placement)
+    )
+  ) as StoredPlacements;
+}
+
+/**
+ * Number of impressions to keep for a placement's frequency cap.
+ */
+function getImpressionHistorySize(
+  definition: PaywallPlacementDefinition
+): number {
+  return Math.max(definition.frequencyCap?.maxImpressions ?? 1, 1);
+}
+
+/**
+ * Paywall presenter configuration.
+ */
+export interface PaywallPresenterConfig {
+  /** AsyncStorage key (defaults to PAYWALL_PLACEMENTS_KEY) */
+  storageKey?: string;
+  /** Placement definitions (defaults to the configured registry) */
+  getPlacement?: (placementId: string) => PaywallPlacementDefinition;
+  /** Logger for recorded events and storage failures */
+  logger?: SubscriptionLogger;
+  /** Clock (injectable for testing) */
+  now?: () => Date;
+}
+
+/**
+ * Paywall presenter interface.
+ */
+export interface PaywallPresenter {
+  /**
+   * Decide whether a placement may show the paywall now.
+   * Does not count an impression; the paywall records it once shown.
+   *
+   * @param placementId - Placement id (see configurePaywallPlacements)
+   * @returns The paywall to present, or null if the frequency cap is reached
+   */
+  getPresentation(placementId: string): Promise<PaywallPresentation | null>;
+
+  /**
+   * Record an event for a placement.
+   */
+  record(placementId: string, event: PaywallPlacementEvent): Promise<void>;
+
+  /**
+   * Read the tracked events for a placement.
+   */
+  getStats(placementId: string): Promise<PaywallPlacementStats>;
+
+  /**
+   * Forget all tracked events (frequency caps start over).
+   */
+  reset(): Promise<void>;
+}
+
+/**
+ * Create a paywall presenter.
+ *
+ * @param config - Presenter configuration
+ * @returns PaywallPresenter
+ *
+ * @example
+ * ```ts
+ * const presentation = await paywallPresenter.getPresentation('home_banner');
+ * if (presentation) {
+ *   router.push({
+ *     pathname: '/paywall',
+ *     params: { placement: presentation.placementId },
+ *   });
+ * }
+ * ```
+ */
+export function createPaywallPresenter(
+  config: PaywallPresenterConfig = {}
+): PaywallPresenter {
+  const {
+    storageKey = PAYWALL_PLACEMENTS_KEY,
+    getPlacement = getPaywallPlacement,
+    logger,
+    now = () => new Date(),
+  } = config;
+
+  let placements: StoredPlacements | null = null;
+  // Writes run one at a time so concurrent events are not lost
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function load(): Promise<StoredPlacements> {
+    if (placements) {
+      return placements;
+    }
+    try {
+      const raw = await AsyncStorage.getItem(storageKey);
+      placements = toStoredPlacements(raw === null ? null : JSON.parse(raw));
+    } catch (error) {
+      logger?.('warn', 'Failed to read paywall placement history', {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      placements = {};
+    }
+    return placements;
+  }
+
+  function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = queue.then(task, task);
+    queue = next.catch(() => undefined);
+    return next;
+  }
+
+  async function readPlacement(placementId: string): Promise<StoredPlacement> {
+    const stored = await enqueue(load);
+    return stored[placementId] ?? EMPTY_PLACEMENT;
+  }
+
+  function applyEvent(
+    placementId: string,
+    current: StoredPlacement,
+    event: PaywallPlacementEvent
+  ): StoredPlacement {
+    switch (event) {
+      case 'impression':
+        return {
+          ...current,
+          impressions: current.impressions + 1,
+          recentImpressions: [
+            ...current.recentImpressions,
+            now().toISOString(),
+          ].slice(-getImpressionHistorySize(getPlacement(placementId))),
+        };
+      case 'dismissal':
+        return { ...current, dismissals: current.dismissals + 1 };
+      case 'conversion':
+        return { ...current, conversions: current.conversions + 1 };
+    }
+  }
+
+  return {
+    async getPresentation(
+      placementId: string
+    ): Promise<PaywallPresentation | null> {
+      const definition = getPlacement(placementId);
+      const { recentImpressions } = await readPlacement(placementId);
+
+      if (
+        isFrequencyCapped(
+          definition.frequencyCap,
+          recentImpressions.map((shownAt) => new Date(shownAt)),
+          now()
+        )
+      ) {
+        logger?.('debug', 'Paywall placement frequency capped', {
+          placementId,
+        });
+        return null;
+      }
+
+      return { placementId, offeringId: definition.offeringId ?? null };
+    },
+
+    async record(
+      placementId: string,
+      event: PaywallPlacementEvent
+    ): Promise<void> {
+      try {
+        await enqueue(async () => {
+          const stored = await load();
+          const next = {
+            ...stored,
+            [placementId]: applyEvent(
+              placementId,
+              stored[placementId] ?? EMPTY_PLACEMENT,
+              event
+            ),
+          };
+          await AsyncStorage.setItem(storageKey, JSON.stringify(next));
+          placements = next;
+        });
+        logger?.('info', 'Recorded paywall placement event', {
+          placementId,
+          event,
+        });
+      } catch (error) {
+        logger?.('error', 'Failed to record paywall placement event', {
+          placementId,
+          event,
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+
+    async getStats(placementId: string): Promise<PaywallPlacementStats> {
+      const { impressions, dismissals, conversions, recentImpressions } =
+        await readPlacement(placementId);
+      const lastShownAt = recentImpressions[recentImpressions.length - 1];
+
+      return {
+        impressions,
+        dismissals,
+        conversions,
+        lastImpressionAt: lastShownAt ? new Date(lastShownAt) : null,
+      };
+    },
+
+    reset(): Promise<void> {
+      return enqueue(async () => {
+        placements = {};
+        await AsyncStorage.removeItem(storageKey);
+      });
+    },
+  };
+}
+
+/**
+ * Default paywall presenter using the configured placements.
+ */
+export const paywallPresenter: PaywallPresenter = createPaywallPresenter();
@@ -0,0 +1,124 @@
+/**
+ * Subscription Pricing
+ *
+ * Pure helpers for presenting SubscriptionPackage pricing on upgrade screens.
+ * Keeps price comparison and period formatting out of UI components so they
+ * can be unit-tested without rendering.
+ *
+ * @module features/subscription/core/pricing
+ */
+
+import type { SubscriptionPackage, SubscriptionPackageType } from './types';
+
+/**
+ * Billing period labels used in "per period" price strings.
+ */
+const BILLING_PERIOD_LABELS: Partial<Record<SubscriptionPackageType, string>> =
+  {
+    WEEKLY: 'week',
+    MONTHLY: 'month',
+    TWO_MONTH: '2 months',
+    THREE_MONTH: '3 months',
+    SIX_MONTH: '6 months',
+    ANNUAL: 'year',
+  };
+
+/**
+ * ISO 8601 duration unit designators mapped to readable unit names.
+ */
+const ISO_PERIOD_UNITS: Record<string, string> = {
+  D: 'day',
+  W: 'week',
+  M: 'month',
+  Y: 'year',
+};
+
+/**
+ * Get the billing period label for a package type.
+ *
+ * @param packageType - Package duration type
+ * @returns Period label (e.g., "month", "year") or null for non-recurring packages
+ *
+ * @example
+ * ```ts
+ * formatBillingPeriod('ANNUAL'); // 'year'
+ * formatBillingPeriod('LIFETIME'); // null
+ * ```
+ */
+export function formatBillingPeriod(
+  packageType: SubscriptionPackageType
+): string | null {
+  return BILLING_PERIOD_LABELS[packageType] ?? null;
+}
+
+/**
+ * Format an ISO 8601 duration (as returned by RevenueCat) for display.
+ *
+ * @param period - ISO 8601 duration (e.g., "P1W", "P3M")
+ * @returns Readable duration (e.g., "1 week", "3 months"), or the input if unparseable
+ *
+ * @example
+ * ```ts
+ * formatIsoPeriod('P1W'); // '1 week'
+ * formatIsoPeriod('P3M'); // '3 months'
+ * ```
+ */
+export function formatIsoPeriod(period: string): string {
+  const match = /^P(\d+)([DWMY])$/.exec(period);
+
+  if (!match) {
+    return period;
+  }
+
+  const value = Number(match[1]);
+  const unit = ISO_PERIOD_UNITS[match[2]];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Describe a package's introductory offer.
+ *
+ * @param pkg - Subscription package
+ * @returns Offer description (e.g., "1 week free", "$0.99 for 1 month") or null if none
+ */
+export function formatIntroOffer(pkg: SubscriptionPackage): string | null {
+  if (!pkg.introPrice) {
+    return null;
+  }
+
+  const duration = formatIsoPeriod(pkg.introPrice.period);
+
+  if (pkg.introPrice.price === 0) {
+    return `${duration} free`;
+  }
+
+  return `${pkg.introPrice.priceString} for ${duration}`;
+}
+
+/**
+ * Calculate how much the annual package saves compared to paying monthly.
+ *
+ * @param packages - Packages from the current offering
+ * @returns Whole-number savings percentage, or null if there is no annual/monthly pair or no saving
+ *
+ * @example
+ * ```ts
+ * // Monthly $9.99, Annual $99.99
+ * getAnnualSavingsPercent(packages); // 17
+ * ```
+ */
+export function getAnnualSavingsPercent(
+  packages: SubscriptionPackage[]
+): number | null {
+  const annual = packages.find((pkg) => pkg.packageType === 'ANNUAL');
+  const monthly = packages.find((pkg) => pkg.packageType === 'MONTHLY');
+
+  if (!annual || !monthly || monthly.price <= 0) {
+    return null;
+  }
+
+  const yearlyAtMonthlyRate = monthly.price * 12;
+  const savings = Math.round((1 - annual.price / yearlyAtMonthlyRate) * 100);
+
+  return savings > 0 ? savings : null;
+}
@@ -0,0 +1,252 @@
+/**
+ * Receipt Verifier
+ *
+ * Optional server-side check of purchases before the app trusts them.
+ * The SDK's view of a purchase can be tampered with on the device; a
+ * verifier asks the app's backend (which can query RevenueCat's REST API
+ * or the stores directly) to confirm it first.
+ *
+ * This module is responsible for:
+ * - Defining the ReceiptVerifier interface used by the subscription service
+ * - POSTing verification requests to a verifier endpoint (createHttpReceiptVerifier)
+ * - Providing a local mock verifier for tests and development (createMockReceiptVerifier)
+ *
+ * @module features/subscription/core/receipt-verifier
+ */
+
+import type { Result, SubscriptionError } from './types';
+
+/**
+ * Why a subscription is being verified.
+ * - 'purchase': A package or product was just purchased
+ * - 'restore': Purchases were restored
+ * - 'refresh': A fetch (or log in) returned a paid subscription not verified yet
+ * - 'update': RevenueCat pushed a paid subscription not verified yet
+ */
+export type ReceiptVerificationReason =
+  | 'purchase'
+  | 'restore'
+  | 'refresh'
+  | 'update';
+
+/**
+ * Request body sent to the verifier.
+ */
+export interface ReceiptVerificationRequest {
+  /** App user id the purchase belongs to (logged in or anonymous) */
+  appUserId: string;
+  /** Purchased product (Subscription.productId) */
+  productId: string;
+  /** Store transaction id (product purchases only; null otherwise) */
+  transactionId: string | null;
+  reason: ReceiptVerificationReason;
+}
+
+/**
+ * Server-side purchase check.
+ * Resolves to success once the purchase is confirmed, or to
+ * RECEIPT_VERIFICATION_FAILED when the verifier rejects it.
+ */
+export interface ReceiptVerifier {
+  verify(
+    request: ReceiptVerificationRequest
+  ): Promise<Result<void, SubscriptionError>>;
+}
+
+/**
+ * Minimal fetch signature used by the HTTP verifier.
+ */
+export type ReceiptVerifierFetch = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/**
+ * HTTP verifier configuration.
+ */
+export interface HttpReceiptVerifierConfig {
+  /** Verifier endpoint */
+  url: string;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: ReceiptVerifierFetch;
+}
+
+/**
+ * Get the verifier endpoint from the environment.
+ *
+ * Expo only inlines EXPO_PUBLIC_ variables read with static dot access.
+ *
+ * @returns Endpoint URL, or null if EXPO_PUBLIC_RECEIPT_VERIFIER_URL is not set
+ */
+export function getReceiptVerifierUrl(): string | null {
+  return process.env.EXPO_PUBLIC_RECEIPT_VERIFIER_URL || null;
+}
+
+function verificationFailed(message: string): SubscriptionError {
+  return { code: 'RECEIPT_VERIFICATION_FAILED', message, retryable: false };
+}
+
+/**
+ * Create a verifier that POSTs the ReceiptVerificationRequest as JSON and
+ * expects `{ verified: boolean }`.
+ *
+ * Unreachable endpoints fail with NETWORK_ERROR and 5xx responses with
+ * UNEXPECTED_BACKEND_RESPONSE_ERROR (both retryable); a rejection, a 4xx
+ * response or an unexpected body fail with RECEIPT_VERIFICATION_FAILED.
+ *
+ * @param config - Verifier configuration
+ * @returns ReceiptVerifier
+ *
+ * @example
+ * ```ts
+ * const verifierUrl = getReceiptVerifierUrl();
+ * const service = createSubscriptionService({
+ *   repository: subscriptionRepository,
+ *   verifier: verifierUrl
+ *     ? createHttpReceiptVerifier({ url: verifierUrl })
+ *     : undefined,
+ * });
+ * ```
+ */
+export function createHttpReceiptVerifier(
+  config: HttpReceiptVerifierConfig
+): ReceiptVerifier {
+  const { url, fetch: fetchImpl = fetch as ReceiptVerifierFetch } = config;
+
+  return {
+    async verify(
+      request: ReceiptVerificationRequest
+    ): Promise<Result<void, SubscriptionError>> {
+      let response: Awaited<ReturnType<ReceiptVerifierFetch>>;
+      try {
+        response = await fetchImpl(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+      } catch (error) {
+        return {
+          success: false,
+          error: {
+            code: 'NETWORK_ERROR',
+            message:
+              error instanceof Error ? error.message : 'Network request failed',
+            retryable: true,
+          },
+        };
+      }
+
+      if (response.status >= 500) {
+        return {
+          success: false,
+          error: {
+            code: 'UNEXPECTED_BACKEND_RESPONSE_ERROR',
+            message: `Receipt verifier failed with status ${response.status}`,
+            retryable: true,
+          },
+        };
+      }
+      if (!response.ok) {
+        return {
+          success: false,
+          error: verificationFailed(
+            `Receipt verifier rejected the request with status ${response.status}`
+          ),
+        };
+      }
+
+      let body: unknown;
+      try {
+        body = await response.json();
+      } catch {
+        body = null;
+      }
+      const verified = (body as { verified?: unknown } | null)?.verified;
+      if (verified !== true) {
+        return {
+          success: false,
+          error: verificationFailed(
+            verified === false
+              ? 'Purchase could not be verified'
+              : 'Receipt verifier returned an unexpected response'
+          ),
+        };
+      }
+
+      return { success: true, data: undefined };
+    },
+  };
+}
+
+/**
+ * Outcome the mock verifier returns.
+ * - 'verified': Confirm every purchase
+ * - 'rejected': Fail with RECEIPT_VERIFICATION_FAILED
+ * - 'unreachable': Fail with NETWORK_ERROR
+ */
+export type MockReceiptVerdict = 'verified' | 'rejected' | 'unreachable';
+
+/**
+ * Local verifier with controls for tests and development.
+ */
+export interface MockReceiptVerifier extends ReceiptVerifier {
+  /** Requests received so far, oldest first */
+  readonly requests: readonly ReceiptVerificationRequest[];
+  /** Change the outcome of later requests */
+  setVerdict(verdict: MockReceiptVerdict): void;
+}
+
+/**
+ * Create a mock verifier that answers locally.
+ *
+ * @param verdict - Initial outcome (defaults to 'verified')
+ * @returns MockReceiptVerifier
+ *
+ * @example
+ * ```ts
+ * const verifier = createMockReceiptVerifier('rejected');
+ * const service = createSubscriptionService({ repository, verifier });
+ *
+ * await service.purchasePackage('$rc_monthly'); // RECEIPT_VERIFICATION_FAILED
+ * verifier.requests[0].productId; // 'monthly_plan'
+ * ```
+ */
+export function createMockReceiptVerifier(
+  verdict: MockReceiptVerdict = 'verified'
+): MockReceiptVerifier {
+  let current = verdict;
+  const requests: ReceiptVerificationRequest[] = [];
+
+  return {
+    requests,
+
+    setVerdict(next: MockReceiptVerdict): void {
+      current = next;
+    },
+
+    async verify(
+      request: ReceiptVerificationRequest
+    ): Promise<Result<void, SubscriptionError>> {
+      requests.push(request);
+
+      switch (current) {
+        case 'verified':
+          return { success: true, data: undefined };
+        case 'rejected':
+          return {
+            success: false,
+            error: verificationFailed('[Mock] Purchase could not be verified'),
+          };
+        case 'unreachable':
+          return {
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: '[Mock] Receipt verifier is unreachable',
+              retryable: true,
+            },
+          };
+      }
+    },
+  };
+}
@@ -5,24 +5,47 @@
  * Converts external API responses to domain entities and errors.
  *
  * Responsibilities:
- * - Call RevenueCat SDK APIs (getCustomerInfo, getOfferings, purchasePackage, restorePurchases)
+ * - Call RevenueCat SDK APIs (getCustomerInfo, getOfferings, purchasePackage, restorePurchases, logIn, logOut, getAppUserID)
+ * - Purchase non-subscription products (consumables and lifetime unlocks)
+ * - Check intro offer eligibility, list promotional / win-back offers and purchase with them
+ * - Present the store's offer code redemption flow
+ * - Open subscription management and begin refund requests
+ * - Forward RevenueCat customer-info updates as Subscription changes
  * - Convert CustomerInfo to Subscription domain entity
  * - Map RevenueCat errors to domain errors (SubscriptionError)
  *
  * @module features/subscription/core/repository
  */
 
+import { Linking, Platform } from 'react-native';
 import Purchases, {
+  INTRO_ELIGIBILITY_STATUS,
+  PRODUCT_CATEGORY,
   PURCHASES_ERROR_CODE,
+  REFUND_REQUEST_STATUS,
   type CustomerInfo as SDKCustomerInfo,
+  type CustomerInfoUpdateListener,
+  type MakePurchaseResult,
+  type PurchasesOffering,
+  type PurchasesPackage as SDKPurchasesPackage,
 } from 'react-native-purchases';
 import type {
+  EntitlementRegistry,
+  IntroEligibility,
+  PackagePurchase,
+  ProductPurchase,
+  RefundRequestStatus,
   Subscription,
   SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionOfferType,
   SubscriptionPackage,
+  SubscriptionPackageType,
   Result,
 } from './types';
-import { PREMIUM_ENTITLEMENT_ID, DEFAULT_FREE_SUBSCRIPTION } from './types';
+import { getManageSubscriptionsUrl } from './billing';
+import { DEFAULT_FREE_SUBSCRIPTION } from './types';
+import { getEntitlementRegistry, resolveTier } from './entitlements';
 
 /**
  * Type guard for RevenueCat SDK errors.
@@ -60,37 +83,98 @@ function handleError(error: unknown): SubscriptionError {
   };
 }
 
+/**
+ * Parse an optional ISO 8601 date string from RevenueCat.
+ */
+function toDate(value: string | null): Date | null {
+  return value ? new Date(value) : null;
+}
+
 /**
  * Convert RevenueCat CustomerInfo to domain Subscription entity.
  *
+ * The tier is resolved from the entitlement registry: when several mapped
+ * entitlements are active, the highest-ranked tier wins.
+ *
  * @param customerInfo - CustomerInfo from RevenueCat SDK
+ * @param registry - Entitlement registry (defaults to the configured registry)
  * @returns Subscription domain entity
  *
  * @example
  * ```ts
  * const customerInfo = await Purchases.getCustomerInfo();
  * const subscription = toSubscription(customerInfo);
- * console.log(subscription.tier); // 'free' or 'premium'
+ * console.log(subscription.tier); // 'free' or a paid tier such as 'premium'
  * ```
  */
-export function toSubscription(customerInfo: SDKCustomerInfo): Subscription {
-  const premiumEntitlement =
-    customerInfo.entitlements.active[PREMIUM_ENTITLEMENT_ID];
+export function toSubscription(
+  customerInfo: SDKCustomerInfo,
+  registry: EntitlementRegistry = getEntitlementRegistry()
+): Subscription {
+  const { active } = customerInfo.entitlements;
+  const activeEntitlementIds = Object.keys(active).filter(
+    (id) => active[id].isActive
+  );
+  const tierDefinition = resolveTier(activeEntitlementIds, registry);
 
-  if (!premiumEntitlement || !premiumEntitlement.isActive) {
+  if (!tierDefinition) {
     return DEFAULT_FREE_SUBSCRIPTION;
   }
 
+  const entitlement = active[tierDefinition.entitlementId];
+  // RevenueCat reports 'TRIAL' / 'INTRO' (case varies across SDK versions)
+  const periodType = entitlement.periodType?.toUpperCase();
+
   return {
     isActive: true,
-    tier: 'premium',
-    expiresAt: premiumEntitlement.expirationDate
-      ? new Date(premiumEntitlement.expirationDate)
-      : null,
-    productId: premiumEntitlement.productIdentifier,
+    tier: tierDefinition.tier,
+    expiresAt: toDate(entitlement.expirationDate),
+    productId: entitlement.productIdentifier,
+    willRenew: entitlement.willRenew === true,
+    isTrialPeriod: periodType === 'TRIAL' || periodType === 'INTRO',
+    billingIssueDetectedAt: toDate(entitlement.billingIssueDetectedAt),
+    cancelledAt: toDate(entitlement.unsubscribeDetectedAt),
+  };
+}
+
+/**
+ * Convert a RevenueCat package purchase to a PackagePurchase.
+ */
+function toPackagePurchase({
+  customerInfo,
+  transaction,
+}: MakePurchaseResult): PackagePurchase {
+  return {
+    subscription: toSubscription(customerInfo),
+    transactionId: transaction.transactionIdentifier,
   };
 }
 
+/**
+ * Latest store transaction for a product in CustomerInfo. Restores return
+ * no transaction of their own, so the verifier gets this one instead.
+ */
+function findLatestTransactionId(
+  customerInfo: SDKCustomerInfo,
+  productId: string | null
+): string | null {
+  if (productId === null) {
+    return null;
+  }
+
+  const subscriptionInfo =
+    customerInfo.subscriptionsByProductIdentifier?.[productId];
+  if (subscriptionInfo?.storeTransactionId) {
+    return subscriptionInfo.storeTransactionId;
+  }
+
+  // Lifetime unlocks are non-subscription transactions
+  const latest = (customerInfo.nonSubscriptionTransactions ?? [])
+    .filter((transaction) => transaction.productIdentifier === productId)
+    .sort((a, b) => Date.parse(b.purchaseDate) - Date.parse(a.purchaseDate))[0];
+  return latest?.transactionIdentifier ?? null;
+}
+
 /**
  * Map RevenueCat PurchasesError to domain SubscriptionError.
  *
@@ -188,6 +272,43 @@ export function toSubscriptionError(error: {
         retryable: false,
       };
 
+    case PURCHASES_ERROR_CODE.OPERATION_ALREADY_IN_PROGRESS_ERROR:
+      return {
+        code: 'OPERATION_IN_PROGRESS',
+        message,
+        retryable: false,
+      };
+
+    case PURCHASES_ERROR_CODE.INVALID_APP_USER_ID_ERROR:
+      return {
+        code: 'INVALID_APP_USER_ID',
+        message,
+        retryable: false,
+      };
+
+    case PURCHASES_ERROR_CODE.INELIGIBLE_ERROR:
+      return {
+        code: 'INELIGIBLE_FOR_OFFER',
+        message,
+        retryable: false,
+      };
+
+    case PURCHASES_ERROR_CODE.INVALID_PROMOTIONAL_OFFER_ERROR:
+    case PURCHASES_ERROR_CODE.PRODUCT_DISCOUNT_MISSING_IDENTIFIER_ERROR:
+    case PURCHASES_ERROR_CODE.PRODUCT_DISCOUNT_MISSING_SUBSCRIPTION_GROUP_IDENTIFIER_ERROR:
+      return {
+        code: 'INVALID_OFFER',
+        message,
+        retryable: false,
+      };
+
+    case PURCHASES_ERROR_CODE.UNSUPPORTED_ERROR:
+      return {
+        code: 'OPERATION_NOT_SUPPORTED',
+        message,
+        retryable: false,
+      };
+
     default:
       return {
         code: 'UNKNOWN_ERROR',
@@ -197,6 +318,27 @@ export function toSubscriptionError(error: {
   }
 }
 
+/**
+ * Package types known to the domain. Anything else maps to 'UNKNOWN'.
+ */
+const PACKAGE_TYPES: readonly SubscriptionPackageType[] = [
+  'WEEKLY',
+  'MONTHLY',
+  'TWO_MONTH',
+  'THREE_MONTH',
+  'SIX_MONTH',
+  'ANNUAL',
+  'LIFETIME',
+  'CUSTOM',
+];
+
+/**
+ * Convert RevenueCat PACKAGE_TYPE string to domain SubscriptionPackageType.
+ */
+function toPackageType(packageType: string): SubscriptionPackageType {
+  return PACKAGE_TYPES.find((type) => type === packageType) ?? 'UNKNOWN';
+}
+
 /**
  * Convert RevenueCat Package to domain SubscriptionPackage.
  *
@@ -205,6 +347,7 @@ export function toSubscriptionError(error: {
  */
 function toSubscriptionPackage(pkg: {
   identifier: string;
+  packageType: string;
   product: {
     title: string;
     price: number;
@@ -221,6 +364,7 @@ function toSubscriptionPackage(pkg: {
 
   return {
     identifier,
+    packageType: toPackageType(pkg.packageType),
     title: product.title,
     priceString: product.priceString,
     price: product.price,
@@ -235,6 +379,195 @@ function toSubscriptionPackage(pkg: {
   };
 }
 
+/**
+ * Convert RevenueCat INTRO_ELIGIBILITY_STATUS to domain IntroEligibility.
+ */
+function toIntroEligibility(
+  status: INTRO_ELIGIBILITY_STATUS
+): IntroEligibility {
+  switch (status) {
+    case INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_ELIGIBLE:
+      return 'eligible';
+    case INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_INELIGIBLE:
+      return 'ineligible';
+    case INTRO_ELIGIBILITY_STATUS.INTRO_ELIGIBILITY_STATUS_NO_INTRO_OFFER_EXISTS:
+      return 'no_intro_offer';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Convert a RevenueCat product discount or win-back offer to a SubscriptionOffer.
+ */
+function toSubscriptionOffer(
+  offer: {
+    identifier: string;
+    price: number;
+    priceString: string;
+    cycles: number;
+    period: string;
+  },
+  type: SubscriptionOfferType
+): SubscriptionOffer {
+  return {
+    identifier: offer.identifier,
+    type,
+    priceString: offer.priceString,
+    price: offer.price,
+    period: offer.period,
+    cycles: offer.cycles,
+  };
+}
+
+/**
+ * Error returned when an offer is not listed for the package.
+ */
+function offerNotFound(
+  packageId: string,
+  offer: SubscriptionOffer
+): SubscriptionError {
+  return {
+    code: 'INVALID_OFFER',
+    message: `Offer not found for ${packageId}: ${offer.identifier}`,
+    retryable: false,
+  };
+}
+
+/**
+ * Find a package in the current offering, or in the given one.
+ *
+ * @param packageId - Package identifier (e.g., "$rc_monthly")
+ * @param offeringId - Offering identifier (defaults to the current offering)
+ * @returns Result with the SDK package, or UNKNOWN_ERROR if it is not offered
+ */
+async function findPackage(
+  packageId: string,
+  offeringId?: string
+): Promise<Result<SDKPurchasesPackage, SubscriptionError>> {
+  const offerings = await Purchases.getOfferings();
+  const offering = offeringId ? offerings.all[offeringId] : offerings.current;
+
+  if (!offering) {
+    return {
+      success: false,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: offeringId
+          ? `Package not found: Offering ${offeringId} not available`
+          : 'Package not found: No offerings available',
+        retryable: false,
+      },
+    };
+  }
+
+  const pkg = offering.availablePackages.find(
+    (p) => p.identifier === packageId
+  );
+
+  if (!pkg) {
+    return {
+      success: false,
+      error: {
+        code: 'UNKNOWN_ERROR',
+        message: `Package not found: ${packageId}`,
+        retryable: false,
+      },
+    };
+  }
+
+  return { success: true, data: pkg };
+}
+
+/**
+ * Win-back offers the customer is eligible for (iOS only).
+ */
+async function getWinBackOffers(pkg: SDKPurchasesPackage) {
+  return Platform.OS === 'ios'
+    ? Purchases.getEligibleWinBackOffersForPackage(pkg)
+    : [];
+}
+
+/**
+ * Error returned when the current platform has no store for an action.
+ */
+function notSupportedOn(action: string): SubscriptionError {
+  return {
+    code: 'OPERATION_NOT_SUPPORTED',
+    message: `${action} is not supported on ${Platform.OS}`,
+    retryable: false,
+  };
+}
+
+/**
+ * Play Store page that redeems a promo code.
+ */
+const PLAY_STORE_REDEEM_URL = 'https://play.google.com/redeem';
+
+/**
+ * Unconverted RevenueCat state, for debugging what the SDK returned.
+ */
+export interface CustomerInfoSnapshot {
+  /** CustomerInfo exactly as returned by the SDK */
+  customerInfo: SDKCustomerInfo;
+  /** Current RevenueCat app user id (anonymous ids start with $RCAnonymousID) */
+  appUserId: string;
+}
+
+/**
+ * Fetch the raw CustomerInfo and app user id without converting them.
+ * Debug tooling only; app code should use subscriptionRepository.getCustomerInfo.
+ *
+ * @returns Result with CustomerInfoSnapshot on success or SubscriptionError on failure
+ */
+export async function getCustomerInfoSnapshot(): Promise<
+  Result<CustomerInfoSnapshot, SubscriptionError>
+> {
+  try {
+    const [customerInfo, appUserId] = await Promise.all([
+      Purchases.getCustomerInfo(),
+      Purchases.getAppUserID(),
+    ]);
+    return { success: true, data: { customerInfo, appUserId } };
+  } catch (error) {
+    return { success: false, error: handleError(error) };
+  }
+}
+
+/**
+ * Discard RevenueCat's cached CustomerInfo so the next fetch hits the network.
+ * Debug tooling only.
+ *
+ * @returns Result with void on success or SubscriptionError on failure
+ */
+export async function invalidateCustomerInfoCache(): Promise<
+  Result<void, SubscriptionError>
+> {
+  try {
+    await Purchases.invalidateCustomerInfoCache();
+    return { success: true, data: undefined };
+  } catch (error) {
+    return { success: false, error: handleError(error) };
+  }
+}
+
+/**
+ * Fetch a RevenueCat offering by identifier, for the RevenueCat Paywall UI.
+ *
+ * @param offeringId - Offering identifier configured in the dashboard
+ * @returns Result with the offering (null if it does not exist) or SubscriptionError on failure
+ */
+export async function getOffering(
+  offeringId: string
+): Promise<Result<PurchasesOffering | null, SubscriptionError>> {
+  try {
+    const offerings = await Purchases.getOfferings();
+    return { success: true, data: offerings.all[offeringId] ?? null };
+  } catch (error) {
+    return { success: false, error: handleError(error) };
+  }
+}
+
 /**
  * Subscription Repository interface for accessing RevenueCat SDK.
  *
@@ -281,60 +614,421 @@ export const subscriptionRepository = {
     }
   },
 
+  /**
+   * Get the packages of an offering by identifier, e.g. a paywall
+   * placement's offering. Intro prices the user is not eligible for are
+   * removed.
+   *
+   * @param offeringId - Offering identifier configured in the dashboard
+   * @returns Result with the packages (null if the offering does not exist) or SubscriptionError on failure
+   */
+  async getOfferingPackages(
+    offeringId: string
+  ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>> {
+    const offering = await getOffering(offeringId);
+    if (!offering.success) {
+      return offering;
+    }
+    if (offering.data === null) {
+      return { success: true, data: null };
+    }
+
+    try {
+      const { availablePackages } = offering.data;
+      const statuses = await Purchases.checkTrialOrIntroductoryPriceEligibility(
+        availablePackages.map((pkg) => pkg.product.identifier)
+      );
+
+      const packages = availablePackages.map((pkg) => {
+        const converted = toSubscriptionPackage(pkg);
+        const status = statuses[pkg.product.identifier]?.status;
+        if (
+          status === undefined ||
+          toIntroEligibility(status) !== 'ineligible'
+        ) {
+          return converted;
+        }
+        const { introPrice: _ineligible, ...rest } = converted;
+        return rest;
+      });
+
+      return { success: true, data: packages };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
   /**
    * Purchase a subscription package.
    *
    * @param packageId - Package identifier (e.g., "$rc_monthly", "$rc_annual")
-   * @returns Result with updated Subscription on success or SubscriptionError on failure
+   * @param offeringId - Offering the package belongs to (defaults to the current offering)
+   * @returns Result with the PackagePurchase on success or SubscriptionError on failure
    *
    * @example
    * ```ts
    * const result = await subscriptionRepository.purchasePackage('$rc_monthly');
    * if (result.success) {
-   *   console.log('Purchased:', result.data.tier); // 'premium'
+   *   console.log('Purchased:', result.data.subscription.tier); // 'premium'
    * } else if (result.error.code === 'PURCHASE_CANCELLED') {
    *   // User cancelled, don't show error
    * }
    * ```
    */
   async purchasePackage(
-    packageId: string
-  ): Promise<Result<Subscription, SubscriptionError>> {
+    packageId: string,
+    offeringId?: string
+  ): Promise<Result<PackagePurchase, SubscriptionError>> {
     try {
-      // First, get the offerings to find the package
-      const offerings = await Purchases.getOfferings();
+      const found = await findPackage(packageId, offeringId);
+      if (!found.success) {
+        return found;
+      }
 
-      if (!offerings.current) {
+      // Purchase the package
+      const purchase = await Purchases.purchasePackage(found.data);
+
+      return { success: true, data: toPackagePurchase(purchase) };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Purchase a non-subscription product: a consumable or a lifetime unlock.
+   * Lifetime unlocks grant their entitlement, so the returned Subscription
+   * reflects them (with expiresAt null).
+   *
+   * @param productId - Store product identifier (e.g., "export_pack_10")
+   * @returns Result with the ProductPurchase on success or SubscriptionError on failure
+   *
+   * @example
+   * ```ts
+   * const result = await subscriptionRepository.purchaseProduct('export_pack_10');
+   * if (result.success) {
+   *   grantCredits(result.data.transactionId);
+   * }
+   * ```
+   */
+  async purchaseProduct(
+    productId: string
+  ): Promise<Result<ProductPurchase, SubscriptionError>> {
+    try {
+      const [product] = await Purchases.getProducts(
+        [productId],
+        PRODUCT_CATEGORY.NON_SUBSCRIPTION
+      );
+
+      if (!product) {
         return {
           success: false,
           error: {
             code: 'UNKNOWN_ERROR',
-            message: 'Package not found: No offerings available',
+            message: `Product not found: ${productId}`,
             retryable: false,
           },
         };
       }
 
-      const pkg = offerings.current.availablePackages.find(
-        (p) => p.identifier === packageId
+      const { customerInfo, transaction } =
+        await Purchases.purchaseStoreProduct(product);
+
+      return {
+        success: true,
+        data: {
+          productId: transaction.productIdentifier,
+          transactionId: transaction.transactionIdentifier,
+          subscription: toSubscription(customerInfo),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Check whether the user can get each package's introductory price.
+   * Packages that are not in the current offering are omitted.
+   *
+   * @param packageIds - Package identifiers to check
+   * @returns Result with IntroEligibility per package identifier or SubscriptionError on failure
+   *
+   * @example
+   * ```ts
+   * const result = await subscriptionRepository.getIntroEligibility(['$rc_monthly']);
+   * if (result.success && result.data['$rc_monthly'] === 'ineligible') {
+   *   // Don't advertise the free trial
+   * }
+   * ```
+   */
+  async getIntroEligibility(
+    packageIds: string[]
+  ): Promise<Result<Record<string, IntroEligibility>, SubscriptionError>> {
+    try {
+      const offerings = await Purchases.getOfferings();
+      const packages = (offerings.current?.availablePackages ?? []).filter(
+        (pkg) => packageIds.includes(pkg.identifier)
+      );
+
+      if (packages.length === 0) {
+        return { success: true, data: {} };
+      }
+
+      const statuses = await Purchases.checkTrialOrIntroductoryPriceEligibility(
+        packages.map((pkg) => pkg.product.identifier)
       );
 
-      if (!pkg) {
+      const eligibility: Record<string, IntroEligibility> = {};
+      for (const pkg of packages) {
+        const status = statuses[pkg.product.identifier]?.status;
+        eligibility[pkg.identifier] =
+          status === undefined ? 'unknown' : toIntroEligibility(status);
+      }
+
+      return { success: true, data: eligibility };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * List the discount offers for a package: the product's promotional offers
+   * and, on iOS 18+, the win-back offers the user is eligible for.
+   * Promotional offers are listed for everyone; the store decides eligibility
+   * when the offer is purchased.
+   *
+   * @param packageId - Package identifier (e.g., "$rc_monthly")
+   * @returns Result with SubscriptionOffer array or SubscriptionError on failure
+   */
+  async getOffers(
+    packageId: string
+  ): Promise<Result<SubscriptionOffer[], SubscriptionError>> {
+    try {
+      const found = await findPackage(packageId);
+      if (!found.success) {
+        return found;
+      }
+
+      const pkg = found.data;
+      const winBackOffers = await getWinBackOffers(pkg);
+
+      return {
+        success: true,
+        data: [
+          ...(pkg.product.discounts ?? []).map((discount) =>
+            toSubscriptionOffer(discount, 'promotional')
+          ),
+          ...winBackOffers.map((offer) =>
+            toSubscriptionOffer(offer, 'win_back')
+          ),
+        ],
+      };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Purchase a package with a promotional or win-back offer from getOffers.
+   *
+   * @param packageId - Package identifier (e.g., "$rc_monthly")
+   * @param offer - Offer to apply
+   * @returns Result with updated Subscription on success or SubscriptionError on failure
+   *   (INELIGIBLE_FOR_OFFER when the store refuses the offer for this user)
+   *
+   * @example
+   * ```ts
+   * const offers = await subscriptionRepository.getOffers('$rc_monthly');
+   * const winBack = offers.success
+   *   ? offers.data.find((offer) => offer.type === 'win_back')
+   *   : undefined;
+   * if (winBack) {
+   *   await subscriptionRepository.purchasePackageWithOffer('$rc_monthly', winBack);
+   * }
+   * ```
+   */
+  async purchasePackageWithOffer(
+    packageId: string,
+    offer: SubscriptionOffer
+  ): Promise<Result<PackagePurchase, SubscriptionError>> {
+    try {
+      const found = await findPackage(packageId);
+      if (!found.success) {
+        return found;
+      }
+
+      const pkg = found.data;
+
+      if (offer.type === 'win_back') {
+        const winBackOffer = (await getWinBackOffers(pkg)).find(
+          (candidate) => candidate.identifier === offer.identifier
+        );
+        if (!winBackOffer) {
+          return {
+            success: false,
+            error: {
+              code: 'INELIGIBLE_FOR_OFFER',
+              message: `Not eligible for win-back offer: ${offer.identifier}`,
+              retryable: false,
+            },
+          };
+        }
+        const purchase = await Purchases.purchasePackageWithWinBackOffer(
+          pkg,
+          winBackOffer
+        );
+        return { success: true, data: toPackagePurchase(purchase) };
+      }
+
+      const discount = pkg.product.discounts?.find(
+        (candidate) => candidate.identifier === offer.identifier
+      );
+      if (!discount) {
+        return { success: false, error: offerNotFound(packageId, offer) };
+      }
+
+      // RevenueCat signs the offer; it rejects users who are not eligible
+      const promotionalOffer = await Purchases.getPromotionalOffer(
+        pkg.product,
+        discount
+      );
+      if (!promotionalOffer) {
+        return {
+          success: false,
+          error: {
+            code: 'INELIGIBLE_FOR_OFFER',
+            message: `Not eligible for promotional offer: ${offer.identifier}`,
+            retryable: false,
+          },
+        };
+      }
+
+      const purchase = await Purchases.purchaseDiscountedPackage(
+        pkg,
+        promotionalOffer
+      );
+      return { success: true, data: toPackagePurchase(purchase) };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Open the store's offer code redemption flow.
+   * iOS presents the App Store sheet (the user enters the code there);
+   * Android opens the Play Store redeem page, prefilled with `code` if given.
+   * The redeemed subscription arrives later through addSubscriptionListener.
+   *
+   * @param code - Offer code to prefill (Android only)
+   * @returns Result with void once the flow is shown, or OPERATION_NOT_SUPPORTED on other platforms
+   */
+  async redeemOfferCode(
+    code?: string
+  ): Promise<Result<void, SubscriptionError>> {
+    try {
+      if (Platform.OS === 'ios') {
+        await Purchases.presentCodeRedemptionSheet();
+        return { success: true, data: undefined };
+      }
+
+      if (Platform.OS === 'android') {
+        await Linking.openURL(
+          code
+            ? `${PLAY_STORE_REDEEM_URL}?code=${encodeURIComponent(code)}`
+            : PLAY_STORE_REDEEM_URL
+        );
+        return { success: true, data: undefined };
+      }
+
+      return {
+        success: false,
+        error: notSupportedOn('Offer code redemption'),
+      };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Open the page where the user manages or cancels their subscription.
+   * Uses the management URL RevenueCat reports for the user's store, falling
+   * back to the platform store's subscriptions page.
+   *
+   * @returns Result with void once the page is opened, or OPERATION_NOT_SUPPORTED without a store
+   */
+  async openManagementUrl(): Promise<Result<void, SubscriptionError>> {
+    try {
+      const customerInfo = await Purchases.getCustomerInfo();
+      const url =
+        customerInfo.managementURL ?? getManageSubscriptionsUrl(Platform.OS);
+
+      if (!url) {
+        return {
+          success: false,
+          error: notSupportedOn('Subscription management'),
+        };
+      }
+
+      await Linking.openURL(url);
+      return { success: true, data: undefined };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Present the App Store refund request sheet for a purchased product (iOS only).
+   * A granted refund arrives later through addSubscriptionListener.
+   *
+   * @param productId - Store product identifier (Subscription.productId)
+   * @returns Result with RefundRequestStatus, or SubscriptionError if the sheet failed
+   *
+   * @example
+   * ```ts
+   * const result = await subscriptionRepository.beginRefundRequest('monthly_plan');
+   * if (result.success && result.data === 'submitted') {
+   *   // Apple reviews the request and notifies the user
+   * }
+   * ```
+   */
+  async beginRefundRequest(
+    productId: string
+  ): Promise<Result<RefundRequestStatus, SubscriptionError>> {
+    if (Platform.OS !== 'ios') {
+      return { success: false, error: notSupportedOn('Refund requests') };
+    }
+
+    try {
+      const [product] = await Purchases.getProducts([productId]);
+
+      if (!product) {
         return {
           success: false,
           error: {
             code: 'UNKNOWN_ERROR',
-            message: `Package not found: ${packageId}`,
+            message: `Product not found: ${productId}`,
             retryable: false,
           },
         };
       }
 
-      // Purchase the package
-      const { customerInfo } = await Purchases.purchasePackage(pkg);
-      const subscription = toSubscription(customerInfo);
+      const status = await Purchases.beginRefundRequestForProduct(product);
 
-      return { success: true, data: subscription };
+      switch (status) {
+        case REFUND_REQUEST_STATUS.SUCCESS:
+          return { success: true, data: 'submitted' };
+        case REFUND_REQUEST_STATUS.USER_CANCELLED:
+          return { success: true, data: 'cancelled' };
+        default:
+          return {
+            success: false,
+            error: {
+              code: 'UNKNOWN_ERROR',
+              message: `Refund request failed for ${productId}`,
+              retryable: false,
+            },
+          };
+      }
     } catch (error) {
       return { success: false, error: handleError(error) };
     }
@@ -343,20 +1037,20 @@ export const subscriptionRepository = {
   /**
    * Restore previous purchases.
    *
-   * @returns Result with Subscription if active subscription found, null if no active subscription, or SubscriptionError on failure
+   * @returns Result with the PackagePurchase if active subscription found, null if no active subscription, or SubscriptionError on failure
    *
    * @example
    * ```ts
    * const result = await subscriptionRepository.restorePurchases();
    * if (result.success && result.data) {
-   *   console.log('Restored:', result.data.tier); // 'premium'
+   *   console.log('Restored:', result.data.subscription.tier); // 'premium'
    * } else if (result.success && !result.data) {
    *   console.log('No active subscription found');
    * }
    * ```
    */
   async restorePurchases(): Promise<
-    Result<Subscription | null, SubscriptionError>
+    Result<PackagePurchase | null, SubscriptionError>
   > {
     try {
       const customerInfo = await Purchases.restorePurchases();
@@ -367,9 +1061,121 @@ export const subscriptionRepository = {
         return { success: true, data: null };
       }
 
-      return { success: true, data: subscription };
+      return {
+        success: true,
+        data: {
+          subscription,
+          transactionId: findLatestTransactionId(
+            customerInfo,
+            subscription.productId
+          ),
+        },
+      };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Identify the current user with an app user id.
+   * Purchases made while anonymous are transferred (aliased) to this user by RevenueCat.
+   *
+   * @param appUserId - Your app's stable user identifier (e.g., auth user id)
+   * @returns Result with the identified user's Subscription or SubscriptionError on failure
+   *
+   * @example
+   * ```ts
+   * const result = await subscriptionRepository.logIn(user.id);
+   * if (result.success) {
+   *   console.log('Tier for user:', result.data.tier);
+   * }
+   * ```
+   */
+  async logIn(
+    appUserId: string
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    if (appUserId.trim() === '') {
+      return {
+        success: false,
+        error: {
+          code: 'INVALID_APP_USER_ID',
+          message: 'App user id must not be empty',
+          retryable: false,
+        },
+      };
+    }
+
+    try {
+      const { customerInfo } = await Purchases.logIn(appUserId);
+      return { success: true, data: toSubscription(customerInfo) };
     } catch (error) {
       return { success: false, error: handleError(error) };
     }
   },
+
+  /**
+   * Log out the identified user; RevenueCat switches to a new anonymous user.
+   * Logging out while already anonymous is treated as success.
+   *
+   * @returns Result with the anonymous user's Subscription or SubscriptionError on failure
+   */
+  async logOut(): Promise<Result<Subscription, SubscriptionError>> {
+    try {
+      const customerInfo = await Purchases.logOut();
+      return { success: true, data: toSubscription(customerInfo) };
+    } catch (error) {
+      if (
+        isRevenueCatError(error) &&
+        error.code === PURCHASES_ERROR_CODE.LOG_OUT_WITH_ANONYMOUS_USER_ERROR
+      ) {
+        return subscriptionRepository.getCustomerInfo();
+      }
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Get the current RevenueCat app user id (the logged in user's id, or the
+   * anonymous id RevenueCat generated).
+   *
+   * @returns Result with the app user id or SubscriptionError on failure
+   */
+  async getAppUserId(): Promise<Result<string, SubscriptionError>> {
+    try {
+      return { success: true, data: await Purchases.getAppUserID() };
+    } catch (error) {
+      return { success: false, error: handleError(error) };
+    }
+  },
+
+  /**
+   * Subscribe to RevenueCat customer-info updates.
+   * RevenueCat calls the listener on renewals, refunds, expirations and
+   * purchases made on another device, as well as after its own fetches.
+   *
+   * @param listener - Called with the converted Subscription on every update
+   * @returns Unsubscribe function that removes the SDK listener
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = subscriptionRepository.addSubscriptionListener(
+   *   (subscription) => console.log('Updated:', subscription.tier)
+   * );
+   * // Later
+   * unsubscribe();
+   * ```
+   */
+  addSubscriptionListener(
+    listener: (subscription: Subscription) => void
+  ): () => void {
+    const sdkListener: CustomerInfoUpdateListener = (customerInfo) => {
+      listener(toSubscription(customerInfo));
+    };
+
+    Purchases.addCustomerInfoUpdateListener(sdkListener);
+
+    return () => {
+      Purchases.removeCustomerInfoUpdateListener(sdkListener);
+    };
+  },
 };
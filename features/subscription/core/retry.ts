@@ -0,0 +1,151 @@
+/**
+ * Retry Policy
+ *
+ * Retries repository calls that fail with a retryable SubscriptionError
+ * (NETWORK_ERROR, STORE_PROBLEM_ERROR, UNEXPECTED_BACKEND_RESPONSE_ERROR)
+ * using exponential backoff with full jitter.
+ *
+ * Purchases are deliberately not a RetryableOperation: a purchase must never
+ * be re-attempted without the user asking for it.
+ *
+ * @module features/subscription/core/retry
+ */
+
+import type { Result, SubscriptionError } from './types';
+
+/**
+ * Service operations that may be retried automatically.
+ */
+export type RetryableOperation =
+  | 'getSubscription'
+  | 'restorePurchases'
+  | 'getPackages'
+  | 'getOfferingPackages'
+  | 'checkIntroEligibility'
+  | 'getOffers'
+  | 'logIn'
+  | 'logOut'
+  | 'verifyReceipt';
+
+/**
+ * Retry policy for the subscription service.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first call (1 disables retries) */
+  maxAttempts: number;
+  /** Backoff before the first retry; doubles on each further retry */
+  baseDelayMs: number;
+  /** Upper bound for the backoff before jitter is applied */
+  maxDelayMs: number;
+  /** Operations that are never retried */
+  disabledOperations?: readonly RetryableOperation[];
+}
+
+/**
+ * Default policy: up to 3 attempts, 500ms → 1s backoff (with jitter), capped at 5s.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 5000,
+};
+
+/**
+ * Information about a retry that is about to happen.
+ */
+export interface RetryAttempt {
+  /** The attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt */
+  delayMs: number;
+  /** The retryable error that triggered the retry */
+  error: SubscriptionError;
+}
+
+/**
+ * Options for withRetry.
+ */
+export interface WithRetryOptions {
+  /** Retry policy to apply */
+  policy: RetryPolicy;
+  /** Called before waiting for each retry */
+  onRetry?: (retry: RetryAttempt) => void;
+  /** Wait implementation (injectable for testing) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random source in [0, 1) for jitter (injectable for testing) */
+  random?: () => number;
+}
+
+/**
+ * Outcome of withRetry: the final result and how many attempts were made.
+ */
+export interface RetryOutcome<T> {
+  result: Result<T, SubscriptionError>;
+  attempts: number;
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Compute the backoff before the retry that follows a failed attempt.
+ * Uses "full jitter": a random delay between 0 and the exponential cap.
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - Retry policy
+ * @param random - Random source in [0, 1)
+ * @returns Delay in milliseconds
+ *
+ * @example
+ * ```ts
+ * // base 500ms, cap 5s: attempt 1 → up to 500ms, attempt 2 → up to 1s
+ * const delay = getBackoffDelay(2, DEFAULT_RETRY_POLICY);
+ * ```
+ */
+export function getBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 1);
+  const capped = Math.min(policy.maxDelayMs, exponential);
+  return Math.floor(random() * capped);
+}
+
+/**
+ * Run an operation, retrying while it fails with a retryable error.
+ * Non-retryable errors and successes are returned immediately.
+ *
+ * @param operation - Operation returning a Result
+ * @param options - Policy and hooks
+ * @returns The final result and the number of attempts made
+ *
+ * @example
+ * ```ts
+ * const { result, attempts } = await withRetry(
+ *   () => repository.getCustomerInfo(),
+ *   { policy: DEFAULT_RETRY_POLICY }
+ * );
+ * ```
+ */
+export async function withRetry<T>(
+  operation: () => Promise<Result<T, SubscriptionError>>,
+  options: WithRetryOptions
+): Promise<RetryOutcome<T>> {
+  const { policy, onRetry, sleep = defaultSleep, random } = options;
+  const maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+
+  let attempt = 1;
+  let result = await operation();
+
+  while (!result.success && result.error.retryable && attempt < maxAttempts) {
+    const delayMs = getBackoffDelay(attempt, policy, random);
+    onRetry?.({ attempt, delayMs, error: result.error });
+    await sleep(delayMs);
+    attempt += 1;
+    result = await operation();
+  }
+
+  return { result, attempts: attempt };
+}
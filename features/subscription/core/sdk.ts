@@ -4,7 +4,7 @@
  * Handles RevenueCat SDK initialization with platform-specific API keys.
  * This module is responsible for:
  * - Reading API keys from environment variables
- * - Configuring the SDK with proper settings
+ * - Configuring the SDK with proper settings (optionally as a known app user)
  * - Enabling debug logging in development mode
  *
  * @module features/subscription/core/sdk
@@ -24,6 +24,17 @@ const ENV_KEY_GOOGLE = 'EXPO_PUBLIC_REVENUE_CAT_API_KEY_GOOGLE';
  */
 type SupportedPlatform = 'ios' | 'android';
 
+/**
+ * Options for configuring the SDK.
+ */
+export interface ConfigurePurchasesOptions {
+  /**
+   * App user id of the logged in user (e.g., restored from secure storage).
+   * When omitted or null, RevenueCat generates an anonymous user id.
+   */
+  appUserId?: string | null;
+}
+
 /**
  * Internal state to track if SDK has been configured
  */
@@ -105,9 +116,11 @@ function isSupportedPlatform(): boolean {
  * This function:
  * - Validates that the API key is present
  * - Configures the SDK with the platform-specific API key
+ * - Identifies the user up front when `appUserId` is given
  * - Enables DEBUG logging in development mode
  * - Is idempotent (safe to call multiple times)
  *
+ * @param options - Optional configuration (e.g., persisted app user id)
  * @throws Error if API key is missing for the current platform
  *
  * @example
@@ -120,7 +133,9 @@ function isSupportedPlatform(): boolean {
  * }
  * ```
  */
-export async function configurePurchases(): Promise<void> {
+export async function configurePurchases(
+  options: ConfigurePurchasesOptions = {}
+): Promise<void> {
   // Skip configuration on unsupported platforms (web)
   if (!isSupportedPlatform()) {
     return;
@@ -148,8 +163,11 @@ export async function configurePurchases(): Promise<void> {
     Purchases.setLogLevel(LOG_LEVEL.ERROR);
   }
 
-  // Configure the SDK
-  await Purchases.configure({ apiKey });
+  // Configure the SDK (anonymous unless an app user id is known)
+  const { appUserId } = options;
+  await Purchases.configure(
+    appUserId ? { apiKey, appUserID: appUserId } : { apiKey }
+  );
 
   _isConfigured = true;
 }
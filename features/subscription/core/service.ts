@@ -2,22 +2,39 @@
  * Subscription Service
  *
  * Application service layer that contains business logic for subscription management.
- * Implements Feature Gating and Usage Limits calculation based on subscription tier.
+ * Implements Feature Gating and Usage Limits calculation based on subscription tier
+ * and the configured entitlement registry.
  *
  * Responsibilities:
  * - Calculate UsageLimits based on subscription tier
  * - Implement Feature Gating logic (canAccessFeature)
  * - Handle purchase and restore flows with error handling
  * - Manage subscription state updates
+ * - Fall back to the last known (cached) subscription when RevenueCat is unreachable
+ * - Switch RevenueCat identity on log in / log out and reset per-user state
+ * - Retry transient (retryable) failures with backoff, except purchases
+ * - Hide intro prices the user is not eligible for and purchase with offers
+ * - Open subscription management and begin refund requests
+ * - Purchase non-subscription products (consumables and lifetime unlocks)
+ * - Verify paid subscriptions and purchases with an optional server-side verifier
  *
  * @module features/subscription/core/service
  */
 
 import type {
+  EntitlementRegistry,
+  IntroEligibility,
+  PackagePurchase,
+  ProductPurchase,
+  RefundRequestStatus,
   UsageLimits,
   FeatureLevel,
   Subscription,
   SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
+  SubscriptionTier,
   Result,
 } from './types';
 import {
@@ -25,6 +42,23 @@ import {
   PREMIUM_TIER_LIMITS,
   DEFAULT_FREE_SUBSCRIPTION,
 } from './types';
+import {
+  getEntitlementRegistry,
+  getTierLimits,
+  isTierAtLeast,
+} from './entitlements';
+import type { SubscriptionCache } from './subscription-cache';
+import {
+  DEFAULT_CACHE_GRACE_PERIOD_MS,
+  isCachedSubscriptionUsable,
+} from './subscription-cache';
+import type { AppUserIdStore } from './app-user-id-store';
+import type {
+  ReceiptVerificationReason,
+  ReceiptVerifier,
+} from './receipt-verifier';
+import type { RetryableOperation, RetryPolicy } from './retry';
+import { withRetry } from './retry';
 
 // Re-export constants for convenience
 export { FREE_TIER_LIMITS, PREMIUM_TIER_LIMITS };
@@ -32,7 +66,8 @@ export { FREE_TIER_LIMITS, PREMIUM_TIER_LIMITS };
 /**
  * Get usage limits based on subscription tier.
  *
- * @param tier - Subscription tier ('free' | 'premium')
+ * @param tier - Subscription tier ('free' or a paid tier from the registry)
+ * @param registry - Entitlement registry (defaults to the configured registry)
  * @returns UsageLimits value object for the given tier
  *
  * @example
@@ -44,25 +79,25 @@ export { FREE_TIER_LIMITS, PREMIUM_TIER_LIMITS };
  * console.log(premiumLimits.maxItems); // Infinity
  * ```
  */
-export function getUsageLimits(tier: Subscription['tier']): UsageLimits {
-  switch (tier) {
-    case 'premium':
-      return PREMIUM_TIER_LIMITS;
-    case 'free':
-    default:
-      return FREE_TIER_LIMITS;
-  }
+export function getUsageLimits(
+  tier: SubscriptionTier,
+  registry: EntitlementRegistry = getEntitlementRegistry()
+): UsageLimits {
+  return getTierLimits(tier, registry);
 }
 
 /**
  * Check if a user can access a feature based on feature level and subscription tier.
  *
  * Feature Gating Rules:
- * - 'basic' features are available to all users (free and premium)
- * - 'premium' features are only available to premium subscribers
+ * - 'basic' features are available to all users
+ * - Tier-level features (e.g., 'plus') are available to that tier and every
+ *   tier ranked above it in the entitlement registry
+ * - Unknown levels or tiers are denied
  *
- * @param level - Feature access level ('basic' | 'premium')
- * @param tier - User's subscription tier ('free' | 'premium')
+ * @param level - Feature access level ('basic' or a tier identifier)
+ * @param tier - User's subscription tier
+ * @param registry - Entitlement registry (defaults to the configured registry)
  * @returns true if user can access the feature, false otherwise
  *
  * @example
@@ -74,25 +109,31 @@ export function getUsageLimits(tier: Subscription['tier']): UsageLimits {
  * canAccessFeature('premium', 'premium'); // true
  * canAccessFeature('basic', 'premium'); // true
  *
- * // Basic features available to all
- * canAccessFeature('basic', 'free'); // true
+ * // With tiers [plus, pro]: "at least plus"
+ * canAccessFeature('plus', 'pro'); // true
  * ```
  */
 export function canAccessFeature(
   level: FeatureLevel,
-  tier: Subscription['tier']
+  tier: SubscriptionTier,
+  registry: EntitlementRegistry = getEntitlementRegistry()
 ): boolean {
-  switch (level) {
-    case 'basic':
-      // Basic features are available to all users
-      return true;
-    case 'premium':
-      // Premium features require premium subscription
-      return tier === 'premium';
-    default:
-      // Defensive: unknown feature levels are denied
-      return false;
+  if (level === 'basic') {
+    // Basic features are available to all users
+    return true;
   }
+
+  return isTierAtLeast(tier, level, registry);
+}
+
+/**
+ * Whether a subscription is a lifetime unlock: active and never expiring.
+ *
+ * @param subscription - Subscription to check
+ * @returns true for lifetime purchases, false for free and renewing subscriptions
+ */
+export function isLifetimeSubscription(subscription: Subscription): boolean {
+  return subscription.isActive && subscription.expiresAt === null;
 }
 
 /**
@@ -110,10 +151,60 @@ export function getDefaultSubscription(): Subscription {
  */
 export interface SubscriptionRepository {
   getCustomerInfo(): Promise<Result<Subscription, SubscriptionError>>;
+  /** Purchase a package from the current offering, or from `offeringId` */
   purchasePackage(
+    packageId: string,
+    offeringId?: string
+  ): Promise<Result<PackagePurchase, SubscriptionError>>;
+  /** Restore purchases; null when no active subscription was restored */
+  restorePurchases(): Promise<
+    Result<PackagePurchase | null, SubscriptionError>
+  >;
+  getAvailablePackages(): Promise<
+    Result<SubscriptionPackage[], SubscriptionError>
+  >;
+  /**
+   * Packages of an offering by identifier (null if it does not exist).
+   * Intro prices the user is not eligible for are removed.
+   */
+  getOfferingPackages(
+    offeringId: string
+  ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>>;
+  /** Identify the current user with an app user id */
+  logIn(appUserId: string): Promise<Result<Subscription, SubscriptionError>>;
+  /** Log out the identified user and switch to an anonymous user */
+  logOut(): Promise<Result<Subscription, SubscriptionError>>;
+  /** Current app user id (logged in or anonymous) */
+  getAppUserId(): Promise<Result<string, SubscriptionError>>;
+  /** Intro offer eligibility keyed by package identifier */
+  getIntroEligibility(
+    packageIds: string[]
+  ): Promise<Result<Record<string, IntroEligibility>, SubscriptionError>>;
+  /** Promotional and win-back offers available for a package */
+  getOffers(
     packageId: string
-  ): Promise<Result<Subscription, SubscriptionError>>;
-  restorePurchases(): Promise<Result<Subscription | null, SubscriptionError>>;
+  ): Promise<Result<SubscriptionOffer[], SubscriptionError>>;
+  /** Purchase a package with a promotional or win-back offer */
+  purchasePackageWithOffer(
+    packageId: string,
+    offer: SubscriptionOffer
+  ): Promise<Result<PackagePurchase, SubscriptionError>>;
+  /** Present the store's offer code redemption flow */
+  redeemOfferCode(code?: string): Promise<Result<void, SubscriptionError>>;
+  /** Open the store page where the user manages or cancels their subscription */
+  openManagementUrl(): Promise<Result<void, SubscriptionError>>;
+  /** Present the store's refund request flow for a purchased product */
+  beginRefundRequest(
+    productId: string
+  ): Promise<Result<RefundRequestStatus, SubscriptionError>>;
+  /** Purchase a non-subscription product (consumable or lifetime unlock) */
+  purchaseProduct(
+    productId: string
+  ): Promise<Result<ProductPurchase, SubscriptionError>>;
+  /** Subscribe to remote subscription changes; returns an unsubscribe function */
+  addSubscriptionListener(
+    listener: (subscription: Subscription) => void
+  ): () => void;
 }
 
 /**
@@ -134,10 +225,45 @@ export interface SubscriptionLogger {
 export interface SubscriptionServiceConfig {
   /** Repository for accessing subscription data */
   repository: SubscriptionRepository;
-  /** Callback invoked when subscription state changes */
-  onStateChange?: (subscription: Subscription) => void;
+  /**
+   * Callback invoked when subscription state changes, with where the state
+   * came from: 'remote' for RevenueCat state (verified when a verifier is
+   * configured), 'cache' for the persisted fallback, and null for the free
+   * tier the service falls back to on errors.
+   */
+  onStateChange?: (
+    subscription: Subscription,
+    source: SubscriptionSource | null
+  ) => void;
+  /**
+   * Callback invoked after a non-subscription product is purchased (e.g., to
+   * grant consumable credits). purchaseProduct resolves once it settles.
+   */
+  onProductPurchase?: (purchase: ProductPurchase) => void | Promise<void>;
   /** Optional logger for error observability and debugging */
   logger?: SubscriptionLogger;
+  /** Optional persistent cache of the last known subscription (offline fallback) */
+  cache?: SubscriptionCache;
+  /**
+   * How long after `expiresAt` a cached subscription is still honoured.
+   * Defaults to DEFAULT_CACHE_GRACE_PERIOD_MS (3 days).
+   */
+  cacheGracePeriodMs?: number;
+  /** Optional persistent store for the logged in app user id */
+  appUserIdStore?: AppUserIdStore;
+  /**
+   * Optional retry policy for retryable errors (e.g., DEFAULT_RETRY_POLICY).
+   * Without a policy every repository call is attempted once.
+   * Purchases are never retried.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * Optional server-side verifier. When set, paid subscriptions are only
+   * committed (and passed to `onStateChange`) once the verifier confirms
+   * their product for the current app user, and product purchases only
+   * reach `onProductPurchase` once their transaction is confirmed.
+   */
+  verifier?: ReceiptVerifier;
 }
 
 /**
@@ -147,19 +273,125 @@ export interface SubscriptionServiceConfig {
  * - Fetching current subscription state
  * - Purchasing subscription packages
  * - Restoring previous purchases
+ * - Fetching and caching available packages
  * - Managing subscription state updates
  */
 export interface SubscriptionService {
   /** Get the current subscription state without fetching from remote */
   getCurrentSubscription(): Subscription;
+  /**
+   * Get where the current subscription came from.
+   * null until remote or cached state is available (e.g., default free fallback).
+   */
+  getSubscriptionSource(): SubscriptionSource | null;
+  /**
+   * Load the persisted subscription as initial state.
+   * No-op (returns null) once remote state has been received, or if the
+   * cache is empty or past its expiry plus grace window.
+   */
+  restoreFromCache(): Promise<Subscription | null>;
   /** Fetch subscription state from RevenueCat and update internal state */
   getSubscription(): Promise<Result<Subscription, SubscriptionError>>;
-  /** Purchase a subscription package */
+  /**
+   * Purchase a subscription package from the current offering, or from
+   * `offeringId` (e.g., a placement's offering)
+   */
   purchasePackage(
-    packageId: string
+    packageId: string,
+    offeringId?: string
   ): Promise<Result<Subscription, SubscriptionError>>;
   /** Restore previous purchases */
   restorePurchases(): Promise<Result<Subscription, SubscriptionError>>;
+  /**
+   * Fetch available packages from the current offering.
+   * Returns cached packages unless `forceRefresh` is set.
+   */
+  getPackages(options?: {
+    forceRefresh?: boolean;
+  }): Promise<Result<SubscriptionPackage[], SubscriptionError>>;
+  /** Get cached packages without fetching (null until first successful fetch) */
+  getCachedPackages(): SubscriptionPackage[] | null;
+  /**
+   * Fetch the packages of an offering other than the current one
+   * (e.g., a placement's offering). Null if the offering does not exist.
+   * Not cached.
+   */
+  getOfferingPackages(
+    offeringId: string
+  ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>>;
+  /**
+   * Check intro offer eligibility for the available packages.
+   * Packages the user is ineligible for lose their `introPrice`, in the
+   * returned packages and in every later getPackages result.
+   */
+  checkIntroEligibility(): Promise<
+    Result<SubscriptionPackage[], SubscriptionError>
+  >;
+  /** List the promotional and win-back offers for a package */
+  getOffers(
+    packageId: string
+  ): Promise<Result<SubscriptionOffer[], SubscriptionError>>;
+  /**
+   * Purchase a package with an offer from getOffers.
+   * Handles PRODUCT_ALREADY_PURCHASED like purchasePackage.
+   */
+  purchasePackageWithOffer(
+    packageId: string,
+    offer: SubscriptionOffer
+  ): Promise<Result<Subscription, SubscriptionError>>;
+  /**
+   * Present the store's offer code redemption flow.
+   * The redeemed subscription arrives through subscribeToUpdates.
+   */
+  redeemOfferCode(code?: string): Promise<Result<void, SubscriptionError>>;
+  /**
+   * Open the store page where the user manages or cancels their subscription.
+   * A cancellation arrives through subscribeToUpdates.
+   */
+  openManagementUrl(): Promise<Result<void, SubscriptionError>>;
+  /**
+   * Present the store's refund request flow for a purchased product (iOS).
+   * A granted refund arrives through subscribeToUpdates.
+   */
+  beginRefundRequest(
+    productId: string
+  ): Promise<Result<RefundRequestStatus, SubscriptionError>>;
+  /**
+   * Purchase a non-subscription product: a consumable or a lifetime unlock.
+   * Lifetime unlocks update the subscription state like purchasePackage;
+   * onProductPurchase runs before the purchase resolves. Never retried.
+   */
+  purchaseProduct(
+    productId: string
+  ): Promise<Result<ProductPurchase, SubscriptionError>>;
+  /**
+   * Identify the current user with an app user id (e.g., after sign-in).
+   * On success, cached packages and the persisted subscription of the
+   * previous user are discarded and the app user id is persisted.
+   */
+  logIn(appUserId: string): Promise<Result<Subscription, SubscriptionError>>;
+  /**
+   * Log out the identified user (e.g., after sign-out).
+   * On success, per-user state is reset as for logIn and the persisted
+   * app user id is removed.
+   */
+  logOut(): Promise<Result<Subscription, SubscriptionError>>;
+  /**
+   * Discard cached state: the persisted subscription and cached packages.
+   * A subscription restored from the cache falls back to the free tier
+   * until the next getSubscription.
+   */
+  clearCache(): Promise<void>;
+  /**
+   * Listen for subscription changes pushed by RevenueCat (renewals, refunds,
+   * purchases on another device). Updates internal state and calls
+   * `onStateChange` before notifying the listener.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribeToUpdates(
+    listener: (subscription: Subscription) => void
+  ): () => void;
 }
 
 /**
@@ -168,8 +400,13 @@ export interface SubscriptionService {
  * The service handles:
  * - Purchase flow with auto-restore on PRODUCT_ALREADY_PURCHASED error
  * - Restore flow with NO_ACTIVE_SUBSCRIPTION detection
+ * - Package caching (offerings rarely change during a session)
+ * - Live updates pushed by RevenueCat
+ * - Identity changes (log in / log out) with per-user state reset
+ * - Automatic retry of retryable errors when a retry policy is configured
+ * - Server-side verification of paid subscriptions when a verifier is configured
  * - State management with callback notifications
- * - Fallback to free tier on errors
+ * - Fallback to the cached subscription (or free tier) on errors
  *
  * @param config - Service configuration
  * @returns SubscriptionService instance
@@ -193,10 +430,25 @@ export interface SubscriptionService {
 export function createSubscriptionService(
   config: SubscriptionServiceConfig
 ): SubscriptionService {
-  const { repository, onStateChange, logger } = config;
+  const {
+    repository,
+    onStateChange,
+    onProductPurchase,
+    logger,
+    cache,
+    cacheGracePeriodMs = DEFAULT_CACHE_GRACE_PERIOD_MS,
+    appUserIdStore,
+    retryPolicy,
+    verifier,
+  } = config;
 
   // Internal state
   let currentSubscription: Subscription = DEFAULT_FREE_SUBSCRIPTION;
+  let currentSource: SubscriptionSource | null = null;
+  let cachedPackages: SubscriptionPackage[] | null = null;
+  let introEligibility: Record<string, IntroEligibility> = {};
+  // Products the verifier confirmed for the current app user
+  let verifiedProductIds = new Set<string>();
 
   /**
    * Log a message if logger is configured.
@@ -209,16 +461,384 @@ export function createSubscriptionService(
     logger?.(level, message, context);
   }
 
+  /**
+   * Call the repository, retrying retryable errors per the retry policy.
+   * Retries and their outcome are reported through the logger.
+   */
+  async function callWithRetry<T>(
+    operation: RetryableOperation,
+    call: () => Promise<Result<T, SubscriptionError>>
+  ): Promise<Result<T, SubscriptionError>> {
+    if (!retryPolicy || retryPolicy.disabledOperations?.includes(operation)) {
+      return call();
+    }
+
+    const { result, attempts } = await withRetry(call, {
+      policy: retryPolicy,
+      onRetry: ({ attempt, delayMs, error }) => {
+        log('warn', 'Retrying after retryable error', {
+          operation,
+          attempt,
+          maxAttempts: retryPolicy.maxAttempts,
+          delayMs,
+          errorCode: error.code,
+        });
+      },
+    });
+
+    if (attempts > 1) {
+      if (result.success) {
+        log('info', 'Succeeded after retry', { operation, attempts });
+      } else {
+        log('warn', 'Giving up after retries', {
+          operation,
+          attempts,
+          errorCode: result.error.code,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Drop the intro price of packages the user is known to be ineligible for.
+   */
+  function applyIntroEligibility(
+    packages: SubscriptionPackage[]
+  ): SubscriptionPackage[] {
+    return packages.map((pkg) => {
+      if (
+        introEligibility[pkg.identifier] !== 'ineligible' ||
+        !pkg.introPrice
+      ) {
+        return pkg;
+      }
+      const { introPrice: _ineligible, ...rest } = pkg;
+      return rest;
+    });
+  }
+
   /**
    * Update internal subscription state and notify listeners.
    */
-  function updateState(subscription: Subscription): void {
+  function updateState(
+    subscription: Subscription,
+    source: SubscriptionSource | null
+  ): void {
     currentSubscription = subscription;
+    currentSource = source;
     log('debug', 'Subscription state updated', {
       tier: subscription.tier,
       isActive: subscription.isActive,
+      source,
     });
-    onStateChange?.(subscription);
+    onStateChange?.(subscription, source);
+  }
+
+  /**
+   * Apply state received from RevenueCat and persist it for offline use.
+   */
+  async function commitRemoteState(subscription: Subscription): Promise<void> {
+    updateState(subscription, 'remote');
+
+    if (!cache) {
+      return;
+    }
+    try {
+      await cache.save(subscription);
+    } catch (error) {
+      log('warn', 'Failed to persist subscription cache', {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Whether a subscription must be confirmed by the verifier before it is
+   * committed: paid, and its product not yet verified for the current user.
+   */
+  function needsVerification(subscription: Subscription): boolean {
+    return (
+      verifier !== undefined &&
+      subscription.isActive &&
+      subscription.productId !== null &&
+      !verifiedProductIds.has(subscription.productId)
+    );
+  }
+
+  /**
+   * Ask the verifier to confirm a purchased product for the current app user.
+   * Verifier errors are retried like repository calls.
+   */
+  async function verifyPurchase(
+    productId: string,
+    reason: ReceiptVerificationReason,
+    transactionId: string | null = null
+  ): Promise<Result<void, SubscriptionError>> {
+    if (!verifier) {
+      return { success: true, data: undefined };
+    }
+
+    const appUserId = await repository.getAppUserId();
+    if (!appUserId.success) {
+      log('error', 'Failed to read app user id for receipt verification', {
+        productId,
+        errorCode: appUserId.error.code,
+        errorMessage: appUserId.error.message,
+      });
+      return appUserId;
+    }
+
+    log('info', 'Verifying purchase', { productId, reason });
+    const result = await callWithRetry('verifyReceipt', () =>
+      verifier.verify({
+        appUserId: appUserId.data,
+        productId,
+        transactionId,
+        reason,
+      })
+    );
+
+    if (!result.success) {
+      log('error', 'Receipt verification failed', {
+        productId,
+        reason,
+        errorCode: result.error.code,
+        errorMessage: result.error.message,
+        retryable: result.error.retryable,
+      });
+      return result;
+    }
+
+    verifiedProductIds.add(productId);
+    log('info', 'Purchase verified', { productId, reason });
+    return result;
+  }
+
+  /**
+   * Commit remote state once the verifier confirms it (when required).
+   * Unverified state is not committed; the current state is kept.
+   */
+  async function commitVerifiedState(
+    subscription: Subscription,
+    reason: ReceiptVerificationReason,
+    transactionId: string | null = null
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    if (needsVerification(subscription) && subscription.productId !== null) {
+      const verified = await verifyPurchase(
+        subscription.productId,
+        reason,
+        transactionId
+      );
+      if (!verified.success) {
+        return verified;
+      }
+    }
+
+    await commitRemoteState(subscription);
+    return { success: true, data: subscription };
+  }
+
+  /**
+   * Commit the subscription of a newly identified user. The previous user's
+   * state no longer applies, so an unverified one falls back to the free tier.
+   */
+  async function commitIdentityState(
+    subscription: Subscription
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    const committed = await commitVerifiedState(subscription, 'refresh');
+    if (!committed.success) {
+      updateState(DEFAULT_FREE_SUBSCRIPTION, null);
+    }
+    return committed;
+  }
+
+  /**
+   * Discard state that belongs to the previous app user.
+   * Offerings can be targeted per user, so cached packages are dropped too.
+   */
+  async function resetIdentityState(): Promise<void> {
+    cachedPackages = null;
+    introEligibility = {};
+    currentSource = null;
+    verifiedProductIds = new Set();
+    await clearPersistedSubscription();
+  }
+
+  /**
+   * Remove the persisted subscription, if a cache is configured.
+   */
+  async function clearPersistedSubscription(): Promise<void> {
+    if (!cache) {
+      return;
+    }
+    try {
+      await cache.clear();
+    } catch (error) {
+      log('warn', 'Failed to clear subscription cache', {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Persist (or remove, when null) the current app user id.
+   */
+  async function persistAppUserId(appUserId: string | null): Promise<void> {
+    if (!appUserIdStore) {
+      return;
+    }
+    try {
+      if (appUserId === null) {
+        await appUserIdStore.clear();
+      } else {
+        await appUserIdStore.save(appUserId);
+      }
+    } catch (error) {
+      log('warn', 'Failed to persist app user id', {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Return cached packages, or fetch and cache them.
+   */
+  async function loadPackages(
+    forceRefresh: boolean
+  ): Promise<Result<SubscriptionPackage[], SubscriptionError>> {
+    if (cachedPackages !== null && !forceRefresh) {
+      log('debug', 'Returning cached packages', {
+        count: cachedPackages.length,
+      });
+      return { success: true, data: cachedPackages };
+    }
+
+    log('info', 'Fetching available packages');
+    const result = await callWithRetry('getPackages', () =>
+      repository.getAvailablePackages()
+    );
+
+    if (!result.success) {
+      // Keep any previously cached packages so the paywall can still render
+      log('warn', 'Failed to fetch packages', {
+        errorCode: result.error.code,
+        errorMessage: result.error.message,
+        retryable: result.error.retryable,
+      });
+      return result;
+    }
+
+    cachedPackages = applyIntroEligibility(result.data);
+    log('debug', 'Packages cached', { count: cachedPackages.length });
+    return { success: true, data: cachedPackages };
+  }
+
+  /**
+   * Finish a purchase: commit the new state, or auto-restore on
+   * PRODUCT_ALREADY_PURCHASED, and log the outcome.
+   */
+  async function completePurchase(
+    packageId: string,
+    result: Result<PackagePurchase, SubscriptionError>
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    if (result.success) {
+      log('info', 'Purchase successful', {
+        packageId,
+        transactionId: result.data.transactionId,
+      });
+      return commitVerifiedState(
+        result.data.subscription,
+        'purchase',
+        result.data.transactionId
+      );
+    }
+
+    // Handle PRODUCT_ALREADY_PURCHASED by auto-restoring
+    if (result.error.code === 'PRODUCT_ALREADY_PURCHASED') {
+      log('info', 'Product already purchased, attempting auto-restore', {
+        packageId,
+      });
+      const restoreResult = await repository.restorePurchases();
+
+      if (restoreResult.success && restoreResult.data) {
+        log('info', 'Auto-restore successful after PRODUCT_ALREADY_PURCHASED');
+        return commitVerifiedState(
+          restoreResult.data.subscription,
+          'restore',
+          restoreResult.data.transactionId
+        );
+      }
+
+      if (!restoreResult.success) {
+        log('error', 'Auto-restore failed after PRODUCT_ALREADY_PURCHASED', {
+          errorCode: restoreResult.error.code,
+          errorMessage: restoreResult.error.message,
+        });
+        return restoreResult;
+      }
+
+      // Restore succeeded but no active subscription found
+      log('warn', 'Auto-restore returned no active subscription');
+      return {
+        success: false,
+        error: {
+          code: 'NO_ACTIVE_SUBSCRIPTION',
+          message: 'No active subscription found after restore',
+          retryable: false,
+        },
+      };
+    }
+
+    // For PURCHASE_CANCELLED, don't log as error (user action)
+    if (result.error.code === 'PURCHASE_CANCELLED') {
+      log('info', 'Purchase cancelled by user', { packageId });
+    } else {
+      // For other errors (NETWORK_ERROR, etc.)
+      log('error', 'Purchase failed', {
+        packageId,
+        errorCode: result.error.code,
+        errorMessage: result.error.message,
+        retryable: result.error.retryable,
+      });
+    }
+
+    // Don't update state, just return the error
+    return result;
+  }
+
+  /**
+   * Read the cached subscription if it is still within expiry + grace window.
+   */
+  async function readUsableCache(): Promise<Subscription | null> {
+    if (!cache) {
+      return null;
+    }
+
+    let cached: Subscription | null;
+    try {
+      cached = await cache.load();
+    } catch (error) {
+      log('warn', 'Failed to read subscription cache', {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    if (cached === null) {
+      return null;
+    }
+
+    if (!isCachedSubscriptionUsable(cached, cacheGracePeriodMs)) {
+      log('info', 'Cached subscription expired beyond grace period', {
+        tier: cached.tier,
+        expiresAt: cached.expiresAt?.toISOString(),
+      });
+      return null;
+    }
+
+    return cached;
   }
 
   return {
@@ -226,97 +846,356 @@ export function createSubscriptionService(
       return currentSubscription;
     },
 
+    getSubscriptionSource(): SubscriptionSource | null {
+      return currentSource;
+    },
+
+    async restoreFromCache(): Promise<Subscription | null> {
+      const cached = await readUsableCache();
+
+      // Remote state may have arrived while the cache was loading
+      if (cached === null || currentSource === 'remote') {
+        return null;
+      }
+
+      log('info', 'Restored subscription from cache', { tier: cached.tier });
+      updateState(cached, 'cache');
+      return cached;
+    },
+
     async getSubscription(): Promise<Result<Subscription, SubscriptionError>> {
       log('info', 'Fetching subscription state');
-      const result = await repository.getCustomerInfo();
+      const result = await callWithRetry('getSubscription', () =>
+        repository.getCustomerInfo()
+      );
 
       if (result.success) {
-        updateState(result.data);
-        return result;
+        // An unverified paid subscription leaves the current state unchanged
+        return commitVerifiedState(result.data, 'refresh');
       }
 
-      // On error, fallback to free tier
-      log('warn', 'Failed to fetch subscription, falling back to free tier', {
+      const errorContext = {
         errorCode: result.error.code,
         errorMessage: result.error.message,
         retryable: result.error.retryable,
-      });
-      updateState(DEFAULT_FREE_SUBSCRIPTION);
+      };
+      const cached = await readUsableCache();
+
+      if (cached) {
+        // Keep paying users unlocked while RevenueCat is unreachable
+        log(
+          'warn',
+          'Failed to fetch subscription, falling back to cached subscription',
+          { ...errorContext, tier: cached.tier }
+        );
+        updateState(cached, 'cache');
+        return result;
+      }
+
+      // No usable cache, fallback to free tier
+      log(
+        'warn',
+        'Failed to fetch subscription, falling back to free tier',
+        errorContext
+      );
+      updateState(DEFAULT_FREE_SUBSCRIPTION, null);
       return result;
     },
 
     async purchasePackage(
-      packageId: string
+      packageId: string,
+      offeringId?: string
     ): Promise<Result<Subscription, SubscriptionError>> {
-      log('info', 'Starting purchase', { packageId });
-      const result = await repository.purchasePackage(packageId);
+      log('info', 'Starting purchase', { packageId, offeringId });
+      return completePurchase(
+        packageId,
+        await repository.purchasePackage(packageId, offeringId)
+      );
+    },
 
-      if (result.success) {
-        log('info', 'Purchase successful', { packageId });
-        updateState(result.data);
-        return result;
-      }
+    async purchasePackageWithOffer(
+      packageId: string,
+      offer: SubscriptionOffer
+    ): Promise<Result<Subscription, SubscriptionError>> {
+      log('info', 'Starting purchase with offer', {
+        packageId,
+        offerId: offer.identifier,
+        offerType: offer.type,
+      });
+      return completePurchase(
+        packageId,
+        await repository.purchasePackageWithOffer(packageId, offer)
+      );
+    },
 
-      // Handle PRODUCT_ALREADY_PURCHASED by auto-restoring
-      if (result.error.code === 'PRODUCT_ALREADY_PURCHASED') {
-        log('info', 'Product already purchased, attempting auto-restore', {
-          packageId,
-        });
-        const restoreResult = await repository.restorePurchases();
-
-        if (restoreResult.success && restoreResult.data) {
-          log(
-            'info',
-            'Auto-restore successful after PRODUCT_ALREADY_PURCHASED'
-          );
-          updateState(restoreResult.data);
-          return { success: true, data: restoreResult.data };
-        }
+    async restorePurchases(): Promise<Result<Subscription, SubscriptionError>> {
+      log('info', 'Starting restore purchases');
+      const result = await callWithRetry('restorePurchases', () =>
+        repository.restorePurchases()
+      );
 
-        if (!restoreResult.success) {
-          log('error', 'Auto-restore failed after PRODUCT_ALREADY_PURCHASED', {
-            errorCode: restoreResult.error.code,
-            errorMessage: restoreResult.error.message,
-          });
-          return restoreResult;
-        }
+      if (!result.success) {
+        // Restore failed with an error
+        log('error', 'Restore purchases failed', {
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+          retryable: result.error.retryable,
+        });
+        return result;
+      }
 
+      if (result.data === null) {
         // Restore succeeded but no active subscription found
-        log('warn', 'Auto-restore returned no active subscription');
+        log('info', 'Restore completed but no active subscription found');
         return {
           success: false,
           error: {
             code: 'NO_ACTIVE_SUBSCRIPTION',
-            message: 'No active subscription found after restore',
+            message: 'No active subscription found',
             retryable: false,
           },
         };
       }
 
-      // For PURCHASE_CANCELLED, don't log as error (user action)
-      if (result.error.code === 'PURCHASE_CANCELLED') {
-        log('info', 'Purchase cancelled by user', { packageId });
-      } else {
-        // For other errors (NETWORK_ERROR, etc.)
-        log('error', 'Purchase failed', {
+      // Restore succeeded with active subscription
+      log('info', 'Restore successful', {
+        tier: result.data.subscription.tier,
+      });
+      return commitVerifiedState(
+        result.data.subscription,
+        'restore',
+        result.data.transactionId
+      );
+    },
+
+    async getPackages(
+      options: { forceRefresh?: boolean } = {}
+    ): Promise<Result<SubscriptionPackage[], SubscriptionError>> {
+      return loadPackages(options.forceRefresh ?? false);
+    },
+
+    getCachedPackages(): SubscriptionPackage[] | null {
+      return cachedPackages;
+    },
+
+    async getOfferingPackages(
+      offeringId: string
+    ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>> {
+      log('info', 'Fetching offering packages', { offeringId });
+      const result = await callWithRetry('getOfferingPackages', () =>
+        repository.getOfferingPackages(offeringId)
+      );
+
+      if (!result.success) {
+        log('warn', 'Failed to fetch offering packages', {
+          offeringId,
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+          retryable: result.error.retryable,
+        });
+      } else if (result.data === null) {
+        log('warn', 'Offering not found', { offeringId });
+      }
+      return result;
+    },
+
+    async checkIntroEligibility(): Promise<
+      Result<SubscriptionPackage[], SubscriptionError>
+    > {
+      const packages = await loadPackages(false);
+      if (!packages.success) {
+        return packages;
+      }
+
+      const packageIds = packages.data
+        .filter((pkg) => pkg.introPrice)
+        .map((pkg) => pkg.identifier);
+      if (packageIds.length === 0) {
+        return packages;
+      }
+
+      log('info', 'Checking intro offer eligibility', {
+        count: packageIds.length,
+      });
+      const result = await callWithRetry('checkIntroEligibility', () =>
+        repository.getIntroEligibility(packageIds)
+      );
+
+      if (!result.success) {
+        // Unknown eligibility: keep advertising the intro offer
+        log('warn', 'Failed to check intro offer eligibility', {
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+          retryable: result.error.retryable,
+        });
+        return result;
+      }
+
+      introEligibility = { ...introEligibility, ...result.data };
+      cachedPackages = applyIntroEligibility(packages.data);
+      log('debug', 'Intro offer eligibility applied', {
+        ineligible: packageIds.filter(
+          (id) => introEligibility[id] === 'ineligible'
+        ).length,
+      });
+      return { success: true, data: cachedPackages };
+    },
+
+    async getOffers(
+      packageId: string
+    ): Promise<Result<SubscriptionOffer[], SubscriptionError>> {
+      log('info', 'Fetching offers', { packageId });
+      const result = await callWithRetry('getOffers', () =>
+        repository.getOffers(packageId)
+      );
+
+      if (!result.success) {
+        log('warn', 'Failed to fetch offers', {
           packageId,
           errorCode: result.error.code,
           errorMessage: result.error.message,
           retryable: result.error.retryable,
         });
       }
+      return result;
+    },
+
+    async redeemOfferCode(
+      code?: string
+    ): Promise<Result<void, SubscriptionError>> {
+      log('info', 'Presenting offer code redemption');
+      const result = await repository.redeemOfferCode(code);
+
+      if (!result.success) {
+        log('error', 'Offer code redemption failed', {
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+        });
+      }
+      return result;
+    },
+
+    async openManagementUrl(): Promise<Result<void, SubscriptionError>> {
+      log('info', 'Opening subscription management');
+      const result = await repository.openManagementUrl();
+
+      if (!result.success) {
+        log('error', 'Failed to open subscription management', {
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+        });
+      }
+      return result;
+    },
+
+    async beginRefundRequest(
+      productId: string
+    ): Promise<Result<RefundRequestStatus, SubscriptionError>> {
+      log('info', 'Starting refund request', { productId });
+      const result = await repository.beginRefundRequest(productId);
+
+      if (result.success) {
+        log('info', 'Refund request completed', {
+          productId,
+          status: result.data,
+        });
+      } else {
+        log('error', 'Refund request failed', {
+          productId,
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+        });
+      }
+      return result;
+    },
+
+    async purchaseProduct(
+      productId: string
+    ): Promise<Result<ProductPurchase, SubscriptionError>> {
+      log('info', 'Starting product purchase', { productId });
+      const result = await repository.purchaseProduct(productId);
+
+      if (!result.success) {
+        if (result.error.code === 'PURCHASE_CANCELLED') {
+          log('info', 'Product purchase cancelled by user', { productId });
+        } else {
+          log('error', 'Product purchase failed', {
+            productId,
+            errorCode: result.error.code,
+            errorMessage: result.error.message,
+            retryable: result.error.retryable,
+          });
+        }
+        return result;
+      }
+
+      log('info', 'Product purchase successful', {
+        productId,
+        transactionId: result.data.transactionId,
+      });
+
+      // Consumables are verified per transaction, so always ask the verifier
+      const verified = await verifyPurchase(
+        productId,
+        'purchase',
+        result.data.transactionId
+      );
+      if (!verified.success) {
+        return verified;
+      }
+      const committed = await commitVerifiedState(
+        result.data.subscription,
+        'purchase'
+      );
+      if (!committed.success) {
+        return committed;
+      }
+
+      try {
+        await onProductPurchase?.(result.data);
+      } catch (error) {
+        log('error', 'Product purchase callback failed', {
+          productId,
+          transactionId: result.data.transactionId,
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+      }
+      return result;
+    },
+
+    async logIn(
+      appUserId: string
+    ): Promise<Result<Subscription, SubscriptionError>> {
+      log('info', 'Logging in app user');
+      const result = await callWithRetry('logIn', () =>
+        repository.logIn(appUserId)
+      );
+
+      if (!result.success) {
+        log('error', 'Log in failed', {
+          errorCode: result.error.code,
+          errorMessage: result.error.message,
+          retryable: result.error.retryable,
+        });
+        return result;
+      }
 
-      // Don't update state, just return the error
+      await resetIdentityState();
+      const committed = await commitIdentityState(result.data);
+      await persistAppUserId(appUserId);
+      if (!committed.success) {
+        return committed;
+      }
+      log('info', 'Log in successful', { tier: result.data.tier });
       return result;
     },
 
-    async restorePurchases(): Promise<Result<Subscription, SubscriptionError>> {
-      log('info', 'Starting restore purchases');
-      const result = await repository.restorePurchases();
+    async logOut(): Promise<Result<Subscription, SubscriptionError>> {
+      log('info', 'Logging out app user');
+      const result = await callWithRetry('logOut', () => repository.logOut());
 
       if (!result.success) {
-        // Restore failed with an error
-        log('error', 'Restore purchases failed', {
+        log('error', 'Log out failed', {
           errorCode: result.error.code,
           errorMessage: result.error.message,
           retryable: result.error.retryable,
@@ -324,23 +1203,47 @@ export function createSubscriptionService(
         return result;
       }
 
-      if (result.data === null) {
-        // Restore succeeded but no active subscription found
-        log('info', 'Restore completed but no active subscription found');
-        return {
-          success: false,
-          error: {
-            code: 'NO_ACTIVE_SUBSCRIPTION',
-            message: 'No active subscription found',
-            retryable: false,
-          },
-        };
+      await resetIdentityState();
+      const committed = await commitIdentityState(result.data);
+      await persistAppUserId(null);
+      if (!committed.success) {
+        return committed;
       }
+      log('info', 'Log out successful');
+      return result;
+    },
 
-      // Restore succeeded with active subscription
-      log('info', 'Restore successful', { tier: result.data.tier });
-      updateState(result.data);
-      return { success: true, data: result.data };
+    async clearCache(): Promise<void> {
+      log('info', 'Clearing cached subscription state');
+      cachedPackages = null;
+      introEligibility = {};
+      if (currentSource === 'cache') {
+        updateState(DEFAULT_FREE_SUBSCRIPTION, null);
+      }
+      await clearPersistedSubscription();
+    },
+
+    subscribeToUpdates(
+      listener: (subscription: Subscription) => void
+    ): () => void {
+      log('debug', 'Subscribing to subscription updates');
+      return repository.addSubscriptionListener((subscription) => {
+        log('info', 'Received subscription update', {
+          tier: subscription.tier,
+          isActive: subscription.isActive,
+        });
+        if (!needsVerification(subscription)) {
+          void commitRemoteState(subscription);
+          listener(subscription);
+          return;
+        }
+        // Unverified paid updates are dropped instead of reaching the listener
+        void commitVerifiedState(subscription, 'update').then((committed) => {
+          if (committed.success) {
+            listener(subscription);
+          }
+        });
+      });
     },
   };
 }
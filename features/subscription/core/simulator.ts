@@ -0,0 +1,1028 @@
+/**
+ * Subscription Simulator
+ *
+ * Offline SubscriptionRepository for development builds. Replaces RevenueCat
+ * where it cannot run (Expo Go, web, missing API keys) so the premium flows
+ * can still be exercised end to end.
+ *
+ * This module is responsible for:
+ * - Simulating offerings (current and by identifier), purchases (with a free trial), restores and identity changes
+ * - Simulating consumable and lifetime (non-consumable) product purchases
+ * - Simulating intro eligibility, promotional / win-back offers and offer codes
+ * - Simulating refunds (granted immediately) and subscription management (no-op)
+ * - Persisting the simulated store account in AsyncStorage across reloads
+ * - Simulating cancellation, expiry, billing issues and renewal on demand
+ * - Failing repository calls with any SubscriptionErrorCode on demand
+ *
+ * Control actions are pushed to subscription listeners, the same way
+ * RevenueCat pushes customer-info updates.
+ *
+ * @module features/subscription/core/simulator
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getEntitlementRegistry } from './entitlements';
+import type { SubscriptionRepository } from './service';
+import type {
+  IntroEligibility,
+  PackagePurchase,
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionErrorCode,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionPackageType,
+  SubscriptionTier,
+} from './types';
+import { DEFAULT_FREE_SUBSCRIPTION } from './types';
+
+/**
+ * AsyncStorage key for the simulated store account
+ */
+export const SUBSCRIPTION_SIMULATOR_KEY = 'subscription-simulator';
+
+/**
+ * Packages offered by the simulator. The monthly plan starts with a
+ * one-week free trial for users who have not had one yet.
+ */
+export const SIMULATED_PACKAGES: readonly SubscriptionPackage[] = [
+  {
+    identifier: '$rc_monthly',
+    packageType: 'MONTHLY',
+    title: 'Monthly',
+    priceString: '$9.99',
+    price: 9.99,
+    currencyCode: 'USD',
+    introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+  },
+  {
+    identifier: '$rc_annual',
+    packageType: 'ANNUAL',
+    title: 'Annual',
+    priceString: '$59.99',
+    price: 59.99,
+    currencyCode: 'USD',
+  },
+];
+
+/**
+ * Offerings other than the current one, keyed by offering identifier
+ * (e.g., a paywall placement's offering).
+ */
+export const SIMULATED_OFFERINGS: Readonly<
+  Record<string, readonly SubscriptionPackage[]>
+> = {
+  simulated_discount: [
+    {
+      identifier: '$rc_annual',
+      packageType: 'ANNUAL',
+      title: 'Annual',
+      priceString: '$39.99',
+      price: 39.99,
+      currencyCode: 'USD',
+      introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+    },
+  ],
+};
+
+/**
+ * Non-subscription product sold by the simulator.
+ * - 'consumable': Can be bought repeatedly; grants nothing on the store account
+ * - 'non_consumable': Lifetime unlock of the granted tier
+ */
+export interface SimulatedProduct {
+  identifier: string;
+  type: 'consumable' | 'non_consumable';
+}
+
+/**
+ * Non-subscription products sold by the simulator.
+ */
+export const SIMULATED_PRODUCTS: readonly SimulatedProduct[] = [
+  { identifier: 'simulated_lifetime', type: 'non_consumable' },
+  { identifier: 'simulated_export_pack', type: 'consumable' },
+];
+
+/**
+ * Offers available on every simulated package. The promotional offer is
+ * granted to store accounts that purchased before; the win-back offer only
+ * once that purchase has lapsed.
+ */
+export const SIMULATED_OFFERS: readonly SubscriptionOffer[] = [
+  {
+    identifier: 'simulated_promo',
+    type: 'promotional',
+    priceString: '$4.99',
+    price: 4.99,
+    period: 'P1M',
+    cycles: 3,
+  },
+  {
+    identifier: 'simulated_win_back',
+    type: 'win_back',
+    priceString: '$0.99',
+    price: 0.99,
+    period: 'P1M',
+    cycles: 1,
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Length of the simulated free trial (matches the 'P1W' intro period).
+ */
+const TRIAL_PERIOD_MS = 7 * DAY_MS;
+
+/**
+ * Billing period per package type. Types without an entry (LIFETIME,
+ * CUSTOM, UNKNOWN) never expire.
+ */
+const BILLING_PERIOD_MS: Partial<Record<SubscriptionPackageType, number>> = {
+  WEEKLY: 7 * DAY_MS,
+  MONTHLY: 30 * DAY_MS,
+  TWO_MONTH: 60 * DAY_MS,
+  THREE_MONTH: 90 * DAY_MS,
+  SIX_MONTH: 180 * DAY_MS,
+  ANNUAL: 365 * DAY_MS,
+};
+
+/**
+ * Error returned for each code when it is forced.
+ * Retryability matches what the RevenueCat repository reports.
+ */
+export const SIMULATED_ERRORS: Readonly<
+  Record<SubscriptionErrorCode, SubscriptionError>
+> = {
+  PURCHASE_CANCELLED: {
+    code: 'PURCHASE_CANCELLED',
+    message: '[Simulator] Purchase was cancelled',
+    retryable: false,
+  },
+  PURCHASE_NOT_ALLOWED: {
+    code: 'PURCHASE_NOT_ALLOWED',
+    message: '[Simulator] Purchases are not allowed',
+    retryable: false,
+  },
+  PURCHASE_INVALID: {
+    code: 'PURCHASE_INVALID',
+    message: '[Simulator] Purchase is invalid',
+    retryable: false,
+  },
+  PRODUCT_ALREADY_PURCHASED: {
+    code: 'PRODUCT_ALREADY_PURCHASED',
+    message: '[Simulator] Product already purchased',
+    retryable: false,
+  },
+  NETWORK_ERROR: {
+    code: 'NETWORK_ERROR',
+    message: '[Simulator] Network connection failed',
+    retryable: true,
+  },
+  STORE_PROBLEM_ERROR: {
+    code: 'STORE_PROBLEM_ERROR',
+    message: '[Simulator] Store is unavailable',
+    retryable: true,
+  },
+  CONFIGURATION_ERROR: {
+    code: 'CONFIGURATION_ERROR',
+    message: '[Simulator] Configuration error',
+    retryable: false,
+  },
+  INVALID_CREDENTIALS_ERROR: {
+    code: 'INVALID_CREDENTIALS_ERROR',
+    message: '[Simulator] Invalid credentials',
+    retryable: false,
+  },
+  UNEXPECTED_BACKEND_RESPONSE_ERROR: {
+    code: 'UNEXPECTED_BACKEND_RESPONSE_ERROR',
+    message: '[Simulator] Unexpected backend response',
+    retryable: true,
+  },
+  RECEIPT_ALREADY_IN_USE_ERROR: {
+    code: 'RECEIPT_ALREADY_IN_USE_ERROR',
+    message: '[Simulator] Receipt is in use by another user',
+    retryable: false,
+  },
+  INVALID_APP_USER_ID: {
+    code: 'INVALID_APP_USER_ID',
+    message: '[Simulator] Invalid app user id',
+    retryable: false,
+  },
+  OPERATION_IN_PROGRESS: {
+    code: 'OPERATION_IN_PROGRESS',
+    message: '[Simulator] Operation already in progress',
+    retryable: false,
+  },
+  NO_ACTIVE_SUBSCRIPTION: {
+    code: 'NO_ACTIVE_SUBSCRIPTION',
+    message: '[Simulator] No active subscription',
+    retryable: false,
+  },
+  INELIGIBLE_FOR_OFFER: {
+    code: 'INELIGIBLE_FOR_OFFER',
+    message: '[Simulator] Not eligible for this offer',
+    retryable: false,
+  },
+  INVALID_OFFER: {
+    code: 'INVALID_OFFER',
+    message: '[Simulator] Offer is invalid',
+    retryable: false,
+  },
+  OPERATION_NOT_SUPPORTED: {
+    code: 'OPERATION_NOT_SUPPORTED',
+    message: '[Simulator] Operation is not supported',
+    retryable: false,
+  },
+  RECEIPT_VERIFICATION_FAILED: {
+    code: 'RECEIPT_VERIFICATION_FAILED',
+    message: '[Simulator] Receipt verification failed',
+    retryable: false,
+  },
+  UNKNOWN_ERROR: {
+    code: 'UNKNOWN_ERROR',
+    message: '[Simulator] Unknown error',
+    retryable: false,
+  },
+};
+
+/**
+ * Every SubscriptionErrorCode, in declaration order (for pickers).
+ */
+export const SIMULATED_ERROR_CODES = Object.keys(
+  SIMULATED_ERRORS
+) as SubscriptionErrorCode[];
+
+/**
+ * Error forced onto the next repository call(s).
+ */
+export interface SimulatorForcedError {
+  /** Error code to fail with */
+  code: SubscriptionErrorCode;
+  /** Fail every call until cleared instead of only the next one */
+  persistent: boolean;
+}
+
+/**
+ * Purchase on the simulated store account (dates as ISO strings).
+ */
+export interface SimulatedPurchase {
+  /** App user id the purchase is attached to */
+  ownerId: string;
+  productId: string;
+  /** Store transaction that made the purchase */
+  transactionId: string;
+  packageType: SubscriptionPackageType;
+  tier: SubscriptionTier;
+  expiresAt: string | null;
+  willRenew: boolean;
+  isTrialPeriod: boolean;
+  billingIssueDetectedAt: string | null;
+  cancelledAt: string | null;
+}
+
+/**
+ * Persisted simulator state.
+ */
+export interface SimulatorState {
+  /** Logged in app user id (null when anonymous) */
+  appUserId: string | null;
+  /** Anonymous id used while logged out */
+  anonymousId: string;
+  /** Latest purchase on the store account (null if none) */
+  purchase: SimulatedPurchase | null;
+  /** Whether the free trial has been used on this store account */
+  hasUsedTrial: boolean;
+  /** Error forced onto repository calls (null for normal behaviour) */
+  forcedError: SimulatorForcedError | null;
+}
+
+/**
+ * Simulator configuration.
+ */
+export interface SubscriptionSimulatorConfig {
+  /** Packages of the current offering (defaults to SIMULATED_PACKAGES) */
+  packages?: readonly SubscriptionPackage[];
+  /** Other offerings by identifier (defaults to SIMULATED_OFFERINGS) */
+  offerings?: Readonly<Record<string, readonly SubscriptionPackage[]>>;
+  /** Non-subscription products sold (defaults to SIMULATED_PRODUCTS) */
+  products?: readonly SimulatedProduct[];
+  /** Tier granted by purchases (defaults to the highest registered tier) */
+  tier?: SubscriptionTier;
+  /** Artificial latency of repository calls in ms (defaults to 300) */
+  latencyMs?: number;
+  /** AsyncStorage key (defaults to SUBSCRIPTION_SIMULATOR_KEY) */
+  storageKey?: string;
+  /** Clock (injectable for testing) */
+  now?: () => Date;
+}
+
+/**
+ * Simulated repository with controls for the dev panel.
+ *
+ * Control actions resolve to the resulting Subscription, or to
+ * NO_ACTIVE_SUBSCRIPTION when there is no purchase to act on.
+ */
+export interface SubscriptionSimulator extends SubscriptionRepository {
+  /** Read the persisted simulator state */
+  getState(): Promise<SimulatorState>;
+  /** Turn off auto-renewal; access continues until expiry */
+  simulateCancellation(): Promise<Result<Subscription, SubscriptionError>>;
+  /** End the current period now */
+  simulateExpiry(): Promise<Result<Subscription, SubscriptionError>>;
+  /** Report a failed renewal payment; access continues (grace period) */
+  simulateBillingIssue(): Promise<Result<Subscription, SubscriptionError>>;
+  /** Renew for another billing period, clearing trial, cancellation and billing issue */
+  simulateRenewal(): Promise<Result<Subscription, SubscriptionError>>;
+  /** Force an error onto repository calls (null to clear) */
+  setForcedError(error: SimulatorForcedError | null): Promise<void>;
+  /** Erase the simulated store account */
+  reset(): Promise<Subscription>;
+}
+
+/**
+ * Whether the app should use the simulator instead of RevenueCat.
+ * Enabled by `EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR=true`, in development builds only.
+ */
+export function isSubscriptionSimulatorEnabled(): boolean {
+  return __DEV__ && process.env.EXPO_PUBLIC_SUBSCRIPTION_SIMULATOR === 'true';
+}
+
+/**
+ * Type guard for state read back from storage.
+ */
+function isSimulatorState(value: unknown): value is SimulatorState {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.anonymousId === 'string' &&
+    typeof candidate.hasUsedTrial === 'boolean' &&
+    (candidate.appUserId === null || typeof candidate.appUserId === 'string') &&
+    (candidate.purchase === null || typeof candidate.purchase === 'object')
+  );
+}
+
+/**
+ * Convert the simulated store account to the current user's Subscription.
+ *
+ * @param state - Simulator state
+ * @param now - Current time
+ * @returns Subscription (free unless the current user owns an unexpired purchase)
+ */
+export function toSimulatedSubscription(
+  state: SimulatorState,
+  now: Date
+): Subscription {
+  const { purchase } = state;
+  const currentUserId = state.appUserId ?? state.anonymousId;
+
+  if (!purchase || purchase.ownerId !== currentUserId) {
+    return DEFAULT_FREE_SUBSCRIPTION;
+  }
+
+  const expiresAt = purchase.expiresAt ? new Date(purchase.expiresAt) : null;
+  if (expiresAt && expiresAt.getTime() <= now.getTime()) {
+    return DEFAULT_FREE_SUBSCRIPTION;
+  }
+
+  return {
+    isActive: true,
+    tier: purchase.tier,
+    expiresAt,
+    productId: purchase.productId,
+    willRenew: purchase.willRenew,
+    isTrialPeriod: purchase.isTrialPeriod,
+    billingIssueDetectedAt: purchase.billingIssueDetectedAt
+      ? new Date(purchase.billingIssueDetectedAt)
+      : null,
+    cancelledAt: purchase.cancelledAt ? new Date(purchase.cancelledAt) : null,
+  };
+}
+
+/**
+ * Create a subscription simulator.
+ *
+ * @param config - Simulator configuration
+ * @returns SubscriptionSimulator (usable wherever a SubscriptionRepository is)
+ *
+ * @example
+ * ```ts
+ * const simulator = createSubscriptionSimulator({ latencyMs: 0 });
+ * const service = createSubscriptionService({ repository: simulator });
+ *
+ * await simulator.setForcedError({ code: 'NETWORK_ERROR', persistent: false });
+ * await service.purchasePackage('$rc_monthly'); // fails with NETWORK_ERROR
+ * await service.purchasePackage('$rc_monthly'); // succeeds (trial)
+ * ```
+ */
+export function createSubscriptionSimulator(
+  config: SubscriptionSimulatorConfig = {}
+): SubscriptionSimulator {
+  const {
+    packages = SIMULATED_PACKAGES,
+    offerings = SIMULATED_OFFERINGS,
+    products = SIMULATED_PRODUCTS,
+    tier,
+    latencyMs = 300,
+    storageKey = SUBSCRIPTION_SIMULATOR_KEY,
+    now = () => new Date(),
+  } = config;
+
+  const listeners = new Set<(subscription: Subscription) => void>();
+  let state: SimulatorState | null = null;
+  let transactionCount = 0;
+
+  function createAnonymousId(): string {
+    return `$RCAnonymousID:simulator-${now().getTime().toString(36)}`;
+  }
+
+  function createInitialState(): SimulatorState {
+    return {
+      appUserId: null,
+      anonymousId: createAnonymousId(),
+      purchase: null,
+      hasUsedTrial: false,
+      forcedError: null,
+    };
+  }
+
+  /**
+   * Tier granted by purchases: the configured tier or the highest paid tier.
+   */
+  function getGrantedTier(): SubscriptionTier {
+    const { tiers } = getEntitlementRegistry();
+    return tier ?? tiers[tiers.length - 1]?.tier ?? 'premium';
+  }
+
+  async function load(): Promise<SimulatorState> {
+    if (state) {
+      return state;
+    }
+
+    try {
+      const raw = await AsyncStorage.getItem(storageKey);
+      const parsed: unknown = raw === null ? null : JSON.parse(raw);
+      state = isSimulatorState(parsed) ? parsed : createInitialState();
+    } catch {
+      state = createInitialState();
+    }
+    return state;
+  }
+
+  async function save(next: SimulatorState): Promise<SimulatorState> {
+    state = next;
+    await AsyncStorage.setItem(storageKey, JSON.stringify(next));
+    return next;
+  }
+
+  async function simulateLatency(): Promise<void> {
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs));
+    }
+  }
+
+  /**
+   * Run a repository call: wait, then fail with the forced error (consuming
+   * it unless persistent) or perform the call.
+   */
+  async function run<T>(
+    call: (current: SimulatorState) => Promise<Result<T, SubscriptionError>>
+  ): Promise<Result<T, SubscriptionError>> {
+    await simulateLatency();
+    const current = await load();
+    const { forcedError } = current;
+
+    if (forcedError) {
+      if (!forcedError.persistent) {
+        await save({ ...current, forcedError: null });
+      }
+      return { success: false, error: SIMULATED_ERRORS[forcedError.code] };
+    }
+
+    return call(current);
+  }
+
+  function currentSubscription(current: SimulatorState): Subscription {
+    return toSimulatedSubscription(current, now());
+  }
+
+  function notify(subscription: Subscription): void {
+    listeners.forEach((listener) => listener(subscription));
+  }
+
+  /**
+   * Apply a change to the current user's active purchase and push the
+   * resulting Subscription to listeners.
+   */
+  async function updateActivePurchase(
+    update: (purchase: SimulatedPurchase) => SimulatedPurchase
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    const current = await load();
+
+    if (!current.purchase || !currentSubscription(current).isActive) {
+      return {
+        success: false,
+        error: SIMULATED_ERRORS.NO_ACTIVE_SUBSCRIPTION,
+      };
+    }
+
+    const next = await save({
+      ...current,
+      purchase: update(current.purchase),
+    });
+    const subscription = currentSubscription(next);
+    notify(subscription);
+    return { success: true, data: subscription };
+  }
+
+  function addPeriod(from: Date, packageType: SubscriptionPackageType) {
+    const periodMs = BILLING_PERIOD_MS[packageType];
+    return periodMs === undefined
+      ? null
+      : new Date(from.getTime() + periodMs).toISOString();
+  }
+
+  function packageNotFound(packageId: string): SubscriptionError {
+    return {
+      code: 'UNKNOWN_ERROR',
+      message: `Package not found: ${packageId}`,
+      retryable: false,
+    };
+  }
+
+  /**
+   * Find a package in the current offering, or in `offeringId`.
+   */
+  function findPackage(
+    packageId: string,
+    offeringId?: string
+  ): Result<SubscriptionPackage, SubscriptionError> {
+    const offering = offeringId ? offerings[offeringId] : packages;
+    if (!offering) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message: `Package not found: Offering ${offeringId} not available`,
+          retryable: false,
+        },
+      };
+    }
+
+    const pkg = offering.find((p) => p.identifier === packageId);
+    if (!pkg) {
+      return { success: false, error: packageNotFound(packageId) };
+    }
+    return { success: true, data: pkg };
+  }
+
+  function createTransactionId(): string {
+    transactionCount += 1;
+    return `simulated_transaction_${now().getTime().toString(36)}_${transactionCount}`;
+  }
+
+  /**
+   * Whether an offer is available to the store account: promotional offers
+   * need a previous purchase, win-back offers a lapsed one.
+   */
+  function isOfferAvailable(
+    current: SimulatorState,
+    offer: SubscriptionOffer
+  ): boolean {
+    if (!current.purchase) {
+      return false;
+    }
+    return (
+      offer.type === 'promotional' || !currentSubscription(current).isActive
+    );
+  }
+
+  /**
+   * Purchase a package for the current user. Offer purchases and redeemed
+   * codes never start the free trial.
+   */
+  async function grantPurchase(
+    current: SimulatorState,
+    pkg: SubscriptionPackage,
+    options: { allowTrial: boolean }
+  ): Promise<Result<PackagePurchase, SubscriptionError>> {
+    const productId = `simulated_${pkg.packageType.toLowerCase()}`;
+    const active = currentSubscription(current);
+
+    if (active.isActive && active.productId === productId) {
+      return {
+        success: false,
+        error: SIMULATED_ERRORS.PRODUCT_ALREADY_PURCHASED,
+      };
+    }
+
+    const purchasedAt = now();
+    const startsTrial =
+      options.allowTrial &&
+      pkg.introPrice?.price === 0 &&
+      !current.hasUsedTrial;
+    const expiresAt = startsTrial
+      ? new Date(purchasedAt.getTime() + TRIAL_PERIOD_MS).toISOString()
+      : addPeriod(purchasedAt, pkg.packageType);
+    const transactionId = createTransactionId();
+
+    const next = await save({
+      ...current,
+      hasUsedTrial: current.hasUsedTrial || startsTrial,
+      purchase: {
+        ownerId: current.appUserId ?? current.anonymousId,
+        productId,
+        transactionId,
+        packageType: pkg.packageType,
+        tier: getGrantedTier(),
+        expiresAt,
+        willRenew: expiresAt !== null,
+        isTrialPeriod: startsTrial,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      },
+    });
+
+    return {
+      success: true,
+      data: { subscription: currentSubscription(next), transactionId },
+    };
+  }
+
+  const simulator: SubscriptionSimulator = {
+    getCustomerInfo() {
+      return run(async (current) => ({
+        success: true,
+        data: currentSubscription(current),
+      }));
+    },
+
+    getAvailablePackages() {
+      return run(async () => ({ success: true, data: [...packages] }));
+    },
+
+    getOfferingPackages(offeringId: string) {
+      return run(async (current) => {
+        const offering = offerings[offeringId];
+        if (!offering) {
+          return { success: true, data: null };
+        }
+        // Like RevenueCat: the trial is only advertised while it can be used
+        return {
+          success: true,
+          data: offering.map((pkg) => {
+            if (!current.hasUsedTrial || !pkg.introPrice) {
+              return pkg;
+            }
+            const { introPrice: _ineligible, ...rest } = pkg;
+            return rest;
+          }),
+        };
+      });
+    },
+
+    purchasePackage(packageId: string, offeringId?: string) {
+      return run(async (current) => {
+        const found = findPackage(packageId, offeringId);
+        if (!found.success) {
+          return found;
+        }
+        return grantPurchase(current, found.data, { allowTrial: true });
+      });
+    },
+
+    purchaseProduct(productId: string) {
+      return run(
+        async (
+          current
+        ): Promise<Result<ProductPurchase, SubscriptionError>> => {
+          const product = products.find((p) => p.identifier === productId);
+          if (!product) {
+            return {
+              success: false,
+              error: {
+                code: 'UNKNOWN_ERROR',
+                message: `Product not found: ${productId}`,
+                retryable: false,
+              },
+            };
+          }
+
+          let next = current;
+          const transactionId = createTransactionId();
+          if (product.type === 'non_consumable') {
+            const active = currentSubscription(current);
+            if (active.isActive && active.productId === productId) {
+              return {
+                success: false,
+                error: SIMULATED_ERRORS.PRODUCT_ALREADY_PURCHASED,
+              };
+            }
+
+            // Lifetime unlocks replace any subscription and never expire
+            next = await save({
+              ...current,
+              purchase: {
+                ownerId: current.appUserId ?? current.anonymousId,
+                productId,
+                transactionId,
+                packageType: 'LIFETIME',
+                tier: getGrantedTier(),
+                expiresAt: null,
+                willRenew: false,
+                isTrialPeriod: false,
+                billingIssueDetectedAt: null,
+                cancelledAt: null,
+              },
+            });
+          }
+
+          return {
+            success: true,
+            data: {
+              productId,
+              transactionId,
+              subscription: currentSubscription(next),
+            },
+          };
+        }
+      );
+    },
+
+    getIntroEligibility(packageIds: string[]) {
+      return run(async (current) => {
+        const eligibility: Record<string, IntroEligibility> = {};
+        for (const pkg of packages) {
+          if (!packageIds.includes(pkg.identifier)) {
+            continue;
+          }
+          if (!pkg.introPrice) {
+            eligibility[pkg.identifier] = 'no_intro_offer';
+          } else {
+            eligibility[pkg.identifier] = current.hasUsedTrial
+              ? 'ineligible'
+              : 'eligible';
+          }
+        }
+        return { success: true, data: eligibility };
+      });
+    },
+
+    getOffers(packageId: string) {
+      return run(async (current) => {
+        if (!packages.some((p) => p.identifier === packageId)) {
+          return { success: false, error: packageNotFound(packageId) };
+        }
+        // Like RevenueCat: promotional offers are always listed, win-back
+        // offers only when eligible
+        return {
+          success: true,
+          data: SIMULATED_OFFERS.filter(
+            (offer) =>
+              offer.type === 'promotional' || isOfferAvailable(current, offer)
+          ),
+        };
+      });
+    },
+
+    purchasePackageWithOffer(packageId: string, offer: SubscriptionOffer) {
+      return run(async (current) => {
+        const pkg = packages.find((p) => p.identifier === packageId);
+        if (!pkg) {
+          return { success: false, error: packageNotFound(packageId) };
+        }
+        if (
+          !SIMULATED_OFFERS.some(
+            (candidate) => candidate.identifier === offer.identifier
+          )
+        ) {
+          return { success: false, error: SIMULATED_ERRORS.INVALID_OFFER };
+        }
+        if (!isOfferAvailable(current, offer)) {
+          return {
+            success: false,
+            error: SIMULATED_ERRORS.INELIGIBLE_FOR_OFFER,
+          };
+        }
+        return grantPurchase(current, pkg, { allowTrial: false });
+      });
+    },
+
+    redeemOfferCode(code?: string) {
+      return run(async (current) => {
+        // The store sheet would ask for the code; the simulator needs it up front
+        const pkg = packages[0];
+        if (!code?.trim() || !pkg) {
+          return { success: false, error: SIMULATED_ERRORS.INVALID_OFFER };
+        }
+
+        const result = await grantPurchase(current, pkg, {
+          allowTrial: false,
+        });
+        if (!result.success) {
+          return result;
+        }
+
+        // Redemptions complete outside the app and arrive as a push update
+        notify(result.data.subscription);
+        return { success: true, data: undefined };
+      });
+    },
+
+    restorePurchases() {
+      return run(async (current) => {
+        if (!current.purchase) {
+          return { success: true, data: null };
+        }
+
+        // Restoring transfers the store account's purchase to the current user
+        const next = await save({
+          ...current,
+          purchase: {
+            ...current.purchase,
+            ownerId: current.appUserId ?? current.anonymousId,
+          },
+        });
+        const subscription = currentSubscription(next);
+
+        return {
+          success: true,
+          data: subscription.isActive
+            ? { subscription, transactionId: current.purchase.transactionId }
+            : null,
+        };
+      });
+    },
+
+    logIn(appUserId: string) {
+      return run(async (current) => {
+        if (appUserId.trim() === '') {
+          return {
+            success: false,
+            error: {
+              code: 'INVALID_APP_USER_ID',
+              message: 'App user id must not be empty',
+              retryable: false,
+            },
+          };
+        }
+
+        // Purchases made while anonymous are aliased to the identified user
+        const { purchase } = current;
+        const next = await save({
+          ...current,
+          appUserId,
+          purchase:
+            purchase && purchase.ownerId === current.anonymousId
+              ? { ...purchase, ownerId: appUserId }
+              : purchase,
+        });
+
+        return { success: true, data: currentSubscription(next) };
+      });
+    },
+
+    logOut() {
+      return run(async (current) => {
+        if (current.appUserId === null) {
+          return { success: true, data: currentSubscription(current) };
+        }
+
+        const next = await save({
+          ...current,
+          appUserId: null,
+          anonymousId: createAnonymousId(),
+        });
+
+        return { success: true, data: currentSubscription(next) };
+      });
+    },
+
+    getAppUserId() {
+      return run(
+        async (current): Promise<Result<string, SubscriptionError>> => ({
+          success: true,
+          data: current.appUserId ?? current.anonymousId,
+        })
+      );
+    },
+
+    openManagementUrl() {
+      // There is no store page; the dev panel's controls stand in for it
+      return run(async () => ({ success: true, data: undefined }));
+    },
+
+    beginRefundRequest(productId: string) {
+      return run(
+        async (
+          current
+        ): Promise<Result<RefundRequestStatus, SubscriptionError>> => {
+          const { purchase } = current;
+          if (
+            !purchase ||
+            purchase.productId !== productId ||
+            !currentSubscription(current).isActive
+          ) {
+            return {
+              success: false,
+              error: {
+                code: 'UNKNOWN_ERROR',
+                message: `Product not found: ${productId}`,
+                retryable: false,
+              },
+            };
+          }
+
+          // Refunds are granted immediately and revoke access, as the store would
+          const next = await save({
+            ...current,
+            purchase: {
+              ...purchase,
+              willRenew: false,
+              expiresAt: now().toISOString(),
+            },
+          });
+          notify(currentSubscription(next));
+          return { success: true, data: 'submitted' };
+        }
+      );
+    },
+
+    addSubscriptionListener(
+      listener: (subscription: Subscription) => void
+    ): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState() {
+      return load();
+    },
+
+    simulateCancellation() {
+      return updateActivePurchase((purchase) => ({
+        ...purchase,
+        willRenew: false,
+        cancelledAt: now().toISOString(),
+      }));
+    },
+
+    simulateExpiry() {
+      return updateActivePurchase((purchase) => ({
+        ...purchase,
+        willRenew: false,
+        expiresAt: now().toISOString(),
+      }));
+    },
+
+    simulateBillingIssue() {
+      return updateActivePurchase((purchase) => ({
+        ...purchase,
+        billingIssueDetectedAt: now().toISOString(),
+      }));
+    },
+
+    simulateRenewal() {
+      return updateActivePurchase((purchase) => {
+        const expiresAt = purchase.expiresAt
+          ? new Date(purchase.expiresAt)
+          : now();
+        return {
+          ...purchase,
+          expiresAt: addPeriod(expiresAt, purchase.packageType),
+          willRenew: true,
+          isTrialPeriod: false,
+          billingIssueDetectedAt: null,
+          cancelledAt: null,
+        };
+      });
+    },
+
+    async setForcedError(error: SimulatorForcedError | null): Promise<void> {
+      const current = await load();
+      await save({ ...current, forcedError: error });
+    },
+
+    async reset(): Promise<Subscription> {
+      const next = await save(createInitialState());
+      const subscription = currentSubscription(next);
+      notify(subscription);
+      return subscription;
+    },
+  };
+
+  return simulator;
+}
+
+/**
+ * Default simulator used by the app when isSubscriptionSimulatorEnabled().
+ */
+export const subscriptionSimulator: SubscriptionSimulator =
+  createSubscriptionSimulator();
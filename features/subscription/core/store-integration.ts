@@ -2,7 +2,8 @@
  * Zustand Store Integration
  *
  * Provides integration between the Subscription Service and the Zustand store.
- * Synchronizes subscription state changes with the store's isPremium flag.
+ * Synchronizes subscription state changes with the store's isPremium flag
+ * and active subscription tier.
  *
  * This module bridges the subscription domain with the existing app state management,
  * maintaining compatibility with the existing store/slices/app-slice.ts structure.
@@ -11,18 +12,22 @@
  */
 
 import { useStore } from '@/store';
-import type { Subscription } from './types';
+import { FREE_TIER, type Subscription } from './types';
+import { isPaidTier } from './entitlements';
 
 /**
  * Synchronize subscription state to the Zustand store.
  *
- * Updates the `isPremium` flag in the store based on the subscription tier.
+ * Updates the `isPremium` flag in the store based on the subscription tier,
+ * and `subscriptionTier` to the active tier ('free' when not premium) so
+ * per-tier usage limits apply.
  * This function directly mutates the store state using Zustand's getState().setPremium().
  *
- * Design Decision: We check both `tier` AND `isActive` to determine premium status.
- * - `tier === 'premium'` alone would grant access to expired subscriptions
+ * Design Decision: We check both the tier AND `isActive` to determine premium status.
+ * - Any paid tier in the entitlement registry counts as premium (e.g., 'plus' and 'pro')
+ * - A paid tier alone would grant access to expired subscriptions
  * - `isActive` ensures the subscription hasn't expired
- * - This prevents users with expired premium subscriptions from accessing premium features
+ * - This prevents users with expired subscriptions from accessing paid features
  *
  * @param subscription - The current subscription state to sync
  *
@@ -31,6 +36,7 @@ import type { Subscription } from './types';
  * const subscription = { tier: 'premium', isActive: true, ... };
  * syncSubscriptionToStore(subscription);
  * // useStore.getState().isPremium is now true
+ * // useStore.getState().subscriptionTier is now 'premium'
  *
  * const expiredSubscription = { tier: 'premium', isActive: false, ... };
  * syncSubscriptionToStore(expiredSubscription);
@@ -38,8 +44,10 @@ import type { Subscription } from './types';
  * ```
  */
 export function syncSubscriptionToStore(subscription: Subscription): void {
-  const isPremium = subscription.tier === 'premium' && subscription.isActive;
-  useStore.getState().setPremium(isPremium);
+  const isPremium = isPaidTier(subscription.tier) && subscription.isActive;
+  const { setPremium, setSubscriptionTier } = useStore.getState();
+  setPremium(isPremium);
+  setSubscriptionTier(isPremium ? subscription.tier : FREE_TIER);
 }
 
 /**
@@ -0,0 +1,176 @@
+/**
+ * Subscription Cache
+ *
+ * Persists the last known Subscription on device so paying users keep access
+ * when RevenueCat is unreachable (offline, flaky network, SDK init timeout).
+ *
+ * This module is responsible for:
+ * - Serializing/deserializing Subscription (including `expiresAt`) to AsyncStorage
+ * - Deciding whether a cached Subscription may still be honoured (expiry + grace window)
+ *
+ * @module features/subscription/core/subscription-cache
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Subscription } from './types';
+
+/**
+ * AsyncStorage key for the persisted subscription
+ */
+export const SUBSCRIPTION_CACHE_KEY = 'subscription-cache';
+
+/**
+ * Default grace window after `expiresAt` during which a cached
+ * subscription is still honoured (3 days).
+ */
+export const DEFAULT_CACHE_GRACE_PERIOD_MS = 3 * 24 * 60 * 60 * 1000;
+
+/**
+ * Storage abstraction for the last known subscription.
+ * Implementations may throw; the service logs and ignores cache failures.
+ */
+export interface SubscriptionCache {
+  /** Load the persisted subscription (null if none or unreadable) */
+  load(): Promise<Subscription | null>;
+  /** Persist a subscription, replacing any previous value */
+  save(subscription: Subscription): Promise<void>;
+  /** Remove the persisted subscription */
+  clear(): Promise<void>;
+}
+
+/**
+ * Serialized form stored in AsyncStorage (dates as ISO strings).
+ * Renewal fields are optional so caches written by older app versions still load.
+ */
+interface StoredSubscription {
+  isActive: boolean;
+  tier: string;
+  expiresAt: string | null;
+  productId: string | null;
+  willRenew?: boolean;
+  isTrialPeriod?: boolean;
+  billingIssueDetectedAt?: string | null;
+  cancelledAt?: string | null;
+}
+
+/**
+ * Type guard for data read back from storage.
+ */
+function isStoredSubscription(value: unknown): value is StoredSubscription {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.isActive === 'boolean' &&
+    typeof candidate.tier === 'string' &&
+    (candidate.expiresAt === null || typeof candidate.expiresAt === 'string') &&
+    (candidate.productId === null || typeof candidate.productId === 'string')
+  );
+}
+
+/**
+ * Parse a stored ISO date.
+ *
+ * @returns Date, null for a missing value, or undefined if the string is not a valid date
+ */
+function parseDate(value: string | null | undefined): Date | null | undefined {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Create a SubscriptionCache backed by AsyncStorage.
+ *
+ * @param storageKey - AsyncStorage key (defaults to SUBSCRIPTION_CACHE_KEY)
+ * @returns SubscriptionCache instance
+ *
+ * @example
+ * ```ts
+ * const service = createSubscriptionService({
+ *   repository: subscriptionRepository,
+ *   cache: createAsyncStorageSubscriptionCache(),
+ * });
+ * ```
+ */
+export function createAsyncStorageSubscriptionCache(
+  storageKey: string = SUBSCRIPTION_CACHE_KEY
+): SubscriptionCache {
+  return {
+    async load(): Promise<Subscription | null> {
+      const raw = await AsyncStorage.getItem(storageKey);
+
+      if (raw === null) {
+        return null;
+      }
+
+      const parsed: unknown = JSON.parse(raw);
+
+      if (!isStoredSubscription(parsed)) {
+        return null;
+      }
+
+      const expiresAt = parseDate(parsed.expiresAt);
+
+      if (expiresAt === undefined) {
+        return null;
+      }
+
+      return {
+        isActive: parsed.isActive,
+        tier: parsed.tier,
+        expiresAt,
+        productId: parsed.productId,
+        willRenew: parsed.willRenew ?? false,
+        isTrialPeriod: parsed.isTrialPeriod ?? false,
+        billingIssueDetectedAt:
+          parseDate(parsed.billingIssueDetectedAt) ?? null,
+        cancelledAt: parseDate(parsed.cancelledAt) ?? null,
+      };
+    },
+
+    async save(subscription: Subscription): Promise<void> {
+      const stored: StoredSubscription = {
+        isActive: subscription.isActive,
+        tier: subscription.tier,
+        expiresAt: subscription.expiresAt?.toISOString() ?? null,
+        productId: subscription.productId,
+        willRenew: subscription.willRenew,
+        isTrialPeriod: subscription.isTrialPeriod,
+        billingIssueDetectedAt:
+          subscription.billingIssueDetectedAt?.toISOString() ?? null,
+        cancelledAt: subscription.cancelledAt?.toISOString() ?? null,
+      };
+      await AsyncStorage.setItem(storageKey, JSON.stringify(stored));
+    },
+
+    async clear(): Promise<void> {
+      await AsyncStorage.removeItem(storageKey);
+    },
+  };
+}
+
+/**
+ * Check whether a cached subscription may still be honoured.
+ *
+ * Subscriptions without an expiry (free, lifetime) never go stale.
+ * Otherwise the cache is honoured until `expiresAt + gracePeriodMs`.
+ *
+ * @param subscription - Cached subscription
+ * @param gracePeriodMs - Grace window after expiry
+ * @param now - Current time (injectable for testing)
+ * @returns true if the cached subscription can be used
+ */
+export function isCachedSubscriptionUsable(
+  subscription: Subscription,
+  gracePeriodMs: number = DEFAULT_CACHE_GRACE_PERIOD_MS,
+  now: Date = new Date()
+): boolean {
+  if (subscription.expiresAt === null) {
+    return true;
+  }
+  return now.getTime() <= subscription.expiresAt.getTime() + gracePeriodMs;
+}
@@ -7,6 +7,13 @@
  * @module features/subscription/core/types
  */
 
+/**
+ * Subscription tier identifier.
+ * 'free' is built in; paid tiers (e.g., 'premium', 'plus', 'pro') are
+ * declared in the EntitlementRegistry.
+ */
+export type SubscriptionTier = 'free' | (string & {});
+
 /**
  * Subscription entity representing the user's subscription state.
  * This is the main domain entity for subscription management.
@@ -14,14 +21,29 @@
 export interface Subscription {
   /** Whether the subscription is currently active */
   isActive: boolean;
-  /** Subscription tier (free or premium) */
-  tier: 'free' | 'premium';
+  /** Subscription tier ('free' or a paid tier from the EntitlementRegistry) */
+  tier: SubscriptionTier;
   /** Expiration date of the subscription (null for lifetime or free tier) */
   expiresAt: Date | null;
   /** Product identifier (e.g., "monthly_plan", null for free tier) */
   productId: string | null;
+  /** Whether the subscription auto-renews (false once cancelled, and for free/lifetime) */
+  willRenew: boolean;
+  /** Whether the subscription is in a free trial or introductory-price period */
+  isTrialPeriod: boolean;
+  /** When the store reported a failed renewal payment (null if billing is healthy) */
+  billingIssueDetectedAt: Date | null;
+  /** When the user turned off auto-renewal (null if not cancelled) */
+  cancelledAt: Date | null;
 }
 
+/**
+ * Where the current Subscription came from.
+ * - 'remote': fetched from (or pushed by) RevenueCat
+ * - 'cache': last known state persisted on device, used while RevenueCat is unreachable
+ */
+export type SubscriptionSource = 'remote' | 'cache';
+
 /**
  * Usage limits value object based on subscription tier.
  * Immutable object that defines resource limits for each tier.
@@ -35,6 +57,21 @@ export interface UsageLimits {
   hasAds: boolean;
 }
 
+/**
+ * Package duration type.
+ * Mirrors RevenueCat's PACKAGE_TYPE values.
+ */
+export type SubscriptionPackageType =
+  | 'WEEKLY'
+  | 'MONTHLY'
+  | 'TWO_MONTH'
+  | 'THREE_MONTH'
+  | 'SIX_MONTH'
+  | 'ANNUAL'
+  | 'LIFETIME'
+  | 'CUSTOM'
+  | 'UNKNOWN';
+
 /**
  * Subscription package available for purchase.
  * Maps to RevenueCat's package offering.
@@ -42,6 +79,8 @@ export interface UsageLimits {
 export interface SubscriptionPackage {
   /** Package identifier (e.g., "$rc_monthly", "$rc_annual") */
   identifier: string;
+  /** Package duration type (e.g., "MONTHLY", "ANNUAL") */
+  packageType: SubscriptionPackageType;
   /** Display title (e.g., "Monthly", "Annual") */
   title: string;
   /** Price string (e.g., "$9.99") */
@@ -50,20 +89,191 @@ export interface SubscriptionPackage {
   price: number;
   /** Currency code (e.g., "USD") */
   currencyCode: string;
-  /** Introductory price (if available) */
+  /**
+   * Introductory price (if available). A price of 0 is a free trial.
+   * Removed once the store reports the user is not eligible for it.
+   */
   introPrice?: {
     priceString: string;
     price: number;
+    /** ISO 8601 duration (e.g., "P1W", "P3M") */
     period: string;
   };
 }
 
+/**
+ * Whether the user can get a package's introductory price (free trial or intro pricing).
+ * Mirrors RevenueCat's INTRO_ELIGIBILITY_STATUS values.
+ * - 'eligible': The introductory price applies to a purchase
+ * - 'ineligible': The user already used an introductory offer in this subscription group
+ * - 'no_intro_offer': The product has no introductory offer
+ * - 'unknown': The store could not determine eligibility (e.g., Android, offline)
+ */
+export type IntroEligibility =
+  | 'eligible'
+  | 'ineligible'
+  | 'no_intro_offer'
+  | 'unknown';
+
+/**
+ * Discount offer type.
+ * - 'promotional': Store promotional offer for current or lapsed subscribers (iOS)
+ * - 'win_back': Store win-back offer for lapsed subscribers (iOS 18+)
+ */
+export type SubscriptionOfferType = 'promotional' | 'win_back';
+
+/**
+ * Discount offer that can be applied when purchasing a package.
+ */
+export interface SubscriptionOffer {
+  /** Offer identifier configured in the store */
+  identifier: string;
+  /** Offer type */
+  type: SubscriptionOfferType;
+  /** Discounted price string (e.g., "$4.99") */
+  priceString: string;
+  /** Discounted price in decimal (0 for a free period) */
+  price: number;
+  /** ISO 8601 duration of one discounted period (e.g., "P1M") */
+  period: string;
+  /** Number of discounted periods */
+  cycles: number;
+}
+
+/**
+ * Outcome of a refund request the user completed.
+ * - 'submitted': The request was sent to the store for review
+ * - 'cancelled': The user closed the refund sheet without submitting
+ */
+export type RefundRequestStatus = 'submitted' | 'cancelled';
+
+/**
+ * Completed purchase of a non-subscription product: a consumable (e.g.
+ * credits) or a non-consumable lifetime unlock.
+ */
+export interface ProductPurchase {
+  /** Store product identifier */
+  productId: string;
+  /** Store transaction identifier (unique per purchase, also for repeated consumables) */
+  transactionId: string;
+  /** Subscription after the purchase (lifetime unlocks grant their entitlement) */
+  subscription: Subscription;
+}
+
+/**
+ * Completed package purchase or restore, with the store transaction the
+ * receipt verifier checks.
+ */
+export interface PackagePurchase {
+  /** Subscription after the purchase or restore */
+  subscription: Subscription;
+  /** Store transaction identifier, or null when the store reports none */
+  transactionId: string | null;
+}
+
 /**
  * Feature access level for gating features.
- * - 'basic': Available to all users (free and premium)
- * - 'premium': Available only to premium subscribers
+ * - 'basic': Available to all users (free and paid)
+ * - Any tier (e.g., 'premium', 'plus'): Available to that tier and every tier ranked above it
+ */
+export type FeatureLevel = 'basic' | SubscriptionTier;
+
+/**
+ * Paid tier definition mapping a RevenueCat entitlement to a tier and its limits.
+ */
+export interface TierDefinition {
+  /** Tier identifier (e.g., 'plus', 'pro') */
+  tier: SubscriptionTier;
+  /** RevenueCat entitlement identifier that grants this tier */
+  entitlementId: string;
+  /** Usage limits for this tier */
+  limits: UsageLimits;
+}
+
+/**
+ * Entitlement registry describing the app's tiers.
+ * Paid tiers are ordered from lowest to highest; a user with several active
+ * entitlements is assigned the highest tier.
+ */
+export interface EntitlementRegistry {
+  /** Usage limits for users without an active entitlement */
+  freeLimits: UsageLimits;
+  /** Paid tiers ordered from lowest to highest */
+  tiers: TierDefinition[];
+}
+
+/**
+ * Gated feature definition: the level required to use it and the upsell copy.
+ */
+export interface FeatureGateDefinition {
+  /** Minimum level required to use the feature */
+  level: FeatureLevel;
+  /** Paywall headline shown when this feature triggered the upsell */
+  paywallHeadline?: string;
+}
+
+/**
+ * Gated features keyed by feature key (e.g., 'export', 'unlimited-items').
  */
-export type FeatureLevel = 'basic' | 'premium';
+export type FeatureGateRegistry = Readonly<
+  Record<string, FeatureGateDefinition>
+>;
+
+/**
+ * Limit on how often a placement may show the paywall: at most
+ * `maxImpressions` impressions in any `periodMs` window.
+ */
+export interface PaywallFrequencyCap {
+  /** Impressions allowed per window */
+  maxImpressions: number;
+  /** Window length in milliseconds */
+  periodMs: number;
+}
+
+/**
+ * Paywall placement definition: which offering to present and how often.
+ */
+export interface PaywallPlacementDefinition {
+  /** RevenueCat offering identifier (defaults to the current offering) */
+  offeringId?: string;
+  /** Frequency cap for soft upsells (uncapped if omitted) */
+  frequencyCap?: PaywallFrequencyCap;
+}
+
+/**
+ * Paywall placements keyed by placement id (e.g., 'settings_upgrade', 'item_limit').
+ */
+export type PaywallPlacementRegistry = Readonly<
+  Record<string, PaywallPlacementDefinition>
+>;
+
+/**
+ * Tracked paywall event for a placement.
+ * - 'impression': The paywall was shown
+ * - 'dismissal': The paywall was closed without a purchase
+ * - 'conversion': A purchase completed on the paywall
+ */
+export type PaywallPlacementEvent = 'impression' | 'dismissal' | 'conversion';
+
+/**
+ * Tracked paywall events for a placement.
+ */
+export interface PaywallPlacementStats {
+  impressions: number;
+  dismissals: number;
+  conversions: number;
+  /** When the paywall was last shown for the placement */
+  lastImpressionAt: Date | null;
+}
+
+/**
+ * Paywall the presenter decided to show for a placement.
+ */
+export interface PaywallPresentation {
+  placementId: string;
+  /** Offering to present (null for the current offering) */
+  offeringId: string | null;
+}
 
 /**
  * Subscription error types.
@@ -84,7 +294,13 @@ export type SubscriptionError =
       retryable: true;
     }
   | { code: 'RECEIPT_ALREADY_IN_USE_ERROR'; message: string; retryable: false }
+  | { code: 'INVALID_APP_USER_ID'; message: string; retryable: false }
+  | { code: 'OPERATION_IN_PROGRESS'; message: string; retryable: false }
   | { code: 'NO_ACTIVE_SUBSCRIPTION'; message: string; retryable: false }
+  | { code: 'INELIGIBLE_FOR_OFFER'; message: string; retryable: false }
+  | { code: 'INVALID_OFFER'; message: string; retryable: false }
+  | { code: 'OPERATION_NOT_SUPPORTED'; message: string; retryable: false }
+  | { code: 'RECEIPT_VERIFICATION_FAILED'; message: string; retryable: false }
   | { code: 'UNKNOWN_ERROR'; message: string; retryable: false };
 
 /**
@@ -115,6 +331,7 @@ export interface CustomerInfo {
   originalAppUserId: string;
   originalApplicationVersion: string | null;
   originalPurchaseDate: string | null;
+  managementURL: string | null;
 }
 
 /**
@@ -193,9 +410,33 @@ export const DEFAULT_FREE_SUBSCRIPTION: Subscription = {
   tier: 'free',
   expiresAt: null,
   productId: null,
+  willRenew: false,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
 };
 
 /**
  * Premium entitlement identifier used in RevenueCat.
  */
 export const PREMIUM_ENTITLEMENT_ID = 'premium';
+
+/**
+ * Free tier identifier.
+ */
+export const FREE_TIER: SubscriptionTier = 'free';
+
+/**
+ * Default entitlement registry: a single 'premium' tier granted by the
+ * PREMIUM_ENTITLEMENT_ID entitlement.
+ */
+export const DEFAULT_ENTITLEMENT_REGISTRY: EntitlementRegistry = {
+  freeLimits: FREE_TIER_LIMITS,
+  tiers: [
+    {
+      tier: 'premium',
+      entitlementId: PREMIUM_ENTITLEMENT_ID,
+      limits: PREMIUM_TIER_LIMITS,
+    },
+  ],
+};
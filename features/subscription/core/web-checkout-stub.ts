@@ -0,0 +1,267 @@
+/**
+ * Stub Web Checkout Server
+ *
+ * In-memory checkout backend answering the HTTP provider's endpoints, for
+ * tests and local web development without a payment processor.
+ *
+ * This module is responsible for:
+ * - Serving packages, offerings, checkout sessions and customers through a fetch function
+ * - Completing checkout sessions on demand (what the hosted checkout page would do)
+ * - Failing requests with an HTTP status or a network error on demand
+ *
+ * @module features/subscription/core/web-checkout-stub
+ */
+
+import { SIMULATED_OFFERINGS, SIMULATED_PACKAGES } from './simulator';
+import type { SubscriptionPackage, SubscriptionPackageType } from './types';
+import { PREMIUM_ENTITLEMENT_ID } from './types';
+import type {
+  WebCheckoutCustomer,
+  WebCheckoutFetch,
+  WebCheckoutSession,
+} from './web-checkout';
+
+/**
+ * Base URL the stub server answers on
+ */
+export const STUB_WEB_CHECKOUT_URL = 'https://checkout.stub';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Billing period per package type. Types without an entry never expire.
+ */
+const BILLING_PERIOD_MS: Partial<Record<SubscriptionPackageType, number>> = {
+  WEEKLY: 7 * DAY_MS,
+  MONTHLY: 30 * DAY_MS,
+  TWO_MONTH: 60 * DAY_MS,
+  THREE_MONTH: 90 * DAY_MS,
+  SIX_MONTH: 180 * DAY_MS,
+  ANNUAL: 365 * DAY_MS,
+};
+
+/**
+ * Checkout session opened on the stub server.
+ */
+export interface StubCheckoutSession extends WebCheckoutSession {
+  appUserId: string;
+  packageId: string;
+  /** Offering the package was sold from (null for the current offering) */
+  offeringId: string | null;
+  status: 'open' | 'complete';
+}
+
+/**
+ * Stub server configuration.
+ */
+export interface StubWebCheckoutServerConfig {
+  /** Packages sold (defaults to SIMULATED_PACKAGES) */
+  packages?: readonly SubscriptionPackage[];
+  /** Other offerings by identifier (defaults to SIMULATED_OFFERINGS) */
+  offerings?: Readonly<Record<string, readonly SubscriptionPackage[]>>;
+  /** Entitlement granted by checkouts (defaults to PREMIUM_ENTITLEMENT_ID) */
+  entitlementId?: string;
+  /** Clock (injectable for testing) */
+  now?: () => Date;
+}
+
+/**
+ * Stub checkout backend with controls for tests.
+ */
+export interface StubWebCheckoutServer {
+  /** Base URL to pass to createHttpWebCheckoutProvider */
+  baseUrl: string;
+  /** fetch function to pass to createHttpWebCheckoutProvider */
+  fetch: WebCheckoutFetch;
+  /** Sessions opened so far, oldest first */
+  getSessions(): readonly StubCheckoutSession[];
+  /** Pay for a session: the customer gains the entitlement */
+  completeCheckout(sessionId: string): void;
+  /** Replace a customer's record */
+  setCustomer(appUserId: string, customer: WebCheckoutCustomer): void;
+  /** Answer the next request with an HTTP status, or fail it like a lost connection (null) */
+  failNextRequest(status: number | null): void;
+}
+
+const NO_CUSTOMER: WebCheckoutCustomer = {
+  activeEntitlementIds: [],
+  productId: null,
+  expiresAt: null,
+  willRenew: false,
+  isTrialPeriod: false,
+  billingIssueDetectedAt: null,
+  cancelledAt: null,
+  managementUrl: null,
+};
+
+/**
+ * Create a stub checkout server.
+ *
+ * @param config - Server configuration
+ * @returns StubWebCheckoutServer
+ *
+ * @example
+ * ```ts
+ * const server = createStubWebCheckoutServer();
+ * const repository = createWebCheckoutRepository({
+ *   provider: createHttpWebCheckoutProvider(server),
+ *   sleep: async () => {
+ *     server.getSessions().forEach((s) => server.completeCheckout(s.sessionId));
+ *   },
+ * });
+ * ```
+ */
+export function createStubWebCheckoutServer(
+  config: StubWebCheckoutServerConfig = {}
+): StubWebCheckoutServer {
+  const {
+    packages = SIMULATED_PACKAGES,
+    offerings = SIMULATED_OFFERINGS,
+    entitlementId = PREMIUM_ENTITLEMENT_ID,
+    now = () => new Date(),
+  } = config;
+
+  const sessions: StubCheckoutSession[] = [];
+  const customers = new Map<string, WebCheckoutCustomer>();
+  let nextFailure: { status: number | null } | null = null;
+
+  function getCustomer(appUserId: string): WebCheckoutCustomer {
+    return customers.get(appUserId) ?? NO_CUSTOMER;
+  }
+
+  function ownsProduct(appUserId: string, productId: string): boolean {
+    const customer = getCustomer(appUserId);
+    return (
+      customer.productId === productId &&
+      customer.activeEntitlementIds.length > 0
+    );
+  }
+
+  function respond(status: number, body: unknown) {
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      json: async () => body,
+    };
+  }
+
+  function findPackage(
+    packageId: unknown,
+    offeringId: unknown
+  ): SubscriptionPackage | undefined {
+    const offering =
+      typeof offeringId === 'string' ? offerings[offeringId] : packages;
+    return offering?.find((candidate) => candidate.identifier === packageId);
+  }
+
+  function createSession(body: unknown) {
+    const { appUserId, packageId, offeringId } = (body ?? {}) as Record<
+      string,
+      unknown
+    >;
+    const pkg = findPackage(packageId, offeringId);
+
+    if (typeof appUserId !== 'string' || !pkg) {
+      return respond(400, { error: 'Unknown package' });
+    }
+
+    const productId = `web_${pkg.packageType.toLowerCase()}`;
+    if (ownsProduct(appUserId, productId)) {
+      return respond(409, { error: 'Product already purchased' });
+    }
+
+    const sessionId = `cs_stub_${sessions.length + 1}`;
+    const session: StubCheckoutSession = {
+      sessionId,
+      url: `${STUB_WEB_CHECKOUT_URL}/pay/${sessionId}`,
+      productId,
+      appUserId,
+      packageId: pkg.identifier,
+      offeringId: typeof offeringId === 'string' ? offeringId : null,
+      status: 'open',
+    };
+    sessions.push(session);
+
+    return respond(200, { sessionId, url: session.url, productId });
+  }
+
+  const fetchStub: WebCheckoutFetch = async (url, init) => {
+    if (nextFailure) {
+      const { status } = nextFailure;
+      nextFailure = null;
+      if (status === null) {
+        throw new TypeError('Network request failed');
+      }
+      return respond(status, { error: 'Forced failure' });
+    }
+
+    const path = url.startsWith(STUB_WEB_CHECKOUT_URL)
+      ? url.slice(STUB_WEB_CHECKOUT_URL.length)
+      : url;
+    const method = init?.method ?? 'GET';
+
+    if (method === 'GET' && path === '/packages') {
+      return respond(200, { packages });
+    }
+    if (method === 'GET' && path.startsWith('/offerings/')) {
+      const offering =
+        offerings[decodeURIComponent(path.slice('/offerings/'.length))];
+      return offering
+        ? respond(200, { packages: offering })
+        : respond(404, { error: 'Offering not found' });
+    }
+    if (method === 'POST' && path === '/checkout-sessions') {
+      return createSession(init?.body ? JSON.parse(init.body) : null);
+    }
+    if (method === 'GET' && path.startsWith('/customers/')) {
+      const appUserId = decodeURIComponent(path.slice('/customers/'.length));
+      return respond(200, getCustomer(appUserId));
+    }
+    return respond(404, { error: 'Not found' });
+  };
+
+  return {
+    baseUrl: STUB_WEB_CHECKOUT_URL,
+    fetch: fetchStub,
+
+    getSessions(): readonly StubCheckoutSession[] {
+      return sessions;
+    },
+
+    completeCheckout(sessionId: string): void {
+      const session = sessions.find(
+        (candidate) => candidate.sessionId === sessionId
+      );
+      if (!session || session.status === 'complete') {
+        return;
+      }
+      session.status = 'complete';
+
+      const pkg = findPackage(session.packageId, session.offeringId);
+      const periodMs = pkg ? BILLING_PERIOD_MS[pkg.packageType] : undefined;
+      customers.set(session.appUserId, {
+        activeEntitlementIds: [entitlementId],
+        productId: session.productId,
+        expiresAt:
+          periodMs === undefined
+            ? null
+            : new Date(now().getTime() + periodMs).toISOString(),
+        willRenew: periodMs !== undefined,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+        managementUrl: `${STUB_WEB_CHECKOUT_URL}/portal/${encodeURIComponent(
+          session.appUserId
+        )}`,
+      });
+    },
+
+    setCustomer(appUserId: string, customer: WebCheckoutCustomer): void {
+      customers.set(appUserId, customer);
+    },
+
+    failNextRequest(status: number | null): void {
+      nextFailure = { status };
+    },
+  };
+}
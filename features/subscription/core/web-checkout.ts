@@ -0,0 +1,796 @@
+/**
+ * Web Checkout Repository
+ *
+ * SubscriptionRepository for the web build, where RevenueCat's native SDK
+ * does not run. Purchases go through a hosted checkout page (e.g., Stripe
+ * Checkout behind the app's own backend) instead of an app store.
+ *
+ * This module is responsible for:
+ * - Defining the pluggable WebCheckoutProvider interface
+ * - Talking to a checkout backend over HTTP (createHttpWebCheckoutProvider)
+ * - Redirecting to the checkout URL, then polling the entitlement endpoint until the purchase lands
+ * - Identifying the customer (logged in app user id, or a persisted anonymous id)
+ * - Converting customers to the Subscription domain entity
+ * - Mapping provider failures to domain errors (SubscriptionError)
+ *
+ * Store-only features (offers, offer codes, refunds, consumables) fail with
+ * OPERATION_NOT_SUPPORTED.
+ *
+ * @module features/subscription/core/web-checkout
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Linking } from 'react-native';
+import type { AppUserIdStore } from './app-user-id-store';
+import { getEntitlementRegistry, resolveTier } from './entitlements';
+import type { SubscriptionRepository } from './service';
+import type {
+  EntitlementRegistry,
+  IntroEligibility,
+  PackagePurchase,
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+} from './types';
+import { DEFAULT_FREE_SUBSCRIPTION } from './types';
+
+/**
+ * Environment variable holding the checkout backend's base URL
+ */
+const ENV_WEB_CHECKOUT_URL = 'EXPO_PUBLIC_WEB_CHECKOUT_URL';
+
+/**
+ * AsyncStorage key for the anonymous customer id
+ */
+export const WEB_CHECKOUT_ANONYMOUS_ID_KEY = 'web-checkout-anonymous-id';
+
+/**
+ * Default time between entitlement polls while a checkout is open
+ */
+export const DEFAULT_CHECKOUT_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Default number of polls before an open checkout counts as abandoned (5 minutes)
+ */
+export const DEFAULT_CHECKOUT_MAX_POLLS = 150;
+
+/**
+ * Customer as reported by the checkout backend (dates as ISO strings).
+ */
+export interface WebCheckoutCustomer {
+  /** Active entitlement identifiers (resolved to a tier via the EntitlementRegistry) */
+  activeEntitlementIds: string[];
+  /** Product of the active subscription (null when none) */
+  productId: string | null;
+  expiresAt: string | null;
+  willRenew: boolean;
+  isTrialPeriod: boolean;
+  billingIssueDetectedAt: string | null;
+  cancelledAt: string | null;
+  /** Customer portal where the subscription is managed (null when none) */
+  managementUrl: string | null;
+}
+
+/**
+ * Hosted checkout page opened for a purchase.
+ */
+export interface WebCheckoutSession {
+  sessionId: string;
+  /** URL of the checkout page */
+  url: string;
+  /** Product the customer owns once the checkout completes */
+  productId: string;
+}
+
+/**
+ * Checkout backend used by the web repository.
+ * Implementations throw (preferably WebCheckoutError) on failure.
+ */
+export interface WebCheckoutProvider {
+  /** Packages sold through checkout */
+  getPackages(): Promise<SubscriptionPackage[]>;
+  /** Packages of an offering by identifier (null if it does not exist) */
+  getOfferingPackages(
+    offeringId: string
+  ): Promise<SubscriptionPackage[] | null>;
+  /** Open a checkout session for a package, priced by `offeringId` when given */
+  createCheckoutSession(request: {
+    appUserId: string;
+    packageId: string;
+    offeringId?: string;
+  }): Promise<WebCheckoutSession>;
+  /** Read a customer's entitlements (the polled endpoint) */
+  getCustomer(appUserId: string): Promise<WebCheckoutCustomer>;
+}
+
+/**
+ * Kind of checkout provider failure.
+ * - 'configuration': The provider is not set up (e.g., missing base URL)
+ * - 'network': The backend could not be reached
+ * - 'http': The backend answered with a non-2xx status
+ * - 'invalid_response': The backend answered with an unexpected body
+ */
+export type WebCheckoutErrorKind =
+  | 'configuration'
+  | 'network'
+  | 'http'
+  | 'invalid_response';
+
+/**
+ * Checkout provider failure
+ */
+export class WebCheckoutError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: WebCheckoutErrorKind,
+    public readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = 'WebCheckoutError';
+  }
+}
+
+/**
+ * Minimal fetch signature used by the HTTP provider
+ * (global fetch, or a stub server in tests).
+ */
+export type WebCheckoutFetch = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string>; body?: string }
+) => Promise<{ ok: boolean; status: number; json(): Promise<unknown> }>;
+
+/**
+ * HTTP provider configuration.
+ */
+export interface HttpWebCheckoutProviderConfig {
+  /** Base URL of the checkout backend (null when not configured) */
+  baseUrl: string | null;
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: WebCheckoutFetch;
+}
+
+/**
+ * Get the checkout backend URL from the environment.
+ *
+ * Expo only inlines EXPO_PUBLIC_ variables read with static dot access.
+ *
+ * @returns Base URL, or null if EXPO_PUBLIC_WEB_CHECKOUT_URL is not set
+ */
+export function getWebCheckoutUrl(): string | null {
+  return process.env.EXPO_PUBLIC_WEB_CHECKOUT_URL || null;
+}
+
+function isStringOrNull(value: unknown): value is string | null {
+  return value === null || typeof value === 'string';
+}
+
+/**
+ * Type guard for a customer returned by the backend.
+ */
+function isWebCheckoutCustomer(value: unknown): value is WebCheckoutCustomer {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    Array.isArray(candidate.activeEntitlementIds) &&
+    candidate.activeEntitlementIds.every((id) => typeof id === 'string') &&
+    isStringOrNull(candidate.productId) &&
+    isStringOrNull(candidate.expiresAt) &&
+    typeof candidate.willRenew === 'boolean' &&
+    typeof candidate.isTrialPeriod === 'boolean' &&
+    isStringOrNull(candidate.billingIssueDetectedAt) &&
+    isStringOrNull(candidate.cancelledAt) &&
+    isStringOrNull(candidate.managementUrl)
+  );
+}
+
+/**
+ * Type guard for a checkout session returned by the backend.
+ */
+function isWebCheckoutSession(value: unknown): value is WebCheckoutSession {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.sessionId === 'string' &&
+    typeof candidate.url === 'string' &&
+    typeof candidate.productId === 'string'
+  );
+}
+
+/**
+ * Create a provider for a checkout backend exposing:
+ * - `GET /packages` → `{ packages: SubscriptionPackage[] }`
+ * - `GET /offerings/:offeringId` → `{ packages: SubscriptionPackage[] }`
+ *   (404 when the offering does not exist)
+ * - `POST /checkout-sessions` `{ appUserId, packageId, offeringId? }` → WebCheckoutSession
+ *   (409 when the customer already owns the product)
+ * - `GET /customers/:appUserId` → WebCheckoutCustomer
+ *
+ * @param config - Provider configuration
+ * @returns WebCheckoutProvider
+ *
+ * @example
+ * ```ts
+ * const provider = createHttpWebCheckoutProvider({
+ *   baseUrl: getWebCheckoutUrl(),
+ * });
+ * ```
+ */
+export function createHttpWebCheckoutProvider(
+  config: HttpWebCheckoutProviderConfig
+): WebCheckoutProvider {
+  const { baseUrl, fetch: fetchImpl = fetch as WebCheckoutFetch } = config;
+
+  async function request(
+    path: string,
+    init?: { method: string; body: unknown }
+  ): Promise<unknown> {
+    if (!baseUrl) {
+      throw new WebCheckoutError(
+        `Web checkout is not configured. Please set ${ENV_WEB_CHECKOUT_URL} in your environment variables.`,
+        'configuration'
+      );
+    }
+
+    let response: Awaited<ReturnType<WebCheckoutFetch>>;
+    try {
+      response = await fetchImpl(
+        `${baseUrl.replace(/\/+$/, '')}${path}`,
+        init && {
+          method: init.method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(init.body),
+        }
+      );
+    } catch (error) {
+      throw new WebCheckoutError(
+        error instanceof Error ? error.message : 'Network request failed',
+        'network'
+      );
+    }
+
+    if (!response.ok) {
+      throw new WebCheckoutError(
+        `Checkout request failed with status ${response.status}`,
+        'http',
+        response.status
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new WebCheckoutError(
+        'Checkout backend returned invalid JSON',
+        'invalid_response'
+      );
+    }
+  }
+
+  function invalidResponse(path: string): WebCheckoutError {
+    return new WebCheckoutError(
+      `Unexpected response from ${path}`,
+      'invalid_response'
+    );
+  }
+
+  return {
+    async getPackages(): Promise<SubscriptionPackage[]> {
+      const body = await request('/packages');
+      const packages = (body as { packages?: unknown } | null)?.packages;
+      if (!Array.isArray(packages)) {
+        throw invalidResponse('/packages');
+      }
+      return packages as SubscriptionPackage[];
+    },
+
+    async getOfferingPackages(
+      offeringId: string
+    ): Promise<SubscriptionPackage[] | null> {
+      let body: unknown;
+      try {
+        body = await request(`/offerings/${encodeURIComponent(offeringId)}`);
+      } catch (error) {
+        if (error instanceof WebCheckoutError && error.status === 404) {
+          return null;
+        }
+        throw error;
+      }
+      const packages = (body as { packages?: unknown } | null)?.packages;
+      if (!Array.isArray(packages)) {
+        throw invalidResponse('/offerings');
+      }
+      return packages as SubscriptionPackage[];
+    },
+
+    async createCheckoutSession(checkout: {
+      appUserId: string;
+      packageId: string;
+      offeringId?: string;
+    }): Promise<WebCheckoutSession> {
+      const body = await request('/checkout-sessions', {
+        method: 'POST',
+        body: checkout,
+      });
+      if (!isWebCheckoutSession(body)) {
+        throw invalidResponse('/checkout-sessions');
+      }
+      return body;
+    },
+
+    async getCustomer(appUserId: string): Promise<WebCheckoutCustomer> {
+      const body = await request(`/customers/${encodeURIComponent(appUserId)}`);
+      if (!isWebCheckoutCustomer(body)) {
+        throw invalidResponse('/customers');
+      }
+      return body;
+    },
+  };
+}
+
+/**
+ * Convert a checkout customer to a Subscription domain entity.
+ *
+ * @param customer - Customer reported by the checkout backend
+ * @param registry - Entitlement registry (defaults to the configured registry)
+ * @returns Subscription (free unless an entitlement maps to a registered tier)
+ */
+export function toWebSubscription(
+  customer: WebCheckoutCustomer,
+  registry: EntitlementRegistry = getEntitlementRegistry()
+): Subscription {
+  const tier = resolveTier(customer.activeEntitlementIds, registry);
+  if (!tier) {
+    return DEFAULT_FREE_SUBSCRIPTION;
+  }
+
+  return {
+    isActive: true,
+    tier: tier.tier,
+    expiresAt: customer.expiresAt ? new Date(customer.expiresAt) : null,
+    productId: customer.productId,
+    willRenew: customer.willRenew,
+    isTrialPeriod: customer.isTrialPeriod,
+    billingIssueDetectedAt: customer.billingIssueDetectedAt
+      ? new Date(customer.billingIssueDetectedAt)
+      : null,
+    cancelledAt: customer.cancelledAt ? new Date(customer.cancelledAt) : null,
+  };
+}
+
+/**
+ * Convert a provider failure to a SubscriptionError.
+ */
+function toWebCheckoutSubscriptionError(error: unknown): SubscriptionError {
+  if (!(error instanceof WebCheckoutError)) {
+    return {
+      code: 'UNKNOWN_ERROR',
+      message:
+        error instanceof Error ? error.message : 'An unknown error occurred',
+      retryable: false,
+    };
+  }
+
+  const { message } = error;
+  switch (error.kind) {
+    case 'configuration':
+      return { code: 'CONFIGURATION_ERROR', message, retryable: false };
+    case 'network':
+      return { code: 'NETWORK_ERROR', message, retryable: true };
+    case 'invalid_response':
+      return {
+        code: 'UNEXPECTED_BACKEND_RESPONSE_ERROR',
+        message,
+        retryable: true,
+      };
+    case 'http':
+      if (error.status === 401 || error.status === 403) {
+        return { code: 'INVALID_CREDENTIALS_ERROR', message, retryable: false };
+      }
+      if (error.status === 409) {
+        return { code: 'PRODUCT_ALREADY_PURCHASED', message, retryable: false };
+      }
+      if (error.status !== null && error.status >= 500) {
+        return {
+          code: 'UNEXPECTED_BACKEND_RESPONSE_ERROR',
+          message,
+          retryable: true,
+        };
+      }
+      return { code: 'UNKNOWN_ERROR', message, retryable: false };
+  }
+}
+
+function notSupportedOnWeb(action: string): SubscriptionError {
+  return {
+    code: 'OPERATION_NOT_SUPPORTED',
+    message: `${action} is not supported on web`,
+    retryable: false,
+  };
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Web checkout repository configuration.
+ */
+export interface WebCheckoutRepositoryConfig {
+  /** Checkout backend */
+  provider: WebCheckoutProvider;
+  /** Persisted logged in app user id, read once on first use */
+  appUserIdStore?: AppUserIdStore;
+  /** Time between entitlement polls (defaults to DEFAULT_CHECKOUT_POLL_INTERVAL_MS) */
+  pollIntervalMs?: number;
+  /** Polls before the checkout counts as abandoned (defaults to DEFAULT_CHECKOUT_MAX_POLLS) */
+  maxPolls?: number;
+  /** AsyncStorage key for the anonymous id (defaults to WEB_CHECKOUT_ANONYMOUS_ID_KEY) */
+  anonymousIdKey?: string;
+  /** Sleep function (injectable for testing) */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Create a SubscriptionRepository backed by web checkout.
+ *
+ * purchasePackage opens the checkout page in the browser and resolves once
+ * the entitlement endpoint reports the purchased product, or fails with
+ * PURCHASE_CANCELLED when the checkout is not completed in time.
+ *
+ * @param config - Repository configuration
+ * @returns SubscriptionRepository
+ *
+ * @example
+ * ```ts
+ * const repository = Platform.OS === 'web'
+ *   ? createWebCheckoutRepository({
+ *       provider: createHttpWebCheckoutProvider({ baseUrl: getWebCheckoutUrl() }),
+ *       appUserIdStore,
+ *     })
+ *   : subscriptionRepository;
+ * ```
+ */
+export function createWebCheckoutRepository(
+  config: WebCheckoutRepositoryConfig
+): SubscriptionRepository {
+  const {
+    provider,
+    appUserIdStore,
+    pollIntervalMs = DEFAULT_CHECKOUT_POLL_INTERVAL_MS,
+    maxPolls = DEFAULT_CHECKOUT_MAX_POLLS,
+    anonymousIdKey = WEB_CHECKOUT_ANONYMOUS_ID_KEY,
+    sleep = defaultSleep,
+  } = config;
+
+  const listeners = new Set<(subscription: Subscription) => void>();
+  // undefined until the persisted identity has been read
+  let appUserId: string | null | undefined;
+  let lastSubscription: Subscription | null = null;
+
+  async function loadLoggedInId(): Promise<string | null> {
+    if (appUserId !== undefined) {
+      return appUserId;
+    }
+    try {
+      appUserId = (await appUserIdStore?.load()) ?? null;
+    } catch {
+      appUserId = null;
+    }
+    return appUserId;
+  }
+
+  /**
+   * Anonymous customer id, created on first use and kept across reloads.
+   */
+  async function loadAnonymousId(): Promise<string> {
+    const stored = await AsyncStorage.getItem(anonymousIdKey);
+    if (stored) {
+      return stored;
+    }
+    const anonymousId = `$web_anonymous:${Date.now().toString(36)}${Math.random()
+      .toString(36)
+      .slice(2, 10)}`;
+    await AsyncStorage.setItem(anonymousIdKey, anonymousId);
+    return anonymousId;
+  }
+
+  async function currentCustomerId(): Promise<string> {
+    return (await loadLoggedInId()) ?? loadAnonymousId();
+  }
+
+  /**
+   * Fetch the customer's Subscription, pushing it to listeners when it
+   * changed since the last fetch (e.g., cancelled in the customer portal).
+   */
+  async function fetchSubscription(customerId: string): Promise<Subscription> {
+    const subscription = toWebSubscription(
+      await provider.getCustomer(customerId)
+    );
+    const changed =
+      lastSubscription !== null &&
+      JSON.stringify(lastSubscription) !== JSON.stringify(subscription);
+    lastSubscription = subscription;
+    if (changed) {
+      listeners.forEach((listener) => listener(subscription));
+    }
+    return subscription;
+  }
+
+  /**
+   * Poll the entitlement endpoint until the customer owns the product.
+   * Failed polls are skipped: the checkout may still complete.
+   */
+  async function waitForPurchase(
+    customerId: string,
+    productId: string
+  ): Promise<Subscription | null> {
+    for (let poll = 0; poll < maxPolls; poll++) {
+      await sleep(pollIntervalMs);
+      try {
+        const subscription = await fetchSubscription(customerId);
+        if (subscription.isActive && subscription.productId === productId) {
+          return subscription;
+        }
+      } catch {
+        // Keep polling until the checkout is abandoned
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check that a package is sold in the current offering, or in `offeringId`.
+   */
+  async function findPackage(
+    packageId: string,
+    offeringId?: string
+  ): Promise<Result<SubscriptionPackage, SubscriptionError>> {
+    const offering = offeringId
+      ? await provider.getOfferingPackages(offeringId)
+      : await provider.getPackages();
+    if (!offering) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message: `Package not found: Offering ${offeringId} not available`,
+          retryable: false,
+        },
+      };
+    }
+
+    const pkg = offering.find((p) => p.identifier === packageId);
+    if (!pkg) {
+      return {
+        success: false,
+        error: {
+          code: 'UNKNOWN_ERROR',
+          message: `Package not found: ${packageId}`,
+          retryable: false,
+        },
+      };
+    }
+    return { success: true, data: pkg };
+  }
+
+  async function switchIdentity(
+    nextAppUserId: string | null
+  ): Promise<Result<Subscription, SubscriptionError>> {
+    try {
+      appUserId = nextAppUserId;
+      lastSubscription = null;
+      const subscription = await fetchSubscription(await currentCustomerId());
+      return { success: true, data: subscription };
+    } catch (error) {
+      return { success: false, error: toWebCheckoutSubscriptionError(error) };
+    }
+  }
+
+  return {
+    async getCustomerInfo(): Promise<Result<Subscription, SubscriptionError>> {
+      try {
+        const subscription = await fetchSubscription(await currentCustomerId());
+        return { success: true, data: subscription };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async getOfferingPackages(
+      offeringId: string
+    ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>> {
+      try {
+        return {
+          success: true,
+          data: await provider.getOfferingPackages(offeringId),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async purchasePackage(
+      packageId: string,
+      offeringId?: string
+    ): Promise<Result<PackagePurchase, SubscriptionError>> {
+      try {
+        const found = await findPackage(packageId, offeringId);
+        if (!found.success) {
+          return found;
+        }
+
+        const customerId = await currentCustomerId();
+        const session = await provider.createCheckoutSession({
+          appUserId: customerId,
+          packageId,
+          offeringId,
+        });
+
+        await Linking.openURL(session.url);
+
+        const subscription = await waitForPurchase(
+          customerId,
+          session.productId
+        );
+        if (!subscription) {
+          return {
+            success: false,
+            error: {
+              code: 'PURCHASE_CANCELLED',
+              message: 'Checkout was not completed',
+              retryable: false,
+            },
+          };
+        }
+        // The checkout session is the transaction the backend verifies
+        return {
+          success: true,
+          data: { subscription, transactionId: session.sessionId },
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async restorePurchases(): Promise<
+      Result<PackagePurchase | null, SubscriptionError>
+    > {
+      try {
+        const subscription = await fetchSubscription(await currentCustomerId());
+        // The backend reports entitlements, not the transactions behind them
+        return {
+          success: true,
+          data: subscription.isActive
+            ? { subscription, transactionId: null }
+            : null,
+        };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async getAvailablePackages(): Promise<
+      Result<SubscriptionPackage[], SubscriptionError>
+    > {
+      try {
+        return { success: true, data: await provider.getPackages() };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    logIn(
+      nextAppUserId: string
+    ): Promise<Result<Subscription, SubscriptionError>> {
+      return switchIdentity(nextAppUserId);
+    },
+
+    logOut(): Promise<Result<Subscription, SubscriptionError>> {
+      return switchIdentity(null);
+    },
+
+    async getAppUserId(): Promise<Result<string, SubscriptionError>> {
+      try {
+        return { success: true, data: await currentCustomerId() };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async getIntroEligibility(
+      packageIds: string[]
+    ): Promise<Result<Record<string, IntroEligibility>, SubscriptionError>> {
+      // The checkout backend decides trial eligibility when the session opens
+      return {
+        success: true,
+        data: Object.fromEntries(
+          packageIds.map((packageId) => [packageId, 'unknown' as const])
+        ),
+      };
+    },
+
+    async getOffers(): Promise<Result<SubscriptionOffer[], SubscriptionError>> {
+      return { success: true, data: [] };
+    },
+
+    async purchasePackageWithOffer(): Promise<
+      Result<PackagePurchase, SubscriptionError>
+    > {
+      return { success: false, error: notSupportedOnWeb('Offer purchases') };
+    },
+
+    async redeemOfferCode(): Promise<Result<void, SubscriptionError>> {
+      return { success: false, error: notSupportedOnWeb('Offer codes') };
+    },
+
+    async openManagementUrl(): Promise<Result<void, SubscriptionError>> {
+      try {
+        const customer = await provider.getCustomer(await currentCustomerId());
+        if (!customer.managementUrl) {
+          return {
+            success: false,
+            error: {
+              code: 'NO_ACTIVE_SUBSCRIPTION',
+              message: 'No subscription to manage',
+              retryable: false,
+            },
+          };
+        }
+        await Linking.openURL(customer.managementUrl);
+        return { success: true, data: undefined };
+      } catch (error) {
+        return {
+          success: false,
+          error: toWebCheckoutSubscriptionError(error),
+        };
+      }
+    },
+
+    async beginRefundRequest(): Promise<
+      Result<RefundRequestStatus, SubscriptionError>
+    > {
+      return { success: false, error: notSupportedOnWeb('Refund requests') };
+    },
+
+    async purchaseProduct(): Promise<
+      Result<ProductPurchase, SubscriptionError>
+    > {
+      return { success: false, error: notSupportedOnWeb('Product purchases') };
+    },
+
+    addSubscriptionListener(
+      listener: (subscription: Subscription) => void
+    ): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * useFeatureGate Hook Tests
+ *
+ * Tests for resolving a feature's required level, checking access for the
+ * current tier, and opening the paywall with the gating feature.
+ *
+ * @module features/subscription/hooks/__tests__/use-feature-gate.test
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+
+import { useFeatureGate } from '../use-feature-gate';
+import {
+  configureFeatureGates,
+  resetFeatureGates,
+} from '../../core/feature-gates';
+import type {
+  FeatureLevel,
+  Subscription,
+  SubscriptionTier,
+} from '../../core/types';
+import { DEFAULT_FREE_SUBSCRIPTION } from '../../core/types';
+
+const mockPush = jest.fn();
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+let mockSubscription: Subscription | null = null;
+jest.mock('../use-subscription', () => ({
+  useSubscription: () => {
+    const { canAccessFeature } =
+      jest.requireActual<typeof import('../../core/service')>(
+        '../../core/service'
+      );
+    const tier: SubscriptionTier = mockSubscription?.tier ?? 'free';
+    return {
+      subscription: mockSubscription,
+      canAccessFeature: (level: FeatureLevel) => canAccessFeature(level, tier),
+    };
+  },
+}));
+
+const premiumSubscription: Subscription = {
+  ...DEFAULT_FREE_SUBSCRIPTION,
+  isActive: true,
+  tier: 'premium',
+  productId: 'monthly_plan',
+};
+
+describe('useFeatureGate', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSubscription = DEFAULT_FREE_SUBSCRIPTION;
+  });
+
+  afterEach(() => {
+    resetFeatureGates();
+  });
+
+  describe('level resolution', () => {
+    it('should use the level registered for the feature', () => {
+      configureFeatureGates({ notes: { level: 'basic' } });
+
+      const { result } = renderHook(() => useFeatureGate('notes'));
+
+      expect(result.current.level).toBe('basic');
+      expect(result.current.canAccess).toBe(true);
+    });
+
+    it('should require premium for unregistered features', () => {
+      const { result } = renderHook(() => useFeatureGate('export'));
+
+      expect(result.current.level).toBe('premium');
+      expect(result.current.canAccess).toBe(false);
+    });
+
+    it('should prefer an explicit level over the registry', () => {
+      configureFeatureGates({ notes: { level: 'basic' } });
+
+      const { result } = renderHook(() =>
+        useFeatureGate('notes', { level: 'premium' })
+      );
+
+      expect(result.current.level).toBe('premium');
+    });
+  });
+
+  describe('access', () => {
+    it('should grant access to premium users', () => {
+      mockSubscription = premiumSubscription;
+
+      const { result } = renderHook(() => useFeatureGate('export'));
+
+      expect(result.current.canAccess).toBe(true);
+    });
+
+    it('should report unresolved until the subscription has loaded', () => {
+      mockSubscription = null;
+
+      const { result } = renderHook(() => useFeatureGate('export'));
+
+      expect(result.current.isResolved).toBe(false);
+    });
+  });
+
+  describe('openPaywall', () => {
+    it('should open the paywall with the gating feature as a route param', () => {
+      const { result } = renderHook(() => useFeatureGate('export'));
+
+      act(() => {
+        result.current.openPaywall();
+      });
+
+      expect(mockPush).toHaveBeenCalledWith({
+        pathname: '/paywall',
+        params: { feature: 'export' },
+      });
+    });
+
+    it('should open the paywall without params for level-only gates', () => {
+      const { result } = renderHook(() =>
+        useFeatureGate(undefined, { level: 'premium' })
+      );
+
+      act(() => {
+        result.current.openPaywall();
+      });
+
+      expect(mockPush).toHaveBeenCalledWith({
+        pathname: '/paywall',
+        params: {},
+      });
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * usePaywallPresenter Hook Tests
+ *
+ * Tests for opening the paywall through a placement: frequency caps,
+ * the placement's offering and the gating feature route param.
+ *
+ * @module features/subscription/hooks/__tests__/use-paywall-presenter.test
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+
+import { usePaywallPresenter } from '../use-paywall-presenter';
+import type { PaywallPresenter } from '../../core/paywall-presenter';
+import type { PaywallPresentation } from '../../core/types';
+
+const mockPush = jest.fn();
+jest.mock('expo-router', () => ({
+  useRouter: () => ({ push: mockPush }),
+}));
+
+function createPresenter(
+  presentation: PaywallPresentation | null
+): PaywallPresenter {
+  return {
+    getPresentation: jest.fn().mockResolvedValue(presentation),
+    record: jest.fn().mockResolvedValue(undefined),
+    getStats: jest.fn(),
+    reset: jest.fn(),
+  };
+}
+
+describe('usePaywallPresenter', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open the paywall with the placement as a route param', async () => {
+    const presenter = createPresenter({
+      placementId: 'settings_upgrade',
+      offeringId: null,
+    });
+    const { result } = renderHook(() => usePaywallPresenter(presenter));
+
+    let presented = false;
+    await act(async () => {
+      presented = await result.current.presentPaywall('settings_upgrade');
+    });
+
+    expect(presented).toBe(true);
+    expect(presenter.getPresentation).toHaveBeenCalledWith('settings_upgrade');
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/paywall',
+      params: { placement: 'settings_upgrade' },
+    });
+  });
+
+  it("should pass the placement's offering and the gating feature", async () => {
+    const presenter = createPresenter({
+      placementId: 'item_limit',
+      offeringId: 'limit_reached',
+    });
+    const { result } = renderHook(() => usePaywallPresenter(presenter));
+
+    await act(async () => {
+      await result.current.presentPaywall('item_limit', { feature: 'export' });
+    });
+
+    expect(mockPush).toHaveBeenCalledWith({
+      pathname: '/paywall',
+      params: {
+        placement: 'item_limit',
+        offering: 'limit_reached',
+        feature: 'export',
+      },
+    });
+  });
+
+  it('should not open the paywall when the placement is frequency capped', async () => {
+    const presenter = createPresenter(null);
+    const { result } = renderHook(() => usePaywallPresenter(presenter));
+
+    let presented = true;
+    await act(async () => {
+      presented = await result.current.presentPaywall('home_banner');
+    });
+
+    expect(presented).toBe(false);
+    expect(mockPush).not.toHaveBeenCalled();
+  });
+});
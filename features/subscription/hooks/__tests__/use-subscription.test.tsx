@@ -15,7 +15,16 @@ import {
   SubscriptionProvider,
   type SubscriptionContextValue,
 } from '../../providers/subscription-provider';
-import type { Subscription, SubscriptionError, Result } from '../../core/types';
+import type {
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+} from '../../core/types';
 import {
   DEFAULT_FREE_SUBSCRIPTION,
   FREE_TIER_LIMITS,
@@ -31,6 +40,8 @@ const createMockService = (
 
   return {
     getCurrentSubscription: jest.fn(() => currentSubscription),
+    getSubscriptionSource: jest.fn((): SubscriptionSource | null => 'remote'),
+    restoreFromCache: jest.fn(async (): Promise<Subscription | null> => null),
     getSubscription: jest.fn(
       async (): Promise<Result<Subscription, SubscriptionError>> => ({
         success: true,
@@ -49,6 +60,83 @@ const createMockService = (
         data: currentSubscription,
       })
     ),
+    getPackages: jest.fn(
+      async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getCachedPackages: jest.fn(() => null),
+    checkIntroEligibility: jest.fn(
+      async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getOffers: jest.fn(
+      async (): Promise<Result<SubscriptionOffer[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getOfferingPackages: jest.fn(
+      async (): Promise<
+        Result<SubscriptionPackage[] | null, SubscriptionError>
+      > => ({
+        success: true,
+        data: null,
+      })
+    ),
+    purchasePackageWithOffer: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: { ...currentSubscription, tier: 'premium', isActive: true },
+      })
+    ),
+    redeemOfferCode: jest.fn(
+      async (): Promise<Result<void, SubscriptionError>> => ({
+        success: true,
+        data: undefined,
+      })
+    ),
+    openManagementUrl: jest.fn(
+      async (): Promise<Result<void, SubscriptionError>> => ({
+        success: true,
+        data: undefined,
+      })
+    ),
+    purchaseProduct: jest.fn(
+      async (
+        productId: string
+      ): Promise<Result<ProductPurchase, SubscriptionError>> => ({
+        success: true,
+        data: {
+          productId,
+          transactionId: 'transaction-1',
+          subscription: currentSubscription,
+        },
+      })
+    ),
+    beginRefundRequest: jest.fn(
+      async (): Promise<Result<RefundRequestStatus, SubscriptionError>> => ({
+        success: true,
+        data: 'submitted',
+      })
+    ),
+    logIn: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: currentSubscription,
+      })
+    ),
+    logOut: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: DEFAULT_FREE_SUBSCRIPTION,
+      })
+    ),
+    clearCache: jest.fn(async (): Promise<void> => {}),
+    subscribeToUpdates: jest.fn(() => jest.fn()),
     ...overrides,
   };
 };
@@ -77,6 +165,10 @@ describe('useSubscription', () => {
             tier: 'free' as const,
             expiresAt: null,
             productId: null,
+            willRenew: false,
+            isTrialPeriod: false,
+            billingIssueDetectedAt: null,
+            cancelledAt: null,
           },
         })),
       });
@@ -102,6 +194,10 @@ describe('useSubscription', () => {
             tier: 'premium' as const,
             expiresAt: new Date('2025-12-31'),
             productId: 'monthly_plan',
+            willRenew: true,
+            isTrialPeriod: false,
+            billingIssueDetectedAt: null,
+            cancelledAt: null,
           },
         })),
       });
@@ -170,6 +266,10 @@ describe('useSubscription', () => {
             tier: 'premium' as const,
             expiresAt: new Date('2025-12-31'),
             productId: 'monthly_plan',
+            willRenew: true,
+            isTrialPeriod: false,
+            billingIssueDetectedAt: null,
+            cancelledAt: null,
           },
         })),
       });
@@ -214,6 +314,10 @@ describe('useSubscription', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'annual_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -277,6 +381,48 @@ describe('useSubscription', () => {
         retryable: true,
       });
     });
+
+    it('should pass through packages from context', async () => {
+      const monthlyPackage: SubscriptionPackage = {
+        identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
+        title: 'Monthly',
+        priceString: '$9.99',
+        price: 9.99,
+        currencyCode: 'USD',
+      };
+
+      const mockService = createMockService({
+        getPackages: jest.fn(async () => ({
+          success: true as const,
+          data: [monthlyPackage],
+        })),
+      });
+
+      const { result } = renderHook(() => useSubscription(), {
+        wrapper: createWrapper(mockService),
+      });
+
+      await waitFor(() => {
+        expect(result.current.packages).toEqual([monthlyPackage]);
+      });
+    });
+
+    it('should pass through subscription source from context', async () => {
+      const mockService = createMockService({
+        getSubscriptionSource: jest.fn(
+          (): SubscriptionSource | null => 'cache'
+        ),
+      });
+
+      const { result } = renderHook(() => useSubscription(), {
+        wrapper: createWrapper(mockService),
+      });
+
+      await waitFor(() => {
+        expect(result.current.source).toBe('cache');
+      });
+    });
   });
 
   describe('canAccessFeature function', () => {
@@ -324,6 +470,10 @@ describe('useSubscription', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -350,6 +500,10 @@ describe('useSubscription', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -402,11 +556,20 @@ describe('useSubscription', () => {
         expect(result.current.loading).toBe(false);
       });
 
+      let purchaseResult: Awaited<
+        ReturnType<typeof result.current.purchasePackage>
+      > | null = null;
       await act(async () => {
-        await result.current.purchasePackage('$rc_monthly');
+        purchaseResult = await result.current.purchasePackage('$rc_monthly');
       });
 
-      expect(mockService.purchasePackage).toHaveBeenCalledWith('$rc_monthly');
+      expect(mockService.purchasePackage).toHaveBeenCalledWith(
+        '$rc_monthly',
+        undefined
+      );
+      expect(purchaseResult).toEqual(
+        expect.objectContaining({ success: true })
+      );
     });
 
     it('should pass through restorePurchases action', async () => {
@@ -420,11 +583,15 @@ describe('useSubscription', () => {
         expect(result.current.loading).toBe(false);
       });
 
+      let restoreResult: Awaited<
+        ReturnType<typeof result.current.restorePurchases>
+      > | null = null;
       await act(async () => {
-        await result.current.restorePurchases();
+        restoreResult = await result.current.restorePurchases();
       });
 
       expect(mockService.restorePurchases).toHaveBeenCalled();
+      expect(restoreResult).toEqual(expect.objectContaining({ success: true }));
     });
 
     it('should pass through refetchSubscription action', async () => {
@@ -445,6 +612,48 @@ describe('useSubscription', () => {
       // Initial fetch + refetch = 2 calls
       expect(mockService.getSubscription).toHaveBeenCalledTimes(2);
     });
+
+    it('should pass through refetchPackages action', async () => {
+      const mockService = createMockService();
+
+      const { result } = renderHook(() => useSubscription(), {
+        wrapper: createWrapper(mockService),
+      });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.refetchPackages();
+      });
+
+      expect(mockService.getPackages).toHaveBeenLastCalledWith({
+        forceRefresh: true,
+      });
+    });
+
+    it('should pass through logIn and logOut actions', async () => {
+      const mockService = createMockService();
+
+      const { result } = renderHook(() => useSubscription(), {
+        wrapper: createWrapper(mockService),
+      });
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      await act(async () => {
+        await result.current.logIn('user-42');
+      });
+      await act(async () => {
+        await result.current.logOut();
+      });
+
+      expect(mockService.logIn).toHaveBeenCalledWith('user-42');
+      expect(mockService.logOut).toHaveBeenCalled();
+    });
   });
 
   describe('error handling', () => {
@@ -8,3 +8,15 @@
 
 export { useSubscription } from './use-subscription';
 export type { UseSubscriptionReturn } from './use-subscription';
+
+export { useFeatureGate } from './use-feature-gate';
+export type {
+  UseFeatureGateOptions,
+  UseFeatureGateReturn,
+} from './use-feature-gate';
+
+export { usePaywallPresenter } from './use-paywall-presenter';
+export type {
+  PresentPaywallOptions,
+  UsePaywallPresenterReturn,
+} from './use-paywall-presenter';
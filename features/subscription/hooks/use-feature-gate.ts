@@ -0,0 +1,91 @@
+/**
+ * useFeatureGate Hook
+ *
+ * Custom hook that checks access to a gated feature and opens the paywall
+ * with that feature as a route param, so the paywall can tailor its headline.
+ *
+ * @module features/subscription/hooks/use-feature-gate
+ */
+
+import { useCallback } from 'react';
+import { useRouter, type Href } from 'expo-router';
+import { useSubscription } from './use-subscription';
+import {
+  DEFAULT_FEATURE_GATE,
+  getFeatureGate,
+  PAYWALL_FEATURE_PARAM,
+} from '../core/feature-gates';
+import type { FeatureLevel } from '../core/types';
+
+/**
+ * Options for useFeatureGate.
+ */
+export interface UseFeatureGateOptions {
+  /** Required level; overrides the level registered for the feature */
+  level?: FeatureLevel;
+}
+
+/**
+ * Return type for useFeatureGate hook.
+ */
+export interface UseFeatureGateReturn {
+  /** Feature key that gates the content (undefined for level-only gates) */
+  featureKey: string | undefined;
+  /** Level required to use the feature */
+  level: FeatureLevel;
+  /** Whether the current tier can use the feature */
+  canAccess: boolean;
+  /** Whether the subscription has loaded (avoids flashing the lock for paid users) */
+  isResolved: boolean;
+  /** Open /paywall, reporting the feature that triggered the upsell */
+  openPaywall: () => void;
+}
+
+/**
+ * Hook to gate a feature and open the paywall for it.
+ *
+ * The required level comes from `options.level`, then the feature's
+ * configureFeatureGates entry, then 'premium'.
+ *
+ * @param featureKey - Feature key (see configureFeatureGates)
+ * @param options - Optional level override
+ * @returns Gate state and an openPaywall action
+ *
+ * @example
+ * ```tsx
+ * function ExportButton() {
+ *   const { canAccess, openPaywall } = useFeatureGate('export');
+ *
+ *   return (
+ *     <Button onPress={canAccess ? exportData : openPaywall}>
+ *       Export
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useFeatureGate(
+  featureKey?: string,
+  options: UseFeatureGateOptions = {}
+): UseFeatureGateReturn {
+  const router = useRouter();
+  const { subscription, canAccessFeature } = useSubscription();
+
+  const level =
+    options.level ??
+    (featureKey ? getFeatureGate(featureKey) : DEFAULT_FEATURE_GATE).level;
+
+  const openPaywall = useCallback(() => {
+    const params = featureKey ? { [PAYWALL_FEATURE_PARAM]: featureKey } : {};
+    // Note: Type assertion needed because expo-router typed routes may not be regenerated
+    router.push({ pathname: '/paywall', params } as Href);
+  }, [featureKey, router]);
+
+  return {
+    featureKey,
+    level,
+    canAccess: canAccessFeature(level),
+    isResolved: subscription !== null,
+    openPaywall,
+  };
+}
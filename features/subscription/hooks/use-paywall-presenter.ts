@@ -0,0 +1,96 @@
+/**
+ * usePaywallPresenter Hook
+ *
+ * Custom hook that opens the paywall for a placement, subject to the
+ * placement's frequency cap, with the placement's offering.
+ *
+ * @module features/subscription/hooks/use-paywall-presenter
+ */
+
+import { useCallback } from 'react';
+import { useRouter, type Href } from 'expo-router';
+import { PAYWALL_FEATURE_PARAM } from '../core/feature-gates';
+import {
+  PAYWALL_OFFERING_PARAM,
+  PAYWALL_PLACEMENT_PARAM,
+} from '../core/paywall-placements';
+import {
+  paywallPresenter,
+  type PaywallPresenter,
+} from '../core/paywall-presenter';
+
+/**
+ * Options for presentPaywall.
+ */
+export interface PresentPaywallOptions {
+  /** Feature key that triggered the upsell (see configureFeatureGates) */
+  feature?: string;
+}
+
+/**
+ * Return type for usePaywallPresenter hook.
+ */
+export interface UsePaywallPresenterReturn {
+  /**
+   * Open /paywall for a placement.
+   *
+   * @returns Whether the paywall was opened (false if frequency capped)
+   */
+  presentPaywall: (
+    placementId: string,
+    options?: PresentPaywallOptions
+  ) => Promise<boolean>;
+}
+
+/**
+ * Hook to open the paywall through a placement.
+ *
+ * @param presenter - Paywall presenter (defaults to the app presenter)
+ * @returns presentPaywall action
+ *
+ * @example
+ * ```tsx
+ * function UpgradeButton() {
+ *   const { presentPaywall } = usePaywallPresenter();
+ *
+ *   return (
+ *     <Button onPress={() => presentPaywall('settings_upgrade')}>
+ *       Upgrade to Premium
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function usePaywallPresenter(
+  presenter: PaywallPresenter = paywallPresenter
+): UsePaywallPresenterReturn {
+  const router = useRouter();
+
+  const presentPaywall = useCallback(
+    async (
+      placementId: string,
+      options: PresentPaywallOptions = {}
+    ): Promise<boolean> => {
+      const presentation = await presenter.getPresentation(placementId);
+      if (!presentation) {
+        return false;
+      }
+
+      const params: Record<string, string> = {
+        [PAYWALL_PLACEMENT_PARAM]: presentation.placementId,
+      };
+      if (presentation.offeringId) {
+        params[PAYWALL_OFFERING_PARAM] = presentation.offeringId;
+      }
+      if (options.feature) {
+        params[PAYWALL_FEATURE_PARAM] = options.feature;
+      }
+      // Note: Type assertion needed because expo-router typed routes may not be regenerated
+      router.push({ pathname: '/paywall', params } as Href);
+      return true;
+    },
+    [presenter, router]
+  );
+
+  return { presentPaywall };
+}
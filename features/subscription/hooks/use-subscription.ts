@@ -5,7 +5,7 @@
  * (isPremium, isFree, usageLimits) and feature gating capability.
  *
  * This hook wraps useSubscriptionContext and adds:
- * - Derived state calculations (isPremium, isFree, usageLimits)
+ * - Derived state calculations (tier, isPremium, isFree, usageLimits)
  * - Feature gating function (canAccessFeature)
  * - Memoization to prevent unnecessary re-renders
  *
@@ -14,15 +14,33 @@
 
 import { useMemo, useCallback } from 'react';
 import { useSubscriptionContext } from '../providers/subscription-provider';
-import type { UsageLimits, FeatureLevel } from '../core/types';
-import { FREE_TIER_LIMITS, PREMIUM_TIER_LIMITS } from '../core/types';
-import { canAccessFeature as checkFeatureAccess } from '../core/service';
+import type {
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  UsageLimits,
+  FeatureLevel,
+  SubscriptionPackage,
+  SubscriptionSource,
+  SubscriptionTier,
+} from '../core/types';
+import { FREE_TIER } from '../core/types';
+import {
+  canAccessFeature as checkFeatureAccess,
+  getUsageLimits,
+} from '../core/service';
+import { isPaidTier } from '../core/entitlements';
 
 /**
  * Return type for useSubscription hook.
  */
 export interface UseSubscriptionReturn {
-  /** Whether the user has a premium subscription */
+  /** Current subscription tier ('free' until loaded) */
+  tier: SubscriptionTier;
+  /** Whether the user has any paid tier */
   isPremium: boolean;
   /** Whether the user is on the free tier */
   isFree: boolean;
@@ -30,18 +48,60 @@ export interface UseSubscriptionReturn {
   usageLimits: UsageLimits;
   /** Raw subscription state (null until loaded) */
   subscription: ReturnType<typeof useSubscriptionContext>['subscription'];
+  /** Where the subscription came from ('remote' or 'cache' while offline; null until loaded) */
+  source: SubscriptionSource | null;
   /** Whether a subscription operation is in progress */
   loading: boolean;
   /** Error from the last operation (null if no error) */
   error: ReturnType<typeof useSubscriptionContext>['error'];
-  /** Purchase a subscription package */
-  purchasePackage: (packageId: string) => Promise<void>;
-  /** Restore previous purchases */
-  restorePurchases: () => Promise<void>;
-  /** Check if user can access a feature based on feature level */
+  /** Packages available for purchase (empty until loaded) */
+  packages: SubscriptionPackage[];
+  /** Purchase a subscription package (resolves to the service Result) */
+  purchasePackage: (
+    packageId: string,
+    offeringId?: string
+  ) => Promise<Result<Subscription, SubscriptionError>>;
+  /** Purchase a package with a promotional or win-back offer */
+  purchasePackageWithOffer: (
+    packageId: string,
+    offer: SubscriptionOffer
+  ) => Promise<Result<Subscription, SubscriptionError>>;
+  /** Purchase a non-subscription product (consumable or lifetime unlock) */
+  purchaseProduct: (
+    productId: string
+  ) => Promise<Result<ProductPurchase, SubscriptionError>>;
+  /** List the promotional and win-back offers for a package */
+  getOffers: (
+    packageId: string
+  ) => Promise<Result<SubscriptionOffer[], SubscriptionError>>;
+  /** Fetch the packages of an offering by identifier (null if it does not exist) */
+  getOfferingPackages: (
+    offeringId: string
+  ) => Promise<Result<SubscriptionPackage[] | null, SubscriptionError>>;
+  /** Drop intro prices the user is not eligible for from `packages` */
+  checkIntroEligibility: () => Promise<void>;
+  /** Present the store's offer code redemption flow */
+  redeemOfferCode: (code?: string) => Promise<Result<void, SubscriptionError>>;
+  /** Open the store page where the user manages or cancels their subscription */
+  openManagementUrl: () => Promise<Result<void, SubscriptionError>>;
+  /** Present the store's refund request flow for a purchased product (iOS) */
+  beginRefundRequest: (
+    productId: string
+  ) => Promise<Result<RefundRequestStatus, SubscriptionError>>;
+  /** Restore previous purchases (resolves to the service Result) */
+  restorePurchases: () => Promise<Result<Subscription, SubscriptionError>>;
+  /** Check if user can access a feature based on feature level (e.g., "at least plus") */
   canAccessFeature: (level: FeatureLevel) => boolean;
   /** Refetch subscription state from RevenueCat */
   refetchSubscription: () => Promise<void>;
+  /** Refetch available packages from RevenueCat */
+  refetchPackages: () => Promise<void>;
+  /** Identify the current user with an app user id (e.g., after sign-in) */
+  logIn: (appUserId: string) => Promise<void>;
+  /** Log out the identified user (e.g., after sign-out) */
+  logOut: () => Promise<void>;
+  /** Discard the cached subscription and packages (e.g., from a debug screen) */
+  clearCache: () => Promise<void>;
 }
 
 /**
@@ -80,16 +140,14 @@ export function useSubscription(): UseSubscriptionReturn {
   const context = useSubscriptionContext();
 
   // Derive tier from subscription, default to 'free' if null
-  const tier = context.subscription?.tier ?? 'free';
+  const tier = context.subscription?.tier ?? FREE_TIER;
 
-  // Derive isPremium and isFree from tier
-  const isPremium = tier === 'premium';
-  const isFree = tier === 'free';
+  // Derive isPremium and isFree from tier using the entitlement registry
+  const isPremium = isPaidTier(tier);
+  const isFree = tier === FREE_TIER;
 
   // Memoize usageLimits based on tier
-  const usageLimits = useMemo<UsageLimits>(() => {
-    return tier === 'premium' ? PREMIUM_TIER_LIMITS : FREE_TIER_LIMITS;
-  }, [tier]);
+  const usageLimits = useMemo<UsageLimits>(() => getUsageLimits(tier), [tier]);
 
   // Memoize canAccessFeature function based on tier
   const canAccessFeature = useCallback(
@@ -101,17 +159,32 @@ export function useSubscription(): UseSubscriptionReturn {
 
   return {
     // Derived state
+    tier,
     isPremium,
     isFree,
     usageLimits,
     // Raw state passthrough
     subscription: context.subscription,
+    source: context.source,
     loading: context.loading,
     error: context.error,
+    packages: context.packages,
     // Actions passthrough
     purchasePackage: context.purchasePackage,
+    purchasePackageWithOffer: context.purchasePackageWithOffer,
+    purchaseProduct: context.purchaseProduct,
+    getOffers: context.getOffers,
+    getOfferingPackages: context.getOfferingPackages,
+    checkIntroEligibility: context.checkIntroEligibility,
+    redeemOfferCode: context.redeemOfferCode,
+    openManagementUrl: context.openManagementUrl,
+    beginRefundRequest: context.beginRefundRequest,
     restorePurchases: context.restorePurchases,
     refetchSubscription: context.refetchSubscription,
+    refetchPackages: context.refetchPackages,
+    logIn: context.logIn,
+    logOut: context.logOut,
+    clearCache: context.clearCache,
     // Feature gating function
     canAccessFeature,
   };
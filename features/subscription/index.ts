@@ -11,13 +11,37 @@
 // Core exports
 export type {
   Subscription,
+  SubscriptionSource,
+  SubscriptionTier,
+  TierDefinition,
+  EntitlementRegistry,
+  FeatureGateDefinition,
+  FeatureGateRegistry,
+  PaywallFrequencyCap,
+  PaywallPlacementDefinition,
+  PaywallPlacementRegistry,
+  PaywallPlacementStats,
   UsageLimits,
   SubscriptionPackage,
+  SubscriptionPackageType,
+  IntroEligibility,
+  SubscriptionOffer,
+  RefundRequestStatus,
+  PackagePurchase,
+  ProductPurchase,
   FeatureLevel,
   SubscriptionError,
   Result,
 } from './core';
 
+export {
+  configureEntitlements,
+  configureFeatureGates,
+  configurePaywallPlacements,
+  DAILY_FREQUENCY_CAP,
+  FREE_TIER,
+} from './core';
+
 // Provider exports
 export { SubscriptionProvider, useSubscriptionContext } from './providers';
 
@@ -27,11 +51,21 @@ export type {
 } from './providers';
 
 // Hook exports
-export { useSubscription } from './hooks';
+export { useSubscription, useFeatureGate, usePaywallPresenter } from './hooks';
 
-export type { UseSubscriptionReturn } from './hooks';
+export type {
+  UseSubscriptionReturn,
+  UseFeatureGateOptions,
+  UseFeatureGateReturn,
+  PresentPaywallOptions,
+  UsePaywallPresenterReturn,
+} from './hooks';
 
 // Component exports
-export { Paywall } from './components';
+export { Paywall, NativePaywall, PremiumGate } from './components';
 
-export type { PaywallProps } from './components';
+export type {
+  PaywallProps,
+  NativePaywallProps,
+  PremiumGateProps,
+} from './components';
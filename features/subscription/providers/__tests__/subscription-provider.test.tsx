@@ -8,13 +8,23 @@
 
 import React from 'react';
 import { render, waitFor, act } from '@testing-library/react-native';
-import { Text } from 'react-native';
+import { AppState, Text, type AppStateStatus } from 'react-native';
 
 import {
   SubscriptionProvider,
   useSubscriptionContext,
+  type SubscriptionContextValue,
 } from '../subscription-provider';
-import type { Subscription, SubscriptionError, Result } from '../../core/types';
+import type {
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+} from '../../core/types';
 import { DEFAULT_FREE_SUBSCRIPTION } from '../../core/types';
 import type { SubscriptionService } from '../../core/service';
 
@@ -26,6 +36,8 @@ const createMockService = (
 
   return {
     getCurrentSubscription: jest.fn(() => currentSubscription),
+    getSubscriptionSource: jest.fn((): SubscriptionSource | null => 'remote'),
+    restoreFromCache: jest.fn(async (): Promise<Subscription | null> => null),
     getSubscription: jest.fn(
       async (): Promise<Result<Subscription, SubscriptionError>> => ({
         success: true,
@@ -44,6 +56,87 @@ const createMockService = (
         data: currentSubscription,
       })
     ),
+    getPackages: jest.fn(
+      async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getCachedPackages: jest.fn(() => null),
+    checkIntroEligibility: jest.fn(
+      async (): Promise<Result<SubscriptionPackage[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getOffers: jest.fn(
+      async (): Promise<Result<SubscriptionOffer[], SubscriptionError>> => ({
+        success: true,
+        data: [],
+      })
+    ),
+    getOfferingPackages: jest.fn(
+      async (): Promise<
+        Result<SubscriptionPackage[] | null, SubscriptionError>
+      > => ({
+        success: true,
+        data: null,
+      })
+    ),
+    purchasePackageWithOffer: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: { ...currentSubscription, tier: 'premium', isActive: true },
+      })
+    ),
+    redeemOfferCode: jest.fn(
+      async (): Promise<Result<void, SubscriptionError>> => ({
+        success: true,
+        data: undefined,
+      })
+    ),
+    openManagementUrl: jest.fn(
+      async (): Promise<Result<void, SubscriptionError>> => ({
+        success: true,
+        data: undefined,
+      })
+    ),
+    purchaseProduct: jest.fn(
+      async (
+        productId: string
+      ): Promise<Result<ProductPurchase, SubscriptionError>> => ({
+        success: true,
+        data: {
+          productId,
+          transactionId: 'transaction-1',
+          subscription: {
+            ...currentSubscription,
+            tier: 'premium',
+            isActive: true,
+          },
+        },
+      })
+    ),
+    beginRefundRequest: jest.fn(
+      async (): Promise<Result<RefundRequestStatus, SubscriptionError>> => ({
+        success: true,
+        data: 'submitted',
+      })
+    ),
+    logIn: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: currentSubscription,
+      })
+    ),
+    logOut: jest.fn(
+      async (): Promise<Result<Subscription, SubscriptionError>> => ({
+        success: true,
+        data: DEFAULT_FREE_SUBSCRIPTION,
+      })
+    ),
+    clearCache: jest.fn(async (): Promise<void> => {}),
+    subscribeToUpdates: jest.fn(() => jest.fn()),
     ...overrides,
   };
 };
@@ -117,6 +210,10 @@ describe('SubscriptionProvider', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -169,6 +266,10 @@ describe('SubscriptionProvider', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -201,7 +302,10 @@ describe('SubscriptionProvider', () => {
       );
 
       await waitFor(() => {
-        expect(mockService.purchasePackage).toHaveBeenCalledWith('$rc_monthly');
+        expect(mockService.purchasePackage).toHaveBeenCalledWith(
+          '$rc_monthly',
+          undefined
+        );
         expect(getByTestId('subscription-tier').props.children).toBe('premium');
       });
     });
@@ -264,6 +368,10 @@ describe('SubscriptionProvider', () => {
             tier: 'premium',
             expiresAt: null,
             productId: 'monthly_plan',
+            willRenew: true,
+            isTrialPeriod: false,
+            billingIssueDetectedAt: null,
+            cancelledAt: null,
           },
         });
       });
@@ -286,6 +394,9 @@ describe('SubscriptionProvider', () => {
       const mockService = createMockService({
         purchasePackage: jest.fn(() => purchasePromise),
       });
+      const duplicateResults: Promise<
+        Result<Subscription, SubscriptionError>
+      >[] = [];
 
       function DuplicatePurchaseTest(): React.JSX.Element {
         const context = useSubscriptionContext();
@@ -296,8 +407,8 @@ describe('SubscriptionProvider', () => {
             purchaseTriggered.current = true;
             // Try to trigger multiple purchases
             void context.purchasePackage('$rc_monthly');
-            void context.purchasePackage('$rc_monthly');
-            void context.purchasePackage('$rc_monthly');
+            duplicateResults.push(context.purchasePackage('$rc_monthly'));
+            duplicateResults.push(context.purchasePackage('$rc_monthly'));
           }
         }, [context.loading, context.subscription?.tier]);
 
@@ -325,12 +436,28 @@ describe('SubscriptionProvider', () => {
             tier: 'premium',
             expiresAt: null,
             productId: 'monthly_plan',
+            willRenew: true,
+            isTrialPeriod: false,
+            billingIssueDetectedAt: null,
+            cancelledAt: null,
           },
         });
       });
 
       // Should only be called once due to duplicate prevention
       expect(mockService.purchasePackage).toHaveBeenCalledTimes(1);
+      // Duplicates resolve to OPERATION_IN_PROGRESS instead of being dropped
+      const results = await Promise.all(duplicateResults);
+      expect(results).toEqual([
+        {
+          success: false,
+          error: expect.objectContaining({ code: 'OPERATION_IN_PROGRESS' }),
+        },
+        {
+          success: false,
+          error: expect.objectContaining({ code: 'OPERATION_IN_PROGRESS' }),
+        },
+      ]);
     });
   });
 
@@ -341,6 +468,10 @@ describe('SubscriptionProvider', () => {
         tier: 'premium',
         expiresAt: new Date('2025-12-31'),
         productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
       };
 
       const mockService = createMockService({
@@ -418,6 +549,47 @@ describe('SubscriptionProvider', () => {
         );
       });
     });
+
+    it('should resolve to the service result', async () => {
+      const restoreResult: Result<Subscription, SubscriptionError> = {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: 'Network connection failed',
+          retryable: true,
+        },
+      };
+      const mockService = createMockService({
+        restorePurchases: jest.fn(async () => restoreResult),
+      });
+      let resolvedResult: Result<Subscription, SubscriptionError> | null = null;
+
+      function RestoreResultConsumer(): React.JSX.Element {
+        const context = useSubscriptionContext();
+        const restoreTriggered = React.useRef(false);
+
+        React.useEffect(() => {
+          if (!context.loading && !restoreTriggered.current) {
+            restoreTriggered.current = true;
+            void context.restorePurchases().then((result) => {
+              resolvedResult = result;
+            });
+          }
+        }, [context.loading]);
+
+        return <Text testID="loading">{String(context.loading)}</Text>;
+      }
+
+      render(
+        <SubscriptionProvider service={mockService}>
+          <RestoreResultConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(resolvedResult).toEqual(restoreResult);
+      });
+    });
   });
 
   describe('refetchSubscription action', () => {
@@ -453,6 +625,758 @@ describe('SubscriptionProvider', () => {
     });
   });
 
+  describe('clearCache action', () => {
+    it('should clear the service cache and show the state it leaves', async () => {
+      const cachedPremium: Subscription = {
+        isActive: true,
+        tier: 'premium',
+        expiresAt: new Date('2030-01-01'),
+        productId: 'monthly_plan',
+        willRenew: true,
+        isTrialPeriod: false,
+        billingIssueDetectedAt: null,
+        cancelledAt: null,
+      };
+      let current = cachedPremium;
+      let source: SubscriptionSource | null = 'cache';
+      const mockService = createMockService({
+        getSubscription: jest.fn(
+          async (): Promise<Result<Subscription, SubscriptionError>> => ({
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: 'Network unavailable',
+              retryable: true,
+            },
+          })
+        ),
+        getCurrentSubscription: jest.fn(() => current),
+        getSubscriptionSource: jest.fn(() => source),
+        clearCache: jest.fn(async () => {
+          current = DEFAULT_FREE_SUBSCRIPTION;
+          source = null;
+        }),
+      });
+
+      let clearCache: (() => Promise<void>) | null = null;
+
+      function ClearCacheConsumer(): React.JSX.Element {
+        const context = useSubscriptionContext();
+        clearCache = context.clearCache;
+        return (
+          <>
+            <Text testID="tier">{context.subscription?.tier ?? 'null'}</Text>
+            <Text testID="source">{context.source ?? 'none'}</Text>
+          </>
+        );
+      }
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <ClearCacheConsumer />
+        </SubscriptionProvider>
+      );
+      await waitFor(() => {
+        expect(getByTestId('source').props.children).toBe('cache');
+      });
+
+      await act(async () => {
+        await clearCache?.();
+      });
+
+      expect(mockService.clearCache).toHaveBeenCalled();
+      expect(getByTestId('source').props.children).toBe('none');
+      expect(getByTestId('tier').props.children).toBe('free');
+    });
+  });
+
+  describe('identity actions', () => {
+    const premiumSubscription: Subscription = {
+      isActive: true,
+      tier: 'premium',
+      expiresAt: new Date('2025-12-31'),
+      productId: 'monthly_plan',
+      willRenew: true,
+      isTrialPeriod: false,
+      billingIssueDetectedAt: null,
+      cancelledAt: null,
+    };
+
+    function IdentityConsumer({
+      action,
+    }: {
+      action: (context: ReturnType<typeof useSubscriptionContext>) => void;
+    }): React.JSX.Element {
+      const context = useSubscriptionContext();
+      const actionTriggered = React.useRef(false);
+
+      React.useEffect(() => {
+        if (!context.loading && !actionTriggered.current) {
+          actionTriggered.current = true;
+          action(context);
+        }
+      }, [context.loading]);
+
+      return (
+        <>
+          <Text testID="subscription-tier">
+            {context.subscription?.tier ?? 'null'}
+          </Text>
+          <Text testID="error">{context.error?.code ?? 'null'}</Text>
+        </>
+      );
+    }
+
+    it('should log in and apply the identified user subscription', async () => {
+      const mockService = createMockService({
+        logIn: jest.fn(
+          async (): Promise<Result<Subscription, SubscriptionError>> => ({
+            success: true,
+            data: premiumSubscription,
+          })
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <IdentityConsumer
+            action={(context) => void context.logIn('user-42')}
+          />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.logIn).toHaveBeenCalledWith('user-42');
+        expect(getByTestId('subscription-tier').props.children).toBe('premium');
+      });
+    });
+
+    it('should reload packages after the identity changes', async () => {
+      const mockService = createMockService();
+
+      render(
+        <SubscriptionProvider service={mockService}>
+          <IdentityConsumer action={(context) => void context.logOut()} />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.logOut).toHaveBeenCalled();
+        // Mount + after log out
+        expect(mockService.getPackages).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    it('should surface log in errors', async () => {
+      const mockService = createMockService({
+        logIn: jest.fn(
+          async (): Promise<Result<Subscription, SubscriptionError>> => ({
+            success: false,
+            error: {
+              code: 'INVALID_APP_USER_ID',
+              message: 'Invalid app user id',
+              retryable: false,
+            },
+          })
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <IdentityConsumer action={(context) => void context.logIn('')} />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('error').props.children).toBe('INVALID_APP_USER_ID');
+      });
+      expect(mockService.getPackages).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('offer actions', () => {
+    const offer: SubscriptionOffer = {
+      identifier: 'win_back_1',
+      type: 'win_back',
+      priceString: '$0.99',
+      price: 0.99,
+      period: 'P1M',
+      cycles: 1,
+    };
+
+    function OfferConsumer({
+      action,
+    }: {
+      action: (context: ReturnType<typeof useSubscriptionContext>) => void;
+    }): React.JSX.Element {
+      const context = useSubscriptionContext();
+      const actionTriggered = React.useRef(false);
+
+      React.useEffect(() => {
+        if (!context.loading && !actionTriggered.current) {
+          actionTriggered.current = true;
+          action(context);
+        }
+      }, [context.loading]);
+
+      return (
+        <>
+          <Text testID="subscription-tier">
+            {context.subscription?.tier ?? 'null'}
+          </Text>
+          <Text testID="packages">
+            {context.packages
+              .map(
+                (pkg) => `${pkg.identifier}:${pkg.introPrice ? 'intro' : '-'}`
+              )
+              .join(',') || 'none'}
+          </Text>
+          <Text testID="error">{context.error?.code ?? 'null'}</Text>
+        </>
+      );
+    }
+
+    it('should purchase with an offer and apply the subscription', async () => {
+      const mockService = createMockService();
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <OfferConsumer
+            action={(context) =>
+              void context.purchasePackageWithOffer('$rc_monthly', offer)
+            }
+          />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.purchasePackageWithOffer).toHaveBeenCalledWith(
+          '$rc_monthly',
+          offer
+        );
+        expect(getByTestId('subscription-tier').props.children).toBe('premium');
+      });
+    });
+
+    it('should replace packages with the eligibility-checked packages', async () => {
+      const monthlyPackage: SubscriptionPackage = {
+        identifier: '$rc_monthly',
+        packageType: 'MONTHLY',
+        title: 'Monthly',
+        priceString: '$9.99',
+        price: 9.99,
+        currencyCode: 'USD',
+      };
+      const mockService = createMockService({
+        getPackages: jest.fn(async () => ({
+          success: true as const,
+          data: [
+            {
+              ...monthlyPackage,
+              introPrice: { priceString: '$0.00', price: 0, period: 'P1W' },
+            },
+          ],
+        })),
+        checkIntroEligibility: jest.fn(async () => ({
+          success: true as const,
+          data: [monthlyPackage],
+        })),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <OfferConsumer
+            action={(context) => void context.checkIntroEligibility()}
+          />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('packages').props.children).toBe('$rc_monthly:-');
+      });
+    });
+
+    it('should surface offer code redemption errors', async () => {
+      const mockService = createMockService({
+        redeemOfferCode: jest.fn(
+          async (): Promise<Result<void, SubscriptionError>> => ({
+            success: false,
+            error: {
+              code: 'OPERATION_NOT_SUPPORTED',
+              message: 'Not supported',
+              retryable: false,
+            },
+          })
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <OfferConsumer
+            action={(context) => void context.redeemOfferCode('SPRING25')}
+          />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('error').props.children).toBe(
+          'OPERATION_NOT_SUPPORTED'
+        );
+      });
+    });
+  });
+
+  describe('purchaseProduct action', () => {
+    function ProductConsumer({
+      productId,
+    }: {
+      productId: string;
+    }): React.JSX.Element {
+      const context = useSubscriptionContext();
+      const purchaseTriggered = React.useRef(false);
+
+      React.useEffect(() => {
+        if (!context.loading && !purchaseTriggered.current) {
+          purchaseTriggered.current = true;
+          void context.purchaseProduct(productId);
+        }
+      }, [context.loading]);
+
+      return (
+        <>
+          <Text testID="subscription-tier">
+            {context.subscription?.tier ?? 'null'}
+          </Text>
+          <Text testID="error">{context.error?.code ?? 'null'}</Text>
+        </>
+      );
+    }
+
+    it('should purchase the product and apply the resulting subscription', async () => {
+      const mockService = createMockService();
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <ProductConsumer productId="lifetime_plan" />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.purchaseProduct).toHaveBeenCalledWith(
+          'lifetime_plan'
+        );
+        expect(getByTestId('subscription-tier').props.children).toBe('premium');
+      });
+    });
+
+    it('should surface product purchase errors', async () => {
+      const mockService = createMockService({
+        purchaseProduct: jest.fn(
+          async (): Promise<Result<ProductPurchase, SubscriptionError>> => ({
+            success: false,
+            error: {
+              code: 'STORE_PROBLEM_ERROR',
+              message: 'Store is unavailable',
+              retryable: true,
+            },
+          })
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <ProductConsumer productId="export_pack_10" />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('error').props.children).toBe('STORE_PROBLEM_ERROR');
+      });
+      expect(getByTestId('subscription-tier').props.children).toBe('free');
+    });
+  });
+
+  describe('packages', () => {
+    const annualPackage: SubscriptionPackage = {
+      identifier: '$rc_annual',
+      packageType: 'ANNUAL',
+      title: 'Annual',
+      priceString: '$99.99',
+      price: 99.99,
+      currencyCode: 'USD',
+    };
+
+    function PackagesConsumer(): React.JSX.Element {
+      const context = useSubscriptionContext();
+      return (
+        <Text testID="packages">
+          {context.packages.map((pkg) => pkg.identifier).join(',') || 'none'}
+        </Text>
+      );
+    }
+
+    it('should fetch packages on mount', async () => {
+      const mockService = createMockService({
+        getPackages: jest.fn(async () => ({
+          success: true as const,
+          data: [annualPackage],
+        })),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <PackagesConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('packages').props.children).toBe('$rc_annual');
+      });
+      expect(mockService.getPackages).toHaveBeenCalledWith({
+        forceRefresh: false,
+      });
+    });
+
+    it('should start with cached packages from the service', () => {
+      const mockService = createMockService({
+        getCachedPackages: jest.fn(() => [annualPackage]),
+        getPackages: jest.fn(
+          () =>
+            new Promise<Result<SubscriptionPackage[], SubscriptionError>>(
+              () => {
+                // Never resolves
+              }
+            )
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <PackagesConsumer />
+        </SubscriptionProvider>
+      );
+
+      expect(getByTestId('packages').props.children).toBe('$rc_annual');
+    });
+
+    it('should keep empty packages and no error when fetching packages fails', async () => {
+      const mockService = createMockService({
+        getPackages: jest.fn(async () => ({
+          success: false as const,
+          error: {
+            code: 'NETWORK_ERROR' as const,
+            message: 'Network error',
+            retryable: true as const,
+          },
+        })),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <PackagesConsumer />
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.getPackages).toHaveBeenCalled();
+      });
+      expect(getByTestId('packages').props.children).toBe('none');
+      expect(getByTestId('error').props.children).toBe('null');
+    });
+
+    it('should force refresh when refetchPackages is called', async () => {
+      const mockService = createMockService();
+      let contextRef: SubscriptionContextValue | null = null;
+
+      function RefConsumer(): null {
+        contextRef = useSubscriptionContext();
+        return null;
+      }
+
+      render(
+        <SubscriptionProvider service={mockService}>
+          <RefConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(mockService.getPackages).toHaveBeenCalledTimes(1);
+      });
+
+      await act(async () => {
+        await contextRef!.refetchPackages();
+      });
+
+      expect(mockService.getPackages).toHaveBeenLastCalledWith({
+        forceRefresh: true,
+      });
+    });
+  });
+
+  describe('offline cache', () => {
+    const cachedSubscription: Subscription = {
+      isActive: true,
+      tier: 'premium',
+      expiresAt: new Date('2099-12-31'),
+      productId: 'monthly_plan',
+      willRenew: true,
+      isTrialPeriod: false,
+      billingIssueDetectedAt: null,
+      cancelledAt: null,
+    };
+
+    function SourceConsumer(): React.JSX.Element {
+      const context = useSubscriptionContext();
+      return (
+        <>
+          <Text testID="subscription-tier">
+            {context.subscription?.tier ?? 'null'}
+          </Text>
+          <Text testID="source">{context.source ?? 'null'}</Text>
+        </>
+      );
+    }
+
+    it('should show the cached subscription while the remote fetch is pending', async () => {
+      let source: SubscriptionSource | null = null;
+      const mockService = createMockService({
+        restoreFromCache: jest.fn(async () => {
+          source = 'cache';
+          return cachedSubscription;
+        }),
+        getSubscriptionSource: jest.fn(() => source),
+        getSubscription: jest.fn(
+          () =>
+            new Promise<Result<Subscription, SubscriptionError>>(() => {
+              // Never resolves to simulate a slow network
+            })
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <SourceConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('subscription-tier').props.children).toBe('premium');
+      });
+      expect(getByTestId('source').props.children).toBe('cache');
+    });
+
+    it('should report remote source after a successful fetch', async () => {
+      const mockService = createMockService();
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <SourceConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('source').props.children).toBe('remote');
+      });
+    });
+
+    it('should use the service fallback state and source when fetch fails', async () => {
+      const mockService = createMockService({
+        getSubscription: jest.fn(
+          async (): Promise<Result<Subscription, SubscriptionError>> => ({
+            success: false,
+            error: {
+              code: 'NETWORK_ERROR',
+              message: 'Network error',
+              retryable: true,
+            },
+          })
+        ),
+        getCurrentSubscription: jest.fn(() => cachedSubscription),
+        getSubscriptionSource: jest.fn(
+          (): SubscriptionSource | null => 'cache'
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <SourceConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('source').props.children).toBe('cache');
+      });
+      expect(getByTestId('subscription-tier').props.children).toBe('premium');
+    });
+
+    it('should ignore the cache once remote state has arrived', async () => {
+      const mockService = createMockService({
+        restoreFromCache: jest.fn(async () => cachedSubscription),
+        // Service reports remote: it already received RevenueCat state
+        getSubscriptionSource: jest.fn(
+          (): SubscriptionSource | null => 'remote'
+        ),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <SourceConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('source').props.children).toBe('remote');
+      });
+      expect(getByTestId('subscription-tier').props.children).toBe('free');
+    });
+  });
+
+  describe('live updates', () => {
+    const premiumSubscription: Subscription = {
+      isActive: true,
+      tier: 'premium',
+      expiresAt: new Date('2025-12-31'),
+      productId: 'monthly_plan',
+      willRenew: true,
+      isTrialPeriod: false,
+      billingIssueDetectedAt: null,
+      cancelledAt: null,
+    };
+
+    let appStateHandler: ((state: AppStateStatus) => void) | null;
+    let removeAppStateListener: jest.Mock;
+
+    beforeEach(() => {
+      appStateHandler = null;
+      removeAppStateListener = jest.fn();
+      jest
+        .spyOn(AppState, 'addEventListener')
+        .mockImplementation((_type, handler) => {
+          appStateHandler = handler;
+          return { remove: removeAppStateListener };
+        });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should subscribe to updates on mount and unsubscribe on unmount', () => {
+      const unsubscribe = jest.fn();
+      const mockService = createMockService({
+        subscribeToUpdates: jest.fn(() => unsubscribe),
+      });
+
+      const { unmount } = render(
+        <SubscriptionProvider service={mockService}>
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      expect(mockService.subscribeToUpdates).toHaveBeenCalledTimes(1);
+
+      unmount();
+
+      expect(unsubscribe).toHaveBeenCalledTimes(1);
+      expect(removeAppStateListener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should apply subscription changes pushed by the service', async () => {
+      let pushUpdate: ((subscription: Subscription) => void) | null = null;
+      const mockService = createMockService({
+        subscribeToUpdates: jest.fn((listener) => {
+          pushUpdate = listener;
+          return jest.fn();
+        }),
+      });
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('subscription-tier').props.children).toBe('free');
+      });
+
+      act(() => {
+        pushUpdate!(premiumSubscription);
+      });
+
+      expect(getByTestId('subscription-tier').props.children).toBe('premium');
+      // Pushed updates don't trigger another fetch
+      expect(mockService.getSubscription).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch when the app returns to the foreground', async () => {
+      const mockService = createMockService();
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('loading').props.children).toBe('false');
+      });
+
+      await act(async () => {
+        appStateHandler!('background');
+        appStateHandler!('active');
+      });
+
+      expect(mockService.getSubscription).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not refetch on transitions that are not a return to the foreground', async () => {
+      const mockService = createMockService();
+
+      const { getByTestId } = render(
+        <SubscriptionProvider service={mockService}>
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      await waitFor(() => {
+        expect(getByTestId('loading').props.children).toBe('false');
+      });
+
+      await act(async () => {
+        appStateHandler!('active');
+        appStateHandler!('background');
+      });
+
+      expect(mockService.getSubscription).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip the foreground refetch while a request is in progress', async () => {
+      const mockService = createMockService({
+        getSubscription: jest.fn(
+          () =>
+            new Promise<Result<Subscription, SubscriptionError>>(() => {
+              // Never resolves to keep the initial fetch in flight
+            })
+        ),
+      });
+
+      render(
+        <SubscriptionProvider service={mockService}>
+          <TestConsumer />
+        </SubscriptionProvider>
+      );
+
+      await act(async () => {
+        appStateHandler!('background');
+        appStateHandler!('active');
+      });
+
+      expect(mockService.getSubscription).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('useSubscriptionContext outside provider', () => {
     it('should throw error when used outside SubscriptionProvider', () => {
       // Suppress console.error for this test
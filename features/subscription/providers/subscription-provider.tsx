@@ -5,9 +5,14 @@
  * subscription actions to all child components.
  *
  * Responsibilities:
- * - Fetch subscription state on mount (from SubscriptionService)
+ * - Fetch subscription state and available packages on mount (from SubscriptionService)
+ * - Start from the cached subscription while the remote fetch is in flight
+ * - Apply subscription changes pushed by RevenueCat and refetch on app foreground
  * - Manage loading and error states
- * - Provide purchase, restore, and refetch actions
+ * - Provide purchase, restore, refetch, and log in / log out actions
+ * - Provide non-subscription product purchases (consumables, lifetime unlocks)
+ * - Provide offer actions (intro eligibility, promotional / win-back offers, offer codes)
+ * - Provide subscription management and refund request actions
  * - Prevent duplicate requests during loading
  *
  * @module features/subscription/providers/subscription-provider
@@ -22,7 +27,17 @@ import React, {
   useMemo,
   useRef,
 } from 'react';
-import type { Subscription, SubscriptionError } from '../core/types';
+import { AppState, type AppStateStatus } from 'react-native';
+import type {
+  ProductPurchase,
+  RefundRequestStatus,
+  Result,
+  Subscription,
+  SubscriptionError,
+  SubscriptionOffer,
+  SubscriptionPackage,
+  SubscriptionSource,
+} from '../core/types';
 import type { SubscriptionService } from '../core/service';
 
 /**
@@ -33,30 +48,146 @@ import type { SubscriptionService } from '../core/service';
 export interface SubscriptionContextValue {
   /** Current subscription state (null until loaded) */
   subscription: Subscription | null;
+  /**
+   * Where `subscription` came from: 'remote' (RevenueCat) or 'cache'
+   * (last known state while offline). null until loaded or when falling back to free.
+   */
+  source: SubscriptionSource | null;
   /** Whether a subscription operation is in progress */
   loading: boolean;
   /** Error from the last operation (null if no error) */
   error: SubscriptionError | null;
+  /** Packages available for purchase (empty until loaded) */
+  packages: SubscriptionPackage[];
 
   /**
    * Purchase a subscription package.
    * Sets loading to true and prevents duplicate requests.
+   * Resolves to the service result; a duplicate request resolves to an
+   * OPERATION_IN_PROGRESS error without changing state.
    *
    * @param packageId - Package identifier (e.g., "$rc_monthly", "$rc_annual")
+   * @param offeringId - Offering the package belongs to (defaults to the current offering)
+   */
+  purchasePackage: (
+    packageId: string,
+    offeringId?: string
+  ) => Promise<Result<Subscription, SubscriptionError>>;
+
+  /**
+   * Purchase a package with a promotional or win-back offer from getOffers.
+   * Guarded like purchasePackage.
+   *
+   * @param packageId - Package identifier (e.g., "$rc_monthly")
+   * @param offer - Offer to apply
+   */
+  purchasePackageWithOffer: (
+    packageId: string,
+    offer: SubscriptionOffer
+  ) => Promise<Result<Subscription, SubscriptionError>>;
+
+  /**
+   * Purchase a non-subscription product (consumable or lifetime unlock).
+   * Guarded like purchasePackage; a lifetime unlock updates `subscription`.
+   *
+   * @param productId - Store product identifier (e.g., "export_pack_10")
+   */
+  purchaseProduct: (
+    productId: string
+  ) => Promise<Result<ProductPurchase, SubscriptionError>>;
+
+  /**
+   * List the promotional and win-back offers for a package.
+   *
+   * @param packageId - Package identifier (e.g., "$rc_monthly")
    */
-  purchasePackage: (packageId: string) => Promise<void>;
+  getOffers: (
+    packageId: string
+  ) => Promise<Result<SubscriptionOffer[], SubscriptionError>>;
+
+  /**
+   * Fetch the packages of an offering other than the current one
+   * (e.g., a placement's offering). Resolves to null if it does not exist.
+   * Does not change `packages`.
+   *
+   * @param offeringId - Offering identifier configured in the dashboard
+   */
+  getOfferingPackages: (
+    offeringId: string
+  ) => Promise<Result<SubscriptionPackage[] | null, SubscriptionError>>;
+
+  /**
+   * Check intro offer eligibility and update `packages`: packages the user
+   * is not eligible for lose their `introPrice`.
+   * Failures are not surfaced through `error`; the intro offer stays visible.
+   */
+  checkIntroEligibility: () => Promise<void>;
+
+  /**
+   * Present the store's offer code redemption flow. The redeemed
+   * subscription arrives as a live update. Failures are set as `error`.
+   *
+   * @param code - Offer code to prefill (Android only)
+   */
+  redeemOfferCode: (code?: string) => Promise<Result<void, SubscriptionError>>;
+
+  /**
+   * Open the store page where the user manages or cancels their subscription.
+   * Failures are not surfaced through `error`; handle the resolved Result.
+   */
+  openManagementUrl: () => Promise<Result<void, SubscriptionError>>;
+
+  /**
+   * Present the store's refund request flow for a purchased product (iOS).
+   * A granted refund arrives as a live update. Failures are not surfaced
+   * through `error`; handle the resolved Result.
+   *
+   * @param productId - Store product identifier (Subscription.productId)
+   */
+  beginRefundRequest: (
+    productId: string
+  ) => Promise<Result<RefundRequestStatus, SubscriptionError>>;
 
   /**
    * Restore previous purchases.
    * Sets loading to true and prevents duplicate requests.
+   * Resolves to the service result; a duplicate request resolves to an
+   * OPERATION_IN_PROGRESS error without changing state.
    */
-  restorePurchases: () => Promise<void>;
+  restorePurchases: () => Promise<Result<Subscription, SubscriptionError>>;
 
   /**
    * Refetch subscription state from RevenueCat.
    * Useful after external events that might change subscription status.
    */
   refetchSubscription: () => Promise<void>;
+
+  /**
+   * Refetch available packages from RevenueCat, bypassing the service cache.
+   * Failures are not surfaced through `error`; previously loaded packages are kept.
+   */
+  refetchPackages: () => Promise<void>;
+
+  /**
+   * Identify the current user with an app user id (e.g., after sign-in).
+   * Replaces the subscription with the identified user's and reloads packages.
+   *
+   * @param appUserId - Your app's stable user identifier
+   */
+  logIn: (appUserId: string) => Promise<void>;
+
+  /**
+   * Log out the identified user (e.g., after sign-out).
+   * Replaces the subscription with the anonymous user's and reloads packages.
+   */
+  logOut: () => Promise<void>;
+
+  /**
+   * Discard the service's cached subscription and packages.
+   * A subscription shown from the cache falls back to the free tier until
+   * the next refetchSubscription.
+   */
+  clearCache: () => Promise<void>;
 }
 
 /**
@@ -67,6 +198,15 @@ const SubscriptionContext = createContext<SubscriptionContextValue | null>(
   null
 );
 
+/**
+ * Returned by purchasePackage/restorePurchases when another operation is in flight.
+ */
+const OPERATION_IN_PROGRESS_ERROR: SubscriptionError = {
+  code: 'OPERATION_IN_PROGRESS',
+  message: 'Another subscription operation is in progress',
+  retryable: false,
+};
+
 /**
  * Props for SubscriptionProvider component.
  */
@@ -84,7 +224,9 @@ export interface SubscriptionProviderProps {
  * and actions to all descendant components via React Context.
  *
  * Features:
- * - Fetches subscription state on mount
+ * - Fetches subscription state and available packages on mount
+ * - Stays in sync with renewals, refunds and purchases on other devices
+ *   (RevenueCat update listener + refetch when the app returns to the foreground)
  * - Manages loading state to prevent duplicate requests
  * - Provides purchase, restore, and refetch actions
  * - Clears error state on successful operations
@@ -110,8 +252,12 @@ export function SubscriptionProvider({
   service,
 }: SubscriptionProviderProps): React.JSX.Element {
   const [subscription, setSubscription] = useState<Subscription | null>(null);
+  const [source, setSource] = useState<SubscriptionSource | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<SubscriptionError | null>(null);
+  const [packages, setPackages] = useState<SubscriptionPackage[]>(
+    () => service.getCachedPackages() ?? []
+  );
 
   // Track if a request is in progress to prevent duplicates
   const isProcessing = useRef(false);
@@ -140,62 +286,242 @@ export function SubscriptionProvider({
         setError(null);
       } else {
         setError(result.error);
-        // Keep existing subscription or use service's current state
+        // Use service's current state (cached subscription or free fallback)
         setSubscription(service.getCurrentSubscription());
       }
+      setSource(service.getSubscriptionSource());
     } finally {
       setLoading(false);
       isProcessing.current = false;
     }
   }, [service]);
 
-  // Fetch subscription on mount
+  /**
+   * Fetch available packages from service.
+   * Runs independently of the isProcessing guard so that loading the
+   * paywall never blocks (or is blocked by) a purchase in progress.
+   */
+  const fetchPackages = useCallback(
+    async (forceRefresh: boolean) => {
+      const result = await service.getPackages({ forceRefresh });
+
+      if (result.success) {
+        setPackages(result.data);
+      }
+    },
+    [service]
+  );
+
+  // Fetch subscription and packages on mount
   useEffect(() => {
     void fetchSubscription();
+    void fetchPackages(false);
+  }, [fetchSubscription, fetchPackages]);
+
+  // Show the last known subscription until the remote fetch completes
+  useEffect(() => {
+    let isMounted = true;
+
+    void service.restoreFromCache().then((cached) => {
+      // The service ignores the cache once remote state has arrived
+      if (isMounted && cached && service.getSubscriptionSource() === 'cache') {
+        setSubscription(cached);
+        setSource('cache');
+      }
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [service]);
+
+  // Apply subscription changes pushed by RevenueCat (renewals, refunds, other devices)
+  useEffect(() => {
+    const unsubscribe = service.subscribeToUpdates((updated) => {
+      setSubscription(updated);
+      setSource('remote');
+    });
+
+    return unsubscribe;
+  }, [service]);
+
+  // Refetch when the app returns to the foreground.
+  // fetchSubscription's isProcessing guard skips this while another request is in flight.
+  useEffect(() => {
+    let previousState: AppStateStatus = AppState.currentState;
+
+    const subscription = AppState.addEventListener('change', (nextState) => {
+      const wasInBackground =
+        previousState === 'background' || previousState === 'inactive';
+      previousState = nextState;
+
+      if (wasInBackground && nextState === 'active') {
+        void fetchSubscription();
+      }
+    });
+
+    return () => subscription.remove();
   }, [fetchSubscription]);
 
   /**
-   * Purchase a subscription package.
+   * Run a purchase, guarded against concurrent operations.
    */
-  const purchasePackage = useCallback(
-    async (packageId: string): Promise<void> => {
+  const runPurchase = useCallback(
+    async <T,>(
+      purchase: () => Promise<Result<T, SubscriptionError>>,
+      getSubscription: (data: T) => Subscription
+    ): Promise<Result<T, SubscriptionError>> => {
       // Capture and set atomically to prevent race conditions in concurrent mode
       const wasProcessing = isProcessing.current;
       isProcessing.current = true;
 
       if (wasProcessing) {
-        return;
+        return { success: false, error: OPERATION_IN_PROGRESS_ERROR };
       }
       setLoading(true);
       setError(null);
 
       try {
-        const result = await service.purchasePackage(packageId);
+        const result = await purchase();
 
         if (result.success) {
-          setSubscription(result.data);
+          setSubscription(getSubscription(result.data));
+          setSource('remote');
           setError(null);
         } else {
           setError(result.error);
         }
+
+        return result;
       } finally {
         setLoading(false);
         isProcessing.current = false;
       }
     },
+    []
+  );
+
+  /**
+   * Purchase a subscription package.
+   */
+  const purchasePackage = useCallback(
+    (
+      packageId: string,
+      offeringId?: string
+    ): Promise<Result<Subscription, SubscriptionError>> =>
+      runPurchase(
+        () => service.purchasePackage(packageId, offeringId),
+        (subscription) => subscription
+      ),
+    [runPurchase, service]
+  );
+
+  /**
+   * Purchase a subscription package with an offer.
+   */
+  const purchasePackageWithOffer = useCallback(
+    (
+      packageId: string,
+      offer: SubscriptionOffer
+    ): Promise<Result<Subscription, SubscriptionError>> =>
+      runPurchase(
+        () => service.purchasePackageWithOffer(packageId, offer),
+        (subscription) => subscription
+      ),
+    [runPurchase, service]
+  );
+
+  /**
+   * Purchase a non-subscription product.
+   */
+  const purchaseProduct = useCallback(
+    (productId: string): Promise<Result<ProductPurchase, SubscriptionError>> =>
+      runPurchase(
+        () => service.purchaseProduct(productId),
+        (purchase) => purchase.subscription
+      ),
+    [runPurchase, service]
+  );
+
+  /**
+   * List offers for a package.
+   */
+  const getOffers = useCallback(
+    (
+      packageId: string
+    ): Promise<Result<SubscriptionOffer[], SubscriptionError>> =>
+      service.getOffers(packageId),
+    [service]
+  );
+
+  /**
+   * Fetch an offering's packages.
+   */
+  const getOfferingPackages = useCallback(
+    (
+      offeringId: string
+    ): Promise<Result<SubscriptionPackage[] | null, SubscriptionError>> =>
+      service.getOfferingPackages(offeringId),
+    [service]
+  );
+
+  /**
+   * Check intro offer eligibility for the loaded packages.
+   */
+  const checkIntroEligibility = useCallback(async (): Promise<void> => {
+    const result = await service.checkIntroEligibility();
+
+    if (result.success) {
+      setPackages(result.data);
+    }
+  }, [service]);
+
+  /**
+   * Present the offer code redemption flow.
+   */
+  const redeemOfferCode = useCallback(
+    async (code?: string): Promise<Result<void, SubscriptionError>> => {
+      const result = await service.redeemOfferCode(code);
+
+      if (!result.success) {
+        setError(result.error);
+      }
+      return result;
+    },
+    [service]
+  );
+
+  /**
+   * Open subscription management.
+   */
+  const openManagementUrl = useCallback(
+    (): Promise<Result<void, SubscriptionError>> => service.openManagementUrl(),
+    [service]
+  );
+
+  /**
+   * Begin a refund request.
+   */
+  const beginRefundRequest = useCallback(
+    (
+      productId: string
+    ): Promise<Result<RefundRequestStatus, SubscriptionError>> =>
+      service.beginRefundRequest(productId),
     [service]
   );
 
   /**
    * Restore previous purchases.
    */
-  const restorePurchases = useCallback(async (): Promise<void> => {
+  const restorePurchases = useCallback(async (): Promise<
+    Result<Subscription, SubscriptionError>
+  > => {
     // Capture and set atomically to prevent race conditions in concurrent mode
     const wasProcessing = isProcessing.current;
     isProcessing.current = true;
 
     if (wasProcessing) {
-      return;
+      return { success: false, error: OPERATION_IN_PROGRESS_ERROR };
     }
     setLoading(true);
     setError(null);
@@ -205,16 +531,82 @@ export function SubscriptionProvider({
 
       if (result.success) {
         setSubscription(result.data);
+        setSource('remote');
         setError(null);
       } else {
         setError(result.error);
       }
+
+      return result;
     } finally {
       setLoading(false);
       isProcessing.current = false;
     }
   }, [service]);
 
+  /**
+   * Run an identity change (log in / log out) and apply the new user's state.
+   */
+  const changeIdentity = useCallback(
+    async (
+      change: () => Promise<Result<Subscription, SubscriptionError>>
+    ): Promise<void> => {
+      // Capture and set atomically to prevent race conditions in concurrent mode
+      const wasProcessing = isProcessing.current;
+      isProcessing.current = true;
+
+      if (wasProcessing) {
+        return;
+      }
+      setLoading(true);
+      setError(null);
+
+      try {
+        const result = await change();
+
+        if (result.success) {
+          setSubscription(result.data);
+          setSource('remote');
+          setError(null);
+          // The service dropped the previous user's packages
+          void fetchPackages(false);
+        } else {
+          setError(result.error);
+        }
+      } finally {
+        setLoading(false);
+        isProcessing.current = false;
+      }
+    },
+    [fetchPackages]
+  );
+
+  /**
+   * Log in an app user.
+   */
+  const logIn = useCallback(
+    async (appUserId: string): Promise<void> => {
+      await changeIdentity(() => service.logIn(appUserId));
+    },
+    [changeIdentity, service]
+  );
+
+  /**
+   * Log out the current app user.
+   */
+  const logOut = useCallback(async (): Promise<void> => {
+    await changeIdentity(() => service.logOut());
+  }, [changeIdentity, service]);
+
+  /**
+   * Clear the service cache and show the state it leaves.
+   */
+  const clearCache = useCallback(async (): Promise<void> => {
+    await service.clearCache();
+    setSubscription(service.getCurrentSubscription());
+    setSource(service.getSubscriptionSource());
+  }, [service]);
+
   /**
    * Refetch subscription state.
    */
@@ -222,23 +614,58 @@ export function SubscriptionProvider({
     await fetchSubscription();
   }, [fetchSubscription]);
 
+  /**
+   * Refetch available packages.
+   */
+  const refetchPackages = useCallback(async (): Promise<void> => {
+    await fetchPackages(true);
+  }, [fetchPackages]);
+
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo<SubscriptionContextValue>(
     () => ({
       subscription,
+      source,
       loading,
       error,
+      packages,
       purchasePackage,
+      purchasePackageWithOffer,
+      purchaseProduct,
+      getOffers,
+      getOfferingPackages,
+      checkIntroEligibility,
+      redeemOfferCode,
+      openManagementUrl,
+      beginRefundRequest,
       restorePurchases,
       refetchSubscription,
+      refetchPackages,
+      logIn,
+      logOut,
+      clearCache,
     }),
     [
       subscription,
+      source,
       loading,
       error,
+      packages,
       purchasePackage,
+      purchasePackageWithOffer,
+      purchaseProduct,
+      getOffers,
+      getOfferingPackages,
+      checkIntroEligibility,
+      redeemOfferCode,
+      openManagementUrl,
+      beginRefundRequest,
       restorePurchases,
       refetchSubscription,
+      refetchPackages,
+      logIn,
+      logOut,
+      clearCache,
     ]
   );
 
@@ -0,0 +1,52 @@
+/**
+ * Credit Pack Registry Tests
+ *
+ * Tests for configuring credit packs and resolving them by product id.
+ *
+ * @module features/usage/core/__tests__/credit-packs.test
+ */
+
+import {
+  configureCreditPacks,
+  getCreditPack,
+  resetCreditPacks,
+} from '../credit-packs';
+
+describe('Credit Pack Registry', () => {
+  afterEach(() => {
+    resetCreditPacks();
+  });
+
+  it('should return the registered credit pack', () => {
+    configureCreditPacks({
+      export_pack_10: { metric: 'exports', credits: 10 },
+    });
+
+    expect(getCreditPack('export_pack_10')).toEqual({
+      metric: 'exports',
+      credits: 10,
+    });
+  });
+
+  it('should return null for products that are not credit packs', () => {
+    configureCreditPacks({
+      export_pack_10: { metric: 'exports', credits: 10 },
+    });
+
+    expect(getCreditPack('lifetime_plan')).toBeNull();
+  });
+
+  it('should ignore inherited object keys', () => {
+    expect(getCreditPack('toString')).toBeNull();
+  });
+
+  it('should start empty again after reset', () => {
+    configureCreditPacks({
+      export_pack_10: { metric: 'exports', credits: 10 },
+    });
+
+    resetCreditPacks();
+
+    expect(getCreditPack('export_pack_10')).toBeNull();
+  });
+});
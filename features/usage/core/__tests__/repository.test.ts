@@ -0,0 +1,271 @@
+/**
+ * Usage Repository Tests
+ *
+ * Runs the SQLite repository against a fake expo-sqlite client to verify the
+ * statements it issues and the limit checks inside its transactions.
+ *
+ * @module features/usage/core/__tests__/repository.test
+ */
+
+import { drizzle } from 'drizzle-orm/expo-sqlite';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+import * as schema from '@/database/schema';
+import { createSqliteUsageRepository } from '../repository';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+/**
+ * Fake expo-sqlite client serving an item count, counter values and the
+ * exports credit balance.
+ */
+function createFakeClient(state: {
+  items: number;
+  exports: number | null;
+  credits?: number | null;
+  alreadyGranted?: boolean;
+}) {
+  const statements: string[] = [];
+
+  const rawRows = (sql: string): unknown[][] => {
+    if (sql.startsWith('select count(*) from "items"')) {
+      return [[state.items]];
+    }
+    if (sql.startsWith('select "count" from "usage_counters"')) {
+      return state.exports === null ? [] : [[state.exports]];
+    }
+    if (sql.startsWith('insert into "items"')) {
+      return [[state.items + 1, 'New Item', null, 1767225600]];
+    }
+    if (sql.startsWith('select "balance" from "credit_balances"')) {
+      return state.credits == null ? [] : [[state.credits]];
+    }
+    if (sql.startsWith('insert into "credit_grants"')) {
+      return state.alreadyGranted ? [] : [['transaction-1']];
+    }
+    if (sql.startsWith('insert into "credit_balances"')) {
+      return [[(state.credits ?? 0) + 10]];
+    }
+    return [];
+  };
+
+  const client = {
+    prepareSync: jest.fn((sql: string) => ({
+      executeSync: jest.fn(() => {
+        statements.push(sql);
+        return {
+          changes: 1,
+          lastInsertRowId: 1,
+          getAllSync: () => [],
+          getFirstSync: () => null,
+        };
+      }),
+      executeForRawResultSync: jest.fn(() => {
+        statements.push(sql);
+        return { getAllSync: () => rawRows(sql) };
+      }),
+      finalizeSync: jest.fn(),
+    })),
+  };
+
+  const database = drizzle(client as unknown as SQLiteDatabase, { schema });
+  return { database, statements };
+}
+
+describe('Usage Repository', () => {
+  describe('getCounts', () => {
+    it('should count items and read the exports counter', async () => {
+      const { database } = createFakeClient({ items: 4, exports: 2 });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.getCounts()).toEqual({ items: 4, exports: 2 });
+    });
+
+    it('should treat a missing counter as zero', async () => {
+      const { database } = createFakeClient({ items: 0, exports: null });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.getCounts()).toEqual({ items: 0, exports: 0 });
+    });
+  });
+
+  describe('insertItemWithinLimit', () => {
+    it('should insert the item inside a transaction when below the limit', async () => {
+      const { database, statements } = createFakeClient({
+        items: 9,
+        exports: 0,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const item = await repository.insertItemWithinLimit(
+        { title: 'New Item' },
+        10
+      );
+
+      expect(item).toEqual(
+        expect.objectContaining({ id: 10, title: 'New Item' })
+      );
+      expect(statements[0]).toBe('begin');
+      expect(
+        statements.some((sql) => sql.startsWith('insert into "items"'))
+      ).toBe(true);
+      expect(statements[statements.length - 1]).toBe('commit');
+    });
+
+    it('should not insert when the limit is reached', async () => {
+      const { database, statements } = createFakeClient({
+        items: 10,
+        exports: 0,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const item = await repository.insertItemWithinLimit(
+        { title: 'New Item' },
+        10
+      );
+
+      expect(item).toBeNull();
+      expect(statements.some((sql) => sql.startsWith('insert'))).toBe(false);
+    });
+  });
+
+  describe('incrementWithinLimit', () => {
+    it('should upsert the counter and return the new count', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: null,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const used = await repository.incrementWithinLimit('exports', 1);
+
+      expect(used).toBe(1);
+      expect(
+        statements.find((sql) => sql.startsWith('insert into "usage_counters"'))
+      ).toContain('do update set "count" = "usage_counters"."count" + 1');
+    });
+
+    it('should not increment when the limit is reached', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: 1,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const used = await repository.incrementWithinLimit('exports', 1);
+
+      expect(used).toBeNull();
+      expect(statements.some((sql) => sql.startsWith('insert'))).toBe(false);
+    });
+
+    it('should never block unlimited counters', async () => {
+      const { database } = createFakeClient({ items: 0, exports: 500 });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.incrementWithinLimit('exports', Infinity)).toBe(
+        501
+      );
+    });
+  });
+
+  describe('getCredits', () => {
+    it('should read the exports credit balance', async () => {
+      const { database } = createFakeClient({
+        items: 0,
+        exports: 0,
+        credits: 7,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.getCredits()).toEqual({ exports: 7 });
+    });
+
+    it('should treat a missing balance as zero', async () => {
+      const { database } = createFakeClient({ items: 0, exports: 0 });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.getCredits()).toEqual({ exports: 0 });
+    });
+  });
+
+  describe('grantCredits', () => {
+    const grant = {
+      transactionId: 'transaction-1',
+      productId: 'export_pack_10',
+      metric: 'exports' as const,
+      credits: 10,
+    };
+
+    it('should record the grant and add to the balance in one transaction', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: 0,
+        credits: 2,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const balance = await repository.grantCredits(grant);
+
+      expect(balance).toBe(12);
+      expect(statements[0]).toBe('begin');
+      expect(
+        statements.find((sql) => sql.startsWith('insert into "credit_grants"'))
+      ).toContain('on conflict do nothing');
+      expect(
+        statements.find((sql) =>
+          sql.startsWith('insert into "credit_balances"')
+        )
+      ).toContain('do update set "balance" = "credit_balances"."balance" + ?');
+      expect(statements[statements.length - 1]).toBe('commit');
+    });
+
+    it('should not add to the balance for a transaction granted before', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: 0,
+        credits: 2,
+        alreadyGranted: true,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const balance = await repository.grantCredits(grant);
+
+      expect(balance).toBeNull();
+      expect(
+        statements.some((sql) =>
+          sql.startsWith('insert into "credit_balances"')
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('consumeCredit', () => {
+    it('should decrement the balance and return the credits left', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: 0,
+        credits: 3,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      const balance = await repository.consumeCredit('exports');
+
+      expect(balance).toBe(2);
+      expect(
+        statements.find((sql) => sql.startsWith('update "credit_balances"'))
+      ).toContain('"balance" = "credit_balances"."balance" - 1');
+    });
+
+    it('should not decrement an empty balance', async () => {
+      const { database, statements } = createFakeClient({
+        items: 0,
+        exports: 0,
+        credits: 0,
+      });
+      const repository = createSqliteUsageRepository(database);
+
+      expect(await repository.consumeCredit('exports')).toBeNull();
+      expect(statements.some((sql) => sql.startsWith('update'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,499 @@
+/**
+ * Usage Service Tests
+ *
+ * Tests for quota computation, limit enforcement, credits and change
+ * notification.
+ *
+ * @module features/usage/core/__tests__/service.test
+ */
+
+import type { Item, NewItem } from '@/database/schema';
+import {
+  configureEntitlements,
+  resetEntitlements,
+} from '@/features/subscription/core/entitlements';
+import {
+  FREE_TIER_LIMITS,
+  PREMIUM_TIER_LIMITS,
+  type EntitlementRegistry,
+  type UsageLimits,
+} from '@/features/subscription/core/types';
+import { useStore } from '@/store';
+import type { CounterMetric, UsageRepository } from '../repository';
+import type { CreditPack } from '../types';
+import {
+  createUsageService,
+  getQuota,
+  getQuotas,
+  getStoreUsageLimits,
+} from '../service';
+
+/**
+ * In-memory repository mirroring the SQLite repository's limit checks.
+ */
+function createMemoryRepository(
+  initial = { items: 0, exports: 0 },
+  initialCredits = { exports: 0 }
+) {
+  const state = { ...initial };
+  const credits = { ...initialCredits };
+  const grantedTransactions = new Set<string>();
+  let nextId = 1;
+
+  const repository: UsageRepository = {
+    getCounts: jest.fn(async () => ({ ...state })),
+    insertItemWithinLimit: jest.fn(
+      async (values: NewItem, limit: number): Promise<Item | null> => {
+        if (state.items >= limit) {
+          return null;
+        }
+        state.items += 1;
+        return {
+          id: nextId++,
+          title: values.title,
+          description: values.description ?? null,
+          createdAt: new Date('2026-01-01'),
+        };
+      }
+    ),
+    incrementWithinLimit: jest.fn(
+      async (metric: CounterMetric, limit: number) => {
+        if (state[metric] >= limit) {
+          return null;
+        }
+        state[metric] += 1;
+        return state[metric];
+      }
+    ),
+    getCredits: jest.fn(async () => ({ ...credits })),
+    grantCredits: jest.fn(async (grant) => {
+      if (grantedTransactions.has(grant.transactionId)) {
+        return null;
+      }
+      grantedTransactions.add(grant.transactionId);
+      credits[grant.metric] += grant.credits;
+      return credits[grant.metric];
+    }),
+    consumeCredit: jest.fn(async (metric: CounterMetric) => {
+      if (credits[metric] <= 0) {
+        return null;
+      }
+      credits[metric] -= 1;
+      return credits[metric];
+    }),
+  };
+
+  return { repository, state, credits };
+}
+
+const exportPack = (productId: string): CreditPack | null =>
+  productId === 'export_pack_10' ? { metric: 'exports', credits: 10 } : null;
+
+const freeLimits = (): UsageLimits => FREE_TIER_LIMITS;
+
+describe('Usage Service', () => {
+  beforeEach(() => {
+    useStore.setState({ isPremium: false, subscriptionTier: 'free' });
+  });
+
+  describe('getQuota', () => {
+    it('should compute the remaining quota', () => {
+      expect(getQuota(7, 10)).toEqual({
+        used: 7,
+        limit: 10,
+        remaining: 3,
+        isLimitReached: false,
+      });
+    });
+
+    it('should never report negative remaining quota', () => {
+      expect(getQuota(12, 10)).toEqual({
+        used: 12,
+        limit: 10,
+        remaining: 0,
+        isLimitReached: true,
+      });
+    });
+
+    it('should treat Infinity as unlimited', () => {
+      const quota = getQuota(500, Infinity);
+
+      expect(quota.remaining).toBe(Infinity);
+      expect(quota.isLimitReached).toBe(false);
+    });
+  });
+
+  describe('getQuotas', () => {
+    it('should map each metric to its limit', () => {
+      const quotas = getQuotas({ items: 4, exports: 1 }, FREE_TIER_LIMITS);
+
+      expect(quotas.items.limit).toBe(FREE_TIER_LIMITS.maxItems);
+      expect(quotas.items.remaining).toBe(6);
+      expect(quotas.exports.limit).toBe(FREE_TIER_LIMITS.maxExports);
+      expect(quotas.exports.isLimitReached).toBe(true);
+    });
+
+    it('should raise limits by unspent credits', () => {
+      const quotas = getQuotas({ items: 4, exports: 1 }, FREE_TIER_LIMITS, {
+        exports: 10,
+      });
+
+      expect(quotas.exports).toEqual({
+        used: 1,
+        limit: 11,
+        remaining: 10,
+        isLimitReached: false,
+      });
+    });
+  });
+
+  describe('getStoreUsageLimits', () => {
+    const registry: EntitlementRegistry = {
+      freeLimits: FREE_TIER_LIMITS,
+      tiers: [
+        {
+          tier: 'plus',
+          entitlementId: 'plus',
+          limits: { maxItems: 100, maxExports: 10, hasAds: false },
+        },
+        { tier: 'pro', entitlementId: 'pro', limits: PREMIUM_TIER_LIMITS },
+      ],
+    };
+
+    beforeEach(() => {
+      configureEntitlements(registry);
+    });
+
+    afterEach(() => {
+      resetEntitlements();
+    });
+
+    it('should return free limits for free users', () => {
+      expect(getStoreUsageLimits()).toBe(FREE_TIER_LIMITS);
+    });
+
+    it('should return the limits of a lower paid tier, not the highest', () => {
+      useStore.getState().setSubscriptionTier('plus');
+
+      expect(getStoreUsageLimits()).toEqual({
+        maxItems: 100,
+        maxExports: 10,
+        hasAds: false,
+      });
+    });
+
+    it('should follow the store subscriptionTier', () => {
+      useStore.getState().setSubscriptionTier('pro');
+
+      expect(getStoreUsageLimits()).toBe(PREMIUM_TIER_LIMITS);
+    });
+  });
+
+  describe('insertItem', () => {
+    it('should insert items below the limit', async () => {
+      const { repository } = createMemoryRepository({ items: 9, exports: 0 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.insertItem({ title: 'Tenth' });
+
+      expect(result).toEqual({
+        success: true,
+        data: expect.objectContaining({ title: 'Tenth' }),
+      });
+      expect(repository.insertItemWithinLimit).toHaveBeenCalledWith(
+        { title: 'Tenth' },
+        FREE_TIER_LIMITS.maxItems
+      );
+    });
+
+    it('should return LIMIT_REACHED once maxItems items exist', async () => {
+      const { repository } = createMemoryRepository({ items: 10, exports: 0 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.insertItem({ title: 'Eleventh' });
+
+      expect(result).toEqual({
+        success: false,
+        error: {
+          code: 'LIMIT_REACHED',
+          message: 'Usage limit reached for items (10)',
+          metric: 'items',
+          limit: 10,
+        },
+      });
+    });
+
+    it('should use the limits in effect at call time', async () => {
+      const { repository } = createMemoryRepository({ items: 10, exports: 0 });
+      const service = createUsageService({ repository });
+
+      const blocked = await service.insertItem({ title: 'Blocked' });
+      useStore.getState().setSubscriptionTier('premium');
+      const allowed = await service.insertItem({ title: 'Allowed' });
+
+      expect(blocked.success).toBe(false);
+      expect(allowed.success).toBe(true);
+    });
+
+    it('should map repository failures to STORAGE_ERROR', async () => {
+      const { repository } = createMemoryRepository();
+      jest
+        .mocked(repository.insertItemWithinLimit)
+        .mockRejectedValueOnce(new Error('disk I/O error'));
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.insertItem({ title: 'Item' });
+
+      expect(result).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'STORAGE_ERROR',
+          message: 'disk I/O error',
+        }),
+      });
+    });
+  });
+
+  describe('checkExport', () => {
+    it('should return the quota without recording an export', async () => {
+      const { repository, state } = createMemoryRepository();
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.checkExport();
+
+      expect(result).toEqual({
+        success: true,
+        data: { used: 0, limit: 1, remaining: 1, isLimitReached: false },
+      });
+      expect(state.exports).toBe(0);
+    });
+
+    it('should return LIMIT_REACHED once the quota and credits are used up', async () => {
+      const { repository } = createMemoryRepository({ items: 0, exports: 1 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.checkExport();
+
+      expect(!result.success && result.error).toEqual(
+        expect.objectContaining({ code: 'LIMIT_REACHED', metric: 'exports' })
+      );
+    });
+  });
+
+  describe('recordExport', () => {
+    it('should record an export and return the updated quota', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.recordExport();
+
+      expect(result).toEqual({
+        success: true,
+        data: { used: 1, limit: 1, remaining: 0, isLimitReached: true },
+      });
+    });
+
+    it('should return LIMIT_REACHED once maxExports exports were recorded', async () => {
+      const { repository, state } = createMemoryRepository({
+        items: 0,
+        exports: 1,
+      });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.recordExport();
+
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error).toEqual(
+        expect.objectContaining({ code: 'LIMIT_REACHED', metric: 'exports' })
+      );
+      expect(state.exports).toBe(1);
+    });
+
+    it('should spend a credit once maxExports exports were recorded', async () => {
+      const { repository, state, credits } = createMemoryRepository(
+        { items: 0, exports: 1 },
+        { exports: 2 }
+      );
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.recordExport();
+
+      expect(result).toEqual({
+        success: true,
+        data: { used: 1, limit: 2, remaining: 1, isLimitReached: false },
+      });
+      expect(state.exports).toBe(1);
+      expect(credits.exports).toBe(1);
+    });
+
+    it('should not spend credits while within the tier limit', async () => {
+      const { repository, credits } = createMemoryRepository(undefined, {
+        exports: 2,
+      });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      await service.recordExport();
+
+      expect(repository.consumeCredit).not.toHaveBeenCalled();
+      expect(credits.exports).toBe(2);
+    });
+  });
+
+  describe('grantCredits', () => {
+    it('should grant the credits of a credit pack once per transaction', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({
+        repository,
+        getLimits: freeLimits,
+        getCreditPack: exportPack,
+      });
+      const purchase = {
+        productId: 'export_pack_10',
+        transactionId: 'transaction-1',
+      };
+
+      const first = await service.grantCredits(purchase);
+      const repeated = await service.grantCredits(purchase);
+
+      expect(first).toEqual({ success: true, data: 10 });
+      expect(repeated).toEqual({ success: true, data: null });
+      expect(repository.grantCredits).toHaveBeenCalledWith({
+        transactionId: 'transaction-1',
+        productId: 'export_pack_10',
+        metric: 'exports',
+        credits: 10,
+      });
+    });
+
+    it('should ignore products that are not credit packs', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({
+        repository,
+        getLimits: freeLimits,
+        getCreditPack: exportPack,
+      });
+
+      const result = await service.grantCredits({
+        productId: 'lifetime_plan',
+        transactionId: 'transaction-1',
+      });
+
+      expect(result).toEqual({ success: true, data: null });
+      expect(repository.grantCredits).not.toHaveBeenCalled();
+    });
+
+    it('should map repository failures to STORAGE_ERROR', async () => {
+      const { repository } = createMemoryRepository();
+      jest
+        .mocked(repository.grantCredits)
+        .mockRejectedValueOnce(new Error('database is locked'));
+      const service = createUsageService({
+        repository,
+        getLimits: freeLimits,
+        getCreditPack: exportPack,
+      });
+
+      const result = await service.grantCredits({
+        productId: 'export_pack_10',
+        transactionId: 'transaction-1',
+      });
+
+      expect(!result.success && result.error.code).toBe('STORAGE_ERROR');
+    });
+  });
+
+  describe('consumeCredit', () => {
+    it('should spend a credit and return the balance left', async () => {
+      const { repository } = createMemoryRepository(undefined, { exports: 3 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      expect(await service.consumeCredit('exports')).toEqual({
+        success: true,
+        data: 2,
+      });
+    });
+
+    it('should return INSUFFICIENT_CREDITS when no credits are left', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      expect(await service.consumeCredit('exports')).toEqual({
+        success: false,
+        error: {
+          code: 'INSUFFICIENT_CREDITS',
+          message: 'No credits left for exports',
+          metric: 'exports',
+        },
+      });
+    });
+  });
+
+  describe('getCounts', () => {
+    it('should return counts from the repository', async () => {
+      const { repository } = createMemoryRepository({ items: 3, exports: 2 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      expect(await service.getCounts()).toEqual({
+        success: true,
+        data: { items: 3, exports: 2 },
+      });
+    });
+
+    it('should map repository failures to STORAGE_ERROR', async () => {
+      const { repository } = createMemoryRepository();
+      jest
+        .mocked(repository.getCounts)
+        .mockRejectedValueOnce(new Error('no such table'));
+      const service = createUsageService({ repository, getLimits: freeLimits });
+
+      const result = await service.getCounts();
+
+      expect(!result.success && result.error.code).toBe('STORAGE_ERROR');
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should notify subscribers after successful writes only', async () => {
+      const { repository } = createMemoryRepository({ items: 9, exports: 0 });
+      const service = createUsageService({ repository, getLimits: freeLimits });
+      const listener = jest.fn();
+      service.subscribe(listener);
+
+      await service.insertItem({ title: 'Tenth' });
+      await service.insertItem({ title: 'Blocked' });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify subscribers when credits are granted', async () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({
+        repository,
+        getLimits: freeLimits,
+        getCreditPack: exportPack,
+      });
+      const listener = jest.fn();
+      service.subscribe(listener);
+
+      await service.grantCredits({
+        productId: 'export_pack_10',
+        transactionId: 'transaction-1',
+      });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify subscribers on notifyChanged and stop after unsubscribe', () => {
+      const { repository } = createMemoryRepository();
+      const service = createUsageService({ repository, getLimits: freeLimits });
+      const listener = jest.fn();
+      const unsubscribe = service.subscribe(listener);
+
+      service.notifyChanged();
+      unsubscribe();
+      service.notifyChanged();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Credit Pack Registry
+ *
+ * Holds the app's consumable products and the credits each one grants.
+ *
+ * This module is responsible for:
+ * - Storing the configured CreditPackRegistry (empty by default)
+ * - Resolving the credit pack for a purchased product (other products grant nothing)
+ *
+ * @module features/usage/core/credit-packs
+ */
+
+import type { CreditPack, CreditPackRegistry } from './types';
+
+/**
+ * Internal state holding the active registry
+ */
+let _registry: CreditPackRegistry = {};
+
+/**
+ * Configure the app's credit packs.
+ * Call once at startup, alongside configureFeatureGates.
+ *
+ * @param registry - Credit packs keyed by store product identifier
+ *
+ * @example
+ * ```ts
+ * configureCreditPacks({
+ *   export_pack_10: { metric: 'exports', credits: 10 },
+ * });
+ * ```
+ */
+export function configureCreditPacks(registry: CreditPackRegistry): void {
+  _registry = registry;
+}
+
+/**
+ * Reset the registry to an empty one.
+ * This is primarily used for testing purposes.
+ *
+ * @internal
+ */
+export function resetCreditPacks(): void {
+  _registry = {};
+}
+
+/**
+ * Get the credit pack sold as a product.
+ *
+ * @param productId - Store product identifier
+ * @returns The registered credit pack, or null if the product grants no credits
+ */
+export function getCreditPack(productId: string): CreditPack | null {
+  return Object.prototype.hasOwnProperty.call(_registry, productId)
+    ? _registry[productId]
+    : null;
+}
@@ -0,0 +1,43 @@
+/**
+ * Usage Core Module
+ *
+ * Exports domain types, the SQLite repository, the credit pack registry and
+ * the usage service.
+ *
+ * @module features/usage/core
+ */
+
+// Repository
+export { createSqliteUsageRepository, usageRepository } from './repository';
+
+export type { UsageRepository, CounterMetric } from './repository';
+
+// Credit Packs
+export { configureCreditPacks, getCreditPack } from './credit-packs';
+
+// Service
+export {
+  createUsageService,
+  usageService,
+  getStoreUsageLimits,
+  getQuota,
+  getQuotas,
+} from './service';
+
+export type { UsageService, UsageServiceConfig } from './service';
+
+// Domain Types
+export { USAGE_LIMIT_KEYS } from './types';
+
+export type {
+  UsageMetric,
+  CreditMetric,
+  CreditPack,
+  CreditPackRegistry,
+  CreditBalances,
+  UsageCounts,
+  UsageQuota,
+  UsageQuotas,
+  UsageError,
+  UsageErrorCode,
+} from './types';
@@ -0,0 +1,219 @@
+/**
+ * Usage Repository
+ *
+ * SQLite access for usage tracking: counts rows in the items table, keeps
+ * the usage_counters table for consumption that has no table of its own, and
+ * keeps the credit balances bought with consumable products.
+ *
+ * Writes that must respect a limit check and write inside one transaction,
+ * so concurrent callers cannot both take the last unit of quota (or credit).
+ * Credit grants are recorded per store transaction, so a purchase is never
+ * credited twice.
+ *
+ * @module features/usage/core/repository
+ */
+
+import { count, eq, sql } from 'drizzle-orm';
+
+import { db } from '@/database/client';
+import {
+  creditBalances,
+  creditGrants,
+  items,
+  usageCounters,
+  type Item,
+  type NewCreditGrant,
+  type NewItem,
+} from '@/database/schema';
+import type {
+  CreditBalances,
+  CreditMetric,
+  UsageCounts,
+  UsageMetric,
+} from './types';
+
+/**
+ * Metrics stored in the usage_counters table.
+ */
+export type CounterMetric = Exclude<UsageMetric, 'items'>;
+
+/**
+ * Usage repository interface.
+ * Methods throw on storage failure; the service maps failures to STORAGE_ERROR.
+ */
+export interface UsageRepository {
+  /**
+   * Read current consumption for every metric.
+   */
+  getCounts(): Promise<UsageCounts>;
+
+  /**
+   * Insert an item unless the table already holds `limit` items.
+   *
+   * @returns The inserted item, or null if the limit was reached
+   */
+  insertItemWithinLimit(values: NewItem, limit: number): Promise<Item | null>;
+
+  /**
+   * Increment a counter unless it already reached `limit`.
+   *
+   * @returns The new count, or null if the limit was reached
+   */
+  incrementWithinLimit(
+    metric: CounterMetric,
+    limit: number
+  ): Promise<number | null>;
+
+  /**
+   * Read unspent credits for every metric.
+   */
+  getCredits(): Promise<CreditBalances>;
+
+  /**
+   * Add credits to a metric's balance unless the transaction was granted before.
+   *
+   * @returns The new balance, or null if the transaction was already granted
+   */
+  grantCredits(
+    grant: NewCreditGrant & { metric: CreditMetric }
+  ): Promise<number | null>;
+
+  /**
+   * Spend one credit of a metric.
+   *
+   * @returns The new balance, or null if no credits were left
+   */
+  consumeCredit(metric: CreditMetric): Promise<number | null>;
+}
+
+type Database = typeof db;
+
+function readItemCount(database: Database): number {
+  return database.select({ value: count() }).from(items).get()?.value ?? 0;
+}
+
+function readCounter(database: Database, metric: CounterMetric): number {
+  return (
+    database
+      .select({ count: usageCounters.count })
+      .from(usageCounters)
+      .where(eq(usageCounters.metric, metric))
+      .get()?.count ?? 0
+  );
+}
+
+function readBalance(database: Database, metric: CreditMetric): number {
+  return (
+    database
+      .select({ balance: creditBalances.balance })
+      .from(creditBalances)
+      .where(eq(creditBalances.metric, metric))
+      .get()?.balance ?? 0
+  );
+}
+
+/**
+ * Create a usage repository backed by the app's SQLite database.
+ *
+ * @param database - Drizzle database (defaults to the app database)
+ * @returns UsageRepository
+ */
+export function createSqliteUsageRepository(
+  database: Database = db
+): UsageRepository {
+  return {
+    async getCounts(): Promise<UsageCounts> {
+      return {
+        items: readItemCount(database),
+        exports: readCounter(database, 'exports'),
+      };
+    },
+
+    async insertItemWithinLimit(
+      values: NewItem,
+      limit: number
+    ): Promise<Item | null> {
+      return database.transaction((tx) => {
+        if (readItemCount(tx) >= limit) {
+          return null;
+        }
+        return tx.insert(items).values(values).returning().get();
+      });
+    },
+
+    async incrementWithinLimit(
+      metric: CounterMetric,
+      limit: number
+    ): Promise<number | null> {
+      return database.transaction((tx) => {
+        const current = readCounter(tx, metric);
+        if (current >= limit) {
+          return null;
+        }
+        tx.insert(usageCounters)
+          .values({ metric, count: 1 })
+          .onConflictDoUpdate({
+            target: usageCounters.metric,
+            set: {
+              count: sql`${usageCounters.count} + 1`,
+              updatedAt: sql`(unixepoch())`,
+            },
+          })
+          .run();
+        return current + 1;
+      });
+    },
+
+    async getCredits(): Promise<CreditBalances> {
+      return { exports: readBalance(database, 'exports') };
+    },
+
+    async grantCredits(grant): Promise<number | null> {
+      return database.transaction((tx) => {
+        const granted = tx
+          .insert(creditGrants)
+          .values(grant)
+          .onConflictDoNothing()
+          .returning({ transactionId: creditGrants.transactionId })
+          .get();
+        if (!granted) {
+          return null;
+        }
+        return tx
+          .insert(creditBalances)
+          .values({ metric: grant.metric, balance: grant.credits })
+          .onConflictDoUpdate({
+            target: creditBalances.metric,
+            set: {
+              balance: sql`${creditBalances.balance} + ${grant.credits}`,
+              updatedAt: sql`(unixepoch())`,
+            },
+          })
+          .returning({ balance: creditBalances.balance })
+          .get().balance;
+      });
+    },
+
+    async consumeCredit(metric: CreditMetric): Promise<number | null> {
+      return database.transaction((tx) => {
+        const current = readBalance(tx, metric);
+        if (current <= 0) {
+          return null;
+        }
+        tx.update(creditBalances)
+          .set({
+            balance: sql`${creditBalances.balance} - 1`,
+            updatedAt: sql`(unixepoch())`,
+          })
+          .where(eq(creditBalances.metric, metric))
+          .run();
+        return current - 1;
+      });
+    },
+  };
+}
+
+/**
+ * Default usage repository using the app database.
+ */
+export const usageRepository: UsageRepository = createSqliteUsageRepository();
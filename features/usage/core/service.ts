@@ -0,0 +1,376 @@
+/**
+ * Usage Service
+ *
+ * Enforces the tier's UsageLimits on item creation and exports.
+ *
+ * This module is responsible for:
+ * - Reading consumption from the UsageRepository
+ * - Computing remaining quota per metric from the current UsageLimits and credits
+ * - Granting credits for purchased credit packs and spending them past the limit
+ * - Rejecting writes past the limit with a LIMIT_REACHED error
+ * - Notifying subscribers when consumption changes
+ *
+ * Limits are read on every call, so a subscription change (synced to the
+ * store's subscriptionTier by syncSubscriptionToStore) applies to the next
+ * write.
+ *
+ * @module features/usage/core/service
+ */
+
+import type { Item, NewItem } from '@/database/schema';
+import { getTierLimits } from '@/features/subscription/core/entitlements';
+import type {
+  ProductPurchase,
+  Result,
+  UsageLimits,
+} from '@/features/subscription/core/types';
+import { useStore } from '@/store';
+import { getCreditPack as getRegisteredCreditPack } from './credit-packs';
+import { usageRepository, type UsageRepository } from './repository';
+import {
+  USAGE_LIMIT_KEYS,
+  type CreditBalances,
+  type CreditMetric,
+  type CreditPack,
+  type UsageCounts,
+  type UsageError,
+  type UsageMetric,
+  type UsageQuota,
+  type UsageQuotas,
+} from './types';
+
+/**
+ * Usage limits for the store's active subscription tier.
+ */
+export function getStoreUsageLimits(): UsageLimits {
+  return getTierLimits(useStore.getState().subscriptionTier);
+}
+
+/**
+ * Compute the quota for a single metric.
+ *
+ * @param used - Amount consumed
+ * @param limit - Tier limit (Infinity when unlimited)
+ * @returns UsageQuota
+ */
+export function getQuota(used: number, limit: number): UsageQuota {
+  const remaining = Math.max(0, limit - used);
+  return { used, limit, remaining, isLimitReached: remaining === 0 };
+}
+
+/**
+ * Credit balances before any credit pack is bought.
+ */
+const NO_CREDITS: CreditBalances = { exports: 0 };
+
+/**
+ * Compute the quota for every metric. Credits raise their metric's limit.
+ *
+ * @param counts - Consumption per metric
+ * @param limits - Tier limits
+ * @param credits - Unspent credits per metric (defaults to none)
+ * @returns UsageQuotas
+ *
+ * @example
+ * ```ts
+ * getQuotas({ items: 7, exports: 1 }, FREE_TIER_LIMITS);
+ * // items: { used: 7, limit: 10, remaining: 3, isLimitReached: false }
+ * // exports: { used: 1, limit: 1, remaining: 0, isLimitReached: true }
+ *
+ * getQuotas({ items: 7, exports: 1 }, FREE_TIER_LIMITS, { exports: 10 });
+ * // exports: { used: 1, limit: 11, remaining: 10, isLimitReached: false }
+ * ```
+ */
+export function getQuotas(
+  counts: UsageCounts,
+  limits: UsageLimits,
+  credits: CreditBalances = NO_CREDITS
+): UsageQuotas {
+  return {
+    items: getQuota(counts.items, limits[USAGE_LIMIT_KEYS.items]),
+    exports: getQuota(
+      counts.exports,
+      limits[USAGE_LIMIT_KEYS.exports] + credits.exports
+    ),
+  };
+}
+
+/**
+ * Build the LIMIT_REACHED error for a metric.
+ */
+function limitReached(metric: UsageMetric, limit: number): UsageError {
+  return {
+    code: 'LIMIT_REACHED',
+    message: `Usage limit reached for ${metric} (${limit})`,
+    metric,
+    limit,
+  };
+}
+
+/**
+ * Build the INSUFFICIENT_CREDITS error for a metric.
+ */
+function insufficientCredits(metric: CreditMetric): UsageError {
+  return {
+    code: 'INSUFFICIENT_CREDITS',
+    message: `No credits left for ${metric}`,
+    metric,
+  };
+}
+
+/**
+ * Map a repository failure to a STORAGE_ERROR.
+ */
+function storageError(cause: unknown): UsageError {
+  return {
+    code: 'STORAGE_ERROR',
+    message: cause instanceof Error ? cause.message : 'Usage storage failed',
+    cause,
+  };
+}
+
+/**
+ * Usage service configuration.
+ */
+export interface UsageServiceConfig {
+  /** Repository for reading and recording consumption */
+  repository: UsageRepository;
+  /** Limits to enforce (defaults to getStoreUsageLimits) */
+  getLimits?: () => UsageLimits;
+  /** Credit pack sold as a product (defaults to the configured credit packs) */
+  getCreditPack?: (productId: string) => CreditPack | null;
+}
+
+/**
+ * Usage service interface.
+ */
+export interface UsageService {
+  /**
+   * Get the limits currently enforced.
+   */
+  getLimits(): UsageLimits;
+
+  /**
+   * Read consumption for every metric.
+   */
+  getCounts(): Promise<Result<UsageCounts, UsageError>>;
+
+  /**
+   * Insert an item if the items quota allows it.
+   * Returns LIMIT_REACHED when the user already has maxItems items.
+   */
+  insertItem(values: NewItem): Promise<Result<Item, UsageError>>;
+
+  /**
+   * Check that the exports quota allows another export, without recording
+   * it. Returns LIMIT_REACHED when it does not.
+   */
+  checkExport(): Promise<Result<UsageQuota, UsageError>>;
+
+  /**
+   * Record an export if the exports quota allows it, spending a credit once
+   * the tier limit is reached. Returns the updated quota.
+   */
+  recordExport(): Promise<Result<UsageQuota, UsageError>>;
+
+  /**
+   * Read unspent credits for every metric.
+   */
+  getCredits(): Promise<Result<CreditBalances, UsageError>>;
+
+  /**
+   * Grant the credits of a purchased credit pack (see configureCreditPacks).
+   * Safe to call with every product purchase: products that are not credit
+   * packs, and transactions granted before, grant nothing.
+   *
+   * @returns The metric's new balance, or null if nothing was granted
+   */
+  grantCredits(
+    purchase: Pick<ProductPurchase, 'productId' | 'transactionId'>
+  ): Promise<Result<number | null, UsageError>>;
+
+  /**
+   * Spend one credit of a metric for usage the service does not record.
+   * Returns INSUFFICIENT_CREDITS when none are left.
+   *
+   * @returns Credits left
+   */
+  consumeCredit(metric: CreditMetric): Promise<Result<number, UsageError>>;
+
+  /**
+   * Notify subscribers that consumption changed outside this service
+   * (e.g., after deleting items).
+   */
+  notifyChanged(): void;
+
+  /**
+   * Subscribe to consumption changes.
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * Create a usage service.
+ *
+ * @param config - Service configuration
+ * @returns UsageService
+ *
+ * @example
+ * ```ts
+ * const usage = createUsageService({ repository: usageRepository });
+ *
+ * const result = await usage.insertItem({ title: 'New Item' });
+ * if (!result.success && result.error.code === 'LIMIT_REACHED') {
+ *   openPaywall();
+ * }
+ * ```
+ */
+export function createUsageService(config: UsageServiceConfig): UsageService {
+  const {
+    repository,
+    getLimits = getStoreUsageLimits,
+    getCreditPack = getRegisteredCreditPack,
+  } = config;
+  const listeners = new Set<() => void>();
+
+  function notifyChanged(): void {
+    listeners.forEach((listener) => listener());
+  }
+
+  async function readQuota(
+    metric: CreditMetric,
+    limit: number
+  ): Promise<UsageQuota> {
+    const [counts, credits] = await Promise.all([
+      repository.getCounts(),
+      repository.getCredits(),
+    ]);
+    return getQuota(counts[metric], limit + credits[metric]);
+  }
+
+  return {
+    getLimits,
+
+    async getCounts(): Promise<Result<UsageCounts, UsageError>> {
+      try {
+        return { success: true, data: await repository.getCounts() };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async insertItem(values: NewItem): Promise<Result<Item, UsageError>> {
+      const limit = getLimits()[USAGE_LIMIT_KEYS.items];
+
+      try {
+        const item = await repository.insertItemWithinLimit(values, limit);
+        if (item === null) {
+          return { success: false, error: limitReached('items', limit) };
+        }
+        notifyChanged();
+        return { success: true, data: item };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async checkExport(): Promise<Result<UsageQuota, UsageError>> {
+      const limit = getLimits()[USAGE_LIMIT_KEYS.exports];
+
+      try {
+        const quota = await readQuota('exports', limit);
+        if (quota.isLimitReached) {
+          return { success: false, error: limitReached('exports', limit) };
+        }
+        return { success: true, data: quota };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async recordExport(): Promise<Result<UsageQuota, UsageError>> {
+      const limit = getLimits()[USAGE_LIMIT_KEYS.exports];
+
+      try {
+        const used = await repository.incrementWithinLimit('exports', limit);
+        // Past the tier limit, each export spends a credit
+        if (
+          used === null &&
+          (await repository.consumeCredit('exports')) === null
+        ) {
+          return { success: false, error: limitReached('exports', limit) };
+        }
+        notifyChanged();
+        return { success: true, data: await readQuota('exports', limit) };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async getCredits(): Promise<Result<CreditBalances, UsageError>> {
+      try {
+        return { success: true, data: await repository.getCredits() };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async grantCredits(
+      purchase: Pick<ProductPurchase, 'productId' | 'transactionId'>
+    ): Promise<Result<number | null, UsageError>> {
+      const pack = getCreditPack(purchase.productId);
+      if (!pack) {
+        return { success: true, data: null };
+      }
+
+      try {
+        const balance = await repository.grantCredits({
+          transactionId: purchase.transactionId,
+          productId: purchase.productId,
+          metric: pack.metric,
+          credits: pack.credits,
+        });
+        if (balance !== null) {
+          notifyChanged();
+        }
+        return { success: true, data: balance };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    async consumeCredit(
+      metric: CreditMetric
+    ): Promise<Result<number, UsageError>> {
+      try {
+        const balance = await repository.consumeCredit(metric);
+        if (balance === null) {
+          return { success: false, error: insufficientCredits(metric) };
+        }
+        notifyChanged();
+        return { success: true, data: balance };
+      } catch (error) {
+        return { success: false, error: storageError(error) };
+      }
+    },
+
+    notifyChanged,
+
+    subscribe(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Default usage service backed by the app database and the store's
+ * subscriptionTier.
+ */
+export const usageService: UsageService = createUsageService({
+  repository: usageRepository,
+});
@@ -0,0 +1,99 @@
+/**
+ * Usage Domain Types
+ *
+ * Types for tracking consumption against the tier's UsageLimits, and for
+ * consumable credits that top those limits up.
+ *
+ * @module features/usage/core/types
+ */
+
+import type { UsageLimits } from '@/features/subscription/core/types';
+
+/**
+ * Metered usage.
+ * - 'items': Rows in the items table (deleting an item frees quota)
+ * - 'exports': Exports performed, recorded in the usage_counters table
+ */
+export type UsageMetric = 'items' | 'exports';
+
+/**
+ * UsageLimits key that caps each metric.
+ */
+export const USAGE_LIMIT_KEYS: Readonly<
+  Record<UsageMetric, keyof Pick<UsageLimits, 'maxItems' | 'maxExports'>>
+> = {
+  items: 'maxItems',
+  exports: 'maxExports',
+};
+
+/**
+ * Metrics that consumable credits can top up. Only counted consumption can
+ * be bought; items are freed by deleting them.
+ */
+export type CreditMetric = Exclude<UsageMetric, 'items'>;
+
+/**
+ * Credits granted by one purchase of a consumable product.
+ */
+export interface CreditPack {
+  /** Metric the credits top up */
+  metric: CreditMetric;
+  /** Credits granted per purchase */
+  credits: number;
+}
+
+/**
+ * Credit packs keyed by store product identifier.
+ */
+export type CreditPackRegistry = Readonly<Record<string, CreditPack>>;
+
+/**
+ * Unspent credits per metric, as stored in SQLite.
+ */
+export type CreditBalances = Readonly<Record<CreditMetric, number>>;
+
+/**
+ * Raw consumption per metric, as stored in SQLite.
+ */
+export type UsageCounts = Readonly<Record<UsageMetric, number>>;
+
+/**
+ * Consumption of a single metric against its limit.
+ */
+export interface UsageQuota {
+  /** Amount consumed */
+  used: number;
+  /** Tier limit plus unspent credits (Infinity when unlimited) */
+  limit: number;
+  /** Amount left before the limit is reached (never negative; Infinity when unlimited) */
+  remaining: number;
+  /** Whether the limit has been reached */
+  isLimitReached: boolean;
+}
+
+/**
+ * Quota for every metric.
+ */
+export type UsageQuotas = Readonly<Record<UsageMetric, UsageQuota>>;
+
+/**
+ * Usage error types.
+ */
+export type UsageError =
+  | {
+      code: 'LIMIT_REACHED';
+      message: string;
+      metric: UsageMetric;
+      limit: number;
+    }
+  | {
+      code: 'INSUFFICIENT_CREDITS';
+      message: string;
+      metric: CreditMetric;
+    }
+  | { code: 'STORAGE_ERROR'; message: string; cause?: unknown };
+
+/**
+ * Usage error code type for type-safe error handling.
+ */
+export type UsageErrorCode = UsageError['code'];
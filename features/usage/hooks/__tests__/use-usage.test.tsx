@@ -0,0 +1,216 @@
+/**
+ * useUsage Hook Tests
+ *
+ * Tests for loading quotas, recomputing them when the subscription changes
+ * the store's subscriptionTier, and reloading after writes and credit grants.
+ *
+ * @module features/usage/hooks/__tests__/use-usage.test
+ */
+
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+
+import type { Item } from '@/database/schema';
+import { syncSubscriptionToStore } from '@/features/subscription/core/store-integration';
+import {
+  DEFAULT_FREE_SUBSCRIPTION,
+  type Subscription,
+} from '@/features/subscription/core/types';
+import { useStore } from '@/store';
+import type { UsageRepository } from '../../core/repository';
+import { createUsageService } from '../../core/service';
+import { useUsage } from '../use-usage';
+
+jest.mock('@/database/client', () => ({ db: {} }));
+
+const premiumSubscription: Subscription = {
+  ...DEFAULT_FREE_SUBSCRIPTION,
+  isActive: true,
+  tier: 'premium',
+  productId: 'monthly_plan',
+};
+
+function createRepository(
+  initial = { items: 0, exports: 0 },
+  initialCredits = { exports: 0 }
+) {
+  const state = { ...initial };
+  const credits = { ...initialCredits };
+
+  const repository: UsageRepository = {
+    getCounts: jest.fn(async () => ({ ...state })),
+    insertItemWithinLimit: jest.fn(async (values, limit) => {
+      if (state.items >= limit) {
+        return null;
+      }
+      state.items += 1;
+      const item: Item = {
+        id: state.items,
+        title: values.title,
+        description: null,
+        createdAt: new Date('2026-01-01'),
+      };
+      return item;
+    }),
+    incrementWithinLimit: jest.fn(async (metric, limit) => {
+      if (state[metric] >= limit) {
+        return null;
+      }
+      state[metric] += 1;
+      return state[metric];
+    }),
+    getCredits: jest.fn(async () => ({ ...credits })),
+    grantCredits: jest.fn(async (grant) => {
+      credits[grant.metric] += grant.credits;
+      return credits[grant.metric];
+    }),
+    consumeCredit: jest.fn(async (metric) => {
+      if (credits[metric] <= 0) {
+        return null;
+      }
+      credits[metric] -= 1;
+      return credits[metric];
+    }),
+  };
+
+  return repository;
+}
+
+describe('useUsage', () => {
+  beforeEach(() => {
+    useStore.setState({ isPremium: false, subscriptionTier: 'free' });
+  });
+
+  it('should load remaining quota per limit', async () => {
+    const service = createUsageService({
+      repository: createRepository({ items: 7, exports: 0 }),
+    });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.quotas?.items).toEqual({
+      used: 7,
+      limit: 10,
+      remaining: 3,
+      isLimitReached: false,
+    });
+    expect(result.current.quotas?.exports.remaining).toBe(1);
+  });
+
+  it('should recompute quotas when syncSubscriptionToStore changes the tier', async () => {
+    const service = createUsageService({
+      repository: createRepository({ items: 10, exports: 1 }),
+    });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.quotas?.items.isLimitReached).toBe(true);
+    });
+
+    act(() => {
+      syncSubscriptionToStore(premiumSubscription);
+    });
+
+    expect(result.current.quotas?.items).toEqual({
+      used: 10,
+      limit: Infinity,
+      remaining: Infinity,
+      isLimitReached: false,
+    });
+    expect(result.current.quotas?.exports.isLimitReached).toBe(false);
+  });
+
+  it('should reload counts after an item is inserted', async () => {
+    const repository = createRepository({ items: 2, exports: 0 });
+    const service = createUsageService({ repository });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.quotas?.items.used).toBe(2);
+    });
+
+    await act(async () => {
+      await result.current.insertItem({ title: 'Third' });
+    });
+
+    await waitFor(() => {
+      expect(result.current.quotas?.items.used).toBe(3);
+    });
+  });
+
+  it('should resolve to LIMIT_REACHED when the exports quota is used up', async () => {
+    const service = createUsageService({
+      repository: createRepository({ items: 0, exports: 1 }),
+    });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    let exportResult: Awaited<
+      ReturnType<typeof result.current.recordExport>
+    > | null = null;
+    await act(async () => {
+      exportResult = await result.current.recordExport();
+    });
+
+    expect(exportResult).toEqual({
+      success: false,
+      error: expect.objectContaining({
+        code: 'LIMIT_REACHED',
+        metric: 'exports',
+      }),
+    });
+  });
+
+  it('should top up quotas with credits and reload them after a grant', async () => {
+    const service = createUsageService({
+      repository: createRepository({ items: 0, exports: 1 }),
+      getCreditPack: () => ({ metric: 'exports', credits: 10 }),
+    });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.quotas?.exports.isLimitReached).toBe(true);
+    });
+
+    await act(async () => {
+      await service.grantCredits({
+        productId: 'export_pack_10',
+        transactionId: 'transaction-1',
+      });
+    });
+
+    await waitFor(() => {
+      expect(result.current.credits).toEqual({ exports: 10 });
+    });
+    expect(result.current.quotas?.exports).toEqual({
+      used: 1,
+      limit: 11,
+      remaining: 10,
+      isLimitReached: false,
+    });
+  });
+
+  it('should expose storage errors', async () => {
+    const repository = createRepository();
+    jest
+      .mocked(repository.getCounts)
+      .mockRejectedValueOnce(new Error('no such table'));
+    const service = createUsageService({ repository });
+
+    const { result } = renderHook(() => useUsage(service));
+
+    await waitFor(() => {
+      expect(result.current.error?.code).toBe('STORAGE_ERROR');
+    });
+    expect(result.current.quotas).toBeNull();
+  });
+});
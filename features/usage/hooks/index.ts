@@ -0,0 +1,10 @@
+/**
+ * Usage Hooks Module
+ *
+ * Exports custom hooks for usage tracking.
+ *
+ * @module features/usage/hooks
+ */
+
+export { useUsage } from './use-usage';
+export type { UseUsageReturn } from './use-usage';
@@ -0,0 +1,135 @@
+/**
+ * useUsage Hook
+ *
+ * Custom hook that exposes remaining quota per usage limit, unspent
+ * credits, and the limit-enforcing write actions.
+ *
+ * Quotas are recomputed as soon as the store's subscriptionTier changes
+ * (see syncSubscriptionToStore), and counts and credits are reloaded
+ * whenever the usage service reports a change (e.g., credits granted).
+ *
+ * @module features/usage/hooks/use-usage
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+
+import type { Item, NewItem } from '@/database/schema';
+import { getTierLimits } from '@/features/subscription/core/entitlements';
+import type { Result, UsageLimits } from '@/features/subscription/core/types';
+import { useStore } from '@/store';
+import { getQuotas, usageService, type UsageService } from '../core/service';
+import type {
+  CreditBalances,
+  CreditMetric,
+  UsageCounts,
+  UsageError,
+  UsageQuota,
+  UsageQuotas,
+} from '../core/types';
+
+/**
+ * Return type for useUsage hook.
+ */
+export interface UseUsageReturn {
+  /** Remaining quota per metric, credits included (null until counts are loaded) */
+  quotas: UsageQuotas | null;
+  /** Unspent credits per metric (null until credits are loaded) */
+  credits: CreditBalances | null;
+  /** Limits of the store's active subscription tier */
+  limits: UsageLimits;
+  /** Whether counts are being loaded */
+  loading: boolean;
+  /** Error from the last load (null if no error) */
+  error: UsageError | null;
+  /** Insert an item; resolves to LIMIT_REACHED when the items quota is used up */
+  insertItem: (values: NewItem) => Promise<Result<Item, UsageError>>;
+  /** Record an export; resolves to LIMIT_REACHED when the exports quota is used up */
+  recordExport: () => Promise<Result<UsageQuota, UsageError>>;
+  /** Spend one credit; resolves to INSUFFICIENT_CREDITS when none are left */
+  consumeCredit: (metric: CreditMetric) => Promise<Result<number, UsageError>>;
+  /** Reload counts from storage */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook to access usage quotas and limit-enforcing actions.
+ *
+ * @param service - Usage service (defaults to the app's usageService)
+ * @returns UseUsageReturn
+ *
+ * @example
+ * ```tsx
+ * function NewItemButton() {
+ *   const { quotas, insertItem } = useUsage();
+ *   const { presentPaywall } = usePaywallPresenter();
+ *
+ *   const handlePress = async () => {
+ *     const result = await insertItem({ title: 'New Item' });
+ *     if (!result.success && result.error.code === 'LIMIT_REACHED') {
+ *       await presentPaywall('item_limit');
+ *     }
+ *   };
+ *
+ *   return (
+ *     <Button onPress={handlePress}>
+ *       New item ({quotas?.items.remaining ?? '-'} left)
+ *     </Button>
+ *   );
+ * }
+ * ```
+ */
+export function useUsage(service: UsageService = usageService): UseUsageReturn {
+  const tier = useStore((state) => state.subscriptionTier);
+
+  const [counts, setCounts] = useState<UsageCounts | null>(null);
+  const [credits, setCredits] = useState<CreditBalances | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<UsageError | null>(null);
+
+  const limits = useMemo(() => getTierLimits(tier), [tier]);
+
+  const quotas = useMemo(
+    () => (counts && credits ? getQuotas(counts, limits, credits) : null),
+    [counts, credits, limits]
+  );
+
+  const refresh = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const [countsResult, creditsResult] = await Promise.all([
+        service.getCounts(),
+        service.getCredits(),
+      ]);
+      if (!countsResult.success) {
+        setError(countsResult.error);
+      } else if (!creditsResult.success) {
+        setError(creditsResult.error);
+      } else {
+        setCounts(countsResult.data);
+        setCredits(creditsResult.data);
+        setError(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [service]);
+
+  useEffect(() => {
+    void refresh();
+    return service.subscribe(() => {
+      void refresh();
+    });
+  }, [service, refresh]);
+
+  return {
+    quotas,
+    credits,
+    limits,
+    loading,
+    error,
+    insertItem: service.insertItem,
+    recordExport: service.recordExport,
+    consumeCredit: service.consumeCredit,
+    refresh,
+  };
+}
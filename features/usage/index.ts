@@ -0,0 +1,37 @@
+/**
+ * Usage Feature Module
+ *
+ * Tracks consumption of the tier's UsageLimits in SQLite and blocks item
+ * creation and exports past the limit with a LIMIT_REACHED error. Consumable
+ * credit packs top the limits up.
+ *
+ * @module features/usage
+ */
+
+// Core exports
+export {
+  createUsageService,
+  usageService,
+  getQuotas,
+  configureCreditPacks,
+  USAGE_LIMIT_KEYS,
+} from './core';
+
+export type {
+  UsageService,
+  UsageMetric,
+  CreditMetric,
+  CreditPack,
+  CreditPackRegistry,
+  CreditBalances,
+  UsageCounts,
+  UsageQuota,
+  UsageQuotas,
+  UsageError,
+  UsageErrorCode,
+} from './core';
+
+// Hook exports
+export { useUsage } from './hooks';
+
+export type { UseUsageReturn } from './hooks';
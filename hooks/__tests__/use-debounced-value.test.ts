@@ -0,0 +1,43 @@
+/**
+ * useDebouncedValue Hook Tests
+ *
+ * Tests that the value only follows its input once the input stops changing
+ */
+
+import { act, renderHook } from '@testing-library/react-native';
+
+import { useDebouncedValue } from '../use-debounced-value';
+
+describe('useDebouncedValue', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should return the initial value right away', () => {
+    const { result } = renderHook(() => useDebouncedValue('gro', 300));
+
+    expect(result.current).toBe('gro');
+  });
+
+  it('should follow the value once it stops changing', () => {
+    const { result, rerender } = renderHook(
+      ({ value }: { value: string }) => useDebouncedValue(value, 300),
+      { initialProps: { value: '' } }
+    );
+
+    rerender({ value: 'g' });
+    act(() => jest.advanceTimersByTime(200));
+    rerender({ value: 'gr' });
+    act(() => jest.advanceTimersByTime(200));
+
+    expect(result.current).toBe('');
+
+    act(() => jest.advanceTimersByTime(100));
+
+    expect(result.current).toBe('gr');
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * Debounced Value Hook
+ * Follows a value once it has stopped changing, e.g. to search while the
+ * user types without querying on every keystroke
+ *
+ * Usage:
+ *   const [text, setText] = useState('');
+ *   const query = useDebouncedValue(text, 300);
+ */
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Return `value` after it has stayed the same for `delayMs`
+ * The first render returns the initial value right away
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
@@ -35,6 +35,10 @@ describe('SecureStorageKey enum', () => {
     expect(SecureStorageKey.API_KEY).toBe('api_key');
   });
 
+  it('should have DATABASE_KEY key', () => {
+    expect(SecureStorageKey.DATABASE_KEY).toBe('database_key');
+  });
+
   it('should be type-safe for function parameters', () => {
     // This test validates that TypeScript type checking works
     const key: SecureStorageKey = SecureStorageKey.AUTH_TOKEN;
@@ -7,6 +7,7 @@ export enum SecureStorageKey {
   AUTH_TOKEN = 'auth_token',
   USER_ID = 'user_id',
   API_KEY = 'api_key',
+  DATABASE_KEY = 'database_key',
 }
 
 /**
@@ -76,6 +76,17 @@ describe('App Slice', () => {
     });
   });
 
+  describe('setSubscriptionTier', () => {
+    it('should default to the free tier', () => {
+      expect(state.subscriptionTier).toBe('free');
+    });
+
+    it('should set the subscription tier', () => {
+      state.setSubscriptionTier?.('pro');
+      expect(state.subscriptionTier).toBe('pro');
+    });
+  });
+
   describe('updateUserPreferences', () => {
     it('should update theme preference', () => {
       state.updateUserPreferences?.({ theme: 'dark' });
@@ -21,6 +21,7 @@ export const useStore = create<AppState>()(
     partialize: (state) => ({
       isOnboarded: state.isOnboarded,
       isPremium: state.isPremium,
+      subscriptionTier: state.subscriptionTier,
       userPreferences: state.userPreferences,
     }),
   })
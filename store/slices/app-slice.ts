@@ -28,12 +28,14 @@ export const createAppSlice = (
   // Initial state
   isOnboarded: false,
   isPremium: false,
+  subscriptionTier: 'free',
   isRevenueCatAvailable: false,
   userPreferences: defaultUserPreferences,
 
   // Actions
   setOnboarded: (value: boolean) => set({ isOnboarded: value }),
   setPremium: (value: boolean) => set({ isPremium: value }),
+  setSubscriptionTier: (tier: string) => set({ subscriptionTier: tier }),
   setRevenueCatAvailable: (value: boolean) =>
     set({ isRevenueCatAvailable: value }),
   updateUserPreferences: (prefs: Partial<UserPreferences>) =>
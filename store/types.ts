@@ -29,6 +29,10 @@ export interface AppState {
   isPremium: boolean;
   setPremium: (value: boolean) => void;
 
+  // Active subscription tier ('free' unless a paid tier is active)
+  subscriptionTier: string;
+  setSubscriptionTier: (tier: string) => void;
+
   // RevenueCat SDK availability (not persisted - determined at runtime)
   isRevenueCatAvailable: boolean;
   setRevenueCatAvailable: (value: boolean) => void;
@@ -75,6 +75,96 @@ declare module 'react-native-purchases' {
     originalAppUserId: string;
     originalApplicationVersion: string | null;
     originalPurchaseDate: string | null;
+    managementURL: string | null;
+    nonSubscriptionTransactions?: PurchasesStoreTransaction[];
+    subscriptionsByProductIdentifier?: Record<
+      string,
+      PurchasesSubscriptionInfo
+    >;
+  }
+
+  /**
+   * Subscription of a product in CustomerInfo
+   */
+  export interface PurchasesSubscriptionInfo {
+    productIdentifier: string;
+    purchaseDate: string;
+    expiresDate: string | null;
+    isActive: boolean;
+    storeTransactionId: string | null;
+  }
+
+  /**
+   * Promotional offer configured for an App Store product
+   */
+  export interface PurchasesStoreProductDiscount {
+    identifier: string;
+    price: number;
+    priceString: string;
+    cycles: number;
+    period: string;
+    periodUnit: string;
+    periodNumberOfUnits: number;
+  }
+
+  /**
+   * Signed promotional offer, ready to be purchased
+   */
+  export interface PurchasesPromotionalOffer {
+    identifier: string;
+    keyIdentifier: string;
+    nonce: string;
+    signature: string;
+    timestamp: number;
+  }
+
+  /**
+   * Win-back offer the customer is eligible for (iOS 18+)
+   */
+  export interface PurchasesWinBackOffer {
+    identifier: string;
+    price: number;
+    priceString: string;
+    cycles: number;
+    period: string;
+    periodUnit: string;
+    periodNumberOfUnits: number;
+  }
+
+  /**
+   * Intro offer eligibility status
+   */
+  export enum INTRO_ELIGIBILITY_STATUS {
+    INTRO_ELIGIBILITY_STATUS_UNKNOWN = 0,
+    INTRO_ELIGIBILITY_STATUS_INELIGIBLE = 1,
+    INTRO_ELIGIBILITY_STATUS_ELIGIBLE = 2,
+    INTRO_ELIGIBILITY_STATUS_NO_INTRO_OFFER_EXISTS = 3,
+  }
+
+  /**
+   * Outcome of an App Store refund request
+   */
+  export enum REFUND_REQUEST_STATUS {
+    SUCCESS = 0,
+    USER_CANCELLED = 1,
+    ERROR = 2,
+  }
+
+  /**
+   * Store product categories
+   */
+  export enum PRODUCT_CATEGORY {
+    NON_SUBSCRIPTION = 'NON_SUBSCRIPTION',
+    SUBSCRIPTION = 'SUBSCRIPTION',
+    UNKNOWN = 'UNKNOWN',
+  }
+
+  /**
+   * Intro offer eligibility for a product
+   */
+  export interface IntroEligibility {
+    status: INTRO_ELIGIBILITY_STATUS;
+    description: string;
   }
 
   /**
@@ -95,7 +185,7 @@ declare module 'react-native-purchases' {
       periodUnit: string;
       cycles: number;
     } | null;
-    discounts: unknown[];
+    discounts: PurchasesStoreProductDiscount[] | null;
     productCategory: string;
     productType: string;
     subscriptionPeriod: string;
@@ -147,6 +237,25 @@ declare module 'react-native-purchases' {
   export interface MakePurchaseResult {
     customerInfo: CustomerInfo;
     productIdentifier: string;
+    transaction: PurchasesStoreTransaction;
+  }
+
+  /**
+   * Store transaction of a completed purchase
+   */
+  export interface PurchasesStoreTransaction {
+    transactionIdentifier: string;
+    productIdentifier: string;
+    purchaseDate: string;
+  }
+
+  /**
+   * Result of logging in an app user
+   */
+  export interface LogInResult {
+    customerInfo: CustomerInfo;
+    /** True if RevenueCat created a new customer for this app user id */
+    created: boolean;
   }
 
   /**
@@ -201,6 +310,12 @@ declare module 'react-native-purchases' {
     SIGNATURE_VERIFICATION_ERROR: 36;
   };
 
+  /**
+   * Listener invoked whenever RevenueCat receives updated CustomerInfo
+   * (renewals, refunds, purchases made on another device, etc.)
+   */
+  export type CustomerInfoUpdateListener = (customerInfo: CustomerInfo) => void;
+
   /**
    * Main Purchases interface
    */
@@ -211,7 +326,44 @@ declare module 'react-native-purchases' {
     getCustomerInfo(): Promise<CustomerInfo>;
     getOfferings(): Promise<PurchasesOfferings>;
     purchasePackage(pkg: PurchasesPackage): Promise<MakePurchaseResult>;
+    checkTrialOrIntroductoryPriceEligibility(
+      productIdentifiers: string[]
+    ): Promise<Record<string, IntroEligibility>>;
+    getPromotionalOffer(
+      product: PurchasesStoreProduct,
+      discount: PurchasesStoreProductDiscount
+    ): Promise<PurchasesPromotionalOffer | undefined>;
+    purchaseDiscountedPackage(
+      pkg: PurchasesPackage,
+      discount: PurchasesPromotionalOffer
+    ): Promise<MakePurchaseResult>;
+    getEligibleWinBackOffersForPackage(
+      pkg: PurchasesPackage
+    ): Promise<PurchasesWinBackOffer[]>;
+    purchasePackageWithWinBackOffer(
+      pkg: PurchasesPackage,
+      winBackOffer: PurchasesWinBackOffer
+    ): Promise<MakePurchaseResult>;
+    presentCodeRedemptionSheet(): Promise<void>;
+    getProducts(
+      productIdentifiers: string[],
+      type?: PRODUCT_CATEGORY
+    ): Promise<PurchasesStoreProduct[]>;
+    purchaseStoreProduct(
+      product: PurchasesStoreProduct
+    ): Promise<MakePurchaseResult>;
+    beginRefundRequestForProduct(
+      storeProduct: PurchasesStoreProduct
+    ): Promise<REFUND_REQUEST_STATUS>;
     restorePurchases(): Promise<CustomerInfo>;
+    logIn(appUserID: string): Promise<LogInResult>;
+    logOut(): Promise<CustomerInfo>;
+    getAppUserID(): Promise<string>;
+    invalidateCustomerInfoCache(): Promise<void>;
+    addCustomerInfoUpdateListener(listener: CustomerInfoUpdateListener): void;
+    removeCustomerInfoUpdateListener(
+      listenerToRemove: CustomerInfoUpdateListener
+    ): boolean;
   }
 
   const Purchases: Purchases;
@@ -230,7 +382,20 @@ declare module 'react-native-purchases' {
   export function setupRestoreError(errorCode: number): void;
   export function setupOfferingsError(errorCode: number): void;
   export function setupOperationInProgress(): void;
+  export function setupLoggedInUserMock(appUserId: string): void;
+  export function setupLogInError(errorCode: number): void;
+  export function setupIntroEligibilityMock(
+    statuses: Record<string, INTRO_ELIGIBILITY_STATUS>
+  ): void;
+  export function setupProductDiscountsMock(
+    discounts: PurchasesStoreProductDiscount[]
+  ): void;
+  export function setupWinBackOffersMock(offers: PurchasesWinBackOffer[]): void;
+  export function setupPromotionalOfferIneligible(): void;
+  export function setupRefundRequestStatus(status: REFUND_REQUEST_STATUS): void;
+  export function emitCustomerInfoUpdate(customerInfo?: CustomerInfo): void;
   export function createMockPremiumCustomerInfo(): CustomerInfo;
+  export function createMockLifetimeCustomerInfo(): CustomerInfo;
   export const mockFreeCustomerInfo: CustomerInfo;
   export const mockPremiumCustomerInfo: CustomerInfo;
 }